@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Announcement Notifications Unit Tests
+ *
+ * Tests for announcing announcements once, including scheduled ones when
+ * their window opens.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/notifications', () => ({
+  ...jest.requireActual('@/lib/notifications'),
+  notifyUsers: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { notifyUsers } from '@/lib/notifications';
+import { notifyAnnouncement, notifyDueAnnouncements } from '@/lib/announcement-notifications';
+
+const announcement = {
+  id: 'a1',
+  title: 'Exam moved',
+  content: '<p>The exam is now on Friday.</p>',
+  courseId: 'c1',
+  sectionId: null,
+  authorId: 'instructor',
+  courses: { code: 'CS101' },
+};
+
+/**
+ * Stand-in for the database: `pending` holds the ids not yet announced
+ */
+function mockDb(pending: string[], due: unknown[] = []) {
+  const notified = new Set<string>();
+  const db = {
+    announcements: {
+      findMany: jest.fn().mockResolvedValue(due),
+      updateMany: jest.fn(async ({ where }: { where: { id: string } }) => {
+        const claimed = pending.includes(where.id) && !notified.has(where.id);
+        if (claimed) notified.add(where.id);
+        return { count: claimed ? 1 : 0 };
+      }),
+    },
+    enrollments: {
+      findMany: jest.fn().mockResolvedValue([{ userId: 's1' }, { userId: 's2' }]),
+    },
+  };
+  Object.assign(prisma, db);
+  return db;
+}
+
+describe('notifyAnnouncement', () => {
+  beforeEach(() => {
+    (notifyUsers as jest.Mock).mockClear();
+  });
+
+  it('tells enrolled students about the announcement', async () => {
+    // Arrange
+    const db = mockDb(['a1']);
+
+    // Act
+    const announced = await notifyAnnouncement(announcement);
+
+    // Assert
+    expect(announced).toBe(true);
+    expect(db.enrollments.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { courseId: 'c1' } })
+    );
+    expect(notifyUsers).toHaveBeenCalledWith(
+      {
+        userIds: ['s1', 's2'],
+        type: 'ANNOUNCEMENT',
+        title: 'CS101: Exam moved',
+        body: 'The exam is now on Friday.',
+        link: '/courses/c1/announcements',
+        courseId: 'c1',
+        actorId: 'instructor',
+      },
+      prisma,
+      undefined
+    );
+  });
+
+  it('only tells the students of a section-specific announcement\'s section', async () => {
+    // Arrange
+    const db = mockDb(['a1']);
+
+    // Act
+    await notifyAnnouncement({ ...announcement, sectionId: 'sec1' });
+
+    // Assert
+    expect(db.enrollments.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { courseId: 'c1', sectionId: 'sec1' } })
+    );
+  });
+
+  it('does not announce an announcement twice', async () => {
+    // Arrange
+    mockDb(['a1']);
+    await notifyAnnouncement(announcement);
+
+    // Act
+    const announced = await notifyAnnouncement(announcement);
+
+    // Assert
+    expect(announced).toBe(false);
+    expect(notifyUsers).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('notifyDueAnnouncements', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    (notifyUsers as jest.Mock).mockClear();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  it('announces a scheduled announcement once its window has opened', async () => {
+    // Arrange
+    const now = new Date('2025-03-01T09:00:00Z');
+    const db = mockDb(['a1'], [announcement]);
+
+    // Act
+    const announced = await notifyDueAnnouncements(now);
+
+    // Assert
+    expect(announced).toBe(1);
+    expect(db.announcements.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          notifiedAt: null,
+          deletedAt: null,
+          AND: [
+            { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+            { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] },
+          ],
+        }),
+      })
+    );
+    expect(db.announcements.updateMany).toHaveBeenCalledWith({
+      where: { id: 'a1', notifiedAt: null },
+      data: { notifiedAt: now },
+    });
+    expect(notifyUsers).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'ANNOUNCEMENT', userIds: ['s1', 's2'] }),
+      prisma,
+      undefined
+    );
+  });
+
+  it('skips announcements another request announced first', async () => {
+    // Arrange
+    mockDb([], [announcement]);
+
+    // Act
+    const announced = await notifyDueAnnouncements();
+
+    // Assert
+    expect(announced).toBe(0);
+    expect(notifyUsers).not.toHaveBeenCalled();
+  });
+
+  it('does not throw when the announcements cannot be read', async () => {
+    // Arrange
+    const db = mockDb([]);
+    db.announcements.findMany.mockRejectedValue(new Error('Database unavailable'));
+
+    // Act & Assert
+    await expect(notifyDueAnnouncements()).resolves.toBe(0);
+    expect(errorSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Submission Attempts Unit Tests
+ *
+ * Tests for attempt limits and choosing the attempt that counts as the grade.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  getRemainingAttempts,
+  canSubmitAttempt,
+  selectGradedAttempt,
+  pickDisplayedAttempt,
+  UNLIMITED_ATTEMPTS,
+} from '@/lib/attempts';
+
+const attempts = [
+  { id: 'a1', attemptNumber: 1, score: 70 },
+  { id: 'a2', attemptNumber: 2, score: 85 },
+  { id: 'a3', attemptNumber: 3, score: 60 },
+  { id: 'a4', attemptNumber: 4, score: null },
+];
+
+describe('Attempts Module', () => {
+  describe('getRemainingAttempts / canSubmitAttempt', () => {
+    it('counts down from the attempt limit', () => {
+      expect(getRemainingAttempts(3, 1)).toBe(2);
+      expect(canSubmitAttempt(3, 2)).toBe(true);
+      expect(canSubmitAttempt(3, 3)).toBe(false);
+    });
+
+    it('never goes below zero', () => {
+      expect(getRemainingAttempts(2, 5)).toBe(0);
+    });
+
+    it('treats 0 as unlimited', () => {
+      expect(getRemainingAttempts(UNLIMITED_ATTEMPTS, 50)).toBeNull();
+      expect(canSubmitAttempt(UNLIMITED_ATTEMPTS, 50)).toBe(true);
+    });
+  });
+
+  describe('selectGradedAttempt', () => {
+    it('counts the latest graded attempt under LATEST', () => {
+      // Act
+      const result = selectGradedAttempt('LATEST', attempts);
+
+      // Assert
+      expect(result?.id).toBe('a3');
+    });
+
+    it('counts the highest score under HIGHEST', () => {
+      expect(selectGradedAttempt('HIGHEST', attempts)?.id).toBe('a2');
+    });
+
+    it('breaks HIGHEST ties in favour of the later attempt', () => {
+      const tied = [
+        { id: 'b2', attemptNumber: 2, score: 90 },
+        { id: 'b1', attemptNumber: 1, score: 90 },
+      ];
+
+      expect(selectGradedAttempt('HIGHEST', tied)?.id).toBe('b2');
+    });
+
+    it('counts the chosen attempt under MANUAL', () => {
+      expect(selectGradedAttempt('MANUAL', attempts, 'a1')?.id).toBe('a1');
+    });
+
+    it('falls back to the latest graded attempt when the MANUAL choice is not graded', () => {
+      expect(selectGradedAttempt('MANUAL', attempts, 'a4')?.id).toBe('a3');
+      expect(selectGradedAttempt('MANUAL', attempts)?.id).toBe('a3');
+    });
+
+    it('returns null when no attempt is graded', () => {
+      const ungraded = [{ id: 'c1', attemptNumber: 1, score: null }];
+
+      expect(selectGradedAttempt('LATEST', ungraded)).toBeNull();
+    });
+  });
+
+  describe('pickDisplayedAttempt', () => {
+    it('prefers the counted attempt', () => {
+      expect(pickDisplayedAttempt(attempts, 'a2')?.id).toBe('a2');
+    });
+
+    it('falls back to the latest attempt', () => {
+      expect(pickDisplayedAttempt(attempts, null)?.id).toBe('a4');
+      expect(pickDisplayedAttempt(attempts, 'missing')?.id).toBe('a4');
+    });
+
+    it('returns null without attempts', () => {
+      expect(pickDisplayedAttempt([])).toBeNull();
+    });
+  });
+});
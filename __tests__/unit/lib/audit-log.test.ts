@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Audit Log Unit Tests
+ *
+ * Tests for recording audited actions, building report filters and
+ * exporting entries as CSV.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import type { Prisma } from '@prisma/client';
+import {
+  recordAuditLog,
+  buildAuditLogWhere,
+  generateAuditLogCSV,
+  getAuditActionLabel,
+  AuditLogEntry,
+} from '@/lib/audit-log';
+
+function createDb(create: jest.Mock) {
+  return { audit_logs: { create } } as unknown as Prisma.TransactionClient;
+}
+
+describe('recordAuditLog', () => {
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('stores the action with the actor and their role', async () => {
+    // Arrange
+    const create = jest.fn().mockResolvedValue({});
+
+    // Act
+    await recordAuditLog(
+      {
+        actor: { id: 'admin-1', role: 'ADMIN' },
+        action: 'user_role_changed',
+        targetType: 'user',
+        targetId: 'user-1',
+        details: { previousRole: 'STUDENT', newRole: 'INSTRUCTOR' },
+      },
+      createDb(create)
+    );
+
+    // Assert
+    expect(create.mock.calls[0][0].data).toEqual(
+      expect.objectContaining({
+        action: 'user_role_changed',
+        actorId: 'admin-1',
+        actorRole: 'ADMIN',
+        targetType: 'user',
+        targetId: 'user-1',
+        details: { previousRole: 'STUDENT', newRole: 'INSTRUCTOR' },
+      })
+    );
+    expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual(
+      expect.objectContaining({ action: 'user_role_changed', actorId: 'admin-1', newRole: 'INSTRUCTOR' })
+    );
+  });
+
+  it('does not throw when the entry cannot be stored', async () => {
+    // Arrange
+    const create = jest.fn().mockRejectedValue(new Error('Database unavailable'));
+
+    // Act & Assert
+    await expect(
+      recordAuditLog(
+        { actor: { id: 'admin-1', role: 'ADMIN' }, action: 'password_reset', targetType: 'user', targetId: 'u1' },
+        createDb(create)
+      )
+    ).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalled();
+  });
+});
+
+describe('buildAuditLogWhere', () => {
+  it('returns an empty filter when nothing is selected', () => {
+    expect(buildAuditLogWhere({})).toEqual({});
+  });
+
+  it('filters by actor, action, target and date range', () => {
+    // Arrange
+    const from = new Date('2025-01-01T00:00:00Z');
+    const to = new Date('2025-01-31T23:59:59Z');
+
+    // Act
+    const where = buildAuditLogWhere({
+      actorId: 'admin-1',
+      action: 'record_restored',
+      targetType: 'course',
+      targetId: 'course-1',
+      from,
+      to,
+    });
+
+    // Assert
+    expect(where).toEqual({
+      actorId: 'admin-1',
+      action: 'record_restored',
+      targetType: 'course',
+      targetId: 'course-1',
+      createdAt: { gte: from, lte: to },
+    });
+  });
+
+  it('searches the actor name and email', () => {
+    // Act
+    const where = buildAuditLogWhere({ search: 'ada' });
+
+    // Assert
+    expect(where.users).toEqual({
+      OR: [
+        { name: { contains: 'ada', mode: 'insensitive' } },
+        { surname: { contains: 'ada', mode: 'insensitive' } },
+        { email: { contains: 'ada', mode: 'insensitive' } },
+      ],
+    });
+  });
+});
+
+describe('getAuditActionLabel', () => {
+  it('labels known actions and falls back to the action name', () => {
+    expect(getAuditActionLabel('gradebook_exported')).toBe('Gradebook exported');
+    expect(getAuditActionLabel('legacy_action')).toBe('legacy_action');
+  });
+});
+
+describe('generateAuditLogCSV', () => {
+  it('writes a header and one row per entry with escaped details', () => {
+    // Arrange
+    const entries: AuditLogEntry[] = [
+      {
+        id: 'log-1',
+        action: 'gradebook_exported',
+        actionLabel: 'Gradebook exported',
+        targetType: 'gradebook',
+        targetId: 'course-1',
+        details: { rowCount: 2, fileSize: 100 },
+        createdAt: new Date('2025-01-15T10:00:00Z'),
+        actor: { id: 'i1', name: 'Ada Lovelace', email: 'ada@example.com', role: 'INSTRUCTOR' },
+      },
+      {
+        id: 'log-2',
+        action: 'password_reset',
+        actionLabel: 'Password reset',
+        targetType: 'user',
+        targetId: null,
+        details: null,
+        createdAt: new Date('2025-01-16T10:00:00Z'),
+        actor: { id: 'a1', name: 'Grace Hopper', email: 'grace@example.com', role: 'ADMIN' },
+      },
+    ];
+
+    // Act
+    const lines = generateAuditLogCSV(entries).split('\n');
+
+    // Assert
+    expect(lines[0]).toBe('Date,Actor,Actor Email,Actor Role,Action,Target Type,Target ID,Details');
+    expect(lines[1]).toBe(
+      '2025-01-15T10:00:00.000Z,Ada Lovelace,ada@example.com,INSTRUCTOR,Gradebook exported,gradebook,course-1,"{""rowCount"":2,""fileSize"":100}"'
+    );
+    expect(lines[2]).toBe(
+      '2025-01-16T10:00:00.000Z,Grace Hopper,grace@example.com,ADMIN,Password reset,user,,'
+    );
+  });
+});
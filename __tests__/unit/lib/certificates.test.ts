@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Certificates Unit Tests
+ *
+ * Tests for the course completion rule, verification codes and the
+ * certificate PDF.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  evaluateCourseCompletion,
+  generateCertificateCode,
+  normalizeCertificateCode,
+  renderCertificatePdf,
+} from '@/lib/certificates';
+
+describe('evaluateCourseCompletion', () => {
+  const rules = { certificatesEnabled: true, certificateMinScore: 70 };
+
+  it('completes when every module is done and the score is met', () => {
+    // Act
+    const result = evaluateCourseCompletion(rules, {
+      completedModules: 4,
+      totalModules: 4,
+      percentage: 82.5,
+    });
+
+    // Assert
+    expect(result).toEqual({ isComplete: true, remaining: [] });
+  });
+
+  it('lists unfinished modules and a low score', () => {
+    // Act
+    const result = evaluateCourseCompletion(rules, {
+      completedModules: 3,
+      totalModules: 4,
+      percentage: 65,
+    });
+
+    // Assert
+    expect(result.isComplete).toBe(false);
+    expect(result.remaining).toEqual([
+      'Complete 1 more module',
+      'Reach an overall score of 70% (current score: 65%)',
+    ]);
+  });
+
+  it('requires grades when a minimum score is set', () => {
+    // Act
+    const result = evaluateCourseCompletion(rules, {
+      completedModules: 2,
+      totalModules: 2,
+      percentage: null,
+    });
+
+    // Assert
+    expect(result.isComplete).toBe(false);
+  });
+
+  it('ignores the score without a minimum', () => {
+    // Act
+    const result = evaluateCourseCompletion(
+      { certificatesEnabled: true, certificateMinScore: null },
+      { completedModules: 2, totalModules: 2, percentage: null }
+    );
+
+    // Assert
+    expect(result.isComplete).toBe(true);
+  });
+
+  it('never completes courses without certificates or modules', () => {
+    expect(
+      evaluateCourseCompletion(
+        { certificatesEnabled: false, certificateMinScore: null },
+        { completedModules: 2, totalModules: 2, percentage: 100 }
+      ).isComplete
+    ).toBe(false);
+    expect(
+      evaluateCourseCompletion(
+        { certificatesEnabled: true, certificateMinScore: null },
+        { completedModules: 0, totalModules: 0, percentage: 100 }
+      ).isComplete
+    ).toBe(false);
+  });
+});
+
+describe('certificate codes', () => {
+  it('generates grouped codes that normalize to themselves', () => {
+    // Act
+    const code = generateCertificateCode();
+
+    // Assert
+    expect(code).toMatch(/^[0-9A-Z]{4}-[0-9A-Z]{4}-[0-9A-Z]{4}$/);
+    expect(normalizeCertificateCode(code)).toBe(code);
+  });
+
+  it('accepts codes typed without dashes or with look-alike letters', () => {
+    expect(normalizeCertificateCode(' 7k3m q9tx 2hbd ')).toBe('7K3M-Q9TX-2HBD');
+    expect(normalizeCertificateCode('OIL0-AAAA-BBBB')).toBe('0110-AAAA-BBBB');
+  });
+
+  it('rejects anything else', () => {
+    expect(normalizeCertificateCode('7K3M-Q9TX')).toBeNull();
+    expect(normalizeCertificateCode('7K3M-Q9TX-2HBU')).toBeNull();
+    expect(normalizeCertificateCode('../../etc/passwd')).toBeNull();
+  });
+});
+
+describe('renderCertificatePdf', () => {
+  it('prints the recipient, course, score and verification code', () => {
+    // Act
+    const text = renderCertificatePdf(
+      {
+        code: '7K3M-Q9TX-2HBD',
+        recipientName: 'Ada Lovelace',
+        courseTitle: 'Introduction to Analytical Engines',
+        courseCode: 'CS-101',
+        instructorName: 'Charles Babbage',
+        finalPercentage: 91.5,
+        letterGrade: 'A-',
+        issuedAt: new Date('2025-06-01T12:00:00Z'),
+      },
+      'https://lms.example.com/verify/7K3M-Q9TX-2HBD'
+    ).toString('latin1');
+
+    // Assert
+    expect(text.startsWith('%PDF-')).toBe(true);
+    expect(text).toContain('(Ada Lovelace) Tj');
+    expect(text).toContain('(Introduction to Analytical Engines) Tj');
+    expect(text).toContain('(with a final score of 91.5% \\(A-\\)) Tj');
+    expect(text).toContain('(June 1, 2025) Tj');
+    expect(text).toContain('https://lms.example.com/verify/7K3M-Q9TX-2HBD');
+  });
+});
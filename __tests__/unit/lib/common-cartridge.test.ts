@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Common Cartridge Unit Tests
+ *
+ * Tests for writing course cartridges and reading them back, including
+ * cartridges produced by other systems.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  buildCommonCartridge,
+  CartridgeError,
+  parseCommonCartridge,
+  type CartridgeCourse,
+} from '@/lib/common-cartridge';
+import { createZip, readZipEntries } from '@/lib/zip';
+
+function buildCourse(): CartridgeCourse {
+  return {
+    title: 'Intro to AI',
+    description: 'Search & planning',
+    settings: {
+      semester: 'Fall',
+      year: 2025,
+      learningObjectives: ['Search'],
+      gradeCategories: [{ name: 'Homework', weight: 40 }],
+    },
+    modules: [
+      {
+        identifier: 'module_1',
+        title: 'Week 1',
+        settings: { isPublished: true, passingScore: 70 },
+        items: [
+          {
+            kind: 'page',
+            identifier: 'resource_page',
+            title: 'Welcome',
+            html: '<p>Hello <strong>class</strong></p>',
+            settings: { contentType: 'TEXT', isPublished: true },
+          },
+          {
+            kind: 'file',
+            identifier: 'resource_file',
+            title: 'Slides',
+            fileName: 'slides.pdf',
+            data: Buffer.from('%PDF-1.4 slides'),
+            settings: { contentType: 'DOCUMENT', isRequired: false },
+          },
+          {
+            kind: 'assignment',
+            identifier: 'resource_assignment',
+            title: 'Homework 1',
+            html: '<p>Solve 8-puzzle</p>',
+            maxPoints: 10,
+            settings: { dueDate: new Date('2025-09-07T23:59:00.000Z'), category: 'Homework' },
+          },
+        ],
+      },
+      {
+        identifier: 'module_2',
+        title: 'Week 2',
+        settings: { prerequisiteModule: 'module_1', prerequisiteAssignment: 'resource_assignment' },
+        items: [
+          {
+            kind: 'discussion',
+            identifier: 'resource_discussion',
+            title: 'A* vs. Dijkstra',
+            html: '<p>Compare them</p>',
+            settings: { isPinned: true },
+          },
+        ],
+      },
+    ],
+    items: [
+      {
+        kind: 'link',
+        identifier: 'resource_link',
+        title: 'Lecture recording',
+        url: 'https://www.youtube.com/watch?v=abc',
+        settings: { contentType: 'YOUTUBE' },
+      },
+    ],
+  };
+}
+
+describe('buildCommonCartridge', () => {
+  it('writes a CC 1.3 manifest with a resource per item', () => {
+    // Act
+    const entries = readZipEntries(buildCommonCartridge(buildCourse()));
+
+    // Assert
+    const paths = entries.map((entry) => entry.path);
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        'imsmanifest.xml',
+        'course_settings/lms_settings.json',
+        'web_resources/resource_page/welcome.html',
+        'web_resources/resource_file/slides.pdf',
+        'resource_assignment/assignment.xml',
+        'resource_discussion/discussion.xml',
+        'resource_link/weblink.xml',
+      ])
+    );
+    const manifest = entries.find((entry) => entry.path === 'imsmanifest.xml')!.data.toString();
+    expect(manifest).toContain('<schemaversion>1.3.0</schemaversion>');
+    expect(manifest).toContain('type="imsdt_xmlv1p3"');
+    expect(manifest).toContain('type="assignment_xmlv1p0"');
+  });
+});
+
+describe('parseCommonCartridge', () => {
+  it('reads back the course it writes', () => {
+    // Act
+    const result = parseCommonCartridge(buildCommonCartridge(buildCourse()));
+
+    // Assert
+    expect(result.warnings).toEqual([]);
+    expect(result.title).toBe('Intro to AI');
+    expect(result.description).toBe('Search &amp; planning');
+    expect(result.settings).toMatchObject({ semester: 'Fall', year: 2025 });
+    expect(result.modules.map((module) => module.title)).toEqual(['Week 1', 'Week 2']);
+    expect(result.modules[1].settings).toMatchObject({
+      prerequisiteModule: 'module_1',
+      prerequisiteAssignment: 'resource_assignment',
+    });
+
+    const [page, file, assignment] = result.modules[0].items;
+    expect(page).toMatchObject({ kind: 'page', title: 'Welcome', html: '<p>Hello <strong>class</strong></p>' });
+    expect(file).toMatchObject({ kind: 'file', title: 'Slides', fileName: 'slides.pdf' });
+    expect(file.kind === 'file' && file.data.toString()).toBe('%PDF-1.4 slides');
+    expect(assignment).toMatchObject({
+      kind: 'assignment',
+      title: 'Homework 1',
+      maxPoints: 10,
+      settings: { dueDate: new Date('2025-09-07T23:59:00.000Z'), category: 'Homework' },
+    });
+    expect(result.modules[1].items[0]).toMatchObject({
+      kind: 'discussion',
+      title: 'A* vs. Dijkstra',
+      settings: { isPinned: true },
+    });
+    expect(result.items).toEqual([
+      expect.objectContaining({ kind: 'link', url: 'https://www.youtube.com/watch?v=abc' }),
+    ]);
+  });
+
+  it('reads cartridges from other systems and skips unsupported resources', () => {
+    // Arrange
+    const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+      <manifest identifier="m" xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1">
+        <metadata><schema>IMS Common Cartridge</schema><schemaversion>1.1.0</schemaversion></metadata>
+        <organizations>
+          <organization identifier="o" structure="rooted-hierarchy">
+            <item identifier="root">
+              <item identifier="unit1"><title>Unit 1</title>
+                <item identifier="sub"><title>Readings</title>
+                  <item identifier="i1" identifierref="r1"><title>Reading</title></item>
+                </item>
+                <item identifier="i2" identifierref="r2"><title>Quiz</title></item>
+                <item identifier="i3" identifierref="r3"><title>Forum</title></item>
+              </item>
+            </item>
+          </organization>
+        </organizations>
+        <resources>
+          <resource identifier="r1" type="webcontent" href="pages/reading.html"><file href="pages/reading.html"/></resource>
+          <resource identifier="r2" type="imsqti_xmlv1p2/imscc_xmlv1p1/assessment"><file href="r2/assessment.xml"/></resource>
+          <resource identifier="r3" type="imsdt_xmlv1p1"><file href="r3/topic.xml"/></resource>
+        </resources>
+      </manifest>`;
+    const archive = createZip([
+      { path: 'imsmanifest.xml', data: Buffer.from(manifest) },
+      {
+        path: 'pages/reading.html',
+        data: Buffer.from('<html><body><p>Read this</p><script>alert(1)</script></body></html>'),
+      },
+      {
+        path: 'r3/topic.xml',
+        data: Buffer.from(
+          '<topic xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imsdt_v1p1"><title>Introductions</title><text texttype="text/html">&lt;p&gt;Say hi&lt;/p&gt;</text></topic>'
+        ),
+      },
+    ]);
+
+    // Act
+    const result = parseCommonCartridge(archive);
+
+    // Assert
+    expect(result.title).toBe('Imported course');
+    expect(result.modules).toHaveLength(1);
+    expect(result.modules[0].items).toEqual([
+      expect.objectContaining({ kind: 'page', title: 'Reading', html: '<p>Read this</p>' }),
+      expect.objectContaining({ kind: 'discussion', title: 'Introductions', html: '<p>Say hi</p>' }),
+    ]);
+    expect(result.warnings).toEqual([
+      'Skipped "Quiz": imsqti_xmlv1p2/imscc_xmlv1p1/assessment resources are not supported',
+    ]);
+  });
+
+  it('rejects archives without a manifest', () => {
+    // Arrange
+    const archive = createZip([{ path: 'readme.txt', data: Buffer.from('hello') }]);
+
+    // Act & Assert
+    expect(() => parseCommonCartridge(archive)).toThrow(CartridgeError);
+  });
+
+  it('rejects files that are not zip archives', () => {
+    // Act & Assert
+    expect(() => parseCommonCartridge(Buffer.from('not a zip'))).toThrow(CartridgeError);
+  });
+});
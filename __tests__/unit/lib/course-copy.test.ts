@@ -0,0 +1,449 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Course Copy Unit Tests
+ *
+ * Tests for planning a course copy: id remapping, date shifting and
+ * instructor-owned resources.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  planCourseCopy,
+  shiftDate,
+  type CourseCopyOptions,
+  type CourseCopySource,
+  type InstructorResources,
+} from '@/lib/course-copy';
+
+const NOW = new Date('2026-01-05T00:00:00.000Z');
+
+function sequentialIds() {
+  let next = 0;
+  return () => `new-${++next}`;
+}
+
+function buildSource(): CourseCopySource {
+  return {
+    id: 'course-1',
+    title: 'Intro to AI',
+    description: 'Foundations',
+    code: 'AI101-F25',
+    semester: 'Fall',
+    year: 2025,
+    isActive: false,
+    instructorId: 'instructor-1',
+    learningObjectives: ['Search'],
+    prerequisites: null,
+    targetAudience: null,
+    certificatesEnabled: true,
+    certificateMinScore: 70,
+    grade_categories: [{ id: 'cat-1', name: 'Homework', weight: 40, orderIndex: 0 }],
+    modules: [
+      {
+        id: 'mod-1',
+        title: 'Week 1',
+        description: null,
+        orderIndex: 0,
+        isPublished: true,
+        publishAt: new Date('2025-09-01T08:00:00.000Z'),
+        unpublishAt: null,
+        requiresPrevious: false,
+        unlockAt: null,
+        prerequisiteModuleId: null,
+        prerequisiteAssignmentId: null,
+        prerequisiteMinScore: null,
+        passingScore: null,
+        requireDiscussionPost: false,
+        contentWeight: null,
+        assignmentWeight: null,
+        discussionWeight: null,
+      },
+      {
+        id: 'mod-2',
+        title: 'Week 2',
+        description: null,
+        orderIndex: 1,
+        isPublished: true,
+        publishAt: null,
+        unpublishAt: null,
+        requiresPrevious: true,
+        unlockAt: new Date('2025-09-08T08:00:00.000Z'),
+        prerequisiteModuleId: 'mod-1',
+        prerequisiteAssignmentId: 'asg-1',
+        prerequisiteMinScore: 60,
+        passingScore: 70,
+        requireDiscussionPost: true,
+        contentWeight: 50,
+        assignmentWeight: 50,
+        discussionWeight: 0,
+      },
+    ],
+    assignments: [
+      {
+        id: 'asg-1',
+        title: 'Homework 1',
+        description: null,
+        dueDate: new Date('2025-09-07T23:59:00.000Z'),
+        maxPoints: 10,
+        isPublished: true,
+        publishAt: null,
+        unpublishAt: null,
+        isRequired: true,
+        latePolicy: 'PENALTY',
+        lateGraceMinutes: 0,
+        latePenaltyPerDay: 10,
+        lateCutoffAt: new Date('2025-09-10T23:59:00.000Z'),
+        maxAttempts: 1,
+        gradedAttemptPolicy: 'LATEST',
+        moduleId: 'mod-1',
+        categoryId: 'cat-1',
+        rubricId: 'rubric-1',
+        courseId: 'course-1',
+        createdById: 'instructor-1',
+      },
+    ],
+    course_content: [
+      {
+        id: 'content-1',
+        title: 'Slides',
+        type: 'DOCUMENT',
+        content: null,
+        fileUrl: 'https://files.example.com/slides.pdf',
+        thumbnailUrl: null,
+        s3Key: 'uploads/slides.pdf',
+        thumbnailS3Key: null,
+        orderIndex: 0,
+        isPublished: true,
+        publishAt: null,
+        unpublishAt: null,
+        isRequired: true,
+        moduleId: 'mod-1',
+        quizzes: null,
+        scorm_packages: null,
+      },
+      {
+        id: 'content-2',
+        title: 'Quiz 1',
+        type: 'QUIZ',
+        content: null,
+        fileUrl: null,
+        thumbnailUrl: null,
+        s3Key: null,
+        thumbnailS3Key: null,
+        orderIndex: 1,
+        isPublished: true,
+        publishAt: null,
+        unpublishAt: null,
+        isRequired: true,
+        moduleId: 'mod-1',
+        quizzes: {
+          id: 'quiz-1',
+          timeLimitMinutes: 20,
+          questionCount: 5,
+          shuffleQuestions: true,
+          shuffleOptions: false,
+          assignmentId: 'asg-1',
+          bankId: 'bank-1',
+        },
+        scorm_packages: null,
+      },
+      {
+        id: 'content-3',
+        title: 'Orphaned quiz',
+        type: 'QUIZ',
+        content: null,
+        fileUrl: null,
+        thumbnailUrl: null,
+        s3Key: null,
+        thumbnailS3Key: null,
+        orderIndex: 2,
+        isPublished: false,
+        publishAt: null,
+        unpublishAt: null,
+        isRequired: false,
+        moduleId: 'mod-2',
+        quizzes: {
+          id: 'quiz-2',
+          timeLimitMinutes: null,
+          questionCount: null,
+          shuffleQuestions: false,
+          shuffleOptions: false,
+          assignmentId: 'asg-deleted',
+          bankId: 'bank-1',
+        },
+        scorm_packages: null,
+      },
+    ],
+    discussions: [
+      {
+        id: 'disc-1',
+        title: 'Introduce yourself',
+        description: null,
+        isPinned: true,
+        isLocked: false,
+        moduleId: 'mod-1',
+        courseId: 'course-1',
+        createdBy: 'instructor-1',
+      },
+    ],
+  } as unknown as CourseCopySource;
+}
+
+const options: CourseCopyOptions = {
+  title: 'Intro to AI',
+  code: 'AI101-S26',
+  semester: 'Spring',
+  year: 2026,
+  dateOffsetDays: 133,
+  instructorId: 'instructor-1',
+};
+
+describe('shiftDate', () => {
+  it('moves a date by whole days', () => {
+    // Act
+    const result = shiftDate(new Date('2025-09-07T23:59:00.000Z'), 7);
+
+    // Assert
+    expect(result).toEqual(new Date('2025-09-14T23:59:00.000Z'));
+  });
+
+  it('moves a date earlier for a negative offset', () => {
+    // Act
+    const result = shiftDate(new Date('2025-09-07T23:59:00.000Z'), -7);
+
+    // Assert
+    expect(result).toEqual(new Date('2025-08-31T23:59:00.000Z'));
+  });
+
+  it('keeps null dates null', () => {
+    // Act & Assert
+    expect(shiftDate(null, 30)).toBeNull();
+  });
+});
+
+describe('planCourseCopy', () => {
+  it('creates the new course with the requested details', () => {
+    // Act
+    const plan = planCourseCopy(buildSource(), options, undefined, NOW, sequentialIds());
+
+    // Assert
+    expect(plan.course).toMatchObject({
+      id: 'new-1',
+      title: 'Intro to AI',
+      code: 'AI101-S26',
+      semester: 'Spring',
+      year: 2026,
+      isActive: true,
+      instructorId: 'instructor-1',
+      certificatesEnabled: true,
+      certificateMinScore: 70,
+    });
+  });
+
+  it('remaps modules, assignments and content into the new course', () => {
+    // Act
+    const plan = planCourseCopy(buildSource(), options, undefined, NOW, sequentialIds());
+
+    // Assert
+    const [module1, module2] = plan.modules;
+    const [assignment] = plan.assignments;
+    expect(plan.modules.map((m) => m.orderIndex)).toEqual([0, 1]);
+    expect(module1.courseId).toBe(plan.course.id);
+    expect(assignment.moduleId).toBe(module1.id);
+    expect(assignment.categoryId).toBe(plan.gradeCategories[0].id);
+    expect(plan.content.every((item) => item.moduleId === module1.id)).toBe(true);
+    expect(plan.discussions[0]).toMatchObject({ moduleId: module1.id, courseId: plan.course.id });
+    expect(plan.modulePrerequisites).toEqual([
+      {
+        id: module2.id,
+        prerequisiteModuleId: module1.id,
+        prerequisiteAssignmentId: assignment.id,
+      },
+    ]);
+  });
+
+  it('shifts scheduled dates by the offset', () => {
+    // Act
+    const plan = planCourseCopy(buildSource(), options, undefined, NOW, sequentialIds());
+
+    // Assert
+    expect(plan.assignments[0].dueDate).toEqual(new Date('2026-01-18T23:59:00.000Z'));
+    expect(plan.assignments[0].lateCutoffAt).toEqual(new Date('2026-01-21T23:59:00.000Z'));
+    expect(plan.modules[0].publishAt).toEqual(new Date('2026-01-12T08:00:00.000Z'));
+    expect(plan.modules[1].unlockAt).toEqual(new Date('2026-01-19T08:00:00.000Z'));
+  });
+
+  it('re-uses stored files instead of duplicating them', () => {
+    // Act
+    const plan = planCourseCopy(buildSource(), options, undefined, NOW, sequentialIds());
+
+    // Assert
+    expect(plan.content[0]).toMatchObject({
+      s3Key: 'uploads/slides.pdf',
+      fileUrl: 'https://files.example.com/slides.pdf',
+    });
+  });
+
+  it('skips quizzes whose assignment was not copied', () => {
+    // Act
+    const plan = planCourseCopy(buildSource(), options, undefined, NOW, sequentialIds());
+
+    // Assert
+    expect(plan.content.map((item) => item.title)).toEqual(['Slides', 'Quiz 1']);
+    expect(plan.quizzes).toHaveLength(1);
+    expect(plan.quizzes[0]).toMatchObject({
+      contentId: plan.content[1].id,
+      assignmentId: plan.assignments[0].id,
+      bankId: 'bank-1',
+    });
+  });
+
+  it('links a graded discussion to the copy of its assignment', () => {
+    // Arrange
+    const source = buildSource();
+    const assignmentId = source.assignments[0].id;
+    Object.assign(source.discussions[0], { assignmentId, requiredPosts: 1, requiredReplies: 2 });
+
+    // Act
+    const plan = planCourseCopy(source, options, undefined, NOW, sequentialIds());
+
+    // Assert
+    expect(plan.discussions[0]).toMatchObject({
+      assignmentId: plan.assignments[0].id,
+      requiredPosts: 1,
+      requiredReplies: 2,
+    });
+  });
+
+  it('drops the minimum score when the gating assignment was not copied', () => {
+    // Arrange
+    const source = buildSource();
+    source.modules[1].prerequisiteAssignmentId = 'asg-deleted';
+
+    // Act
+    const plan = planCourseCopy(source, options, undefined, NOW, sequentialIds());
+
+    // Assert
+    expect(plan.modules[1].prerequisiteMinScore).toBeNull();
+    expect(plan.modulePrerequisites[0].prerequisiteAssignmentId).toBeNull();
+  });
+
+  it('re-uses rubrics and question banks for the same instructor', () => {
+    // Act
+    const plan = planCourseCopy(buildSource(), options, undefined, NOW, sequentialIds());
+
+    // Assert
+    expect(plan.assignments[0].rubricId).toBe('rubric-1');
+    expect(plan.rubrics).toEqual([]);
+    expect(plan.questionBanks).toEqual([]);
+    expect(plan.feedbackTemplates).toEqual([]);
+  });
+
+  it('copies rubrics, question banks and templates for another instructor', () => {
+    // Arrange
+    const resources = {
+      rubrics: [
+        {
+          id: 'rubric-1',
+          name: 'Essay rubric',
+          description: null,
+          instructorId: 'instructor-1',
+          rubric_criteria: [
+            {
+              id: 'criterion-1',
+              title: 'Clarity',
+              description: null,
+              orderIndex: 0,
+              rubric_levels: [
+                { id: 'level-1', label: 'Good', description: null, points: 5, orderIndex: 0 },
+              ],
+            },
+          ],
+        },
+      ],
+      questionBanks: [
+        {
+          id: 'bank-1',
+          name: 'Week 1 questions',
+          description: null,
+          instructorId: 'instructor-1',
+          quiz_questions: [
+            {
+              id: 'question-1',
+              type: 'MULTIPLE_CHOICE',
+              prompt: 'What is A*?',
+              points: 1,
+              numericAnswer: null,
+              numericTolerance: null,
+              acceptedAnswers: [],
+              caseSensitive: false,
+              orderIndex: 0,
+              quiz_question_options: [
+                { id: 'option-1', text: 'A search algorithm', isCorrect: true, orderIndex: 0 },
+              ],
+            },
+          ],
+        },
+      ],
+      feedbackTemplates: [
+        {
+          id: 'template-1',
+          name: 'Great work',
+          category: 'praise',
+          template: 'Great work, {studentName}!',
+          isShared: false,
+          instructorId: 'instructor-1',
+        },
+      ],
+    } as unknown as InstructorResources;
+
+    // Act
+    const plan = planCourseCopy(
+      buildSource(),
+      { ...options, instructorId: 'instructor-2' },
+      resources,
+      NOW,
+      sequentialIds()
+    );
+
+    // Assert
+    const [rubric] = plan.rubrics;
+    const [bank] = plan.questionBanks;
+    expect(rubric).toMatchObject({ name: 'Essay rubric', instructorId: 'instructor-2' });
+    expect(plan.rubricCriteria[0].rubricId).toBe(rubric.id);
+    expect(plan.rubricLevels[0].criterionId).toBe(plan.rubricCriteria[0].id);
+    expect(plan.assignments[0]).toMatchObject({
+      rubricId: rubric.id,
+      createdById: 'instructor-2',
+    });
+    expect(bank).toMatchObject({ name: 'Week 1 questions', instructorId: 'instructor-2' });
+    expect(plan.quizQuestions[0].bankId).toBe(bank.id);
+    expect(plan.quizQuestionOptions[0].questionId).toBe(plan.quizQuestions[0].id);
+    expect(plan.quizzes[0].bankId).toBe(bank.id);
+    expect(plan.feedbackTemplates).toEqual([
+      expect.objectContaining({ name: 'Great work', isShared: false, instructorId: 'instructor-2' }),
+    ]);
+    expect(plan.discussions[0].createdBy).toBe('instructor-2');
+  });
+
+  it('skips quizzes whose question bank is unavailable to another instructor', () => {
+    // Act
+    const plan = planCourseCopy(
+      buildSource(),
+      { ...options, instructorId: 'instructor-2' },
+      { rubrics: [], questionBanks: [], feedbackTemplates: [] },
+      NOW,
+      sequentialIds()
+    );
+
+    // Assert
+    expect(plan.quizzes).toEqual([]);
+    expect(plan.content.map((item) => item.title)).toEqual(['Slides']);
+    expect(plan.assignments[0].rubricId).toBeNull();
+  });
+});
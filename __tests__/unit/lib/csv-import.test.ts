@@ -0,0 +1,245 @@
+/**
+ * CSV Import Utility Unit Tests
+ *
+ * Tests for parsing CSV text and working out the grade changes in an
+ * imported gradebook CSV.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  parseCSV,
+  parseGradebookCSV,
+  GradebookImportAssignment,
+  GradebookImportStudent,
+} from '@/lib/csv-import';
+import { generateGradebookCSV } from '@/lib/csv-export';
+import { evaluateLateSubmission } from '@/lib/late-policy';
+
+const assignments: GradebookImportAssignment[] = [
+  { id: 'a1', title: 'Essay, Part 1', maxPoints: 50 },
+  { id: 'a2', title: 'Quiz', maxPoints: 10 },
+];
+
+const students: GradebookImportStudent[] = [
+  {
+    id: 's1',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    grades: [
+      { assignmentId: 'a1', points: 40, submissionId: 'sub-1', attemptPoints: 40, latePenaltyPercent: 0 },
+      { assignmentId: 'a2', points: null, submissionId: 'sub-2', attemptPoints: null, latePenaltyPercent: 0 },
+    ],
+  },
+  {
+    id: 's2',
+    name: 'John Roe',
+    email: 'john@example.com',
+    grades: [
+      { assignmentId: 'a1', points: null, submissionId: null, attemptPoints: null, latePenaltyPercent: 0 },
+      { assignmentId: 'a2', points: 7, submissionId: 'sub-3', attemptPoints: 7, latePenaltyPercent: 0 },
+    ],
+  },
+];
+
+const header = 'Student Name,Email,"Essay, Part 1 (50)",Quiz (10),Total Points,Percentage,GPA';
+
+describe('parseCSV', () => {
+  it('parses quoted fields with commas, quotes and newlines', () => {
+    // Arrange
+    const text = 'a,"b, c","say ""hi""","line\nbreak"\r\n1,2,3,4';
+
+    // Act
+    const rows = parseCSV(text);
+
+    // Assert
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"', 'line\nbreak'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('strips the UTF-8 BOM and skips blank lines', () => {
+    // Act
+    const rows = parseCSV('\uFEFFa,b\n\n1,2\n');
+
+    // Assert
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('parseGradebookCSV', () => {
+  it('reads back an exported gradebook without changes', () => {
+    // Arrange
+    const csv = generateGradebookCSV({
+      courseCode: 'CS101',
+      courseTitle: 'Intro',
+      assignments,
+      students: students.map((s) => ({
+        id: s.id,
+        name: s.name,
+        email: s.email,
+        grades: s.grades.map((g) => ({
+          assignmentId: g.assignmentId,
+          score: g.points,
+          status: g.points !== null ? 'graded' : 'pending',
+        })),
+        totalPoints: 0,
+        percentage: 0,
+        gpa: null,
+      })),
+    });
+
+    // Act
+    const plan = parseGradebookCSV(csv, { assignments, students });
+
+    // Assert
+    expect(plan.errors).toEqual([]);
+    expect(plan.changes).toEqual([]);
+    expect(plan.rowCount).toBe(2);
+    expect(plan.unchangedCount).toBe(2);
+  });
+
+  it('reports changed grades matched by email', () => {
+    // Arrange
+    const csv = [header, 'Jane Doe,JANE@example.com,45,8.5,,,', 'John Roe,john@example.com,missing,7,,,'].join('\n');
+
+    // Act
+    const plan = parseGradebookCSV(csv, { assignments, students });
+
+    // Assert
+    expect(plan.errors).toEqual([]);
+    expect(plan.unchangedCount).toBe(1);
+    expect(plan.changes).toEqual([
+      expect.objectContaining({ row: 2, studentId: 's1', assignmentId: 'a1', submissionId: 'sub-1', oldPoints: 40, newPoints: 45 }),
+      expect.objectContaining({ row: 2, studentId: 's1', assignmentId: 'a2', submissionId: 'sub-2', oldPoints: null, newPoints: 8.5 }),
+    ]);
+  });
+
+  it('scores a late attempt before its penalty', () => {
+    // Arrange: submitted two days late under a 10% per day DEDUCT policy
+    const { penaltyPercent } = evaluateLateSubmission(
+      {
+        dueDate: new Date('2025-03-01T12:00:00Z'),
+        latePolicy: 'DEDUCT',
+        lateGraceMinutes: 0,
+        latePenaltyPerDay: 10,
+        lateCutoffAt: null,
+      },
+      new Date('2025-03-03T09:00:00Z')
+    );
+    const late: GradebookImportStudent[] = [
+      {
+        ...students[0],
+        grades: [
+          { assignmentId: 'a1', points: 32, submissionId: 'sub-1', attemptPoints: 40, latePenaltyPercent: penaltyPercent },
+        ],
+      },
+    ];
+
+    // Act
+    const unchanged = parseGradebookCSV([header, 'Jane Doe,jane@example.com,40,,,,'].join('\n'), {
+      assignments,
+      students: late,
+    });
+    const exported = parseGradebookCSV([header, 'Jane Doe,jane@example.com,32,,,,'].join('\n'), {
+      assignments,
+      students: late,
+    });
+    const changed = parseGradebookCSV([header, 'Jane Doe,jane@example.com,45,,,,'].join('\n'), {
+      assignments,
+      students: late,
+    });
+
+    // Assert
+    expect(unchanged.changes).toEqual([]);
+    expect(exported.changes).toEqual([]);
+    expect(changed.changes).toEqual([
+      expect.objectContaining({ oldPoints: 32, newPoints: 45, latePenaltyPercent: 20, newGradePoints: 36 }),
+    ]);
+  });
+
+  it('validates grades against each assignment maxPoints', () => {
+    // Arrange
+    const csv = [header, 'Jane Doe,jane@example.com,51,-1,,,', 'John Roe,john@example.com,abc,,,,'].join('\n');
+
+    // Act
+    const plan = parseGradebookCSV(csv, { assignments, students });
+
+    // Assert
+    expect(plan.changes).toEqual([]);
+    expect(plan.errors).toEqual([
+      { row: 2, column: 'Essay, Part 1 (50)', message: 'Grade cannot exceed maximum points (50)' },
+      { row: 2, column: 'Quiz (10)', message: 'Grade cannot be negative' },
+      { row: 3, column: 'Essay, Part 1 (50)', message: '"abc" is not a valid grade' },
+    ]);
+  });
+
+  it('rejects grades for students without a submission', () => {
+    // Arrange
+    const csv = [header, 'John Roe,john@example.com,30,7,,,'].join('\n');
+
+    // Act
+    const plan = parseGradebookCSV(csv, { assignments, students });
+
+    // Assert
+    expect(plan.errors).toEqual([
+      { row: 2, column: 'Essay, Part 1 (50)', message: 'The student has no submission to grade' },
+    ]);
+  });
+
+  it('reports unknown and duplicate students', () => {
+    // Arrange
+    const csv = [
+      header,
+      'Someone,someone@example.com,1,1,,,',
+      'Jane Doe,jane@example.com,,,,,',
+      'Jane Doe,jane@example.com,,,,,',
+      'No Email,,,,,,',
+    ].join('\n');
+
+    // Act
+    const plan = parseGradebookCSV(csv, { assignments, students });
+
+    // Assert
+    expect(plan.errors.map((e) => e.row)).toEqual([2, 4, 5]);
+    expect(plan.errors[0].message).toBe('No enrolled student has the email someone@example.com');
+  });
+
+  it('ignores columns that match no assignment', () => {
+    // Arrange
+    const csv = ['Email,Notes,Quiz (10)', 'john@example.com,late start,9'].join('\n');
+
+    // Act
+    const plan = parseGradebookCSV(csv, { assignments, students });
+
+    // Assert
+    expect(plan.unmatchedColumns).toEqual(['Notes']);
+    expect(plan.changes).toHaveLength(1);
+  });
+
+  it('requires an Email column', () => {
+    // Act
+    const plan = parseGradebookCSV('Student Name,Quiz (10)\nJane Doe,5', { assignments, students });
+
+    // Assert
+    expect(plan.errors).toEqual([{ row: 1, message: 'The CSV has no Email column' }]);
+  });
+
+  it('rejects assignment columns it cannot tell apart', () => {
+    // Arrange
+    const duplicated = [...assignments, { id: 'a3', title: 'Quiz', maxPoints: 10 }];
+    const csv = [header, 'Jane Doe,jane@example.com,,5,,,'].join('\n');
+
+    // Act
+    const plan = parseGradebookCSV(csv, { assignments: duplicated, students });
+
+    // Assert
+    expect(plan.errors).toEqual([
+      { row: 1, column: 'Quiz (10)', message: 'Several assignments have this title and points' },
+    ]);
+    expect(plan.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Discussion Grading Unit Tests
+ *
+ * Tests for counting participation and shaping grading settings.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { evaluateParticipation, formatDiscussionGrading } from '@/lib/discussion-grading';
+
+const dueDate = new Date('2025-03-01T23:59:00Z');
+const requirements = { requiredPosts: 1, requiredReplies: 2 };
+
+describe('evaluateParticipation', () => {
+  it('meets the requirements with enough on-time posts and replies', () => {
+    // Arrange
+    const posts = [
+      { parentId: null, createdAt: new Date('2025-02-20T10:00:00Z') },
+      { parentId: 'p1', createdAt: new Date('2025-02-21T10:00:00Z') },
+      { parentId: 'p2', createdAt: '2025-03-01T23:59:00Z' },
+    ];
+
+    // Act
+    const result = evaluateParticipation(posts, requirements, dueDate);
+
+    // Assert
+    expect(result).toEqual({ posts: 1, replies: 2, latePosts: 0, met: true });
+  });
+
+  it('does not count posts written after the due date', () => {
+    // Arrange
+    const posts = [
+      { parentId: null, createdAt: new Date('2025-02-20T10:00:00Z') },
+      { parentId: 'p1', createdAt: new Date('2025-02-21T10:00:00Z') },
+      { parentId: 'p2', createdAt: new Date('2025-03-02T08:00:00Z') },
+    ];
+
+    // Act
+    const result = evaluateParticipation(posts, requirements, dueDate);
+
+    // Assert
+    expect(result).toEqual({ posts: 1, replies: 1, latePosts: 1, met: false });
+  });
+
+  it('counts every post when there is no due date', () => {
+    // Arrange
+    const posts = [{ parentId: null, createdAt: new Date('2030-01-01T00:00:00Z') }];
+
+    // Act
+    const result = evaluateParticipation(posts, { requiredPosts: 1, requiredReplies: 0 }, null);
+
+    // Assert
+    expect(result.met).toBe(true);
+    expect(result.latePosts).toBe(0);
+  });
+});
+
+type DiscussionWithAssignment = Parameters<typeof formatDiscussionGrading>[0];
+
+function buildDiscussion(assignments: object | null): DiscussionWithAssignment {
+  return { requiredPosts: 1, requiredReplies: 2, assignments } as unknown as DiscussionWithAssignment;
+}
+
+describe('formatDiscussionGrading', () => {
+  it('returns null for an ungraded discussion', () => {
+    // Act & Assert
+    expect(formatDiscussionGrading(buildDiscussion(null))).toBeNull();
+  });
+
+  it('returns null when the backing assignment was archived', () => {
+    // Arrange
+    const assignments = { id: 'a1', maxPoints: 10, dueDate: null, deletedAt: new Date() };
+
+    // Act & Assert
+    expect(formatDiscussionGrading(buildDiscussion(assignments))).toBeNull();
+  });
+
+  it('combines the assignment points with the discussion requirements', () => {
+    // Arrange
+    const assignments = { id: 'a1', maxPoints: 10, dueDate, deletedAt: null };
+
+    // Act
+    const grading = formatDiscussionGrading(buildDiscussion(assignments));
+
+    // Assert
+    expect(grading).toEqual({
+      assignmentId: 'a1',
+      maxPoints: 10,
+      dueDate,
+      requiredPosts: 1,
+      requiredReplies: 2,
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Discussion Moderation Unit Tests
+ *
+ * Tests for what students can read of moderated posts, and for reporting.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import type { Prisma } from '@prisma/client';
+import {
+  isPostOpen,
+  redactPostForViewer,
+  reportPost,
+  type PostModerationView,
+} from '@/lib/discussion-moderation';
+
+function buildPost(overrides: Partial<PostModerationView> = {}): PostModerationView {
+  return {
+    content: 'Original content',
+    author: { id: 'author' },
+    isHidden: false,
+    isFlagged: true,
+    isRemoved: false,
+    removalReason: null,
+    editCount: 2,
+    ...overrides,
+  };
+}
+
+describe('redactPostForViewer', () => {
+  it('shows moderators everything', () => {
+    // Arrange
+    const post = buildPost({ isRemoved: true, removalReason: 'Off topic' });
+
+    // Act
+    const result = redactPostForViewer(post, { id: 'instructor', isModerator: true });
+
+    // Assert
+    expect(result).toEqual(post);
+  });
+
+  it('hides flags and edit counts from students', () => {
+    // Act
+    const result = redactPostForViewer(buildPost(), { id: 'student', isModerator: false });
+
+    // Assert
+    expect(result.content).toBe('Original content');
+    expect(result.isFlagged).toBe(false);
+    expect(result.editCount).toBe(0);
+  });
+
+  it('blanks a hidden post for everyone but its author', () => {
+    // Arrange
+    const post = buildPost({ isHidden: true });
+
+    // Act
+    const other = redactPostForViewer(post, { id: 'student', isModerator: false });
+    const author = redactPostForViewer(post, { id: 'author', isModerator: false });
+
+    // Assert
+    expect(other.content).toBe('');
+    expect(author.content).toBe('Original content');
+  });
+
+  it('blanks a removed post and tells only its author why', () => {
+    // Arrange
+    const post = buildPost({ isRemoved: true, removalReason: 'Off topic' });
+
+    // Act
+    const other = redactPostForViewer(post, { id: 'student', isModerator: false });
+    const author = redactPostForViewer(post, { id: 'author', isModerator: false });
+
+    // Assert
+    expect(other).toMatchObject({ content: '', removalReason: null });
+    expect(author).toMatchObject({ content: '', removalReason: 'Off topic' });
+  });
+});
+
+describe('isPostOpen', () => {
+  it('closes hidden and removed posts', () => {
+    expect(isPostOpen({ isHidden: false, deletedAt: null })).toBe(true);
+    expect(isPostOpen({ isHidden: true, deletedAt: null })).toBe(false);
+    expect(isPostOpen({ isHidden: false, deletedAt: new Date() })).toBe(false);
+  });
+});
+
+describe('reportPost', () => {
+  it('reopens an earlier report and flags the post', async () => {
+    // Arrange
+    const upsert = jest.fn().mockResolvedValue({});
+    const update = jest.fn().mockResolvedValue({});
+    const db = {
+      discussion_post_reports: { upsert },
+      discussion_posts: { update },
+    } as unknown as Prisma.TransactionClient;
+
+    // Act
+    await reportPost({ postId: 'p1', reporterId: 's1', reason: 'Spam' }, db);
+
+    // Assert
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { postId_reporterId: { postId: 'p1', reporterId: 's1' } },
+        update: expect.objectContaining({ reason: 'Spam', resolvedAt: null }),
+      })
+    );
+    expect(update).toHaveBeenCalledWith({ where: { id: 'p1' }, data: { isFlagged: true } });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Discussion Notifications Unit Tests
+ *
+ * Tests for who is told about a new discussion post, and how.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/notifications', () => ({
+  ...jest.requireActual('@/lib/notifications'),
+  notifyUsers: jest.fn().mockResolvedValue(0),
+}));
+
+import type { Prisma } from '@prisma/client';
+import { notifyUsers, type AfterCommitTasks } from '@/lib/notifications';
+import { notifyDiscussionPost } from '@/lib/discussion-notifications';
+
+const discussion = {
+  id: 'd1',
+  title: 'Week 1',
+  courseId: 'c1',
+  createdBy: 'instructor',
+  isAnonymous: false,
+  isPostFirst: false,
+};
+
+const roles: Record<string, string> = {
+  instructor: 'INSTRUCTOR',
+  parent: 'STUDENT',
+  mentioned: 'STUDENT',
+  follower: 'STUDENT',
+};
+
+function buildDb(subscriberIds: string[]): Prisma.TransactionClient {
+  return {
+    users: {
+      findMany: jest.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.map((id) => ({ id, role: roles[id] }))
+      ),
+    },
+    discussion_subscriptions: {
+      findMany: jest.fn().mockResolvedValue(subscriberIds.map((userId) => ({ userId }))),
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+/** Recipients of each notification sent, by type */
+function sentTo(type: string): string[] {
+  return (notifyUsers as jest.Mock).mock.calls
+    .filter(([input]) => input.type === type)
+    .flatMap(([input]) => input.userIds);
+}
+
+describe('notifyDiscussionPost', () => {
+  beforeEach(() => {
+    (notifyUsers as jest.Mock).mockClear();
+  });
+
+  it('notifies each user once, preferring a mention over a reply', async () => {
+    // Arrange
+    const db = buildDb(['mentioned', 'parent', 'follower', 'instructor']);
+    const afterCommit: AfterCommitTasks = [];
+
+    // Act
+    await notifyDiscussionPost(
+      {
+        discussion,
+        content: 'Agreed, @[Mia Mentioned](mentioned)',
+        parentAuthorId: 'parent',
+        mentionedIds: ['mentioned'],
+        actor: { id: 'author', name: 'Sam' },
+      },
+      db,
+      afterCommit
+    );
+
+    // Assert
+    expect(sentTo('DISCUSSION_MENTION')).toEqual(['mentioned']);
+    expect(sentTo('DISCUSSION_REPLY').sort()).toEqual(['follower', 'instructor', 'parent']);
+    expect(notifyUsers).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'DISCUSSION_MENTION',
+        title: 'Sam mentioned you in Week 1',
+        body: 'Agreed, @Mia Mentioned',
+      }),
+      db,
+      afterCommit
+    );
+  });
+
+  it('tells the discussion creator about new threads and links by role', async () => {
+    // Arrange
+    const db = buildDb([]);
+
+    // Act
+    await notifyDiscussionPost(
+      { discussion, content: 'A new thread', parentAuthorId: null, mentionedIds: [], actor: { id: 'author' } },
+      db
+    );
+
+    // Assert
+    expect(notifyUsers).toHaveBeenCalledTimes(1);
+    expect(notifyUsers).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userIds: ['instructor'],
+        title: 'Someone posted in Week 1',
+        link: '/instructor/courses/c1/discussions/d1',
+      }),
+      db,
+      undefined
+    );
+  });
+
+  it('hides the author from classmates in an anonymous discussion', async () => {
+    // Arrange
+    const db = buildDb(['follower']);
+
+    // Act
+    await notifyDiscussionPost(
+      {
+        discussion: { ...discussion, isAnonymous: true },
+        content: 'A new thread',
+        parentAuthorId: null,
+        mentionedIds: [],
+        actor: { id: 'author', name: 'Sam' },
+      },
+      db
+    );
+
+    // Assert
+    expect(notifyUsers).toHaveBeenCalledWith(
+      expect.objectContaining({ userIds: ['follower'], title: 'A classmate posted in Week 1' }),
+      db,
+      undefined
+    );
+    expect(notifyUsers).toHaveBeenCalledWith(
+      expect.objectContaining({ userIds: ['instructor'], title: 'Sam posted in Week 1' }),
+      db,
+      undefined
+    );
+  });
+
+  it('leaves the content out for students in a post-first discussion', async () => {
+    // Arrange
+    const db = buildDb([]);
+
+    // Act
+    await notifyDiscussionPost(
+      {
+        discussion: { ...discussion, isPostFirst: true },
+        content: 'My answer',
+        parentAuthorId: 'parent',
+        mentionedIds: [],
+        actor: { id: 'author', name: 'Sam' },
+      },
+      db
+    );
+
+    // Assert
+    expect(notifyUsers).toHaveBeenCalledWith(expect.objectContaining({ userIds: ['parent'], body: null }), db, undefined);
+  });
+});
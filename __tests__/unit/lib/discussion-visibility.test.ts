@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Discussion Visibility Unit Tests
+ *
+ * Tests for anonymous and post-first discussions.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import type { Prisma } from '@prisma/client';
+import { anonymizeAuthors, canSeePeerPosts, ownThreadsOnly } from '@/lib/discussion-visibility';
+
+function buildPost(id: string, authorId: string) {
+  return { id, author: { id: authorId, name: `Name ${authorId}`, email: `${authorId}@example.com` } };
+}
+
+describe('anonymizeAuthors', () => {
+  it('numbers classmates in order of first post and keeps the viewer', () => {
+    // Arrange
+    const posts = [buildPost('p1', 'bob'), buildPost('p2', 'me'), buildPost('p3', 'amy'), buildPost('p4', 'bob')];
+
+    // Act
+    const result = anonymizeAuthors(posts, 'me');
+
+    // Assert
+    expect(result.map((post) => post.author.name)).toEqual(['Anonymous 1', 'Name me', 'Anonymous 2', 'Anonymous 1']);
+    expect(result[0].author).toEqual({ id: '', name: 'Anonymous 1', email: '' });
+    expect(result[1].author.id).toBe('me');
+  });
+});
+
+describe('ownThreadsOnly', () => {
+  it('keeps the viewer\'s threads without their replies', () => {
+    // Arrange
+    const threads = [
+      { ...buildPost('p1', 'bob'), replies: [] },
+      { ...buildPost('p2', 'me'), replies: [{ ...buildPost('p3', 'bob'), replies: [] }] },
+    ];
+
+    // Act
+    const result = ownThreadsOnly(threads, 'me');
+
+    // Assert
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ id: 'p2', replies: [] });
+  });
+});
+
+describe('canSeePeerPosts', () => {
+  it('always allows it when posting first is not required', async () => {
+    // Arrange
+    const count = jest.fn();
+    const db = { discussion_posts: { count } } as unknown as Prisma.TransactionClient;
+
+    // Act
+    const result = await canSeePeerPosts({ id: 'd1', isPostFirst: false }, 's1', db);
+
+    // Assert
+    expect(result).toBe(true);
+    expect(count).not.toHaveBeenCalled();
+  });
+
+  it('requires a live thread of the student\'s own in a post-first discussion', async () => {
+    // Arrange
+    const count = jest.fn().mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+    const db = { discussion_posts: { count } } as unknown as Prisma.TransactionClient;
+    const discussion = { id: 'd1', isPostFirst: true };
+
+    // Act
+    const before = await canSeePeerPosts(discussion, 's1', db);
+    const after = await canSeePeerPosts(discussion, 's1', db);
+
+    // Assert
+    expect(before).toBe(false);
+    expect(after).toBe(true);
+    expect(count).toHaveBeenCalledWith({
+      where: { discussionId: 'd1', authorId: 's1', parentId: null, deletedAt: null },
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Discussion Threads Unit Tests
+ *
+ * Tests for nesting posts, reaction counts, thread lookups and thread sorting.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  buildPostTree,
+  findThreadRootId,
+  collectThreadPostIds,
+  summarizeReactions,
+  isThreadAnswered,
+  sortThreads,
+  type SortablePost,
+} from '@/lib/discussions';
+
+const flatPosts = [
+  { id: 'q1', parentId: null },
+  { id: 'r1', parentId: 'q1' },
+  { id: 'r1a', parentId: 'r1' },
+  { id: 'q2', parentId: null },
+  { id: 'r1b', parentId: 'r1' },
+  { id: 'orphan', parentId: 'deleted' },
+];
+
+function thread(
+  createdAt: string,
+  options: { upvotes?: number; replies?: SortablePost[]; isAcceptedAnswer?: boolean } = {}
+): SortablePost {
+  return {
+    createdAt,
+    isAcceptedAnswer: options.isAcceptedAnswer ?? false,
+    reactions: { counts: options.upvotes ? { UPVOTE: options.upvotes } : {}, mine: [] },
+    replies: options.replies ?? [],
+  };
+}
+
+describe('buildPostTree', () => {
+  it('nests replies at any depth in their original order', () => {
+    // Act
+    const threads = buildPostTree(flatPosts);
+
+    // Assert
+    expect(threads.map((post) => post.id)).toEqual(['q1', 'q2', 'orphan']);
+    expect(threads[0].replies.map((post) => post.id)).toEqual(['r1']);
+    expect(threads[0].replies[0].replies.map((post) => post.id)).toEqual(['r1a', 'r1b']);
+  });
+});
+
+describe('thread lookups', () => {
+  it('finds the top-level post of a nested reply', () => {
+    // Act & Assert
+    expect(findThreadRootId(flatPosts, 'r1b')).toBe('q1');
+    expect(findThreadRootId(flatPosts, 'q2')).toBe('q2');
+  });
+
+  it('collects a post and all of its replies', () => {
+    // Act
+    const ids = collectThreadPostIds(flatPosts, 'q1');
+
+    // Assert
+    expect(ids.sort()).toEqual(['q1', 'r1', 'r1a', 'r1b']);
+  });
+});
+
+describe('summarizeReactions', () => {
+  it('counts reactions by type and lists the viewer\'s own', () => {
+    // Arrange
+    const reactions = [
+      { type: 'UPVOTE' as const, userId: 'u1' },
+      { type: 'UPVOTE' as const, userId: 'u2' },
+      { type: 'HELPFUL' as const, userId: 'u1' },
+    ];
+
+    // Act
+    const summary = summarizeReactions(reactions, 'u1');
+
+    // Assert
+    expect(summary).toEqual({ counts: { UPVOTE: 2, HELPFUL: 1 }, mine: ['UPVOTE', 'HELPFUL'] });
+  });
+});
+
+describe('isThreadAnswered', () => {
+  it('needs an accepted answer at any depth in a Q&A discussion', () => {
+    // Arrange
+    const nestedAnswer = thread('2025-01-01', {
+      replies: [thread('2025-01-02', { replies: [thread('2025-01-03', { isAcceptedAnswer: true })] })],
+    });
+    const repliedOnly = thread('2025-01-01', { replies: [thread('2025-01-02')] });
+
+    // Act & Assert
+    expect(isThreadAnswered(nestedAnswer, true)).toBe(true);
+    expect(isThreadAnswered(repliedOnly, true)).toBe(false);
+  });
+
+  it('needs only a reply outside Q&A discussions', () => {
+    // Act & Assert
+    expect(isThreadAnswered(thread('2025-01-01', { replies: [thread('2025-01-02')] }), false)).toBe(true);
+    expect(isThreadAnswered(thread('2025-01-01'), false)).toBe(false);
+  });
+});
+
+describe('sortThreads', () => {
+  const old = thread('2025-01-01T00:00:00Z', { upvotes: 5, replies: [thread('2025-01-02T00:00:00Z')] });
+  const middle = thread('2025-02-01T00:00:00Z', { upvotes: 5 });
+  const recent = thread('2025-03-01T00:00:00Z', { upvotes: 1 });
+
+  it('orders by newest first', () => {
+    // Act & Assert
+    expect(sortThreads([old, recent, middle], 'newest', false)).toEqual([recent, middle, old]);
+  });
+
+  it('orders by upvotes, newest first on ties', () => {
+    // Act & Assert
+    expect(sortThreads([recent, old, middle], 'top', false)).toEqual([middle, old, recent]);
+  });
+
+  it('puts unanswered threads first', () => {
+    // Act & Assert
+    expect(sortThreads([old, middle, recent], 'unanswered', false)).toEqual([recent, middle, old]);
+  });
+
+  it('does not change the given array', () => {
+    // Arrange
+    const threads = [old, recent];
+
+    // Act
+    sortThreads(threads, 'newest', false);
+
+    // Assert
+    expect(threads).toEqual([old, recent]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Email Unit Tests
+ *
+ * Tests for formatting outgoing messages, preparing them for SMTP and
+ * keeping SMTP credentials off unencrypted connections.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import net from 'net';
+import { formatEmailMessage, dotStuff, extractAddress, createSmtpTransport } from '@/lib/email';
+
+describe('formatEmailMessage', () => {
+  it('writes headers and a CRLF body', () => {
+    // Arrange
+    const date = new Date('2025-01-15T10:00:00Z');
+
+    // Act
+    const message = formatEmailMessage(
+      { to: 'student@example.com', subject: 'Grade posted', text: 'Line one\nLine two' },
+      'LMS <no-reply@lms.example.com>',
+      date
+    );
+    const [head, body] = message.split('\r\n\r\n');
+
+    // Assert
+    expect(head.split('\r\n')).toEqual(
+      expect.arrayContaining([
+        'From: LMS <no-reply@lms.example.com>',
+        'To: student@example.com',
+        'Subject: Grade posted',
+        'Date: Wed, 15 Jan 2025 10:00:00 GMT',
+        'Content-Type: text/plain; charset=utf-8',
+      ])
+    );
+    expect(head).toMatch(/Message-ID: <[^>]+@lms\.example\.com>/);
+    expect(body).toBe('Line one\r\nLine two');
+  });
+
+  it('keeps line breaks in the subject from adding headers', () => {
+    // Act
+    const message = formatEmailMessage(
+      { to: 'a@example.com', subject: 'Hi\r\nBcc: b@example.com', text: '' },
+      'no-reply@example.com'
+    );
+
+    // Assert
+    expect(message).toContain('Subject: Hi Bcc: b@example.com\r\n');
+    expect(message).not.toMatch(/^Bcc:/m);
+  });
+
+  it('encodes non-ASCII subjects', () => {
+    // Act
+    const message = formatEmailMessage(
+      { to: 'a@example.com', subject: 'Note publiée', text: '' },
+      'no-reply@example.com'
+    );
+
+    // Assert
+    expect(message).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from('Note publiée', 'utf8').toString('base64')}?=`
+    );
+  });
+});
+
+describe('dotStuff', () => {
+  it('doubles dots that start a line', () => {
+    expect(dotStuff('.first\r\nmiddle.\r\n.\r\nend')).toBe('..first\r\nmiddle.\r\n..\r\nend');
+  });
+});
+
+describe('extractAddress', () => {
+  it('returns the address from a display name form', () => {
+    expect(extractAddress('LMS <no-reply@example.com>')).toBe('no-reply@example.com');
+    expect(extractAddress(' plain@example.com ')).toBe('plain@example.com');
+  });
+});
+
+describe('createSmtpTransport', () => {
+  let server: net.Server;
+  let received: string[];
+
+  beforeEach(async () => {
+    // A plain SMTP server that never offers STARTTLS and forwards mail
+    // for its recipients
+    received = [];
+    server = net.createServer((socket) => {
+      let inData = false;
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        chunk
+          .toString()
+          .split('\r\n')
+          .filter(Boolean)
+          .forEach((line) => {
+            received.push(line);
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 OK\r\n');
+              }
+            } else if (line.startsWith('EHLO')) {
+              socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+            } else if (line.startsWith('RCPT')) {
+              socket.write('251 User not local; will forward\r\n');
+            } else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 Go ahead\r\n');
+            } else if (line === 'QUIT') {
+              socket.end('221 Bye\r\n');
+            } else {
+              socket.write('250 OK\r\n');
+            }
+          });
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('refuses to send credentials when the connection is not encrypted', async () => {
+    // Arrange
+    const { port } = server.address() as net.AddressInfo;
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'lms',
+      password: 'secret',
+    });
+
+    // Act
+    const sending = transport.send({ to: 'student@example.com', subject: 'Hi', text: 'Hello' });
+
+    // Assert
+    await expect(sending).rejects.toThrow(/STARTTLS/);
+    expect(received.some((line) => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('sends to a recipient the server will forward', async () => {
+    // Arrange
+    const { port } = server.address() as net.AddressInfo;
+    const transport = createSmtpTransport({ host: '127.0.0.1', port, secure: false });
+
+    // Act
+    await transport.send({ to: 'student@example.com', subject: 'Hi', text: 'Hello' });
+
+    // Assert
+    expect(received).toContain('RCPT TO:<student@example.com>');
+    expect(received).toContain('Hello');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Extensions & Accommodations Unit Tests
+ *
+ * Tests for resolving a student's personal due date.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+import type { Prisma } from '@prisma/client';
+import {
+  getStudentDueDate,
+  loadDueDateAdjustments,
+  withStudentDueDate,
+  resolveStudentDeadline,
+  DueDateAdjustments,
+  AdjustableAssignment,
+} from '@/lib/extensions';
+
+const HOUR = 60 * 60 * 1000;
+const CREATED = new Date('2025-03-01T00:00:00Z');
+const DUE = new Date('2025-03-11T00:00:00Z'); // 10-day window
+
+function assignment(overrides: Partial<AdjustableAssignment> = {}): AdjustableAssignment {
+  return {
+    id: 'a1',
+    courseId: 'c1',
+    createdAt: CREATED,
+    dueDate: DUE,
+    latePolicy: 'ACCEPT_FLAGGED',
+    lateGraceMinutes: 0,
+    latePenaltyPerDay: 0,
+    lateCutoffAt: null,
+    ...overrides,
+  };
+}
+
+function emptyAdjustments(): DueDateAdjustments {
+  return { extensions: new Map(), accommodations: new Map(), sectionDueDates: new Map() };
+}
+
+describe('Extensions Module', () => {
+  describe('getStudentDueDate', () => {
+    it('returns the regular due date without adjustments', () => {
+      expect(getStudentDueDate(assignment())).toEqual(DUE);
+    });
+
+    it('returns null when the assignment has no due date', () => {
+      const result = getStudentDueDate(assignment({ dueDate: null }), {
+        dueDate: new Date('2025-04-01'),
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it('uses the extension due date when one exists', () => {
+      const extended = new Date('2025-03-15T12:00:00Z');
+
+      expect(getStudentDueDate(assignment(), { dueDate: extended })).toEqual(extended);
+    });
+
+    it('lengthens the assignment window by the accommodation percentage', () => {
+      // Arrange - +50% of a 10-day window = 5 extra days
+      const accommodation = { extraTimePercent: 50, extraHours: 0 };
+
+      // Act
+      const result = getStudentDueDate(assignment(), null, accommodation);
+
+      // Assert
+      expect(result).toEqual(new Date('2025-03-16T00:00:00Z'));
+    });
+
+    it('adds fixed extra hours from the accommodation', () => {
+      const result = getStudentDueDate(assignment(), null, { extraTimePercent: 0, extraHours: 24 });
+
+      expect(result).toEqual(new Date('2025-03-12T00:00:00Z'));
+    });
+
+    it('prefers the extension over the accommodation', () => {
+      const extended = new Date('2025-03-12T00:00:00Z');
+
+      const result = getStudentDueDate(
+        assignment(),
+        { dueDate: extended },
+        { extraTimePercent: 100, extraHours: 0 }
+      );
+
+      expect(result).toEqual(extended);
+    });
+
+    it('uses the section due date in place of the regular one', () => {
+      const sectionDue = new Date('2025-03-21T00:00:00Z');
+
+      expect(getStudentDueDate(assignment(), null, null, sectionDue)).toEqual(sectionDue);
+    });
+
+    it('applies the accommodation to the section window', () => {
+      // Arrange - the section has a 20-day window; +50% = 10 extra days
+      const sectionDue = new Date('2025-03-21T00:00:00Z');
+
+      // Act
+      const result = getStudentDueDate(
+        assignment(),
+        null,
+        { extraTimePercent: 50, extraHours: 0 },
+        sectionDue
+      );
+
+      // Assert
+      expect(result).toEqual(new Date('2025-03-31T00:00:00Z'));
+    });
+
+    it('prefers the extension over the section due date', () => {
+      const extended = new Date('2025-03-12T00:00:00Z');
+
+      const result = getStudentDueDate(
+        assignment(),
+        { dueDate: extended },
+        null,
+        new Date('2025-03-21T00:00:00Z')
+      );
+
+      expect(result).toEqual(extended);
+    });
+  });
+
+  describe('withStudentDueDate', () => {
+    it('moves the late cutoff by the same amount as the due date', () => {
+      const settings = assignment({ lateCutoffAt: new Date(DUE.getTime() + 24 * HOUR) });
+      const studentDue = new Date(DUE.getTime() + 48 * HOUR);
+
+      const result = withStudentDueDate(settings, studentDue);
+
+      expect(result.dueDate).toEqual(studentDue);
+      expect(result.lateCutoffAt).toEqual(new Date(DUE.getTime() + 72 * HOUR));
+    });
+
+    it('leaves settings untouched when there is no due date', () => {
+      const settings = assignment({ dueDate: null });
+
+      expect(withStudentDueDate(settings, null)).toBe(settings);
+    });
+  });
+
+  describe('resolveStudentDeadline', () => {
+    it('applies only the adjustments for the given student', () => {
+      // Arrange
+      const adjustments = emptyAdjustments();
+      adjustments.extensions.set('a1:s1', { dueDate: new Date('2025-03-20T00:00:00Z') });
+
+      // Act
+      const forS1 = resolveStudentDeadline(assignment(), 's1', adjustments);
+      const forS2 = resolveStudentDeadline(assignment(), 's2', adjustments);
+
+      // Assert
+      expect(forS1.dueDate).toEqual(new Date('2025-03-20T00:00:00Z'));
+      expect(forS2.dueDate).toEqual(DUE);
+    });
+
+    it('applies course accommodations by course and student', () => {
+      const adjustments = emptyAdjustments();
+      adjustments.accommodations.set('c1:s1', { extraTimePercent: 10, extraHours: 0 });
+
+      const result = resolveStudentDeadline(assignment(), 's1', adjustments);
+
+      expect(result.dueDate).toEqual(new Date('2025-03-12T00:00:00Z'));
+    });
+
+    it('applies section due dates by assignment and student', () => {
+      // Arrange
+      const adjustments = emptyAdjustments();
+      adjustments.sectionDueDates.set('a1:s1', new Date('2025-03-18T00:00:00Z'));
+
+      // Act
+      const forS1 = resolveStudentDeadline(assignment(), 's1', adjustments);
+      const forS2 = resolveStudentDeadline(assignment(), 's2', adjustments);
+
+      // Assert
+      expect(forS1.dueDate).toEqual(new Date('2025-03-18T00:00:00Z'));
+      expect(forS2.dueDate).toEqual(DUE);
+    });
+  });
+
+  describe('loadDueDateAdjustments', () => {
+    it('reads through the transaction client it is given', async () => {
+      // Arrange
+      const extended = new Date('2025-03-15T00:00:00Z');
+      const tx = {
+        assignment_extensions: {
+          findMany: jest.fn().mockResolvedValue([{ assignmentId: 'a1', studentId: 's1', dueDate: extended }]),
+        },
+        course_accommodations: { findMany: jest.fn().mockResolvedValue([]) },
+        assignment_section_due_dates: {
+          findMany: jest.fn().mockResolvedValue([{ assignmentId: 'a1', sectionId: 'sec1', dueDate: DUE }]),
+        },
+        enrollments: { findMany: jest.fn().mockResolvedValue([{ userId: 's1', sectionId: 'sec1' }]) },
+      } as unknown as Prisma.TransactionClient;
+
+      // Act
+      const adjustments = await loadDueDateAdjustments(
+        { assignmentIds: ['a1'], courseIds: ['c1'], studentIds: ['s1'] },
+        tx
+      );
+
+      // Assert
+      expect(adjustments.extensions.get('a1:s1')).toEqual({ dueDate: extended });
+      expect(adjustments.sectionDueDates.get('a1:s1')).toEqual(DUE);
+    });
+  });
+});
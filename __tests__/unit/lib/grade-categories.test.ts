@@ -0,0 +1,171 @@
+/**
+ * Grade Category Weighting Unit Tests
+ *
+ * Tests for category-weighted course grade calculation.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  calculateCourseGrade,
+  getUncategorizedWeight,
+  toWeightedGradeInputs,
+  CategorizedGradeItem,
+  GradeCategoryWeight,
+} from '@/lib/grade-categories';
+
+describe('Grade Categories Module', () => {
+  describe('getUncategorizedWeight', () => {
+    it('returns 100 when there are no categories', () => {
+      expect(getUncategorizedWeight([])).toBe(100);
+    });
+
+    it('returns the weight left unallocated by categories', () => {
+      const categories: GradeCategoryWeight[] = [
+        { id: 'hw', weight: 30 },
+        { id: 'exam', weight: 50 },
+      ];
+
+      expect(getUncategorizedWeight(categories)).toBe(20);
+    });
+
+    it('never returns a negative weight', () => {
+      expect(getUncategorizedWeight([{ id: 'hw', weight: 120 }])).toBe(0);
+    });
+  });
+
+  describe('toWeightedGradeInputs', () => {
+    it('gives every assignment weight 1 without categories', () => {
+      // Arrange
+      const items: CategorizedGradeItem[] = [
+        { categoryId: null, maxPoints: 10, points: 8 },
+        { categoryId: null, maxPoints: 20, points: null },
+      ];
+
+      // Act
+      const inputs = toWeightedGradeInputs(items, [], { includeUngraded: true });
+
+      // Assert
+      expect(inputs).toEqual([
+        { points: 8, maxPoints: 10, weight: 1, isGraded: true },
+        { points: 0, maxPoints: 20, weight: 1, isGraded: true },
+      ]);
+    });
+
+    it('skips ungraded assignments unless includeUngraded is set', () => {
+      const items: CategorizedGradeItem[] = [
+        { categoryId: null, maxPoints: 10, points: 8 },
+        { categoryId: null, maxPoints: 20, points: null },
+      ];
+
+      const inputs = toWeightedGradeInputs(items, [], { includeUngraded: false });
+
+      expect(inputs).toHaveLength(1);
+      expect(inputs[0].points).toBe(8);
+    });
+
+    it('drops uncategorized assignments when categories allocate 100%', () => {
+      const items: CategorizedGradeItem[] = [
+        { categoryId: 'hw', maxPoints: 10, points: 10 },
+        { categoryId: null, maxPoints: 10, points: 0 },
+      ];
+
+      const inputs = toWeightedGradeInputs(items, [{ id: 'hw', weight: 100 }], {
+        includeUngraded: true,
+      });
+
+      expect(inputs).toHaveLength(1);
+      expect(inputs[0].points).toBe(10);
+    });
+  });
+
+  describe('calculateCourseGrade', () => {
+    it('matches raw points grading when the course has no categories', () => {
+      // Arrange
+      const items: CategorizedGradeItem[] = [
+        { categoryId: null, maxPoints: 100, points: 90 },
+        { categoryId: null, maxPoints: 50, points: 30 },
+        { categoryId: null, maxPoints: 50, points: null },
+      ];
+
+      // Act
+      const result = calculateCourseGrade(items, []);
+
+      // Assert
+      expect(result.totalPoints).toBe(120);
+      expect(result.totalPossiblePoints).toBe(200);
+      expect(result.percentage).toBe(60);
+      expect(result.gpa?.percentage).toBe(80);
+    });
+
+    it('weights categories independently of their point totals', () => {
+      // Arrange - homework is worth few points but half the grade
+      const items: CategorizedGradeItem[] = [
+        { categoryId: 'hw', maxPoints: 10, points: 10 },
+        { categoryId: 'exam', maxPoints: 100, points: 50 },
+      ];
+      const categories: GradeCategoryWeight[] = [
+        { id: 'hw', weight: 50 },
+        { id: 'exam', weight: 50 },
+      ];
+
+      // Act
+      const result = calculateCourseGrade(items, categories);
+
+      // Assert
+      expect(result.percentage).toBe(75);
+      expect(result.gpa?.percentage).toBe(75);
+      expect(result.totalPoints).toBe(60);
+    });
+
+    it('pools points within a category', () => {
+      const items: CategorizedGradeItem[] = [
+        { categoryId: 'hw', maxPoints: 10, points: 5 },
+        { categoryId: 'hw', maxPoints: 30, points: 30 },
+        { categoryId: 'exam', maxPoints: 100, points: 60 },
+      ];
+      const categories: GradeCategoryWeight[] = [
+        { id: 'hw', weight: 40 },
+        { id: 'exam', weight: 60 },
+      ];
+
+      const result = calculateCourseGrade(items, categories);
+
+      // hw: 35/40 = 87.5% × 0.4 + exam: 60% × 0.6 = 71%
+      expect(result.percentage).toBe(71);
+    });
+
+    it('gives uncategorized assignments the unallocated weight', () => {
+      const items: CategorizedGradeItem[] = [
+        { categoryId: 'exam', maxPoints: 100, points: 100 },
+        { categoryId: null, maxPoints: 20, points: 0 },
+      ];
+
+      const result = calculateCourseGrade(items, [{ id: 'exam', weight: 80 }]);
+
+      expect(result.percentage).toBe(80);
+    });
+
+    it('renormalises GPA over categories with graded work only', () => {
+      const items: CategorizedGradeItem[] = [
+        { categoryId: 'hw', maxPoints: 10, points: 9 },
+        { categoryId: 'exam', maxPoints: 100, points: null },
+      ];
+      const categories: GradeCategoryWeight[] = [
+        { id: 'hw', weight: 30 },
+        { id: 'exam', weight: 70 },
+      ];
+
+      const result = calculateCourseGrade(items, categories);
+
+      expect(result.gpa?.percentage).toBe(90);
+      expect(result.percentage).toBe(27);
+    });
+
+    it('returns null GPA and 0% when nothing can be counted', () => {
+      const result = calculateCourseGrade([], []);
+
+      expect(result.percentage).toBe(0);
+      expect(result.gpa).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Grade History Unit Tests
+ *
+ * Tests for detecting grade changes, recording history entries and shaping
+ * entries for API responses.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import type { Prisma } from '@prisma/client';
+import {
+  hasGradeChanged,
+  recordGradeChange,
+  formatGradeHistoryEntry,
+  GRADE_CHANGE_SOURCE_LABELS,
+} from '@/lib/grade-history';
+
+function createDb() {
+  const create = jest.fn(async ({ data }) => data);
+  const db = { grade_history: { create } } as unknown as Prisma.TransactionClient;
+  return { db, create };
+}
+
+const change = {
+  assignmentId: 'a1',
+  studentId: 's1',
+  submissionId: 'sub-1',
+  changedById: 'i1',
+  source: 'GRADEBOOK' as const,
+};
+
+describe('hasGradeChanged', () => {
+  it('treats a new grade as a change', () => {
+    expect(hasGradeChanged(null, { points: 0, feedback: null })).toBe(true);
+  });
+
+  it('detects changed points', () => {
+    expect(hasGradeChanged({ points: 8, feedback: 'Good' }, { points: 9, feedback: 'Good' })).toBe(true);
+  });
+
+  it('detects changed feedback', () => {
+    expect(hasGradeChanged({ points: 8, feedback: 'Good' }, { points: 8, feedback: 'Great' })).toBe(true);
+  });
+
+  it('ignores updates that keep the same values', () => {
+    expect(hasGradeChanged({ points: 8, feedback: null }, { points: 8, feedback: null })).toBe(false);
+  });
+});
+
+describe('recordGradeChange', () => {
+  it('records the old and new values', async () => {
+    // Arrange
+    const { db, create } = createDb();
+
+    // Act
+    await recordGradeChange(db, {
+      ...change,
+      reason: 'Regrade request',
+      previous: { points: 7, feedback: 'Ok' },
+      next: { points: 9, feedback: 'Good' },
+    });
+
+    // Assert
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0][0].data).toEqual(
+      expect.objectContaining({
+        assignmentId: 'a1',
+        studentId: 's1',
+        submissionId: 'sub-1',
+        changedById: 'i1',
+        source: 'GRADEBOOK',
+        reason: 'Regrade request',
+        oldPoints: 7,
+        newPoints: 9,
+        oldFeedback: 'Ok',
+        newFeedback: 'Good',
+      })
+    );
+  });
+
+  it('records a first grade with no old values', async () => {
+    // Arrange
+    const { db, create } = createDb();
+
+    // Act
+    await recordGradeChange(db, { ...change, previous: null, next: { points: 5, feedback: null } });
+
+    // Assert
+    expect(create.mock.calls[0][0].data).toEqual(
+      expect.objectContaining({ oldPoints: null, oldFeedback: null, newPoints: 5, reason: null })
+    );
+  });
+
+  it('records nothing when the grade is unchanged', async () => {
+    // Arrange
+    const { db, create } = createDb();
+
+    // Act
+    const result = await recordGradeChange(db, {
+      ...change,
+      previous: { points: 5, feedback: null },
+      next: { points: 5, feedback: null },
+    });
+
+    // Assert
+    expect(result).toBeNull();
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatGradeHistoryEntry', () => {
+  it('adds the source label and the name of the user who made the change', () => {
+    // Arrange
+    const createdAt = new Date('2025-01-15T10:00:00Z');
+
+    // Act
+    const result = formatGradeHistoryEntry({
+      id: 'h1',
+      oldPoints: 7,
+      newPoints: 9,
+      oldFeedback: null,
+      newFeedback: null,
+      source: 'CSV_IMPORT',
+      reason: null,
+      createdAt,
+      submissionId: 'sub-1',
+      users_grade_history_changedByIdTousers: {
+        id: 'i1',
+        name: 'Ada',
+        surname: 'Lovelace',
+        role: 'INSTRUCTOR',
+      },
+    });
+
+    // Assert
+    expect(result.sourceLabel).toBe(GRADE_CHANGE_SOURCE_LABELS.CSV_IMPORT);
+    expect(result.changedBy).toEqual({ id: 'i1', name: 'Ada Lovelace', role: 'INSTRUCTOR' });
+    expect(result.createdAt).toBe(createdAt);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Student Groups Unit Tests
+ *
+ * Tests for automatic grouping and group naming.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { buildAutoGroups, nextGroupNames } from '@/lib/groups';
+
+const students = (count: number) => Array.from({ length: count }, (_, i) => `s${i + 1}`);
+
+describe('buildAutoGroups', () => {
+  it('splits students into balanced groups no larger than the group size', () => {
+    // Act
+    const groups = buildAutoGroups(students(10), 4);
+
+    // Assert
+    expect(groups.map((group) => group.length)).toEqual([4, 3, 3]);
+    expect(groups.flat().sort()).toEqual(students(10).sort());
+  });
+
+  it('keeps a single group when everyone fits', () => {
+    // Act
+    const groups = buildAutoGroups(students(3), 5);
+
+    // Assert
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toHaveLength(3);
+  });
+
+  it('shuffles students with the given random source', () => {
+    // Arrange
+    const alwaysFirst = () => 0;
+
+    // Act
+    const groups = buildAutoGroups(['a', 'b', 'c', 'd'], 2, alwaysFirst);
+
+    // Assert
+    expect(groups).toEqual([
+      ['b', 'd'],
+      ['c', 'a'],
+    ]);
+  });
+
+  it('returns no groups for no students', () => {
+    // Act & Assert
+    expect(buildAutoGroups([], 4)).toEqual([]);
+  });
+});
+
+describe('nextGroupNames', () => {
+  it('numbers groups from 1', () => {
+    // Act & Assert
+    expect(nextGroupNames([], 3)).toEqual(['Group 1', 'Group 2', 'Group 3']);
+  });
+
+  it('skips names already taken, ignoring case', () => {
+    // Act
+    const names = nextGroupNames(['group 1', 'Group 3', 'Red Team'], 3);
+
+    // Assert
+    expect(names).toEqual(['Group 2', 'Group 4', 'Group 5']);
+  });
+});
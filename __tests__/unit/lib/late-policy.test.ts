@@ -0,0 +1,145 @@
+/**
+ * Late Policy Unit Tests
+ *
+ * Tests for late submission policy evaluation and penalties.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  evaluateLateSubmission,
+  applyLatePenalty,
+  describeLatePolicy,
+  getEffectiveDeadline,
+  LatePolicySettings,
+} from '@/lib/late-policy';
+
+const DUE = new Date('2025-03-10T23:59:00Z');
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function policy(overrides: Partial<LatePolicySettings> = {}): LatePolicySettings {
+  return {
+    dueDate: DUE,
+    latePolicy: 'REJECT',
+    lateGraceMinutes: 0,
+    latePenaltyPerDay: 0,
+    lateCutoffAt: null,
+    ...overrides,
+  };
+}
+
+describe('Late Policy Module', () => {
+  describe('getEffectiveDeadline', () => {
+    it('returns null when there is no due date', () => {
+      expect(getEffectiveDeadline(policy({ dueDate: null }))).toBeNull();
+    });
+
+    it('adds the grace period to the due date', () => {
+      const deadline = getEffectiveDeadline(policy({ lateGraceMinutes: 30 }));
+
+      expect(deadline?.getTime()).toBe(DUE.getTime() + 30 * 60 * 1000);
+    });
+  });
+
+  describe('evaluateLateSubmission', () => {
+    it('accepts any submission when there is no due date', () => {
+      const result = evaluateLateSubmission(policy({ dueDate: null }), new Date('2030-01-01'));
+
+      expect(result).toEqual({ accepted: true, isLate: false, daysLate: 0, penaltyPercent: 0 });
+    });
+
+    it('accepts on-time submissions', () => {
+      const result = evaluateLateSubmission(policy(), new Date(DUE.getTime() - HOUR));
+
+      expect(result.accepted).toBe(true);
+      expect(result.isLate).toBe(false);
+    });
+
+    it('rejects late submissions under the REJECT policy', () => {
+      const result = evaluateLateSubmission(policy(), new Date(DUE.getTime() + HOUR));
+
+      expect(result.accepted).toBe(false);
+      expect(result.reason).toBe('Assignment is overdue');
+    });
+
+    it('treats submissions inside the grace period as on time', () => {
+      // Arrange
+      const settings = policy({ lateGraceMinutes: 120 });
+
+      // Act
+      const result = evaluateLateSubmission(settings, new Date(DUE.getTime() + HOUR));
+
+      // Assert
+      expect(result.accepted).toBe(true);
+      expect(result.isLate).toBe(false);
+    });
+
+    it('accepts and flags late submissions under ACCEPT_FLAGGED', () => {
+      const result = evaluateLateSubmission(
+        policy({ latePolicy: 'ACCEPT_FLAGGED' }),
+        new Date(DUE.getTime() + 3 * DAY)
+      );
+
+      expect(result).toEqual({ accepted: true, isLate: true, daysLate: 3, penaltyPercent: 0 });
+    });
+
+    it('deducts the penalty per started day under DEDUCT', () => {
+      const result = evaluateLateSubmission(
+        policy({ latePolicy: 'DEDUCT', latePenaltyPerDay: 10 }),
+        new Date(DUE.getTime() + 2 * DAY + HOUR)
+      );
+
+      expect(result.daysLate).toBe(3);
+      expect(result.penaltyPercent).toBe(30);
+    });
+
+    it('caps the penalty at 100%', () => {
+      const result = evaluateLateSubmission(
+        policy({ latePolicy: 'DEDUCT', latePenaltyPerDay: 25 }),
+        new Date(DUE.getTime() + 10 * DAY)
+      );
+
+      expect(result.penaltyPercent).toBe(100);
+    });
+
+    it('rejects submissions after the hard cutoff', () => {
+      const result = evaluateLateSubmission(
+        policy({ latePolicy: 'ACCEPT_FLAGGED', lateCutoffAt: new Date(DUE.getTime() + DAY) }),
+        new Date(DUE.getTime() + 2 * DAY)
+      );
+
+      expect(result.accepted).toBe(false);
+      expect(result.reason).toBe('The late submission cutoff has passed');
+    });
+  });
+
+  describe('applyLatePenalty', () => {
+    it('deducts a percentage of the earned points', () => {
+      expect(applyLatePenalty(80, 25)).toBe(60);
+    });
+
+    it('rounds to 2 decimal places', () => {
+      expect(applyLatePenalty(10, 33.333)).toBe(6.67);
+    });
+
+    it('never produces negative points', () => {
+      expect(applyLatePenalty(50, 150)).toBe(0);
+    });
+  });
+
+  describe('describeLatePolicy', () => {
+    it('returns null when there is no due date', () => {
+      expect(describeLatePolicy(policy({ dueDate: null }))).toBeNull();
+    });
+
+    it('describes the deduction and grace period', () => {
+      const description = describeLatePolicy(
+        policy({ latePolicy: 'DEDUCT', latePenaltyPerDay: 10, lateGraceMinutes: 60 })
+      );
+
+      expect(description).toBe(
+        'Late submissions lose 10% per day late. A grace period of 1 hour applies.'
+      );
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Mentions Unit Tests
+ *
+ * Tests for mention tokens in discussion posts and the autocomplete query.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  extractMentionIds,
+  findMentionQuery,
+  formatMention,
+  mentionsToPlainText,
+  splitMentions,
+} from '@/lib/mentions';
+
+describe('formatMention', () => {
+  it('builds a token from the full name and ID', () => {
+    expect(formatMention({ id: 'u1', name: 'Ada', surname: 'Lovelace' })).toBe('@[Ada Lovelace](u1)');
+  });
+
+  it('strips brackets that would break the token', () => {
+    expect(formatMention({ id: 'u1', name: 'Ada [TA]', surname: '' })).toBe('@[Ada TA](u1)');
+  });
+});
+
+describe('extractMentionIds', () => {
+  it('returns each mentioned ID once, in order', () => {
+    // Arrange
+    const content = '@[Ada Lovelace](u1) and @[Alan Turing](u2), thanks @[Ada Lovelace](u1)';
+
+    // Act
+    const ids = extractMentionIds(content);
+
+    // Assert
+    expect(ids).toEqual(['u1', 'u2']);
+  });
+
+  it('ignores plain @ text', () => {
+    expect(extractMentionIds('email me @ home or @Ada')).toEqual([]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('splits content into text and mentions', () => {
+    // Act
+    const segments = splitMentions('Hi @[Ada Lovelace](u1), see above');
+
+    // Assert
+    expect(segments).toEqual([
+      { type: 'text', text: 'Hi ' },
+      { type: 'mention', userId: 'u1', name: 'Ada Lovelace' },
+      { type: 'text', text: ', see above' },
+    ]);
+  });
+
+  it('returns content without mentions as one text segment', () => {
+    expect(splitMentions('No mentions')).toEqual([{ type: 'text', text: 'No mentions' }]);
+  });
+});
+
+describe('mentionsToPlainText', () => {
+  it('shows mention tokens as @Name', () => {
+    expect(mentionsToPlainText('Thanks @[Ada Lovelace](u1)!')).toBe('Thanks @Ada Lovelace!');
+  });
+});
+
+describe('findMentionQuery', () => {
+  it('finds the mention being typed at the cursor', () => {
+    // Arrange
+    const text = 'Thanks @Ad';
+
+    // Act
+    const result = findMentionQuery(text, text.length);
+
+    // Assert
+    expect(result).toEqual({ start: 7, query: 'Ad' });
+  });
+
+  it('starts a mention at the beginning of the text', () => {
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+  });
+
+  it('ignores @ inside a word, such as an email address', () => {
+    const text = 'ada@example';
+    expect(findMentionQuery(text, text.length)).toBeNull();
+  });
+
+  it('stops once a space is typed after the name', () => {
+    const text = 'Thanks @Ada ';
+    expect(findMentionQuery(text, text.length)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Module Progress Unit Tests
+ *
+ * Tests for module completion rules: required items, passing scores,
+ * discussion participation and custom weights.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  computeModuleProgress,
+  isAssignmentSatisfied,
+  validateCompletionWeights,
+  DEFAULT_COMPLETION_RULES,
+  type ModuleItemCounts,
+} from '@/lib/module-progress';
+
+function counts(
+  content: [number, number],
+  assignments: [number, number],
+  discussions: [number, number] = [0, 0]
+): ModuleItemCounts {
+  return {
+    content: { done: content[0], total: content[1] },
+    assignments: { done: assignments[0], total: assignments[1] },
+    discussions: { done: discussions[0], total: discussions[1] },
+  };
+}
+
+describe('computeModuleProgress', () => {
+  it('splits progress equally between content and assignments by default', () => {
+    // Act
+    const result = computeModuleProgress(DEFAULT_COMPLETION_RULES, counts([2, 2], [0, 2]));
+
+    // Assert
+    expect(result).toEqual({ moduleProgress: 50, isModuleComplete: false });
+  });
+
+  it('uses only the parts that have required items', () => {
+    // Act
+    const result = computeModuleProgress(DEFAULT_COMPLETION_RULES, counts([1, 4], [0, 0]));
+
+    // Assert
+    expect(result).toEqual({ moduleProgress: 25, isModuleComplete: false });
+  });
+
+  it('completes when every required item is done', () => {
+    // Act
+    const result = computeModuleProgress(DEFAULT_COMPLETION_RULES, counts([3, 3], [1, 1]));
+
+    // Assert
+    expect(result).toEqual({ moduleProgress: 100, isModuleComplete: true });
+  });
+
+  it('applies custom weights', () => {
+    // Arrange
+    const rules = { ...DEFAULT_COMPLETION_RULES, contentWeight: 20, assignmentWeight: 80 };
+
+    // Act
+    const result = computeModuleProgress(rules, counts([0, 2], [1, 1]));
+
+    // Assert
+    expect(result.moduleProgress).toBe(80);
+  });
+
+  it('never reports 100% while a part weighted 0 is unfinished', () => {
+    // Arrange
+    const rules = { ...DEFAULT_COMPLETION_RULES, contentWeight: 0, assignmentWeight: 100 };
+
+    // Act
+    const result = computeModuleProgress(rules, counts([0, 2], [1, 1]));
+
+    // Assert
+    expect(result).toEqual({ moduleProgress: 99, isModuleComplete: false });
+  });
+
+  it('counts discussions only when participation is required', () => {
+    // Arrange
+    const required = { ...DEFAULT_COMPLETION_RULES, requireDiscussionPost: true };
+
+    // Act
+    const withoutRule = computeModuleProgress(DEFAULT_COMPLETION_RULES, counts([1, 1], [0, 0], [0, 1]));
+    const withRule = computeModuleProgress(required, counts([1, 1], [0, 0], [0, 1]));
+
+    // Assert
+    expect(withoutRule).toEqual({ moduleProgress: 100, isModuleComplete: true });
+    expect(withRule).toEqual({ moduleProgress: 50, isModuleComplete: false });
+  });
+
+  it('treats a module without required items as not started', () => {
+    // Act
+    const result = computeModuleProgress(DEFAULT_COMPLETION_RULES, counts([0, 0], [0, 0]));
+
+    // Assert
+    expect(result).toEqual({ moduleProgress: 0, isModuleComplete: false });
+  });
+});
+
+describe('isAssignmentSatisfied', () => {
+  it('only needs a submission without a passing score', () => {
+    expect(isAssignmentSatisfied({ maxPoints: 10, submitted: true, points: null }, null)).toBe(true);
+    expect(isAssignmentSatisfied({ maxPoints: 10, submitted: false, points: null }, null)).toBe(false);
+  });
+
+  it('needs a grade at or above the passing score', () => {
+    expect(isAssignmentSatisfied({ maxPoints: 20, submitted: true, points: 14 }, 70)).toBe(true);
+    expect(isAssignmentSatisfied({ maxPoints: 20, submitted: true, points: 13 }, 70)).toBe(false);
+    expect(isAssignmentSatisfied({ maxPoints: 20, submitted: true, points: null }, 70)).toBe(false);
+  });
+});
+
+describe('validateCompletionWeights', () => {
+  it('rejects custom weights that are all 0', () => {
+    // Arrange
+    const rules = { ...DEFAULT_COMPLETION_RULES, contentWeight: 0, assignmentWeight: 0 };
+
+    // Act & Assert
+    expect(validateCompletionWeights(rules)).toBe(
+      'At least one completion weight must be greater than 0'
+    );
+  });
+
+  it('accepts default and positive weights', () => {
+    expect(validateCompletionWeights(DEFAULT_COMPLETION_RULES)).toBeNull();
+    expect(
+      validateCompletionWeights({ ...DEFAULT_COMPLETION_RULES, assignmentWeight: 1 })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Module Unlock Rules Unit Tests
+ *
+ * Tests for evaluating date, module and assignment unlock rules and for
+ * merging rule updates.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  evaluateUnlockRules,
+  applyUnlockRulesUpdate,
+  type ModuleUnlockRules,
+  type ModuleUnlockState,
+} from '@/lib/modules';
+
+const now = new Date('2025-03-01T12:00:00Z');
+
+function createRules(overrides: Partial<ModuleUnlockRules> = {}): ModuleUnlockRules {
+  return {
+    orderIndex: 2,
+    requiresPrevious: false,
+    unlockAt: null,
+    prerequisiteModuleId: null,
+    prerequisiteAssignmentId: null,
+    prerequisiteMinScore: null,
+    ...overrides,
+  };
+}
+
+function createState(overrides: Partial<ModuleUnlockState> = {}): ModuleUnlockState {
+  return {
+    previousModule: null,
+    prerequisiteModule: null,
+    prerequisiteAssignment: null,
+    ...overrides,
+  };
+}
+
+describe('evaluateUnlockRules', () => {
+  it('unlocks modules without rules', () => {
+    expect(evaluateUnlockRules(createRules(), createState(), now)).toBeNull();
+  });
+
+  it('locks until the unlock date', () => {
+    // Arrange
+    const unlockAt = new Date('2025-03-10T09:00:00Z');
+
+    // Act
+    const before = evaluateUnlockRules(createRules({ unlockAt }), createState(), now);
+    const after = evaluateUnlockRules(createRules({ unlockAt }), createState(), unlockAt);
+
+    // Assert
+    expect(before).toEqual({
+      unlockMessage: 'Available on Mar 10, 2025, 9:00 AM UTC',
+      unlockAt: unlockAt.toISOString(),
+    });
+    expect(after).toBeNull();
+  });
+
+  it('requires the previous module only when sequential', () => {
+    // Arrange
+    const state = createState({
+      previousModule: { id: 'm1', title: 'Basics', completed: false },
+    });
+
+    // Act
+    const sequential = evaluateUnlockRules(createRules({ requiresPrevious: true }), state, now);
+    const open = evaluateUnlockRules(createRules(), state, now);
+    const first = evaluateUnlockRules(
+      createRules({ requiresPrevious: true, orderIndex: 0 }),
+      state,
+      now
+    );
+
+    // Assert
+    expect(sequential).toEqual({
+      unlockMessage: 'Complete "Basics" to unlock',
+      prerequisiteModuleId: 'm1',
+      prerequisiteModuleTitle: 'Basics',
+    });
+    expect(open).toBeNull();
+    expect(first).toBeNull();
+  });
+
+  it('requires a specific prerequisite module', () => {
+    // Arrange
+    const rules = createRules({ prerequisiteModuleId: 'm0' });
+
+    // Act
+    const locked = evaluateUnlockRules(
+      rules,
+      createState({ prerequisiteModule: { id: 'm0', title: 'Orientation', completed: false } }),
+      now
+    );
+    const unlocked = evaluateUnlockRules(
+      rules,
+      createState({ prerequisiteModule: { id: 'm0', title: 'Orientation', completed: true } }),
+      now
+    );
+
+    // Assert
+    expect(locked?.unlockMessage).toBe('Complete "Orientation" to unlock');
+    expect(locked?.prerequisiteModuleId).toBe('m0');
+    expect(unlocked).toBeNull();
+  });
+
+  it('ignores prerequisites that no longer exist', () => {
+    // Act
+    const result = evaluateUnlockRules(
+      createRules({ prerequisiteModuleId: 'gone', prerequisiteAssignmentId: 'gone' }),
+      createState(),
+      now
+    );
+
+    // Assert
+    expect(result).toBeNull();
+  });
+
+  it('requires a submission to the gating assignment', () => {
+    // Arrange
+    const rules = createRules({ prerequisiteAssignmentId: 'a1' });
+    const assignment = { id: 'a1', title: 'Essay 1', submitted: false, scorePercent: null };
+
+    // Act
+    const locked = evaluateUnlockRules(rules, createState({ prerequisiteAssignment: assignment }), now);
+    const unlocked = evaluateUnlockRules(
+      rules,
+      createState({ prerequisiteAssignment: { ...assignment, submitted: true } }),
+      now
+    );
+
+    // Assert
+    expect(locked).toEqual({
+      unlockMessage: 'Submit "Essay 1" to unlock',
+      prerequisiteAssignmentId: 'a1',
+      prerequisiteAssignmentTitle: 'Essay 1',
+    });
+    expect(unlocked).toBeNull();
+  });
+
+  it('requires the minimum score on the gating assignment', () => {
+    // Arrange
+    const rules = createRules({ prerequisiteAssignmentId: 'a1', prerequisiteMinScore: 70 });
+    const assignment = { id: 'a1', title: 'Quiz 1', submitted: true, scorePercent: null };
+
+    // Act
+    const ungraded = evaluateUnlockRules(rules, createState({ prerequisiteAssignment: assignment }), now);
+    const below = evaluateUnlockRules(
+      rules,
+      createState({ prerequisiteAssignment: { ...assignment, scorePercent: 64.6 } }),
+      now
+    );
+    const passed = evaluateUnlockRules(
+      rules,
+      createState({ prerequisiteAssignment: { ...assignment, scorePercent: 70 } }),
+      now
+    );
+
+    // Assert
+    expect(ungraded?.unlockMessage).toBe('Score at least 70% on "Quiz 1" to unlock (awaiting grade)');
+    expect(below?.unlockMessage).toBe(
+      'Score at least 70% on "Quiz 1" to unlock (current score: 65%)'
+    );
+    expect(passed).toBeNull();
+  });
+
+  it('reports the date before other unmet rules', () => {
+    // Act
+    const result = evaluateUnlockRules(
+      createRules({ unlockAt: new Date('2025-04-01T00:00:00Z'), prerequisiteModuleId: 'm0' }),
+      createState({ prerequisiteModule: { id: 'm0', title: 'Orientation', completed: false } }),
+      now
+    );
+
+    // Assert
+    expect(result?.unlockMessage).toMatch(/^Available on /);
+  });
+});
+
+describe('applyUnlockRulesUpdate', () => {
+  const current = {
+    unlockAt: now,
+    prerequisiteModuleId: 'm0',
+    prerequisiteAssignmentId: 'a1',
+    prerequisiteMinScore: 80,
+  };
+
+  it('keeps omitted rules and clears null rules', () => {
+    expect(applyUnlockRulesUpdate({}, current)).toEqual(current);
+    expect(applyUnlockRulesUpdate({ unlockAt: null, prerequisiteModuleId: null }, current)).toEqual({
+      ...current,
+      unlockAt: null,
+      prerequisiteModuleId: null,
+    });
+  });
+
+  it('clears the minimum score with the gating assignment', () => {
+    expect(applyUnlockRulesUpdate({ prerequisiteAssignmentId: null }, current)).toEqual({
+      ...current,
+      prerequisiteAssignmentId: null,
+      prerequisiteMinScore: null,
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Notifications Unit Tests
+ *
+ * Tests for preference resolution, delivering notifications to recipients
+ * and building notification content.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/email', () => ({ sendEmail: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('next/server', () => ({ after: jest.fn() }));
+
+import type { Prisma } from '@prisma/client';
+import { after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sendEmail } from '@/lib/email';
+import {
+  resolveNotificationPreferences,
+  notifyUsers,
+  runAfterCommit,
+  summarizeForNotification,
+  type AfterCommitTasks,
+  buildNotificationEmailText,
+} from '@/lib/notifications';
+
+const mockSendEmail = sendEmail as jest.MockedFunction<typeof sendEmail>;
+const mockAfter = after as jest.MockedFunction<typeof after>;
+
+/**
+ * Run the tasks scheduled to run after the response
+ */
+async function runAfterTasks() {
+  for (const [task] of mockAfter.mock.calls) {
+    await (task as () => Promise<void>)();
+  }
+}
+
+/**
+ * Stand-in for a transaction client; `asPrisma` installs it as the default client
+ */
+function createDb(users: unknown[], createMany = jest.fn().mockResolvedValue({ count: 0 })) {
+  const findMany = jest.fn().mockResolvedValue(users);
+  const db = {
+    users: { findMany },
+    notifications: { createMany },
+  } as unknown as Prisma.TransactionClient;
+  const asPrisma = () => Object.assign(prisma, db);
+  return { db, findMany, createMany, asPrisma };
+}
+
+/**
+ * Run a callback like `prisma.$transaction`, rethrowing what it throws
+ */
+async function transaction<T>(db: Prisma.TransactionClient, run: (tx: Prisma.TransactionClient) => Promise<T>) {
+  return run(db);
+}
+
+describe('resolveNotificationPreferences', () => {
+  it('enables both channels for every type by default', () => {
+    // Act
+    const preferences = resolveNotificationPreferences([]);
+
+    // Assert
+    expect(preferences).toEqual({
+      ANNOUNCEMENT: { inApp: true, email: true },
+      GRADE_POSTED: { inApp: true, email: true },
+      SUBMISSION_RECEIVED: { inApp: true, email: true },
+      DISCUSSION_REPLY: { inApp: true, email: true },
+      DISCUSSION_MENTION: { inApp: true, email: true },
+    });
+  });
+
+  it('applies saved preferences over the defaults', () => {
+    // Act
+    const preferences = resolveNotificationPreferences([
+      { type: 'GRADE_POSTED', inApp: true, email: false },
+    ]);
+
+    // Assert
+    expect(preferences.GRADE_POSTED).toEqual({ inApp: true, email: false });
+    expect(preferences.ANNOUNCEMENT).toEqual({ inApp: true, email: true });
+  });
+});
+
+describe('notifyUsers', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockSendEmail.mockClear();
+    mockAfter.mockClear();
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  it('delivers on each recipient\'s enabled channels', async () => {
+    // Arrange
+    const { createMany, asPrisma } = createDb([
+      { id: 's1', email: 's1@example.com', notification_preferences: [] },
+      { id: 's2', email: 's2@example.com', notification_preferences: [{ inApp: false, email: true }] },
+      { id: 's3', email: 's3@example.com', notification_preferences: [{ inApp: true, email: false }] },
+    ]);
+    asPrisma();
+
+    // Act
+    await notifyUsers({
+      userIds: ['s1', 's2', 's3'],
+      type: 'ANNOUNCEMENT',
+      title: 'CS101: Exam moved',
+      link: '/courses/c1/announcements',
+      courseId: 'c1',
+    });
+    await runAfterTasks();
+
+    // Assert
+    const rows = createMany.mock.calls[0][0].data;
+    expect(rows.map((row: { userId: string }) => row.userId)).toEqual(['s1', 's3']);
+    expect(rows[0]).toEqual(
+      expect.objectContaining({ type: 'ANNOUNCEMENT', title: 'CS101: Exam moved', courseId: 'c1' })
+    );
+    expect(mockSendEmail.mock.calls.map(([message]) => message.to)).toEqual([
+      's1@example.com',
+      's2@example.com',
+    ]);
+  });
+
+  it('never notifies the user who caused the event', async () => {
+    // Arrange
+    const { findMany, asPrisma } = createDb([]);
+    asPrisma();
+
+    // Act
+    await notifyUsers({ userIds: ['i1', 'i1'], type: 'DISCUSSION_REPLY', title: 'New post', actorId: 'i1' });
+
+    // Assert
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  it('sends emails only after the response', async () => {
+    // Arrange
+    createDb([{ id: 's1', email: 's1@example.com', notification_preferences: [] }]).asPrisma();
+
+    // Act
+    await notifyUsers({ userIds: ['s1'], type: 'GRADE_POSTED', title: 'Grade posted' });
+
+    // Assert
+    expect(mockAfter).toHaveBeenCalledTimes(1);
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+
+  it('sends the emails of a transaction only once it commits', async () => {
+    // Arrange
+    const { db } = createDb([{ id: 's1', email: 's1@example.com', notification_preferences: [] }]);
+    const afterCommit: AfterCommitTasks = [];
+
+    // Act
+    await transaction(db, (tx) =>
+      notifyUsers({ userIds: ['s1'], type: 'GRADE_POSTED', title: 'Grade posted' }, tx, afterCommit)
+    );
+    const queued = mockAfter.mock.calls.length;
+    runAfterCommit(afterCommit);
+    await runAfterTasks();
+
+    // Assert
+    expect(queued).toBe(0);
+    expect(mockSendEmail.mock.calls.map(([message]) => message.to)).toEqual(['s1@example.com']);
+  });
+
+  it('sends no email when the transaction rolls back', async () => {
+    // Arrange
+    const { db } = createDb([{ id: 's1', email: 's1@example.com', notification_preferences: [] }]);
+    const afterCommit: AfterCommitTasks = [];
+
+    // Act
+    const saved = transaction(db, async (tx) => {
+      await notifyUsers({ userIds: ['s1'], type: 'GRADE_POSTED', title: 'Grade posted' }, tx, afterCommit);
+      throw new Error('Grade could not be saved');
+    }).then(() => runAfterCommit(afterCommit));
+
+    // Assert
+    await expect(saved).rejects.toThrow('Grade could not be saved');
+    await runAfterTasks();
+    expect(mockAfter).not.toHaveBeenCalled();
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+
+  it('requires an afterCommit list with a transaction client', async () => {
+    // Arrange
+    const { db, findMany } = createDb([]);
+
+    // Act & Assert
+    await expect(
+      notifyUsers({ userIds: ['s1'], type: 'GRADE_POSTED', title: 'Grade posted' }, db)
+    ).rejects.toThrow('afterCommit');
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  it('does not throw when notifications cannot be stored', async () => {
+    // Arrange
+    createDb(
+      [{ id: 's1', email: 's1@example.com', notification_preferences: [] }],
+      jest.fn().mockRejectedValue(new Error('Database unavailable'))
+    ).asPrisma();
+
+    // Act & Assert
+    await expect(
+      notifyUsers({ userIds: ['s1'], type: 'GRADE_POSTED', title: 'Grade posted' })
+    ).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalled();
+  });
+
+  it('rethrows on a transaction client so the caller rolls back', async () => {
+    // Arrange
+    const { db } = createDb(
+      [{ id: 's1', email: 's1@example.com', notification_preferences: [] }],
+      jest.fn().mockRejectedValue(new Error('Database unavailable'))
+    );
+
+    // Act & Assert
+    await expect(
+      notifyUsers({ userIds: ['s1'], type: 'GRADE_POSTED', title: 'Grade posted' }, db, [])
+    ).rejects.toThrow('Database unavailable');
+  });
+});
+
+describe('summarizeForNotification', () => {
+  it('strips markup and collapses whitespace', () => {
+    expect(summarizeForNotification('<p>Hello&nbsp;<b>class</b></p>\n\n<p>See you</p>')).toBe(
+      'Hello class See you'
+    );
+  });
+
+  it('truncates long content with an ellipsis', () => {
+    // Act
+    const summary = summarizeForNotification('word '.repeat(100), 20);
+
+    // Assert
+    expect(summary.length).toBeLessThanOrEqual(20);
+    expect(summary.endsWith('…')).toBe(true);
+  });
+});
+
+describe('buildNotificationEmailText', () => {
+  it('includes the body and an absolute link', () => {
+    // Act
+    const text = buildNotificationEmailText(
+      { title: 'Grade posted', body: 'Essay 1', link: '/courses/c1/assignments/a1' },
+      'https://lms.example.com/'
+    );
+
+    // Assert
+    expect(text.split('\n').slice(0, 5)).toEqual([
+      'Grade posted',
+      '',
+      'Essay 1',
+      '',
+      'View it at https://lms.example.com/courses/c1/assignments/a1',
+    ]);
+  });
+});
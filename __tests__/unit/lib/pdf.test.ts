@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * PDF Unit Tests
+ *
+ * Tests for text measurement, wrapping and building PDF files.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import { createPdf, measureText, wrapText } from '@/lib/pdf';
+
+describe('measureText', () => {
+  it('uses the font metrics', () => {
+    // 'A' is 667 units in Helvetica and 722 in Helvetica-Bold
+    expect(measureText('A', 'Helvetica', 10)).toBeCloseTo(6.67);
+    expect(measureText('A', 'Helvetica-Bold', 10)).toBeCloseTo(7.22);
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks on spaces to fit the width', () => {
+    // Act
+    const lines = wrapText('Introduction to Machine Learning', 'Helvetica', 12, 120);
+
+    // Assert
+    expect(lines).toEqual(['Introduction to', 'Machine Learning']);
+  });
+
+  it('keeps a long word on its own line', () => {
+    expect(wrapText('a Supercalifragilistic b', 'Helvetica', 12, 20)).toEqual([
+      'a',
+      'Supercalifragilistic',
+      'b',
+    ]);
+  });
+});
+
+describe('createPdf', () => {
+  it('writes a cross-reference table pointing at each object', () => {
+    // Act
+    const pdf = createPdf({
+      width: 612,
+      height: 792,
+      title: 'Test',
+      elements: [
+        { type: 'text', x: 306, y: 700, text: 'Hello', align: 'center' },
+        { type: 'text', x: 72, y: 650, text: 'Bold', font: 'Helvetica-Bold' },
+        { type: 'line', x1: 72, y1: 640, x2: 540, y2: 640 },
+      ],
+    });
+    const text = pdf.toString('latin1');
+
+    // Assert
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    expect(offsets).toHaveLength(7);
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+    expect(text).toContain('/BaseFont /Helvetica-Bold');
+  });
+
+  it('escapes special and Latin-1 characters in text', () => {
+    // Act
+    const text = createPdf({
+      width: 100,
+      height: 100,
+      elements: [{ type: 'text', x: 0, y: 0, text: 'José (C:\\) 漢' }],
+    }).toString('latin1');
+
+    // Assert
+    expect(text).toContain('(Jos\\351 \\(C:\\\\\\) ?) Tj');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Scheduled Publishing Unit Tests
+ *
+ * Tests for publish window filters, visibility checks and schedule updates.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  withinPublishWindow,
+  publishedNow,
+  isPublishedNow,
+  getPublishStatus,
+  applyPublishWindowUpdate,
+  validatePublishWindow,
+} from '@/lib/publishing';
+
+const now = new Date('2025-03-01T12:00:00Z');
+const earlier = new Date('2025-02-01T00:00:00Z');
+const later = new Date('2025-04-01T00:00:00Z');
+
+describe('publish window filters', () => {
+  it('matches records whose window contains now', () => {
+    expect(withinPublishWindow(now)).toEqual({
+      AND: [
+        { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+        { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] },
+      ],
+    });
+  });
+
+  it('also requires the publish flag for published records', () => {
+    expect(publishedNow(now)).toEqual({ isPublished: true, ...withinPublishWindow(now) });
+  });
+});
+
+describe('isPublishedNow', () => {
+  it('shows published records without a window', () => {
+    expect(isPublishedNow({ isPublished: true, publishAt: null, unpublishAt: null }, now)).toBe(true);
+  });
+
+  it('hides drafts even inside their window', () => {
+    expect(isPublishedNow({ isPublished: false, publishAt: earlier }, now)).toBe(false);
+  });
+
+  it('hides records before publishAt and from unpublishAt on', () => {
+    expect(isPublishedNow({ isPublished: true, publishAt: later }, now)).toBe(false);
+    expect(isPublishedNow({ isPublished: true, unpublishAt: now }, now)).toBe(false);
+    expect(isPublishedNow({ isPublished: true, publishAt: now, unpublishAt: later }, now)).toBe(true);
+  });
+
+  it('accepts serialized dates', () => {
+    expect(
+      isPublishedNow({ isPublished: true, publishAt: earlier.toISOString(), unpublishAt: later.toISOString() }, now)
+    ).toBe(true);
+  });
+});
+
+describe('getPublishStatus', () => {
+  it('reports where a record is in its schedule', () => {
+    expect(getPublishStatus({ isPublished: false, publishAt: later }, now)).toBe('draft');
+    expect(getPublishStatus({ isPublished: true, publishAt: later }, now)).toBe('scheduled');
+    expect(getPublishStatus({ isPublished: true, publishAt: earlier, unpublishAt: later }, now)).toBe('published');
+    expect(getPublishStatus({ isPublished: true, unpublishAt: earlier }, now)).toBe('expired');
+  });
+});
+
+describe('applyPublishWindowUpdate', () => {
+  it('keeps omitted dates and clears null dates', () => {
+    // Arrange
+    const current = { publishAt: earlier, unpublishAt: later };
+
+    // Act
+    const kept = applyPublishWindowUpdate({}, current);
+    const cleared = applyPublishWindowUpdate({ unpublishAt: null }, current);
+    const changed = applyPublishWindowUpdate({ publishAt: now }, current);
+
+    // Assert
+    expect(kept).toEqual(current);
+    expect(cleared).toEqual({ publishAt: earlier, unpublishAt: null });
+    expect(changed).toEqual({ publishAt: now, unpublishAt: later });
+  });
+});
+
+describe('validatePublishWindow', () => {
+  it('requires the window to close after it opens', () => {
+    expect(validatePublishWindow({ publishAt: earlier, unpublishAt: later })).toBeNull();
+    expect(validatePublishWindow({ publishAt: later })).toBeNull();
+    expect(validatePublishWindow({ publishAt: later, unpublishAt: earlier })).toBe(
+      'Unpublish date must be after the publish date'
+    );
+    expect(validatePublishWindow({ publishAt: now, unpublishAt: now })).not.toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Quiz Attempts Unit Tests
+ *
+ * Tests that concurrent requests cannot start two attempts in progress or
+ * grade the same attempt twice.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+jest.mock('@/lib/attempts', () => ({
+  syncGradeFromAttempts: jest.fn().mockResolvedValue({ grade: null }),
+}));
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { startQuizAttempt, submitQuizAttempt, type QuizForAttempt } from '@/lib/quiz-attempts';
+
+const quiz: QuizForAttempt = {
+  id: 'quiz-1',
+  bankId: 'bank-1',
+  questionCount: null,
+  timeLimitMinutes: null,
+  shuffleQuestions: false,
+  assignmentId: 'assignment-1',
+  assignments: { maxPoints: 10, createdById: 'instructor' },
+};
+
+const attempt = {
+  id: 'attempt-1',
+  questionIds: [],
+  expiresAt: null,
+  submittedAt: null,
+  studentId: 'student-1',
+};
+
+/**
+ * Install a mock default client whose transactions run against the same mocks
+ */
+function installDb(quizAttempts: Record<string, jest.Mock>) {
+  const db = {
+    quiz_questions: { findMany: jest.fn().mockResolvedValue([]) },
+    quiz_attempts: quizAttempts,
+    submissions: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue({ id: 'submission-1' }),
+    },
+    quiz_answers: { createMany: jest.fn().mockResolvedValue({ count: 0 }) },
+  };
+  Object.assign(prisma, db, {
+    $transaction: (run: (tx: typeof db) => Promise<unknown>) => run(db),
+  });
+  return db;
+}
+
+describe('startQuizAttempt', () => {
+  it('resumes the attempt a concurrent request started', async () => {
+    // Arrange
+    const existing = { id: 'attempt-0', quizId: quiz.id, studentId: 'student-1', submittedAt: null };
+    const db = installDb({
+      create: jest.fn().mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        })
+      ),
+      findFirst: jest.fn().mockResolvedValue(existing),
+    });
+
+    // Act
+    const started = await startQuizAttempt(quiz, 'student-1');
+
+    // Assert
+    expect(started).toBe(existing);
+    expect(db.quiz_attempts.findFirst).toHaveBeenCalledWith({
+      where: { quizId: quiz.id, studentId: 'student-1', submittedAt: null },
+    });
+  });
+
+  it('rethrows other errors', async () => {
+    // Arrange
+    installDb({ create: jest.fn().mockRejectedValue(new Error('connection lost')), findFirst: jest.fn() });
+
+    // Act & Assert
+    await expect(startQuizAttempt(quiz, 'student-1')).rejects.toThrow('connection lost');
+  });
+});
+
+describe('submitQuizAttempt', () => {
+  it('grades an attempt it claims', async () => {
+    // Arrange
+    const db = installDb({
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest.fn().mockResolvedValue({ id: attempt.id }),
+    });
+
+    // Act
+    const result = await submitQuizAttempt(quiz, attempt, []);
+
+    // Assert
+    expect(result?.attempt).toEqual({ id: attempt.id });
+    expect(db.quiz_attempts.updateMany).toHaveBeenCalledWith({
+      where: { id: attempt.id, submittedAt: null },
+      data: { submittedAt: expect.any(Date) },
+    });
+    expect(db.submissions.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('records nothing when a concurrent request already submitted the attempt', async () => {
+    // Arrange
+    const db = installDb({
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      update: jest.fn(),
+    });
+
+    // Act
+    const result = await submitQuizAttempt(quiz, attempt, []);
+
+    // Assert
+    expect(result).toBeNull();
+    expect(db.submissions.create).not.toHaveBeenCalled();
+    expect(db.quiz_attempts.update).not.toHaveBeenCalled();
+  });
+});
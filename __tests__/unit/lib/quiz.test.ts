@@ -0,0 +1,294 @@
+/**
+ * Quiz Unit Tests
+ *
+ * Tests for auto-grading each question type, scaling scores, drawing
+ * questions and attempt expiry.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  isAnswerCorrect,
+  scoreQuiz,
+  scaleQuizScore,
+  createSeededRandom,
+  shuffle,
+  drawQuizQuestions,
+  getAttemptExpiry,
+  isAttemptExpired,
+  getAttemptRemainingSeconds,
+  buildQuizQuestionsCreate,
+  type QuizQuestionDefinition,
+} from '@/lib/quiz';
+
+const baseQuestion: QuizQuestionDefinition = {
+  id: 'q',
+  type: 'MULTIPLE_CHOICE',
+  points: 1,
+  options: [],
+  numericAnswer: null,
+  numericTolerance: null,
+  acceptedAnswers: [],
+  caseSensitive: false,
+};
+
+const multipleChoice: QuizQuestionDefinition = {
+  ...baseQuestion,
+  id: 'mc',
+  points: 2,
+  options: [
+    { id: 'a', isCorrect: false },
+    { id: 'b', isCorrect: true },
+    { id: 'c', isCorrect: false },
+  ],
+};
+
+const multiSelect: QuizQuestionDefinition = {
+  ...baseQuestion,
+  id: 'ms',
+  type: 'MULTI_SELECT',
+  options: [
+    { id: 'a', isCorrect: true },
+    { id: 'b', isCorrect: false },
+    { id: 'c', isCorrect: true },
+  ],
+};
+
+const numeric: QuizQuestionDefinition = {
+  ...baseQuestion,
+  id: 'num',
+  type: 'NUMERIC',
+  numericAnswer: 3.14,
+  numericTolerance: 0.01,
+};
+
+const shortAnswer: QuizQuestionDefinition = {
+  ...baseQuestion,
+  id: 'sa',
+  type: 'SHORT_ANSWER',
+  acceptedAnswers: ['Photosynthesis', 'photo synthesis'],
+};
+
+describe('Quiz Module', () => {
+  describe('isAnswerCorrect', () => {
+    it('accepts the single correct multiple choice option', () => {
+      expect(isAnswerCorrect(multipleChoice, { questionId: 'mc', selectedOptionIds: ['b'] })).toBe(true);
+      expect(isAnswerCorrect(multipleChoice, { questionId: 'mc', selectedOptionIds: ['a'] })).toBe(false);
+    });
+
+    it('rejects multiple choice answers with several options selected', () => {
+      expect(isAnswerCorrect(multipleChoice, { questionId: 'mc', selectedOptionIds: ['a', 'b'] })).toBe(false);
+    });
+
+    it('requires exactly the correct options for multi-select', () => {
+      expect(isAnswerCorrect(multiSelect, { questionId: 'ms', selectedOptionIds: ['c', 'a'] })).toBe(true);
+      expect(isAnswerCorrect(multiSelect, { questionId: 'ms', selectedOptionIds: ['a'] })).toBe(false);
+      expect(isAnswerCorrect(multiSelect, { questionId: 'ms', selectedOptionIds: ['a', 'b', 'c'] })).toBe(false);
+    });
+
+    it('grades true/false like multiple choice', () => {
+      const trueFalse: QuizQuestionDefinition = {
+        ...baseQuestion,
+        type: 'TRUE_FALSE',
+        options: [
+          { id: 'true', isCorrect: false },
+          { id: 'false', isCorrect: true },
+        ],
+      };
+
+      expect(isAnswerCorrect(trueFalse, { questionId: 'q', selectedOptionIds: ['false'] })).toBe(true);
+      expect(isAnswerCorrect(trueFalse, { questionId: 'q', selectedOptionIds: ['true'] })).toBe(false);
+    });
+
+    it('accepts numeric answers within the tolerance', () => {
+      expect(isAnswerCorrect(numeric, { questionId: 'num', numericAnswer: 3.15 })).toBe(true);
+      expect(isAnswerCorrect(numeric, { questionId: 'num', numericAnswer: 3.13 })).toBe(true);
+      expect(isAnswerCorrect(numeric, { questionId: 'num', numericAnswer: 3.2 })).toBe(false);
+      expect(isAnswerCorrect(numeric, { questionId: 'num', numericAnswer: null })).toBe(false);
+    });
+
+    it('requires an exact numeric answer without a tolerance', () => {
+      const exact = { ...numeric, numericAnswer: 0.3, numericTolerance: null };
+
+      expect(isAnswerCorrect(exact, { questionId: 'num', numericAnswer: 0.1 + 0.2 })).toBe(true);
+      expect(isAnswerCorrect(exact, { questionId: 'num', numericAnswer: 0.31 })).toBe(false);
+    });
+
+    it('matches short answers ignoring case and extra whitespace', () => {
+      expect(isAnswerCorrect(shortAnswer, { questionId: 'sa', textAnswer: '  PHOTOSYNTHESIS ' })).toBe(true);
+      expect(isAnswerCorrect(shortAnswer, { questionId: 'sa', textAnswer: 'photo   synthesis' })).toBe(true);
+      expect(isAnswerCorrect(shortAnswer, { questionId: 'sa', textAnswer: 'respiration' })).toBe(false);
+      expect(isAnswerCorrect(shortAnswer, { questionId: 'sa', textAnswer: '   ' })).toBe(false);
+    });
+
+    it('respects case-sensitive short answers', () => {
+      const caseSensitive = { ...shortAnswer, caseSensitive: true };
+
+      expect(isAnswerCorrect(caseSensitive, { questionId: 'sa', textAnswer: 'Photosynthesis' })).toBe(true);
+      expect(isAnswerCorrect(caseSensitive, { questionId: 'sa', textAnswer: 'photosynthesis' })).toBe(false);
+    });
+
+    it('treats a missing answer as incorrect', () => {
+      expect(isAnswerCorrect(multipleChoice, undefined)).toBe(false);
+    });
+  });
+
+  describe('scoreQuiz', () => {
+    it('totals earned and possible points', () => {
+      // Arrange
+      const questions = [multipleChoice, multiSelect, numeric];
+      const answers = [
+        { questionId: 'mc', selectedOptionIds: ['b'] },
+        { questionId: 'ms', selectedOptionIds: ['a'] },
+        { questionId: 'num', numericAnswer: 3.14 },
+      ];
+
+      // Act
+      const result = scoreQuiz(questions, answers);
+
+      // Assert
+      expect(result.earnedPoints).toBe(3);
+      expect(result.possiblePoints).toBe(4);
+      expect(result.answers.map((a) => a.isCorrect)).toEqual([true, false, true]);
+    });
+
+    it('scores unanswered questions as 0 and ignores unknown questions', () => {
+      const result = scoreQuiz([multipleChoice, shortAnswer], [
+        { questionId: 'other', selectedOptionIds: ['b'] },
+      ]);
+
+      expect(result.earnedPoints).toBe(0);
+      expect(result.possiblePoints).toBe(3);
+      expect(result.answers).toHaveLength(2);
+      expect(result.answers[0]).toMatchObject({ questionId: 'mc', selectedOptionIds: [], points: 0 });
+    });
+
+    it('stores trimmed text answers', () => {
+      const result = scoreQuiz([shortAnswer], [{ questionId: 'sa', textAnswer: ' photosynthesis ' }]);
+
+      expect(result.answers[0].textAnswer).toBe('photosynthesis');
+    });
+  });
+
+  describe('scaleQuizScore', () => {
+    it('scales earned points to the assignment maximum', () => {
+      expect(scaleQuizScore(3, 4, 100)).toBe(75);
+      expect(scaleQuizScore(1, 3, 10)).toBe(3.33);
+    });
+
+    it('returns 0 when no points are possible', () => {
+      expect(scaleQuizScore(0, 0, 100)).toBe(0);
+    });
+  });
+
+  describe('shuffle / createSeededRandom', () => {
+    it('produces the same order for the same seed', () => {
+      const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+      expect(shuffle(items, createSeededRandom('attempt-1'))).toEqual(
+        shuffle(items, createSeededRandom('attempt-1'))
+      );
+    });
+
+    it('keeps every item and does not modify the input', () => {
+      const items = ['a', 'b', 'c', 'd'];
+
+      const result = shuffle(items, createSeededRandom('seed'));
+
+      expect([...result].sort()).toEqual(items);
+      expect(items).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+
+  describe('drawQuizQuestions', () => {
+    const ids = ['q1', 'q2', 'q3', 'q4', 'q5'];
+
+    it('uses every question in bank order by default', () => {
+      expect(drawQuizQuestions(ids, { questionCount: null, shuffleQuestions: false })).toEqual(ids);
+    });
+
+    it('draws a subset kept in bank order', () => {
+      // Act
+      const drawn = drawQuizQuestions(
+        ids,
+        { questionCount: 3, shuffleQuestions: false },
+        createSeededRandom('draw')
+      );
+
+      // Assert
+      expect(drawn).toHaveLength(3);
+      expect(drawn).toEqual(ids.filter((id) => drawn.includes(id)));
+    });
+
+    it('uses the whole bank when the count exceeds it', () => {
+      expect(drawQuizQuestions(ids, { questionCount: 10, shuffleQuestions: false })).toEqual(ids);
+    });
+
+    it('shuffles the drawn questions when enabled', () => {
+      const drawn = drawQuizQuestions(
+        ids,
+        { questionCount: null, shuffleQuestions: true },
+        createSeededRandom('shuffle')
+      );
+
+      expect([...drawn].sort()).toEqual(ids);
+    });
+  });
+
+  describe('getAttemptExpiry / isAttemptExpired / getAttemptRemainingSeconds', () => {
+    const startedAt = new Date('2025-03-01T10:00:00Z');
+
+    it('has no expiry without a time limit', () => {
+      expect(getAttemptExpiry(startedAt, null)).toBeNull();
+      expect(isAttemptExpired(null)).toBe(false);
+    });
+
+    it('expires after the time limit plus the grace period', () => {
+      // Arrange
+      const expiresAt = getAttemptExpiry(startedAt, 30);
+
+      // Assert
+      expect(expiresAt).toEqual(new Date('2025-03-01T10:30:00Z'));
+      expect(isAttemptExpired(expiresAt, new Date('2025-03-01T10:30:20Z'), 30)).toBe(false);
+      expect(isAttemptExpired(expiresAt, new Date('2025-03-01T10:30:31Z'), 30)).toBe(true);
+    });
+
+    it('counts the seconds left down to zero', () => {
+      // Arrange
+      const expiresAt = getAttemptExpiry(startedAt, 30);
+
+      // Assert
+      expect(getAttemptRemainingSeconds(null)).toBeNull();
+      expect(getAttemptRemainingSeconds(expiresAt, new Date('2025-03-01T10:29:00.500Z'))).toBe(59);
+      expect(getAttemptRemainingSeconds(expiresAt, new Date('2025-03-01T10:30:10Z'))).toBe(0);
+    });
+  });
+
+  describe('buildQuizQuestionsCreate', () => {
+    it('creates True and False options for true/false questions', () => {
+      const [question] = buildQuizQuestionsCreate([
+        { type: 'TRUE_FALSE', prompt: 'The sky is blue', points: 1, trueFalseAnswer: false },
+      ]);
+
+      expect(question.quiz_question_options?.create).toEqual([
+        expect.objectContaining({ text: 'True', isCorrect: false, orderIndex: 0 }),
+        expect.objectContaining({ text: 'False', isCorrect: true, orderIndex: 1 }),
+      ]);
+    });
+
+    it('only keeps the answer fields of the question type', () => {
+      const [question] = buildQuizQuestionsCreate([
+        {
+          type: 'NUMERIC',
+          prompt: '2 + 2',
+          points: 1,
+          numericAnswer: 4,
+          acceptedAnswers: ['four'],
+          options: [{ text: 'x', isCorrect: true }],
+        },
+      ]);
+
+      expect(question).toMatchObject({ numericAnswer: 4, numericTolerance: 0, acceptedAnswers: [] });
+      expect(question.quiz_question_options?.create).toEqual([]);
+    });
+  });
+});
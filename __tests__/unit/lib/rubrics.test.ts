@@ -0,0 +1,149 @@
+/**
+ * Rubric Scoring Unit Tests
+ *
+ * Tests for validating and totalling per-criterion rubric scores.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  scoreRubric,
+  getCriterionMaxPoints,
+  getRubricMaxPoints,
+  buildRubricCriteriaCreate,
+  RubricCriterionDefinition,
+} from '@/lib/rubrics';
+
+const criteria: RubricCriterionDefinition[] = [
+  {
+    id: 'thesis',
+    title: 'Thesis',
+    levels: [
+      { id: 'thesis-excellent', label: 'Excellent', points: 10 },
+      { id: 'thesis-adequate', label: 'Adequate', points: 6 },
+      { id: 'thesis-missing', label: 'Missing', points: 0 },
+    ],
+  },
+  {
+    id: 'evidence',
+    title: 'Evidence',
+    levels: [
+      { id: 'evidence-strong', label: 'Strong', points: 15 },
+      { id: 'evidence-weak', label: 'Weak', points: 5 },
+    ],
+  },
+];
+
+describe('Rubrics Module', () => {
+  describe('getCriterionMaxPoints / getRubricMaxPoints', () => {
+    it('uses the highest level of each criterion', () => {
+      expect(getCriterionMaxPoints(criteria[0])).toBe(10);
+      expect(getRubricMaxPoints(criteria)).toBe(25);
+    });
+
+    it('returns 0 for a rubric without criteria', () => {
+      expect(getRubricMaxPoints([])).toBe(0);
+    });
+  });
+
+  describe('scoreRubric', () => {
+    it('sums the points of the selected levels', () => {
+      // Arrange
+      const inputs = [
+        { criterionId: 'thesis', levelId: 'thesis-adequate' },
+        { criterionId: 'evidence', levelId: 'evidence-strong' },
+      ];
+
+      // Act
+      const result = scoreRubric(criteria, inputs);
+
+      // Assert
+      expect(result).toEqual({
+        valid: true,
+        totalPoints: 21,
+        scores: [
+          { criterionId: 'thesis', levelId: 'thesis-adequate', points: 6, comment: null },
+          { criterionId: 'evidence', levelId: 'evidence-strong', points: 15, comment: null },
+        ],
+      });
+    });
+
+    it('lets explicit points override the level points', () => {
+      const result = scoreRubric(criteria, [
+        { criterionId: 'thesis', levelId: 'thesis-adequate', points: 7.5, comment: ' Close ' },
+        { criterionId: 'evidence', points: 12 },
+      ]);
+
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.totalPoints).toBe(19.5);
+        expect(result.scores[0]).toEqual({
+          criterionId: 'thesis',
+          levelId: 'thesis-adequate',
+          points: 7.5,
+          comment: 'Close',
+        });
+        expect(result.scores[1].levelId).toBeNull();
+      }
+    });
+
+    it('requires every criterion to be scored', () => {
+      const result = scoreRubric(criteria, [{ criterionId: 'thesis', levelId: 'thesis-excellent' }]);
+
+      expect(result).toEqual({ valid: false, error: '"Evidence" has not been scored' });
+    });
+
+    it('rejects criteria that are not part of the rubric', () => {
+      const result = scoreRubric(criteria, [{ criterionId: 'style', points: 1 }]);
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('rejects a criterion scored twice', () => {
+      const result = scoreRubric(criteria, [
+        { criterionId: 'thesis', points: 1 },
+        { criterionId: 'thesis', points: 2 },
+      ]);
+
+      expect(result).toEqual({ valid: false, error: '"Thesis" is scored more than once' });
+    });
+
+    it('rejects levels belonging to another criterion', () => {
+      const result = scoreRubric(criteria, [
+        { criterionId: 'thesis', levelId: 'evidence-strong' },
+        { criterionId: 'evidence', levelId: 'evidence-weak' },
+      ]);
+
+      expect(result).toEqual({ valid: false, error: 'Invalid level selected for "Thesis"' });
+    });
+
+    it('rejects points above the criterion maximum', () => {
+      const result = scoreRubric(criteria, [
+        { criterionId: 'thesis', points: 11 },
+        { criterionId: 'evidence', points: 5 },
+      ]);
+
+      expect(result).toEqual({
+        valid: false,
+        error: 'Points for "Thesis" must be between 0 and 10',
+      });
+    });
+  });
+
+  describe('buildRubricCriteriaCreate', () => {
+    it('assigns order indexes in input order', () => {
+      const data = buildRubricCriteriaCreate([
+        { title: 'A', levels: [{ label: 'Good', points: 2 }, { label: 'Poor', points: 0 }] },
+        { title: 'B', description: '', levels: [{ label: 'Done', points: 1 }] },
+      ]);
+
+      expect(data.map((c) => [c.title, c.orderIndex, c.description])).toEqual([
+        ['A', 0, null],
+        ['B', 1, null],
+      ]);
+      expect(data[0].rubric_levels?.create).toEqual([
+        expect.objectContaining({ label: 'Good', points: 2, orderIndex: 0 }),
+        expect.objectContaining({ label: 'Poor', points: 0, orderIndex: 1 }),
+      ]);
+    });
+  });
+});
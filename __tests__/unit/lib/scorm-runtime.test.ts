@@ -0,0 +1,272 @@
+/**
+ * SCORM Runtime Unit Tests
+ *
+ * Tests for the SCORM 1.2 and 2004 runtime API: session state, data model
+ * checks and commits, and the bridge that runs it inside sandboxed packages.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  createScormRuntime,
+  getScormBridgeScript,
+  type Scorm12Api,
+  type Scorm2004Api,
+  type ScormBridgeSession,
+} from '@/lib/scorm-runtime';
+
+function createRuntime12(initialData: Record<string, string> = {}) {
+  const onCommit = jest.fn();
+  const runtime = createScormRuntime({ version: 'SCORM_12', initialData, onCommit });
+  return { runtime, api: runtime.api as Scorm12Api, onCommit };
+}
+
+function createRuntime2004(initialData: Record<string, string> = {}) {
+  const onCommit = jest.fn();
+  const runtime = createScormRuntime({ version: 'SCORM_2004', initialData, onCommit });
+  return { runtime, api: runtime.api as Scorm2004Api, onCommit };
+}
+
+/**
+ * Run the bridge script against a stand-in for a sandboxed package window
+ */
+function runBridge(session: ScormBridgeSession) {
+  const frame: Record<string, unknown> = {
+    name: JSON.stringify(session),
+    parent: { postMessage: jest.fn() },
+  };
+  new Function('window', getScormBridgeScript())(frame);
+  return { frame, postMessage: (frame.parent as { postMessage: jest.Mock }).postMessage };
+}
+
+describe('SCORM Runtime Module', () => {
+  describe('SCORM 1.2', () => {
+    it('should expose the API under the SCORM 1.2 global name', () => {
+      // Act
+      const { runtime } = createRuntime12();
+
+      // Assert
+      expect(runtime.globalName).toBe('API');
+    });
+
+    it('should reject calls before LMSInitialize', () => {
+      // Arrange
+      const { api } = createRuntime12();
+
+      // Act
+      const result = api.LMSSetValue('cmi.core.lesson_status', 'completed');
+
+      // Assert
+      expect(result).toBe('false');
+      expect(api.LMSGetLastError()).toBe('301');
+    });
+
+    it('should read initial data and children', () => {
+      // Arrange
+      const { api } = createRuntime12({ 'cmi.core.student_name': 'Doe, Jane' });
+      api.LMSInitialize('');
+
+      // Act & Assert
+      expect(api.LMSGetValue('cmi.core.student_name')).toBe('Doe, Jane');
+      expect(api.LMSGetValue('cmi.core.score._children')).toBe('raw,min,max');
+      expect(api.LMSGetLastError()).toBe('0');
+    });
+
+    it('should enforce read-only, write-only and vocabulary rules', () => {
+      // Arrange
+      const { api } = createRuntime12();
+      api.LMSInitialize('');
+
+      // Act & Assert
+      expect(api.LMSSetValue('cmi.core.student_id', 'x')).toBe('false');
+      expect(api.LMSGetLastError()).toBe('403');
+
+      api.LMSSetValue('cmi.core.exit', 'suspend');
+      expect(api.LMSGetValue('cmi.core.exit')).toBe('');
+      expect(api.LMSGetLastError()).toBe('404');
+
+      expect(api.LMSSetValue('cmi.core.lesson_status', 'done')).toBe('false');
+      expect(api.LMSGetLastError()).toBe('405');
+
+      expect(api.LMSSetValue('cmi.core.score.raw', 'high')).toBe('false');
+      expect(api.LMSSetValue('cmi.core.session_time', '10 minutes')).toBe('false');
+    });
+
+    it('should count collection entries and require them in order', () => {
+      // Arrange
+      const { api } = createRuntime12();
+      api.LMSInitialize('');
+
+      // Act
+      const skipped = api.LMSSetValue('cmi.interactions.1.id', 'q2');
+      api.LMSSetValue('cmi.interactions.0.id', 'q1');
+      api.LMSSetValue('cmi.interactions.1.id', 'q2');
+
+      // Assert
+      expect(skipped).toBe('false');
+      expect(api.LMSGetValue('cmi.interactions._count')).toBe('2');
+    });
+
+    it('should commit writable values and finish the session once', () => {
+      // Arrange
+      const { api, onCommit } = createRuntime12({ 'cmi.core.student_id': 'student-1' });
+      api.LMSInitialize('');
+      api.LMSSetValue('cmi.core.lesson_status', 'passed');
+      api.LMSSetValue('cmi.core.score.raw', '90');
+
+      // Act
+      api.LMSCommit('');
+      api.LMSFinish('');
+
+      // Assert
+      expect(onCommit).toHaveBeenNthCalledWith(
+        1,
+        { 'cmi.core.lesson_status': 'passed', 'cmi.core.score.raw': '90' },
+        false
+      );
+      expect(onCommit).toHaveBeenNthCalledWith(
+        2,
+        { 'cmi.core.lesson_status': 'passed', 'cmi.core.score.raw': '90' },
+        true
+      );
+      expect(api.LMSGetValue('cmi.core.lesson_status')).toBe('');
+      expect(api.LMSGetLastError()).toBe('101');
+    });
+  });
+
+  describe('SCORM 2004', () => {
+    it('should expose the API under the SCORM 2004 global name', () => {
+      // Act
+      const { runtime } = createRuntime2004();
+
+      // Assert
+      expect(runtime.globalName).toBe('API_1484_11');
+    });
+
+    it('should use SCORM 2004 error codes', () => {
+      // Arrange
+      const { api } = createRuntime2004({ 'cmi.learner_id': 'student-1' });
+
+      // Act & Assert
+      expect(api.GetValue('cmi.location')).toBe('');
+      expect(api.GetLastError()).toBe('122');
+
+      api.Initialize('');
+      expect(api.Initialize('')).toBe('false');
+      expect(api.GetLastError()).toBe('103');
+
+      expect(api.GetValue('cmi.location')).toBe('');
+      expect(api.GetLastError()).toBe('403');
+
+      expect(api.SetValue('cmi.learner_id', 'x')).toBe('false');
+      expect(api.GetLastError()).toBe('404');
+      expect(api.GetErrorString('404')).toBe('Data model element is read only');
+    });
+
+    it('should validate scaled scores and session times', () => {
+      // Arrange
+      const { api } = createRuntime2004();
+      api.Initialize('');
+
+      // Act & Assert
+      expect(api.SetValue('cmi.score.scaled', '1.5')).toBe('false');
+      expect(api.GetLastError()).toBe('406');
+      expect(api.SetValue('cmi.score.scaled', '0.75')).toBe('true');
+      expect(api.SetValue('cmi.session_time', 'PT')).toBe('false');
+      expect(api.SetValue('cmi.session_time', 'PT1H2M3.5S')).toBe('true');
+    });
+
+    it('should end a running session when terminated by the player', () => {
+      // Arrange
+      const { runtime, api, onCommit } = createRuntime2004();
+      api.Initialize('');
+      api.SetValue('cmi.exit', 'suspend');
+
+      // Act
+      runtime.terminate();
+      runtime.terminate();
+
+      // Assert
+      expect(onCommit).toHaveBeenCalledTimes(1);
+      expect(onCommit).toHaveBeenCalledWith({ 'cmi.exit': 'suspend' }, true);
+      expect(runtime.isRunning()).toBe(false);
+      expect(api.Commit('')).toBe('false');
+      expect(api.GetLastError()).toBe('143');
+    });
+  });
+
+  describe('sandbox bridge', () => {
+    const session: ScormBridgeSession = {
+      type: 'scorm-session',
+      version: 'SCORM_12',
+      data: { 'cmi.core.student_name': 'Doe, Jane' },
+      origin: 'https://lms.example.com',
+    };
+
+    it('should answer the SCO from the session data without the player', () => {
+      // Arrange
+      const { frame } = runBridge(session);
+      const api = frame.API as Scorm12Api;
+
+      // Act
+      api.LMSInitialize('');
+
+      // Assert
+      expect(api.LMSGetValue('cmi.core.student_name')).toBe('Doe, Jane');
+    });
+
+    it('should report calls that change the session to the player origin', () => {
+      // Arrange
+      const { frame, postMessage } = runBridge(session);
+      const api = frame.API as Scorm12Api;
+      api.LMSInitialize('');
+
+      // Act
+      api.LMSSetValue('cmi.core.lesson_status', 'completed');
+      api.LMSGetValue('cmi.core.lesson_status');
+
+      // Assert
+      expect(postMessage).toHaveBeenCalledTimes(2);
+      expect(postMessage).toHaveBeenLastCalledWith(
+        { type: 'scorm-call', method: 'LMSSetValue', args: ['cmi.core.lesson_status', 'completed'] },
+        'https://lms.example.com'
+      );
+    });
+
+    it('should not report rejected calls', () => {
+      // Arrange
+      const { frame, postMessage } = runBridge(session);
+      const api = frame.API as Scorm12Api;
+      api.LMSInitialize('');
+
+      // Act
+      api.LMSSetValue('cmi.core.student_name', 'Someone else');
+
+      // Assert
+      expect(postMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep set values in the frame name for the next page', () => {
+      // Arrange
+      const { frame } = runBridge(session);
+      const api = frame.API as Scorm12Api;
+      api.LMSInitialize('');
+
+      // Act
+      api.LMSSetValue('cmi.suspend_data', 'page=2');
+
+      // Assert
+      expect(JSON.parse(frame.name as string).data['cmi.suspend_data']).toBe('page=2');
+    });
+
+    it('should do nothing outside a player session', () => {
+      // Arrange
+      const frame: Record<string, unknown> = { name: 'sco-window', parent: {} };
+
+      // Act
+      new Function('window', getScormBridgeScript())(frame);
+
+      // Assert
+      expect(frame.API).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * SCORM Unit Tests
+ *
+ * Tests for reading package manifests, deriving tracking state from cmi
+ * data, SCORM time values, building launch data and package file tokens.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import {
+  ScormPackageError,
+  parseScormManifest,
+  getScormTrackingState,
+  isScormComplete,
+  hasScormResult,
+  getScormPoints,
+  parseScormDuration,
+  formatScormDuration,
+  mergeCmiData,
+  buildScormLaunchData,
+  getScormFileUrl,
+  createScormFileToken,
+  verifyScormFileToken,
+  SCORM_FILE_TOKEN_TTL_MS,
+  injectScormBridge,
+} from '@/lib/scorm';
+
+const scorm12Manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="course" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>Safety &amp; Compliance</title>
+      <item identifier="item-1" identifierref="res-1" isvisible="true">
+        <title>Lesson 1</title>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="res-1" type="webcontent" adlcp:scormtype="sco" href="lesson/index.html">
+      <file href="lesson/index.html"/>
+    </resource>
+  </resources>
+</manifest>`;
+
+const scorm2004Manifest = `<?xml version="1.0"?>
+<manifest identifier="course"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3">
+  <metadata>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="second">
+    <organization identifier="first">
+      <title>Other</title>
+      <item identifier="a" identifierref="other"><title>Other</title></item>
+    </organization>
+    <organization identifier="second">
+      <title>Course Title</title>
+      <item identifier="b"><title>Folder</title>
+        <item identifier="c" identifierref="launch" parameters="?page=1"><title>Start</title></item>
+      </item>
+    </organization>
+  </organizations>
+  <resources xml:base="content/">
+    <resource identifier="other" adlcp:scormType="sco" href="other.html"/>
+    <resource identifier="launch" adlcp:scormType="sco" xml:base="sco/" href="start.html"/>
+  </resources>
+</manifest>`;
+
+describe('SCORM Module', () => {
+  describe('parseScormManifest', () => {
+    it('should read a SCORM 1.2 manifest', () => {
+      // Act
+      const manifest = parseScormManifest(scorm12Manifest);
+
+      // Assert
+      expect(manifest).toEqual({
+        version: 'SCORM_12',
+        title: 'Safety & Compliance',
+        launchPath: 'lesson/index.html',
+      });
+    });
+
+    it('should use the default organization, xml:base and item parameters', () => {
+      // Act
+      const manifest = parseScormManifest(scorm2004Manifest);
+
+      // Assert
+      expect(manifest).toEqual({
+        version: 'SCORM_2004',
+        title: 'Course Title',
+        launchPath: 'content/sco/start.html?page=1',
+      });
+    });
+
+    it('should fall back to the first SCO resource', () => {
+      // Arrange
+      const xml = `<manifest><organizations/><resources>
+        <resource identifier="asset" adlcp:scormtype="asset" href="logo.png"/>
+        <resource identifier="sco" adlcp:scormtype="sco" href="./index.html"/>
+      </resources></manifest>`;
+
+      // Act
+      const manifest = parseScormManifest(xml);
+
+      // Assert
+      expect(manifest.launchPath).toBe('index.html');
+      expect(manifest.title).toBeNull();
+    });
+
+    it('should reject a manifest without a launchable resource', () => {
+      // Arrange
+      const xml = '<manifest><organizations/><resources/></manifest>';
+
+      // Act & Assert
+      expect(() => parseScormManifest(xml)).toThrow(ScormPackageError);
+    });
+  });
+
+  describe('getScormTrackingState', () => {
+    it('should treat SCORM 1.2 passed as completed and passed', () => {
+      // Act
+      const state = getScormTrackingState('SCORM_12', {
+        'cmi.core.lesson_status': 'passed',
+        'cmi.core.score.raw': '80',
+      });
+
+      // Assert
+      expect(state).toEqual({ completionStatus: 'COMPLETED', successStatus: 'PASSED', scoreScaled: 0.8 });
+    });
+
+    it('should scale SCORM 1.2 raw scores between min and max', () => {
+      // Act
+      const state = getScormTrackingState('SCORM_12', {
+        'cmi.core.lesson_status': 'incomplete',
+        'cmi.core.score.raw': '15',
+        'cmi.core.score.min': '10',
+        'cmi.core.score.max': '20',
+      });
+
+      // Assert
+      expect(state).toEqual({ completionStatus: 'INCOMPLETE', successStatus: 'UNKNOWN', scoreScaled: 0.5 });
+    });
+
+    it('should prefer the SCORM 2004 scaled score', () => {
+      // Act
+      const state = getScormTrackingState('SCORM_2004', {
+        'cmi.completion_status': 'completed',
+        'cmi.success_status': 'failed',
+        'cmi.score.scaled': '0.4',
+        'cmi.score.raw': '90',
+      });
+
+      // Assert
+      expect(state).toEqual({ completionStatus: 'COMPLETED', successStatus: 'FAILED', scoreScaled: 0.4 });
+    });
+
+    it('should report a package without data as not attempted', () => {
+      // Act
+      const state = getScormTrackingState('SCORM_2004', {});
+
+      // Assert
+      expect(state).toEqual({ completionStatus: 'NOT_ATTEMPTED', successStatus: 'UNKNOWN', scoreScaled: null });
+    });
+  });
+
+  describe('isScormComplete and hasScormResult', () => {
+    it('should count a passed package as complete', () => {
+      // Arrange
+      const state = { completionStatus: 'INCOMPLETE', successStatus: 'PASSED', scoreScaled: 0.9 } as const;
+
+      // Act & Assert
+      expect(isScormComplete(state)).toBe(true);
+      expect(hasScormResult(state)).toBe(true);
+    });
+
+    it('should not grade an unfinished package or one without a score', () => {
+      // Act & Assert
+      expect(
+        hasScormResult({ completionStatus: 'INCOMPLETE', successStatus: 'UNKNOWN', scoreScaled: 0.5 })
+      ).toBe(false);
+      expect(
+        hasScormResult({ completionStatus: 'COMPLETED', successStatus: 'UNKNOWN', scoreScaled: null })
+      ).toBe(false);
+    });
+
+    it('should convert scaled scores to points', () => {
+      // Act & Assert
+      expect(getScormPoints(0.8333, 30)).toBe(25);
+      expect(getScormPoints(-0.5, 30)).toBe(0);
+    });
+  });
+
+  describe('SCORM durations', () => {
+    it('should parse SCORM 1.2 timespans and SCORM 2004 durations', () => {
+      // Act & Assert
+      expect(parseScormDuration('0001:30:15.5')).toBe(5416);
+      expect(parseScormDuration('PT1H30M15S')).toBe(5415);
+      expect(parseScormDuration('P1DT2M')).toBe(86520);
+    });
+
+    it('should treat invalid values as zero', () => {
+      // Act & Assert
+      expect(parseScormDuration(undefined)).toBe(0);
+      expect(parseScormDuration('P')).toBe(0);
+      expect(parseScormDuration('PT')).toBe(0);
+      expect(parseScormDuration('90 minutes')).toBe(0);
+    });
+
+    it('should format durations for each version', () => {
+      // Act & Assert
+      expect(formatScormDuration('SCORM_12', 3725)).toBe('0001:02:05');
+      expect(formatScormDuration('SCORM_2004', 3725)).toBe('PT1H2M5S');
+    });
+  });
+
+  describe('mergeCmiData', () => {
+    it('should store learner data without session elements', () => {
+      // Arrange
+      const stored = { 'cmi.core.lesson_location': 'page-1', 'cmi.suspend_data': 'a' };
+      const committed = {
+        'cmi.core.lesson_location': 'page-4',
+        'cmi.core.session_time': '0000:10:00',
+        'cmi.core.exit': 'suspend',
+      };
+
+      // Act
+      const result = mergeCmiData('SCORM_12', stored, committed);
+
+      // Assert
+      expect(result).toEqual({
+        cmiData: { 'cmi.core.lesson_location': 'page-4', 'cmi.suspend_data': 'a' },
+        sessionSeconds: 600,
+        suspended: true,
+      });
+    });
+  });
+
+  describe('buildScormLaunchData', () => {
+    const learner = { id: 'student-1', name: 'Doe, Jane' };
+
+    it('should start a first SCORM 1.2 session from the beginning', () => {
+      // Act
+      const data = buildScormLaunchData('SCORM_12', null, learner);
+
+      // Assert
+      expect(data).toMatchObject({
+        'cmi.core.student_id': 'student-1',
+        'cmi.core.student_name': 'Doe, Jane',
+        'cmi.core.entry': 'ab-initio',
+        'cmi.core.total_time': '0000:00:00',
+        'cmi.core.lesson_status': 'not attempted',
+      });
+    });
+
+    it('should resume a suspended SCORM 2004 session with stored data', () => {
+      // Arrange
+      const tracking = {
+        cmiData: { 'cmi.location': '7', 'cmi.completion_status': 'incomplete' },
+        totalTimeSeconds: 90,
+        suspended: true,
+      };
+
+      // Act
+      const data = buildScormLaunchData('SCORM_2004', tracking, learner);
+
+      // Assert
+      expect(data).toMatchObject({
+        'cmi.location': '7',
+        'cmi.learner_id': 'student-1',
+        'cmi.entry': 'resume',
+        'cmi.total_time': 'PT0H1M30S',
+        'cmi.completion_status': 'incomplete',
+        'cmi.success_status': 'unknown',
+      });
+    });
+
+    it('should not resume a session that was not suspended', () => {
+      // Arrange
+      const tracking = { cmiData: {}, totalTimeSeconds: 0, suspended: false };
+
+      // Act
+      const data = buildScormLaunchData('SCORM_2004', tracking, learner);
+
+      // Assert
+      expect(data['cmi.entry']).toBe('');
+    });
+  });
+
+  describe('getScormFileUrl', () => {
+    it('should encode each path segment', () => {
+      // Act & Assert
+      expect(getScormFileUrl('pkg-1', 'token', 'lesson one/index.html')).toBe(
+        '/api/scorm/pkg-1/token/lesson%20one/index.html'
+      );
+    });
+  });
+
+  describe('injectScormBridge', () => {
+    const tag = '<script src="/api/scorm/bridge"></script>';
+
+    it('should load the bridge at the start of the head', () => {
+      // Arrange
+      const html = '<html><head lang="en"><script src="sco.js"></script></head></html>';
+
+      // Act & Assert
+      expect(injectScormBridge(html)).toBe(
+        `<html><head lang="en">${tag}<script src="sco.js"></script></head></html>`
+      );
+    });
+
+    it('should load the bridge after the html tag when there is no head', () => {
+      // Act & Assert
+      expect(injectScormBridge('<HTML><body></body></HTML>')).toBe(`<HTML>${tag}<body></body></HTML>`);
+    });
+
+    it('should not mistake a header element for the head', () => {
+      // Act & Assert
+      expect(injectScormBridge('<header>Lesson</header>')).toBe(`${tag}<header>Lesson</header>`);
+    });
+  });
+
+  describe('package file tokens', () => {
+    const now = new Date('2025-01-01T12:00:00Z');
+
+    it('should return the user a token was issued to', () => {
+      // Arrange
+      const token = createScormFileToken('pkg-1', 'user-1', now);
+
+      // Act & Assert
+      expect(verifyScormFileToken('pkg-1', token, now)).toBe('user-1');
+    });
+
+    it('should reject a token for another package', () => {
+      // Arrange
+      const token = createScormFileToken('pkg-1', 'user-1', now);
+
+      // Act & Assert
+      expect(verifyScormFileToken('pkg-2', token, now)).toBeNull();
+    });
+
+    it('should reject a token whose user was changed', () => {
+      // Arrange
+      const token = createScormFileToken('pkg-1', 'user-1', now).replace('user-1', 'user-2');
+
+      // Act & Assert
+      expect(verifyScormFileToken('pkg-1', token, now)).toBeNull();
+    });
+
+    it('should reject an expired token', () => {
+      // Arrange
+      const token = createScormFileToken('pkg-1', 'user-1', now);
+      const later = new Date(now.getTime() + SCORM_FILE_TOKEN_TTL_MS + 1);
+
+      // Act & Assert
+      expect(verifyScormFileToken('pkg-1', token, later)).toBeNull();
+    });
+
+    it('should reject a malformed token', () => {
+      // Act & Assert
+      expect(verifyScormFileToken('pkg-1', 'not-a-token', now)).toBeNull();
+    });
+  });
+});
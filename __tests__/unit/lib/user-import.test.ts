@@ -0,0 +1,271 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Bulk User Import Unit Tests
+ *
+ * Tests for validating the rows of a user import CSV, generating
+ * temporary passwords and creating the imported users.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+let hashing = 0;
+let mostHashing = 0;
+jest.mock('bcryptjs', () => ({
+  hash: jest.fn(async (password: string) => {
+    hashing++;
+    mostHashing = Math.max(mostHashing, hashing);
+    await new Promise((resolve) => setImmediate(resolve));
+    hashing--;
+    return `hashed:${password}`;
+  }),
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  createImportedUsers,
+  generateTemporaryPassword,
+  MAX_USER_IMPORT_ROWS,
+  parseUserImportCSV,
+  type UserImportRow,
+} from '@/lib/user-import';
+
+const courses = [
+  { id: 'c1', code: 'CS101' },
+  { id: 'c2', code: 'CS102' },
+];
+
+const header = 'Email,Name,Surname,Cell Number,Company,Position,Work Address,Role,Courses';
+
+function csv(...rows: string[]): string {
+  return [header, ...rows].join('\n');
+}
+
+describe('parseUserImportCSV', () => {
+  it('reads valid rows with courses and default role', () => {
+    // Arrange
+    const text = csv(
+      'Jane@Example.com,Jane,Doe,0821234567,Acme,Analyst,"1 Main St, Cape Town",,cs101; CS102',
+      'john@example.com,John,Roe,0827654321,Acme,Manager,1 Main St,instructor,'
+    );
+
+    // Act
+    const plan = parseUserImportCSV(text, { existingEmails: [], courses });
+
+    // Assert
+    expect(plan.errors).toEqual([]);
+    expect(plan.rowCount).toBe(2);
+    expect(plan.users).toEqual([
+      expect.objectContaining({
+        row: 2,
+        email: 'jane@example.com',
+        workAddress: '1 Main St, Cape Town',
+        role: 'STUDENT',
+        courses,
+      }),
+      expect.objectContaining({ row: 3, email: 'john@example.com', role: 'INSTRUCTOR', courses: [] }),
+    ]);
+  });
+
+  it('matches alternative headers', () => {
+    // Arrange
+    const text = [
+      'email_address,First Name,Last Name,Mobile,Organization,Job Title,Address',
+      'jane@example.com,Jane,Doe,0821234567,Acme,Analyst,1 Main St',
+    ].join('\n');
+
+    // Act
+    const plan = parseUserImportCSV(text, { existingEmails: [], courses });
+
+    // Assert
+    expect(plan.errors).toEqual([]);
+    expect(plan.users).toHaveLength(1);
+  });
+
+  it('reports missing columns', () => {
+    // Act
+    const plan = parseUserImportCSV('Email,Name\njane@example.com,Jane', {
+      existingEmails: [],
+      courses,
+    });
+
+    // Assert
+    expect(plan.users).toEqual([]);
+    expect(plan.errors.map((error) => error.message)).toEqual([
+      'The CSV has no Surname column',
+      'The CSV has no Cell Number column',
+      'The CSV has no Company column',
+      'The CSV has no Position column',
+      'The CSV has no Work Address column',
+    ]);
+  });
+
+  it('reports schema errors per row and column', () => {
+    // Arrange
+    const text = csv(
+      'not-an-email,Jane,Doe,0821234567,Acme,Analyst,1 Main St,,',
+      'john@example.com,,Roe,0827654321,Acme,Manager,1 Main St,teacher,'
+    );
+
+    // Act
+    const plan = parseUserImportCSV(text, { existingEmails: [], courses });
+
+    // Assert
+    expect(plan.users).toEqual([]);
+    expect(plan.errors).toEqual([
+      { row: 2, column: 'Email', message: 'Invalid email format' },
+      { row: 3, column: 'Name', message: 'Name must be at least 1 characters' },
+      { row: 3, column: 'Role', message: '"teacher" is not a valid role' },
+    ]);
+  });
+
+  it('rejects duplicate and existing emails', () => {
+    // Arrange
+    const text = csv(
+      'jane@example.com,Jane,Doe,0821234567,Acme,Analyst,1 Main St,,',
+      'JANE@example.com,Janet,Doe,0821234567,Acme,Analyst,1 Main St,,',
+      'taken@example.com,Tom,Taken,0821234567,Acme,Analyst,1 Main St,,'
+    );
+
+    // Act
+    const plan = parseUserImportCSV(text, {
+      existingEmails: ['Taken@example.com'],
+      courses,
+    });
+
+    // Assert
+    expect(plan.users.map((user) => user.row)).toEqual([2]);
+    expect(plan.errors).toEqual([
+      { row: 3, column: 'Email', message: 'jane@example.com is also in row 2' },
+      {
+        row: 4,
+        column: 'Email',
+        message: 'A user with the email taken@example.com already exists',
+      },
+    ]);
+  });
+
+  it('rejects unknown courses and enrolling non-students', () => {
+    // Arrange
+    const text = csv(
+      'jane@example.com,Jane,Doe,0821234567,Acme,Analyst,1 Main St,,CS999',
+      'john@example.com,John,Roe,0827654321,Acme,Manager,1 Main St,ADMIN,CS101'
+    );
+
+    // Act
+    const plan = parseUserImportCSV(text, { existingEmails: [], courses });
+
+    // Assert
+    expect(plan.users).toEqual([]);
+    expect(plan.errors).toEqual([
+      { row: 2, column: 'Courses', message: 'No course has the code CS999' },
+      { row: 3, column: 'Courses', message: 'Only students can be enrolled in courses' },
+    ]);
+  });
+
+  it('enrolls every student in the given courses', () => {
+    // Arrange
+    const text = csv(
+      'jane@example.com,Jane,Doe,0821234567,Acme,Analyst,1 Main St,,CS102',
+      'john@example.com,John,Roe,0827654321,Acme,Manager,1 Main St,INSTRUCTOR,'
+    );
+
+    // Act
+    const plan = parseUserImportCSV(text, {
+      existingEmails: [],
+      courses,
+      courseCodes: ['cs101', 'CS102'],
+    });
+
+    // Assert
+    expect(plan.users[0].courses).toEqual(courses);
+    expect(plan.users[1].courses).toEqual([]);
+  });
+
+  it('rejects unknown shared courses before reading rows', () => {
+    // Act
+    const plan = parseUserImportCSV(
+      csv('jane@example.com,Jane,Doe,0821234567,Acme,Analyst,1 Main St,,'),
+      { existingEmails: [], courses, courseCodes: ['NOPE'] }
+    );
+
+    // Assert
+    expect(plan.rowCount).toBe(0);
+    expect(plan.errors).toEqual([{ row: 1, message: 'No course has the code NOPE' }]);
+  });
+});
+
+describe('parseUserImportCSV row limit', () => {
+  it('rejects files with more rows than one import allows', () => {
+    // Arrange
+    const rows = Array.from(
+      { length: MAX_USER_IMPORT_ROWS + 1 },
+      (_, i) => `user${i}@example.com,User,Doe,0821234567,Acme,Analyst,1 Main St,,`
+    );
+
+    // Act
+    const plan = parseUserImportCSV(csv(...rows), { existingEmails: [], courses });
+
+    // Assert
+    expect(plan.users).toEqual([]);
+    expect(plan.errors).toEqual([
+      {
+        row: 1,
+        message: `The CSV has ${MAX_USER_IMPORT_ROWS + 1} rows; at most ${MAX_USER_IMPORT_ROWS} users can be imported at once`,
+      },
+    ]);
+  });
+});
+
+describe('createImportedUsers', () => {
+  it('hashes a few passwords at a time and creates every user', async () => {
+    // Arrange
+    const createMany = jest.fn((args: { data: unknown[] }) => args);
+    Object.assign(prisma, {
+      users: { createMany },
+      enrollments: { createMany: jest.fn((args: { data: unknown[] }) => args) },
+      $transaction: jest.fn().mockResolvedValue([]),
+    });
+    const users: UserImportRow[] = Array.from({ length: 10 }, (_, i) => ({
+      row: i + 2,
+      email: `user${i}@example.com`,
+      name: 'User',
+      surname: 'Doe',
+      cellNumber: '0821234567',
+      company: 'Acme',
+      position: 'Analyst',
+      workAddress: '1 Main St',
+      role: 'STUDENT',
+      courses: [],
+    }));
+
+    // Act
+    const result = await createImportedUsers({ users, errors: [], rowCount: users.length });
+
+    // Assert
+    expect(mostHashing).toBeGreaterThan(1);
+    expect(mostHashing).toBeLessThanOrEqual(4);
+    expect(result.users.map((user) => user.email)).toEqual(users.map((user) => user.email));
+    expect(createMany.mock.calls[0][0].data).toHaveLength(10);
+  });
+});
+
+describe('generateTemporaryPassword', () => {
+  it('meets the password rules', () => {
+    // Act
+    const passwords = Array.from({ length: 50 }, () => generateTemporaryPassword());
+
+    // Assert
+    for (const password of passwords) {
+      expect(password).toHaveLength(12);
+      expect(password).toMatch(/[A-Z]/);
+      expect(password).toMatch(/[a-z]/);
+      expect(password).toMatch(/[0-9]/);
+      expect(password).not.toMatch(/[0O1lI]/);
+    }
+    expect(new Set(passwords).size).toBe(50);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * XML Unit Tests
+ *
+ * Tests for reading XML documents into an element tree and escaping text.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import { childElements, childText, decodeXml, escapeXml, parseXml, XmlError } from '@/lib/xml';
+
+describe('parseXml', () => {
+  it('builds nested elements with prefixes removed', () => {
+    // Arrange
+    const xml = `<?xml version="1.0"?>
+      <!-- organization -->
+      <cc:organization identifier="org" xmlns:cc="urn:cc">
+        <cc:item identifier="a"><cc:title>Week 1</cc:title>
+          <cc:item identifier="b" identifierref="r1"><cc:title>Slides</cc:title></cc:item>
+        </cc:item>
+        <cc:item identifier="c"/>
+      </cc:organization>`;
+
+    // Act
+    const root = parseXml(xml);
+
+    // Assert
+    expect(root.name).toBe('organization');
+    const items = childElements(root, 'item');
+    expect(items.map((item) => item.attributes.identifier)).toEqual(['a', 'c']);
+    expect(childText(items[0], 'title')).toBe('Week 1');
+    expect(childElements(items[0], 'item')[0].attributes.identifierref).toBe('r1');
+  });
+
+  it('decodes entities and CDATA in text', () => {
+    // Act
+    const root = parseXml('<text>&lt;p&gt;Fish &amp; chips&#33;<![CDATA[ <b>raw</b>]]></text>');
+
+    // Assert
+    expect(root.text).toBe('<p>Fish & chips! <b>raw</b>');
+  });
+
+  it('rejects unbalanced tags', () => {
+    // Act & Assert
+    expect(() => parseXml('<a><b></a>')).toThrow(XmlError);
+    expect(() => parseXml('<a>')).toThrow(XmlError);
+  });
+});
+
+describe('escapeXml and decodeXml', () => {
+  it('round-trips special characters', () => {
+    // Arrange
+    const text = `Tom & "Jerry" <'cartoon'>`;
+
+    // Act & Assert
+    expect(escapeXml(text)).toBe('Tom &amp; &quot;Jerry&quot; &lt;&apos;cartoon&apos;&gt;');
+    expect(decodeXml(escapeXml(text))).toBe(text);
+    expect(decodeXml('&#x263A;')).toBe('☺');
+  });
+});
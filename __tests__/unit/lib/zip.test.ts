@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Zip Unit Tests
+ *
+ * Tests for writing and reading zip archives and rejecting unsafe entries.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+import { createZip, normalizeZipPath, readZipEntries, ZipError } from '@/lib/zip';
+
+describe('Zip Module', () => {
+  describe('normalizeZipPath', () => {
+    it('should normalize separators and current directory segments', () => {
+      // Act & Assert
+      expect(normalizeZipPath('./lesson\\index.html')).toBe('lesson/index.html');
+      expect(normalizeZipPath('/a//b/')).toBe('a/b');
+    });
+
+    it('should reject paths that escape the archive root', () => {
+      // Act & Assert
+      expect(normalizeZipPath('../secret.txt')).toBeNull();
+      expect(normalizeZipPath('a/../../b')).toBeNull();
+      expect(normalizeZipPath('./')).toBeNull();
+    });
+  });
+
+  describe('createZip and readZipEntries', () => {
+    it('should read back the entries it writes', () => {
+      // Arrange
+      const entries = [
+        { path: 'imsmanifest.xml', data: Buffer.from('<manifest/>') },
+        { path: 'lesson/index.html', data: Buffer.from('<html>'.repeat(500)) },
+        { path: 'média/ünïcode.txt', data: Buffer.alloc(0) },
+      ];
+
+      // Act
+      const result = readZipEntries(createZip(entries));
+
+      // Assert
+      expect(result).toEqual(entries);
+    });
+
+    it('should reject data that is not an archive', () => {
+      // Act & Assert
+      expect(() => readZipEntries(Buffer.from('not a zip file'))).toThrow(ZipError);
+    });
+
+    it('should enforce entry and size limits', () => {
+      // Arrange
+      const archive = createZip([
+        { path: 'a.txt', data: Buffer.alloc(100) },
+        { path: 'b.txt', data: Buffer.alloc(100) },
+      ]);
+
+      // Act & Assert
+      expect(() => readZipEntries(archive, { maxEntries: 1 })).toThrow(ZipError);
+      expect(() => readZipEntries(archive, { maxTotalSize: 150 })).toThrow(ZipError);
+    });
+  });
+});
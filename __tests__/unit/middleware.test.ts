@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Rate Limiting Middleware Unit Tests
+ *
+ * Tests that SCORM package files are limited separately from the rest of
+ * the API, so launching a package does not run into the per-IP limit.
+ * Follows AAA (Arrange, Act, Assert) pattern.
+ */
+
+jest.mock('@upstash/redis', () => ({ Redis: jest.fn() }));
+jest.mock('@upstash/ratelimit', () => {
+  // Counts requests per limiter and identifier; the window never slides
+  class Ratelimit {
+    static slidingWindow = (max: number) => max;
+    private counts = new Map<string, number>();
+    private max: number;
+
+    constructor(options: { limiter: number }) {
+      this.max = options.limiter;
+    }
+
+    async limit(identifier: string) {
+      const count = (this.counts.get(identifier) ?? 0) + 1;
+      this.counts.set(identifier, count);
+      return {
+        success: count <= this.max,
+        limit: this.max,
+        remaining: Math.max(0, this.max - count),
+        reset: Date.now() + 60_000,
+      };
+    }
+  }
+  return { Ratelimit };
+});
+
+import { NextRequest } from 'next/server';
+import { middleware } from '@/middleware';
+
+function request(path: string, ip = '203.0.113.7') {
+  return new NextRequest(`https://lms.example.com${path}`, { headers: { 'x-forwarded-for': ip } });
+}
+
+describe('middleware', () => {
+  let warnSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    process.env.UPSTASH_REDIS_REST_URL = 'https://redis.example.com';
+    process.env.UPSTASH_REDIS_REST_TOKEN = 'token';
+  });
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  it('loads every file of a large SCORM package from one IP', async () => {
+    // Arrange: a launch page, the bridge and 250 scripts, styles and images
+    const paths = [
+      '/api/scorm/pkg-1/token/index.html',
+      '/api/scorm/bridge',
+      ...Array.from({ length: 250 }, (_, i) => `/api/scorm/pkg-1/token/assets/file-${i}.js`),
+    ];
+
+    // Act
+    const responses = [];
+    for (const path of paths) {
+      responses.push(await middleware(request(path, '198.51.100.1')));
+    }
+
+    // Assert
+    expect(responses.filter((response) => response.status === 429)).toHaveLength(0);
+    expect(responses[0].headers.get('X-RateLimit-Limit')).toBe('3000');
+  });
+
+  it('keeps the per-IP limit for the rest of the API', async () => {
+    // Act
+    const responses = [];
+    for (let i = 0; i < 101; i++) {
+      responses.push(await middleware(request('/api/notifications', '198.51.100.2')));
+    }
+
+    // Assert
+    expect(responses[99].status).not.toBe(429);
+    expect(responses[100].status).toBe(429);
+  });
+});
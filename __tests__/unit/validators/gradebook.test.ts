@@ -79,6 +79,24 @@ describe('gradeUpdateSchema', () => {
       // Assert
       expect(result.success).toBe(true);
     });
+
+    it('accepts and trims a reason for the change', () => {
+      // Arrange
+      const input = {
+        submissionId: 'cjld2cjxh0000qzrmn831i7rn',
+        grade: 85,
+        reason: '  Regrade request accepted  ',
+      };
+
+      // Act
+      const result = gradeUpdateSchema.safeParse(input);
+
+      // Assert
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.reason).toBe('Regrade request accepted');
+      }
+    });
   });
 
   describe('invalid inputs', () => {
@@ -410,6 +428,21 @@ describe('parseGradebookFilters', () => {
     }
   });
 
+  it('parses the section parameter', () => {
+    // Arrange
+    const params = new URLSearchParams();
+    params.set('sectionId', '7d9f3b2e-1c4a-4e8b-9f0d-2a6c5e8b1d3f');
+
+    // Act
+    const result = parseGradebookFilters(params);
+
+    // Assert
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.sectionId).toBe('7d9f3b2e-1c4a-4e8b-9f0d-2a6c5e8b1d3f');
+    }
+  });
+
   it('handles empty query parameters', () => {
     // Arrange
     const params = new URLSearchParams();
@@ -532,6 +565,20 @@ describe('hasActiveFilters', () => {
     // Assert
     expect(result).toBe(true);
   });
+
+  it('returns true when sectionId is set', () => {
+    // Arrange
+    const filters = {
+      sectionId: 'section-1',
+      status: 'all' as const,
+    };
+
+    // Act
+    const result = hasActiveFilters(filters);
+
+    // Assert
+    expect(result).toBe(true);
+  });
 });
 
 describe('Grade Validation Helper (conceptual)', () => {
@@ -1,5 +1,37 @@
 import { withSentryConfig } from '@sentry/nextjs'
 
+// Content Security Policy directives, shared with the SCORM package rule below
+const contentSecurityPolicy = [
+  // Default fallback - restrict to same origin
+  "default-src 'self'",
+  // Scripts - allow self, TinyMCE CDN, Sentry, and inline (required for Next.js)
+  "script-src 'self' 'unsafe-eval' 'unsafe-inline' https://cdn.tiny.cloud https://*.sentry.io https://*.sentry-cdn.com",
+  // Styles - allow self, inline (required for styled-jsx and Tailwind), and TinyMCE CDN
+  "style-src 'self' 'unsafe-inline' https://cdn.tiny.cloud",
+  // Images - allow self, data URIs, HTTPS, and blob URLs
+  "img-src 'self' data: https: blob:",
+  // Fonts - allow self, data URIs, and TinyMCE CDN
+  "font-src 'self' data: https://cdn.tiny.cloud",
+  // Connections - allow self, database, storage, rate limiting services, Sentry, and TinyMCE
+  "connect-src 'self' https://*.neon.tech https://*.r2.cloudflarestorage.com https://*.upstash.io wss://*.neon.tech https://*.sentry.io https://*.ingest.sentry.io https://cdn.tiny.cloud",
+  // Frames - allow self and YouTube for video embeds
+  "frame-src 'self' https://www.youtube.com https://www.youtube-nocookie.com",
+  // Media - allow self and R2 CDN for video/audio content
+  "media-src 'self' https://*.r2.dev https://*.r2.cloudflarestorage.com blob:",
+  // Object/embed - disable plugins
+  "object-src 'none'",
+  // Base URI - restrict to self
+  "base-uri 'self'",
+  // Form actions - restrict to self
+  "form-action 'self'",
+  // Frame ancestors - prevent clickjacking
+  "frame-ancestors 'self'",
+  // Upgrade HTTP requests to HTTPS
+  "upgrade-insecure-requests",
+  // Workers - allow self and blob for Sentry
+  "worker-src 'self' blob:",
+].join('; ')
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -44,36 +76,7 @@ const nextConfig = {
           // Protects against XSS, clickjacking, and other code injection attacks
           {
             key: 'Content-Security-Policy',
-            value: [
-              // Default fallback - restrict to same origin
-              "default-src 'self'",
-              // Scripts - allow self, TinyMCE CDN, Sentry, and inline (required for Next.js)
-              "script-src 'self' 'unsafe-eval' 'unsafe-inline' https://cdn.tiny.cloud https://*.sentry.io https://*.sentry-cdn.com",
-              // Styles - allow self, inline (required for styled-jsx and Tailwind), and TinyMCE CDN
-              "style-src 'self' 'unsafe-inline' https://cdn.tiny.cloud",
-              // Images - allow self, data URIs, HTTPS, and blob URLs
-              "img-src 'self' data: https: blob:",
-              // Fonts - allow self, data URIs, and TinyMCE CDN
-              "font-src 'self' data: https://cdn.tiny.cloud",
-              // Connections - allow self, database, storage, rate limiting services, Sentry, and TinyMCE
-              "connect-src 'self' https://*.neon.tech https://*.r2.cloudflarestorage.com https://*.upstash.io wss://*.neon.tech https://*.sentry.io https://*.ingest.sentry.io https://cdn.tiny.cloud",
-              // Frames - allow self and YouTube for video embeds
-              "frame-src 'self' https://www.youtube.com https://www.youtube-nocookie.com",
-              // Media - allow self and R2 CDN for video/audio content
-              "media-src 'self' https://*.r2.dev https://*.r2.cloudflarestorage.com blob:",
-              // Object/embed - disable plugins
-              "object-src 'none'",
-              // Base URI - restrict to self
-              "base-uri 'self'",
-              // Form actions - restrict to self
-              "form-action 'self'",
-              // Frame ancestors - prevent clickjacking
-              "frame-ancestors 'self'",
-              // Upgrade HTTP requests to HTTPS
-              "upgrade-insecure-requests",
-              // Workers - allow self and blob for Sentry
-              "worker-src 'self' blob:",
-            ].join('; '),
+            value: contentSecurityPolicy,
           },
           // Prevent clickjacking by restricting framing
           {
@@ -109,6 +112,19 @@ const nextConfig = {
           },
         ],
       },
+      {
+        // SCORM package files are instructor-authored HTML and JavaScript:
+        // sandbox them so they run with an opaque origin, away from the
+        // LMS's cookies and pages. Set here because Next.js does not let a
+        // route replace a header these rules already set.
+        source: '/api/scorm/:packageId/:token/:path+',
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: `${contentSecurityPolicy}; sandbox allow-scripts allow-forms`,
+          },
+        ],
+      },
     ]
   },
 }
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "categoryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "grade_categories" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "courseId" TEXT NOT NULL,
+
+    CONSTRAINT "grade_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "grade_categories_courseId_idx" ON "grade_categories"("courseId");
+
+-- CreateIndex
+CREATE INDEX "assignments_categoryId_idx" ON "assignments"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "assignments" ADD CONSTRAINT "assignments_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "grade_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "grade_categories" ADD CONSTRAINT "grade_categories_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
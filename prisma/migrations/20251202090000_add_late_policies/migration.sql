@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "LatePolicyType" AS ENUM ('REJECT', 'ACCEPT_FLAGGED', 'DEDUCT');
+
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "lateCutoffAt" TIMESTAMP(3),
+ADD COLUMN     "lateGraceMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "latePenaltyPerDay" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "latePolicy" "LatePolicyType" NOT NULL DEFAULT 'REJECT';
+
+-- AlterTable
+ALTER TABLE "grades" ADD COLUMN     "latePenaltyPercent" DOUBLE PRECISION,
+ADD COLUMN     "rawPoints" DOUBLE PRECISION;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "assignment_extensions" (
+    "id" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "grantedById" TEXT NOT NULL,
+
+    CONSTRAINT "assignment_extensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "course_accommodations" (
+    "id" TEXT NOT NULL,
+    "extraTimePercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "extraHours" INTEGER NOT NULL DEFAULT 0,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "grantedById" TEXT NOT NULL,
+
+    CONSTRAINT "course_accommodations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assignment_extensions_studentId_idx" ON "assignment_extensions"("studentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assignment_extensions_assignmentId_studentId_key" ON "assignment_extensions"("assignmentId", "studentId");
+
+-- CreateIndex
+CREATE INDEX "course_accommodations_studentId_idx" ON "course_accommodations"("studentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "course_accommodations_courseId_studentId_key" ON "course_accommodations"("courseId", "studentId");
+
+-- AddForeignKey
+ALTER TABLE "assignment_extensions" ADD CONSTRAINT "assignment_extensions_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_extensions" ADD CONSTRAINT "assignment_extensions_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_extensions" ADD CONSTRAINT "assignment_extensions_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "course_accommodations" ADD CONSTRAINT "course_accommodations_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "course_accommodations" ADD CONSTRAINT "course_accommodations_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "course_accommodations" ADD CONSTRAINT "course_accommodations_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
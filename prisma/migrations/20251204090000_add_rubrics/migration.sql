@@ -0,0 +1,92 @@
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "rubricId" TEXT;
+
+-- CreateTable
+CREATE TABLE "rubrics" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "instructorId" TEXT NOT NULL,
+
+    CONSTRAINT "rubrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_criteria" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "rubricId" TEXT NOT NULL,
+
+    CONSTRAINT "rubric_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_levels" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "points" DOUBLE PRECISION NOT NULL,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "criterionId" TEXT NOT NULL,
+
+    CONSTRAINT "rubric_levels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_scores" (
+    "id" TEXT NOT NULL,
+    "points" DOUBLE PRECISION NOT NULL,
+    "comment" TEXT,
+    "gradeId" TEXT NOT NULL,
+    "criterionId" TEXT NOT NULL,
+    "levelId" TEXT,
+
+    CONSTRAINT "rubric_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "assignments_rubricId_idx" ON "assignments"("rubricId");
+
+-- CreateIndex
+CREATE INDEX "rubrics_deletedAt_idx" ON "rubrics"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "rubrics_instructorId_idx" ON "rubrics"("instructorId");
+
+-- CreateIndex
+CREATE INDEX "rubric_criteria_rubricId_idx" ON "rubric_criteria"("rubricId");
+
+-- CreateIndex
+CREATE INDEX "rubric_levels_criterionId_idx" ON "rubric_levels"("criterionId");
+
+-- CreateIndex
+CREATE INDEX "rubric_scores_criterionId_idx" ON "rubric_scores"("criterionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rubric_scores_gradeId_criterionId_key" ON "rubric_scores"("gradeId", "criterionId");
+
+-- AddForeignKey
+ALTER TABLE "assignments" ADD CONSTRAINT "assignments_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "rubrics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubrics" ADD CONSTRAINT "rubrics_instructorId_fkey" FOREIGN KEY ("instructorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_criteria" ADD CONSTRAINT "rubric_criteria_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "rubrics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_levels" ADD CONSTRAINT "rubric_levels_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "rubric_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_gradeId_fkey" FOREIGN KEY ("gradeId") REFERENCES "grades"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "rubric_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_levelId_fkey" FOREIGN KEY ("levelId") REFERENCES "rubric_levels"("id") ON DELETE SET NULL ON UPDATE CASCADE;
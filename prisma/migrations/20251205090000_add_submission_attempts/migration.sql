@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "GradedAttemptPolicy" AS ENUM ('LATEST', 'HIGHEST', 'MANUAL');
+
+-- DropIndex
+DROP INDEX "submissions_assignmentId_studentId_key";
+
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "gradedAttemptPolicy" "GradedAttemptPolicy" NOT NULL DEFAULT 'LATEST',
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "grades" ADD COLUMN     "submissionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "submissions" ADD COLUMN     "attemptNumber" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "feedback" TEXT,
+ADD COLUMN     "gradedAt" TIMESTAMP(3),
+ADD COLUMN     "points" DOUBLE PRECISION;
+
+-- Backfill: existing assignments allowed resubmitting (by overwriting), so keep them open
+UPDATE "assignments" SET "maxAttempts" = 0;
+
+-- Backfill: existing submissions are first attempts; copy their grade onto the attempt
+UPDATE "submissions" s
+SET "points" = COALESCE(g."rawPoints", g."points"),
+    "feedback" = g."feedback",
+    "gradedAt" = g."gradedAt"
+FROM "grades" g
+WHERE g."assignmentId" = s."assignmentId"
+  AND g."studentId" = s."studentId"
+  AND g."deletedAt" IS NULL;
+
+UPDATE "grades" g
+SET "submissionId" = s."id"
+FROM "submissions" s
+WHERE g."assignmentId" = s."assignmentId"
+  AND g."studentId" = s."studentId";
+
+-- CreateIndex
+CREATE INDEX "submissions_studentId_idx" ON "submissions"("studentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "submissions_assignmentId_studentId_attemptNumber_key" ON "submissions"("assignmentId", "studentId", "attemptNumber");
+
+-- AddForeignKey
+ALTER TABLE "grades" ADD CONSTRAINT "grades_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,165 @@
+-- AlterEnum
+ALTER TYPE "ContentType" ADD VALUE 'QUIZ';
+
+-- CreateEnum
+CREATE TYPE "QuizQuestionType" AS ENUM ('MULTIPLE_CHOICE', 'MULTI_SELECT', 'TRUE_FALSE', 'NUMERIC', 'SHORT_ANSWER');
+
+-- CreateTable
+CREATE TABLE "question_banks" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "instructorId" TEXT NOT NULL,
+
+    CONSTRAINT "question_banks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_questions" (
+    "id" TEXT NOT NULL,
+    "type" "QuizQuestionType" NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "points" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "numericAnswer" DOUBLE PRECISION,
+    "numericTolerance" DOUBLE PRECISION,
+    "acceptedAnswers" TEXT[],
+    "caseSensitive" BOOLEAN NOT NULL DEFAULT false,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deletedAt" TIMESTAMP(3),
+    "bankId" TEXT NOT NULL,
+
+    CONSTRAINT "quiz_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_question_options" (
+    "id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "isCorrect" BOOLEAN NOT NULL DEFAULT false,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "questionId" TEXT NOT NULL,
+
+    CONSTRAINT "quiz_question_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quizzes" (
+    "id" TEXT NOT NULL,
+    "timeLimitMinutes" INTEGER,
+    "questionCount" INTEGER,
+    "shuffleQuestions" BOOLEAN NOT NULL DEFAULT false,
+    "shuffleOptions" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "bankId" TEXT NOT NULL,
+
+    CONSTRAINT "quizzes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_attempts" (
+    "id" TEXT NOT NULL,
+    "questionIds" TEXT[],
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "submittedAt" TIMESTAMP(3),
+    "earnedPoints" DOUBLE PRECISION,
+    "possiblePoints" DOUBLE PRECISION,
+    "quizId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "submissionId" TEXT,
+
+    CONSTRAINT "quiz_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quiz_answers" (
+    "id" TEXT NOT NULL,
+    "selectedOptionIds" TEXT[],
+    "numericAnswer" DOUBLE PRECISION,
+    "textAnswer" TEXT,
+    "isCorrect" BOOLEAN NOT NULL,
+    "points" DOUBLE PRECISION NOT NULL,
+    "attemptId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+
+    CONSTRAINT "quiz_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "question_banks_deletedAt_idx" ON "question_banks"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "question_banks_instructorId_idx" ON "question_banks"("instructorId");
+
+-- CreateIndex
+CREATE INDEX "quiz_questions_bankId_idx" ON "quiz_questions"("bankId");
+
+-- CreateIndex
+CREATE INDEX "quiz_questions_deletedAt_idx" ON "quiz_questions"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "quiz_question_options_questionId_idx" ON "quiz_question_options"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quizzes_contentId_key" ON "quizzes"("contentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quizzes_assignmentId_key" ON "quizzes"("assignmentId");
+
+-- CreateIndex
+CREATE INDEX "quizzes_bankId_idx" ON "quizzes"("bankId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quiz_attempts_submissionId_key" ON "quiz_attempts"("submissionId");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_quizId_studentId_idx" ON "quiz_attempts"("quizId", "studentId");
+
+-- CreateIndex
+CREATE INDEX "quiz_attempts_studentId_idx" ON "quiz_attempts"("studentId");
+
+-- CreateIndex
+CREATE INDEX "quiz_answers_questionId_idx" ON "quiz_answers"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quiz_answers_attemptId_questionId_key" ON "quiz_answers"("attemptId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "question_banks" ADD CONSTRAINT "question_banks_instructorId_fkey" FOREIGN KEY ("instructorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_questions" ADD CONSTRAINT "quiz_questions_bankId_fkey" FOREIGN KEY ("bankId") REFERENCES "question_banks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_question_options" ADD CONSTRAINT "quiz_question_options_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "quiz_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quizzes" ADD CONSTRAINT "quizzes_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "course_content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quizzes" ADD CONSTRAINT "quizzes_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quizzes" ADD CONSTRAINT "quizzes_bankId_fkey" FOREIGN KEY ("bankId") REFERENCES "question_banks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "quizzes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_attempts" ADD CONSTRAINT "quiz_attempts_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_answers" ADD CONSTRAINT "quiz_answers_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "quiz_attempts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quiz_answers" ADD CONSTRAINT "quiz_answers_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "quiz_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
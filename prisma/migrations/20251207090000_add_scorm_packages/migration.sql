@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "ScormVersion" AS ENUM ('SCORM_12', 'SCORM_2004');
+
+-- CreateEnum
+CREATE TYPE "ScormCompletionStatus" AS ENUM ('NOT_ATTEMPTED', 'INCOMPLETE', 'COMPLETED', 'UNKNOWN');
+
+-- CreateEnum
+CREATE TYPE "ScormSuccessStatus" AS ENUM ('PASSED', 'FAILED', 'UNKNOWN');
+
+-- CreateTable
+CREATE TABLE "scorm_packages" (
+    "id" TEXT NOT NULL,
+    "version" "ScormVersion" NOT NULL,
+    "title" TEXT,
+    "launchPath" TEXT NOT NULL,
+    "storagePrefix" TEXT NOT NULL,
+    "packageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "assignmentId" TEXT,
+
+    CONSTRAINT "scorm_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scorm_tracking" (
+    "id" TEXT NOT NULL,
+    "cmiData" JSONB NOT NULL DEFAULT '{}',
+    "completionStatus" "ScormCompletionStatus" NOT NULL DEFAULT 'NOT_ATTEMPTED',
+    "successStatus" "ScormSuccessStatus" NOT NULL DEFAULT 'UNKNOWN',
+    "scoreScaled" DOUBLE PRECISION,
+    "totalTimeSeconds" INTEGER NOT NULL DEFAULT 0,
+    "suspended" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "packageId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+
+    CONSTRAINT "scorm_tracking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scorm_packages_contentId_key" ON "scorm_packages"("contentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scorm_packages_assignmentId_key" ON "scorm_packages"("assignmentId");
+
+-- CreateIndex
+CREATE INDEX "scorm_tracking_studentId_idx" ON "scorm_tracking"("studentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scorm_tracking_packageId_studentId_key" ON "scorm_tracking"("packageId", "studentId");
+
+-- AddForeignKey
+ALTER TABLE "scorm_packages" ADD CONSTRAINT "scorm_packages_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "course_content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scorm_packages" ADD CONSTRAINT "scorm_packages_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "assignments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scorm_tracking" ADD CONSTRAINT "scorm_tracking_packageId_fkey" FOREIGN KEY ("packageId") REFERENCES "scorm_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scorm_tracking" ADD CONSTRAINT "scorm_tracking_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
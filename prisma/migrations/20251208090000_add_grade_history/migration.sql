@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "GradeChangeSource" AS ENUM ('GRADEBOOK', 'SUBMISSION_GRADING', 'CSV_IMPORT', 'COUNTED_ATTEMPT', 'ATTEMPT_POLICY', 'QUIZ', 'SCORM');
+
+-- CreateTable
+CREATE TABLE "grade_history" (
+    "id" TEXT NOT NULL,
+    "oldPoints" DOUBLE PRECISION,
+    "newPoints" DOUBLE PRECISION NOT NULL,
+    "oldFeedback" TEXT,
+    "newFeedback" TEXT,
+    "source" "GradeChangeSource" NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "assignmentId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "submissionId" TEXT,
+    "changedById" TEXT NOT NULL,
+
+    CONSTRAINT "grade_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "grade_history_assignmentId_studentId_idx" ON "grade_history"("assignmentId", "studentId");
+
+-- CreateIndex
+CREATE INDEX "grade_history_studentId_idx" ON "grade_history"("studentId");
+
+-- CreateIndex
+CREATE INDEX "grade_history_changedById_idx" ON "grade_history"("changedById");
+
+-- CreateIndex
+CREATE INDEX "grade_history_createdAt_idx" ON "grade_history"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "grade_history" ADD CONSTRAINT "grade_history_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "grade_history" ADD CONSTRAINT "grade_history_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "grade_history" ADD CONSTRAINT "grade_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "grade_history" ADD CONSTRAINT "grade_history_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
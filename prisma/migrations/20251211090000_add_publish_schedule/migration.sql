@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "announcements" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "course_content" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "modules" ADD COLUMN     "publishAt" TIMESTAMP(3),
+ADD COLUMN     "unpublishAt" TIMESTAMP(3);
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "modules" ADD COLUMN     "unlockAt" TIMESTAMP(3),
+ADD COLUMN     "prerequisiteModuleId" TEXT,
+ADD COLUMN     "prerequisiteAssignmentId" TEXT,
+ADD COLUMN     "prerequisiteMinScore" DOUBLE PRECISION;
+
+-- AddForeignKey
+ALTER TABLE "modules" ADD CONSTRAINT "modules_prerequisiteModuleId_fkey" FOREIGN KEY ("prerequisiteModuleId") REFERENCES "modules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "modules" ADD CONSTRAINT "modules_prerequisiteAssignmentId_fkey" FOREIGN KEY ("prerequisiteAssignmentId") REFERENCES "assignments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "isRequired" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "course_content" ADD COLUMN     "isRequired" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "modules" ADD COLUMN     "passingScore" DOUBLE PRECISION,
+ADD COLUMN     "requireDiscussionPost" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "contentWeight" INTEGER,
+ADD COLUMN     "assignmentWeight" INTEGER,
+ADD COLUMN     "discussionWeight" INTEGER;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "courses" ADD COLUMN     "certificatesEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "certificateMinScore" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "certificates" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "recipientName" TEXT NOT NULL,
+    "courseTitle" TEXT NOT NULL,
+    "courseCode" TEXT NOT NULL,
+    "instructorName" TEXT NOT NULL,
+    "finalPercentage" DOUBLE PRECISION,
+    "letterGrade" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+
+    CONSTRAINT "certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "certificates_code_key" ON "certificates"("code");
+
+-- CreateIndex
+CREATE INDEX "certificates_courseId_idx" ON "certificates"("courseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "certificates_userId_courseId_key" ON "certificates"("userId", "courseId");
+
+-- AddForeignKey
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
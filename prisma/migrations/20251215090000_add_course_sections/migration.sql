@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "announcements" ADD COLUMN     "sectionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "enrollments" ADD COLUMN     "sectionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "course_sections" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "courseId" TEXT NOT NULL,
+
+    CONSTRAINT "course_sections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "assignment_section_due_dates" (
+    "id" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "sectionId" TEXT NOT NULL,
+
+    CONSTRAINT "assignment_section_due_dates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "announcements_sectionId_idx" ON "announcements"("sectionId");
+
+-- CreateIndex
+CREATE INDEX "enrollments_sectionId_idx" ON "enrollments"("sectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "course_sections_courseId_name_key" ON "course_sections"("courseId", "name");
+
+-- CreateIndex
+CREATE INDEX "assignment_section_due_dates_sectionId_idx" ON "assignment_section_due_dates"("sectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assignment_section_due_dates_assignmentId_sectionId_key" ON "assignment_section_due_dates"("assignmentId", "sectionId");
+
+-- AddForeignKey
+ALTER TABLE "announcements" ADD CONSTRAINT "announcements_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "course_sections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "enrollments" ADD CONSTRAINT "enrollments_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "course_sections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "course_sections" ADD CONSTRAINT "course_sections_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_section_due_dates" ADD CONSTRAINT "assignment_section_due_dates_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assignment_section_due_dates" ADD CONSTRAINT "assignment_section_due_dates_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "course_sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
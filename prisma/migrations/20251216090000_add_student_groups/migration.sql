@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "assignments" ADD COLUMN     "isGroupAssignment" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "submissions" ADD COLUMN     "groupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "student_groups" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "courseId" TEXT NOT NULL,
+
+    CONSTRAINT "student_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "student_group_members" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "groupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+
+    CONSTRAINT "student_group_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "submissions_groupId_idx" ON "submissions"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_groups_courseId_name_key" ON "student_groups"("courseId", "name");
+
+-- CreateIndex
+CREATE INDEX "student_group_members_groupId_idx" ON "student_group_members"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_group_members_courseId_userId_key" ON "student_group_members"("courseId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "submissions" ADD CONSTRAINT "submissions_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "student_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_groups" ADD CONSTRAINT "student_groups_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_group_members" ADD CONSTRAINT "student_group_members_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "student_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_group_members" ADD CONSTRAINT "student_group_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ReactionType" AS ENUM ('UPVOTE', 'THANKS', 'HELPFUL', 'CONFUSED');
+
+-- AlterTable
+ALTER TABLE "discussions" ADD COLUMN     "isQuestionAnswer" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "discussion_posts" ADD COLUMN     "isAcceptedAnswer" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isEndorsed" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "discussion_post_reactions" (
+    "id" TEXT NOT NULL,
+    "type" "ReactionType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "discussion_post_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discussion_post_reactions_postId_idx" ON "discussion_post_reactions"("postId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discussion_post_reactions_postId_userId_type_key" ON "discussion_post_reactions"("postId", "userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_reactions" ADD CONSTRAINT "discussion_post_reactions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "discussion_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_reactions" ADD CONSTRAINT "discussion_post_reactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "GradeChangeSource" ADD VALUE 'DISCUSSION';
+
+-- AlterTable
+ALTER TABLE "discussions" ADD COLUMN     "assignmentId" TEXT,
+ADD COLUMN     "requiredPosts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "requiredReplies" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discussions_assignmentId_key" ON "discussions"("assignmentId");
+
+-- AddForeignKey
+ALTER TABLE "discussions" ADD CONSTRAINT "discussions_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "assignments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "discussion_posts" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT,
+ADD COLUMN     "deletionReason" TEXT,
+ADD COLUMN     "isFlagged" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isHidden" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "discussion_post_edits" (
+    "id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "editedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "postId" TEXT NOT NULL,
+    "editedById" TEXT NOT NULL,
+
+    CONSTRAINT "discussion_post_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discussion_post_reports" (
+    "id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "postId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+
+    CONSTRAINT "discussion_post_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discussion_posts_discussionId_isFlagged_idx" ON "discussion_posts"("discussionId", "isFlagged");
+
+-- CreateIndex
+CREATE INDEX "discussion_post_edits_postId_idx" ON "discussion_post_edits"("postId");
+
+-- CreateIndex
+CREATE INDEX "discussion_post_reports_postId_idx" ON "discussion_post_reports"("postId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discussion_post_reports_postId_reporterId_key" ON "discussion_post_reports"("postId", "reporterId");
+
+-- AddForeignKey
+ALTER TABLE "discussion_posts" ADD CONSTRAINT "discussion_posts_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_edits" ADD CONSTRAINT "discussion_post_edits_postId_fkey" FOREIGN KEY ("postId") REFERENCES "discussion_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_edits" ADD CONSTRAINT "discussion_post_edits_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_reports" ADD CONSTRAINT "discussion_post_reports_postId_fkey" FOREIGN KEY ("postId") REFERENCES "discussion_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_reports" ADD CONSTRAINT "discussion_post_reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
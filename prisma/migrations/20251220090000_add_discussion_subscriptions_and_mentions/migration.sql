@@ -0,0 +1,46 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'DISCUSSION_MENTION';
+
+-- CreateTable
+CREATE TABLE "discussion_post_mentions" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "discussion_post_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "discussion_subscriptions" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "discussionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "discussion_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discussion_post_mentions_userId_createdAt_idx" ON "discussion_post_mentions"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discussion_post_mentions_postId_userId_key" ON "discussion_post_mentions"("postId", "userId");
+
+-- CreateIndex
+CREATE INDEX "discussion_subscriptions_userId_idx" ON "discussion_subscriptions"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discussion_subscriptions_discussionId_userId_key" ON "discussion_subscriptions"("discussionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_mentions" ADD CONSTRAINT "discussion_post_mentions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "discussion_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_post_mentions" ADD CONSTRAINT "discussion_post_mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_subscriptions" ADD CONSTRAINT "discussion_subscriptions_discussionId_fkey" FOREIGN KEY ("discussionId") REFERENCES "discussions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discussion_subscriptions" ADD CONSTRAINT "discussion_subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "discussions" ADD COLUMN     "isAnonymous" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "isPostFirst" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "announcements" ADD COLUMN     "notifiedAt" TIMESTAMP(3);
+
+-- Only announcements still scheduled are left to announce; older ones are not sent late
+UPDATE "announcements" SET "notifiedAt" = "createdAt" WHERE "publishAt" IS NULL OR "publishAt" <= NOW();
+
+-- CreateIndex
+CREATE INDEX "announcements_notifiedAt_idx" ON "announcements"("notifiedAt");
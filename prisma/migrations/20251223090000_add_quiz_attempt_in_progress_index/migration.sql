@@ -0,0 +1,12 @@
+-- Keep only the earliest attempt in progress per student and quiz; answers are
+-- only saved on submit, so the duplicates hold no work
+DELETE FROM "quiz_attempts" a
+USING "quiz_attempts" b
+WHERE a."submittedAt" IS NULL
+  AND b."submittedAt" IS NULL
+  AND a."quizId" = b."quizId"
+  AND a."studentId" = b."studentId"
+  AND (a."startedAt", a."id") > (b."startedAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quiz_attempts_in_progress_key" ON "quiz_attempts"("quizId", "studentId") WHERE "submittedAt" IS NULL;
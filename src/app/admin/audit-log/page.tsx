@@ -0,0 +1,435 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Navbar from '@/components/Navbar'
+import { ScrollText, RefreshCw, Download, ChevronLeft, ChevronRight, X } from 'lucide-react'
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_TYPES,
+  AUDIT_TARGET_TYPE_LABELS,
+  AuditTargetType,
+} from '@/lib/audit-actions'
+
+interface AuditLogEntry {
+  id: string
+  action: string
+  actionLabel: string
+  targetType: string
+  targetId: string | null
+  details: Record<string, unknown> | null
+  createdAt: string
+  actor: { id: string; name: string; email: string; role: string }
+}
+
+interface Filters {
+  actorId: string
+  search: string
+  action: string
+  targetType: string
+  targetId: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: Filters = {
+  actorId: '',
+  search: '',
+  action: '',
+  targetType: '',
+  targetId: '',
+  from: '',
+  to: '',
+}
+
+const PAGE_SIZE = 50
+
+/**
+ * Build the query string for the audit log API from the filters
+ */
+function buildFilterParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.actorId) params.set('actorId', filters.actorId)
+  if (filters.search) params.set('search', filters.search)
+  if (filters.action) params.set('action', filters.action)
+  if (filters.targetType) params.set('targetType', filters.targetType)
+  if (filters.targetId) params.set('targetId', filters.targetId)
+  // Date inputs are whole days; include all of the "to" day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString())
+  return params
+}
+
+export default function AdminAuditLogPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [actorName, setActorName] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = buildFilterParams(appliedFilters)
+      params.set('page', String(page))
+      params.set('limit', String(PAGE_SIZE))
+
+      const response = await fetch(`/api/admin/audit-logs?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error?.message || 'Failed to fetch audit log')
+      }
+      const data = await response.json()
+      setEntries(data.data)
+      setTotal(data.meta.total)
+      setTotalPages(Math.max(1, data.meta.totalPages))
+      setError(null)
+    } catch (err: unknown) {
+      console.error('Error fetching audit log:', err)
+      setError(err instanceof Error ? err.message : 'An unknown error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [page, appliedFilters])
+
+  useEffect(() => {
+    if (session?.user.role === 'ADMIN') {
+      fetchEntries()
+    }
+  }, [session, fetchEntries])
+
+  const applyFilters = (next: Filters) => {
+    setFilters(next)
+    setAppliedFilters({ ...next, search: next.search.trim(), targetId: next.targetId.trim() })
+    setPage(1)
+  }
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    applyFilters(filters)
+  }
+
+  const handleClearFilters = () => {
+    setActorName(null)
+    applyFilters(EMPTY_FILTERS)
+  }
+
+  // Show only the actions of one user
+  const handleFilterByActor = (actor: AuditLogEntry['actor']) => {
+    setActorName(actor.name)
+    applyFilters({ ...filters, actorId: actor.id })
+  }
+
+  const handleClearActor = () => {
+    setActorName(null)
+    applyFilters({ ...filters, actorId: '' })
+  }
+
+  // Show every action on one record
+  const handleFilterByTarget = (entry: AuditLogEntry) => {
+    if (!entry.targetId) return
+    applyFilters({ ...filters, targetType: entry.targetType, targetId: entry.targetId })
+  }
+
+  const exportUrl = `/api/admin/audit-logs/export?${buildFilterParams(appliedFilters)}`
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const formatDetails = (details: Record<string, unknown> | null) => {
+    if (!details) return '-'
+    return Object.entries(details)
+      .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+      .join(', ')
+  }
+
+  // Check session loading state
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-100 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    router.push('/login')
+    return null
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    router.push('/dashboard')
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+              <ScrollText className="text-gray-600" />
+              Audit Log
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Administrative and instructor actions. {total} matching entries.
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <a
+              href={exportUrl}
+              className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 font-semibold py-2 px-4 rounded-lg shadow-md flex items-center transition duration-150"
+            >
+              <Download size={20} className="mr-2" />
+              Export CSV
+            </a>
+            <button
+              onClick={fetchEntries}
+              disabled={loading}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold py-2 px-4 rounded-lg shadow-md flex items-center transition duration-150"
+            >
+              <RefreshCw size={20} className={`mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded-md shadow-md mb-6" role="alert">
+            <p className="font-bold">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {/* Filters */}
+        <form
+          onSubmit={handleApplyFilters}
+          className="bg-white rounded-xl shadow-md p-4 mb-6 grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-7 items-end"
+        >
+          <div>
+            <label htmlFor="search" className="block text-xs font-medium text-gray-500 mb-1">Actor</label>
+            <input
+              id="search"
+              type="text"
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+              placeholder="Name or email"
+              maxLength={200}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="action" className="block text-xs font-medium text-gray-500 mb-1">Action</label>
+            <select
+              id="action"
+              value={filters.action}
+              onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All actions</option>
+              {AUDIT_ACTIONS.map((action) => (
+                <option key={action} value={action}>
+                  {AUDIT_ACTION_LABELS[action]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="targetType" className="block text-xs font-medium text-gray-500 mb-1">Target</label>
+            <select
+              id="targetType"
+              value={filters.targetType}
+              onChange={(e) => setFilters({ ...filters, targetType: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All targets</option>
+              {AUDIT_TARGET_TYPES.map((targetType) => (
+                <option key={targetType} value={targetType}>
+                  {AUDIT_TARGET_TYPE_LABELS[targetType]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="targetId" className="block text-xs font-medium text-gray-500 mb-1">Target ID</label>
+            <input
+              id="targetId"
+              type="text"
+              value={filters.targetId}
+              onChange={(e) => setFilters({ ...filters, targetId: e.target.value })}
+              maxLength={100}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="from" className="block text-xs font-medium text-gray-500 mb-1">From</label>
+            <input
+              id="from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-xs font-medium text-gray-500 mb-1">To</label>
+            <input
+              id="to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Filter
+            </button>
+            <button
+              type="button"
+              onClick={handleClearFilters}
+              className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        {appliedFilters.actorId && (
+          <div className="mb-4">
+            <span className="inline-flex items-center gap-2 px-3 py-1 text-sm rounded-full bg-blue-100 text-blue-700">
+              Actions by {actorName || 'selected user'}
+              <button onClick={handleClearActor} aria-label="Clear actor filter" className="hover:text-blue-900">
+                <X size={14} />
+              </button>
+            </span>
+          </div>
+        )}
+
+        {/* Entries Table */}
+        <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-blue-500"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <ScrollText size={48} className="mx-auto text-gray-400 mb-4" />
+              <p className="text-xl text-gray-600 mb-2">No audit log entries found.</p>
+              <p className="text-gray-500">Administrative and instructor actions will appear here.</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Target
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Details
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(entry.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => handleFilterByActor(entry.actor)}
+                        className="text-sm font-medium text-gray-900 hover:text-blue-600 text-left"
+                        title="Show actions by this user"
+                      >
+                        {entry.actor.name}
+                      </button>
+                      <div className="text-xs text-gray-500">
+                        {entry.actor.email} · {entry.actor.role}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {entry.actionLabel}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {AUDIT_TARGET_TYPE_LABELS[entry.targetType as AuditTargetType] || entry.targetType}
+                      </div>
+                      {entry.targetId && (
+                        <button
+                          onClick={() => handleFilterByTarget(entry)}
+                          className="text-xs text-gray-500 hover:text-blue-600"
+                          title="Show actions on this record"
+                        >
+                          ID: {entry.targetId.slice(0, 8)}...
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-gray-600 max-w-md break-words">
+                      {formatDetails(entry.details)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex justify-between items-center mt-4">
+            <p className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || loading}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft size={16} className="mr-1" />
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages || loading}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+                <ChevronRight size={16} className="ml-1" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
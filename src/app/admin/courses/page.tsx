@@ -5,6 +5,7 @@
  * Features:
  * - Course list with filtering and pagination
  * - Create, edit, and delete courses
+ * - Export courses to and import courses from IMS Common Cartridge packages
  * - View course details and manage content
  */
 
@@ -27,6 +28,8 @@ import {
   ChevronLeft,
   ChevronRight,
   X,
+  Download,
+  Upload,
 } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
 import Breadcrumb from '@/components/Breadcrumb'
@@ -107,6 +110,7 @@ export default function AdminCoursesPage() {
 
   // Modal state
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
   const [editingCourse, setEditingCourse] = useState<Course | null>(null)
   const [deletingCourse, setDeletingCourse] = useState<Course | null>(null)
 
@@ -299,6 +303,14 @@ export default function AdminCoursesPage() {
                 className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`}
               />
             </button>
+            <button
+              type="button"
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-bg-content text-text-primary text-sm font-medium rounded-md border border-border-color hover:bg-bg-main focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 transition-colors"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </button>
             <button
               type="button"
               onClick={() => setShowCreateModal(true)}
@@ -471,6 +483,13 @@ export default function AdminCoursesPage() {
                           >
                             <Edit className="h-4 w-4" />
                           </button>
+                          <a
+                            href={`/api/admin/courses/${course.id}/export`}
+                            className="p-2 text-text-secondary hover:text-green-400 hover:bg-green-500/20 rounded-md transition-colors"
+                            title="Export as Common Cartridge"
+                          >
+                            <Download className="h-4 w-4" />
+                          </a>
                           <button
                             type="button"
                             onClick={() => setDeletingCourse(course)}
@@ -546,6 +565,23 @@ export default function AdminCoursesPage() {
         instructors={instructors}
       />
 
+      {/* Import Modal */}
+      <ImportCourseModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onSuccess={(warnings) => {
+          setShowImportModal(false)
+          fetchCourses()
+          toast.success('Course imported successfully')
+          if (warnings.length > 0) {
+            toast(`${warnings.length} item(s) could not be imported:\n${warnings.join('\n')}`, {
+              duration: 10000,
+            })
+          }
+        }}
+        instructors={instructors}
+      />
+
       {/* Delete Confirmation */}
       {deletingCourse && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
@@ -809,3 +845,215 @@ function CourseModal({ isOpen, course, onClose, onSuccess, instructors }: Course
     </div>
   )
 }
+
+// ============================================
+// Import Modal Component
+// ============================================
+
+interface ImportCourseModalProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Called with the items that were skipped */
+  onSuccess: (warnings: string[]) => void
+  instructors: Instructor[]
+}
+
+function ImportCourseModal({ isOpen, onClose, onSuccess, instructors }: ImportCourseModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [formData, setFormData] = useState({
+    title: '',
+    code: '',
+    semester: 'Fall',
+    year: new Date().getFullYear(),
+    instructorId: '',
+  })
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null)
+      setFormData({
+        title: '',
+        code: '',
+        semester: 'Fall',
+        year: new Date().getFullYear(),
+        instructorId: instructors[0]?.id || '',
+      })
+    }
+  }, [instructors, isOpen])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+    setIsSubmitting(true)
+
+    try {
+      const body = new FormData()
+      body.append('file', file)
+      body.append('code', formData.code)
+      body.append('semester', formData.semester)
+      body.append('year', formData.year.toString())
+      body.append('instructorId', formData.instructorId)
+      if (formData.title.trim()) {
+        body.append('title', formData.title.trim())
+      }
+
+      const response = await fetch('/api/admin/courses/import', {
+        method: 'POST',
+        body,
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to import course')
+      }
+
+      onSuccess(data.data.summary.warnings)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to import course')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-card-bg rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto border border-border-color">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-text-primary">Import Course</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-text-secondary hover:text-text-primary hover:bg-bg-content rounded-md"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-text-secondary mb-4">
+          Create a course from an IMS Common Cartridge (.imscc) package. Modules, pages, files,
+          assignments and discussions are imported; quizzes and other unsupported items are
+          skipped.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">
+              Cartridge file *
+            </label>
+            <input
+              type="file"
+              required
+              accept=".imscc,.zip"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="w-full text-sm text-text-primary file:mr-3 file:px-3 file:py-2 file:rounded-md file:border-0 file:bg-purple-600 file:text-white hover:file:bg-purple-700"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">
+              Title
+            </label>
+            <input
+              type="text"
+              value={formData.title}
+              onChange={(e) => setFormData((p) => ({ ...p, title: e.target.value }))}
+              className="w-full px-3 py-2 bg-bg-content border border-border-color rounded-md text-text-primary placeholder-text-secondary focus:ring-purple-500 focus:border-purple-500"
+              placeholder="Defaults to the title in the cartridge"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">
+              Course Code *
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.code}
+              onChange={(e) => setFormData((p) => ({ ...p, code: e.target.value.toUpperCase() }))}
+              className="w-full px-3 py-2 bg-bg-content border border-border-color rounded-md text-text-primary placeholder-text-secondary focus:ring-purple-500 focus:border-purple-500"
+              placeholder="CS-101"
+              pattern="[A-Z]{2,6}-?\d{2,4}"
+              title="Format: XX-123 or XXXX1234"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-1">
+              Instructor *
+            </label>
+            <select
+              required
+              value={formData.instructorId}
+              onChange={(e) => setFormData((p) => ({ ...p, instructorId: e.target.value }))}
+              className="w-full px-3 py-2 bg-bg-content border border-border-color rounded-md text-text-primary focus:ring-purple-500 focus:border-purple-500"
+            >
+              <option value="">Select an instructor</option>
+              {instructors.map((instructor) => (
+                <option key={instructor.id} value={instructor.id}>
+                  {instructor.name} {instructor.surname} ({instructor.email})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-1">
+                Semester *
+              </label>
+              <select
+                required
+                value={formData.semester}
+                onChange={(e) => setFormData((p) => ({ ...p, semester: e.target.value }))}
+                className="w-full px-3 py-2 bg-bg-content border border-border-color rounded-md text-text-primary focus:ring-purple-500 focus:border-purple-500"
+              >
+                <option value="Spring">Spring</option>
+                <option value="Summer">Summer</option>
+                <option value="Fall">Fall</option>
+                <option value="Winter">Winter</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-1">
+                Year *
+              </label>
+              <input
+                type="number"
+                required
+                min={2020}
+                max={2100}
+                value={formData.year}
+                onChange={(e) => setFormData((p) => ({ ...p, year: parseInt(e.target.value) }))}
+                className="w-full px-3 py-2 bg-bg-content border border-border-color rounded-md text-text-primary focus:ring-purple-500 focus:border-purple-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-text-primary bg-bg-content border border-border-color rounded-md hover:bg-bg-main disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !file}
+              className="px-4 py-2 text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Importing...' : 'Import Course'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
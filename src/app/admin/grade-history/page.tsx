@@ -0,0 +1,390 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Navbar from '@/components/Navbar'
+import { History, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react'
+
+type GradeChangeSource =
+  | 'GRADEBOOK'
+  | 'SUBMISSION_GRADING'
+  | 'CSV_IMPORT'
+  | 'COUNTED_ATTEMPT'
+  | 'ATTEMPT_POLICY'
+  | 'QUIZ'
+  | 'SCORM'
+  | 'DISCUSSION'
+
+interface GradeChange {
+  id: string
+  oldPoints: number | null
+  newPoints: number
+  oldFeedback: string | null
+  newFeedback: string | null
+  source: GradeChangeSource
+  sourceLabel: string
+  reason: string | null
+  createdAt: string
+  changedBy: { id: string; name: string; role: string }
+  assignment: { id: string; title: string; maxPoints: number }
+  course: { id: string; code: string; title: string }
+  student: { id: string; name: string; email: string }
+}
+
+interface CourseOption {
+  id: string
+  code: string
+  title: string
+}
+
+interface Filters {
+  courseId: string
+  search: string
+  source: string
+  from: string
+  to: string
+}
+
+const SOURCE_OPTIONS: { value: GradeChangeSource; label: string }[] = [
+  { value: 'GRADEBOOK', label: 'Gradebook edit' },
+  { value: 'SUBMISSION_GRADING', label: 'Submission grading' },
+  { value: 'CSV_IMPORT', label: 'CSV import' },
+  { value: 'COUNTED_ATTEMPT', label: 'Counted attempt changed' },
+  { value: 'ATTEMPT_POLICY', label: 'Attempt policy changed' },
+  { value: 'QUIZ', label: 'Quiz auto-grading' },
+  { value: 'SCORM', label: 'SCORM package score' },
+  { value: 'DISCUSSION', label: 'Discussion grading' },
+]
+
+const EMPTY_FILTERS: Filters = { courseId: '', search: '', source: '', from: '', to: '' }
+
+const PAGE_SIZE = 50
+
+export default function AdminGradeHistoryPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [entries, setEntries] = useState<GradeChange[]>([])
+  const [courses, setCourses] = useState<CourseOption[]>([])
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (appliedFilters.courseId) params.set('courseId', appliedFilters.courseId)
+      if (appliedFilters.search) params.set('search', appliedFilters.search)
+      if (appliedFilters.source) params.set('source', appliedFilters.source)
+      // Date inputs are whole days; include all of the "to" day
+      if (appliedFilters.from) params.set('from', new Date(`${appliedFilters.from}T00:00:00`).toISOString())
+      if (appliedFilters.to) params.set('to', new Date(`${appliedFilters.to}T23:59:59.999`).toISOString())
+
+      const response = await fetch(`/api/admin/grade-history?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error?.message || 'Failed to fetch grade history')
+      }
+      const data = await response.json()
+      setEntries(data.data)
+      setTotal(data.meta.total)
+      setTotalPages(Math.max(1, data.meta.totalPages))
+      setError(null)
+    } catch (err: unknown) {
+      console.error('Error fetching grade history:', err)
+      setError(err instanceof Error ? err.message : 'An unknown error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [page, appliedFilters])
+
+  const fetchCourses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/courses?limit=100')
+      if (!response.ok) return
+      const data = await response.json()
+      setCourses(data.data)
+    } catch (err: unknown) {
+      console.error('Error fetching courses:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session?.user.role === 'ADMIN') {
+      fetchEntries()
+    }
+  }, [session, fetchEntries])
+
+  useEffect(() => {
+    if (session?.user.role === 'ADMIN') {
+      fetchCourses()
+    }
+  }, [session, fetchCourses])
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    setPage(1)
+    setAppliedFilters({ ...filters, search: filters.search.trim() })
+  }
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS)
+    setAppliedFilters(EMPTY_FILTERS)
+    setPage(1)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  // Check session loading state
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-100 flex justify-center items-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    router.push('/login')
+    return null
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    router.push('/dashboard')
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+              <History className="text-gray-600" />
+              Grade History
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Audit trail of grade changes across all courses. {total} matching changes.
+            </p>
+          </div>
+          <button
+            onClick={fetchEntries}
+            disabled={loading}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold py-2 px-4 rounded-lg shadow-md flex items-center transition duration-150"
+          >
+            <RefreshCw size={20} className={`mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded-md shadow-md mb-6" role="alert">
+            <p className="font-bold">Error</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        {/* Filters */}
+        <form
+          onSubmit={handleApplyFilters}
+          className="bg-white rounded-xl shadow-md p-4 mb-6 grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6 items-end"
+        >
+          <div>
+            <label htmlFor="courseId" className="block text-xs font-medium text-gray-500 mb-1">Course</label>
+            <select
+              id="courseId"
+              value={filters.courseId}
+              onChange={(e) => setFilters({ ...filters, courseId: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All courses</option>
+              {courses.map((course) => (
+                <option key={course.id} value={course.id}>
+                  {course.code} - {course.title}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="search" className="block text-xs font-medium text-gray-500 mb-1">Student</label>
+            <input
+              id="search"
+              type="text"
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+              placeholder="Name or email"
+              maxLength={200}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="source" className="block text-xs font-medium text-gray-500 mb-1">Source</label>
+            <select
+              id="source"
+              value={filters.source}
+              onChange={(e) => setFilters({ ...filters, source: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All sources</option>
+              {SOURCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="from" className="block text-xs font-medium text-gray-500 mb-1">From</label>
+            <input
+              id="from"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-xs font-medium text-gray-500 mb-1">To</label>
+            <input
+              id="to"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Filter
+            </button>
+            <button
+              type="button"
+              onClick={handleClearFilters}
+              className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        {/* Changes Table */}
+        <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-blue-500"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <History size={48} className="mx-auto text-gray-400 mb-4" />
+              <p className="text-xl text-gray-600 mb-2">No grade changes found.</p>
+              <p className="text-gray-500">Grade changes are recorded whenever a grade is entered or edited.</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Student
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Assignment
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Change
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Changed By
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(entry.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{entry.student.name}</div>
+                      <div className="text-sm text-gray-500">{entry.student.email}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">{entry.assignment.title}</div>
+                      <div className="text-sm text-gray-500">{entry.course.code}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {entry.oldPoints ?? '—'} → <strong>{entry.newPoints}</strong>
+                        <span className="text-gray-500">/{entry.assignment.maxPoints}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {entry.sourceLabel}
+                        {entry.oldFeedback !== entry.newFeedback && ' · feedback changed'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{entry.changedBy.name}</div>
+                      <div className="text-xs text-gray-500">{entry.changedBy.role}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 max-w-xs">
+                      {entry.reason || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex justify-between items-center mt-4">
+            <p className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || loading}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft size={16} className="mr-1" />
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages || loading}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+                <ChevronRight size={16} className="ml-1" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -15,7 +15,7 @@
 import { useState, useCallback, useEffect, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
-import { Plus, RefreshCw, Users } from 'lucide-react'
+import { Plus, RefreshCw, Upload, Users } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
 import Breadcrumb from '@/components/Breadcrumb'
 import {
@@ -26,6 +26,7 @@ import {
   User,
   SortConfig,
   UserCreateModal,
+  UserImportModal,
   UserEditModal,
   ResetPasswordModal,
   DeactivateConfirmation,
@@ -73,6 +74,7 @@ export default function AdminUsersPage() {
 
   // Modal state
   const [showCreateModal, setShowCreateModal] = useState(false)
+  const [showImportModal, setShowImportModal] = useState(false)
   const [editingUser, setEditingUser] = useState<User | null>(null)
   const [resetPasswordUser, setResetPasswordUser] = useState<User | null>(null)
   const [deactivatingUser, setDeactivatingUser] = useState<User | null>(null)
@@ -201,6 +203,17 @@ export default function AdminUsersPage() {
     fetchUsers()
   }, [fetchUsers])
 
+  /**
+   * Handle bulk import success
+   */
+  const handleImportSuccess = useCallback(
+    (createdCount: number) => {
+      toast.success(`Imported ${createdCount} user${createdCount !== 1 ? 's' : ''}`)
+      fetchUsers()
+    },
+    [fetchUsers]
+  )
+
   /**
    * Handle user edit success
    */
@@ -280,6 +293,14 @@ export default function AdminUsersPage() {
                 className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`}
               />
             </button>
+            <button
+              type="button"
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-white text-gray-700 text-sm font-medium border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 transition-colors"
+            >
+              <Upload className="h-4 w-4" />
+              Import CSV
+            </button>
             <button
               type="button"
               onClick={() => setShowCreateModal(true)}
@@ -340,6 +361,12 @@ export default function AdminUsersPage() {
         onSuccess={handleCreateSuccess}
       />
 
+      <UserImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onSuccess={handleImportSuccess}
+      />
+
       <UserEditModal
         isOpen={!!editingUser}
         user={editingUser}
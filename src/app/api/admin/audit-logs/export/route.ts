@@ -0,0 +1,92 @@
+/**
+ * Admin Audit Log Export API
+ *
+ * GET /api/admin/audit-logs/export - Download the audited actions matching
+ * the filters as CSV (newest first, up to MAX_EXPORT_ROWS entries)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateData } from '@/lib/validation'
+import { applyUserRateLimit } from '@/lib/rate-limit'
+import {
+  auditLogEntrySelect,
+  buildAuditLogWhere,
+  formatAuditLogEntry,
+  generateAuditLogCSV,
+  generateAuditLogFilename,
+} from '@/lib/audit-log'
+import { auditLogExportQuerySchema } from '@/validators/auditLog'
+
+/**
+ * Maximum number of entries in one export
+ */
+const MAX_EXPORT_ROWS = 10000
+
+// ============================================
+// GET - Export Audit Log
+// ============================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Admin-only access
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    // Apply rate limiting
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/admin/audit-logs/export'
+    )
+    if (rateLimitResponse) return rateLimitResponse
+
+    // Parse and validate query parameters
+    const { searchParams } = new URL(request.url)
+    const queryParams = {
+      actorId: searchParams.get('actorId') || undefined,
+      search: searchParams.get('search') || undefined,
+      action: searchParams.get('action') || undefined,
+      targetType: searchParams.get('targetType') || undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    }
+
+    const validation = validateData(queryParams, auditLogExportQuerySchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const entries = await prisma.audit_logs.findMany({
+      where: buildAuditLogWhere(validation.data),
+      select: auditLogEntrySelect,
+      take: MAX_EXPORT_ROWS,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const csvContent = generateAuditLogCSV(entries.map(formatAuditLogEntry))
+
+    return new NextResponse(csvContent, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${generateAuditLogFilename()}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting audit log:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to export audit log' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Admin Audit Log API
+ *
+ * GET /api/admin/audit-logs - List audited actions with filtering by actor,
+ * action, target and date range
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateData } from '@/lib/validation'
+import { applyUserRateLimit } from '@/lib/rate-limit'
+import { auditLogEntrySelect, buildAuditLogWhere, formatAuditLogEntry } from '@/lib/audit-log'
+import { auditLogQuerySchema } from '@/validators/auditLog'
+
+// ============================================
+// GET - List Audit Log Entries
+// ============================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Admin-only access
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    // Apply rate limiting
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/admin/audit-logs'
+    )
+    if (rateLimitResponse) return rateLimitResponse
+
+    // Parse and validate query parameters
+    const { searchParams } = new URL(request.url)
+    const queryParams = {
+      actorId: searchParams.get('actorId') || undefined,
+      search: searchParams.get('search') || undefined,
+      action: searchParams.get('action') || undefined,
+      targetType: searchParams.get('targetType') || undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      page: searchParams.get('page') || '1',
+      limit: searchParams.get('limit') || '50',
+    }
+
+    const validation = validateData(queryParams, auditLogQuerySchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { page, limit, ...filters } = validation.data
+    const where = buildAuditLogWhere(filters)
+
+    // Fetch entries and total count in parallel
+    const [entries, total] = await Promise.all([
+      prisma.audit_logs.findMany({
+        where,
+        select: auditLogEntrySelect,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.audit_logs.count({ where }),
+    ])
+
+    return NextResponse.json({
+      data: entries.map(formatAuditLogEntry),
+      meta: {
+        total,
+        page,
+        pageSize: limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching audit log:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch audit log' } },
+      { status: 500 }
+    )
+  }
+}
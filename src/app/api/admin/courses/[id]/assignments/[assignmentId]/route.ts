@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { notDeleted, softDelete } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { z } from 'zod'
 
 // Assignment update schema
@@ -92,7 +93,7 @@ export async function GET(
         },
         _count: {
           select: {
-            submissions: true,
+            submissions: { where: { attemptNumber: 1 } },
             grades: { where: notDeleted },
           },
         },
@@ -243,18 +244,17 @@ export async function PUT(
       data: updateData,
     })
 
-    // Log assignment update
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_assignment_updated',
-        assignmentId,
+    // Record assignment update
+    await recordAuditLog({
+      actor: session.user,
+      action: 'assignment_updated',
+      targetType: 'assignment',
+      targetId: assignmentId,
+      details: {
         courseId,
         updatedFields: Object.keys(updateData).filter((k) => k !== 'updatedAt'),
-        updatedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -325,7 +325,7 @@ export async function DELETE(
         moduleId: true,
         _count: {
           select: {
-            submissions: true,
+            submissions: { where: { attemptNumber: 1 } },
             grades: { where: notDeleted },
           },
         },
@@ -351,20 +351,19 @@ export async function DELETE(
       data: { deletedAt: new Date() },
     })
 
-    // Log assignment deletion
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_assignment_deleted',
-        assignmentId,
+    // Record assignment deletion
+    await recordAuditLog({
+      actor: session.user,
+      action: 'assignment_deleted',
+      targetType: 'assignment',
+      targetId: assignmentId,
+      details: {
         courseId,
         assignmentTitle: assignment.title,
         submissionCount: assignment._count.submissions,
         gradeCount: assignment._count.grades,
-        deletedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
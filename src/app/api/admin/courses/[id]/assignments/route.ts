@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { z } from 'zod'
 
 // Assignment validation schema
@@ -87,7 +88,7 @@ export async function GET(
         },
         _count: {
           select: {
-            submissions: true,
+            submissions: { where: { attemptNumber: 1 } },
             grades: { where: notDeleted },
           },
         },
@@ -226,18 +227,17 @@ export async function POST(
       },
     })
 
-    // Log assignment creation
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_assignment_created',
-        assignmentId: newAssignment.id,
+    // Record assignment creation
+    await recordAuditLog({
+      actor: session.user,
+      action: 'assignment_created',
+      targetType: 'assignment',
+      targetId: newAssignment.id,
+      details: {
         courseId,
         moduleId: moduleId || null,
-        createdBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
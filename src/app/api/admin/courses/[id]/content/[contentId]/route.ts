@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { notDeleted, softDelete } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { z } from 'zod'
 
 // Admin update schema with all content fields plus moduleId
@@ -228,18 +229,17 @@ export async function PUT(
       data: updateData,
     })
 
-    // Log content update
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_content_updated',
-        contentId,
+    // Record content update
+    await recordAuditLog({
+      actor: session.user,
+      action: 'content_updated',
+      targetType: 'courseContent',
+      targetId: contentId,
+      details: {
         courseId,
         updatedFields: Object.keys(updateData).filter((k) => k !== 'updatedAt'),
-        updatedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -322,19 +322,18 @@ export async function DELETE(
     // Soft delete content
     await softDelete(prisma.course_content, contentId)
 
-    // Log content deletion
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_content_deleted',
-        contentId,
+    // Record content deletion
+    await recordAuditLog({
+      actor: session.user,
+      action: 'content_deleted',
+      targetType: 'courseContent',
+      targetId: contentId,
+      details: {
         courseId,
         contentTitle: content.title,
         contentType: content.type,
-        deletedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
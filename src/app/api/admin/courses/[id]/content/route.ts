@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { createContentSchema } from '@/validators/course'
 
 // ============================================
@@ -216,19 +217,18 @@ export async function POST(
       },
     })
 
-    // Log content creation
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_content_created',
-        contentId: newContent.id,
+    // Record content creation
+    await recordAuditLog({
+      actor: session.user,
+      action: 'content_created',
+      targetType: 'courseContent',
+      targetId: newContent.id,
+      details: {
         courseId,
         moduleId: moduleId || null,
         type,
-        createdBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -0,0 +1,156 @@
+/**
+ * Admin Course Management API - Copy Course
+ *
+ * POST /api/admin/courses/[id]/copy - Copy a course into a new course,
+ * optionally for a different instructor
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { applyUserRateLimit } from '@/lib/rate-limit'
+import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
+import { copyCourse } from '@/lib/course-copy'
+import { copyCourseSchema } from '@/validators/course'
+import { z } from 'zod'
+
+// Copy schema plus the new owner (defaults to the source course's instructor)
+const adminCopyCourseSchema = copyCourseSchema.extend({
+  instructorId: z.string().min(1).optional(),
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Admin-only access
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    // Apply rate limiting
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/admin/courses'
+    )
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = adminCopyCourseSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: validation.error.issues,
+          },
+        },
+        { status: 400 }
+      )
+    }
+
+    const { instructorId: requestedInstructorId, ...options } = validation.data
+
+    const course = await prisma.courses.findFirst({
+      where: { id, ...notDeleted },
+      select: { id: true, code: true, instructorId: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const instructorId = requestedInstructorId ?? course.instructorId
+
+    if (instructorId !== course.instructorId) {
+      const instructor = await prisma.users.findFirst({
+        where: {
+          id: instructorId,
+          role: 'INSTRUCTOR',
+          ...notDeleted,
+        },
+      })
+
+      if (!instructor) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'INVALID_INSTRUCTOR',
+              message: 'Instructor not found or user is not an instructor',
+            },
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    const existingCourse = await prisma.courses.findUnique({
+      where: { code: options.code },
+    })
+
+    if (existingCourse) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'DUPLICATE_CODE',
+            message: 'Course code already exists',
+          },
+        },
+        { status: 409 }
+      )
+    }
+
+    const copy = await copyCourse(id, { ...options, instructorId })
+
+    if (!copy) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_copied',
+      targetType: 'course',
+      targetId: copy.courseId,
+      details: {
+        sourceCourseId: id,
+        sourceCourseCode: course.code,
+        courseCode: options.code,
+        instructorId,
+        dateOffsetDays: options.dateOffsetDays,
+        ...copy.summary,
+      },
+    })
+
+    // Invalidate admin stats cache
+    await invalidateAdminStats()
+
+    return NextResponse.json(
+      { data: { id: copy.courseId, summary: copy.summary } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error copying course:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to copy course' } },
+      { status: 500 }
+    )
+  }
+}
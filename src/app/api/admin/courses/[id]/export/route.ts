@@ -0,0 +1,73 @@
+/**
+ * Admin Course Management API - Export Course
+ *
+ * GET /api/admin/courses/[id]/export - Download a course as an IMS Common
+ * Cartridge (.imscc) package
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { applyUserRateLimit } from '@/lib/rate-limit'
+import { recordAuditLog } from '@/lib/audit-log'
+import { exportCourseCartridge } from '@/lib/common-cartridge'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Admin-only access
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    // Apply rate limiting
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/admin/courses'
+    )
+    if (rateLimitResponse) return rateLimitResponse
+
+    const { id } = await params
+
+    const cartridge = await exportCourseCartridge(id)
+
+    if (!cartridge) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_exported',
+      targetType: 'course',
+      targetId: id,
+      details: { skipped: cartridge.warnings },
+    })
+
+    const filename = cartridge.fileName.replace(/[^\w.-]/g, '_')
+
+    return new NextResponse(new Uint8Array(cartridge.archive), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting course:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to export course' } },
+      { status: 500 }
+    )
+  }
+}
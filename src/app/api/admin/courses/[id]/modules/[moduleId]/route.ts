@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { notDeleted, softDelete } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { updateModuleSchema } from '@/lib/validations/module'
 
 // ============================================
@@ -216,17 +217,16 @@ export async function PUT(
       },
     })
 
-    // Log module update
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_module_updated',
-        moduleId,
+    // Record module update
+    await recordAuditLog({
+      actor: session.user,
+      action: 'module_updated',
+      targetType: 'module',
+      targetId: moduleId,
+      details: {
         courseId,
-        updatedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -423,19 +423,18 @@ export async function DELETE(
     // Soft delete the module
     await softDelete(prisma.modules, moduleId)
 
-    // Log module deletion
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_module_deleted',
-        moduleId,
+    // Record module deletion
+    await recordAuditLog({
+      actor: session.user,
+      action: 'module_deleted',
+      targetType: 'module',
+      targetId: moduleId,
+      details: {
         courseId,
         movedContent: !!moveContentTo,
         movedCount,
-        deletedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
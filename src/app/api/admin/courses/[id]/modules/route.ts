@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { createModuleSchema } from '@/lib/validations/module'
 
 // ============================================
@@ -206,17 +207,16 @@ export async function POST(
       },
     })
 
-    // Log module creation
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_module_created',
-        moduleId: newModule.id,
+    // Record module creation
+    await recordAuditLog({
+      actor: session.user,
+      action: 'module_created',
+      targetType: 'module',
+      targetId: newModule.id,
+      details: {
         courseId,
-        createdBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { cascadeSoftDeleteCourse, notDeleted } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { z } from 'zod'
 
 // Admin update schema with all course fields plus instructorId
@@ -268,17 +269,16 @@ export async function PUT(
       },
     })
 
-    // Log course update
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_course_updated',
-        courseId: id,
+    // Record course update
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_updated',
+      targetType: 'course',
+      targetId: id,
+      details: {
         updatedFields: Object.keys(updateData).filter((k) => k !== 'updatedAt'),
-        updatedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -350,19 +350,18 @@ export async function DELETE(
     // Soft delete course and cascade to related content
     await cascadeSoftDeleteCourse(id)
 
-    // Log course deletion
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_course_deleted',
-        courseId: id,
+    // Record course deletion
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_deleted',
+      targetType: 'course',
+      targetId: id,
+      details: {
         courseCode: course.code,
         courseTitle: course.title,
         originalInstructorId: course.instructorId,
-        deletedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -0,0 +1,173 @@
+/**
+ * Admin Course Management API - Import Course
+ *
+ * POST /api/admin/courses/import - Create a course from an uploaded IMS
+ * Common Cartridge (.imscc) package
+ *
+ * Multipart form fields: file, code, semester, year, instructorId and an
+ * optional title (defaults to the cartridge's title).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { applyUserRateLimit } from '@/lib/rate-limit'
+import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
+import {
+  CartridgeError,
+  importCourseCartridge,
+  parseCommonCartridge,
+} from '@/lib/common-cartridge'
+import { importCourseSchema } from '@/validators/course'
+
+// For App Router, we need to configure the runtime
+export const runtime = 'nodejs'
+
+// Max cartridge size: 200MB
+const MAX_FILE_SIZE = 200 * 1024 * 1024
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Admin-only access
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    // Apply rate limiting
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/admin/courses'
+    )
+    if (rateLimitResponse) return rateLimitResponse
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'No file provided' } },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FILE_TOO_LARGE',
+            message: `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB`,
+          },
+        },
+        { status: 400 }
+      )
+    }
+
+    const validation = importCourseSchema.safeParse({
+      code: formData.get('code'),
+      semester: formData.get('semester'),
+      year: Number(formData.get('year')),
+      title: formData.get('title') || undefined,
+      instructorId: formData.get('instructorId'),
+    })
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: validation.error.issues,
+          },
+        },
+        { status: 400 }
+      )
+    }
+
+    const options = validation.data
+
+    // Verify instructor exists and is an instructor
+    const instructor = await prisma.users.findFirst({
+      where: {
+        id: options.instructorId,
+        role: 'INSTRUCTOR',
+        ...notDeleted,
+      },
+    })
+
+    if (!instructor) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_INSTRUCTOR',
+            message: 'Instructor not found or user is not an instructor',
+          },
+        },
+        { status: 400 }
+      )
+    }
+
+    // Check if course code already exists
+    const existingCourse = await prisma.courses.findUnique({
+      where: { code: options.code },
+    })
+
+    if (existingCourse) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'DUPLICATE_CODE',
+            message: 'Course code already exists',
+          },
+        },
+        { status: 409 }
+      )
+    }
+
+    let cartridge
+    try {
+      cartridge = parseCommonCartridge(Buffer.from(await file.arrayBuffer()))
+    } catch (error) {
+      if (error instanceof CartridgeError) {
+        return NextResponse.json(
+          { error: { code: 'INVALID_CARTRIDGE', message: error.message } },
+          { status: 400 }
+        )
+      }
+      throw error
+    }
+
+    const { courseId, summary } = await importCourseCartridge(cartridge, options)
+
+    // Record course import
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_imported',
+      targetType: 'course',
+      targetId: courseId,
+      details: {
+        courseCode: options.code,
+        instructorId: options.instructorId,
+        fileName: file.name,
+        ...summary,
+      },
+    })
+
+    // Invalidate admin stats cache
+    await invalidateAdminStats()
+
+    return NextResponse.json({ data: { id: courseId, summary } }, { status: 201 })
+  } catch (error) {
+    console.error('Error importing course:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to import course' } },
+      { status: 500 }
+    )
+  }
+}
@@ -13,6 +13,7 @@ import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 import { createCourseSchema } from '@/validators/course'
 import { Prisma } from '@prisma/client'
 import { z } from 'zod'
@@ -269,18 +270,17 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    // Log course creation
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'admin_course_created',
-        courseId: course.id,
+    // Record course creation
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_created',
+      targetType: 'course',
+      targetId: course.id,
+      details: {
         courseCode: course.code,
         instructorId,
-        createdBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+      },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -31,7 +31,7 @@ export async function POST(
 
     const cascadeRestore = body.cascadeRestore !== false // Default to true for courses
 
-    const restored = await restoreRecord(model, id, cascadeRestore)
+    const restored = await restoreRecord(model, id, cascadeRestore, session.user)
 
     if (!restored) {
       return NextResponse.json(
@@ -0,0 +1,138 @@
+/**
+ * Admin Grade Audit Report API
+ *
+ * GET /api/admin/grade-history - List grade changes across all courses with
+ * filtering by course, student, source and date range
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateData } from '@/lib/validation'
+import { applyUserRateLimit } from '@/lib/rate-limit'
+import { formatGradeHistoryEntry, gradeHistoryEntrySelect } from '@/lib/grade-history'
+import { gradeAuditQuerySchema } from '@/validators/grade'
+import { Prisma } from '@prisma/client'
+
+// ============================================
+// GET - List Grade Changes
+// ============================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Admin-only access
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    // Apply rate limiting
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/admin/grade-history'
+    )
+    if (rateLimitResponse) return rateLimitResponse
+
+    // Parse and validate query parameters
+    const { searchParams } = new URL(request.url)
+    const queryParams = {
+      courseId: searchParams.get('courseId') || undefined,
+      search: searchParams.get('search') || undefined,
+      source: searchParams.get('source') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      page: searchParams.get('page') || '1',
+      limit: searchParams.get('limit') || '50',
+    }
+
+    const validation = validateData(queryParams, gradeAuditQuerySchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { courseId, search, source, from, to, page, limit } = validation.data
+
+    // Build where clause
+    const where: Prisma.grade_historyWhereInput = {
+      ...(courseId && { assignments: { courseId } }),
+      ...(source && { source }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: from }),
+          ...(to && { lte: to }),
+        },
+      }),
+      ...(search && {
+        users_grade_history_studentIdTousers: {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { surname: { contains: search, mode: 'insensitive' } },
+            { email: { contains: search, mode: 'insensitive' } },
+          ],
+        },
+      }),
+    }
+
+    // Fetch entries and total count in parallel
+    const [entries, total] = await Promise.all([
+      prisma.grade_history.findMany({
+        where,
+        select: {
+          ...gradeHistoryEntrySelect,
+          assignments: {
+            select: {
+              id: true,
+              title: true,
+              maxPoints: true,
+              courses: { select: { id: true, code: true, title: true } },
+            },
+          },
+          users_grade_history_studentIdTousers: {
+            select: { id: true, name: true, surname: true, email: true },
+          },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.grade_history.count({ where }),
+    ])
+
+    return NextResponse.json({
+      data: entries.map((entry) => {
+        const student = entry.users_grade_history_studentIdTousers
+        return {
+          ...formatGradeHistoryEntry(entry),
+          assignment: {
+            id: entry.assignments.id,
+            title: entry.assignments.title,
+            maxPoints: entry.assignments.maxPoints,
+          },
+          course: entry.assignments.courses,
+          student: {
+            id: student.id,
+            name: `${student.name} ${student.surname}`,
+            email: student.email,
+          },
+        }
+      }),
+      meta: {
+        total,
+        page,
+        pageSize: limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching grade history:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch grade history' } },
+      { status: 500 }
+    )
+  }
+}
@@ -10,6 +10,7 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
 import { applyUserRateLimit } from '@/lib/rate-limit'
+import { recordAuditLog } from '@/lib/audit-log'
 import bcrypt from 'bcryptjs'
 import crypto from 'crypto'
 
@@ -61,16 +62,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       data: { password: hashedPassword },
     })
 
-    // Log password reset (NEVER log the actual password)
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'password_reset',
-        userId: id,
-        resetBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+    // Record password reset (NEVER log the actual password)
+    await recordAuditLog({
+      actor: session.user,
+      action: 'password_reset',
+      targetType: 'user',
+      targetId: id,
+    })
 
     // Return new password (one-time display to admin)
     return NextResponse.json({
@@ -15,6 +15,7 @@ import { validateRequest } from '@/lib/validation'
 import { applyUserRateLimit } from '@/lib/rate-limit'
 import { adminUpdateUserSchema, AdminUpdateUserInput } from '@/validators/user'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -183,18 +184,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         )
       }
 
-      await softDelete(prisma.users, id)
-
-      // Log deactivation
-      console.log(
-        JSON.stringify({
-          level: 'info',
-          action: 'user_deactivated',
-          userId: id,
-          deactivatedBy: session.user.id,
-          timestamp: new Date().toISOString(),
-        })
-      )
+      await softDelete(prisma.users, id, {
+        actor: session.user,
+        action: 'user_deactivated',
+        targetType: 'user',
+      })
 
       // Invalidate admin stats cache
       await invalidateAdminStats()
@@ -228,30 +222,23 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       },
     })
 
-    // Log update
+    // Record update
     if (roleChanged) {
-      console.log(
-        JSON.stringify({
-          level: 'info',
-          action: 'user_role_changed',
-          userId: id,
-          previousRole: currentUser.role,
-          newRole: role,
-          changedBy: session.user.id,
-          timestamp: new Date().toISOString(),
-        })
-      )
+      await recordAuditLog({
+        actor: session.user,
+        action: 'user_role_changed',
+        targetType: 'user',
+        targetId: id,
+        details: { previousRole: currentUser.role, newRole: role },
+      })
     } else {
-      console.log(
-        JSON.stringify({
-          level: 'info',
-          action: 'user_updated',
-          userId: id,
-          changes: Object.keys(updateData),
-          updatedBy: session.user.id,
-          timestamp: new Date().toISOString(),
-        })
-      )
+      await recordAuditLog({
+        actor: session.user,
+        action: 'user_updated',
+        targetType: 'user',
+        targetId: id,
+        details: { changes: Object.keys(updateData) },
+      })
     }
 
     // Invalidate admin stats cache if role changed
@@ -343,18 +330,11 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     // Soft delete user
-    await softDelete(prisma.users, id)
-
-    // Log deletion
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'user_deactivated',
-        userId: id,
-        deactivatedBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+    await softDelete(prisma.users, id, {
+      actor: session.user,
+      action: 'user_deactivated',
+      targetType: 'user',
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
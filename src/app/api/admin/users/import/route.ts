@@ -0,0 +1,119 @@
+/**
+ * Admin User Management API - Bulk Import
+ *
+ * POST /api/admin/users/import - Create users from a CSV
+ *
+ * A dry run (the default) validates every row and reports the users that
+ * would be created. Applying the import re-checks the CSV and creates every
+ * user, with their enrollments, or none if the CSV has errors. The response
+ * holds each new user's temporary password, which is not shown again.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { validateRequest, ValidationErrorCodes } from '@/lib/validation'
+import { applyUserRateLimit } from '@/lib/rate-limit'
+import { userImportSchema, UserImportInput } from '@/validators/user'
+import { planUserImport, createImportedUsers } from '@/lib/user-import'
+import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    // Admin-only access
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    // Apply rate limiting
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/admin/users/import'
+    )
+    if (rateLimitResponse) return rateLimitResponse
+
+    // Validate request body
+    const validation = await validateRequest<UserImportInput>(
+      request,
+      userImportSchema
+    )
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { csv, courseCodes, dryRun } = validation.data
+
+    const plan = await planUserImport(csv, courseCodes)
+
+    if (dryRun) {
+      return NextResponse.json({ data: { dryRun: true, ...plan } })
+    }
+
+    if (plan.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ValidationErrorCodes.INVALID_INPUT,
+            message: 'Fix the errors in the CSV before importing',
+            details: plan.errors,
+          },
+        },
+        { status: 400 }
+      )
+    }
+
+    if (plan.users.length === 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ValidationErrorCodes.INVALID_INPUT,
+            message: 'The CSV has no users to import',
+          },
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await createImportedUsers(plan)
+
+    // Record the import (NEVER log the passwords)
+    await recordAuditLog({
+      actor: session.user,
+      action: 'users_imported',
+      targetType: 'user',
+      details: {
+        createdCount: result.users.length,
+        enrolledCount: result.enrolledCount,
+        courseCodes,
+      },
+    })
+
+    // Invalidate admin stats cache
+    await invalidateAdminStats()
+
+    // Return the temporary passwords (one-time display to admin)
+    return NextResponse.json(
+      {
+        data: {
+          dryRun: false,
+          createdCount: result.users.length,
+          enrolledCount: result.enrolledCount,
+          users: result.users,
+        },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error importing users:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to import users' } },
+      { status: 500 }
+    )
+  }
+}
@@ -22,6 +22,7 @@ import crypto from 'crypto'
 import { randomUUID } from 'crypto'
 import { Prisma } from '@prisma/client'
 import { invalidateAdminStats } from '@/lib/redis'
+import { recordAuditLog } from '@/lib/audit-log'
 
 // ============================================
 // GET - List Users
@@ -194,17 +195,14 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    // Log user creation
-    console.log(
-      JSON.stringify({
-        level: 'info',
-        action: 'user_created',
-        userId: user.id,
-        role: user.role,
-        createdBy: session.user.id,
-        timestamp: new Date().toISOString(),
-      })
-    )
+    // Record user creation
+    await recordAuditLog({
+      actor: session.user,
+      action: 'user_created',
+      targetType: 'user',
+      targetId: user.id,
+      details: { role: user.role },
+    })
 
     // Invalidate admin stats cache
     await invalidateAdminStats()
@@ -0,0 +1,69 @@
+/**
+ * Assignment Extension Detail API Route
+ * DELETE /api/instructor/assignments/[id]/extensions/[extensionId] - Revoke an extension
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+interface RouteParams {
+  params: Promise<{ id: string; extensionId: string }>
+}
+
+/**
+ * DELETE /api/instructor/assignments/[id]/extensions/[extensionId]
+ * Revoke an extension; the student falls back to the regular due date
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, extensionId } = await params
+
+    const extension = await prisma.assignment_extensions.findFirst({
+      where: {
+        id: extensionId,
+        assignmentId: id,
+        assignments: {
+          courses: session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id },
+        },
+      },
+      select: { id: true },
+    })
+
+    if (!extension) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Extension not found' } },
+        { status: 404 }
+      )
+    }
+
+    await prisma.assignment_extensions.delete({
+      where: { id: extensionId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Extensions API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
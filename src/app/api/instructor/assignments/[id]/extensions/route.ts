@@ -0,0 +1,176 @@
+/**
+ * Assignment Extensions API Route
+ * GET  /api/instructor/assignments/[id]/extensions - List extensions for an assignment
+ * POST /api/instructor/assignments/[id]/extensions - Grant or replace a student's extension
+ *
+ * An extension replaces the assignment's due date for one student.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { assignmentExtensionSchema } from '@/validators/extension'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/instructor/assignments/[id]/extensions
+ * List all extensions granted on an assignment
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const assignment = await prisma.assignments.findFirst({
+      where: {
+        id,
+        ...notDeleted,
+        courses: session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id },
+      },
+      select: { id: true },
+    })
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Assignment not found' } },
+        { status: 404 }
+      )
+    }
+
+    const extensions = await prisma.assignment_extensions.findMany({
+      where: { assignmentId: id },
+      include: {
+        users_assignment_extensions_studentIdTousers: {
+          select: { id: true, name: true, surname: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({
+      extensions: extensions.map(({ users_assignment_extensions_studentIdTousers: student, ...extension }) => ({
+        ...extension,
+        student,
+      })),
+    })
+  } catch (error) {
+    console.error('[Extensions API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/assignments/[id]/extensions
+ * Grant an extension to an enrolled student, replacing any existing one
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const assignment = await prisma.assignments.findFirst({
+      where: {
+        id,
+        ...notDeleted,
+        courses: session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id },
+      },
+      select: { id: true, courseId: true, dueDate: true },
+    })
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Assignment not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, assignmentExtensionSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { studentId, dueDate, reason } = validation.data
+
+    if (!assignment.dueDate) {
+      return createCustomValidationError('Assignment has no due date to extend')
+    }
+
+    const enrollment = await prisma.enrollments.findUnique({
+      where: { userId_courseId: { userId: studentId, courseId: assignment.courseId } },
+      select: { id: true },
+    })
+
+    if (!enrollment) {
+      return createCustomValidationError('Student is not enrolled in this course', [
+        { path: 'studentId', message: 'Student is not enrolled in this course' },
+      ])
+    }
+
+    const extension = await prisma.assignment_extensions.upsert({
+      where: { assignmentId_studentId: { assignmentId: id, studentId } },
+      create: {
+        id: randomUUID(),
+        assignmentId: id,
+        studentId,
+        dueDate: new Date(dueDate),
+        reason: reason || null,
+        grantedById: session.user.id,
+        updatedAt: new Date(),
+      },
+      update: {
+        dueDate: new Date(dueDate),
+        reason: reason || null,
+        grantedById: session.user.id,
+        updatedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ extension }, { status: 201 })
+  } catch (error) {
+    console.error('[Extensions API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
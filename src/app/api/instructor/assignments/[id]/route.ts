@@ -3,6 +3,11 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { softDelete, notDeleted } from '@/lib/soft-delete'
+import { latePolicySchema, attemptSettingsSchema } from '@/validators/assignment'
+import { publishScheduleSchema } from '@/validators/publishing'
+import { applyPublishWindowUpdate, validatePublishWindow } from '@/lib/publishing'
+import { syncGradeFromAttempts } from '@/lib/attempts'
+import { formatRubric, rubricWithCriteriaInclude } from '@/lib/rubrics'
 
 export async function GET(
   request: NextRequest,
@@ -29,9 +34,12 @@ export async function GET(
             code: true
           }
         },
+        rubrics: {
+          include: rubricWithCriteriaInclude
+        },
         _count: {
           select: {
-            submissions: true
+            submissions: { where: { attemptNumber: 1 } }
           }
         }
       }
@@ -41,7 +49,12 @@ export async function GET(
       return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
     }
 
-    return NextResponse.json(assignment)
+    const { rubrics, ...rest } = assignment
+
+    return NextResponse.json({
+      ...rest,
+      rubric: rubrics ? formatRubric(rubrics) : null
+    })
   } catch (error) {
     console.error('Error fetching assignment:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -72,7 +85,68 @@ export async function PUT(
       return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
     }
 
-    const { title, description, dueDate, maxPoints, isPublished } = await request.json()
+    const body = await request.json()
+    const { title, description, dueDate, maxPoints, isPublished, isRequired, isGroupAssignment, categoryId, rubricId } = body
+
+    const latePolicyValidation = latePolicySchema.safeParse(body)
+    if (!latePolicyValidation.success) {
+      return NextResponse.json({ error: latePolicyValidation.error.issues[0].message }, { status: 400 })
+    }
+
+    const { latePolicy, lateGraceMinutes, latePenaltyPerDay, lateCutoffAt } = latePolicyValidation.data
+
+    const attemptSettingsValidation = attemptSettingsSchema.safeParse(body)
+    if (!attemptSettingsValidation.success) {
+      return NextResponse.json({ error: attemptSettingsValidation.error.issues[0].message }, { status: 400 })
+    }
+
+    const { maxAttempts, gradedAttemptPolicy } = attemptSettingsValidation.data
+
+    const scheduleValidation = publishScheduleSchema.safeParse(body)
+    if (!scheduleValidation.success) {
+      return NextResponse.json({ error: scheduleValidation.error.issues[0].message }, { status: 400 })
+    }
+
+    const publishWindow = applyPublishWindowUpdate(scheduleValidation.data, assignment)
+    const windowError = validatePublishWindow(publishWindow)
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 })
+    }
+    const newDueDate = dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : assignment.dueDate
+    const newCutoffAt = lateCutoffAt !== undefined ? (lateCutoffAt ? new Date(lateCutoffAt) : null) : assignment.lateCutoffAt
+
+    if (newCutoffAt && newDueDate && newCutoffAt <= newDueDate) {
+      return NextResponse.json({ error: 'Late submission cutoff must be after the due date' }, { status: 400 })
+    }
+
+    // Grade category must belong to the assignment's course
+    if (categoryId) {
+      const category = await prisma.grade_categories.findFirst({
+        where: {
+          id: categoryId,
+          courseId: assignment.courseId
+        }
+      })
+
+      if (!category) {
+        return NextResponse.json({ error: 'Grade category not found' }, { status: 400 })
+      }
+    }
+
+    // Rubric must be one of the instructor's own rubrics
+    if (rubricId && rubricId !== assignment.rubricId) {
+      const rubric = await prisma.rubrics.findFirst({
+        where: {
+          id: rubricId,
+          instructorId: session.user.id,
+          ...notDeleted
+        }
+      })
+
+      if (!rubric) {
+        return NextResponse.json({ error: 'Rubric not found' }, { status: 400 })
+      }
+    }
 
     const updatedAssignment = await prisma.assignments.update({
       where: {
@@ -81,12 +155,51 @@ export async function PUT(
       data: {
         title: title || assignment.title,
         description: description !== undefined ? description : assignment.description,
-        dueDate: dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : assignment.dueDate,
+        dueDate: newDueDate,
         maxPoints: maxPoints !== undefined ? parseInt(maxPoints) : assignment.maxPoints,
-        isPublished: isPublished !== undefined ? Boolean(isPublished) : assignment.isPublished
+        isPublished: isPublished !== undefined ? Boolean(isPublished) : assignment.isPublished,
+        isRequired: isRequired !== undefined ? Boolean(isRequired) : assignment.isRequired,
+        isGroupAssignment: isGroupAssignment !== undefined ? Boolean(isGroupAssignment) : assignment.isGroupAssignment,
+        ...publishWindow,
+        categoryId: categoryId !== undefined ? (categoryId || null) : assignment.categoryId,
+        rubricId: rubricId !== undefined ? (rubricId || null) : assignment.rubricId,
+        latePolicy: latePolicy ?? assignment.latePolicy,
+        lateGraceMinutes: lateGraceMinutes ?? assignment.lateGraceMinutes,
+        latePenaltyPerDay: latePenaltyPerDay ?? assignment.latePenaltyPerDay,
+        lateCutoffAt: newCutoffAt,
+        maxAttempts: maxAttempts ?? assignment.maxAttempts,
+        gradedAttemptPolicy: gradedAttemptPolicy ?? assignment.gradedAttemptPolicy
       }
     })
 
+    // A different policy may count a different attempt for each student
+    if (gradedAttemptPolicy && gradedAttemptPolicy !== assignment.gradedAttemptPolicy) {
+      const gradedStudents = await prisma.submissions.findMany({
+        where: {
+          assignmentId: id,
+          points: { not: null }
+        },
+        select: {
+          studentId: true
+        },
+        distinct: ['studentId']
+      })
+
+      for (const { studentId } of gradedStudents) {
+        await prisma.$transaction(async (tx) => {
+          const sync = await syncGradeFromAttempts(
+            { assignmentId: id, studentId, gradedById: session.user.id, source: 'ATTEMPT_POLICY' },
+            tx
+          )
+
+          // The rubric breakdown belonged to the previously counted attempt
+          if (sync.grade && sync.submissionId !== sync.previousSubmissionId) {
+            await tx.rubric_scores.deleteMany({ where: { gradeId: sync.grade.id } })
+          }
+        })
+      }
+    }
+
     return NextResponse.json(updatedAssignment)
   } catch (error) {
     console.error('Error updating assignment:', error)
@@ -120,7 +233,11 @@ export async function DELETE(
     }
 
     // Soft delete assignment
-    await softDelete(prisma.assignments, id)
+    await softDelete(prisma.assignments, id, {
+      actor: session.user,
+      action: 'assignment_deleted',
+      targetType: 'assignment',
+    })
 
     return NextResponse.json({ message: 'Assignment archived successfully' })
   } catch (error) {
@@ -0,0 +1,69 @@
+/**
+ * Assignment Section Due Date Detail API Route
+ * DELETE /api/instructor/assignments/[id]/section-dates/[dateId] - Remove a section due date
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+interface RouteParams {
+  params: Promise<{ id: string; dateId: string }>
+}
+
+/**
+ * DELETE /api/instructor/assignments/[id]/section-dates/[dateId]
+ * Remove a section due date; the section falls back to the regular due date
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, dateId } = await params
+
+    const sectionDate = await prisma.assignment_section_due_dates.findFirst({
+      where: {
+        id: dateId,
+        assignmentId: id,
+        assignments: {
+          courses: session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id },
+        },
+      },
+      select: { id: true },
+    })
+
+    if (!sectionDate) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Section due date not found' } },
+        { status: 404 }
+      )
+    }
+
+    await prisma.assignment_section_due_dates.delete({
+      where: { id: dateId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Section Dates API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
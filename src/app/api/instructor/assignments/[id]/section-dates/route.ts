@@ -0,0 +1,165 @@
+/**
+ * Assignment Section Due Dates API Route
+ * GET  /api/instructor/assignments/[id]/section-dates - List section due dates for an assignment
+ * POST /api/instructor/assignments/[id]/section-dates - Set or replace a section's due date
+ *
+ * A section due date replaces the assignment's due date for every student in
+ * the section. Individual extensions still take precedence.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { findCourseSection } from '@/lib/sections'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { sectionDueDateSchema } from '@/validators/section'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/instructor/assignments/[id]/section-dates
+ * List all section due dates set on an assignment
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const assignment = await prisma.assignments.findFirst({
+      where: {
+        id,
+        ...notDeleted,
+        courses: session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id },
+      },
+      select: { id: true },
+    })
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Assignment not found' } },
+        { status: 404 }
+      )
+    }
+
+    const sectionDates = await prisma.assignment_section_due_dates.findMany({
+      where: { assignmentId: id },
+      include: { course_sections: { select: { id: true, name: true } } },
+      orderBy: { dueDate: 'asc' },
+    })
+
+    return NextResponse.json({
+      sectionDates: sectionDates.map(({ course_sections: section, ...sectionDate }) => ({
+        ...sectionDate,
+        section,
+      })),
+    })
+  } catch (error) {
+    console.error('[Section Dates API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/assignments/[id]/section-dates
+ * Set a section's due date, replacing any existing one
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const assignment = await prisma.assignments.findFirst({
+      where: {
+        id,
+        ...notDeleted,
+        courses: session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id },
+      },
+      select: { id: true, courseId: true, dueDate: true },
+    })
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Assignment not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, sectionDueDateSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { sectionId, dueDate } = validation.data
+
+    if (!assignment.dueDate) {
+      return createCustomValidationError('Assignment has no due date to move')
+    }
+
+    if (!(await findCourseSection(assignment.courseId, sectionId))) {
+      return createCustomValidationError('Section not found', [
+        { path: 'sectionId', message: 'Section not found' },
+      ])
+    }
+
+    const sectionDate = await prisma.assignment_section_due_dates.upsert({
+      where: { assignmentId_sectionId: { assignmentId: id, sectionId } },
+      create: {
+        id: randomUUID(),
+        assignmentId: id,
+        sectionId,
+        dueDate: new Date(dueDate),
+        updatedAt: new Date(),
+      },
+      update: {
+        dueDate: new Date(dueDate),
+        updatedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ sectionDate }, { status: 201 })
+  } catch (error) {
+    console.error('[Section Dates API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { syncGradeFromAttempts } from '@/lib/attempts'
+
+/**
+ * Make this attempt the one the student's grade is based on.
+ * Only available when the assignment's graded attempt policy is MANUAL.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, submissionId } = await params
+
+    // Verify instructor owns the assignment
+    const assignment = await prisma.assignments.findUnique({
+      where: {
+        id,
+        createdById: session.user.id
+      }
+    })
+
+    if (!assignment) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+
+    if (assignment.gradedAttemptPolicy !== 'MANUAL') {
+      return NextResponse.json(
+        { error: 'The counted attempt is chosen automatically for this assignment' },
+        { status: 400 }
+      )
+    }
+
+    const submission = await prisma.submissions.findUnique({
+      where: {
+        id: submissionId,
+        assignmentId: id
+      }
+    })
+
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+
+    if (submission.points === null) {
+      return NextResponse.json({ error: 'Grade this attempt before counting it' }, { status: 400 })
+    }
+
+    const grade = await prisma.$transaction(async (tx) => {
+      const sync = await syncGradeFromAttempts(
+        {
+          assignmentId: id,
+          studentId: submission.studentId,
+          gradedById: session.user.id,
+          source: 'COUNTED_ATTEMPT',
+          manualSubmissionId: submissionId
+        },
+        tx
+      )
+
+      // The rubric breakdown belonged to the previously counted attempt
+      if (sync.grade && sync.submissionId !== sync.previousSubmissionId) {
+        await tx.rubric_scores.deleteMany({ where: { gradeId: sync.grade.id } })
+      }
+
+      return sync.grade
+    })
+
+    return NextResponse.json(grade)
+  } catch (error) {
+    console.error('Error selecting counted attempt:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
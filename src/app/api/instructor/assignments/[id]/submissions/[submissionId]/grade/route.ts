@@ -3,6 +3,127 @@ import { getServerSession } from 'next-auth'
 import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { scoreRubric, rubricWithCriteriaInclude, ResolvedRubricScore } from '@/lib/rubrics'
+import { rubricScoresSchema } from '@/validators/rubric'
+import { syncGradeFromAttempts } from '@/lib/attempts'
+import { notifyGradePosted } from '@/lib/notifications'
+
+/**
+ * Validate rubric scores for an assignment's rubric and total them
+ */
+async function resolveRubricScores(
+  rubricId: string | null,
+  rubricScores: unknown
+): Promise<{ scores: ResolvedRubricScore[]; totalPoints: number } | { error: string }> {
+  if (!rubricId) {
+    return { error: 'This assignment does not use a rubric' }
+  }
+
+  const parsed = rubricScoresSchema.safeParse(rubricScores)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const rubric = await prisma.rubrics.findUnique({
+    where: { id: rubricId },
+    include: rubricWithCriteriaInclude
+  })
+
+  if (!rubric) {
+    return { error: 'Rubric not found' }
+  }
+
+  const result = scoreRubric(
+    rubric.rubric_criteria.map((criterion) => ({
+      id: criterion.id,
+      title: criterion.title,
+      levels: criterion.rubric_levels
+    })),
+    parsed.data
+  )
+
+  if (!result.valid) {
+    return { error: result.error }
+  }
+
+  return { scores: result.scores, totalPoints: result.totalPoints }
+}
+
+function toRubricScoreRows(scores: ResolvedRubricScore[]) {
+  return scores.map((score) => ({
+    id: randomUUID(),
+    criterionId: score.criterionId,
+    levelId: score.levelId,
+    points: score.points,
+    comment: score.comment
+  }))
+}
+
+/**
+ * Record an attempt's score, then recalculate the student's grade from their
+ * attempts. The rubric breakdown is kept on the grade only while the graded
+ * attempt is the counted one.
+ */
+async function saveAttemptGrade(params: {
+  assignmentId: string
+  submissionId: string
+  studentId: string
+  gradedById: string
+  points: number
+  feedback: string | null
+  reason?: string | null
+  rubricResult: { scores: ResolvedRubricScore[] } | null
+}) {
+  return prisma.$transaction(async (tx) => {
+    await tx.submissions.update({
+      where: { id: params.submissionId },
+      data: {
+        points: params.points,
+        feedback: params.feedback,
+        gradedAt: new Date()
+      }
+    })
+
+    const sync = await syncGradeFromAttempts(
+      {
+        assignmentId: params.assignmentId,
+        studentId: params.studentId,
+        gradedById: params.gradedById,
+        source: 'SUBMISSION_GRADING',
+        reason: params.reason
+      },
+      tx
+    )
+
+    if (!sync.grade) {
+      return null
+    }
+    const gradeId = sync.grade.id
+
+    if (sync.submissionId === params.submissionId) {
+      // Previous rubric scores are replaced; a plain points grade clears them
+      await tx.rubric_scores.deleteMany({ where: { gradeId } })
+      if (params.rubricResult) {
+        await tx.rubric_scores.createMany({
+          data: toRubricScoreRows(params.rubricResult.scores).map((row) => ({
+            ...row,
+            gradeId
+          }))
+        })
+      }
+    } else if (sync.submissionId !== sync.previousSubmissionId) {
+      // The breakdown belonged to an attempt that no longer counts
+      await tx.rubric_scores.deleteMany({ where: { gradeId } })
+    }
+
+    return tx.grades.findUnique({
+      where: { id: gradeId },
+      include: {
+        rubric_scores: true
+      }
+    })
+  })
+}
 
 export async function GET(
   request: NextRequest,
@@ -40,20 +161,36 @@ export async function GET(
       return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
     }
 
+    if (submission.points === null) {
+      return NextResponse.json({ error: 'Grade not found' }, { status: 404 })
+    }
+
     const grade = await prisma.grades.findUnique({
       where: {
         assignmentId_studentId: {
           assignmentId: id,
           studentId: submission.studentId
         }
+      },
+      include: {
+        rubric_scores: true
       }
     })
 
-    if (!grade) {
-      return NextResponse.json({ error: 'Grade not found' }, { status: 404 })
-    }
-
-    return NextResponse.json(grade)
+    // Each attempt keeps its own score; the rubric breakdown is stored on the
+    // grade and only describes the counted attempt
+    const isCounted = grade?.submissionId === submission.id
+
+    return NextResponse.json({
+      submissionId: submission.id,
+      attemptNumber: submission.attemptNumber,
+      points: submission.points,
+      feedback: submission.feedback,
+      gradedAt: submission.gradedAt,
+      isCounted,
+      grade: grade ? { points: grade.points, latePenaltyPercent: grade.latePenaltyPercent } : null,
+      rubric_scores: isCounted && grade ? grade.rubric_scores : []
+    })
   } catch (error) {
     console.error('Error fetching grade:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -72,9 +209,9 @@ export async function POST(
     }
 
     const { id, submissionId } = await params
-    const { points, feedback } = await request.json()
+    const { points, feedback, rubricScores } = await request.json()
 
-    if (points === undefined || points === null) {
+    if (rubricScores === undefined && (points === undefined || points === null)) {
       return NextResponse.json({ error: 'Points are required' }, { status: 400 })
     }
 
@@ -101,7 +238,17 @@ export async function POST(
       return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
     }
 
-    const pointsValue = parseFloat(points)
+    // With a rubric, the grade is the sum of the criterion scores
+    let rubricResult: { scores: ResolvedRubricScore[]; totalPoints: number } | null = null
+    if (rubricScores !== undefined) {
+      const resolved = await resolveRubricScores(assignment.rubricId, rubricScores)
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 })
+      }
+      rubricResult = resolved
+    }
+
+    const pointsValue = rubricResult ? rubricResult.totalPoints : parseFloat(points)
     if (isNaN(pointsValue) || pointsValue < 0 || pointsValue > assignment.maxPoints) {
       return NextResponse.json(
         { error: `Points must be between 0 and ${assignment.maxPoints}` },
@@ -109,29 +256,24 @@ export async function POST(
       )
     }
 
-    // Check if grade already exists
-    const existingGrade = await prisma.grades.findUnique({
-      where: {
-        assignmentId_studentId: {
-          assignmentId: id,
-          studentId: submission.studentId
-        }
-      }
-    })
-
-    if (existingGrade) {
+    if (submission.points !== null) {
       return NextResponse.json({ error: 'Grade already exists' }, { status: 400 })
     }
 
-    const grade = await prisma.grades.create({
-      data: {
-        id: randomUUID(),
-        points: pointsValue,
-        feedback: feedback || null,
-        assignmentId: id,
-        studentId: submission.studentId,
-        gradedById: session.user.id
-      }
+    const grade = await saveAttemptGrade({
+      assignmentId: id,
+      submissionId,
+      studentId: submission.studentId,
+      gradedById: session.user.id,
+      points: pointsValue,
+      feedback: feedback || null,
+      rubricResult
+    })
+
+    await notifyGradePosted({
+      studentIds: [submission.studentId],
+      assignment,
+      actorId: session.user.id
     })
 
     return NextResponse.json(grade, { status: 201 })
@@ -153,9 +295,13 @@ export async function PUT(
     }
 
     const { id, submissionId } = await params
-    const { points, feedback } = await request.json()
+    const { points, feedback, rubricScores, reason } = await request.json()
+
+    if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 500)) {
+      return NextResponse.json({ error: 'Reason must be 500 characters or less' }, { status: 400 })
+    }
 
-    if (points === undefined || points === null) {
+    if (rubricScores === undefined && (points === undefined || points === null)) {
       return NextResponse.json({ error: 'Points are required' }, { status: 400 })
     }
 
@@ -182,7 +328,21 @@ export async function PUT(
       return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
     }
 
-    const pointsValue = parseFloat(points)
+    if (submission.points === null) {
+      return NextResponse.json({ error: 'Grade not found' }, { status: 404 })
+    }
+
+    // With a rubric, the grade is the sum of the criterion scores
+    let rubricResult: { scores: ResolvedRubricScore[]; totalPoints: number } | null = null
+    if (rubricScores !== undefined) {
+      const resolved = await resolveRubricScores(assignment.rubricId, rubricScores)
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 400 })
+      }
+      rubricResult = resolved
+    }
+
+    const pointsValue = rubricResult ? rubricResult.totalPoints : parseFloat(points)
     if (isNaN(pointsValue) || pointsValue < 0 || pointsValue > assignment.maxPoints) {
       return NextResponse.json(
         { error: `Points must be between 0 and ${assignment.maxPoints}` },
@@ -190,18 +350,21 @@ export async function PUT(
       )
     }
 
-    const grade = await prisma.grades.update({
-      where: {
-        assignmentId_studentId: {
-          assignmentId: id,
-          studentId: submission.studentId
-        }
-      },
-      data: {
-        points: pointsValue,
-        feedback: feedback || null,
-        gradedAt: new Date()
-      }
+    const grade = await saveAttemptGrade({
+      assignmentId: id,
+      submissionId,
+      studentId: submission.studentId,
+      gradedById: session.user.id,
+      points: pointsValue,
+      feedback: feedback || null,
+      reason: reason?.trim() || null,
+      rubricResult
+    })
+
+    await notifyGradePosted({
+      studentIds: [submission.studentId],
+      assignment,
+      actorId: session.user.id
     })
 
     return NextResponse.json(grade)
@@ -48,7 +48,47 @@ export async function GET(
       return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
     }
 
-    return NextResponse.json(submission)
+    // Attempt timeline for this student, with the attempt the grade is based on
+    const [attempts, grade] = await Promise.all([
+      prisma.submissions.findMany({
+        where: {
+          assignmentId: id,
+          studentId: submission.studentId
+        },
+        select: {
+          id: true,
+          attemptNumber: true,
+          submittedAt: true,
+          fileUrl: true,
+          points: true,
+          gradedAt: true
+        },
+        orderBy: {
+          attemptNumber: 'desc'
+        }
+      }),
+      prisma.grades.findUnique({
+        where: {
+          assignmentId_studentId: {
+            assignmentId: id,
+            studentId: submission.studentId
+          }
+        },
+        select: {
+          submissionId: true
+        }
+      })
+    ])
+
+    return NextResponse.json({
+      ...submission,
+      maxAttempts: assignment.maxAttempts,
+      gradedAttemptPolicy: assignment.gradedAttemptPolicy,
+      attempts: attempts.map((attempt) => ({
+        ...attempt,
+        isCounted: attempt.id === grade?.submissionId
+      }))
+    })
   } catch (error) {
     console.error('Error fetching submission:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
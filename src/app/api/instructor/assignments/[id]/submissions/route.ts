@@ -53,9 +53,20 @@ export async function GET(
       }
     })
 
+    // One row per student: their latest attempt, with the attempt count
+    const latestAttempts = new Map<string, (typeof submissions)[number]>()
+    const attemptCounts = new Map<string, number>()
+    for (const submission of submissions) {
+      attemptCounts.set(submission.studentId, (attemptCounts.get(submission.studentId) ?? 0) + 1)
+      const latest = latestAttempts.get(submission.studentId)
+      if (!latest || submission.attemptNumber > latest.attemptNumber) {
+        latestAttempts.set(submission.studentId, submission)
+      }
+    }
+
     // Get grades for these submissions
     const submissionsWithGrades = await Promise.all(
-      submissions.map(async (submission) => {
+      Array.from(latestAttempts.values()).map(async (submission) => {
         const grade = await prisma.grades.findUnique({
           where: {
             assignmentId_studentId: {
@@ -66,6 +77,7 @@ export async function GET(
         })
         return {
           ...submission,
+          attemptCount: attemptCounts.get(submission.studentId) ?? 1,
           grade
         }
       })
@@ -13,7 +13,11 @@ export async function GET() {
 
     const assignments = await prisma.assignments.findMany({
       where: {
-        createdById: session.user.id
+        createdById: session.user.id,
+        // Quiz-, SCORM- and discussion-backed assignments are managed through course content and discussions
+        quizzes: { is: null },
+        scorm_packages: { is: null },
+        discussions: { is: null }
       },
       include: {
         courses: {
@@ -24,7 +28,7 @@ export async function GET() {
         },
         _count: {
           select: {
-            submissions: true
+            submissions: { where: { attemptNumber: 1 } }
           }
         }
       },
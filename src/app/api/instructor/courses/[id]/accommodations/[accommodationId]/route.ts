@@ -0,0 +1,71 @@
+/**
+ * Course Accommodation Detail API Route
+ * DELETE /api/instructor/courses/[id]/accommodations/[accommodationId] - Revoke an accommodation
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+
+interface RouteParams {
+  params: Promise<{ id: string; accommodationId: string }>
+}
+
+/**
+ * DELETE /api/instructor/courses/[id]/accommodations/[accommodationId]
+ * Revoke an accommodation; the student falls back to regular due dates
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, accommodationId } = await params
+
+    const accommodation = await prisma.course_accommodations.findFirst({
+      where: {
+        id: accommodationId,
+        courseId: id,
+        courses: {
+          ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+          ...notDeleted,
+        },
+      },
+      select: { id: true },
+    })
+
+    if (!accommodation) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Accommodation not found' } },
+        { status: 404 }
+      )
+    }
+
+    await prisma.course_accommodations.delete({
+      where: { id: accommodationId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Accommodations API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
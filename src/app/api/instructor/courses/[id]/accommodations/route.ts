@@ -0,0 +1,175 @@
+/**
+ * Course Accommodations API Route
+ * GET  /api/instructor/courses/[id]/accommodations - List accommodations for a course
+ * POST /api/instructor/courses/[id]/accommodations - Grant or replace a student's accommodation
+ *
+ * An accommodation extends every assignment in the course for one student
+ * (e.g. "+50% time on everything"). Per-assignment extensions take precedence.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { courseAccommodationSchema } from '@/validators/extension'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/instructor/courses/[id]/accommodations
+ * List all accommodations in a course
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const accommodations = await prisma.course_accommodations.findMany({
+      where: { courseId: id },
+      include: {
+        users_course_accommodations_studentIdTousers: {
+          select: { id: true, name: true, surname: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({
+      accommodations: accommodations.map(({ users_course_accommodations_studentIdTousers: student, ...accommodation }) => ({
+        ...accommodation,
+        student,
+      })),
+    })
+  } catch (error) {
+    console.error('[Accommodations API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/courses/[id]/accommodations
+ * Grant an accommodation to an enrolled student, replacing any existing one
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, courseAccommodationSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { studentId, extraTimePercent, extraHours, reason } = validation.data
+
+    const enrollment = await prisma.enrollments.findUnique({
+      where: { userId_courseId: { userId: studentId, courseId: id } },
+      select: { id: true },
+    })
+
+    if (!enrollment) {
+      return createCustomValidationError('Student is not enrolled in this course', [
+        { path: 'studentId', message: 'Student is not enrolled in this course' },
+      ])
+    }
+
+    const accommodation = await prisma.course_accommodations.upsert({
+      where: { courseId_studentId: { courseId: id, studentId } },
+      create: {
+        id: randomUUID(),
+        courseId: id,
+        studentId,
+        extraTimePercent,
+        extraHours,
+        reason: reason || null,
+        grantedById: session.user.id,
+        updatedAt: new Date(),
+      },
+      update: {
+        extraTimePercent,
+        extraHours,
+        reason: reason || null,
+        grantedById: session.user.id,
+        updatedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ accommodation }, { status: 201 })
+  } catch (error) {
+    console.error('[Accommodations API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
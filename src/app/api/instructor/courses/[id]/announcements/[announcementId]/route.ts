@@ -3,6 +3,10 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { softDelete, notDeleted } from '@/lib/soft-delete'
+import { applyPublishWindowUpdate, isWithinPublishWindow, validatePublishWindow } from '@/lib/publishing'
+import { notifyAnnouncement } from '@/lib/announcement-notifications'
+import { findCourseSection } from '@/lib/sections'
+import { publishScheduleSchema } from '@/validators/publishing'
 
 export async function GET(
   request: NextRequest,
@@ -47,6 +51,12 @@ export async function GET(
             title: true,
             code: true
           }
+        },
+        course_sections: {
+          select: {
+            id: true,
+            name: true
+          }
         }
       }
     })
@@ -86,7 +96,17 @@ export async function PUT(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 })
     }
 
-    const { title, content } = await request.json()
+    const { title, content, publishAt, unpublishAt, sectionId } = await request.json()
+
+    // An announcement for one section is only shown to its students
+    if (sectionId && !(await findCourseSection(id, sectionId))) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 400 })
+    }
+
+    const schedule = publishScheduleSchema.safeParse({ publishAt, unpublishAt })
+    if (!schedule.success) {
+      return NextResponse.json({ error: schedule.error.issues[0].message }, { status: 400 })
+    }
 
     const announcement = await prisma.announcements.findUnique({
       where: {
@@ -103,13 +123,22 @@ export async function PUT(
       return NextResponse.json({ error: 'You can only edit your own announcements' }, { status: 403 })
     }
 
+    const publishWindow = applyPublishWindowUpdate(schedule.data, announcement)
+    const windowError = validatePublishWindow(publishWindow)
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 })
+    }
+
     const updatedAnnouncement = await prisma.announcements.update({
       where: {
         id: announcementId
       },
       data: {
         title: title || announcement.title,
-        content: content || announcement.content
+        content: content || announcement.content,
+        ...publishWindow,
+        // Omitted keeps the audience; null makes it course-wide
+        ...(sectionId !== undefined && { sectionId: sectionId || null })
       },
       include: {
         users: {
@@ -118,10 +147,22 @@ export async function PUT(
             name: true,
             email: true
           }
+        },
+        course_sections: {
+          select: {
+            id: true,
+            name: true
+          }
         }
       }
     })
 
+    // Publishing a scheduled announcement early announces it now; one that
+    // was already announced is not announced again
+    if (isWithinPublishWindow(updatedAnnouncement)) {
+      await notifyAnnouncement({ ...updatedAnnouncement, courses: { code: course.code } })
+    }
+
     return NextResponse.json(updatedAnnouncement)
   } catch (error) {
     console.error('Error updating announcement:', error)
@@ -170,7 +211,12 @@ export async function DELETE(
     }
 
     // Soft delete announcement
-    await softDelete(prisma.announcements, announcementId)
+    await softDelete(prisma.announcements, announcementId, {
+      actor: session.user,
+      action: 'announcement_deleted',
+      targetType: 'announcement',
+      details: { courseId: id },
+    })
 
     return NextResponse.json({ message: 'Announcement archived successfully' })
   } catch (error) {
@@ -3,6 +3,10 @@ import { getServerSession } from 'next-auth'
 import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { notifyAnnouncement } from '@/lib/announcement-notifications'
+import { applyPublishWindowUpdate, isWithinPublishWindow, validatePublishWindow } from '@/lib/publishing'
+import { findCourseSection } from '@/lib/sections'
+import { publishScheduleSchema } from '@/validators/publishing'
 
 export async function GET(
   request: NextRequest,
@@ -46,6 +50,12 @@ export async function GET(
             title: true,
             code: true
           }
+        },
+        course_sections: {
+          select: {
+            id: true,
+            name: true
+          }
         }
       },
       orderBy: {
@@ -84,7 +94,7 @@ export async function POST(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 })
     }
 
-    const { title, content } = await request.json()
+    const { title, content, publishAt, unpublishAt, sectionId } = await request.json()
 
     if (!title || !content) {
       return NextResponse.json(
@@ -93,13 +103,31 @@ export async function POST(
       )
     }
 
+    // An announcement for one section is only shown to its students
+    if (sectionId && !(await findCourseSection(id, sectionId))) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 400 })
+    }
+
+    const schedule = publishScheduleSchema.safeParse({ publishAt, unpublishAt })
+    if (!schedule.success) {
+      return NextResponse.json({ error: schedule.error.issues[0].message }, { status: 400 })
+    }
+
+    const publishWindow = applyPublishWindowUpdate(schedule.data)
+    const windowError = validatePublishWindow(publishWindow)
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 })
+    }
+
     const announcement = await prisma.announcements.create({
       data: {
         id: randomUUID(),
         title: title.trim(),
         content: content.trim(),
+        ...publishWindow,
         courseId: id,
-        authorId: session.user.id
+        authorId: session.user.id,
+        sectionId: sectionId || null
       },
       include: {
         users: {
@@ -108,10 +136,21 @@ export async function POST(
             name: true,
             email: true
           }
+        },
+        course_sections: {
+          select: {
+            id: true,
+            name: true
+          }
         }
       }
     })
 
+    // Students are told about a scheduled announcement once its window opens
+    if (isWithinPublishWindow(announcement)) {
+      await notifyAnnouncement({ ...announcement, courses: { code: course.code } })
+    }
+
     return NextResponse.json(announcement, { status: 201 })
   } catch (error) {
     console.error('Error creating announcement:', error)
@@ -3,6 +3,10 @@ import { getServerSession } from 'next-auth'
 import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { latePolicySchema, attemptSettingsSchema } from '@/validators/assignment'
+import { publishScheduleSchema } from '@/validators/publishing'
+import { applyPublishWindowUpdate, validatePublishWindow } from '@/lib/publishing'
 
 export async function GET(
   request: NextRequest,
@@ -31,12 +35,16 @@ export async function GET(
 
     const assignments = await prisma.assignments.findMany({
       where: {
-        courseId: id
+        courseId: id,
+        // Quiz-, SCORM- and discussion-backed assignments are managed through course content and discussions
+        quizzes: { is: null },
+        scorm_packages: { is: null },
+        discussions: { is: null }
       },
       include: {
         _count: {
           select: {
-            submissions: true
+            submissions: { where: { attemptNumber: 1 } }
           }
         }
       },
@@ -77,7 +85,8 @@ export async function POST(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 })
     }
 
-    const { title, description, dueDate, maxPoints, isPublished } = await request.json()
+    const body = await request.json()
+    const { title, description, dueDate, maxPoints, isPublished, isRequired, isGroupAssignment, categoryId, rubricId } = body
 
     if (!title || maxPoints === undefined) {
       return NextResponse.json(
@@ -86,6 +95,64 @@ export async function POST(
       )
     }
 
+    const latePolicyValidation = latePolicySchema.safeParse(body)
+    if (!latePolicyValidation.success) {
+      return NextResponse.json({ error: latePolicyValidation.error.issues[0].message }, { status: 400 })
+    }
+
+    const { latePolicy, lateGraceMinutes, latePenaltyPerDay, lateCutoffAt } = latePolicyValidation.data
+
+    const attemptSettingsValidation = attemptSettingsSchema.safeParse(body)
+    if (!attemptSettingsValidation.success) {
+      return NextResponse.json({ error: attemptSettingsValidation.error.issues[0].message }, { status: 400 })
+    }
+
+    const { maxAttempts, gradedAttemptPolicy } = attemptSettingsValidation.data
+
+    const scheduleValidation = publishScheduleSchema.safeParse(body)
+    if (!scheduleValidation.success) {
+      return NextResponse.json({ error: scheduleValidation.error.issues[0].message }, { status: 400 })
+    }
+
+    const publishWindow = applyPublishWindowUpdate(scheduleValidation.data)
+    const windowError = validatePublishWindow(publishWindow)
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 })
+    }
+
+    if (lateCutoffAt && dueDate && new Date(lateCutoffAt) <= new Date(dueDate)) {
+      return NextResponse.json({ error: 'Late submission cutoff must be after the due date' }, { status: 400 })
+    }
+
+    // Grade category must belong to this course
+    if (categoryId) {
+      const category = await prisma.grade_categories.findFirst({
+        where: {
+          id: categoryId,
+          courseId: id
+        }
+      })
+
+      if (!category) {
+        return NextResponse.json({ error: 'Grade category not found' }, { status: 400 })
+      }
+    }
+
+    // Rubric must be one of the instructor's own rubrics
+    if (rubricId) {
+      const rubric = await prisma.rubrics.findFirst({
+        where: {
+          id: rubricId,
+          instructorId: session.user.id,
+          ...notDeleted
+        }
+      })
+
+      if (!rubric) {
+        return NextResponse.json({ error: 'Rubric not found' }, { status: 400 })
+      }
+    }
+
     const assignment = await prisma.assignments.create({
       data: {
         id: randomUUID(),
@@ -94,6 +161,17 @@ export async function POST(
         dueDate: dueDate ? new Date(dueDate) : null,
         maxPoints: parseInt(maxPoints),
         isPublished: Boolean(isPublished),
+        isRequired: isRequired !== false,
+        isGroupAssignment: Boolean(isGroupAssignment),
+        ...publishWindow,
+        categoryId: categoryId || null,
+        rubricId: rubricId || null,
+        latePolicy,
+        lateGraceMinutes,
+        latePenaltyPerDay,
+        lateCutoffAt: lateCutoffAt ? new Date(lateCutoffAt) : null,
+        maxAttempts,
+        gradedAttemptPolicy,
         courseId: id,
         createdById: session.user.id,
         updatedAt: new Date()
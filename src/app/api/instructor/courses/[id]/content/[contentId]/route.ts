@@ -3,6 +3,26 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { softDelete, notDeleted } from '@/lib/soft-delete'
+import {
+  checkQuizQuestionBank,
+  formatQuizSettings,
+  quizSettingsInclude,
+  updateQuizForContent
+} from '@/lib/quiz'
+import {
+  ScormPackageError,
+  createScormForContent,
+  formatScormSettings,
+  scormSettingsInclude,
+  updateScormForContent
+} from '@/lib/scorm'
+import { unpackScormPackage } from '@/lib/scorm-packages'
+import { applyPublishWindowUpdate, validatePublishWindow } from '@/lib/publishing'
+import { quizSettingsSchema, QuizSettingsInput } from '@/validators/quiz'
+import { scormSettingsSchema, ScormSettingsInput } from '@/validators/scorm'
+import { publishScheduleSchema } from '@/validators/publishing'
+
+const contentInclude = { ...quizSettingsInclude, ...scormSettingsInclude }
 
 export async function GET(
   request: NextRequest,
@@ -32,14 +52,20 @@ export async function GET(
       where: {
         id: contentId,
         courseId: id
-      }
+      },
+      include: contentInclude
     })
 
     if (!content) {
       return NextResponse.json({ error: 'Content not found' }, { status: 404 })
     }
 
-    return NextResponse.json(content)
+    const { quizzes, scorm_packages, ...item } = content
+    return NextResponse.json({
+      ...item,
+      quiz: formatQuizSettings(quizzes),
+      scorm: formatScormSettings(scorm_packages)
+    })
   } catch (error) {
     console.error('Error fetching content:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -70,12 +96,34 @@ export async function PUT(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 })
     }
 
-    const { title, type, content, fileUrl, thumbnailUrl, isPublished, orderIndex } = await request.json()
+    const {
+      title,
+      type,
+      content,
+      fileUrl,
+      thumbnailUrl,
+      isPublished,
+      isRequired,
+      publishAt,
+      unpublishAt,
+      orderIndex,
+      quiz,
+      scorm
+    } = await request.json()
+
+    const schedule = publishScheduleSchema.safeParse({ publishAt, unpublishAt })
+    if (!schedule.success) {
+      return NextResponse.json({ error: schedule.error.issues[0].message }, { status: 400 })
+    }
 
     const existingContent = await prisma.course_content.findUnique({
       where: {
         id: contentId,
         courseId: id
+      },
+      include: {
+        quizzes: { select: { id: true, assignmentId: true } },
+        scorm_packages: { select: { id: true, assignmentId: true, packageKey: true } }
       }
     })
 
@@ -83,22 +131,112 @@ export async function PUT(
       return NextResponse.json({ error: 'Content not found' }, { status: 404 })
     }
 
-    const updatedContent = await prisma.course_content.update({
-      where: {
-        id: contentId
-      },
-      data: {
-        title: title || existingContent.title,
-        type: type || existingContent.type,
-        content: content !== undefined ? content : existingContent.content,
-        fileUrl: fileUrl !== undefined ? fileUrl : existingContent.fileUrl,
-        thumbnailUrl: thumbnailUrl !== undefined ? thumbnailUrl : existingContent.thumbnailUrl,
-        isPublished: isPublished !== undefined ? isPublished : existingContent.isPublished,
-        orderIndex: orderIndex !== undefined ? orderIndex : existingContent.orderIndex
+    const publishWindow = applyPublishWindowUpdate(schedule.data, existingContent)
+    const windowError = validatePublishWindow(publishWindow)
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 })
+    }
+
+    // A quiz owns a backing assignment, so content cannot change to or from QUIZ
+    if (type && (type === 'QUIZ') !== (existingContent.type === 'QUIZ')) {
+      return NextResponse.json(
+        { error: 'Quizzes cannot be converted to or from other content types' },
+        { status: 400 }
+      )
+    }
+
+    let quizSettings: QuizSettingsInput | undefined
+    if (existingContent.quizzes && quiz !== undefined) {
+      const parsed = quizSettingsSchema.safeParse(quiz)
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+      }
+
+      const bankError = await checkQuizQuestionBank(prisma, parsed.data.bankId, session.user.id)
+      if (bankError) {
+        return NextResponse.json({ error: bankError }, { status: 400 })
+      }
+      quizSettings = parsed.data
+    }
+
+    // An unpacked SCORM package may own a backing assignment, so it stays SCORM
+    if (existingContent.scorm_packages && type && type !== 'SCORM') {
+      return NextResponse.json(
+        { error: 'SCORM packages cannot be converted to other content types' },
+        { status: 400 }
+      )
+    }
+
+    let scormSettings: ScormSettingsInput | undefined
+    let scormPackage: Awaited<ReturnType<typeof unpackScormPackage>> | undefined
+    if ((type || existingContent.type) === 'SCORM' && scorm !== undefined) {
+      const parsed = scormSettingsSchema.safeParse(scorm)
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
       }
+      scormSettings = parsed.data
+
+      const { packageKey } = parsed.data
+      if (packageKey && packageKey !== existingContent.scorm_packages?.packageKey) {
+        if (!packageKey.startsWith(`courses/${session.user.id}/`)) {
+          return NextResponse.json({ error: 'SCORM package not found' }, { status: 400 })
+        }
+
+        try {
+          scormPackage = await unpackScormPackage(packageKey)
+        } catch (error) {
+          if (error instanceof ScormPackageError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+          }
+          throw error
+        }
+      }
+    }
+
+    const updatedContent = await prisma.$transaction(async (tx) => {
+      const updated = await tx.course_content.update({
+        where: {
+          id: contentId
+        },
+        data: {
+          title: title || existingContent.title,
+          type: type || existingContent.type,
+          content: content !== undefined ? content : existingContent.content,
+          fileUrl: fileUrl !== undefined ? fileUrl : existingContent.fileUrl,
+          ...(scormPackage && { s3Key: scormPackage.packageKey }),
+          thumbnailUrl: thumbnailUrl !== undefined ? thumbnailUrl : existingContent.thumbnailUrl,
+          isPublished: isPublished !== undefined ? isPublished : existingContent.isPublished,
+          isRequired: isRequired !== undefined ? Boolean(isRequired) : existingContent.isRequired,
+          ...publishWindow,
+          orderIndex: orderIndex !== undefined ? orderIndex : existingContent.orderIndex
+        }
+      })
+
+      if (existingContent.quizzes) {
+        await updateQuizForContent(tx, existingContent.quizzes, updated, quizSettings)
+      }
+
+      if (existingContent.scorm_packages) {
+        await updateScormForContent(tx, existingContent.scorm_packages, updated, session.user.id, {
+          unpacked: scormPackage,
+          maxPoints: scormSettings?.maxPoints
+        })
+      } else if (scormPackage) {
+        await createScormForContent(tx, updated, session.user.id, scormPackage, scormSettings?.maxPoints ?? null)
+      }
+
+      return tx.course_content.findUniqueOrThrow({
+        where: { id: contentId },
+        include: contentInclude
+      })
     })
 
-    return NextResponse.json(updatedContent)
+    const { quizzes, scorm_packages, ...item } = updatedContent
+    return NextResponse.json({
+      ...item,
+      quiz: formatQuizSettings(quizzes),
+      scorm: formatScormSettings(scorm_packages)
+    })
   } catch (error) {
     console.error('Error updating content:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -134,6 +272,10 @@ export async function DELETE(
         id: contentId,
         courseId: id,
         ...notDeleted,
+      },
+      include: {
+        quizzes: { select: { assignmentId: true } },
+        scorm_packages: { select: { assignmentId: true } }
       }
     })
 
@@ -141,8 +283,17 @@ export async function DELETE(
       return NextResponse.json({ error: 'Content not found or has been archived' }, { status: 404 })
     }
 
-    // Soft delete content
-    await softDelete(prisma.course_content, contentId)
+    // Soft delete content (and a quiz's or SCORM package's backing assignment, so it leaves the gradebook)
+    await softDelete(prisma.course_content, contentId, {
+      actor: session.user,
+      action: 'content_deleted',
+      targetType: 'courseContent',
+      details: { courseId: id, contentTitle: content.title, contentType: content.type },
+    })
+    const backingAssignmentId = content.quizzes?.assignmentId ?? content.scorm_packages?.assignmentId
+    if (backingAssignmentId) {
+      await softDelete(prisma.assignments, backingAssignmentId)
+    }
 
     return NextResponse.json({ message: 'Content archived successfully' })
   } catch (error) {
@@ -3,6 +3,25 @@ import { getServerSession } from 'next-auth'
 import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import {
+  checkQuizQuestionBank,
+  createQuizForContent,
+  formatQuizSettings,
+  quizSettingsInclude
+} from '@/lib/quiz'
+import {
+  ScormPackageError,
+  createScormForContent,
+  formatScormSettings,
+  scormSettingsInclude
+} from '@/lib/scorm'
+import { unpackScormPackage } from '@/lib/scorm-packages'
+import { applyPublishWindowUpdate, validatePublishWindow } from '@/lib/publishing'
+import { quizSettingsSchema, QuizSettingsInput } from '@/validators/quiz'
+import { scormSettingsSchema } from '@/validators/scorm'
+import { publishScheduleSchema } from '@/validators/publishing'
+
+const contentInclude = { ...quizSettingsInclude, ...scormSettingsInclude }
 
 export async function GET(
   request: NextRequest,
@@ -32,12 +51,19 @@ export async function GET(
       where: {
         courseId: id
       },
+      include: contentInclude,
       orderBy: {
         orderIndex: 'asc'
       }
     })
 
-    return NextResponse.json(content)
+    return NextResponse.json(
+      content.map(({ quizzes, scorm_packages, ...item }) => ({
+        ...item,
+        quiz: formatQuizSettings(quizzes),
+        scorm: formatScormSettings(scorm_packages)
+      }))
+    )
   } catch (error) {
     console.error('Error fetching course content:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -68,7 +94,20 @@ export async function POST(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 })
     }
 
-    const { title, type, content, fileUrl, thumbnailUrl, isPublished, moduleId } = await request.json()
+    const {
+      title,
+      type,
+      content,
+      fileUrl,
+      thumbnailUrl,
+      isPublished,
+      isRequired,
+      publishAt,
+      unpublishAt,
+      moduleId,
+      quiz,
+      scorm
+    } = await request.json()
 
     if (!title || !type) {
       return NextResponse.json(
@@ -77,6 +116,58 @@ export async function POST(
       )
     }
 
+    const schedule = publishScheduleSchema.safeParse({ publishAt, unpublishAt })
+    if (!schedule.success) {
+      return NextResponse.json({ error: schedule.error.issues[0].message }, { status: 400 })
+    }
+
+    const publishWindow = applyPublishWindowUpdate(schedule.data)
+    const windowError = validatePublishWindow(publishWindow)
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 })
+    }
+
+    // Quizzes are created together with their settings and backing assignment
+    let quizSettings: QuizSettingsInput | null = null
+    if (type === 'QUIZ') {
+      const parsed = quizSettingsSchema.safeParse(quiz ?? {})
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+      }
+
+      const bankError = await checkQuizQuestionBank(prisma, parsed.data.bankId, session.user.id)
+      if (bankError) {
+        return NextResponse.json({ error: bankError }, { status: 400 })
+      }
+      quizSettings = parsed.data
+    }
+
+    // Uploaded SCORM packages are unpacked to R2 before the content is created
+    let scormPackage: Awaited<ReturnType<typeof unpackScormPackage>> | null = null
+    let scormMaxPoints: number | null = null
+    if (type === 'SCORM' && scorm) {
+      const parsed = scormSettingsSchema.safeParse(scorm)
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+      }
+
+      if (parsed.data.packageKey) {
+        if (!parsed.data.packageKey.startsWith(`courses/${session.user.id}/`)) {
+          return NextResponse.json({ error: 'SCORM package not found' }, { status: 400 })
+        }
+
+        try {
+          scormPackage = await unpackScormPackage(parsed.data.packageKey)
+        } catch (error) {
+          if (error instanceof ScormPackageError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+          }
+          throw error
+        }
+      }
+      scormMaxPoints = parsed.data.maxPoints ?? null
+    }
+
     // Get the next order index
     const lastContent = await prisma.course_content.findFirst({
       where: { courseId: id },
@@ -85,22 +176,45 @@ export async function POST(
 
     const orderIndex = (lastContent?.orderIndex || 0) + 1
 
-    const newContent = await prisma.course_content.create({
-      data: {
-        id: randomUUID(),
-        title,
-        type,
-        content,
-        fileUrl,
-        thumbnailUrl,
-        orderIndex,
-        isPublished: isPublished || false,
-        courseId: id,
-        moduleId: moduleId || null
+    const newContent = await prisma.$transaction(async (tx) => {
+      const created = await tx.course_content.create({
+        data: {
+          id: randomUUID(),
+          title,
+          type,
+          content,
+          fileUrl,
+          s3Key: scormPackage?.packageKey,
+          thumbnailUrl,
+          orderIndex,
+          isPublished: isPublished || false,
+          isRequired: isRequired !== false,
+          ...publishWindow,
+          courseId: id,
+          moduleId: moduleId || null
+        }
+      })
+
+      if (quizSettings) {
+        await createQuizForContent(tx, created, session.user.id, quizSettings)
       }
+
+      if (scormPackage) {
+        await createScormForContent(tx, created, session.user.id, scormPackage, scormMaxPoints)
+      }
+
+      return tx.course_content.findUniqueOrThrow({
+        where: { id: created.id },
+        include: contentInclude
+      })
     })
 
-    return NextResponse.json(newContent)
+    const { quizzes, scorm_packages, ...createdContent } = newContent
+    return NextResponse.json({
+      ...createdContent,
+      quiz: formatQuizSettings(quizzes),
+      scorm: formatScormSettings(scorm_packages)
+    })
   } catch (error) {
     console.error('Error creating course content:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { recordAuditLog } from '@/lib/audit-log'
+import { copyCourse } from '@/lib/course-copy'
+import { copyCourseSchema } from '@/validators/course'
+
+/**
+ * POST /api/instructor/courses/[id]/copy
+ *
+ * Copy one of the instructor's courses into a new course for another term.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validation = copyCourseSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validation.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        instructorId: session.user.id,
+        ...notDeleted
+      },
+      select: { id: true, code: true }
+    })
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const existingCourse = await prisma.courses.findUnique({
+      where: { code: validation.data.code }
+    })
+
+    if (existingCourse) {
+      return NextResponse.json(
+        { error: 'Course code already exists' },
+        { status: 400 }
+      )
+    }
+
+    const copy = await copyCourse(id, {
+      ...validation.data,
+      instructorId: session.user.id
+    })
+
+    if (!copy) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_copied',
+      targetType: 'course',
+      targetId: copy.courseId,
+      details: {
+        sourceCourseId: id,
+        sourceCourseCode: course.code,
+        courseCode: validation.data.code,
+        dateOffsetDays: validation.data.dateOffsetDays,
+        ...copy.summary
+      }
+    })
+
+    return NextResponse.json({ id: copy.courseId, summary: copy.summary }, { status: 201 })
+  } catch (error) {
+    console.error('Error copying course:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notifyUsers } from '@/lib/notifications'
+import {
+  discussionGradingInclude,
+  evaluateParticipation,
+  formatDiscussionGrading,
+  gradeDiscussionParticipation
+} from '@/lib/discussion-grading'
+import { discussionParticipationGradeSchema } from '@/validators/discussion'
+
+async function findGradedDiscussion(courseId: string, discussionId: string, instructorId: string) {
+  const course = await prisma.courses.findUnique({
+    where: {
+      id: courseId,
+      instructorId
+    }
+  })
+
+  if (!course) {
+    return { error: NextResponse.json({ error: 'Course not found' }, { status: 404 }) }
+  }
+
+  const discussion = await prisma.discussions.findUnique({
+    where: {
+      id: discussionId,
+      courseId
+    },
+    include: discussionGradingInclude
+  })
+
+  if (!discussion) {
+    return { error: NextResponse.json({ error: 'Discussion not found' }, { status: 404 }) }
+  }
+
+  const grading = formatDiscussionGrading(discussion)
+
+  if (!grading) {
+    return { error: NextResponse.json({ error: 'This discussion is not graded' }, { status: 400 }) }
+  }
+
+  return { discussion, grading }
+}
+
+// Lists each enrolled student's posts, participation and grade for a graded discussion
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId } = await params
+
+    const found = await findGradedDiscussion(id, discussionId, session.user.id)
+    if (found.error) {
+      return found.error
+    }
+
+    const { discussion, grading } = found
+
+    const [enrollments, posts, grades] = await Promise.all([
+      prisma.enrollments.findMany({
+        where: {
+          courseId: id
+        },
+        include: {
+          users: {
+            select: {
+              id: true,
+              name: true,
+              surname: true,
+              email: true
+            }
+          }
+        }
+      }),
+      prisma.discussion_posts.findMany({
+        where: {
+          discussionId,
+          deletedAt: null
+        },
+        select: {
+          id: true,
+          content: true,
+          parentId: true,
+          createdAt: true,
+          authorId: true
+        },
+        orderBy: {
+          createdAt: 'asc'
+        }
+      }),
+      prisma.grades.findMany({
+        where: {
+          assignmentId: grading.assignmentId,
+          deletedAt: null
+        },
+        select: {
+          studentId: true,
+          points: true,
+          feedback: true
+        }
+      })
+    ])
+
+    const students = enrollments
+      .map(({ users: student }) => {
+        const studentPosts = posts.filter((post) => post.authorId === student.id)
+        const grade = grades.find((g) => g.studentId === student.id)
+
+        return {
+          ...student,
+          posts: studentPosts.map(({ authorId, ...post }) => post),
+          participation: evaluateParticipation(studentPosts, grading, grading.dueDate),
+          grade: grade ? { points: grade.points, feedback: grade.feedback } : null
+        }
+      })
+      .sort((a, b) => `${a.surname} ${a.name}`.localeCompare(`${b.surname} ${b.name}`))
+
+    return NextResponse.json({
+      discussion: {
+        id: discussion.id,
+        title: discussion.title
+      },
+      grading,
+      students
+    })
+  } catch (error) {
+    console.error('Error fetching discussion grading:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Grades one student's participation in a graded discussion
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId } = await params
+
+    const found = await findGradedDiscussion(id, discussionId, session.user.id)
+    if (found.error) {
+      return found.error
+    }
+
+    const { discussion, grading } = found
+
+    const parsed = discussionParticipationGradeSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    const { studentId, points, feedback } = parsed.data
+
+    if (points > grading.maxPoints) {
+      return NextResponse.json({ error: `Points cannot exceed ${grading.maxPoints}` }, { status: 400 })
+    }
+
+    const enrollment = await prisma.enrollments.findUnique({
+      where: {
+        userId_courseId: {
+          userId: studentId,
+          courseId: id
+        }
+      }
+    })
+
+    if (!enrollment) {
+      return NextResponse.json({ error: 'Student is not enrolled in this course' }, { status: 404 })
+    }
+
+    const grade = await prisma.$transaction((tx) =>
+      gradeDiscussionParticipation(
+        {
+          assignmentId: grading.assignmentId,
+          studentId,
+          points,
+          feedback,
+          gradedById: session.user.id
+        },
+        tx
+      )
+    )
+
+    await notifyUsers({
+      userIds: [studentId],
+      type: 'GRADE_POSTED',
+      title: `Your grade for ${discussion.title} has been posted`,
+      link: `/courses/${id}/discussions/${discussionId}`,
+      courseId: id,
+      actorId: session.user.id
+    })
+
+    return NextResponse.json({
+      studentId,
+      grade: grade ? { points: grade.points, feedback: grade.feedback } : null
+    })
+  } catch (error) {
+    console.error('Error grading discussion participation:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+// Lists a post's earlier versions, newest first, so instructors can see what was changed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string; postId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId, postId } = await params
+
+    const course = await prisma.courses.findUnique({
+      where: {
+        id,
+        instructorId: session.user.id
+      }
+    })
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const post = await prisma.discussion_posts.findFirst({
+      where: {
+        id: postId,
+        discussionId,
+        discussions: {
+          courseId: id
+        }
+      },
+      include: {
+        discussion_post_edits: {
+          include: {
+            users: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            }
+          },
+          orderBy: {
+            editedAt: 'desc'
+          }
+        }
+      }
+    })
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      postId: post.id,
+      content: post.content,
+      updatedAt: post.updatedAt,
+      edits: post.discussion_post_edits.map((edit) => ({
+        id: edit.id,
+        content: edit.content,
+        editedAt: edit.editedAt,
+        editor: edit.users
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching post history:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { setAcceptedAnswer } from '@/lib/discussion-posts'
+import { removePost, resolvePostReports } from '@/lib/discussion-moderation'
+import { postRemovalSchema, postStatusSchema } from '@/validators/discussion'
+
+async function findCoursePost(courseId: string, discussionId: string, postId: string, instructorId: string) {
+  const course = await prisma.courses.findUnique({
+    where: {
+      id: courseId,
+      instructorId
+    }
+  })
+
+  if (!course) {
+    return { error: NextResponse.json({ error: 'Course not found' }, { status: 404 }) }
+  }
+
+  const discussion = await prisma.discussions.findUnique({
+    where: {
+      id: discussionId,
+      courseId
+    }
+  })
+
+  if (!discussion) {
+    return { error: NextResponse.json({ error: 'Discussion not found' }, { status: 404 }) }
+  }
+
+  const post = await prisma.discussion_posts.findUnique({
+    where: {
+      id: postId,
+      discussionId: discussionId
+    }
+  })
+
+  if (!post) {
+    return { error: NextResponse.json({ error: 'Post not found' }, { status: 404 }) }
+  }
+
+  return { discussion, post }
+}
+
+// Endorses, hides or flags a post, or marks a reply as the accepted answer of a Q&A thread.
+// Unflagging a post dismisses its reports.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string; postId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId, postId } = await params
+
+    const found = await findCoursePost(id, discussionId, postId, session.user.id)
+    if (found.error) {
+      return found.error
+    }
+
+    const { discussion, post } = found
+
+    if (post.deletedAt) {
+      return NextResponse.json({ error: 'Post has been removed' }, { status: 400 })
+    }
+
+    const parsed = postStatusSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Provide isEndorsed, isAcceptedAnswer, isHidden or isFlagged' },
+        { status: 400 }
+      )
+    }
+
+    const { isEndorsed, isAcceptedAnswer, isHidden, isFlagged } = parsed.data
+
+    if (isAcceptedAnswer !== undefined) {
+      if (!discussion.isQuestionAnswer) {
+        return NextResponse.json({ error: 'Only Q&A discussions have accepted answers' }, { status: 400 })
+      }
+
+      if (!post.parentId) {
+        return NextResponse.json({ error: 'Only replies can be accepted answers' }, { status: 400 })
+      }
+    }
+
+    const updatedPost = await prisma.$transaction(async (tx) => {
+      if (isAcceptedAnswer !== undefined) {
+        await setAcceptedAnswer({ discussionId, postId, accepted: isAcceptedAnswer }, tx)
+      }
+
+      if (isFlagged === false) {
+        await resolvePostReports(postId, tx)
+      }
+
+      return tx.discussion_posts.update({
+        where: {
+          id: postId
+        },
+        data: {
+          ...(isEndorsed !== undefined ? { isEndorsed } : {}),
+          ...(isHidden !== undefined ? { isHidden } : {}),
+          ...(isFlagged ? { isFlagged } : {})
+        },
+        select: {
+          id: true,
+          isEndorsed: true,
+          isAcceptedAnswer: true,
+          isHidden: true,
+          isFlagged: true
+        }
+      })
+    })
+
+    return NextResponse.json(updatedPost)
+  } catch (error) {
+    console.error('Error updating discussion post:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Removes a post with a reason. The post keeps its place in the thread so replies still make sense.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string; postId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId, postId } = await params
+
+    const found = await findCoursePost(id, discussionId, postId, session.user.id)
+    if (found.error) {
+      return found.error
+    }
+
+    if (found.post.deletedAt) {
+      return NextResponse.json({ error: 'Post has already been removed' }, { status: 400 })
+    }
+
+    const parsed = postRemovalSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    await prisma.$transaction((tx) =>
+      removePost({ postId, removedById: session.user.id, reason: parsed.data.reason }, tx)
+    )
+
+    return NextResponse.json({ message: 'Post removed successfully' })
+  } catch (error) {
+    console.error('Error removing discussion post:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { loadDiscussionThreads } from '@/lib/discussion-posts'
+import { applyDiscussionGrading, discussionGradingInclude, formatDiscussionGrading } from '@/lib/discussion-grading'
+import { discussionGradingSchema } from '@/validators/discussion'
 import { softDelete, notDeleted } from '@/lib/soft-delete'
 
 export async function GET(
@@ -41,37 +44,15 @@ export async function GET(
             email: true
           }
         },
-        discussion_posts: {
+        discussion_subscriptions: {
           where: {
-            parentId: null // Only get top-level posts
+            userId: session.user.id
           },
-          include: {
-            users: {
-              select: {
-                id: true,
-                name: true,
-                email: true
-              }
-            },
-            other_discussion_posts: {
-              include: {
-                users: {
-                  select: {
-                    id: true,
-                    name: true,
-                    email: true
-                  }
-                }
-              },
-              orderBy: {
-                createdAt: 'asc'
-              }
-            }
-          },
-          orderBy: {
-            createdAt: 'asc'
+          select: {
+            id: true
           }
-        }
+        },
+        ...discussionGradingInclude
       }
     })
 
@@ -79,7 +60,22 @@ export async function GET(
       return NextResponse.json({ error: 'Discussion not found' }, { status: 404 })
     }
 
-    return NextResponse.json(discussion)
+    // Transform for frontend compatibility; replies are nested to any depth
+    return NextResponse.json({
+      id: discussion.id,
+      title: discussion.title,
+      description: discussion.description,
+      isPinned: discussion.isPinned,
+      isLocked: discussion.isLocked,
+      isQuestionAnswer: discussion.isQuestionAnswer,
+      isAnonymous: discussion.isAnonymous,
+      isPostFirst: discussion.isPostFirst,
+      createdAt: discussion.createdAt,
+      author: discussion.users,
+      isSubscribed: discussion.discussion_subscriptions.length > 0,
+      grading: formatDiscussionGrading(discussion),
+      posts: await loadDiscussionThreads(discussion, { id: session.user.id, isModerator: true })
+    })
   } catch (error) {
     console.error('Error fetching discussion:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -110,7 +106,12 @@ export async function PUT(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 })
     }
 
-    const { title, description, isPinned, isLocked } = await request.json()
+    const { title, description, isPinned, isLocked, isQuestionAnswer, isAnonymous, isPostFirst, grading } = await request.json()
+
+    const gradingResult = discussionGradingSchema.nullable().optional().safeParse(grading)
+    if (!gradingResult.success) {
+      return NextResponse.json({ error: gradingResult.error.issues[0].message }, { status: 400 })
+    }
 
     const discussion = await prisma.discussions.findUnique({
       where: {
@@ -123,33 +124,61 @@ export async function PUT(
       return NextResponse.json({ error: 'Discussion not found' }, { status: 404 })
     }
 
-    const updatedDiscussion = await prisma.discussions.update({
-      where: {
-        id: discussionId
-      },
-      data: {
-        title: title || discussion.title,
-        description: description !== undefined ? description : discussion.description,
-        isPinned: isPinned !== undefined ? isPinned : discussion.isPinned,
-        isLocked: isLocked !== undefined ? isLocked : discussion.isLocked
-      },
-      include: {
-        users: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
+    const updatedDiscussion = await prisma.$transaction(async (tx) => {
+      const updated = await tx.discussions.update({
+        where: {
+          id: discussionId
         },
-        _count: {
-          select: {
-            discussion_posts: true
-          }
+        data: {
+          title: title || discussion.title,
+          description: description !== undefined ? description : discussion.description,
+          isPinned: isPinned !== undefined ? isPinned : discussion.isPinned,
+          isLocked: isLocked !== undefined ? isLocked : discussion.isLocked,
+          isQuestionAnswer: isQuestionAnswer !== undefined ? isQuestionAnswer : discussion.isQuestionAnswer,
+          isAnonymous: isAnonymous !== undefined ? isAnonymous : discussion.isAnonymous,
+          isPostFirst: isPostFirst !== undefined ? isPostFirst : discussion.isPostFirst
         }
+      })
+
+      // Grading settings are only changed when given; the backing assignment keeps the discussion's title
+      if (gradingResult.data !== undefined) {
+        await applyDiscussionGrading(updated, gradingResult.data, session.user.id, tx)
+      } else if (updated.assignmentId) {
+        await tx.assignments.update({
+          where: {
+            id: updated.assignmentId
+          },
+          data: {
+            title: updated.title
+          }
+        })
       }
+
+      return tx.discussions.findUniqueOrThrow({
+        where: {
+          id: discussionId
+        },
+        include: {
+          users: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          },
+          _count: {
+            select: {
+              discussion_posts: true
+            }
+          },
+          ...discussionGradingInclude
+        }
+      })
     })
 
-    return NextResponse.json(updatedDiscussion)
+    const { assignments, ...discussionData } = updatedDiscussion
+
+    return NextResponse.json({ ...discussionData, grading: formatDiscussionGrading(updatedDiscussion) })
   } catch (error) {
     console.error('Error updating discussion:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -193,7 +222,17 @@ export async function DELETE(
     }
 
     // Soft delete discussion
-    await softDelete(prisma.discussions, discussionId)
+    await softDelete(prisma.discussions, discussionId, {
+      actor: session.user,
+      action: 'discussion_deleted',
+      targetType: 'discussion',
+      details: { courseId: id },
+    })
+
+    // The gradebook column of a graded discussion goes with it
+    if (discussion.assignmentId) {
+      await softDelete(prisma.assignments, discussion.assignmentId)
+    }
 
     return NextResponse.json({ message: 'Discussion archived successfully' })
   } catch (error) {
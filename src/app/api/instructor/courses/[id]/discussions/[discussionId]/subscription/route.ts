@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { setDiscussionSubscription } from '@/lib/discussion-notifications'
+
+async function updateSubscription(
+  { params }: { params: Promise<{ id: string; discussionId: string }> },
+  subscribed: boolean
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session || session.user.role !== 'INSTRUCTOR') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id, discussionId } = await params
+
+  const course = await prisma.courses.findUnique({
+    where: {
+      id,
+      instructorId: session.user.id
+    }
+  })
+
+  if (!course) {
+    return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+  }
+
+  const discussion = await prisma.discussions.findUnique({
+    where: {
+      id: discussionId,
+      courseId: id
+    }
+  })
+
+  if (!discussion) {
+    return NextResponse.json({ error: 'Discussion not found' }, { status: 404 })
+  }
+
+  await setDiscussionSubscription({ discussionId, userId: session.user.id, subscribed })
+
+  return NextResponse.json({ isSubscribed: subscribed })
+}
+
+// Follows a discussion: the instructor is notified of every new post, replies included
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; discussionId: string }> }
+) {
+  try {
+    return await updateSubscription(context, true)
+  } catch (error) {
+    console.error('Error subscribing to discussion:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Stops following a discussion
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; discussionId: string }> }
+) {
+  try {
+    return await updateSubscription(context, false)
+  } catch (error) {
+    console.error('Error unsubscribing from discussion:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
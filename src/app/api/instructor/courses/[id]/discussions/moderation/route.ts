@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { loadModerationQueue } from '@/lib/discussion-moderation'
+
+// Lists the course's flagged posts with their open reports
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findUnique({
+      where: {
+        id,
+        instructorId: session.user.id
+      }
+    })
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(await loadModerationQueue(id))
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
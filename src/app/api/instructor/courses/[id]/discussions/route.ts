@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { applyDiscussionGrading, discussionGradingInclude, formatDiscussionGrading } from '@/lib/discussion-grading'
+import { discussionGradingSchema } from '@/validators/discussion'
 
 export async function GET(
   request: NextRequest,
@@ -44,7 +46,8 @@ export async function GET(
           select: {
             discussion_posts: true
           }
-        }
+        },
+        ...discussionGradingInclude
       },
       orderBy: [
         { isPinned: 'desc' },
@@ -52,7 +55,12 @@ export async function GET(
       ]
     })
 
-    return NextResponse.json(discussions)
+    return NextResponse.json(
+      discussions.map((discussion) => {
+        const { assignments, ...item } = discussion
+        return { ...item, grading: formatDiscussionGrading(discussion) }
+      })
+    )
   } catch (error) {
     console.error('Error fetching discussions:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -83,7 +91,7 @@ export async function POST(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 })
     }
 
-    const { title, description, isPinned } = await request.json()
+    const { title, description, isPinned, isQuestionAnswer, isAnonymous, isPostFirst, grading } = await request.json()
 
     if (!title) {
       return NextResponse.json(
@@ -92,32 +100,58 @@ export async function POST(
       )
     }
 
-    const discussion = await prisma.discussions.create({
-      data: {
-        id: randomUUID(),
-        title,
-        description,
-        isPinned: isPinned || false,
-        courseId: id,
-        createdBy: session.user.id
-      },
-      include: {
-        users: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
+    const gradingResult = discussionGradingSchema.nullable().optional().safeParse(grading)
+
+    if (!gradingResult.success) {
+      return NextResponse.json({ error: gradingResult.error.issues[0].message }, { status: 400 })
+    }
+
+    const discussion = await prisma.$transaction(async (tx) => {
+      const created = await tx.discussions.create({
+        data: {
+          id: randomUUID(),
+          title,
+          description,
+          isPinned: isPinned || false,
+          isQuestionAnswer: isQuestionAnswer || false,
+          isAnonymous: isAnonymous || false,
+          isPostFirst: isPostFirst || false,
+          courseId: id,
+          createdBy: session.user.id
+        }
+      })
+
+      // A graded discussion gets a backing assignment for its gradebook column
+      await applyDiscussionGrading(created, gradingResult.data ?? null, session.user.id, tx)
+
+      return tx.discussions.findUniqueOrThrow({
+        where: {
+          id: created.id
         },
-        _count: {
-          select: {
-            discussion_posts: true
-          }
+        include: {
+          users: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          },
+          _count: {
+            select: {
+              discussion_posts: true
+            }
+          },
+          ...discussionGradingInclude
         }
-      }
+      })
     })
 
-    return NextResponse.json(discussion, { status: 201 })
+    const { assignments, ...createdDiscussion } = discussion
+
+    return NextResponse.json(
+      { ...createdDiscussion, grading: formatDiscussionGrading(discussion) },
+      { status: 201 }
+    )
   } catch (error) {
     console.error('Error creating discussion:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -50,6 +50,7 @@ export async function GET(
     // Transform 'users' to 'user' for frontend compatibility
     const transformedEnrollments = enrollments.map(enrollment => ({
       id: enrollment.id,
+      sectionId: enrollment.sectionId,
       user: enrollment.users
     }))
 
@@ -136,6 +137,7 @@ export async function POST(
     // Transform 'users' to 'user' for frontend compatibility
     const transformedEnrollment = {
       id: enrollment.id,
+      sectionId: enrollment.sectionId,
       user: enrollment.users
     }
 
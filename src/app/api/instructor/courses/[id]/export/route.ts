@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { recordAuditLog } from '@/lib/audit-log'
+import { exportCourseCartridge } from '@/lib/common-cartridge'
+
+/**
+ * GET /api/instructor/courses/[id]/export
+ *
+ * Download the course as an IMS Common Cartridge (.imscc) package.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'INSTRUCTOR') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        instructorId: session.user.id,
+        ...notDeleted
+      },
+      select: { id: true }
+    })
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const cartridge = await exportCourseCartridge(id)
+
+    if (!cartridge) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    await recordAuditLog({
+      actor: session.user,
+      action: 'course_exported',
+      targetType: 'course',
+      targetId: id,
+      details: { skipped: cartridge.warnings }
+    })
+
+    const filename = cartridge.fileName.replace(/[^\w.-]/g, '_')
+
+    return new NextResponse(new Uint8Array(cartridge.archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting course:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Grade Category Detail API Route
+ * PUT    /api/instructor/courses/[id]/grade-categories/[categoryId] - Update a category
+ * DELETE /api/instructor/courses/[id]/grade-categories/[categoryId] - Delete a category
+ *
+ * Deleting a category leaves its assignments uncategorized.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { MAX_TOTAL_CATEGORY_WEIGHT } from '@/lib/grade-categories'
+import { updateGradeCategorySchema } from '@/validators/gradeCategory'
+
+interface RouteParams {
+  params: Promise<{ id: string; categoryId: string }>
+}
+
+/**
+ * PUT /api/instructor/courses/[id]/grade-categories/[categoryId]
+ * Update a category's name, weight or position
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, categoryId } = await params
+
+    const category = await prisma.grade_categories.findFirst({
+      where: {
+        id: categoryId,
+        courseId: id,
+        courses: {
+          ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+          ...notDeleted,
+        },
+      },
+    })
+
+    if (!category) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Grade category not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, updateGradeCategorySchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, weight, orderIndex } = validation.data
+
+    if (weight !== undefined) {
+      const others = await prisma.grade_categories.findMany({
+        where: { courseId: id, id: { not: categoryId } },
+        select: { weight: true },
+      })
+
+      const allocatedWeight = others.reduce((sum, c) => sum + c.weight, 0)
+      if (allocatedWeight + weight > MAX_TOTAL_CATEGORY_WEIGHT) {
+        return createCustomValidationError(
+          `Category weights cannot total more than ${MAX_TOTAL_CATEGORY_WEIGHT}%`,
+          [
+            {
+              path: 'weight',
+              message: `Only ${MAX_TOTAL_CATEGORY_WEIGHT - allocatedWeight}% is left to allocate`,
+            },
+          ]
+        )
+      }
+    }
+
+    const updatedCategory = await prisma.grade_categories.update({
+      where: { id: categoryId },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(weight !== undefined && { weight }),
+        ...(orderIndex !== undefined && { orderIndex }),
+        updatedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ category: updatedCategory })
+  } catch (error) {
+    console.error('[Grade Categories API] PUT error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/instructor/courses/[id]/grade-categories/[categoryId]
+ * Delete a category; its assignments become uncategorized
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, categoryId } = await params
+
+    const category = await prisma.grade_categories.findFirst({
+      where: {
+        id: categoryId,
+        courseId: id,
+        courses: {
+          ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+          ...notDeleted,
+        },
+      },
+      select: { id: true },
+    })
+
+    if (!category) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Grade category not found' } },
+        { status: 404 }
+      )
+    }
+
+    // Assignments fall back to uncategorized via onDelete: SetNull
+    await prisma.grade_categories.delete({
+      where: { id: categoryId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Grade Categories API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
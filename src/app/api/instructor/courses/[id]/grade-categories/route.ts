@@ -0,0 +1,175 @@
+/**
+ * Grade Categories API Route
+ * GET  /api/instructor/courses/[id]/grade-categories - List categories for a course
+ * POST /api/instructor/courses/[id]/grade-categories - Create a category
+ *
+ * Categories weight assignments in the gradebook, CSV export and student GPA.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { MAX_TOTAL_CATEGORY_WEIGHT } from '@/lib/grade-categories'
+import { gradeCategorySchema } from '@/validators/gradeCategory'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/instructor/courses/[id]/grade-categories
+ * List a course's grade categories with their assignment counts
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const categories = await prisma.grade_categories.findMany({
+      where: { courseId: id },
+      orderBy: [{ orderIndex: 'asc' }, { createdAt: 'asc' }],
+      include: {
+        _count: {
+          select: { assignments: { where: notDeleted } },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      categories: categories.map(({ _count, ...category }) => ({
+        ...category,
+        assignmentCount: _count.assignments,
+      })),
+    })
+  } catch (error) {
+    console.error('[Grade Categories API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/courses/[id]/grade-categories
+ * Create a grade category. The course's total category weight may not exceed 100%.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, gradeCategorySchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, weight, orderIndex } = validation.data
+
+    const existing = await prisma.grade_categories.findMany({
+      where: { courseId: id },
+      select: { weight: true, orderIndex: true },
+    })
+
+    const allocatedWeight = existing.reduce((sum, c) => sum + c.weight, 0)
+    if (allocatedWeight + weight > MAX_TOTAL_CATEGORY_WEIGHT) {
+      return createCustomValidationError(
+        `Category weights cannot total more than ${MAX_TOTAL_CATEGORY_WEIGHT}%`,
+        [
+          {
+            path: 'weight',
+            message: `Only ${MAX_TOTAL_CATEGORY_WEIGHT - allocatedWeight}% is left to allocate`,
+          },
+        ]
+      )
+    }
+
+    const nextOrderIndex =
+      existing.reduce((max, c) => Math.max(max, c.orderIndex), -1) + 1
+
+    const category = await prisma.grade_categories.create({
+      data: {
+        id: randomUUID(),
+        name,
+        weight,
+        orderIndex: orderIndex ?? nextOrderIndex,
+        courseId: id,
+        updatedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ category }, { status: 201 })
+  } catch (error) {
+    console.error('[Grade Categories API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Student Group Detail API Route
+ * PATCH  /api/instructor/courses/[id]/groups/[groupId] - Rename a group or replace its members
+ * DELETE /api/instructor/courses/[id]/groups/[groupId] - Delete a group
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { setGroupMembers } from '@/lib/groups'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { updateStudentGroupSchema } from '@/validators/group'
+
+interface RouteParams {
+  params: Promise<{ id: string; groupId: string }>
+}
+
+/**
+ * PATCH /api/instructor/courses/[id]/groups/[groupId]
+ * Rename a group and/or replace its members; students in another group
+ * are moved to this one
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, groupId } = await params
+
+    const group = await prisma.student_groups.findFirst({
+      where: {
+        id: groupId,
+        courseId: id,
+        courses: {
+          ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+          ...notDeleted,
+        },
+      },
+      select: { id: true },
+    })
+
+    if (!group) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Group not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, updateStudentGroupSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, studentIds } = validation.data
+
+    if (name !== undefined) {
+      const existing = await prisma.student_groups.findFirst({
+        where: {
+          courseId: id,
+          id: { not: groupId },
+          name: { equals: name, mode: 'insensitive' },
+        },
+        select: { id: true },
+      })
+
+      if (existing) {
+        return createCustomValidationError('A group with this name already exists', [
+          { path: 'name', message: 'A group with this name already exists' },
+        ])
+      }
+    }
+
+    if (studentIds !== undefined) {
+      const enrolledCount = await prisma.enrollments.count({
+        where: { courseId: id, userId: { in: studentIds } },
+      })
+
+      if (enrolledCount !== new Set(studentIds).size) {
+        return createCustomValidationError('Some students are not enrolled in this course', [
+          { path: 'studentIds', message: 'Some students are not enrolled in this course' },
+        ])
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (studentIds !== undefined) {
+        await setGroupMembers({ groupId, courseId: id, studentIds }, tx)
+      }
+
+      return tx.student_groups.update({
+        where: { id: groupId },
+        data: { ...(name !== undefined ? { name } : {}), updatedAt: new Date() },
+      })
+    })
+
+    return NextResponse.json({ group: updated })
+  } catch (error) {
+    console.error('[Groups API] PATCH error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/instructor/courses/[id]/groups/[groupId]
+ * Delete a group; submissions already made for it are kept by every member
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, groupId } = await params
+
+    const group = await prisma.student_groups.findFirst({
+      where: {
+        id: groupId,
+        courseId: id,
+        courses: {
+          ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+          ...notDeleted,
+        },
+      },
+      select: { id: true },
+    })
+
+    if (!group) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Group not found' } },
+        { status: 404 }
+      )
+    }
+
+    await prisma.student_groups.delete({
+      where: { id: groupId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Groups API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
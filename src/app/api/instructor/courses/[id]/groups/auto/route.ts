@@ -0,0 +1,127 @@
+/**
+ * Automatic Grouping API Route
+ * POST /api/instructor/courses/[id]/groups/auto - Split students into random groups
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { buildAutoGroups, nextGroupNames, setGroupMembers } from '@/lib/groups'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { autoGroupSchema } from '@/validators/group'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/instructor/courses/[id]/groups/auto
+ * Place ungrouped students in new random groups of at most `groupSize`.
+ * With `replaceExisting`, the existing groups are deleted and every
+ * enrolled student is regrouped.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, autoGroupSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { groupSize, replaceExisting } = validation.data
+
+    const [enrollments, existingGroups] = await Promise.all([
+      prisma.enrollments.findMany({
+        where: {
+          courseId: id,
+          ...(replaceExisting
+            ? {}
+            : { users: { student_group_members: { none: { courseId: id } } } }),
+        },
+        select: { userId: true },
+      }),
+      replaceExisting
+        ? Promise.resolve([])
+        : prisma.student_groups.findMany({ where: { courseId: id }, select: { name: true } }),
+    ])
+
+    if (enrollments.length === 0) {
+      return createCustomValidationError('There are no students to place in groups')
+    }
+
+    const memberLists = buildAutoGroups(
+      enrollments.map((enrollment) => enrollment.userId),
+      groupSize
+    )
+    const names = nextGroupNames(
+      existingGroups.map((group) => group.name),
+      memberLists.length
+    )
+
+    await prisma.$transaction(async (tx) => {
+      if (replaceExisting) {
+        await tx.student_groups.deleteMany({ where: { courseId: id } })
+      }
+
+      for (const [index, studentIds] of memberLists.entries()) {
+        const group = await tx.student_groups.create({
+          data: {
+            id: randomUUID(),
+            name: names[index],
+            courseId: id,
+            updatedAt: new Date(),
+          },
+        })
+
+        await setGroupMembers({ groupId: group.id, courseId: id, studentIds }, tx)
+      }
+    })
+
+    return NextResponse.json(
+      { groupCount: memberLists.length, studentCount: enrollments.length },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('[Groups API] auto error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
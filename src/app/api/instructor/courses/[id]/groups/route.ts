@@ -0,0 +1,191 @@
+/**
+ * Student Groups API Route
+ * GET  /api/instructor/courses/[id]/groups - List a course's groups and ungrouped students
+ * POST /api/instructor/courses/[id]/groups - Create a group
+ *
+ * Groups are used by group assignments, where one member submits for the group.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { setGroupMembers } from '@/lib/groups'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { studentGroupSchema } from '@/validators/group'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const memberSelect = {
+  users: { select: { id: true, name: true, surname: true, email: true } },
+} as const
+
+/**
+ * GET /api/instructor/courses/[id]/groups
+ * List a course's groups with their members, and the enrolled students
+ * who are not in a group
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const [groups, ungrouped] = await Promise.all([
+      prisma.student_groups.findMany({
+        where: { courseId: id },
+        include: { student_group_members: { select: memberSelect } },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.enrollments.findMany({
+        where: {
+          courseId: id,
+          users: { student_group_members: { none: { courseId: id } } },
+        },
+        select: { users: memberSelect.users },
+        orderBy: { users: { name: 'asc' } },
+      }),
+    ])
+
+    return NextResponse.json({
+      groups: groups.map(({ student_group_members, ...group }) => ({
+        ...group,
+        members: student_group_members.map((member) => member.users),
+      })),
+      ungroupedStudents: ungrouped.map((enrollment) => enrollment.users),
+    })
+  } catch (error) {
+    console.error('[Groups API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/courses/[id]/groups
+ * Create a group; students already in another group are moved to it
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, studentGroupSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, studentIds } = validation.data
+
+    const existing = await prisma.student_groups.findFirst({
+      where: { courseId: id, name: { equals: name, mode: 'insensitive' } },
+      select: { id: true },
+    })
+
+    if (existing) {
+      return createCustomValidationError('A group with this name already exists', [
+        { path: 'name', message: 'A group with this name already exists' },
+      ])
+    }
+
+    const enrolledCount = await prisma.enrollments.count({
+      where: { courseId: id, userId: { in: studentIds } },
+    })
+
+    if (enrolledCount !== new Set(studentIds).size) {
+      return createCustomValidationError('Some students are not enrolled in this course', [
+        { path: 'studentIds', message: 'Some students are not enrolled in this course' },
+      ])
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const created = await tx.student_groups.create({
+        data: {
+          id: randomUUID(),
+          name,
+          courseId: id,
+          updatedAt: new Date(),
+        },
+      })
+
+      await setGroupMembers({ groupId: created.id, courseId: id, studentIds }, tx)
+
+      return created
+    })
+
+    return NextResponse.json({ group }, { status: 201 })
+  } catch (error) {
+    console.error('[Groups API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -108,6 +108,8 @@ export async function PUT(
         thumbnailUrl: true,
         orderIndex: true,
         isPublished: true,
+        publishAt: true,
+        unpublishAt: true,
         createdAt: true,
         moduleId: true,
       },
@@ -116,6 +118,8 @@ export async function PUT(
     return NextResponse.json({
       content: updatedContent.map((item) => ({
         ...item,
+        publishAt: item.publishAt?.toISOString() ?? null,
+        unpublishAt: item.unpublishAt?.toISOString() ?? null,
         createdAt: item.createdAt.toISOString(),
       })),
     })
@@ -60,6 +60,8 @@ export async function GET(
         thumbnailUrl: true,
         orderIndex: true,
         isPublished: true,
+        publishAt: true,
+        unpublishAt: true,
         createdAt: true,
         moduleId: true,
       },
@@ -68,6 +70,8 @@ export async function GET(
     return NextResponse.json({
       content: content.map((item) => ({
         ...item,
+        publishAt: item.publishAt?.toISOString() ?? null,
+        unpublishAt: item.unpublishAt?.toISOString() ?? null,
         createdAt: item.createdAt.toISOString(),
       })),
     })
@@ -106,6 +106,8 @@ export async function PUT(
         description: updatedModule.description,
         orderIndex: updatedModule.orderIndex,
         isPublished: updatedModule.isPublished,
+        publishAt: updatedModule.publishAt,
+        unpublishAt: updatedModule.unpublishAt,
         requiresPrevious: updatedModule.requiresPrevious,
         createdAt: updatedModule.createdAt,
         updatedAt: updatedModule.updatedAt,
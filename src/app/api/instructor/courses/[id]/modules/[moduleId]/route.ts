@@ -13,6 +13,9 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { notDeleted, softDelete } from '@/lib/soft-delete';
 import { updateModuleSchema } from '@/lib/validations/module';
+import { applyPublishWindowUpdate, validatePublishWindow } from '@/lib/publishing';
+import { applyUnlockRulesUpdate, validateUnlockRules } from '@/lib/modules';
+import { validateCompletionWeights } from '@/lib/module-progress';
 
 /**
  * GET /api/instructor/courses/[id]/modules/[moduleId]
@@ -73,7 +76,18 @@ export async function GET(
       description: foundModule.description,
       orderIndex: foundModule.orderIndex,
       isPublished: foundModule.isPublished,
+      publishAt: foundModule.publishAt,
+      unpublishAt: foundModule.unpublishAt,
       requiresPrevious: foundModule.requiresPrevious,
+      unlockAt: foundModule.unlockAt,
+      prerequisiteModuleId: foundModule.prerequisiteModuleId,
+      prerequisiteAssignmentId: foundModule.prerequisiteAssignmentId,
+      prerequisiteMinScore: foundModule.prerequisiteMinScore,
+      passingScore: foundModule.passingScore,
+      requireDiscussionPost: foundModule.requireDiscussionPost,
+      contentWeight: foundModule.contentWeight,
+      assignmentWeight: foundModule.assignmentWeight,
+      discussionWeight: foundModule.discussionWeight,
       createdAt: foundModule.createdAt,
       updatedAt: foundModule.updatedAt,
       contentCount: foundModule._count.course_content,
@@ -142,7 +156,49 @@ export async function PUT(
       return NextResponse.json({ error: 'Module not found' }, { status: 404 });
     }
 
-    const { title, description, isPublished, requiresPrevious, orderIndex } = validationResult.data;
+    const {
+      title,
+      description,
+      isPublished,
+      requiresPrevious,
+      orderIndex,
+      passingScore,
+      requireDiscussionPost,
+      contentWeight,
+      assignmentWeight,
+      discussionWeight,
+    } = validationResult.data;
+
+    const publishWindow = applyPublishWindowUpdate(validationResult.data, existingModule);
+    const windowError = validatePublishWindow(publishWindow);
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
+
+    const unlockRules = applyUnlockRulesUpdate(validationResult.data, existingModule);
+    const unlockError = await validateUnlockRules(
+      id,
+      moduleId,
+      orderIndex ?? existingModule.orderIndex,
+      unlockRules
+    );
+    if (unlockError) {
+      return NextResponse.json({ error: unlockError }, { status: 400 });
+    }
+
+    const completionRules = {
+      passingScore: passingScore !== undefined ? passingScore : existingModule.passingScore,
+      requireDiscussionPost: requireDiscussionPost ?? existingModule.requireDiscussionPost,
+      contentWeight: contentWeight !== undefined ? contentWeight : existingModule.contentWeight,
+      assignmentWeight:
+        assignmentWeight !== undefined ? assignmentWeight : existingModule.assignmentWeight,
+      discussionWeight:
+        discussionWeight !== undefined ? discussionWeight : existingModule.discussionWeight,
+    };
+    const weightsError = validateCompletionWeights(completionRules);
+    if (weightsError) {
+      return NextResponse.json({ error: weightsError }, { status: 400 });
+    }
 
     // Update the module with provided fields
     const updatedModule = await prisma.modules.update({
@@ -155,6 +211,9 @@ export async function PUT(
         isPublished: isPublished ?? existingModule.isPublished,
         requiresPrevious: requiresPrevious ?? existingModule.requiresPrevious,
         orderIndex: orderIndex ?? existingModule.orderIndex,
+        ...publishWindow,
+        ...unlockRules,
+        ...completionRules,
       },
     });
 
@@ -330,7 +389,12 @@ export async function DELETE(
     }
 
     // Soft delete the module
-    await softDelete(prisma.modules, moduleId);
+    await softDelete(prisma.modules, moduleId, {
+      actor: session.user,
+      action: 'module_deleted',
+      targetType: 'module',
+      details: { courseId: id, movedContent: !!moveContentTo, movedCount },
+    });
 
     return NextResponse.json({
       message: moveContentTo
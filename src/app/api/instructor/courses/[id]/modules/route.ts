@@ -13,6 +13,9 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { notDeleted } from '@/lib/soft-delete';
 import { createModuleSchema } from '@/lib/validations/module';
+import { validatePublishWindow } from '@/lib/publishing';
+import { applyUnlockRulesUpdate, validateUnlockRules } from '@/lib/modules';
+import { validateCompletionWeights } from '@/lib/module-progress';
 
 /**
  * GET /api/instructor/courses/[id]/modules
@@ -59,7 +62,18 @@ export async function GET(
         description: true,
         orderIndex: true,
         isPublished: true,
+        publishAt: true,
+        unpublishAt: true,
         requiresPrevious: true,
+        unlockAt: true,
+        prerequisiteModuleId: true,
+        prerequisiteAssignmentId: true,
+        prerequisiteMinScore: true,
+        passingScore: true,
+        requireDiscussionPost: true,
+        contentWeight: true,
+        assignmentWeight: true,
+        discussionWeight: true,
         createdAt: true,
         updatedAt: true,
         _count: {
@@ -79,7 +93,18 @@ export async function GET(
       description: module.description,
       orderIndex: module.orderIndex,
       isPublished: module.isPublished,
+      publishAt: module.publishAt,
+      unpublishAt: module.unpublishAt,
       requiresPrevious: module.requiresPrevious,
+      unlockAt: module.unlockAt,
+      prerequisiteModuleId: module.prerequisiteModuleId,
+      prerequisiteAssignmentId: module.prerequisiteAssignmentId,
+      prerequisiteMinScore: module.prerequisiteMinScore,
+      passingScore: module.passingScore,
+      requireDiscussionPost: module.requireDiscussionPost,
+      contentWeight: module.contentWeight,
+      assignmentWeight: module.assignmentWeight,
+      discussionWeight: module.discussionWeight,
       createdAt: module.createdAt,
       updatedAt: module.updatedAt,
       contentCount: module._count.course_content,
@@ -135,7 +160,24 @@ export async function POST(
       );
     }
 
-    const { title, description, requiresPrevious } = validationResult.data;
+    const { title, description, requiresPrevious, publishAt, unpublishAt } = validationResult.data;
+
+    const completionRules = {
+      passingScore: validationResult.data.passingScore ?? null,
+      requireDiscussionPost: validationResult.data.requireDiscussionPost ?? false,
+      contentWeight: validationResult.data.contentWeight ?? null,
+      assignmentWeight: validationResult.data.assignmentWeight ?? null,
+      discussionWeight: validationResult.data.discussionWeight ?? null,
+    };
+    const weightsError = validateCompletionWeights(completionRules);
+    if (weightsError) {
+      return NextResponse.json({ error: weightsError }, { status: 400 });
+    }
+
+    const windowError = validatePublishWindow({ publishAt, unpublishAt });
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
 
     // Get the next order index (max + 1)
     const lastModule = await prisma.modules.findFirst({
@@ -153,6 +195,12 @@ export async function POST(
 
     const orderIndex = (lastModule?.orderIndex ?? -1) + 1;
 
+    const unlockRules = applyUnlockRulesUpdate(validationResult.data);
+    const unlockError = await validateUnlockRules(id, null, orderIndex, unlockRules);
+    if (unlockError) {
+      return NextResponse.json({ error: unlockError }, { status: 400 });
+    }
+
     // Create the module
     const newModule = await prisma.modules.create({
       data: {
@@ -162,6 +210,10 @@ export async function POST(
         orderIndex,
         isPublished: false,
         requiresPrevious: requiresPrevious ?? false,
+        publishAt: publishAt ?? null,
+        unpublishAt: unpublishAt ?? null,
+        ...unlockRules,
+        ...completionRules,
         courseId: id,
         updatedAt: new Date(),
       },
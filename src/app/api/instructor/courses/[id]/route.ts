@@ -87,7 +87,9 @@ export async function PUT(
       isActive,
       prerequisites,
       learningObjectives,
-      targetAudience
+      targetAudience,
+      certificatesEnabled,
+      certificateMinScore
     } = validation.data
 
     const course = await prisma.courses.findUnique({
@@ -126,6 +128,8 @@ export async function PUT(
     if (prerequisites !== undefined) updateData.prerequisites = prerequisites
     if (learningObjectives !== undefined) updateData.learningObjectives = learningObjectives
     if (targetAudience !== undefined) updateData.targetAudience = targetAudience
+    if (certificatesEnabled !== undefined) updateData.certificatesEnabled = certificatesEnabled
+    if (certificateMinScore !== undefined) updateData.certificateMinScore = certificateMinScore
 
     const updatedCourse = await prisma.courses.update({
       where: {
@@ -167,7 +171,11 @@ export async function DELETE(
     }
 
     // Soft delete course and cascade to related content (assignments, discussions, content, announcements)
-    await cascadeSoftDeleteCourse(id)
+    await cascadeSoftDeleteCourse(id, {
+      actor: session.user,
+      action: 'course_deleted',
+      targetType: 'course',
+    })
 
     return NextResponse.json({ message: 'Course archived successfully' })
   } catch (error) {
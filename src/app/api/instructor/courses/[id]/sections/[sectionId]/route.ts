@@ -0,0 +1,168 @@
+/**
+ * Course Section Detail API Route
+ * PATCH  /api/instructor/courses/[id]/sections/[sectionId] - Rename a section
+ * DELETE /api/instructor/courses/[id]/sections/[sectionId] - Delete a section
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { sectionSchema } from '@/validators/section'
+
+interface RouteParams {
+  params: Promise<{ id: string; sectionId: string }>
+}
+
+/**
+ * PATCH /api/instructor/courses/[id]/sections/[sectionId]
+ * Rename a section
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, sectionId } = await params
+
+    const section = await prisma.course_sections.findFirst({
+      where: {
+        id: sectionId,
+        courseId: id,
+        courses: {
+          ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+          ...notDeleted,
+        },
+      },
+      select: { id: true },
+    })
+
+    if (!section) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Section not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, sectionSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name } = validation.data
+
+    const existing = await prisma.course_sections.findFirst({
+      where: {
+        courseId: id,
+        id: { not: sectionId },
+        name: { equals: name, mode: 'insensitive' },
+      },
+      select: { id: true },
+    })
+
+    if (existing) {
+      return createCustomValidationError('A section with this name already exists', [
+        { path: 'name', message: 'A section with this name already exists' },
+      ])
+    }
+
+    const updated = await prisma.course_sections.update({
+      where: { id: sectionId },
+      data: { name, updatedAt: new Date() },
+    })
+
+    return NextResponse.json({ section: updated })
+  } catch (error) {
+    console.error('[Sections API] PATCH error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/instructor/courses/[id]/sections/[sectionId]
+ * Delete a section; its students stay enrolled without a section and its
+ * due dates are removed. A section with announcements cannot be deleted,
+ * since they would otherwise become visible to the whole course.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id, sectionId } = await params
+
+    const section = await prisma.course_sections.findFirst({
+      where: {
+        id: sectionId,
+        courseId: id,
+        courses: {
+          ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+          ...notDeleted,
+        },
+      },
+      select: { id: true, _count: { select: { announcements: true } } },
+    })
+
+    if (!section) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Section not found' } },
+        { status: 404 }
+      )
+    }
+
+    if (section._count.announcements > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONFLICT',
+            message: 'This section has announcements. Move them to another audience or delete them first.',
+          },
+        },
+        { status: 409 }
+      )
+    }
+
+    await prisma.course_sections.delete({
+      where: { id: sectionId },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Sections API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Course Section Members API Route
+ * PUT /api/instructor/courses/[id]/sections/members - Move students between sections
+ *
+ * A student is in at most one section of a course, so moving students into a
+ * section takes them out of their current one.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { findCourseSection } from '@/lib/sections'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { sectionMembersSchema } from '@/validators/section'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * PUT /api/instructor/courses/[id]/sections/members
+ * Put enrolled students in a section, or take them out of their section
+ * when sectionId is null
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, sectionMembersSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { sectionId, studentIds } = validation.data
+
+    if (sectionId && !(await findCourseSection(id, sectionId))) {
+      return createCustomValidationError('Section not found', [
+        { path: 'sectionId', message: 'Section not found' },
+      ])
+    }
+
+    const enrolledCount = await prisma.enrollments.count({
+      where: { courseId: id, userId: { in: studentIds } },
+    })
+
+    if (enrolledCount !== new Set(studentIds).size) {
+      return createCustomValidationError('Some students are not enrolled in this course', [
+        { path: 'studentIds', message: 'Some students are not enrolled in this course' },
+      ])
+    }
+
+    const result = await prisma.enrollments.updateMany({
+      where: { courseId: id, userId: { in: studentIds } },
+      data: { sectionId },
+    })
+
+    return NextResponse.json({ updatedCount: result.count })
+  } catch (error) {
+    console.error('[Sections API] PUT members error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
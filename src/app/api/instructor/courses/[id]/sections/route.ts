@@ -0,0 +1,159 @@
+/**
+ * Course Sections API Route
+ * GET  /api/instructor/courses/[id]/sections - List a course's sections
+ * POST /api/instructor/courses/[id]/sections - Create a section
+ *
+ * Sections group a course's students into cohorts that can get their own
+ * announcements and due dates.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { validateRequest, createCustomValidationError } from '@/lib/validation'
+import { sectionSchema } from '@/validators/section'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/instructor/courses/[id]/sections
+ * List a course's sections with the number of students in each
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const sections = await prisma.course_sections.findMany({
+      where: { courseId: id },
+      include: { _count: { select: { enrollments: true } } },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({
+      sections: sections.map(({ _count, ...section }) => ({
+        ...section,
+        studentCount: _count.enrollments,
+      })),
+    })
+  } catch (error) {
+    console.error('[Sections API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/courses/[id]/sections
+ * Create a section; names are unique within a course
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const course = await prisma.courses.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      select: { id: true },
+    })
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, sectionSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name } = validation.data
+
+    const existing = await prisma.course_sections.findFirst({
+      where: { courseId: id, name: { equals: name, mode: 'insensitive' } },
+      select: { id: true },
+    })
+
+    if (existing) {
+      return createCustomValidationError('A section with this name already exists', [
+        { path: 'name', message: 'A section with this name already exists' },
+      ])
+    }
+
+    const section = await prisma.course_sections.create({
+      data: {
+        id: randomUUID(),
+        name,
+        courseId: id,
+        updatedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ section: { ...section, studentCount: 0 } }, { status: 201 })
+  } catch (error) {
+    console.error('[Sections API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
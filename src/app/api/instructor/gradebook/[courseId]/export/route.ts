@@ -14,7 +14,12 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { calculateGPA, GradeInput } from '@/lib/gpa';
+import { calculateCourseGrade, CategorizedGradeItem } from '@/lib/grade-categories';
+import { evaluateLateSubmission, LatePolicySettings } from '@/lib/late-policy';
+import { loadDueDateAdjustments, resolveStudentDeadline } from '@/lib/extensions';
+import { pickDisplayedAttempt } from '@/lib/attempts';
+import { findCourseSection } from '@/lib/sections';
+import { recordAuditLog } from '@/lib/audit-log';
 import { parseGradebookFilters, GradebookFilters } from '@/validators/gradebook';
 import { formatZodErrors } from '@/lib/validation';
 import {
@@ -80,17 +85,14 @@ function getExportRateLimiter(): Ratelimit | null {
 function determineCellState(
   submission: { id: string; submittedAt: Date } | null,
   grade: { points: number } | null,
-  assignment: { dueDate: Date | null }
+  assignment: LatePolicySettings
 ): CellStatus {
   if (grade) {
     return 'graded';
   }
 
   if (submission) {
-    const dueDate = assignment.dueDate ? new Date(assignment.dueDate) : null;
-    const submittedAt = new Date(submission.submittedAt);
-
-    if (dueDate && submittedAt > dueDate) {
+    if (evaluateLateSubmission(assignment, submission.submittedAt).isLate) {
       return 'late';
     }
     return 'pending';
@@ -232,6 +234,16 @@ export async function GET(
       );
     }
 
+    // Resolve the section filter; its name goes into the filename
+    const section = filters.sectionId ? await findCourseSection(courseId, filters.sectionId) : null;
+
+    if (filters.sectionId && !section) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Section not found' } },
+        { status: 404 }
+      );
+    }
+
     // Build student filter conditions
     const studentWhere: { deletedAt: null; OR?: Array<{ name?: { contains: string; mode: 'insensitive' }; surname?: { contains: string; mode: 'insensitive' } }> } = {
       deletedAt: null,
@@ -249,6 +261,7 @@ export async function GET(
       where: {
         courseId,
         users: studentWhere,
+        ...(section ? { sectionId: section.id } : {}),
       },
       include: {
         users: {
@@ -299,6 +312,7 @@ export async function GET(
             id: true,
             studentId: true,
             points: true,
+            submissionId: true,
           },
         },
         submissions: {
@@ -306,54 +320,57 @@ export async function GET(
             id: true,
             studentId: true,
             submittedAt: true,
+            attemptNumber: true,
           },
         },
       },
       orderBy: { dueDate: 'asc' },
     });
 
-    // Calculate total possible points
-    const totalPossiblePoints = assignments.reduce(
-      (sum, a) => sum + a.maxPoints,
-      0
-    );
+    // Fetch grade categories used to weight the totals
+    const categories = await prisma.grade_categories.findMany({
+      where: { courseId },
+      select: { id: true, weight: true },
+    });
+
+    // Fetch extensions and accommodations so late/missing status uses each student's deadline
+    const adjustments = await loadDueDateAdjustments({
+      assignmentIds: assignments.map((a) => a.id),
+      courseIds: [courseId],
+    });
 
     // Build CSV data structure
     const csvStudents: CSVGradebookMatrix['students'] = [];
 
     for (const enrollment of enrollments) {
       const student = enrollment.users;
-      let totalPoints = 0;
-      const gradedAssignments: GradeInput[] = [];
+      const gradeItems: CategorizedGradeItem[] = [];
       let matchesStatusFilterForStudent = false;
 
       const grades: GradebookCell[] = assignments.map((assignment) => {
         const grade = assignment.grades.find(
           (g) => g.studentId === student.id
         );
-        const submission = assignment.submissions.find(
-          (s) => s.studentId === student.id
+        const submission = pickDisplayedAttempt(
+          assignment.submissions.filter((s) => s.studentId === student.id),
+          grade?.submissionId
         );
 
         const status = determineCellState(
           submission ? { id: submission.id, submittedAt: submission.submittedAt } : null,
           grade ? { points: grade.points } : null,
-          { dueDate: assignment.dueDate }
+          resolveStudentDeadline(assignment, student.id, adjustments)
         );
 
         if (matchesStatusFilter(status, filters.status)) {
           matchesStatusFilterForStudent = true;
         }
 
-        if (grade) {
-          totalPoints += grade.points;
-          gradedAssignments.push({
-            points: grade.points,
-            maxPoints: assignment.maxPoints,
-            weight: 1,
-            isGraded: true,
-          });
-        }
+        gradeItems.push({
+          categoryId: assignment.categoryId,
+          maxPoints: assignment.maxPoints,
+          points: grade?.points ?? null,
+        });
 
         return {
           assignmentId: assignment.id,
@@ -363,22 +380,16 @@ export async function GET(
       });
 
       if (filters.status === 'all' || matchesStatusFilterForStudent) {
-        const percentage =
-          totalPossiblePoints > 0
-            ? Math.round((totalPoints / totalPossiblePoints) * 10000) / 100
-            : 0;
-
-        const gpaResult = calculateGPA(gradedAssignments);
-        const gpa = gpaResult?.gpa ?? null;
+        const courseGrade = calculateCourseGrade(gradeItems, categories);
 
         csvStudents.push({
           id: student.id,
           name: `${student.name} ${student.surname}`,
           email: student.email,
           grades,
-          totalPoints,
-          percentage,
-          gpa,
+          totalPoints: courseGrade.totalPoints,
+          percentage: courseGrade.percentage,
+          gpa: courseGrade.gpa?.gpa ?? null,
         });
       }
     }
@@ -397,25 +408,26 @@ export async function GET(
 
     // Generate CSV content
     const csvContent = generateGradebookCSV(csvMatrix);
-    const filename = generateCSVFilename(course.code);
+    const filename = generateCSVFilename(section ? `${course.code}_${section.name}` : course.code);
 
     // Log export action
     const endTime = performance.now();
     const executionTime = endTime - startTime;
     const stats = getExportStats(csvMatrix);
 
-    console.log(
-      JSON.stringify({
-        action: 'gradebook_export',
-        courseId,
-        instructorId: session.user.id,
+    await recordAuditLog({
+      actor: session.user,
+      action: 'gradebook_exported',
+      targetType: 'gradebook',
+      targetId: courseId,
+      details: {
         rowCount: stats.studentCount,
         columnCount: stats.assignmentCount,
         fileSize: csvContent.length,
         filters,
         executionTime: `${executionTime.toFixed(2)}ms`,
-      })
-    );
+      },
+    });
 
     // Return CSV file
     return new NextResponse(csvContent, {
@@ -5,16 +5,25 @@
  * Updates a single grade for a student submission with inline editing.
  * Story: 2.2 - Gradebook Inline Editing with Confirmation
  *
+ * The entered grade scores the given attempt. The student's grade is then
+ * recalculated from their attempts using the assignment's graded attempt policy,
+ * with the late policy applied: the attempt's score is kept as `rawPoints` and
+ * the deduction is applied to `points`.
+ *
+ * On a group submission, `applyToGroup` grades every member's copy of the
+ * attempt; without it only the given member's grade changes (an override).
+ *
  * @see docs/stories/2-2-gradebook-inline-editing-with-confirmation.md
  */
 
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { randomUUID } from 'crypto';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { validateRequest, createCustomValidationError } from '@/lib/validation';
 import { applyUserRateLimit } from '@/lib/rate-limit';
+import { syncGradeFromAttempts } from '@/lib/attempts';
+import { notifyGradePosted } from '@/lib/notifications';
 import { gradeUpdateSchema } from '@/validators/gradebook';
 
 /**
@@ -28,8 +37,12 @@ interface GradeUpdateResponse {
     studentId: string;
     assignmentId: string;
     gradedAt: Date;
+    rawPoints: number | null;
+    latePenaltyPercent: number | null;
   };
   previousPoints: number | null;
+  /** Students whose grade was updated (every group member for a group grade) */
+  studentIds: string[];
 }
 
 /**
@@ -40,7 +53,9 @@ interface GradeUpdateResponse {
  *
  * Request body:
  * - submissionId: string (CUID) - The submission to grade
- * - grade: number - The new grade value (must be >= 0 and <= assignment maxPoints)
+ * - grade: number - The new grade value (must be >= 0 and <= assignment maxPoints),
+ *   before any late penalty
+ * - applyToGroup: boolean (optional) - Grade the whole group of a group submission
  *
  * Responses:
  * - 200: Grade updated successfully
@@ -87,7 +102,7 @@ export async function PUT(
       return validation.response;
     }
 
-    const { submissionId, grade, feedback } = validation.data;
+    const { submissionId, grade, feedback, reason, applyToGroup } = validation.data;
     const { courseId } = await params;
 
     // Fetch course and verify instructor ownership
@@ -185,40 +200,78 @@ export async function PUT(
 
     const previousPoints = existingGrade?.points ?? null;
 
-    // Upsert grade (create or update)
+    // A group grade scores every member's copy of the attempt
+    const targets =
+      applyToGroup && submission.groupId
+        ? await prisma.submissions.findMany({
+            where: {
+              assignmentId: submission.assignmentId,
+              groupId: submission.groupId,
+              attemptNumber: submission.attemptNumber,
+            },
+            select: { id: true, studentId: true, points: true },
+          })
+        : [submission];
+
+    // Score the attempt, then recalculate the grade from all attempts
     // Story: 2.7 - Added feedback field support
-    const updatedGrade = await prisma.grades.upsert({
-      where: {
-        assignmentId_studentId: {
-          assignmentId: submission.assignments.id,
-          studentId: submission.studentId,
-        },
-      },
-      create: {
-        id: randomUUID(),
-        assignmentId: submission.assignments.id,
-        studentId: submission.studentId,
-        gradedById: session.user.id,
-        points: grade,
-        feedback: feedback ?? null,
-        gradedAt: new Date(),
-      },
-      update: {
-        points: grade,
-        feedback: feedback !== undefined ? (feedback ?? null) : undefined,
-        gradedById: session.user.id,
-        gradedAt: new Date(),
-        deletedAt: null, // Restore if soft-deleted
-      },
+    const syncs = await prisma.$transaction(async (tx) => {
+      const results = [];
+
+      for (const target of targets) {
+        await tx.submissions.update({
+          where: { id: target.id },
+          data: {
+            points: grade,
+            feedback: feedback !== undefined ? (feedback ?? null) : undefined,
+            gradedAt: new Date(),
+          },
+        });
+
+        const result = await syncGradeFromAttempts(
+          {
+            assignmentId: submission.assignments.id,
+            studentId: target.studentId,
+            gradedById: session.user.id,
+            source: 'GRADEBOOK',
+            reason,
+          },
+          tx
+        );
+
+        // A grade typed into the gradebook no longer matches an earlier rubric breakdown
+        const pointsChanged = target.points !== null && target.points !== grade;
+        const countedChanged = result.submissionId !== result.previousSubmissionId;
+        const countedEdited = result.submissionId === target.id && pointsChanged;
+        if (result.grade && (countedChanged || countedEdited)) {
+          await tx.rubric_scores.deleteMany({ where: { gradeId: result.grade.id } });
+        }
+
+        results.push(result);
+      }
+
+      return results;
     });
 
+    const studentIds = targets.map((target) => target.studentId);
+    const updatedGrade = syncs[studentIds.indexOf(submission.studentId)].grade!;
+    const points = updatedGrade.points;
+    const latePenaltyPercent = updatedGrade.latePenaltyPercent;
+
     // Log grade update for audit trail
     console.log(
       `[Grade API] Grade updated: courseId=${courseId}, assignmentId=${submission.assignments.id}, ` +
-        `studentId=${submission.studentId}, previousPoints=${previousPoints}, newPoints=${grade}, ` +
+        `studentId=${submission.studentId}, groupMembers=${studentIds.length}, previousPoints=${previousPoints}, newPoints=${points}, ` +
+        `latePenaltyPercent=${latePenaltyPercent ?? 0}, ` +
         `gradedBy=${session.user.id}`
     );
 
+    await notifyGradePosted({
+      studentIds,
+      assignment: submission.assignments,
+      actorId: session.user.id,
+    });
+
     const response: GradeUpdateResponse = {
       success: true,
       grade: {
@@ -227,8 +280,11 @@ export async function PUT(
         studentId: updatedGrade.studentId,
         assignmentId: updatedGrade.assignmentId,
         gradedAt: updatedGrade.gradedAt,
+        rawPoints: updatedGrade.rawPoints,
+        latePenaltyPercent: updatedGrade.latePenaltyPercent,
       },
       previousPoints,
+      studentIds,
     };
 
     return NextResponse.json(response);
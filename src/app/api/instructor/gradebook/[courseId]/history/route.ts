@@ -0,0 +1,139 @@
+/**
+ * Gradebook Grade History API Route
+ * GET /api/instructor/gradebook/[courseId]/history?assignmentId=...&studentId=...
+ *
+ * Returns the change history of one gradebook cell (a student's grade for an
+ * assignment), newest first, so grade disputes can be resolved.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { validateData } from '@/lib/validation';
+import { applyUserRateLimit } from '@/lib/rate-limit';
+import { formatGradeHistoryEntry, gradeHistoryEntrySelect } from '@/lib/grade-history';
+import { gradeHistoryQuerySchema } from '@/validators/grade';
+
+/**
+ * GET /api/instructor/gradebook/[courseId]/history
+ *
+ * Query parameters:
+ * - assignmentId: string - The assignment
+ * - studentId: string - The student
+ *
+ * Responses:
+ * - 200: The history entries
+ * - 400: Validation error
+ * - 401: Not authenticated
+ * - 403: Not authorized (not instructor for this course)
+ * - 404: Course or assignment not found
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ courseId: string }> }
+) {
+  try {
+    // Get authenticated session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    // Verify instructor role
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/instructor/gradebook/history'
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    // Validate query parameters
+    const { searchParams } = new URL(request.url);
+    const validation = validateData(
+      {
+        assignmentId: searchParams.get('assignmentId') ?? undefined,
+        studentId: searchParams.get('studentId') ?? undefined,
+      },
+      gradeHistoryQuerySchema
+    );
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const { assignmentId, studentId } = validation.data;
+    const { courseId } = await params;
+
+    // Fetch course and verify instructor ownership
+    const course = await prisma.courses.findUnique({
+      where: {
+        id: courseId,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        instructorId: true,
+      },
+    });
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Verify instructor owns this course (skip for admin)
+    if (session.user.role !== 'ADMIN' && course.instructorId !== session.user.id) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Not instructor for this course' } },
+        { status: 403 }
+      );
+    }
+
+    // Verify assignment belongs to this course
+    const assignment = await prisma.assignments.findFirst({
+      where: {
+        id: assignmentId,
+        courseId,
+      },
+      select: { id: true },
+    });
+
+    if (!assignment) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Assignment not found in this course' } },
+        { status: 404 }
+      );
+    }
+
+    const entries = await prisma.grade_history.findMany({
+      where: { assignmentId, studentId },
+      select: gradeHistoryEntrySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { entries: entries.map(formatGradeHistoryEntry) },
+    });
+  } catch (error) {
+    console.error('[Grade History] Error:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch grade history' } },
+      { status: 500 }
+    );
+  }
+}
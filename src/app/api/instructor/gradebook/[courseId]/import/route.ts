@@ -0,0 +1,292 @@
+/**
+ * Gradebook CSV Import API Route
+ * POST /api/instructor/gradebook/[courseId]/import
+ *
+ * Imports grades from a CSV in the layout produced by the CSV export, so
+ * grades entered offline in a spreadsheet can be applied in bulk. Rows are
+ * matched to enrolled students by email.
+ *
+ * A dry run (the default) reports the grades that would change. Applying the
+ * import re-checks the CSV against the current grades and saves every change
+ * in one transaction, or nothing if the CSV has errors. As with inline
+ * editing, an imported grade scores the student's displayed attempt before any
+ * late penalty, and the grade is then recalculated from their attempts; the
+ * dry run shows the grade each change results in after that penalty.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { validateRequest, ValidationErrorCodes } from '@/lib/validation';
+import { applyUserRateLimit } from '@/lib/rate-limit';
+import { pickDisplayedAttempt, syncGradeFromAttempts } from '@/lib/attempts';
+import { evaluateLateSubmission } from '@/lib/late-policy';
+import { loadDueDateAdjustments, resolveStudentDeadline } from '@/lib/extensions';
+import { recordAuditLog } from '@/lib/audit-log';
+import { notifyGradePosted } from '@/lib/notifications';
+import { parseGradebookCSV, GradebookImportStudent } from '@/lib/csv-import';
+import { gradebookImportSchema } from '@/validators/gradebook';
+
+/**
+ * Time allowed for applying an import; each change recalculates a grade
+ */
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+/**
+ * POST /api/instructor/gradebook/[courseId]/import
+ *
+ * Request body:
+ * - csv: string - The CSV content
+ * - dryRun: boolean (default true) - Only report the changes
+ *
+ * Responses:
+ * - 200: The import plan (dry run) or the number of grades updated
+ * - 400: Validation error, or the CSV has errors (when applying)
+ * - 401: Not authenticated
+ * - 403: Not authorized (not instructor for this course)
+ * - 404: Course not found
+ * - 429: Rate limit exceeded
+ * - 500: Internal server error
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ courseId: string }> }
+) {
+  try {
+    // Get authenticated session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    // Verify instructor role
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitResponse = await applyUserRateLimit(
+      session.user.id,
+      '/api/instructor/gradebook/import'
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    // Validate request body
+    const validation = await validateRequest(request, gradebookImportSchema);
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const { csv, dryRun } = validation.data;
+    const { courseId } = await params;
+
+    // Fetch course and verify instructor ownership
+    const course = await prisma.courses.findUnique({
+      where: {
+        id: courseId,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        instructorId: true,
+      },
+    });
+
+    if (!course) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Course not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Verify instructor owns this course (skip for admin)
+    if (session.user.role !== 'ADMIN' && course.instructorId !== session.user.id) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Not instructor for this course' } },
+        { status: 403 }
+      );
+    }
+
+    // Load the gradebook the export is built from
+    const [enrollments, assignments] = await Promise.all([
+      prisma.enrollments.findMany({
+        where: {
+          courseId,
+          users: { deletedAt: null },
+        },
+        include: {
+          users: {
+            select: { id: true, name: true, surname: true, email: true },
+          },
+        },
+      }),
+      prisma.assignments.findMany({
+        where: {
+          courseId,
+          deletedAt: null,
+          isPublished: true,
+        },
+        select: {
+          id: true,
+          courseId: true,
+          title: true,
+          maxPoints: true,
+          createdAt: true,
+          dueDate: true,
+          latePolicy: true,
+          lateGraceMinutes: true,
+          latePenaltyPerDay: true,
+          lateCutoffAt: true,
+          grades: {
+            where: { deletedAt: null },
+            select: { studentId: true, points: true, submissionId: true },
+          },
+          submissions: {
+            select: { id: true, studentId: true, attemptNumber: true, submittedAt: true, points: true },
+          },
+        },
+      }),
+    ]);
+
+    // Late penalties depend on each student's own deadline
+    const adjustments = await loadDueDateAdjustments({
+      assignmentIds: assignments.map((a) => a.id),
+      courseIds: [courseId],
+    });
+
+    const students: GradebookImportStudent[] = enrollments.map(({ users: student }) => ({
+      id: student.id,
+      name: `${student.name} ${student.surname}`,
+      email: student.email,
+      grades: assignments.map((assignment) => {
+        const grade = assignment.grades.find((g) => g.studentId === student.id);
+        const submission = pickDisplayedAttempt(
+          assignment.submissions.filter((s) => s.studentId === student.id),
+          grade?.submissionId
+        );
+
+        return {
+          assignmentId: assignment.id,
+          points: grade?.points ?? null,
+          submissionId: submission?.id ?? null,
+          attemptPoints: submission?.points ?? null,
+          latePenaltyPercent: submission
+            ? evaluateLateSubmission(
+                resolveStudentDeadline(assignment, student.id, adjustments),
+                submission.submittedAt
+              ).penaltyPercent
+            : 0,
+        };
+      }),
+    }));
+
+    const plan = parseGradebookCSV(csv, { assignments, students });
+
+    if (dryRun) {
+      return NextResponse.json({ success: true, data: { dryRun: true, ...plan } });
+    }
+
+    if (plan.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: ValidationErrorCodes.INVALID_INPUT,
+            message: 'Fix the errors in the CSV before importing',
+            details: plan.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Score each attempt, then recalculate the grade from all attempts
+    await prisma.$transaction(
+      async (tx) => {
+        for (const change of plan.changes) {
+          const submission = await tx.submissions.findUniqueOrThrow({
+            where: { id: change.submissionId },
+            select: { id: true, points: true },
+          });
+
+          await tx.submissions.update({
+            where: { id: submission.id },
+            data: {
+              points: change.newPoints,
+              gradedAt: new Date(),
+            },
+          });
+
+          const result = await syncGradeFromAttempts(
+            {
+              assignmentId: change.assignmentId,
+              studentId: change.studentId,
+              gradedById: session.user.id,
+              source: 'CSV_IMPORT',
+            },
+            tx
+          );
+
+          // A grade entered outside the rubric no longer matches its breakdown
+          const countedChanged = result.submissionId !== result.previousSubmissionId;
+          const countedEdited =
+            result.submissionId === submission.id &&
+            submission.points !== null &&
+            submission.points !== change.newPoints;
+          if (result.grade && (countedChanged || countedEdited)) {
+            await tx.rubric_scores.deleteMany({ where: { gradeId: result.grade.id } });
+          }
+        }
+      },
+      { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+    );
+
+    // Record grade import for audit trail
+    await recordAuditLog({
+      actor: session.user,
+      action: 'gradebook_imported',
+      targetType: 'gradebook',
+      targetId: courseId,
+      details: {
+        rowCount: plan.rowCount,
+        updatedCount: plan.changes.length,
+        unchangedCount: plan.unchangedCount,
+      },
+    });
+
+    // One notification per assignment for the students whose grade changed
+    for (const assignment of assignments) {
+      const studentIds = plan.changes
+        .filter((change) => change.assignmentId === assignment.id)
+        .map((change) => change.studentId);
+      if (studentIds.length > 0) {
+        await notifyGradePosted({
+          studentIds,
+          assignment: { ...assignment, courseId },
+          actorId: session.user.id,
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        dryRun: false,
+        updatedCount: plan.changes.length,
+        unchangedCount: plan.unchangedCount,
+      },
+    });
+  } catch (error) {
+    console.error('[Gradebook Import] Error:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to import grades' } },
+      { status: 500 }
+    );
+  }
+}
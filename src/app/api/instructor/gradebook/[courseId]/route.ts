@@ -6,6 +6,8 @@
  * Story: 2.1 - Gradebook Grid View Implementation
  * Story: 2.3 - Gradebook Filtering & CSV Export
  *
+ * Totals, percentages and GPA are weighted by the course's grade categories.
+ *
  * @see docs/stories/2-1-gradebook-grid-view-implementation.md
  * @see docs/stories/2-3-gradebook-filtering-csv-export.md
  */
@@ -14,7 +16,10 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { calculateGPA, GradeInput } from '@/lib/gpa';
+import { calculateCourseGrade, CategorizedGradeItem } from '@/lib/grade-categories';
+import { evaluateLateSubmission, LatePolicySettings } from '@/lib/late-policy';
+import { loadDueDateAdjustments, resolveStudentDeadline } from '@/lib/extensions';
+import { pickDisplayedAttempt } from '@/lib/attempts';
 import { parseGradebookFilters, GradebookFilters } from '@/validators/gradebook';
 import { formatZodErrors } from '@/lib/validation';
 
@@ -22,7 +27,7 @@ import { formatZodErrors } from '@/lib/validation';
  * Cell status for grade display
  * - graded: grade exists with score (green)
  * - pending: submission exists but no grade (yellow)
- * - late: submission after due date, not yet graded (orange)
+ * - late: submission after the student's due date (extensions and grace period included), not yet graded (orange)
  * - missing: no submission and past due date (red)
  */
 export type CellStatus = 'graded' | 'pending' | 'late' | 'missing';
@@ -35,6 +40,8 @@ export interface GradebookCell {
   score: number | null;
   status: CellStatus;
   submissionId: string | null;
+  /** Group the displayed attempt was submitted for, on group assignments */
+  groupId: string | null;
 }
 
 /**
@@ -58,6 +65,33 @@ export interface GradebookAssignment {
   title: string;
   maxPoints: number;
   dueDate: Date | null;
+  categoryId: string | null;
+  isGroupAssignment: boolean;
+}
+
+/**
+ * Grade category used to weight assignment columns
+ */
+export interface GradebookCategory {
+  id: string;
+  name: string;
+  weight: number;
+}
+
+/**
+ * Course section the gradebook can be filtered by
+ */
+export interface GradebookSection {
+  id: string;
+  name: string;
+}
+
+/**
+ * Student group whose members can be graded together
+ */
+export interface GradebookGroup {
+  id: string;
+  name: string;
 }
 
 /**
@@ -66,6 +100,9 @@ export interface GradebookAssignment {
 export interface GradebookMatrix {
   students: GradebookStudent[];
   assignments: GradebookAssignment[];
+  categories: GradebookCategory[];
+  sections: GradebookSection[];
+  groups: GradebookGroup[];
   courseId: string;
   courseTitle: string;
   courseCode: string;
@@ -77,7 +114,7 @@ export interface GradebookMatrix {
 function determineCellState(
   submission: { id: string; submittedAt: Date } | null,
   grade: { points: number } | null,
-  assignment: { dueDate: Date | null }
+  assignment: LatePolicySettings
 ): CellStatus {
   // If graded, return graded status
   if (grade) {
@@ -86,11 +123,8 @@ function determineCellState(
 
   // If submission exists
   if (submission) {
-    const dueDate = assignment.dueDate ? new Date(assignment.dueDate) : null;
-    const submittedAt = new Date(submission.submittedAt);
-
-    // Check if submitted late
-    if (dueDate && submittedAt > dueDate) {
+    // Check if submitted late (after due date and grace period)
+    if (evaluateLateSubmission(assignment, submission.submittedAt).isLate) {
       return 'late';
     }
     return 'pending';
@@ -210,6 +244,7 @@ export async function GET(
       where: {
         courseId,
         users: studentWhere,
+        ...(filters.sectionId ? { sectionId: filters.sectionId } : {}),
       },
       include: {
         users: {
@@ -263,6 +298,7 @@ export async function GET(
             id: true,
             studentId: true,
             points: true,
+            submissionId: true,
           },
         },
         submissions: {
@@ -270,33 +306,57 @@ export async function GET(
             id: true,
             studentId: true,
             submittedAt: true,
+            attemptNumber: true,
+            groupId: true,
           },
         },
       },
       orderBy: { dueDate: 'asc' },
     });
 
+    // Fetch grade categories used to weight the totals
+    const categories = await prisma.grade_categories.findMany({
+      where: { courseId },
+      select: { id: true, name: true, weight: true },
+      orderBy: { orderIndex: 'asc' },
+    });
+
+    // Fetch sections for the section filter
+    const sections = await prisma.course_sections.findMany({
+      where: { courseId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+
+    // Fetch groups so group submissions can be graded together
+    const groups = await prisma.student_groups.findMany({
+      where: { courseId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+
+    // Fetch extensions, accommodations and section due dates so late/missing status uses each student's deadline
+    const adjustments = await loadDueDateAdjustments({
+      assignmentIds: assignments.map((a) => a.id),
+      courseIds: [courseId],
+    });
+
     // Transform data into GradebookMatrix format
     const gradebookAssignments: GradebookAssignment[] = assignments.map((a) => ({
       id: a.id,
       title: a.title,
       maxPoints: a.maxPoints,
       dueDate: a.dueDate,
+      categoryId: a.categoryId,
+      isGroupAssignment: a.isGroupAssignment,
     }));
 
-    // Calculate total possible points
-    const totalPossiblePoints = assignments.reduce(
-      (sum, a) => sum + a.maxPoints,
-      0
-    );
-
     // Build student rows with grade cells
     const gradebookStudents: GradebookStudent[] = [];
 
     for (const enrollment of enrollments) {
       const student = enrollment.users;
-      let totalPoints = 0;
-      const gradedAssignments: GradeInput[] = [];
+      const gradeItems: CategorizedGradeItem[] = [];
       let matchesStatusFilterForStudent = false;
 
       // Build grade cells for each assignment
@@ -305,16 +365,17 @@ export async function GET(
         const grade = assignment.grades.find(
           (g) => g.studentId === student.id
         );
-        // Find submission for this student/assignment
-        const submission = assignment.submissions.find(
-          (s) => s.studentId === student.id
+        // Show the counted attempt, or the latest one before grading
+        const submission = pickDisplayedAttempt(
+          assignment.submissions.filter((s) => s.studentId === student.id),
+          grade?.submissionId
         );
 
         // Determine cell status
         const status = determineCellState(
           submission ? { id: submission.id, submittedAt: submission.submittedAt } : null,
           grade ? { points: grade.points } : null,
-          { dueDate: assignment.dueDate }
+          resolveStudentDeadline(assignment, student.id, adjustments)
         );
 
         // Track if this student has any grades matching the status filter
@@ -322,22 +383,19 @@ export async function GET(
           matchesStatusFilterForStudent = true;
         }
 
-        // Track graded points for totals and GPA
-        if (grade) {
-          totalPoints += grade.points;
-          gradedAssignments.push({
-            points: grade.points,
-            maxPoints: assignment.maxPoints,
-            weight: 1,
-            isGraded: true,
-          });
-        }
+        // Track points for category-weighted totals and GPA
+        gradeItems.push({
+          categoryId: assignment.categoryId,
+          maxPoints: assignment.maxPoints,
+          points: grade?.points ?? null,
+        });
 
         return {
           assignmentId: assignment.id,
           score: grade?.points ?? null,
           status,
           submissionId: submission?.id ?? null,
+          groupId: submission?.groupId ?? null,
         };
       });
 
@@ -345,24 +403,17 @@ export async function GET(
       // Include student if they have at least one grade matching the status filter
       // or if filter is 'all'
       if (filters.status === 'all' || matchesStatusFilterForStudent) {
-        // Calculate percentage
-        const percentage =
-          totalPossiblePoints > 0
-            ? Math.round((totalPoints / totalPossiblePoints) * 10000) / 100
-            : 0;
-
-        // Calculate GPA using existing utility
-        const gpaResult = calculateGPA(gradedAssignments);
-        const gpa = gpaResult?.gpa ?? null;
+        // Calculate category-weighted percentage and GPA
+        const courseGrade = calculateCourseGrade(gradeItems, categories);
 
         gradebookStudents.push({
           id: student.id,
           name: `${student.name} ${student.surname}`,
           email: student.email,
           grades,
-          totalPoints,
-          percentage,
-          gpa,
+          totalPoints: courseGrade.totalPoints,
+          percentage: courseGrade.percentage,
+          gpa: courseGrade.gpa?.gpa ?? null,
         });
       }
     }
@@ -371,6 +422,9 @@ export async function GET(
     const matrix: GradebookMatrix = {
       students: gradebookStudents,
       assignments: gradebookAssignments,
+      categories,
+      sections,
+      groups,
       courseId: course.id,
       courseTitle: course.title,
       courseCode: course.code,
@@ -0,0 +1,227 @@
+/**
+ * Question Bank Detail API Route
+ * GET /api/instructor/question-banks/[id] - Get a question bank with questions
+ * PUT /api/instructor/question-banks/[id] - Update a question bank
+ * DELETE /api/instructor/question-banks/[id] - Delete a question bank
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateRequest } from '@/lib/validation'
+import { notDeleted, softDelete } from '@/lib/soft-delete'
+import { buildQuizQuestionsCreate, formatQuestionBank, questionBankInclude } from '@/lib/quiz'
+import { updateQuestionBankSchema } from '@/validators/quiz'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Find a question bank the current user may manage
+ */
+async function findOwnedBank(id: string, user: { id: string; role: string }) {
+  return prisma.question_banks.findFirst({
+    where: {
+      id,
+      ...(user.role === 'ADMIN' ? {} : { instructorId: user.id }),
+      ...notDeleted,
+    },
+    select: { id: true },
+  })
+}
+
+/**
+ * Number of quizzes in live course content that draw from a bank
+ */
+async function countActiveQuizzes(bankId: string) {
+  return prisma.quizzes.count({
+    where: { bankId, course_content: notDeleted },
+  })
+}
+
+/**
+ * GET /api/instructor/question-banks/[id]
+ * Get a single question bank
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const bank = await prisma.question_banks.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      include: questionBankInclude,
+    })
+
+    if (!bank) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Question bank not found' } },
+        { status: 404 }
+      )
+    }
+
+    const quizCount = await countActiveQuizzes(id)
+
+    return NextResponse.json({ bank: { ...formatQuestionBank(bank), quizCount } })
+  } catch (error) {
+    console.error('[Question Banks API] GET [id] error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/instructor/question-banks/[id]
+ * Update a bank's name and description, or replace its questions.
+ * Replaced questions are soft deleted so submitted attempts keep their answers;
+ * attempts started afterwards draw from the new questions.
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existing = await findOwnedBank(id, session.user)
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Question bank not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, updateQuestionBankSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, description, questions } = validation.data
+
+    const bank = await prisma.$transaction(async (tx) => {
+      if (questions) {
+        await tx.quiz_questions.updateMany({
+          where: { bankId: id, ...notDeleted },
+          data: { deletedAt: new Date() },
+        })
+      }
+
+      return tx.question_banks.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description: description || null }),
+          ...(questions && { quiz_questions: { create: buildQuizQuestionsCreate(questions) } }),
+          updatedAt: new Date(),
+        },
+        include: questionBankInclude,
+      })
+    })
+
+    const quizCount = await countActiveQuizzes(id)
+
+    return NextResponse.json({ bank: { ...formatQuestionBank(bank), quizCount } })
+  } catch (error) {
+    console.error('[Question Banks API] PUT error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/instructor/question-banks/[id]
+ * Soft delete a question bank. Banks used by a quiz cannot be deleted.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existing = await findOwnedBank(id, session.user)
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Question bank not found' } },
+        { status: 404 }
+      )
+    }
+
+    if ((await countActiveQuizzes(id)) > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONFLICT',
+            message: 'This question bank is used by a quiz. Remove the quiz first.',
+          },
+        },
+        { status: 409 }
+      )
+    }
+
+    await softDelete(prisma.question_banks, id, {
+      actor: session.user,
+      action: 'question_bank_deleted',
+      targetType: 'questionBank',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Question Banks API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
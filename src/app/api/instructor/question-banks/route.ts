@@ -0,0 +1,114 @@
+/**
+ * Question Banks API Route
+ * GET /api/instructor/question-banks - List the instructor's question banks
+ * POST /api/instructor/question-banks - Create a question bank with questions
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateRequest } from '@/lib/validation'
+import { notDeleted } from '@/lib/soft-delete'
+import { buildQuizQuestionsCreate, formatQuestionBank, questionBankInclude } from '@/lib/quiz'
+import { questionBankSchema } from '@/validators/quiz'
+
+/**
+ * GET /api/instructor/question-banks
+ * Retrieve all question banks owned by the authenticated instructor
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const banks = await prisma.question_banks.findMany({
+      where: { instructorId: session.user.id, ...notDeleted },
+      include: {
+        ...questionBankInclude,
+        _count: { select: { quizzes: { where: { course_content: notDeleted } } } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({
+      banks: banks.map((bank) => ({
+        ...formatQuestionBank(bank),
+        quizCount: bank._count.quizzes,
+      })),
+    })
+  } catch (error) {
+    console.error('[Question Banks API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/question-banks
+ * Create a new question bank
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const validation = await validateRequest(request, questionBankSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, description, questions } = validation.data
+
+    const bank = await prisma.question_banks.create({
+      data: {
+        id: randomUUID(),
+        name,
+        description: description || null,
+        instructorId: session.user.id,
+        updatedAt: new Date(),
+        quiz_questions: {
+          create: buildQuizQuestionsCreate(questions),
+        },
+      },
+      include: questionBankInclude,
+    })
+
+    return NextResponse.json({ bank: { ...formatQuestionBank(bank), quizCount: 0 } }, { status: 201 })
+  } catch (error) {
+    console.error('[Question Banks API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Rubric Detail API Route
+ * GET /api/instructor/rubrics/[id] - Get a rubric with criteria and levels
+ * PUT /api/instructor/rubrics/[id] - Update a rubric
+ * DELETE /api/instructor/rubrics/[id] - Delete a rubric
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateRequest } from '@/lib/validation'
+import { notDeleted, softDelete } from '@/lib/soft-delete'
+import {
+  buildRubricCriteriaCreate,
+  formatRubric,
+  rubricWithCriteriaInclude,
+} from '@/lib/rubrics'
+import { updateRubricSchema } from '@/validators/rubric'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Find a rubric the current user may manage
+ */
+async function findOwnedRubric(id: string, user: { id: string; role: string }) {
+  return prisma.rubrics.findFirst({
+    where: {
+      id,
+      ...(user.role === 'ADMIN' ? {} : { instructorId: user.id }),
+      ...notDeleted,
+    },
+    select: { id: true },
+  })
+}
+
+/**
+ * GET /api/instructor/rubrics/[id]
+ * Get a single rubric
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const rubric = await prisma.rubrics.findFirst({
+      where: {
+        id,
+        ...(session.user.role === 'ADMIN' ? {} : { instructorId: session.user.id }),
+        ...notDeleted,
+      },
+      include: rubricWithCriteriaInclude,
+    })
+
+    if (!rubric) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Rubric not found' } },
+        { status: 404 }
+      )
+    }
+
+    const scoreCount = await prisma.rubric_scores.count({
+      where: { rubric_criteria: { rubricId: id } },
+    })
+
+    return NextResponse.json({ rubric: { ...formatRubric(rubric), inUse: scoreCount > 0 } })
+  } catch (error) {
+    console.error('[Rubrics API] GET [id] error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/instructor/rubrics/[id]
+ * Update a rubric's name and description, or replace its criteria.
+ * Criteria cannot be replaced once the rubric has been used for grading.
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existing = await findOwnedRubric(id, session.user)
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Rubric not found' } },
+        { status: 404 }
+      )
+    }
+
+    const validation = await validateRequest(request, updateRubricSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, description, criteria } = validation.data
+
+    if (criteria) {
+      const scoreCount = await prisma.rubric_scores.count({
+        where: { rubric_criteria: { rubricId: id } },
+      })
+
+      if (scoreCount > 0) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'CONFLICT',
+              message: 'Criteria cannot be changed after the rubric has been used for grading',
+            },
+          },
+          { status: 409 }
+        )
+      }
+    }
+
+    const rubric = await prisma.$transaction(async (tx) => {
+      if (criteria) {
+        await tx.rubric_criteria.deleteMany({ where: { rubricId: id } })
+      }
+
+      return tx.rubrics.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description: description || null }),
+          ...(criteria && { rubric_criteria: { create: buildRubricCriteriaCreate(criteria) } }),
+          updatedAt: new Date(),
+        },
+        include: rubricWithCriteriaInclude,
+      })
+    })
+
+    return NextResponse.json({ rubric: formatRubric(rubric) })
+  } catch (error) {
+    console.error('[Rubrics API] PUT error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/instructor/rubrics/[id]
+ * Soft delete a rubric. Assignments and grades that already use it keep
+ * their criteria and scores.
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const existing = await findOwnedRubric(id, session.user)
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Rubric not found' } },
+        { status: 404 }
+      )
+    }
+
+    await softDelete(prisma.rubrics, id, {
+      actor: session.user,
+      action: 'rubric_deleted',
+      targetType: 'rubric',
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Rubrics API] DELETE error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
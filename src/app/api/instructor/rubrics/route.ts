@@ -0,0 +1,130 @@
+/**
+ * Rubrics API Route
+ * GET /api/instructor/rubrics - List the instructor's rubrics
+ * POST /api/instructor/rubrics - Create a rubric with criteria and levels
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateRequest } from '@/lib/validation'
+import { notDeleted } from '@/lib/soft-delete'
+import {
+  buildRubricCriteriaCreate,
+  formatRubric,
+  rubricWithCriteriaInclude,
+} from '@/lib/rubrics'
+import { rubricSchema } from '@/validators/rubric'
+
+/**
+ * GET /api/instructor/rubrics
+ * Retrieve all rubrics owned by the authenticated instructor
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const rubrics = await prisma.rubrics.findMany({
+      where: { instructorId: session.user.id, ...notDeleted },
+      include: {
+        ...rubricWithCriteriaInclude,
+        _count: { select: { assignments: { where: notDeleted } } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    // Rubrics with recorded scores can no longer have their criteria replaced
+    const scoredCriteria = await prisma.rubric_criteria.findMany({
+      where: {
+        rubricId: { in: rubrics.map((r) => r.id) },
+        rubric_scores: { some: {} },
+      },
+      select: { rubricId: true },
+      distinct: ['rubricId'],
+    })
+    const usedRubricIds = new Set(scoredCriteria.map((c) => c.rubricId))
+
+    return NextResponse.json({
+      rubrics: rubrics.map((rubric) => ({
+        ...formatRubric(rubric),
+        assignmentCount: rubric._count.assignments,
+        inUse: usedRubricIds.has(rubric.id),
+      })),
+    })
+  } catch (error) {
+    console.error('[Rubrics API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/instructor/rubrics
+ * Create a new rubric
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'INSTRUCTOR' && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Instructor access required' } },
+        { status: 403 }
+      )
+    }
+
+    const validation = await validateRequest(request, rubricSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { name, description, criteria } = validation.data
+
+    const rubric = await prisma.rubrics.create({
+      data: {
+        id: randomUUID(),
+        name,
+        description: description || null,
+        instructorId: session.user.id,
+        updatedAt: new Date(),
+        rubric_criteria: {
+          create: buildRubricCriteriaCreate(criteria),
+        },
+      },
+      include: rubricWithCriteriaInclude,
+    })
+
+    return NextResponse.json({ rubric: formatRubric(rubric) }, { status: 201 })
+  } catch (error) {
+    console.error('[Rubrics API] POST error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
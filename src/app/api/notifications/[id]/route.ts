@@ -0,0 +1,62 @@
+/**
+ * Notification API Route
+ * PATCH /api/notifications/[id] - Mark one of the current user's notifications as read
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notificationSelect } from '@/lib/notifications'
+
+/**
+ * PATCH /api/notifications/[id]
+ * Marking an already-read notification keeps its original read time
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const notification = await prisma.notifications.findFirst({
+      where: { id, userId: session.user.id },
+      select: notificationSelect,
+    })
+
+    if (!notification) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Notification not found' } },
+        { status: 404 }
+      )
+    }
+
+    if (notification.readAt) {
+      return NextResponse.json({ notification })
+    }
+
+    const updated = await prisma.notifications.update({
+      where: { id },
+      data: { readAt: new Date() },
+      select: notificationSelect,
+    })
+
+    return NextResponse.json({ notification: updated })
+  } catch (error) {
+    console.error('[Notifications API] PATCH error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
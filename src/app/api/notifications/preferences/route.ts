@@ -0,0 +1,89 @@
+/**
+ * Notification Preferences API Route
+ * GET /api/notifications/preferences - In-app and email settings for every notification type
+ * PUT /api/notifications/preferences - Update settings for one or more types
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateRequest } from '@/lib/validation'
+import { resolveNotificationPreferences } from '@/lib/notifications'
+import { notificationPreferencesSchema } from '@/validators/notification'
+
+async function loadPreferences(userId: string) {
+  const stored = await prisma.notification_preferences.findMany({
+    where: { userId },
+    select: { type: true, inApp: true, email: true },
+  })
+  return resolveNotificationPreferences(stored)
+}
+
+/**
+ * GET /api/notifications/preferences
+ * Types without a saved preference report the defaults (both channels on)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({ preferences: await loadPreferences(session.user.id) })
+  } catch (error) {
+    console.error('[Notification Preferences API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/notifications/preferences
+ */
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateRequest(request, notificationPreferencesSchema)
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const userId = session.user.id
+    const now = new Date()
+
+    await prisma.$transaction(
+      validation.data.preferences.map(({ type, inApp, email }) =>
+        prisma.notification_preferences.upsert({
+          where: { userId_type: { userId, type } },
+          create: { id: randomUUID(), userId, type, inApp, email, updatedAt: now },
+          update: { inApp, email, updatedAt: now },
+        })
+      )
+    )
+
+    return NextResponse.json({ preferences: await loadPreferences(userId) })
+  } catch (error) {
+    console.error('[Notification Preferences API] PUT error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
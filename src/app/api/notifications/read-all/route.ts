@@ -0,0 +1,38 @@
+/**
+ * Notifications Read-All API Route
+ * POST /api/notifications/read-all - Mark all of the current user's notifications as read
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * POST /api/notifications/read-all
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const { count } = await prisma.notifications.updateMany({
+      where: { userId: session.user.id, readAt: null },
+      data: { readAt: new Date() },
+    })
+
+    return NextResponse.json({ updated: count })
+  } catch (error) {
+    console.error('[Notifications API] read-all error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
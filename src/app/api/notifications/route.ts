@@ -0,0 +1,78 @@
+/**
+ * Notifications API Route
+ * GET /api/notifications - List the current user's notifications with their unread count
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { validateData } from '@/lib/validation'
+import { notificationSelect } from '@/lib/notifications'
+import { notifyDueAnnouncements } from '@/lib/announcement-notifications'
+import { notificationQuerySchema } from '@/validators/notification'
+
+/**
+ * GET /api/notifications
+ * Newest first; `unreadOnly=true` limits the list to unread notifications
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validation = validateData(
+      {
+        unreadOnly: searchParams.get('unreadOnly') || undefined,
+        page: searchParams.get('page') || '1',
+        limit: searchParams.get('limit') || '20',
+      },
+      notificationQuerySchema
+    )
+    if (!validation.success) {
+      return validation.response
+    }
+
+    // The bell polls here, so scheduled announcements go out soon after their window opens
+    await notifyDueAnnouncements()
+
+    const { unreadOnly, page, limit } = validation.data
+    const where = { userId: session.user.id, ...(unreadOnly && { readAt: null }) }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notifications.findMany({
+        where,
+        select: notificationSelect,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.notifications.count({ where }),
+      prisma.notifications.count({ where: { userId: session.user.id, readAt: null } }),
+    ])
+
+    return NextResponse.json({
+      data: notifications,
+      unreadCount,
+      meta: {
+        total,
+        page,
+        pageSize: limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('[Notifications API] GET error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * SCORM Package File API
+ *
+ * GET /api/scorm/[packageId]/[token]/[...path]
+ * Serves a file of an unpacked SCORM package from R2. Files are served
+ * with a sandbox CSP (set in next.config.js), so the instructor's scripts
+ * run with an opaque origin instead of the LMS's, and HTML pages load the
+ * bridge script that provides the runtime API. Sandboxed pages request
+ * files without the viewer's cookies, so the viewer is identified by the
+ * token in the URL (see `createScormFileToken`).
+ *
+ * Access: the course instructor, admins and enrolled students
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getFileStream } from '@/lib/r2';
+import { getScormMimeType, injectScormBridge, verifyScormFileToken } from '@/lib/scorm';
+import { normalizeZipPath } from '@/lib/zip';
+import { isPublishedNow } from '@/lib/publishing';
+
+interface RouteParams {
+  params: Promise<{
+    packageId: string;
+    token: string;
+    path: string[];
+  }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { packageId, token, path } = await params;
+    const userId = verifyScormFileToken(packageId, token);
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.users.findUnique({
+      where: { id: userId },
+      select: { role: true, deletedAt: true },
+    });
+
+    if (!user || user.deletedAt) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const filePath = normalizeZipPath(path.join('/'));
+
+    if (!filePath) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const scormPackage = await prisma.scorm_packages.findUnique({
+      where: { id: packageId },
+      select: {
+        storagePrefix: true,
+        course_content: {
+          select: {
+            courseId: true,
+            isPublished: true,
+            publishAt: true,
+            unpublishAt: true,
+            deletedAt: true,
+            courses: { select: { instructorId: true } },
+          },
+        },
+      },
+    });
+
+    if (!scormPackage) {
+      return NextResponse.json({ error: 'Package not found' }, { status: 404 });
+    }
+
+    const content = scormPackage.course_content;
+    const isInstructor = content.courses.instructorId === userId;
+
+    if (!isInstructor && user.role !== 'ADMIN') {
+      const enrollment = await prisma.enrollments.findUnique({
+        where: {
+          userId_courseId: {
+            userId,
+            courseId: content.courseId,
+          },
+        },
+      });
+
+      if (!enrollment || !isPublishedNow(content) || content.deletedAt) {
+        return NextResponse.json({ error: 'Package not found' }, { status: 404 });
+      }
+    }
+
+    const file = await getFileStream(`${scormPackage.storagePrefix}/${filePath}`);
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const contentType = file.contentType || getScormMimeType(filePath);
+    const headers = {
+      'Content-Type': contentType,
+      'Cache-Control': 'private, max-age=3600',
+      'X-Content-Type-Options': 'nosniff',
+    };
+
+    if (contentType.startsWith('text/html')) {
+      // Read as latin1 so the page's bytes pass through whatever its charset
+      const html = Buffer.from(await new Response(file.body).arrayBuffer()).toString('latin1');
+      return new NextResponse(Buffer.from(injectScormBridge(html), 'latin1'), { headers });
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        ...headers,
+        ...(file.size !== undefined && { 'Content-Length': String(file.size) }),
+      },
+    });
+  } catch (error) {
+    console.error('Error serving SCORM file:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
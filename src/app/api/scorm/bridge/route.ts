@@ -0,0 +1,21 @@
+/**
+ * SCORM Bridge Script API
+ *
+ * GET /api/scorm/bridge
+ * Serves the script that package HTML pages load to get the runtime API
+ * inside their sandbox (see `getScormBridgeScript`). It holds no user data,
+ * so it is public.
+ */
+
+import { NextResponse } from 'next/server';
+import { getScormBridgeScript } from '@/lib/scorm-runtime';
+
+export async function GET() {
+  return new NextResponse(getScormBridgeScript(), {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { withinPublishWindow } from '@/lib/publishing'
+import { visibleToSections } from '@/lib/sections'
 
 export async function GET() {
   try {
@@ -22,7 +24,8 @@ export async function GET() {
         }
       },
       select: {
-        courseId: true
+        courseId: true,
+        sectionId: true
       }
     })
 
@@ -34,7 +37,9 @@ export async function GET() {
         courseId: {
           in: courseIds
         },
-        ...notDeleted // Filter out soft-deleted announcements
+        ...notDeleted, // Filter out soft-deleted announcements
+        ...withinPublishWindow(), // and scheduled ones that are not live yet
+        ...visibleToSections(enrollments.map(e => e.sectionId)) // and other sections' ones
       },
       include: {
         courses: {
@@ -61,7 +66,8 @@ export async function GET() {
       id: announcement.id,
       title: announcement.title,
       content: announcement.content,
-      createdAt: announcement.createdAt,
+      // Scheduled announcements are dated from when they went live
+      createdAt: announcement.publishAt ?? announcement.createdAt,
       course: announcement.courses,
       author: announcement.users
     }))
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getCriterionMaxPoints } from '@/lib/rubrics'
 
 export async function GET(
   request: NextRequest,
@@ -22,6 +23,25 @@ export async function GET(
           assignmentId: id,
           studentId: session.user.id
         }
+      },
+      include: {
+        rubric_scores: {
+          include: {
+            rubric_criteria: {
+              include: {
+                rubric_levels: {
+                  select: { points: true }
+                }
+              }
+            },
+            rubric_levels: {
+              select: { label: true }
+            }
+          },
+          orderBy: {
+            rubric_criteria: { orderIndex: 'asc' }
+          }
+        }
       }
     })
 
@@ -29,7 +49,21 @@ export async function GET(
       return NextResponse.json({ error: 'Grade not found' }, { status: 404 })
     }
 
-    return NextResponse.json(grade)
+    const { rubric_scores, ...rest } = grade
+
+    // Per-criterion breakdown when the grade was given with a rubric
+    return NextResponse.json({
+      ...rest,
+      rubricScores: rubric_scores.map((score) => ({
+        criterionId: score.criterionId,
+        title: score.rubric_criteria.title,
+        description: score.rubric_criteria.description,
+        level: score.rubric_levels?.label ?? null,
+        points: score.points,
+        maxPoints: getCriterionMaxPoints({ levels: score.rubric_criteria.rubric_levels }),
+        comment: score.comment
+      }))
+    })
   } catch (error) {
     console.error('Error fetching grade:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { loadDueDateAdjustments, resolveStudentDeadline } from '@/lib/extensions'
+import { publishedNow } from '@/lib/publishing'
+import { findStudentGroup } from '@/lib/groups'
 
 export async function GET(
   request: NextRequest,
@@ -21,7 +24,7 @@ export async function GET(
     const assignment = await prisma.assignments.findFirst({
       where: {
         id,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
         courses: {
           isActive: true,
@@ -57,10 +60,27 @@ export async function GET(
       return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
     }
 
+    // Show the student their own deadline (extensions and accommodations applied)
+    const adjustments = await loadDueDateAdjustments({
+      assignmentIds: [assignment.id],
+      courseIds: [assignment.courseId],
+      studentIds: [session.user.id]
+    })
+    const studentDeadline = resolveStudentDeadline(assignment, session.user.id, adjustments)
+
+    // On a group assignment the student submits for their group
+    const group = assignment.isGroupAssignment
+      ? await findStudentGroup(assignment.courseId, session.user.id)
+      : null
+
     // Transform Prisma relation name to frontend expected name
     const { courses, ...rest } = assignment
     return NextResponse.json({
       ...rest,
+      dueDate: studentDeadline.dueDate,
+      lateCutoffAt: studentDeadline.lateCutoffAt,
+      originalDueDate: assignment.dueDate,
+      group: group && { id: group.id, name: group.name, members: group.members },
       course: courses // rename 'courses' → 'course' for frontend
     })
   } catch (error) {
@@ -4,6 +4,13 @@ import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { evaluateLateSubmission } from '@/lib/late-policy'
+import { loadDueDateAdjustments, resolveStudentDeadline } from '@/lib/extensions'
+import { canSubmitAttempt } from '@/lib/attempts'
+import { getPublicUrl } from '@/lib/r2'
+import { notifyUsers } from '@/lib/notifications'
+import { publishedNow } from '@/lib/publishing'
+import { findStudentGroup } from '@/lib/groups'
 
 export async function GET(
   request: NextRequest,
@@ -18,20 +25,25 @@ export async function GET(
 
     const { id } = await params
 
-    const submission = await prisma.submissions.findUnique({
+    const attempts = await prisma.submissions.findMany({
       where: {
-        assignmentId_studentId: {
-          assignmentId: id,
-          studentId: session.user.id
-        }
+        assignmentId: id,
+        studentId: session.user.id
+      },
+      orderBy: {
+        attemptNumber: 'desc'
       }
     })
 
-    if (!submission) {
+    if (attempts.length === 0) {
       return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
     }
 
-    return NextResponse.json(submission)
+    // The latest attempt, plus the full attempt history for the timeline
+    return NextResponse.json({
+      ...attempts[0],
+      attempts
+    })
   } catch (error) {
     console.error('Error fetching submission:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -50,17 +62,22 @@ export async function POST(
     }
 
     const { id } = await params
-    const { content, fileUrl } = await request.json()
+    const { content, fileUrl, s3Key } = await request.json()
 
     if ((!content || !content.trim()) && !fileUrl) {
       return NextResponse.json({ error: 'Either content or file is required' }, { status: 400 })
     }
 
+    // The storage key must belong to the submitted file
+    if (s3Key && getPublicUrl(s3Key) !== fileUrl) {
+      return NextResponse.json({ error: 'File does not match the uploaded object' }, { status: 400 })
+    }
+
     // Check if assignment exists, is published, and not deleted
     const assignment = await prisma.assignments.findFirst({
       where: {
         id: id,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
         courses: {
           isActive: true,
@@ -68,7 +85,10 @@ export async function POST(
         }
       },
       include: {
-        courses: true
+        courses: true,
+        quizzes: { select: { id: true } },
+        scorm_packages: { select: { id: true } },
+        discussions: { select: { id: true } }
       }
     })
 
@@ -76,6 +96,21 @@ export async function POST(
       return NextResponse.json({ error: 'Assignment not found or no longer available' }, { status: 404 })
     }
 
+    // Quiz attempts are submitted through the quiz itself
+    if (assignment.quizzes) {
+      return NextResponse.json({ error: 'Quizzes cannot be submitted as files' }, { status: 400 })
+    }
+
+    // SCORM packages report their own score
+    if (assignment.scorm_packages) {
+      return NextResponse.json({ error: 'SCORM packages cannot be submitted as files' }, { status: 400 })
+    }
+
+    // Graded discussions are graded from the student's posts
+    if (assignment.discussions) {
+      return NextResponse.json({ error: 'Discussions are graded from your posts' }, { status: 400 })
+    }
+
     // Check if student is enrolled in the course
     const enrollment = await prisma.enrollments.findUnique({
       where: {
@@ -90,103 +125,94 @@ export async function POST(
       return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
     }
 
-    // Check if assignment is overdue
-    if (assignment.dueDate && new Date() > assignment.dueDate) {
-      return NextResponse.json({ error: 'Assignment is overdue' }, { status: 400 })
-    }
-
-    // Check if submission already exists
-    const existingSubmission = await prisma.submissions.findUnique({
-      where: {
-        assignmentId_studentId: {
-          assignmentId: id,
-          studentId: session.user.id
-        }
-      }
-    })
+    // On a group assignment the student submits for their whole group
+    const group = assignment.isGroupAssignment
+      ? await findStudentGroup(assignment.courseId, session.user.id)
+      : null
 
-    if (existingSubmission) {
-      return NextResponse.json({ error: 'Submission already exists' }, { status: 400 })
+    if (assignment.isGroupAssignment && !group) {
+      return NextResponse.json(
+        { error: 'You are not in a group yet. Ask your instructor to add you to one.' },
+        { status: 400 }
+      )
     }
 
-    const submission = await prisma.submissions.create({
-      data: {
-        id: randomUUID(),
-        content: content || null,
-        fileUrl: fileUrl || null,
-        assignmentId: id,
-        studentId: session.user.id
-      }
-    })
-
-    return NextResponse.json(submission, { status: 201 })
-  } catch (error) {
-    console.error('Error creating submission:', error)
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
-  }
-}
+    const memberIds = group ? group.memberIds : [session.user.id]
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  try {
-    const session = await getServerSession(authOptions)
-
-    if (!session || session.user.role !== 'STUDENT') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const { id } = await params
-    const { content, fileUrl } = await request.json()
-
-    if ((!content || !content.trim()) && !fileUrl) {
-      return NextResponse.json({ error: 'Either content or file is required' }, { status: 400 })
+    // Apply the assignment's late policy to the student's (possibly extended) deadline
+    const adjustments = await loadDueDateAdjustments({
+      assignmentIds: [id],
+      courseIds: [assignment.courseId],
+      studentIds: [session.user.id]
+    })
+    const lateResult = evaluateLateSubmission(resolveStudentDeadline(assignment, session.user.id, adjustments))
+    if (!lateResult.accepted) {
+      return NextResponse.json({ error: lateResult.reason }, { status: 400 })
     }
 
-    // Check if submission exists
-    const existingSubmission = await prisma.submissions.findUnique({
+    // Every submission is a new attempt; earlier attempts are kept.
+    // Group members share their attempts.
+    const lastAttempt = await prisma.submissions.findFirst({
       where: {
-        assignmentId_studentId: {
-          assignmentId: id,
-          studentId: session.user.id
-        }
+        assignmentId: id,
+        studentId: { in: memberIds }
       },
-      include: {
-        assignments: {
-          include: {
-            courses: true
-          }
-        }
+      orderBy: {
+        attemptNumber: 'desc'
+      },
+      select: {
+        attemptNumber: true
       }
     })
-
-    if (!existingSubmission) {
-      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
-    }
-
-    // Check if assignment is overdue
-    if (existingSubmission.assignments.dueDate && new Date() > existingSubmission.assignments.dueDate) {
-      return NextResponse.json({ error: 'Assignment is overdue' }, { status: 400 })
+    const attemptsUsed = lastAttempt?.attemptNumber ?? 0
+
+    if (!canSubmitAttempt(assignment.maxAttempts, attemptsUsed)) {
+      return NextResponse.json(
+        {
+          error: assignment.maxAttempts === 1
+            ? 'Submission already exists'
+            : `All ${assignment.maxAttempts} attempts have been used`
+        },
+        { status: 400 }
+      )
     }
 
-    const submission = await prisma.submissions.update({
-      where: {
-        assignmentId_studentId: {
-          assignmentId: id,
-          studentId: session.user.id
-        }
-      },
-      data: {
-        content: content || null,
-        fileUrl: fileUrl || null,
-        submittedAt: new Date()
-      }
+    // Every group member gets a copy of the attempt, so grades stay per student
+    const submissions = await prisma.$transaction(
+      memberIds.map((studentId) =>
+        prisma.submissions.create({
+          data: {
+            id: randomUUID(),
+            content: content || null,
+            fileUrl: fileUrl || null,
+            s3Key: s3Key || null,
+            attemptNumber: attemptsUsed + 1,
+            assignmentId: id,
+            studentId,
+            groupId: group?.id ?? null
+          }
+        })
+      )
+    )
+    const submission = submissions[memberIds.indexOf(session.user.id)]
+
+    await notifyUsers({
+      userIds: [assignment.courses.instructorId],
+      type: 'SUBMISSION_RECEIVED',
+      title: group
+        ? `${session.user.name} submitted ${assignment.title} for ${group.name}`
+        : `${session.user.name} submitted ${assignment.title}`,
+      body: submission.attemptNumber > 1
+        ? `Attempt ${submission.attemptNumber} in ${assignment.courses.code}`
+        : `Submitted in ${assignment.courses.code}`,
+      link: `/instructor/assignments/${id}/grade/${submission.id}`,
+      courseId: assignment.courseId,
+      actorId: session.user.id
     })
 
-    return NextResponse.json(submission)
+    return NextResponse.json(submission, { status: 201 })
   } catch (error) {
-    console.error('Error updating submission:', error)
+    console.error('Error creating submission:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
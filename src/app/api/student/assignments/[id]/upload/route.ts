@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { publishedNow } from '@/lib/publishing'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { existsSync } from 'fs'
@@ -23,7 +24,7 @@ export async function POST(
     const assignment = await prisma.assignments.findUnique({
       where: {
         id: id,
-        isPublished: true
+        ...publishedNow()
       },
       include: {
         courses: true
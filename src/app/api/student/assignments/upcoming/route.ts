@@ -3,6 +3,31 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { loadDueDateAdjustments, getStudentDueDate } from '@/lib/extensions'
+import { publishedNow } from '@/lib/publishing'
+
+const UPCOMING_LIMIT = 5
+
+/**
+ * Page where the student works on an assignment: the quiz's content item for
+ * quizzes, the discussion for graded discussions, otherwise the assignment's
+ * submission page
+ */
+function getAssignmentHref(assignment: {
+  id: string
+  courseId: string
+  quizzes: { course_content: { id: string; moduleId: string | null } } | null
+  discussions: { id: string } | null
+}): string {
+  const content = assignment.quizzes?.course_content
+  if (content?.moduleId) {
+    return `/courses/${assignment.courseId}/modules/${content.moduleId}/content/${content.id}`
+  }
+  if (assignment.discussions) {
+    return `/courses/${assignment.courseId}/discussions/${assignment.discussions.id}`
+  }
+  return `/courses/${assignment.courseId}/assignments/${assignment.id}`
+}
 
 export async function GET() {
   try {
@@ -28,16 +53,27 @@ export async function GET() {
 
     const courseIds = enrollments.map(e => e.courseId)
 
-    // Only get non-deleted assignments from non-deleted courses
+    // Only get non-deleted assignments from non-deleted courses.
+    // Past-due assignments are included because an extension, section due
+    // date or accommodation may still put them in the student's future.
     const assignments = await prisma.assignments.findMany({
       where: {
         courseId: {
           in: courseIds
         },
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
+        // SCORM packages are taken from their module, not the assignment pages
+        scorm_packages: { is: null },
+        // Quizzes and graded discussions are listed while their content item
+        // or discussion is visible, and link to it
+        OR: [
+          { quizzes: { is: null }, discussions: { is: null } },
+          { quizzes: { is: { course_content: { ...publishedNow(), deletedAt: null, moduleId: { not: null } } } } },
+          { discussions: { is: { deletedAt: null } } }
+        ],
         dueDate: {
-          gte: new Date()
+          not: null
         }
       },
       include: {
@@ -46,21 +82,50 @@ export async function GET() {
             title: true,
             code: true
           }
+        },
+        quizzes: {
+          select: {
+            course_content: {
+              select: {
+                id: true,
+                moduleId: true
+              }
+            }
+          }
+        },
+        discussions: {
+          select: {
+            id: true
+          }
         }
-      },
-      orderBy: {
-        dueDate: 'asc'
-      },
-      take: 5
+      }
+    })
+
+    const adjustments = await loadDueDateAdjustments({
+      assignmentIds: assignments.map(a => a.id),
+      courseIds,
+      studentIds: [session.user.id]
     })
 
+    const now = new Date()
+
     // Transform 'courses' to 'course' for frontend compatibility
-    const transformedAssignments = assignments.map(assignment => ({
-      id: assignment.id,
-      title: assignment.title,
-      dueDate: assignment.dueDate,
-      course: assignment.courses
-    }))
+    const transformedAssignments = assignments
+      .map(assignment => ({
+        id: assignment.id,
+        title: assignment.title,
+        dueDate: getStudentDueDate(
+          assignment,
+          adjustments.extensions.get(`${assignment.id}:${session.user.id}`),
+          adjustments.accommodations.get(`${assignment.courseId}:${session.user.id}`),
+          adjustments.sectionDueDates.get(`${assignment.id}:${session.user.id}`)
+        ),
+        course: assignment.courses,
+        href: getAssignmentHref(assignment)
+      }))
+      .filter(assignment => assignment.dueDate && assignment.dueDate >= now)
+      .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime())
+      .slice(0, UPCOMING_LIMIT)
 
     return NextResponse.json(transformedAssignments)
   } catch (error) {
@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { withinPublishWindow } from '@/lib/publishing'
+import { visibleToSections } from '@/lib/sections'
+import { notifyDueAnnouncements } from '@/lib/announcement-notifications'
 
 export async function GET(
   request: NextRequest,
@@ -33,11 +36,16 @@ export async function GET(
       return NextResponse.json({ error: 'Not enrolled in this course or course not available' }, { status: 403 })
     }
 
-    // Only get non-deleted announcements
+    // Scheduled announcements that just went live are announced on first read
+    await notifyDueAnnouncements()
+
+    // Only get non-deleted announcements for the whole course or the student's section
     const announcements = await prisma.announcements.findMany({
       where: {
         courseId: id,
-        ...notDeleted
+        ...notDeleted,
+        ...withinPublishWindow(),
+        ...visibleToSections([enrollment.sectionId])
       },
       include: {
         users: {
@@ -56,10 +64,13 @@ export async function GET(
       id: announcement.id,
       title: announcement.title,
       content: announcement.content,
-      createdAt: announcement.createdAt,
+      // Scheduled announcements are dated from when they went live
+      createdAt: announcement.publishAt ?? announcement.createdAt,
       author: announcement.users
     }))
 
+    transformedAnnouncements.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
     return NextResponse.json(transformedAnnouncements)
   } catch (error) {
     console.error('Error fetching course announcements:', error)
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { publishedNow } from '@/lib/publishing'
 
 export async function GET(
   request: NextRequest,
@@ -37,8 +38,12 @@ export async function GET(
     const assignments = await prisma.assignments.findMany({
       where: {
         courseId: id,
-        isPublished: true,
-        ...notDeleted
+        ...publishedNow(),
+        ...notDeleted,
+        // Quizzes, SCORM packages and graded discussions are taken from their module or discussion, not the assignment pages
+        quizzes: { is: null },
+        scorm_packages: { is: null },
+        discussions: { is: null }
       },
       orderBy: {
         dueDate: 'asc'
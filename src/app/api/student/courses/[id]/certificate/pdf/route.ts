@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getCertificateVerifyUrl, renderCertificatePdf } from '@/lib/certificates'
+
+/**
+ * GET /api/student/courses/[id]/certificate/pdf
+ *
+ * Download the signed-in student's certificate as a PDF.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const certificate = await prisma.certificates.findUnique({
+      where: {
+        userId_courseId: {
+          userId: session.user.id,
+          courseId: id
+        }
+      }
+    })
+
+    if (!certificate) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 })
+    }
+
+    const pdf = renderCertificatePdf(certificate, getCertificateVerifyUrl(certificate.code))
+    const filename = `certificate-${certificate.courseCode}.pdf`.replace(/[^\w.-]/g, '_')
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error generating certificate PDF:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
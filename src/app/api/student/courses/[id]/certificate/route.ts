@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { issueCertificateIfEligible } from '@/lib/certificates'
+
+/**
+ * GET /api/student/courses/[id]/certificate
+ *
+ * Completion status and certificate for the signed-in student. Issues the
+ * certificate when the course has been completed since it was last checked
+ * (e.g. a grade posted after the last module was finished).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const enrollment = await prisma.enrollments.findUnique({
+      where: {
+        userId_courseId: {
+          userId: session.user.id,
+          courseId: id
+        }
+      }
+    })
+
+    if (!enrollment) {
+      return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
+    }
+
+    const { certificate, status } = await issueCertificateIfEligible(id, session.user.id)
+
+    if (!status) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      status,
+      certificate: certificate && {
+        code: certificate.code,
+        issuedAt: certificate.issuedAt,
+        finalPercentage: certificate.finalPercentage,
+        letterGrade: certificate.letterGrade
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching certificate:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
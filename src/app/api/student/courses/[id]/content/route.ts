@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { publishedNow } from '@/lib/publishing'
 
 export async function GET(
   request: NextRequest,
@@ -37,7 +38,7 @@ export async function GET(
     const content = await prisma.course_content.findMany({
       where: {
         courseId: id,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted
       },
       orderBy: {
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { findThreadAuthorId, setAcceptedAnswer } from '@/lib/discussion-posts'
+import { isPostOpen } from '@/lib/discussion-moderation'
+import { acceptAnswerSchema } from '@/validators/discussion'
+
+// In a Q&A discussion, the student who asked a question marks a reply as its accepted answer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string; postId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId, postId } = await params
+
+    // Check if student is enrolled in the course
+    const enrollment = await prisma.enrollments.findUnique({
+      where: {
+        userId_courseId: {
+          userId: session.user.id,
+          courseId: id
+        }
+      }
+    })
+
+    if (!enrollment) {
+      return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
+    }
+
+    // Check if discussion exists and is not locked
+    const discussion = await prisma.discussions.findUnique({
+      where: {
+        id: discussionId,
+        courseId: id
+      }
+    })
+
+    if (!discussion) {
+      return NextResponse.json({ error: 'Discussion not found' }, { status: 404 })
+    }
+
+    if (discussion.isLocked) {
+      return NextResponse.json({ error: 'Discussion is locked' }, { status: 403 })
+    }
+
+    if (!discussion.isQuestionAnswer) {
+      return NextResponse.json({ error: 'Only Q&A discussions have accepted answers' }, { status: 400 })
+    }
+
+    const post = await prisma.discussion_posts.findUnique({
+      where: {
+        id: postId,
+        discussionId: discussionId
+      }
+    })
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    if (!isPostOpen(post)) {
+      return NextResponse.json({ error: 'This post has been hidden or removed by an instructor' }, { status: 403 })
+    }
+
+    if (!post.parentId) {
+      return NextResponse.json({ error: 'Only replies can be accepted answers' }, { status: 400 })
+    }
+
+    // Only the student who asked the question picks its answer
+    if (await findThreadAuthorId(discussionId, postId) !== session.user.id) {
+      return NextResponse.json({ error: 'Only the author of the question can accept an answer' }, { status: 403 })
+    }
+
+    const parsed = acceptAnswerSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'accepted must be true or false' }, { status: 400 })
+    }
+
+    await prisma.$transaction((tx) =>
+      setAcceptedAnswer({ discussionId, postId, accepted: parsed.data.accepted }, tx)
+    )
+
+    return NextResponse.json({ id: postId, isAcceptedAnswer: parsed.data.accepted })
+  } catch (error) {
+    console.error('Error accepting discussion answer:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
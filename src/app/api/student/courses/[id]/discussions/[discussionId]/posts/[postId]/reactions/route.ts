@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { randomUUID } from 'crypto'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { summarizeReactions } from '@/lib/discussions'
+import { isPostOpen } from '@/lib/discussion-moderation'
+import { canSeePeerPosts } from '@/lib/discussion-visibility'
+import { postReactionSchema } from '@/validators/discussion'
+
+// Toggles the student's reaction on a post and returns the post's reaction counts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string; postId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId, postId } = await params
+
+    // Check if student is enrolled in the course
+    const enrollment = await prisma.enrollments.findUnique({
+      where: {
+        userId_courseId: {
+          userId: session.user.id,
+          courseId: id
+        }
+      }
+    })
+
+    if (!enrollment) {
+      return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
+    }
+
+    // Check if discussion exists and is not locked
+    const discussion = await prisma.discussions.findUnique({
+      where: {
+        id: discussionId,
+        courseId: id
+      }
+    })
+
+    if (!discussion) {
+      return NextResponse.json({ error: 'Discussion not found' }, { status: 404 })
+    }
+
+    if (discussion.isLocked) {
+      return NextResponse.json({ error: 'Discussion is locked' }, { status: 403 })
+    }
+
+    const post = await prisma.discussion_posts.findUnique({
+      where: {
+        id: postId,
+        discussionId: discussionId
+      }
+    })
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    if (!isPostOpen(post)) {
+      return NextResponse.json({ error: 'This post has been hidden or removed by an instructor' }, { status: 403 })
+    }
+
+    if (post.authorId !== session.user.id && !(await canSeePeerPosts(discussion, session.user.id))) {
+      return NextResponse.json({ error: 'Start a thread of your own before reacting to classmates' }, { status: 403 })
+    }
+
+    const parsed = postReactionSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid reaction' }, { status: 400 })
+    }
+
+    const { type } = parsed.data
+    const existing = await prisma.discussion_post_reactions.findUnique({
+      where: {
+        postId_userId_type: {
+          postId,
+          userId: session.user.id,
+          type
+        }
+      }
+    })
+
+    if (existing) {
+      await prisma.discussion_post_reactions.delete({
+        where: {
+          id: existing.id
+        }
+      })
+    } else {
+      await prisma.discussion_post_reactions.create({
+        data: {
+          id: randomUUID(),
+          type,
+          postId,
+          userId: session.user.id
+        }
+      })
+    }
+
+    const reactions = await prisma.discussion_post_reactions.findMany({
+      where: {
+        postId
+      },
+      select: {
+        type: true,
+        userId: true
+      }
+    })
+
+    return NextResponse.json({ reactions: summarizeReactions(reactions, session.user.id) })
+  } catch (error) {
+    console.error('Error reacting to discussion post:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { reportPost } from '@/lib/discussion-moderation'
+import { canSeePeerPosts } from '@/lib/discussion-visibility'
+import { postReportSchema } from '@/validators/discussion'
+
+// Reports a post to the instructor, flagging it for review.
+// Locked discussions can still be reported.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discussionId: string; postId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, discussionId, postId } = await params
+
+    // Check if student is enrolled in the course
+    const enrollment = await prisma.enrollments.findUnique({
+      where: {
+        userId_courseId: {
+          userId: session.user.id,
+          courseId: id
+        }
+      }
+    })
+
+    if (!enrollment) {
+      return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
+    }
+
+    const post = await prisma.discussion_posts.findFirst({
+      where: {
+        id: postId,
+        discussionId,
+        deletedAt: null,
+        discussions: {
+          courseId: id,
+          deletedAt: null
+        }
+      },
+      include: {
+        discussions: true
+      }
+    })
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 })
+    }
+
+    if (post.authorId === session.user.id) {
+      return NextResponse.json({ error: 'You cannot report your own post' }, { status: 400 })
+    }
+
+    if (!(await canSeePeerPosts(post.discussions, session.user.id))) {
+      return NextResponse.json({ error: 'Start a thread of your own before reporting classmates\' posts' }, { status: 403 })
+    }
+
+    const parsed = postReportSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 })
+    }
+
+    await prisma.$transaction((tx) =>
+      reportPost({ postId, reporterId: session.user.id, reason: parsed.data.reason }, tx)
+    )
+
+    return NextResponse.json({ message: 'Post reported. Your instructor will review it.' }, { status: 201 })
+  } catch (error) {
+    console.error('Error reporting discussion post:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
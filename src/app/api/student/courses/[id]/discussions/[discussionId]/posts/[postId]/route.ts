@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { isPostOpen, recordPostEdit } from '@/lib/discussion-moderation'
+import { notifyMentions, syncPostMentions } from '@/lib/discussion-notifications'
 
 export async function PUT(
   request: NextRequest,
@@ -62,6 +64,10 @@ export async function PUT(
       return NextResponse.json({ error: 'You can only edit your own posts' }, { status: 403 })
     }
 
+    if (!isPostOpen(post)) {
+      return NextResponse.json({ error: 'This post has been hidden or removed by an instructor' }, { status: 403 })
+    }
+
     const { content } = await request.json()
 
     if (!content || !content.trim()) {
@@ -71,24 +77,44 @@ export async function PUT(
       )
     }
 
-    const updatedPost = await prisma.discussion_posts.update({
-      where: {
-        id: postId
-      },
-      data: {
-        content: content.trim()
-      },
-      include: {
-        users: {
-          select: {
-            id: true,
-            name: true,
-            email: true
+    // The previous content is kept so instructors can see what was changed
+    const { updatedPost, mentionedIds } = await prisma.$transaction(async (tx) => {
+      if (content.trim() !== post.content) {
+        await recordPostEdit({ postId, previousContent: post.content, editedById: session.user.id }, tx)
+      }
+
+      const updated = await tx.discussion_posts.update({
+        where: {
+          id: postId
+        },
+        data: {
+          content: content.trim()
+        },
+        include: {
+          users: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
           }
         }
+      })
+
+      return {
+        updatedPost: updated,
+        mentionedIds: await syncPostMentions({ postId, content: updated.content, courseId: id }, tx)
       }
     })
 
+    // Only users mentioned for the first time are notified
+    await notifyMentions({
+      discussion,
+      content: updatedPost.content,
+      mentionedIds,
+      actor: { id: session.user.id, name: session.user.name }
+    })
+
     return NextResponse.json(updatedPost)
   } catch (error) {
     console.error('Error updating discussion post:', error)
@@ -155,12 +181,26 @@ export async function DELETE(
       return NextResponse.json({ error: 'You can only delete your own posts' }, { status: 403 })
     }
 
-    await prisma.discussion_posts.delete({
+    // Posts under moderation stay until an instructor has reviewed them
+    if (!isPostOpen(post) || post.isFlagged) {
+      return NextResponse.json({ error: 'This post is under review and cannot be deleted' }, { status: 403 })
+    }
+
+    // Deleting a post with replies would turn the replies into threads of their own.
+    // Checked in the delete itself so a reply posted meanwhile is not orphaned.
+    const { count } = await prisma.discussion_posts.deleteMany({
       where: {
-        id: postId
+        id: postId,
+        other_discussion_posts: {
+          none: {}
+        }
       }
     })
 
+    if (count === 0) {
+      return NextResponse.json({ error: 'Posts with replies cannot be deleted. You can still edit this post.' }, { status: 409 })
+    }
+
     return NextResponse.json({ message: 'Post deleted successfully' })
   } catch (error) {
     console.error('Error deleting discussion post:', error)
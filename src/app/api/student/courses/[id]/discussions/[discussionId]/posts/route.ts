@@ -3,6 +3,9 @@ import { getServerSession } from 'next-auth'
 import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { isPostOpen } from '@/lib/discussion-moderation'
+import { notifyDiscussionPost, syncPostMentions } from '@/lib/discussion-notifications'
+import { canSeePeerPosts } from '@/lib/discussion-visibility'
 
 export async function POST(
   request: NextRequest,
@@ -57,39 +60,63 @@ export async function POST(
     }
 
     // If parentId is provided, verify the parent post exists
-    if (parentId) {
-      const parentPost = await prisma.discussion_posts.findUnique({
-        where: {
-          id: parentId,
-          discussionId: discussionId
-        }
-      })
+    const parentPost = parentId
+      ? await prisma.discussion_posts.findUnique({
+          where: {
+            id: parentId,
+            discussionId: discussionId
+          }
+        })
+      : null
 
-      if (!parentPost) {
-        return NextResponse.json({ error: 'Parent post not found' }, { status: 404 })
-      }
+    if (parentId && !parentPost) {
+      return NextResponse.json({ error: 'Parent post not found' }, { status: 404 })
     }
 
-    const post = await prisma.discussion_posts.create({
-      data: {
-        id: randomUUID(),
-        content: content.trim(),
-        discussionId,
-        authorId: session.user.id,
-        parentId: parentId || null,
-        updatedAt: new Date()
-      },
-      include: {
-        users: {
-          select: {
-            id: true,
-            name: true,
-            email: true
+    if (parentPost && !isPostOpen(parentPost)) {
+      return NextResponse.json({ error: 'This post has been hidden or removed by an instructor' }, { status: 403 })
+    }
+
+    if (parentPost && parentPost.authorId !== session.user.id && !(await canSeePeerPosts(discussion, session.user.id))) {
+      return NextResponse.json({ error: 'Start a thread of your own before replying to classmates' }, { status: 403 })
+    }
+
+    const { post, mentionedIds } = await prisma.$transaction(async (tx) => {
+      const created = await tx.discussion_posts.create({
+        data: {
+          id: randomUUID(),
+          content: content.trim(),
+          discussionId,
+          authorId: session.user.id,
+          parentId: parentId || null,
+          updatedAt: new Date()
+        },
+        include: {
+          users: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
           }
         }
+      })
+
+      return {
+        post: created,
+        mentionedIds: await syncPostMentions({ postId: created.id, content: created.content, courseId: id }, tx)
       }
     })
 
+    // Mentioned users, the author of the post replied to and subscribers are notified
+    await notifyDiscussionPost({
+      discussion,
+      content: post.content,
+      parentAuthorId: parentPost ? parentPost.authorId : null,
+      mentionedIds,
+      actor: { id: session.user.id, name: session.user.name }
+    })
+
     // Transform 'users' to 'author' for frontend compatibility
     const transformedPost = {
       id: post.id,
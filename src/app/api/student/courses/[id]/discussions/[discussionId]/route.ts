@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { loadDiscussionThreads } from '@/lib/discussion-posts'
+import { canSeePeerPosts, ownThreadsOnly } from '@/lib/discussion-visibility'
+import { discussionGradingInclude, evaluateParticipation, formatDiscussionGrading } from '@/lib/discussion-grading'
 import { notDeleted } from '@/lib/soft-delete'
 
 export async function GET(
@@ -48,37 +51,15 @@ export async function GET(
             email: true
           }
         },
-        discussion_posts: {
+        discussion_subscriptions: {
           where: {
-            parentId: null // Only get top-level posts
+            userId: session.user.id
           },
-          include: {
-            users: {
-              select: {
-                id: true,
-                name: true,
-                email: true
-              }
-            },
-            other_discussion_posts: {
-              include: {
-                users: {
-                  select: {
-                    id: true,
-                    name: true,
-                    email: true
-                  }
-                }
-              },
-              orderBy: {
-                createdAt: 'asc'
-              }
-            }
-          },
-          orderBy: {
-            createdAt: 'asc'
+          select: {
+            id: true
           }
-        }
+        },
+        ...discussionGradingInclude
       }
     })
 
@@ -86,27 +67,45 @@ export async function GET(
       return NextResponse.json({ error: 'Discussion not found' }, { status: 404 })
     }
 
-    // Transform for frontend compatibility
+    const grading = formatDiscussionGrading(discussion)
+    const threads = await loadDiscussionThreads(discussion, { id: session.user.id, isModerator: false })
+
+    // In a post-first discussion classmates' posts stay hidden until the student starts a thread
+    const canSeePeers = await canSeePeerPosts(discussion, session.user.id)
+    const posts = canSeePeers ? threads : ownThreadsOnly(threads, session.user.id)
+
+    // On a graded discussion the student sees how their posts count toward the requirements
+    const ownPosts = grading
+      ? await prisma.discussion_posts.findMany({
+          where: {
+            discussionId: discussion.id,
+            authorId: session.user.id,
+            deletedAt: null
+          },
+          select: {
+            parentId: true,
+            createdAt: true
+          }
+        })
+      : []
+
+    // Transform for frontend compatibility; replies are nested to any depth
     const transformedDiscussion = {
       id: discussion.id,
       title: discussion.title,
       description: discussion.description,
       isPinned: discussion.isPinned,
       isLocked: discussion.isLocked,
+      isQuestionAnswer: discussion.isQuestionAnswer,
+      isAnonymous: discussion.isAnonymous,
+      isPostFirst: discussion.isPostFirst,
+      canSeePeers,
       createdAt: discussion.createdAt,
       author: discussion.users,
-      posts: discussion.discussion_posts.map(post => ({
-        id: post.id,
-        content: post.content,
-        createdAt: post.createdAt,
-        author: post.users,
-        replies: post.other_discussion_posts.map(reply => ({
-          id: reply.id,
-          content: reply.content,
-          createdAt: reply.createdAt,
-          author: reply.users
-        }))
-      }))
+      isSubscribed: discussion.discussion_subscriptions.length > 0,
+      grading,
+      participation: grading ? evaluateParticipation(ownPosts, grading, grading.dueDate) : null,
+      posts
     }
 
     return NextResponse.json(transformedDiscussion)
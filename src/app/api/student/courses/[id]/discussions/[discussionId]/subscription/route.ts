@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { setDiscussionSubscription } from '@/lib/discussion-notifications'
+import { notDeleted } from '@/lib/soft-delete'
+
+async function updateSubscription(
+  { params }: { params: Promise<{ id: string; discussionId: string }> },
+  subscribed: boolean
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session || session.user.role !== 'STUDENT') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id, discussionId } = await params
+
+  // Check if student is enrolled in the course
+  const enrollment = await prisma.enrollments.findUnique({
+    where: {
+      userId_courseId: {
+        userId: session.user.id,
+        courseId: id
+      }
+    }
+  })
+
+  if (!enrollment) {
+    return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
+  }
+
+  const discussion = await prisma.discussions.findFirst({
+    where: {
+      id: discussionId,
+      courseId: id,
+      ...notDeleted
+    }
+  })
+
+  if (!discussion) {
+    return NextResponse.json({ error: 'Discussion not found' }, { status: 404 })
+  }
+
+  await setDiscussionSubscription({ discussionId, userId: session.user.id, subscribed })
+
+  return NextResponse.json({ isSubscribed: subscribed })
+}
+
+// Follows a discussion: the student is notified of every new post
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; discussionId: string }> }
+) {
+  try {
+    return await updateSubscription(context, true)
+  } catch (error) {
+    console.error('Error subscribing to discussion:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Stops following a discussion
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; discussionId: string }> }
+) {
+  try {
+    return await updateSubscription(context, false)
+  } catch (error) {
+    console.error('Error unsubscribing from discussion:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { notDeleted } from '@/lib/soft-delete'
+import { discussionGradingInclude, formatDiscussionGrading } from '@/lib/discussion-grading'
 
 export async function GET(
   request: NextRequest,
@@ -51,7 +52,8 @@ export async function GET(
           select: {
             discussion_posts: true
           }
-        }
+        },
+        ...discussionGradingInclude
       },
       orderBy: [
         { isPinned: 'desc' },
@@ -68,8 +70,12 @@ export async function GET(
       description: discussion.description,
       isPinned: discussion.isPinned,
       isLocked: discussion.isLocked,
+      isQuestionAnswer: discussion.isQuestionAnswer,
+      isAnonymous: discussion.isAnonymous,
+      isPostFirst: discussion.isPostFirst,
       createdAt: discussion.createdAt,
       author: discussion.users,
+      grading: formatDiscussionGrading(discussion),
       _count: {
         posts: discussion._count.discussion_posts
       }
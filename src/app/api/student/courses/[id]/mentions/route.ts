@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { loadMentionableUsers } from '@/lib/discussion-notifications'
+
+// Suggests course members to @mention: the instructor and enrolled students matching ?q=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    // Check if student is enrolled in the course
+    const enrollment = await prisma.enrollments.findUnique({
+      where: {
+        userId_courseId: {
+          userId: session.user.id,
+          courseId: id
+        }
+      }
+    })
+
+    if (!enrollment) {
+      return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').slice(0, 50)
+
+    // One extra so the student themselves can be left out
+    const members = await loadMentionableUsers(id, query, 9)
+
+    return NextResponse.json(members.filter((member) => member.id !== session.user.id).slice(0, 8))
+  } catch (error) {
+    console.error('Error fetching mention suggestions:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
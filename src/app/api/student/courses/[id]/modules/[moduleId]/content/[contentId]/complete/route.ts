@@ -15,6 +15,7 @@ import { notDeleted } from '@/lib/soft-delete';
 import { isModuleUnlocked } from '@/lib/modules';
 import { markContentViewed } from '@/lib/module-progress';
 import { cuidSchema } from '@/lib/validation';
+import { publishedNow } from '@/lib/publishing';
 
 // Validation schema for route params
 const paramsSchema = z.object({
@@ -91,9 +92,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       where: {
         id: contentId,
         moduleId: moduleId,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
       },
+      include: {
+        scorm_packages: { select: { id: true } },
+      },
     });
 
     if (!content) {
@@ -103,6 +107,22 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Quizzes are completed by submitting an attempt
+    if (content.type === 'QUIZ') {
+      return NextResponse.json(
+        { error: 'Submit the quiz to complete it' },
+        { status: 400 }
+      );
+    }
+
+    // Unpacked SCORM packages are completed by the package reporting completion
+    if (content.scorm_packages) {
+      return NextResponse.json(
+        { error: 'Complete the SCORM package to finish it' },
+        { status: 400 }
+      );
+    }
+
     // Mark content as viewed and get updated progress
     const progressResult = await markContentViewed(
       moduleId,
@@ -0,0 +1,127 @@
+/**
+ * Quiz Attempt Submission API
+ *
+ * POST /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/quiz/attempts/[attemptId]
+ * Grades the attempt, records it as a submission of the quiz's assignment,
+ * marks the quiz complete and returns updated module progress
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isModuleUnlocked } from '@/lib/modules';
+import { markContentViewed } from '@/lib/module-progress';
+import { findModuleQuiz, submitQuizAttempt } from '@/lib/quiz-attempts';
+import { quizSubmissionSchema } from '@/validators/quiz';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    moduleId: string;
+    contentId: string;
+    attemptId: string;
+  }>;
+}
+
+/**
+ * POST /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/quiz/attempts/[attemptId]
+ * Submits the current student's attempt
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: courseId, moduleId, contentId, attemptId } = await params;
+    const studentId = session.user.id;
+
+    const body = await request.json().catch(() => null);
+    const validation = quizSubmissionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const enrollment = await prisma.enrollments.findUnique({
+      where: {
+        userId_courseId: {
+          userId: studentId,
+          courseId,
+        },
+      },
+    });
+
+    if (!enrollment) {
+      return NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 });
+    }
+
+    const unlockInfo = await isModuleUnlocked(moduleId, studentId, courseId);
+
+    if (!unlockInfo.isUnlocked) {
+      return NextResponse.json(
+        {
+          error: 'MODULE_LOCKED',
+          message: unlockInfo.unlockMessage || 'Module is locked',
+        },
+        { status: 403 }
+      );
+    }
+
+    const content = await findModuleQuiz(courseId, moduleId, contentId);
+    const quiz = content?.quizzes;
+
+    if (!quiz) {
+      return NextResponse.json({ error: 'Quiz not found in this module' }, { status: 404 });
+    }
+
+    const attempt = await prisma.quiz_attempts.findFirst({
+      where: { id: attemptId, quizId: quiz.id, studentId },
+    });
+
+    if (!attempt) {
+      return NextResponse.json({ error: 'Attempt not found' }, { status: 404 });
+    }
+
+    if (attempt.submittedAt) {
+      return NextResponse.json({ error: 'This attempt has already been submitted' }, { status: 400 });
+    }
+
+    const result = await submitQuizAttempt(quiz, attempt, validation.data.answers);
+
+    // Submitted by a concurrent request since it was loaded
+    if (!result) {
+      return NextResponse.json({ error: 'This attempt has already been submitted' }, { status: 409 });
+    }
+
+    // Submitting a quiz completes it for module progress
+    const progressResult = await markContentViewed(moduleId, studentId, contentId);
+
+    return NextResponse.json({
+      attempt: {
+        id: result.attempt.id,
+        submittedAt: result.attempt.submittedAt,
+        earnedPoints: result.attempt.earnedPoints,
+        possiblePoints: result.attempt.possiblePoints,
+        points: result.points,
+        expired: result.expired,
+      },
+      results: result.answers.map((answer) => ({
+        questionId: answer.questionId,
+        isCorrect: answer.isCorrect,
+        points: answer.points,
+      })),
+      grade: result.grade
+        ? { points: result.grade.points, latePenaltyPercent: result.grade.latePenaltyPercent }
+        : null,
+      moduleProgress: progressResult.moduleProgress,
+      isModuleComplete: progressResult.isModuleComplete,
+      unlockedModule: progressResult.unlockedModule || null,
+    });
+  } catch (error) {
+    console.error('Error submitting quiz attempt:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
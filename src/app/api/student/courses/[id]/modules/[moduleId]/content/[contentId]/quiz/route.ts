@@ -0,0 +1,247 @@
+/**
+ * Student Quiz API
+ *
+ * GET /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/quiz
+ * Returns the quiz settings, the student's attempts and any attempt in progress
+ *
+ * POST /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/quiz
+ * Starts a new attempt, or resumes the attempt in progress; timed attempts
+ * include the seconds left by the server's clock
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isModuleUnlocked } from '@/lib/modules';
+import { canSubmitAttempt, getRemainingAttempts } from '@/lib/attempts';
+import { evaluateLateSubmission } from '@/lib/late-policy';
+import { loadDueDateAdjustments, resolveStudentDeadline } from '@/lib/extensions';
+import { markContentViewed } from '@/lib/module-progress';
+import {
+  findModuleQuiz,
+  loadAttemptQuestions,
+  startQuizAttempt,
+  submitExpiredAttempts,
+} from '@/lib/quiz-attempts';
+import { getAttemptRemainingSeconds } from '@/lib/quiz';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    moduleId: string;
+    contentId: string;
+  }>;
+}
+
+/**
+ * Load the quiz after checking enrollment and module unlock status
+ */
+async function loadQuizForStudent(courseId: string, moduleId: string, contentId: string, userId: string) {
+  const enrollment = await prisma.enrollments.findUnique({
+    where: {
+      userId_courseId: {
+        userId,
+        courseId,
+      },
+    },
+  });
+
+  if (!enrollment) {
+    return { response: NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 }) };
+  }
+
+  const unlockInfo = await isModuleUnlocked(moduleId, userId, courseId);
+
+  if (!unlockInfo.isUnlocked) {
+    return {
+      response: NextResponse.json(
+        {
+          error: 'MODULE_LOCKED',
+          message: unlockInfo.unlockMessage || 'Module is locked',
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const content = await findModuleQuiz(courseId, moduleId, contentId);
+
+  if (!content?.quizzes) {
+    return { response: NextResponse.json({ error: 'Quiz not found in this module' }, { status: 404 }) };
+  }
+
+  return { content, quiz: content.quizzes };
+}
+
+/**
+ * GET /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/quiz
+ * Returns the quiz for the current student
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: courseId, moduleId, contentId } = await params;
+    const studentId = session.user.id;
+
+    const loaded = await loadQuizForStudent(courseId, moduleId, contentId, studentId);
+    if ('response' in loaded) {
+      return loaded.response;
+    }
+    const { content, quiz } = loaded;
+    const assignment = quiz.assignments;
+
+    if ((await submitExpiredAttempts(quiz, studentId)) > 0) {
+      await markContentViewed(moduleId, studentId, contentId);
+    }
+
+    const [attempts, bankQuestionCount, grade, adjustments] = await Promise.all([
+      prisma.quiz_attempts.findMany({
+        where: { quizId: quiz.id, studentId },
+        include: { submissions: { select: { attemptNumber: true, points: true } } },
+        orderBy: { startedAt: 'asc' },
+      }),
+      prisma.quiz_questions.count({ where: { bankId: quiz.bankId, deletedAt: null } }),
+      prisma.grades.findUnique({
+        where: { assignmentId_studentId: { assignmentId: assignment.id, studentId } },
+        select: { points: true, latePenaltyPercent: true, submissionId: true },
+      }),
+      loadDueDateAdjustments({
+        assignmentIds: [assignment.id],
+        courseIds: [assignment.courseId],
+        studentIds: [studentId],
+      }),
+    ]);
+
+    const deadline = resolveStudentDeadline(assignment, studentId, adjustments);
+    const lateResult = evaluateLateSubmission(deadline);
+
+    const inProgress = attempts.find((a) => !a.submittedAt);
+    const attemptsUsed = attempts.length;
+
+    return NextResponse.json({
+      quiz: {
+        id: quiz.id,
+        contentId: content.id,
+        title: content.title,
+        questionCount: quiz.questionCount ? Math.min(quiz.questionCount, bankQuestionCount) : bankQuestionCount,
+        timeLimitMinutes: quiz.timeLimitMinutes,
+        maxPoints: assignment.maxPoints,
+        dueDate: deadline.dueDate,
+        maxAttempts: assignment.maxAttempts,
+        gradedAttemptPolicy: assignment.gradedAttemptPolicy,
+        attemptsUsed,
+        remainingAttempts: getRemainingAttempts(assignment.maxAttempts, attemptsUsed),
+        canStart:
+          Boolean(inProgress) || (lateResult.accepted && canSubmitAttempt(assignment.maxAttempts, attemptsUsed)),
+        closedReason: lateResult.accepted ? null : lateResult.reason,
+      },
+      attempts: attempts
+        .filter((a) => a.submittedAt)
+        .map((a) => ({
+          id: a.id,
+          attemptNumber: a.submissions?.attemptNumber ?? null,
+          startedAt: a.startedAt,
+          submittedAt: a.submittedAt,
+          earnedPoints: a.earnedPoints,
+          possiblePoints: a.possiblePoints,
+          points: a.submissions?.points ?? null,
+          isCounted: Boolean(grade && a.submissionId === grade.submissionId),
+        })),
+      activeAttempt: inProgress
+        ? {
+            id: inProgress.id,
+            startedAt: inProgress.startedAt,
+            expiresAt: inProgress.expiresAt,
+          }
+        : null,
+      grade: grade ? { points: grade.points, latePenaltyPercent: grade.latePenaltyPercent } : null,
+    });
+  } catch (error) {
+    console.error('Error fetching quiz:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/quiz
+ * Starts (or resumes) an attempt and returns its questions
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: courseId, moduleId, contentId } = await params;
+    const studentId = session.user.id;
+
+    const loaded = await loadQuizForStudent(courseId, moduleId, contentId, studentId);
+    if ('response' in loaded) {
+      return loaded.response;
+    }
+    const { quiz } = loaded;
+    const assignment = quiz.assignments;
+
+    if ((await submitExpiredAttempts(quiz, studentId)) > 0) {
+      await markContentViewed(moduleId, studentId, contentId);
+    }
+
+    let attempt = await prisma.quiz_attempts.findFirst({
+      where: { quizId: quiz.id, studentId, submittedAt: null },
+    });
+    let status = 200;
+
+    if (!attempt) {
+      const adjustments = await loadDueDateAdjustments({
+        assignmentIds: [assignment.id],
+        courseIds: [assignment.courseId],
+        studentIds: [studentId],
+      });
+      const lateResult = evaluateLateSubmission(resolveStudentDeadline(assignment, studentId, adjustments));
+      if (!lateResult.accepted) {
+        return NextResponse.json({ error: lateResult.reason }, { status: 400 });
+      }
+
+      const attemptsUsed = await prisma.quiz_attempts.count({ where: { quizId: quiz.id, studentId } });
+      if (!canSubmitAttempt(assignment.maxAttempts, attemptsUsed)) {
+        return NextResponse.json(
+          {
+            error: assignment.maxAttempts === 1
+              ? 'You have already taken this quiz'
+              : `All ${assignment.maxAttempts} attempts have been used`,
+          },
+          { status: 400 }
+        );
+      }
+
+      attempt = await startQuizAttempt(quiz, studentId);
+      status = 201;
+    }
+
+    const questions = await loadAttemptQuestions(attempt, quiz.shuffleOptions);
+
+    return NextResponse.json(
+      {
+        attempt: {
+          id: attempt.id,
+          startedAt: attempt.startedAt,
+          expiresAt: attempt.expiresAt,
+          remainingSeconds: getAttemptRemainingSeconds(attempt.expiresAt),
+          questions,
+        },
+      },
+      { status }
+    );
+  } catch (error) {
+    console.error('Error starting quiz attempt:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -18,6 +18,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { notDeleted } from '@/lib/soft-delete';
 import { isModuleUnlocked } from '@/lib/modules';
+import { publishedNow } from '@/lib/publishing';
 
 export async function GET(
   request: NextRequest,
@@ -59,6 +60,7 @@ export async function GET(
           error: 'MODULE_LOCKED',
           message: unlockInfo.unlockMessage || 'Complete the previous module to unlock',
           prerequisiteModuleId: unlockInfo.prerequisiteModuleId,
+          prerequisiteAssignmentId: unlockInfo.prerequisiteAssignmentId,
         },
         { status: 403 }
       );
@@ -70,7 +72,7 @@ export async function GET(
         id: contentId,
         moduleId: moduleId,
         courseId: courseId,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
       },
       select: {
@@ -80,6 +82,9 @@ export async function GET(
         content: true,
         fileUrl: true,
         thumbnailUrl: true,
+        scorm_packages: {
+          select: { id: true, version: true },
+        },
       },
     });
 
@@ -90,7 +95,8 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(content);
+    const { scorm_packages, ...item } = content;
+    return NextResponse.json({ ...item, scorm: scorm_packages });
   } catch (error) {
     console.error('Error fetching module content:', error);
     return NextResponse.json(
@@ -0,0 +1,205 @@
+/**
+ * Student SCORM API
+ *
+ * GET /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/scorm
+ * Returns the package launch details and the `cmi` data to start a session with
+ *
+ * PUT /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/scorm
+ * Stores `cmi` data committed by the runtime; completes the content item once
+ * the package reports completion and records the score of graded packages
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { isModuleUnlocked } from '@/lib/modules';
+import { markContentViewed } from '@/lib/module-progress';
+import { createScormFileToken, getScormFileUrl } from '@/lib/scorm';
+import { commitScormTracking, findModuleScorm, getScormLaunchData } from '@/lib/scorm-packages';
+import { scormCommitSchema } from '@/validators/scorm';
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    moduleId: string;
+    contentId: string;
+  }>;
+}
+
+/**
+ * Load the package after checking enrollment and module unlock status
+ */
+async function loadScormForStudent(courseId: string, moduleId: string, contentId: string, userId: string) {
+  const enrollment = await prisma.enrollments.findUnique({
+    where: {
+      userId_courseId: {
+        userId,
+        courseId,
+      },
+    },
+  });
+
+  if (!enrollment) {
+    return { response: NextResponse.json({ error: 'Not enrolled in this course' }, { status: 403 }) };
+  }
+
+  const unlockInfo = await isModuleUnlocked(moduleId, userId, courseId);
+
+  if (!unlockInfo.isUnlocked) {
+    return {
+      response: NextResponse.json(
+        {
+          error: 'MODULE_LOCKED',
+          message: unlockInfo.unlockMessage || 'Module is locked',
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const content = await findModuleScorm(courseId, moduleId, contentId);
+
+  if (!content?.scorm_packages) {
+    return {
+      response: NextResponse.json({ error: 'SCORM package not found in this module' }, { status: 404 }),
+    };
+  }
+
+  return { content, scormPackage: content.scorm_packages };
+}
+
+/**
+ * Tracking fields returned to the student
+ */
+function formatTracking(
+  tracking: {
+    completionStatus: string;
+    successStatus: string;
+    scoreScaled: number | null;
+    completedAt: Date | null;
+  } | null
+) {
+  return tracking
+    ? {
+        completionStatus: tracking.completionStatus,
+        successStatus: tracking.successStatus,
+        scoreScaled: tracking.scoreScaled,
+        completedAt: tracking.completedAt,
+      }
+    : null;
+}
+
+/**
+ * GET /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/scorm
+ * Returns the package for the current student
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: courseId, moduleId, contentId } = await params;
+    const studentId = session.user.id;
+
+    const loaded = await loadScormForStudent(courseId, moduleId, contentId, studentId);
+    if ('response' in loaded) {
+      return loaded.response;
+    }
+    const { content, scormPackage } = loaded;
+
+    const student = await prisma.users.findUniqueOrThrow({
+      where: { id: studentId },
+      select: { name: true, surname: true },
+    });
+
+    const { tracking, cmi } = await getScormLaunchData(scormPackage, {
+      id: studentId,
+      // SCORM learner names are "Last, First"
+      name: `${student.surname}, ${student.name}`,
+    });
+
+    const assignment = scormPackage.assignments?.deletedAt ? null : scormPackage.assignments;
+    const grade =
+      scormPackage.assignmentId && assignment
+        ? await prisma.grades.findUnique({
+            where: { assignmentId_studentId: { assignmentId: scormPackage.assignmentId, studentId } },
+            select: { points: true },
+          })
+        : null;
+
+    return NextResponse.json({
+      scorm: {
+        id: scormPackage.id,
+        contentId: content.id,
+        title: content.title,
+        version: scormPackage.version,
+        launchUrl: getScormFileUrl(
+          scormPackage.id,
+          createScormFileToken(scormPackage.id, studentId),
+          scormPackage.launchPath
+        ),
+        maxPoints: assignment?.maxPoints ?? null,
+      },
+      cmi,
+      tracking: formatTracking(tracking),
+      grade,
+    });
+  } catch (error) {
+    console.error('Error fetching SCORM package:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/student/courses/[id]/modules/[moduleId]/content/[contentId]/scorm
+ * Commits the current student's `cmi` data
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: courseId, moduleId, contentId } = await params;
+    const studentId = session.user.id;
+
+    const body = await request.json().catch(() => null);
+    const validation = scormCommitSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.issues[0].message }, { status: 400 });
+    }
+
+    const loaded = await loadScormForStudent(courseId, moduleId, contentId, studentId);
+    if ('response' in loaded) {
+      return loaded.response;
+    }
+
+    const result = await commitScormTracking(
+      loaded.scormPackage,
+      studentId,
+      validation.data.values,
+      validation.data.finished
+    );
+
+    // Completing the package completes the content item for module progress
+    const progressResult = result.complete ? await markContentViewed(moduleId, studentId, contentId) : null;
+
+    return NextResponse.json({
+      tracking: formatTracking(result.tracking),
+      isComplete: result.complete,
+      grade: result.grade ? { points: result.grade.points } : null,
+      moduleProgress: progressResult?.moduleProgress ?? null,
+      isModuleComplete: progressResult?.isModuleComplete ?? false,
+      unlockedModule: progressResult?.unlockedModule || null,
+    });
+  } catch (error) {
+    console.error('Error saving SCORM tracking:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
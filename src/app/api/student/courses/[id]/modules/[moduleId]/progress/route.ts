@@ -14,6 +14,7 @@ import { notDeleted } from '@/lib/soft-delete';
 import { isModuleUnlocked } from '@/lib/modules';
 import { calculateModuleProgress } from '@/lib/module-progress';
 import { cuidSchema } from '@/lib/validation';
+import { publishedNow } from '@/lib/publishing';
 
 // Validation schema for route params
 const paramsSchema = z.object({
@@ -75,7 +76,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       where: {
         id: moduleId,
         courseId: courseId,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
       },
     });
@@ -120,6 +121,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         contentTotal: progressResult.totalContentCount,
         assignmentsSubmitted: progressResult.assignmentSubmittedCount,
         assignmentsTotal: progressResult.totalAssignmentCount,
+        discussionsPosted: progressResult.discussionPostedCount,
+        discussionsTotal: progressResult.totalDiscussionCount,
         completedAt: moduleProgress?.completedAt || null,
       },
     });
@@ -12,6 +12,7 @@ import { prisma } from '@/lib/prisma';
 import { notDeleted } from '@/lib/soft-delete';
 import { isModuleUnlocked } from '@/lib/modules';
 import { checkAndUpdateModuleCompletion } from '@/lib/module-progress';
+import { publishedNow } from '@/lib/publishing';
 
 /**
  * GET /api/student/courses/[id]/modules/[moduleId]
@@ -56,6 +57,7 @@ export async function GET(
           error: 'MODULE_LOCKED',
           message: unlockInfo.unlockMessage || 'Complete the previous module to unlock',
           prerequisiteModuleId: unlockInfo.prerequisiteModuleId,
+          prerequisiteAssignmentId: unlockInfo.prerequisiteAssignmentId,
         },
         { status: 403 }
       );
@@ -66,13 +68,13 @@ export async function GET(
       where: {
         id: moduleId,
         courseId: courseId,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
       },
       include: {
         course_content: {
           where: {
-            isPublished: true,
+            ...publishedNow(),
             ...notDeleted,
           },
           orderBy: { orderIndex: 'asc' },
@@ -84,11 +86,12 @@ export async function GET(
             fileUrl: true,
             thumbnailUrl: true,
             orderIndex: true,
+            isRequired: true,
           },
         },
         assignments: {
           where: {
-            isPublished: true,
+            ...publishedNow(),
             ...notDeleted,
           },
           select: {
@@ -96,6 +99,7 @@ export async function GET(
             title: true,
             dueDate: true,
             maxPoints: true,
+            isRequired: true,
             submissions: {
               where: { studentId: session.user.id },
               select: {
@@ -119,6 +123,11 @@ export async function GET(
             _count: {
               select: { discussion_posts: true },
             },
+            discussion_posts: {
+              where: { authorId: session.user.id },
+              select: { id: true },
+              take: 1,
+            },
           },
         },
         courses: {
@@ -158,6 +167,7 @@ export async function GET(
       thumbnailUrl: item.thumbnailUrl,
       orderIndex: item.orderIndex,
       isViewed: viewedContentIds.includes(item.id),
+      isRequired: item.isRequired,
     }));
 
     // Map assignments with submission status
@@ -172,6 +182,7 @@ export async function GET(
         isSubmitted: !!submission,
         isGraded: !!grade,
         grade: grade?.points ?? null,
+        isRequired: assignment.isRequired,
       };
     });
 
@@ -180,9 +191,10 @@ export async function GET(
       id: disc.id,
       title: disc.title,
       postCount: disc._count.discussion_posts,
+      hasPosted: disc.discussion_posts.length > 0,
     }));
 
-    // Use progress from checkAndUpdateModuleCompletion (correct 50/50 weighted formula)
+    // Use progress from checkAndUpdateModuleCompletion (module completion rules)
     // Story 3.5: Assignment progress in modules
     const progressPercent = progressResult.moduleProgress;
 
@@ -195,6 +207,10 @@ export async function GET(
         content: contentWithProgress,
         assignments: assignmentsWithStatus,
         discussions: discussionsWithCounts,
+        completion: {
+          passingScore: moduleData.passingScore,
+          requireDiscussionPost: moduleData.requireDiscussionPost,
+        },
       },
       course: {
         id: moduleData.courses.id,
@@ -12,6 +12,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { notDeleted } from '@/lib/soft-delete';
 import { getModulesUnlockInfo, type ModuleStatus } from '@/lib/modules';
+import { publishedNow } from '@/lib/publishing';
 
 /**
  * GET /api/student/courses/[id]/modules
@@ -63,7 +64,7 @@ export async function GET(
     const modules = await prisma.modules.findMany({
       where: {
         courseId: id,
-        isPublished: true,
+        ...publishedNow(),
         ...notDeleted,
       },
       orderBy: {
@@ -76,8 +77,8 @@ export async function GET(
         orderIndex: true,
         _count: {
           select: {
-            course_content: { where: notDeleted },
-            assignments: { where: notDeleted },
+            course_content: { where: { ...notDeleted, ...publishedNow() } },
+            assignments: { where: { ...notDeleted, ...publishedNow() } },
             discussions: { where: notDeleted },
           },
         },
@@ -105,6 +106,9 @@ export async function GET(
         unlockMessage: unlockInfo?.unlockMessage,
         prerequisiteModuleId: unlockInfo?.prerequisiteModuleId,
         prerequisiteModuleTitle: unlockInfo?.prerequisiteModuleTitle,
+        prerequisiteAssignmentId: unlockInfo?.prerequisiteAssignmentId,
+        prerequisiteAssignmentTitle: unlockInfo?.prerequisiteAssignmentTitle,
+        unlockAt: unlockInfo?.unlockAt,
       };
     });
 
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { notDeleted } from '@/lib/soft-delete'
+import { mentionsToPlainText } from '@/lib/mentions'
+import { ANONYMOUS_CLASSMATE } from '@/lib/discussion-visibility'
+
+// Recent posts that mention the student, in courses they are still enrolled in
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'STUDENT') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const mentions = await prisma.discussion_post_mentions.findMany({
+      where: {
+        userId: session.user.id,
+        discussion_posts: {
+          deletedAt: null,
+          isHidden: false,
+          discussions: {
+            ...notDeleted,
+            courses: {
+              isActive: true,
+              ...notDeleted,
+              enrollments: {
+                some: {
+                  userId: session.user.id
+                }
+              }
+            }
+          }
+        }
+      },
+      include: {
+        discussion_posts: {
+          include: {
+            users: {
+              select: {
+                name: true
+              }
+            },
+            discussions: {
+              select: {
+                id: true,
+                title: true,
+                isAnonymous: true,
+                isPostFirst: true,
+                // The student's own live threads, for post-first discussions
+                discussion_posts: {
+                  where: {
+                    authorId: session.user.id,
+                    parentId: null,
+                    deletedAt: null
+                  },
+                  select: {
+                    id: true
+                  },
+                  take: 1
+                },
+                courses: {
+                  select: {
+                    id: true,
+                    title: true,
+                    code: true
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      },
+      take: 5
+    })
+
+    // Flatten for the dashboard; mention tokens are shown as @Name. Peer visibility
+    // settings apply as in the discussion itself.
+    const transformedMentions = mentions.map(({ discussion_posts: post, ...mention }) => ({
+      id: mention.id,
+      createdAt: mention.createdAt,
+      postId: post.id,
+      content:
+        post.discussions.isPostFirst && post.discussions.discussion_posts.length === 0
+          ? ''
+          : mentionsToPlainText(post.content),
+      author: post.discussions.isAnonymous ? { name: ANONYMOUS_CLASSMATE } : post.users,
+      discussion: {
+        id: post.discussions.id,
+        title: post.discussions.title
+      },
+      course: post.discussions.courses
+    }))
+
+    return NextResponse.json(transformedMentions)
+  } catch (error) {
+    console.error('Error fetching mentions:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { calculateGPA, GradeInput } from '@/lib/gpa';
+import { calculateCourseGrade } from '@/lib/grade-categories';
 
 /**
  * GET /api/students/gpa/course/[courseId]
@@ -72,21 +72,27 @@ export async function GET(
           select: {
             maxPoints: true,
             title: true,
+            categoryId: true,
           },
         },
       },
     });
 
-    // Transform to GradeInput format
-    const gradeInputs: GradeInput[] = grades.map((g) => ({
-      points: g.points,
-      maxPoints: g.assignments.maxPoints,
-      weight: 1, // Equal weight for MVP
-      isGraded: true,
-    }));
+    // Fetch grade categories used to weight the course grade
+    const categories = await prisma.grade_categories.findMany({
+      where: { courseId },
+      select: { id: true, weight: true },
+    });
 
-    // Calculate GPA
-    const result = calculateGPA(gradeInputs);
+    // Calculate category-weighted GPA over graded assignments
+    const result = calculateCourseGrade(
+      grades.map((g) => ({
+        categoryId: g.assignments.categoryId,
+        maxPoints: g.assignments.maxPoints,
+        points: g.points,
+      })),
+      categories
+    ).gpa;
 
     // Return N/A response if no grades
     if (!result) {
@@ -2,12 +2,8 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import {
-  calculateGPA,
-  calculateOverallGPA,
-  GradeInput,
-  percentageToLetterGrade,
-} from '@/lib/gpa';
+import { calculateOverallGPA, percentageToLetterGrade } from '@/lib/gpa';
+import { calculateCourseGrade } from '@/lib/grade-categories';
 
 /**
  * Course GPA data structure for response
@@ -95,21 +91,27 @@ export async function GET() {
           assignments: {
             select: {
               maxPoints: true,
+              categoryId: true,
             },
           },
         },
       });
 
-      // Transform to GradeInput format
-      const gradeInputs: GradeInput[] = grades.map((g) => ({
-        points: g.points,
-        maxPoints: g.assignments.maxPoints,
-        weight: 1,
-        isGraded: true,
-      }));
+      // Fetch grade categories used to weight the course grade
+      const categories = await prisma.grade_categories.findMany({
+        where: { courseId: course.id },
+        select: { id: true, weight: true },
+      });
 
-      // Calculate course GPA
-      const result = calculateGPA(gradeInputs);
+      // Calculate category-weighted course GPA
+      const result = calculateCourseGrade(
+        grades.map((g) => ({
+          categoryId: g.assignments.categoryId,
+          maxPoints: g.assignments.maxPoints,
+          points: g.points,
+        })),
+        categories
+      ).gpa;
 
       if (result) {
         courseGPAs.push({
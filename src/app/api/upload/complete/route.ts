@@ -9,7 +9,6 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
-import { randomUUID } from 'crypto'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { getPublicUrl, fileExists, getFileMetadata } from '@/lib/r2'
@@ -151,7 +150,7 @@ export async function POST(request: NextRequest) {
         mimeType,
       }
     } else if (assignmentId) {
-      // Create or update Submission
+      // Assignment submission file
       const assignment = await prisma.assignments.findUnique({
         where: { id: assignmentId },
         include: { courses: { include: { enrollments: true } } },
@@ -183,29 +182,10 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const submission = await prisma.submissions.upsert({
-        where: {
-          assignmentId_studentId: {
-            assignmentId,
-            studentId: session.user.id,
-          },
-        },
-        create: {
-          id: randomUUID(),
-          assignmentId,
-          studentId: session.user.id,
-          fileUrl: cdnUrl,
-          s3Key: key,
-        },
-        update: {
-          fileUrl: cdnUrl,
-          s3Key: key,
-          submittedAt: new Date(),
-        },
-      })
-
+      // The file is attached when the student submits the attempt
+      // (POST /api/student/assignments/[id]/submission), so earlier attempts keep their files
       result = {
-        id: submission.id,
+        id: key,
         s3Key: key,
         cdnUrl,
         filename,
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findCertificateByCode } from '@/lib/certificates'
+
+/**
+ * GET /api/verify/[code]
+ *
+ * Public certificate verification. Returns only what is printed on the
+ * certificate.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params
+
+    const certificate = await findCertificateByCode(code)
+
+    if (!certificate) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      code: certificate.code,
+      recipientName: certificate.recipientName,
+      courseTitle: certificate.courseTitle,
+      courseCode: certificate.courseCode,
+      instructorName: certificate.instructorName,
+      finalPercentage: certificate.finalPercentage,
+      letterGrade: certificate.letterGrade,
+      issuedAt: certificate.issuedAt
+    })
+  } catch (error) {
+    console.error('Error verifying certificate:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
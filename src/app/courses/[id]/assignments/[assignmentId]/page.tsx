@@ -8,13 +8,27 @@ import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
 import { Calendar, Clock, FileText, Upload, CheckCircle, Paperclip, X, File, Cloud } from 'lucide-react'
 import { uploadToS3 } from '@/hooks/useS3Upload'
+import { evaluateLateSubmission, describeLatePolicy, LatePolicySettings } from '@/lib/late-policy'
 
 interface Assignment {
   id: string
   title: string
   description: string | null
   dueDate: string | null
+  originalDueDate: string | null
   maxPoints: number
+  latePolicy: LatePolicySettings['latePolicy']
+  lateGraceMinutes: number
+  latePenaltyPerDay: number
+  lateCutoffAt: string | null
+  maxAttempts: number
+  gradedAttemptPolicy: 'LATEST' | 'HIGHEST' | 'MANUAL'
+  isGroupAssignment: boolean
+  group: {
+    id: string
+    name: string
+    members: Array<{ id: string; name: string; surname: string }>
+  } | null
   course: {
     id: string
     title: string
@@ -27,13 +41,36 @@ interface Submission {
   content: string | null
   fileUrl: string | null
   submittedAt: string
+  attemptNumber: number
+  points: number | null
+  gradedAt: string | null
+}
+
+const GRADED_ATTEMPT_POLICY_LABELS: Record<Assignment['gradedAttemptPolicy'], string> = {
+  LATEST: 'Your latest graded attempt counts',
+  HIGHEST: 'Your highest-scoring attempt counts',
+  MANUAL: 'Your instructor chooses which attempt counts'
+}
+
+interface RubricScore {
+  criterionId: string
+  title: string
+  description: string | null
+  level: string | null
+  points: number
+  maxPoints: number
+  comment: string | null
 }
 
 interface Grade {
   id: string
   points: number
+  rawPoints: number | null
+  latePenaltyPercent: number | null
   feedback: string | null
   gradedAt: string
+  submissionId: string | null
+  rubricScores: RubricScore[]
 }
 
 export default function StudentAssignmentPage() {
@@ -42,9 +79,10 @@ export default function StudentAssignmentPage() {
   const { data: session } = useSession()
   const [assignment, setAssignment] = useState<Assignment | null>(null)
   const [submission, setSubmission] = useState<Submission | null>(null)
+  const [attempts, setAttempts] = useState<Submission[]>([])
   const [grade, setGrade] = useState<Grade | null>(null)
   const [submissionText, setSubmissionText] = useState('')
-  const [uploadedFile, setUploadedFile] = useState<{url: string, filename: string} | null>(null)
+  const [uploadedFile, setUploadedFile] = useState<{url: string, filename: string, s3Key?: string} | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState('')
@@ -67,6 +105,7 @@ export default function StudentAssignmentPage() {
         if (submissionRes.ok) {
           const submissionData = await submissionRes.json()
           setSubmission(submissionData)
+          setAttempts(submissionData.attempts || [])
           setSubmissionText(submissionData.content || '')
           if (submissionData.fileUrl) {
             // Extract filename from URL
@@ -106,7 +145,7 @@ export default function StudentAssignmentPage() {
         assignmentId: assignmentId,
         isPublic: false,
       })
-      setUploadedFile({ url: result.cdnUrl, filename: result.filename })
+      setUploadedFile({ url: result.cdnUrl, filename: result.filename, s3Key: result.s3Key })
     } catch (error) {
       setError(error instanceof Error ? error.message : 'An error occurred while uploading the file')
     } finally {
@@ -131,13 +170,15 @@ export default function StudentAssignmentPage() {
         },
         body: JSON.stringify({
           content: submissionText,
-          fileUrl: uploadedFile?.url
+          fileUrl: uploadedFile?.url,
+          s3Key: uploadedFile?.s3Key
         }),
       })
 
       if (response.ok) {
         const newSubmission = await response.json()
         setSubmission(newSubmission)
+        setAttempts((prev) => [newSubmission, ...prev])
       } else {
         const data = await response.json()
         setError(data.error || 'Failed to submit assignment')
@@ -149,38 +190,6 @@ export default function StudentAssignmentPage() {
     }
   }
 
-  const handleUpdate = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setIsSubmitting(true)
-    setError('')
-
-    try {
-      const response = await fetch(`/api/student/assignments/${params.assignmentId}/submission`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          content: submissionText,
-          fileUrl: uploadedFile?.url
-        }),
-      })
-
-      if (response.ok) {
-        const updatedSubmission = await response.json()
-        setSubmission(updatedSubmission)
-        setSubmissionText(updatedSubmission.content || '')
-      } else {
-        const data = await response.json()
-        setError(data.error || 'Failed to update submission')
-      }
-    } catch (error) {
-      setError('An error occurred. Please try again.')
-    } finally {
-      setIsSubmitting(false)
-    }
-  }
-
   if (loading) {
     return (
       <ProtectedRoute allowedRoles={['STUDENT']}>
@@ -213,7 +222,23 @@ export default function StudentAssignmentPage() {
   }
 
   const isOverdue = assignment.dueDate && new Date(assignment.dueDate) < new Date()
-  const canSubmit = !isOverdue || !submission
+  const latePolicySettings: LatePolicySettings = {
+    dueDate: assignment.dueDate ? new Date(assignment.dueDate) : null,
+    latePolicy: assignment.latePolicy,
+    lateGraceMinutes: assignment.lateGraceMinutes,
+    latePenaltyPerDay: assignment.latePenaltyPerDay,
+    lateCutoffAt: assignment.lateCutoffAt ? new Date(assignment.lateCutoffAt) : null
+  }
+  const lateStatus = evaluateLateSubmission(latePolicySettings)
+  const latePolicyDescription = describeLatePolicy(latePolicySettings)
+  const attemptsUsed = submission?.attemptNumber ?? 0
+  const remainingAttempts = assignment.maxAttempts === 0
+    ? null
+    : Math.max(0, assignment.maxAttempts - attemptsUsed)
+  const hasAttemptsLeft = remainingAttempts === null || remainingAttempts > 0
+  const allowsMultipleAttempts = assignment.maxAttempts !== 1
+  const needsGroup = assignment.isGroupAssignment && !assignment.group
+  const canSubmit = lateStatus.accepted && hasAttemptsLeft && !needsGroup
   const hasContent = submissionText.trim() || uploadedFile
 
   return (
@@ -249,9 +274,15 @@ export default function StudentAssignmentPage() {
                         <Clock className="h-4 w-4 mr-1" />
                         Due: {new Date(assignment.dueDate).toLocaleDateString()} at {new Date(assignment.dueDate).toLocaleTimeString()}
                         {isOverdue && <span className="ml-1 font-semibold">(Overdue)</span>}
+                        {assignment.originalDueDate && assignment.originalDueDate !== assignment.dueDate && (
+                          <span className="ml-1 font-semibold text-green-700">(Extended)</span>
+                        )}
                       </div>
                     )}
                   </div>
+                  {latePolicyDescription && (
+                    <p className="mt-2 text-sm text-gray-500">{latePolicyDescription}</p>
+                  )}
                 </div>
                 <div>
                   {submission && (
@@ -284,12 +315,43 @@ export default function StudentAssignmentPage() {
               {/* Submission Form */}
               <div className="bg-white shadow rounded-lg">
                 <div className="px-4 py-5 sm:p-6">
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">
-                    {submission ? 'Update Submission' : 'Submit Assignment'}
+                  <h3 className="text-lg font-medium text-gray-900 mb-1">
+                    {submission ? `Submit Attempt ${attemptsUsed + 1}` : 'Submit Assignment'}
                   </h3>
+                  {allowsMultipleAttempts && (
+                    <p className="text-sm text-gray-500 mb-4">
+                      {remainingAttempts === null
+                        ? 'Unlimited attempts'
+                        : `${remainingAttempts} of ${assignment.maxAttempts} attempts remaining`}
+                      {' · '}
+                      {GRADED_ATTEMPT_POLICY_LABELS[assignment.gradedAttemptPolicy]}
+                    </p>
+                  )}
+                  {!allowsMultipleAttempts && <div className="mb-4" />}
+
+                  {assignment.group && (
+                    <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800">
+                      Group assignment: you submit for <span className="font-semibold">{assignment.group.name}</span>
+                      {' '}({assignment.group.members.map((member) => `${member.name} ${member.surname}`).join(', ')}).
+                      Any member&apos;s submission counts for the whole group.
+                    </div>
+                  )}
+
+                  {needsGroup && (
+                    <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                      This is a group assignment and you are not in a group yet. Ask your instructor to add you to one.
+                    </div>
+                  )}
                   
+                  {canSubmit && lateStatus.isLate && (
+                    <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                      This assignment is past its due date. Your submission will be marked late
+                      {lateStatus.penaltyPercent > 0 && ` and lose ${lateStatus.penaltyPercent}% of its points`}.
+                    </div>
+                  )}
+
                   {canSubmit ? (
-                    <form onSubmit={submission ? handleUpdate : handleSubmit} className="space-y-4">
+                    <form onSubmit={handleSubmit} className="space-y-4">
                       <div>
                         <label htmlFor="content" className="block text-sm font-medium text-gray-700">
                           Your Response (Optional)
@@ -375,16 +437,30 @@ export default function StudentAssignmentPage() {
                           className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
                         >
                           <Upload className="h-4 w-4 mr-2" />
-                          {isSubmitting ? 'Submitting...' : submission ? 'Update Submission' : 'Submit Assignment'}
+                          {isSubmitting ? 'Submitting...' : submission ? 'Submit New Attempt' : 'Submit Assignment'}
                         </button>
                       </div>
                     </form>
+                  ) : needsGroup ? null : !hasAttemptsLeft ? (
+                    <div className="text-center py-8">
+                      <CheckCircle className="mx-auto h-12 w-12 text-green-400" />
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">
+                        {assignment.maxAttempts === 1 ? 'Submitted' : 'No Attempts Remaining'}
+                      </h3>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {assignment.maxAttempts === 1
+                          ? 'This assignment accepts a single submission.'
+                          : `You have used all ${assignment.maxAttempts} attempts for this assignment.`}
+                      </p>
+                    </div>
                   ) : (
                     <div className="text-center py-8">
                       <Clock className="mx-auto h-12 w-12 text-red-400" />
                       <h3 className="mt-2 text-sm font-medium text-gray-900">Assignment Overdue</h3>
                       <p className="mt-1 text-sm text-gray-500">
-                        This assignment is past its due date and can no longer be submitted.
+                        {assignment.latePolicy === 'REJECT'
+                          ? 'This assignment is past its due date and can no longer be submitted.'
+                          : 'The late submission cutoff has passed and this assignment can no longer be submitted.'}
                       </p>
                     </div>
                   )}
@@ -407,6 +483,14 @@ export default function StudentAssignmentPage() {
                         {submission ? 'Submitted' : isOverdue ? 'Overdue' : 'Not Submitted'}
                       </span>
                     </div>
+                    {submission && allowsMultipleAttempts && (
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-500">Attempts:</span>
+                        <span className="text-sm text-gray-900">
+                          {attemptsUsed}{assignment.maxAttempts > 0 && ` of ${assignment.maxAttempts}`}
+                        </span>
+                      </div>
+                    )}
                     {submission && (
                       <div className="flex justify-between">
                         <span className="text-sm text-gray-500">Submitted:</span>
@@ -439,11 +523,40 @@ export default function StudentAssignmentPage() {
                           {Math.round((grade.points / assignment.maxPoints) * 100)}%
                         </div>
                       </div>
+                      {!!grade.latePenaltyPercent && (
+                        <div className="text-center text-sm text-yellow-700">
+                          Includes a {grade.latePenaltyPercent}% late penalty
+                          {grade.rawPoints !== null && ` (${grade.rawPoints} before penalty)`}
+                        </div>
+                      )}
                       <div className="text-center">
                         <span className="text-sm text-gray-500">
                           Graded on {new Date(grade.gradedAt).toLocaleDateString()}
                         </span>
                       </div>
+                      {grade.rubricScores?.length > 0 && (
+                        <div className="mt-4">
+                          <h4 className="text-sm font-medium text-gray-900 mb-2">Rubric Scores</h4>
+                          <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                            {grade.rubricScores.map((score) => (
+                              <div key={score.criterionId} className="p-3">
+                                <div className="flex justify-between">
+                                  <span className="text-sm font-medium text-gray-900">{score.title}</span>
+                                  <span className="text-sm text-gray-900">
+                                    {score.points}/{score.maxPoints}
+                                  </span>
+                                </div>
+                                {score.level && (
+                                  <p className="text-xs text-blue-600">{score.level}</p>
+                                )}
+                                {score.comment && (
+                                  <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">{score.comment}</p>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                       {grade.feedback && (
                         <div className="mt-4">
                           <h4 className="text-sm font-medium text-gray-900 mb-2">Instructor Feedback</h4>
@@ -463,7 +576,9 @@ export default function StudentAssignmentPage() {
               {submission && (
                 <div className="bg-white shadow rounded-lg">
                   <div className="px-4 py-5 sm:p-6">
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">Current Submission</h3>
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">
+                      {allowsMultipleAttempts ? `Latest Submission (Attempt ${submission.attemptNumber})` : 'Current Submission'}
+                    </h3>
                     
                     {submission.content && (
                       <div className="mb-4">
@@ -505,6 +620,48 @@ export default function StudentAssignmentPage() {
                   </div>
                 </div>
               )}
+
+              {/* Attempt History */}
+              {attempts.length > 1 && (
+                <div className="bg-white shadow rounded-lg">
+                  <div className="px-4 py-5 sm:p-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Attempt History</h3>
+                    <ol className="space-y-3">
+                      {attempts.map((attempt) => (
+                        <li key={attempt.id} className="border-l-2 border-blue-200 pl-3">
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium text-gray-900">
+                              Attempt {attempt.attemptNumber}
+                            </span>
+                            {grade?.submissionId === attempt.id ? (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                                Counted
+                              </span>
+                            ) : (
+                              <span className="text-xs text-gray-500">
+                                {attempt.points !== null ? `${attempt.points}/${assignment.maxPoints}` : 'Not graded'}
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(attempt.submittedAt).toLocaleDateString()} at {new Date(attempt.submittedAt).toLocaleTimeString()}
+                          </div>
+                          {attempt.fileUrl && (
+                            <a
+                              href={attempt.fileUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-600 hover:text-blue-500"
+                            >
+                              {attempt.fileUrl.split('/').pop() || 'Download file'}
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </main>
@@ -6,11 +6,19 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
-import { ArrowLeft } from 'lucide-react'
+import PostReactions from '@/components/discussions/PostReactions'
+import ThreadSortSelect from '@/components/discussions/ThreadSortSelect'
+import MentionText from '@/components/discussions/MentionText'
+import MentionTextarea from '@/components/discussions/MentionTextarea'
+import SubscribeButton from '@/components/discussions/SubscribeButton'
+import type { DiscussionGrading } from '@/components/discussions/DiscussionGradingFields'
+import { isThreadAnswered, sortThreads, type ReactionSummary, type ReactionTypeValue, type ThreadSort } from '@/lib/discussions'
+import { ArrowLeft, CheckCircle, Award } from 'lucide-react'
 
 interface DiscussionPost {
   id: string
   content: string
+  parentId: string | null
   createdAt: string
   updatedAt: string
   author: {
@@ -18,6 +26,12 @@ interface DiscussionPost {
     name: string | null
     email: string
   }
+  isEndorsed: boolean
+  isAcceptedAnswer: boolean
+  isHidden: boolean
+  isRemoved: boolean
+  removalReason: string | null
+  reactions: ReactionSummary
   replies: DiscussionPost[]
 }
 
@@ -27,12 +41,25 @@ interface Discussion {
   description: string | null
   isPinned: boolean
   isLocked: boolean
+  isQuestionAnswer: boolean
+  isAnonymous: boolean
+  isPostFirst: boolean
+  /** False until the student starts a thread in a post-first discussion */
+  canSeePeers: boolean
+  isSubscribed: boolean
   createdAt: string
   author: {
     id: string
     name: string | null
     email: string
   }
+  grading: DiscussionGrading | null
+  participation: {
+    posts: number
+    replies: number
+    latePosts: number
+    met: boolean
+  } | null
   posts: DiscussionPost[]
 }
 
@@ -56,6 +83,7 @@ export default function StudentDiscussionDetailPage({
   const [submitting, setSubmitting] = useState(false)
   const [editingPost, setEditingPost] = useState<string | null>(null)
   const [editContent, setEditContent] = useState('')
+  const [sort, setSort] = useState<ThreadSort>('newest')
   const { data: session } = useSession()
   const router = useRouter()
 
@@ -200,6 +228,71 @@ export default function StudentDiscussionDetailPage({
     }
   }
 
+  const handleReaction = async (postId: string, type: ReactionTypeValue) => {
+    try {
+      const response = await fetch(`/api/student/courses/${courseId}/discussions/${discussionId}/posts/${postId}/reactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type }),
+      })
+
+      if (response.ok) {
+        await fetchDiscussion() // Refresh the discussion
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to react to post')
+      }
+    } catch (error) {
+      console.error('Error reacting to post:', error)
+      alert('An error occurred while reacting to the post')
+    }
+  }
+
+  const handleAcceptAnswer = async (post: DiscussionPost) => {
+    try {
+      const response = await fetch(`/api/student/courses/${courseId}/discussions/${discussionId}/posts/${post.id}/accept`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accepted: !post.isAcceptedAnswer }),
+      })
+
+      if (response.ok) {
+        await fetchDiscussion() // Refresh the discussion
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to accept answer')
+      }
+    } catch (error) {
+      console.error('Error accepting answer:', error)
+      alert('An error occurred while accepting the answer')
+    }
+  }
+
+  const handleReportPost = async (postId: string) => {
+    const reason = prompt('Why are you reporting this post? Your instructor will review it.')
+    if (!reason || !reason.trim()) return
+
+    try {
+      const response = await fetch(`/api/student/courses/${courseId}/discussions/${discussionId}/posts/${postId}/report`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: reason.trim() }),
+      })
+
+      const data = await response.json()
+      alert(response.ok ? data.message : data.error || 'Failed to report post')
+    } catch (error) {
+      console.error('Error reporting post:', error)
+      alert('An error occurred while reporting the post')
+    }
+  }
+
   const startEdit = (post: DiscussionPost) => {
     setEditingPost(post.id)
     setEditContent(post.content)
@@ -220,10 +313,14 @@ export default function StudentDiscussionDetailPage({
     })
   }
 
-  const renderPost = (post: DiscussionPost, level: number = 0) => {
-    const marginLeft = level * 40
+  // Replies render inside their parent, so each level indents once more (up to a limit)
+  const renderPost = (post: DiscussionPost, level: number = 0, questionAuthorId: string = post.author.id) => {
+    const marginLeft = level > 0 && level <= 5 ? 24 : 0
     const isAuthor = session?.user?.id === post.author.id
     const isEditing = editingPost === post.id
+    const canAccept = discussion?.isQuestionAnswer && level > 0 && session?.user?.id === questionAuthorId
+    // Hidden and removed posts can no longer be edited, replied to or reacted to
+    const isOpen = !post.isHidden && !post.isRemoved
 
     return (
       <div key={post.id} style={{ marginLeft: `${marginLeft}px` }} className="border-l-2 border-gray-200 pl-4 py-4">
@@ -233,14 +330,35 @@ export default function StudentDiscussionDetailPage({
               <span className="font-medium text-gray-900">
                 {post.author.name || post.author.email}
               </span>
+              {discussion?.isAnonymous && isAuthor && (
+                <span className="text-xs text-gray-500">(anonymous to classmates)</span>
+              )}
               <span className="text-sm text-gray-500">
                 {formatDate(post.createdAt)}
               </span>
               {post.createdAt !== post.updatedAt && (
                 <span className="text-xs text-gray-400">(edited)</span>
               )}
+              {post.isEndorsed && (
+                <span className="inline-flex items-center bg-purple-100 text-purple-800 text-xs px-2 py-0.5 rounded-full">
+                  <Award className="h-3 w-3 mr-1" />
+                  Endorsed by instructor
+                </span>
+              )}
+              {post.isAcceptedAnswer && (
+                <span className="inline-flex items-center bg-green-100 text-green-800 text-xs px-2 py-0.5 rounded-full">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Accepted answer
+                </span>
+              )}
+              {level === 0 && discussion?.isQuestionAnswer && !isThreadAnswered(post, true) && (
+                <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-0.5 rounded-full">Unanswered</span>
+              )}
+              {post.isHidden && !post.isRemoved && (
+                <span className="bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">Hidden by instructor</span>
+              )}
             </div>
-            {isAuthor && !discussion?.isLocked && (
+            {isAuthor && isOpen && !discussion?.isLocked && (
               <div className="flex space-x-2">
                 <button
                   onClick={() => startEdit(post)}
@@ -248,23 +366,32 @@ export default function StudentDiscussionDetailPage({
                 >
                   Edit
                 </button>
-                <button
-                  onClick={() => handleDeletePost(post.id)}
-                  className="text-red-600 hover:text-red-800 text-sm"
-                >
-                  Delete
-                </button>
+                {post.replies.length === 0 && (
+                  <button
+                    onClick={() => handleDeletePost(post.id)}
+                    className="text-red-600 hover:text-red-800 text-sm"
+                  >
+                    Delete
+                  </button>
+                )}
               </div>
             )}
+            {!isAuthor && !post.isRemoved && (
+              <button
+                onClick={() => handleReportPost(post.id)}
+                className="text-gray-500 hover:text-red-600 text-sm"
+              >
+                Report
+              </button>
+            )}
           </div>
           
           {isEditing ? (
             <div className="space-y-3">
-              <textarea
+              <MentionTextarea
                 value={editContent}
-                onChange={(e) => setEditContent(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                rows={3}
+                onChange={setEditContent}
+                courseId={courseId}
                 placeholder="Edit your post..."
               />
               <div className="flex space-x-2">
@@ -283,29 +410,55 @@ export default function StudentDiscussionDetailPage({
                 </button>
               </div>
             </div>
+          ) : post.isRemoved ? (
+            <div className="text-gray-500 italic">
+              This post was removed by an instructor.
+              {post.removalReason && <span className="block not-italic text-sm mt-1">Reason: {post.removalReason}</span>}
+            </div>
+          ) : post.isHidden && !isAuthor ? (
+            <div className="text-gray-500 italic">This post has been hidden by an instructor.</div>
           ) : (
             <>
               <div className="text-gray-700 whitespace-pre-wrap mb-3">
-                {post.content}
+                <MentionText content={post.content} viewerId={session?.user?.id} />
               </div>
-              {!discussion?.isLocked && (
-                <button
-                  onClick={() => setShowReplyForm(showReplyForm === post.id ? null : post.id)}
-                  className="text-blue-600 hover:text-blue-800 text-sm"
-                >
-                  Reply
-                </button>
+              {post.isHidden && (
+                <p className="text-sm text-gray-500 mb-3">Only you and your instructor can see this post.</p>
+              )}
+              {isOpen && (
+                <div className="flex flex-wrap items-center gap-4">
+                  <PostReactions
+                    reactions={post.reactions}
+                    onToggle={(type) => handleReaction(post.id, type)}
+                    disabled={discussion?.isLocked}
+                  />
+                  {!discussion?.isLocked && (
+                    <button
+                      onClick={() => setShowReplyForm(showReplyForm === post.id ? null : post.id)}
+                      className="text-blue-600 hover:text-blue-800 text-sm"
+                    >
+                      Reply
+                    </button>
+                  )}
+                  {canAccept && !discussion?.isLocked && (
+                    <button
+                      onClick={() => handleAcceptAnswer(post)}
+                      className="text-green-600 hover:text-green-800 text-sm"
+                    >
+                      {post.isAcceptedAnswer ? 'Unaccept answer' : 'Accept answer'}
+                    </button>
+                  )}
+                </div>
               )}
             </>
           )}
           
           {showReplyForm === post.id && !discussion?.isLocked && (
             <div className="mt-3 space-y-3">
-              <textarea
+              <MentionTextarea
                 value={replyContent}
-                onChange={(e) => setReplyContent(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                rows={3}
+                onChange={setReplyContent}
+                courseId={courseId}
                 placeholder="Write your reply..."
               />
               <div className="flex space-x-2">
@@ -329,7 +482,7 @@ export default function StudentDiscussionDetailPage({
         
         {post.replies && post.replies.length > 0 && (
           <div className="mt-4">
-            {post.replies.map(reply => renderPost(reply, level + 1))}
+            {post.replies.map(reply => renderPost(reply, level + 1, questionAuthorId))}
           </div>
         )}
       </div>
@@ -410,6 +563,20 @@ export default function StudentDiscussionDetailPage({
                   {discussion.isLocked && (
                     <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">Locked</span>
                   )}
+                  {discussion.isQuestionAnswer && (
+                    <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">Q&amp;A</span>
+                  )}
+                  {discussion.isAnonymous && (
+                    <span className="bg-purple-100 text-purple-800 text-xs px-2 py-1 rounded-full">Anonymous</span>
+                  )}
+                  {discussion.isPostFirst && (
+                    <span className="bg-gray-100 text-gray-800 text-xs px-2 py-1 rounded-full">Post first</span>
+                  )}
+                  {discussion.grading && (
+                    <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
+                      Graded · {discussion.grading.maxPoints} pts
+                    </span>
+                  )}
                 </div>
                 {discussion.description && (
                   <p className="text-gray-600 mb-4">{discussion.description}</p>
@@ -420,21 +587,56 @@ export default function StudentDiscussionDetailPage({
                   <span>{discussion.posts.length} posts</span>
                 </div>
               </div>
+              <SubscribeButton
+                url={`/api/student/courses/${courseId}/discussions/${discussionId}/subscription`}
+                subscribed={discussion.isSubscribed}
+                onChange={(isSubscribed) => setDiscussion({ ...discussion, isSubscribed })}
+              />
             </div>
 
+            {discussion.grading && discussion.participation && (
+              <div
+                className={`mb-6 p-4 border rounded-lg ${
+                  discussion.participation.met ? 'border-green-200 bg-green-50' : 'border-yellow-200 bg-yellow-50'
+                }`}
+              >
+                <div className="flex items-center space-x-2 mb-1">
+                  {discussion.participation.met && <CheckCircle className="h-4 w-4 text-green-600" />}
+                  <h3 className="font-medium text-gray-900">
+                    {discussion.participation.met ? 'Participation requirements met' : 'Participation requirements'}
+                  </h3>
+                </div>
+                <p className="text-sm text-gray-700">
+                  Original posts: {discussion.participation.posts} of {discussion.grading.requiredPosts}
+                  {' · '}
+                  Replies: {discussion.participation.replies} of {discussion.grading.requiredReplies}
+                  {discussion.grading.dueDate && ` · Due ${formatDate(discussion.grading.dueDate)}`}
+                </p>
+                {discussion.participation.latePosts > 0 && (
+                  <p className="text-sm text-red-600 mt-1">
+                    Not counted: {discussion.participation.latePosts} post{discussion.participation.latePosts === 1 ? '' : 's'} made after the due date.
+                  </p>
+                )}
+              </div>
+            )}
+
             {!discussion.isLocked && (
               <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
-                <h3 className="text-lg font-medium mb-3">Start a new conversation</h3>
+                <h3 className="text-lg font-medium mb-3">
+                  {discussion.isQuestionAnswer ? 'Ask a question' : 'Start a new conversation'}
+                </h3>
+                {discussion.isAnonymous && (
+                  <p className="text-sm text-gray-500 mb-3">Your classmates won&apos;t see your name. Your instructor will.</p>
+                )}
                 <div className="space-y-3">
-                  <textarea
+                  <MentionTextarea
                     value={showReplyForm === 'new' ? replyContent : ''}
-                    onChange={(e) => {
-                      setReplyContent(e.target.value)
+                    onChange={(value) => {
+                      setReplyContent(value)
                       if (showReplyForm !== 'new') setShowReplyForm('new')
                     }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    rows={3}
-                    placeholder="Share your thoughts..."
+                    courseId={courseId}
+                    placeholder="Share your thoughts... Type @ to mention someone."
                   />
                   {showReplyForm === 'new' && (
                     <div className="flex space-x-2">
@@ -461,16 +663,28 @@ export default function StudentDiscussionDetailPage({
             )}
 
             <div className="border-t border-gray-200 pt-6">
-              <h2 className="text-lg font-medium text-gray-900 mb-4">Discussion</h2>
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-medium text-gray-900">Discussion</h2>
+                {discussion.posts.length > 1 && <ThreadSortSelect value={sort} onChange={setSort} />}
+              </div>
+              {!discussion.canSeePeers && (
+                <div className="mb-4 p-4 border border-gray-200 rounded-lg bg-gray-50 text-sm text-gray-700">
+                  Your classmates&apos; posts appear once you start a thread of your own.
+                </div>
+              )}
               {discussion.posts.length === 0 ? (
                 <div className="text-center py-8">
                   <p className="text-gray-500">
-                    {discussion.isLocked ? 'This discussion is locked.' : 'Be the first to start the conversation!'}
+                    {discussion.isLocked
+                      ? 'This discussion is locked.'
+                      : discussion.canSeePeers
+                        ? 'Be the first to start the conversation!'
+                        : 'Share your thoughts to join the conversation.'}
                   </p>
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {discussion.posts.map(post => renderPost(post))}
+                  {sortThreads(discussion.posts, sort, discussion.isQuestionAnswer).map(post => renderPost(post))}
                 </div>
               )}
             </div>
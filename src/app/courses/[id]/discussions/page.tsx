@@ -6,6 +6,7 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
+import type { DiscussionGrading } from '@/components/discussions/DiscussionGradingFields'
 import { ArrowLeft } from 'lucide-react'
 
 interface Discussion {
@@ -14,7 +15,11 @@ interface Discussion {
   description: string | null
   isPinned: boolean
   isLocked: boolean
+  isQuestionAnswer: boolean
+  isAnonymous: boolean
+  isPostFirst: boolean
   createdAt: string
+  grading: DiscussionGrading | null
   author: {
     id: string
     name: string | null
@@ -153,6 +158,20 @@ export default function StudentDiscussionsPage({ params }: { params: Promise<{ i
                           {discussion.isLocked && (
                             <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">Locked</span>
                           )}
+                          {discussion.isQuestionAnswer && (
+                            <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">Q&amp;A</span>
+                          )}
+                          {discussion.isAnonymous && (
+                            <span className="bg-purple-100 text-purple-800 text-xs px-2 py-1 rounded-full">Anonymous</span>
+                          )}
+                          {discussion.isPostFirst && (
+                            <span className="bg-gray-100 text-gray-800 text-xs px-2 py-1 rounded-full">Post first</span>
+                          )}
+                          {discussion.grading && (
+                            <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
+                              Graded · {discussion.grading.maxPoints} pts
+                            </span>
+                          )}
                         </div>
                         {discussion.description && (
                           <p className="text-gray-600 mb-2">{discussion.description}</p>
@@ -18,9 +18,12 @@ import {
   RefreshCw,
   CheckCircle,
   Unlock,
+  ListChecks,
 } from 'lucide-react'
+import QuizPlayer, { type QuizSubmitResult } from '@/components/modules/QuizPlayer'
+import ScormPlayer, { type ScormCommitResult } from '@/components/modules/ScormPlayer'
 
-type ContentType = 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+type ContentType = 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
 
 interface ContentData {
   id: string
@@ -29,6 +32,7 @@ interface ContentData {
   content: string | null
   fileUrl: string | null
   thumbnailUrl: string | null
+  scorm: { id: string; version: 'SCORM_12' | 'SCORM_2004' } | null
 }
 
 interface ModuleInfo {
@@ -55,11 +59,29 @@ function getContentIcon(type: ContentType) {
       return LinkIcon
     case 'SCORM':
       return BookOpen
+    case 'QUIZ':
+      return ListChecks
     default:
       return FileText
   }
 }
 
+// Toast shown when completing content unlocks the next module
+function showModuleUnlockedToast(unlockedModule: { title: string }) {
+  toast.success(
+    <div className="flex items-center gap-2">
+      <Unlock className="h-4 w-4" />
+      <span>
+        <strong>{unlockedModule.title}</strong> is now available!
+      </span>
+    </div>,
+    {
+      duration: 5000,
+      position: 'top-center',
+    }
+  )
+}
+
 function extractYouTubeId(url: string): string | null {
   const patterns = [
     /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
@@ -148,18 +170,7 @@ export default function StudentContentViewerPage() {
         // Check for module unlock (Story 3.6)
         const data = await response.json()
         if (data.unlockedModule) {
-          toast.success(
-            <div className="flex items-center gap-2">
-              <Unlock className="h-4 w-4" />
-              <span>
-                <strong>{data.unlockedModule.title}</strong> is now available!
-              </span>
-            </div>,
-            {
-              duration: 5000,
-              position: 'top-center',
-            }
-          )
+          showModuleUnlockedToast(data.unlockedModule)
         }
       }
     } catch (err) {
@@ -174,13 +185,28 @@ export default function StudentContentViewerPage() {
     }
   }, [courseId, moduleId, contentId])
 
-  // Trigger completion when content is loaded
+  // Trigger completion when content is loaded (quizzes complete on submission,
+  // SCORM packages when they report completion)
   useEffect(() => {
-    if (contentData && !completionCalledRef.current) {
+    if (contentData && contentData.type !== 'QUIZ' && !contentData.scorm && !completionCalledRef.current) {
       markContentComplete()
     }
   }, [contentData, markContentComplete])
 
+  const handleQuizSubmitted = useCallback((result: QuizSubmitResult) => {
+    setIsMarkedComplete(true)
+    if (result.unlockedModule) {
+      showModuleUnlockedToast(result.unlockedModule)
+    }
+  }, [])
+
+  const handleScormCompleted = useCallback((result: ScormCommitResult) => {
+    setIsMarkedComplete(true)
+    if (result.unlockedModule) {
+      showModuleUnlockedToast(result.unlockedModule)
+    }
+  }, [])
+
   const Icon = contentData ? getContentIcon(contentData.type) : FileText
 
   // Loading State
@@ -283,7 +309,11 @@ export default function StudentContentViewerPage() {
                       {isMarkedComplete && (
                         <span className="inline-flex items-center text-xs text-green-600">
                           <CheckCircle className="h-3.5 w-3.5 mr-1" />
-                          Marked as viewed
+                          {contentData.type === 'QUIZ'
+                            ? 'Submitted'
+                            : contentData.scorm
+                              ? 'Completed'
+                              : 'Marked as viewed'}
                         </span>
                       )}
                     </div>
@@ -403,8 +433,28 @@ export default function StudentContentViewerPage() {
                 </div>
               )}
 
+              {/* QUIZ content */}
+              {contentData.type === 'QUIZ' && (
+                <QuizPlayer
+                  courseId={courseId}
+                  moduleId={moduleId}
+                  contentId={contentId}
+                  onSubmitted={handleQuizSubmitted}
+                />
+              )}
+
               {/* SCORM content */}
-              {contentData.type === 'SCORM' && contentData.fileUrl && (
+              {contentData.type === 'SCORM' && contentData.scorm && (
+                <ScormPlayer
+                  courseId={courseId}
+                  moduleId={moduleId}
+                  contentId={contentId}
+                  onCompleted={handleScormCompleted}
+                />
+              )}
+
+              {/* SCORM content linked by URL rather than uploaded as a package */}
+              {contentData.type === 'SCORM' && !contentData.scorm && contentData.fileUrl && (
                 <div className="text-center py-8">
                   <BookOpen className="mx-auto h-16 w-16 text-gray-400 mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">
@@ -22,11 +22,12 @@ import {
 interface ContentItem {
   id: string
   title: string
-  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
   fileUrl: string | null
   thumbnailUrl: string | null
   orderIndex: number
   isViewed: boolean
+  isRequired: boolean
 }
 
 interface AssignmentItem {
@@ -37,12 +38,14 @@ interface AssignmentItem {
   isSubmitted: boolean
   isGraded: boolean
   grade: number | null
+  isRequired: boolean
 }
 
 interface DiscussionItem {
   id: string
   title: string
   postCount: number
+  hasPosted: boolean
 }
 
 interface ModuleData {
@@ -53,6 +56,10 @@ interface ModuleData {
   content: ContentItem[]
   assignments: AssignmentItem[]
   discussions: DiscussionItem[]
+  completion: {
+    passingScore: number | null
+    requireDiscussionPost: boolean
+  }
 }
 
 interface CourseInfo {
@@ -60,7 +67,7 @@ interface CourseInfo {
   title: string
 }
 
-type ContentType = 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+type ContentType = 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
 
 interface ModuleListItem {
   id: string
@@ -434,6 +441,12 @@ export default function StudentModuleDetailPage() {
                   <ClipboardList className="h-5 w-5 text-gray-500" />
                   Assignments ({moduleData.assignments.length})
                 </h2>
+                {moduleData.completion.passingScore !== null && (
+                  <p className="-mt-2 mb-4 text-sm text-gray-500">
+                    Required assignments count toward completion once graded at{' '}
+                    {moduleData.completion.passingScore}% or higher.
+                  </p>
+                )}
 
                 <div className="space-y-3">
                   {moduleData.assignments.map((assignment) => (
@@ -454,6 +467,11 @@ export default function StudentModuleDetailPage() {
                             </span>
                           )}
                           <span>{assignment.maxPoints} points</span>
+                          {!assignment.isRequired && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                              Optional
+                            </span>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -484,6 +502,11 @@ export default function StudentModuleDetailPage() {
                   <MessageSquare className="h-5 w-5 text-gray-500" />
                   Discussions ({moduleData.discussions.length})
                 </h2>
+                {moduleData.completion.requireDiscussionPost && (
+                  <p className="-mt-2 mb-4 text-sm text-gray-500">
+                    Post in each discussion to complete this module.
+                  </p>
+                )}
 
                 <div className="space-y-3">
                   {moduleData.discussions.map((discussion) => (
@@ -495,9 +518,16 @@ export default function StudentModuleDetailPage() {
                       <h4 className="font-medium text-gray-900">
                         {discussion.title}
                       </h4>
-                      <span className="text-sm text-gray-500">
-                        {discussion.postCount} post{discussion.postCount !== 1 ? 's' : ''}
-                      </span>
+                      <div className="flex items-center gap-2">
+                        {moduleData.completion.requireDiscussionPost && discussion.hasPosted && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Posted
+                          </span>
+                        )}
+                        <span className="text-sm text-gray-500">
+                          {discussion.postCount} post{discussion.postCount !== 1 ? 's' : ''}
+                        </span>
+                      </div>
                     </Link>
                   ))}
                 </div>
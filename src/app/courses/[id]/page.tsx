@@ -8,7 +8,8 @@ import Navbar from '@/components/Navbar'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
 import StudentModuleList from '@/components/modules/StudentModuleList'
-import { BookOpen, ClipboardList, MessageSquare, Clock, Calendar, Layers, ArrowLeft, FileText, Video, File, Link as LinkIcon } from 'lucide-react'
+import CourseCertificateCard from '@/components/CourseCertificateCard'
+import { BookOpen, ClipboardList, MessageSquare, Clock, Calendar, Layers, ArrowLeft, FileText, Video, File, Link as LinkIcon, ListChecks } from 'lucide-react'
 
 interface Course {
   id: string
@@ -47,7 +48,7 @@ interface Announcement {
 interface CourseContent {
   id: string
   title: string
-  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
   content: string | null
   fileUrl: string | null
   thumbnailUrl: string | null
@@ -149,6 +150,7 @@ export default function StudentCourseDetailPage() {
       case 'DOCUMENT': return File
       case 'LINK': return LinkIcon
       case 'SCORM': return BookOpen
+      case 'QUIZ': return ListChecks
       default: return FileText
     }
   }
@@ -161,6 +163,7 @@ export default function StudentCourseDetailPage() {
       case 'DOCUMENT': return 'text-white bg-green-500'
       case 'LINK': return 'text-white bg-purple-500'
       case 'SCORM': return 'text-white bg-blue-500'
+      case 'QUIZ': return 'text-white bg-indigo-500'
       default: return 'text-white bg-gray-500'
     }
   }
@@ -359,6 +362,7 @@ export default function StudentCourseDetailPage() {
             <div className="p-6">
               {activeTab === 'overview' && (
                 <div className="space-y-6">
+                  <CourseCertificateCard courseId={course.id} />
                   <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
                     <div>
                       <h3 className="text-lg font-medium text-gray-900 mb-4">Upcoming Assignments</h3>
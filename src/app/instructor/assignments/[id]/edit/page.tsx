@@ -3,11 +3,28 @@
 import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
+import Link from 'next/link'
 import Navbar from '@/components/Navbar'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
 import { Save, ArrowLeft, Calendar, FileText } from 'lucide-react'
 import RichTextEditor from '@/components/RichTextEditor'
+import LatePolicyFields, { defaultLatePolicyValues, toLatePolicyPayload, LatePolicyFormValues } from '@/components/instructor/LatePolicyFields'
+import AttemptSettingsFields, { defaultAttemptSettingsValues, AttemptSettingsFormValues } from '@/components/instructor/AttemptSettingsFields'
+import PublishScheduleFields from '@/components/PublishScheduleFields'
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '@/lib/publishing'
+
+interface GradeCategory {
+  id: string
+  name: string
+  weight: number
+}
+
+interface RubricOption {
+  id: string
+  name: string
+  maxPoints: number
+}
 
 interface Assignment {
   id: string
@@ -16,6 +33,20 @@ interface Assignment {
   dueDate: string | null
   maxPoints: number
   isPublished: boolean
+  isRequired: boolean
+  isGroupAssignment: boolean
+  publishAt: string | null
+  unpublishAt: string | null
+  courseId: string
+  categoryId: string | null
+  rubricId: string | null
+  rubric: RubricOption | null
+  latePolicy: LatePolicyFormValues['latePolicy']
+  lateGraceMinutes: number
+  latePenaltyPerDay: number
+  lateCutoffAt: string | null
+  maxAttempts: number
+  gradedAttemptPolicy: AttemptSettingsFormValues['gradedAttemptPolicy']
   course: {
     id: string
     title: string
@@ -30,12 +61,22 @@ export default function EditAssignmentPage() {
   const [assignment, setAssignment] = useState<Assignment | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
+  const [categories, setCategories] = useState<GradeCategory[]>([])
+  const [rubrics, setRubrics] = useState<RubricOption[]>([])
+  const [latePolicy, setLatePolicy] = useState(defaultLatePolicyValues)
+  const [attemptSettings, setAttemptSettings] = useState(defaultAttemptSettingsValues)
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     dueDate: '',
     maxPoints: 100,
-    isPublished: false
+    isPublished: false,
+    isRequired: true,
+    isGroupAssignment: false,
+    publishAt: '',
+    unpublishAt: '',
+    categoryId: '',
+    rubricId: ''
   })
 
 
@@ -51,8 +92,42 @@ export default function EditAssignmentPage() {
             description: data.description || '',
             dueDate: data.dueDate ? new Date(data.dueDate).toISOString().slice(0, 16) : '',
             maxPoints: data.maxPoints,
-            isPublished: data.isPublished
+            isPublished: data.isPublished,
+            isRequired: data.isRequired,
+            isGroupAssignment: data.isGroupAssignment,
+            publishAt: toDateTimeLocalValue(data.publishAt),
+            unpublishAt: toDateTimeLocalValue(data.unpublishAt),
+            categoryId: data.categoryId || '',
+            rubricId: data.rubricId || ''
+          })
+          setLatePolicy({
+            latePolicy: data.latePolicy,
+            lateGraceMinutes: data.lateGraceMinutes,
+            latePenaltyPerDay: data.latePenaltyPerDay,
+            lateCutoffAt: data.lateCutoffAt ? new Date(data.lateCutoffAt).toISOString().slice(0, 16) : ''
+          })
+          setAttemptSettings({
+            maxAttempts: data.maxAttempts,
+            gradedAttemptPolicy: data.gradedAttemptPolicy
           })
+
+          const categoriesResponse = await fetch(`/api/instructor/courses/${data.courseId}/grade-categories`)
+          if (categoriesResponse.ok) {
+            const categoriesData = await categoriesResponse.json()
+            setCategories(categoriesData.categories)
+          }
+
+          const rubricsResponse = await fetch('/api/instructor/rubrics')
+          if (rubricsResponse.ok) {
+            const rubricsData: { rubrics: RubricOption[] } = await rubricsResponse.json()
+            // Keep the attached rubric selectable even if it has since been deleted
+            const attached: RubricOption | null = data.rubric
+            setRubrics(
+              attached && !rubricsData.rubrics.some((r) => r.id === attached.id)
+                ? [attached, ...rubricsData.rubrics]
+                : rubricsData.rubrics
+            )
+          }
         } else {
           console.error('Failed to fetch assignment')
           router.push('/dashboard')
@@ -86,7 +161,15 @@ export default function EditAssignmentPage() {
           description: formData.description,
           dueDate: formData.dueDate || null,
           maxPoints: formData.maxPoints,
-          isPublished: formData.isPublished
+          isPublished: formData.isPublished,
+          isRequired: formData.isRequired,
+          isGroupAssignment: formData.isGroupAssignment,
+          publishAt: fromDateTimeLocalValue(formData.publishAt),
+          unpublishAt: fromDateTimeLocalValue(formData.unpublishAt),
+          categoryId: formData.categoryId || null,
+          rubricId: formData.rubricId || null,
+          ...toLatePolicyPayload(latePolicy),
+          ...attemptSettings
         }),
       })
 
@@ -266,6 +349,56 @@ export default function EditAssignmentPage() {
                   </div>
                 </div>
 
+                {/* Late Policy */}
+                <LatePolicyFields value={latePolicy} onChange={setLatePolicy} />
+
+                <AttemptSettingsFields value={attemptSettings} onChange={setAttemptSettings} />
+
+                {/* Grade Category */}
+                {categories.length > 0 && (
+                  <div>
+                    <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700">
+                      Grade Category
+                    </label>
+                    <select
+                      id="categoryId"
+                      value={formData.categoryId}
+                      onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Uncategorized</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.name} ({category.weight}%)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* Grading Rubric */}
+                <div>
+                  <label htmlFor="rubricId" className="block text-sm font-medium text-gray-700">
+                    Grading Rubric
+                  </label>
+                  <select
+                    id="rubricId"
+                    value={formData.rubricId}
+                    onChange={(e) => setFormData({ ...formData, rubricId: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">No rubric</option>
+                    {rubrics.map((rubric) => (
+                      <option key={rubric.id} value={rubric.id}>
+                        {rubric.name} ({rubric.maxPoints} pts)
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Manage rubrics on the <Link href="/instructor/rubrics" className="text-blue-600 hover:text-blue-500">Rubrics</Link> page.
+                  </p>
+                </div>
+
                 {/* Published Status */}
                 <div className="flex items-center">
                   <input
@@ -280,6 +413,39 @@ export default function EditAssignmentPage() {
                   </label>
                 </div>
 
+                <div className="flex items-center">
+                  <input
+                    id="isRequired"
+                    type="checkbox"
+                    checked={formData.isRequired}
+                    onChange={(e) => setFormData({ ...formData, isRequired: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="isRequired" className="ml-2 block text-sm text-gray-900">
+                    Required for module completion
+                  </label>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    id="isGroupAssignment"
+                    type="checkbox"
+                    checked={formData.isGroupAssignment}
+                    onChange={(e) => setFormData({ ...formData, isGroupAssignment: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="isGroupAssignment" className="ml-2 block text-sm text-gray-900">
+                    Group assignment (one member submits for their group)
+                  </label>
+                </div>
+
+                {/* Schedule */}
+                <PublishScheduleFields
+                  publishAt={formData.publishAt}
+                  unpublishAt={formData.unpublishAt}
+                  onChange={(field, value) => setFormData({ ...formData, [field]: value })}
+                />
+
                 {/* Action Buttons */}
                 <div className="flex items-center justify-between pt-6 border-t border-gray-200">
                   <button
@@ -2,24 +2,45 @@
 
 import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
 import Navbar from '@/components/Navbar'
 import ProtectedRoute from '@/components/ProtectedRoute'
+import RubricGradingPanel, {
+  Rubric,
+  RubricScores,
+  getRubricScoreTotal,
+  toRubricScoresPayload
+} from '@/components/instructor/RubricGradingPanel'
 import { Save, ArrowLeft, User, Calendar, FileText } from 'lucide-react'
 
 interface Assignment {
   id: string
   title: string
   maxPoints: number
+  rubric: Rubric | null
   course: {
     title: string
     code: string
   }
 }
 
+interface Attempt {
+  id: string
+  attemptNumber: number
+  submittedAt: string
+  fileUrl: string | null
+  points: number | null
+  gradedAt: string | null
+  isCounted: boolean
+}
+
 interface Submission {
   id: string
   content: string | null
   submittedAt: string
+  attemptNumber: number
+  gradedAttemptPolicy: 'LATEST' | 'HIGHEST' | 'MANUAL'
+  attempts: Attempt[]
   student: {
     id: string
     name: string
@@ -28,9 +49,16 @@ interface Submission {
 }
 
 interface Grade {
-  id: string
+  submissionId: string
   points: number
   feedback: string | null
+  isCounted: boolean
+  rubric_scores: Array<{
+    criterionId: string
+    levelId: string | null
+    points: number
+    comment: string | null
+  }>
 }
 
 export default function GradeSubmissionPage() {
@@ -43,8 +71,10 @@ export default function GradeSubmissionPage() {
     points: '',
     feedback: ''
   })
+  const [rubricScores, setRubricScores] = useState<RubricScores>({})
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [countingAttemptId, setCountingAttemptId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -73,6 +103,14 @@ export default function GradeSubmissionPage() {
             points: gradeData.points.toString(),
             feedback: gradeData.feedback || ''
           })
+          setRubricScores(
+            Object.fromEntries(
+              gradeData.rubric_scores.map((score: Grade['rubric_scores'][number]) => [
+                score.criterionId,
+                { levelId: score.levelId, points: score.points, comment: score.comment || '' }
+              ])
+            )
+          )
         }
       } catch (error) {
         console.error('Error fetching data:', error)
@@ -98,7 +136,14 @@ export default function GradeSubmissionPage() {
     setIsLoading(true)
     setError('')
 
-    const points = parseFloat(formData.points)
+    const rubric = assignment?.rubric
+    if (rubric && rubric.criteria.some((criterion) => rubricScores[criterion.id]?.points == null)) {
+      setError('Score every rubric criterion before saving')
+      setIsLoading(false)
+      return
+    }
+
+    const points = rubric ? getRubricScoreTotal(rubricScores) : parseFloat(formData.points)
     if (isNaN(points) || points < 0 || (assignment && points > assignment.maxPoints)) {
       setError(`Points must be between 0 and ${assignment?.maxPoints}`)
       setIsLoading(false)
@@ -119,7 +164,8 @@ export default function GradeSubmissionPage() {
         },
         body: JSON.stringify({
           points,
-          feedback: formData.feedback
+          feedback: formData.feedback,
+          ...(rubric && { rubricScores: toRubricScoresPayload(rubricScores) })
         }),
       })
 
@@ -136,6 +182,33 @@ export default function GradeSubmissionPage() {
     }
   }
 
+  const handleCountAttempt = async (attemptId: string) => {
+    setCountingAttemptId(attemptId)
+    setError('')
+
+    try {
+      const response = await fetch(
+        `/api/instructor/assignments/${params.id}/submissions/${attemptId}/counted`,
+        { method: 'PUT' }
+      )
+
+      if (response.ok) {
+        setSubmission((prev) => prev && {
+          ...prev,
+          attempts: prev.attempts.map((attempt) => ({ ...attempt, isCounted: attempt.id === attemptId }))
+        })
+        setGrade((prev) => prev && { ...prev, isCounted: prev.submissionId === attemptId })
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to update the counted attempt')
+      }
+    } catch (error) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setCountingAttemptId(null)
+    }
+  }
+
   if (loading) {
     return (
       <ProtectedRoute allowedRoles={['INSTRUCTOR']}>
@@ -225,7 +298,10 @@ export default function GradeSubmissionPage() {
 
               <div className="bg-white shadow rounded-lg">
                 <div className="px-4 py-5 sm:p-6">
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">Student Submission</h3>
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">
+                    Student Submission
+                    {submission.attempts?.length > 1 && ` (Attempt ${submission.attemptNumber})`}
+                  </h3>
                   <div className="p-4 bg-gray-50 rounded-md">
                     <div className="flex items-start">
                       <FileText className="h-5 w-5 text-gray-400 mr-2 mt-0.5" />
@@ -242,6 +318,66 @@ export default function GradeSubmissionPage() {
                   </div>
                 </div>
               </div>
+
+              {submission.attempts?.length > 1 && (
+                <div className="bg-white shadow rounded-lg">
+                  <div className="px-4 py-5 sm:p-6">
+                    <h3 className="text-lg font-medium text-gray-900 mb-4">Attempt History</h3>
+                    <ol className="space-y-3">
+                      {submission.attempts.map((attempt) => (
+                        <li key={attempt.id} className="flex items-start justify-between border-l-2 border-blue-200 pl-3">
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {attempt.id === submission.id ? (
+                                <span>Attempt {attempt.attemptNumber} (viewing)</span>
+                              ) : (
+                                <Link
+                                  href={`/instructor/assignments/${params.id}/grade/${attempt.id}`}
+                                  className="text-blue-600 hover:text-blue-500"
+                                >
+                                  Attempt {attempt.attemptNumber}
+                                </Link>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {new Date(attempt.submittedAt).toLocaleDateString()} at {new Date(attempt.submittedAt).toLocaleTimeString()}
+                            </div>
+                            {attempt.fileUrl && (
+                              <a
+                                href={attempt.fileUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-blue-600 hover:text-blue-500"
+                              >
+                                {attempt.fileUrl.split('/').pop() || 'Download file'}
+                              </a>
+                            )}
+                          </div>
+                          <div className="text-right">
+                            <div className="text-xs text-gray-500">
+                              {attempt.points !== null ? `${attempt.points}/${assignment.maxPoints}` : 'Not graded'}
+                            </div>
+                            {attempt.isCounted ? (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                                Counted
+                              </span>
+                            ) : submission.gradedAttemptPolicy === 'MANUAL' && attempt.points !== null && (
+                              <button
+                                type="button"
+                                onClick={() => handleCountAttempt(attempt.id)}
+                                disabled={countingAttemptId !== null}
+                                className="text-xs text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                              >
+                                {countingAttemptId === attempt.id ? 'Saving...' : 'Count this attempt'}
+                              </button>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Grading Form */}
@@ -250,26 +386,46 @@ export default function GradeSubmissionPage() {
                 <h3 className="text-lg font-medium text-gray-900 mb-4">
                   {grade ? 'Update Grade' : 'Assign Grade'}
                 </h3>
+                {grade && !grade.isCounted && (
+                  <p className="mb-4 text-sm text-yellow-700">
+                    This attempt is graded but does not count toward the student&apos;s grade.
+                  </p>
+                )}
                 
                 <form onSubmit={handleSubmit} className="space-y-6">
-                  <div>
-                    <label htmlFor="points" className="block text-sm font-medium text-gray-700">
-                      Points (out of {assignment.maxPoints}) *
-                    </label>
-                    <input
-                      type="number"
-                      name="points"
-                      id="points"
-                      required
-                      min="0"
-                      max={assignment.maxPoints}
-                      step="0.1"
-                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                      placeholder="Enter points earned"
-                      value={formData.points}
-                      onChange={handleChange}
-                    />
-                  </div>
+                  {assignment.rubric ? (
+                    <div>
+                      <RubricGradingPanel
+                        rubric={assignment.rubric}
+                        scores={rubricScores}
+                        onChange={setRubricScores}
+                      />
+                      {assignment.rubric.maxPoints !== assignment.maxPoints && (
+                        <p className="mt-2 text-xs text-yellow-700">
+                          This rubric is worth {assignment.rubric.maxPoints} points; the assignment is out of {assignment.maxPoints}.
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div>
+                      <label htmlFor="points" className="block text-sm font-medium text-gray-700">
+                        Points (out of {assignment.maxPoints}) *
+                      </label>
+                      <input
+                        type="number"
+                        name="points"
+                        id="points"
+                        required
+                        min="0"
+                        max={assignment.maxPoints}
+                        step="0.1"
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        placeholder="Enter points earned"
+                        value={formData.points}
+                        onChange={handleChange}
+                      />
+                    </div>
+                  )}
 
                   <div>
                     <label htmlFor="feedback" className="block text-sm font-medium text-gray-700">
@@ -300,7 +456,7 @@ export default function GradeSubmissionPage() {
                     </button>
                     <button
                       type="submit"
-                      disabled={isLoading || !formData.points}
+                      disabled={isLoading || (!assignment.rubric && !formData.points)}
                       className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
                     >
                       <Save className="h-4 w-4 mr-2" />
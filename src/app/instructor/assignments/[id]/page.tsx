@@ -6,7 +6,9 @@ import Link from 'next/link'
 import Navbar from '@/components/Navbar'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
-import { Users, Clock, CheckCircle, XCircle, Calendar, FileText, Edit, File } from 'lucide-react'
+import { Users, Clock, CheckCircle, XCircle, Calendar, FileText, Edit, File, CalendarPlus } from 'lucide-react'
+import ExtensionsPanel from '@/components/instructor/ExtensionsPanel'
+import SectionDueDatesPanel from '@/components/instructor/SectionDueDatesPanel'
 
 interface Assignment {
   id: string
@@ -16,6 +18,7 @@ interface Assignment {
   maxPoints: number
   isPublished: boolean
   createdAt: string
+  courseId: string
   course: {
     id: string
     title: string
@@ -31,6 +34,9 @@ interface Submission {
   content: string | null
   fileUrl: string | null
   submittedAt: string
+  attemptNumber: number
+  attemptCount: number
+  points: number | null
   student: {
     id: string
     name: string
@@ -136,13 +142,15 @@ export default function AssignmentDetailPage() {
     )
   }
 
-  const gradedCount = submissions.filter(s => s.grade).length
+  // Each row is a student's latest attempt; a new ungraded attempt needs grading again
+  const gradedCount = submissions.filter(s => s.grade && s.points !== null).length
   const pendingCount = submissions.length - gradedCount
 
   const tabs = [
     { id: 'overview', name: 'Overview', icon: FileText },
     { id: 'submissions', name: 'Submissions', icon: Users },
-    { id: 'grading', name: 'Grading', icon: CheckCircle }
+    { id: 'grading', name: 'Grading', icon: CheckCircle },
+    { id: 'extensions', name: 'Extensions', icon: CalendarPlus }
   ]
 
   return (
@@ -362,9 +370,14 @@ export default function AssignmentDetailPage() {
                               <p className="text-sm text-gray-400">
                                 Submitted: {new Date(submission.submittedAt).toLocaleDateString()} at {new Date(submission.submittedAt).toLocaleTimeString()}
                               </p>
+                              {submission.attemptCount > 1 && (
+                                <p className="text-sm text-gray-400">
+                                  Attempt {submission.attemptNumber} ({submission.attemptCount} submitted)
+                                </p>
+                              )}
                             </div>
                             <div className="text-right">
-                              {submission.grade ? (
+                              {submission.grade && submission.points !== null ? (
                                 <div>
                                   <p className="text-lg font-medium text-green-600">
                                     {submission.grade.points}/{assignment.maxPoints}
@@ -440,7 +453,7 @@ export default function AssignmentDetailPage() {
                       <div className="mt-4">
                         <h4 className="font-medium text-gray-900 mb-3">Quick Actions</h4>
                         <div className="space-y-2">
-                          {submissions.filter(s => !s.grade).map((submission) => (
+                          {submissions.filter(s => !s.grade || s.points === null).map((submission) => (
                             <div key={submission.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
                               <span className="text-sm font-medium">{submission.student.name}</span>
                               <Link
@@ -457,6 +470,23 @@ export default function AssignmentDetailPage() {
                   </div>
                 </div>
               )}
+
+              {activeTab === 'extensions' && (
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Due Date Extensions</h3>
+                  <ExtensionsPanel
+                    assignmentId={assignment.id}
+                    courseId={assignment.courseId}
+                    dueDate={assignment.dueDate}
+                  />
+                  <h3 className="text-lg font-medium text-gray-900 mt-8 mb-4">Section Due Dates</h3>
+                  <SectionDueDatesPanel
+                    assignmentId={assignment.id}
+                    courseId={assignment.courseId}
+                    dueDate={assignment.dueDate}
+                  />
+                </div>
+              )}
             </div>
           </div>
         </main>
@@ -7,11 +7,15 @@ import Navbar from '@/components/Navbar'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import { ArrowLeft } from 'lucide-react'
 import toast from 'react-hot-toast'
+import PublishScheduleFields from '@/components/PublishScheduleFields'
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '@/lib/publishing'
 
 interface Announcement {
   id: string
   title: string
   content: string
+  publishAt: string | null
+  unpublishAt: string | null
   courseId: string
   course: {
     id: string
@@ -28,6 +32,7 @@ export default function EditAnnouncementPage() {
 
   const [title, setTitle] = useState<string>('')
   const [content, setContent] = useState<string>('')
+  const [schedule, setSchedule] = useState({ publishAt: '', unpublishAt: '' })
   const [loading, setLoading] = useState<boolean>(false)
   const [fetchingAnnouncement, setFetchingAnnouncement] = useState<boolean>(true)
   const [error, setError] = useState<string | null>(null)
@@ -44,6 +49,10 @@ export default function EditAnnouncementPage() {
           const data = await response.json()
           setTitle(data.title)
           setContent(data.content)
+          setSchedule({
+            publishAt: toDateTimeLocalValue(data.publishAt),
+            unpublishAt: toDateTimeLocalValue(data.unpublishAt),
+          })
           if (data.course) {
             setCourseTitle(`${data.course.code} - ${data.course.title}`)
           }
@@ -93,6 +102,8 @@ export default function EditAnnouncementPage() {
         body: JSON.stringify({
           title,
           content,
+          publishAt: fromDateTimeLocalValue(schedule.publishAt),
+          unpublishAt: fromDateTimeLocalValue(schedule.unpublishAt),
         }),
       })
       
@@ -186,6 +197,13 @@ export default function EditAnnouncementPage() {
                       Write a clear message for your students. You can use line breaks for formatting.
                     </p>
                   </div>
+
+                  <PublishScheduleFields
+                    publishAt={schedule.publishAt}
+                    unpublishAt={schedule.unpublishAt}
+                    onChange={(field, value) => setSchedule({ ...schedule, [field]: value })}
+                    requiresPublished={false}
+                  />
                   
                   <div className="flex justify-end">
                     <Link 
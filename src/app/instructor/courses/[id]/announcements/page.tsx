@@ -6,12 +6,23 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
-import { ArrowLeft, Plus, Edit, Trash2, Calendar, User } from 'lucide-react'
+import { ArrowLeft, Plus, Edit, Trash2, Calendar, User, Users } from 'lucide-react'
+import PublishScheduleFields from '@/components/PublishScheduleFields'
+import PublishStatusBadge from '@/components/PublishStatusBadge'
+import {
+  getPublishStatus,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue
+} from '@/lib/publishing'
 
 interface Announcement {
   id: string
   title: string
   content: string
+  publishAt: string | null
+  unpublishAt: string | null
+  sectionId: string | null
+  course_sections: Section | null
   createdAt: string
   author: {
     id: string
@@ -20,6 +31,19 @@ interface Announcement {
   }
 }
 
+interface Section {
+  id: string
+  name: string
+}
+
+const emptyFormData = {
+  title: '',
+  content: '',
+  publishAt: '',
+  unpublishAt: '',
+  sectionId: ''
+}
+
 interface Course {
   id: string
   title: string
@@ -30,14 +54,12 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
   const [courseId, setCourseId] = useState<string>('')
   const [course, setCourse] = useState<Course | null>(null)
   const [announcements, setAnnouncements] = useState<Announcement[]>([])
+  const [sections, setSections] = useState<Section[]>([])
   const [loading, setLoading] = useState(true)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [creating, setCreating] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [formData, setFormData] = useState({
-    title: '',
-    content: ''
-  })
+  const [formData, setFormData] = useState(emptyFormData)
   const { data: session } = useSession()
   const router = useRouter()
 
@@ -53,6 +75,7 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
     if (courseId) {
       fetchCourse()
       fetchAnnouncements()
+      fetchSections()
     }
   }, [courseId])
 
@@ -63,7 +86,7 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
         if (showCreateForm || editingId) {
           setShowCreateForm(false)
           setEditingId(null)
-          setFormData({ title: '', content: '' })
+          setFormData(emptyFormData)
         } else {
           router.push(`/instructor/courses/${courseId}`)
         }
@@ -102,6 +125,25 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
     }
   }
 
+  const fetchSections = async () => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/sections`)
+      if (response.ok) {
+        const data = await response.json()
+        setSections(data.sections)
+      }
+    } catch (error) {
+      console.error('Error fetching sections:', error)
+    }
+  }
+
+  const toRequestBody = () => ({
+    ...formData,
+    publishAt: fromDateTimeLocalValue(formData.publishAt),
+    unpublishAt: fromDateTimeLocalValue(formData.unpublishAt),
+    sectionId: formData.sectionId || null
+  })
+
   const handleCreateAnnouncement = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -117,13 +159,13 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(toRequestBody()),
       })
 
       if (response.ok) {
         const newAnnouncement = await response.json()
         setAnnouncements([newAnnouncement, ...announcements])
-        setFormData({ title: '', content: '' })
+        setFormData(emptyFormData)
         setShowCreateForm(false)
       } else {
         const error = await response.json()
@@ -150,7 +192,7 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(toRequestBody()),
       })
 
       if (response.ok) {
@@ -158,7 +200,7 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
         setAnnouncements(announcements.map(a => 
           a.id === announcementId ? updatedAnnouncement : a
         ))
-        setFormData({ title: '', content: '' })
+        setFormData(emptyFormData)
         setEditingId(null)
       } else {
         const error = await response.json()
@@ -198,14 +240,17 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
     setEditingId(announcement.id)
     setFormData({
       title: announcement.title,
-      content: announcement.content
+      content: announcement.content,
+      publishAt: toDateTimeLocalValue(announcement.publishAt),
+      unpublishAt: toDateTimeLocalValue(announcement.unpublishAt),
+      sectionId: announcement.sectionId ?? ''
     })
     setShowCreateForm(false)
   }
 
   const cancelEdit = () => {
     setEditingId(null)
-    setFormData({ title: '', content: '' })
+    setFormData(emptyFormData)
   }
 
   const formatDate = (dateString: string) => {
@@ -289,6 +334,29 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
                       placeholder="Enter announcement content"
                     />
                   </div>
+                  {sections.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Audience
+                      </label>
+                      <select
+                        value={formData.sectionId}
+                        onChange={(e) => setFormData({ ...formData, sectionId: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Whole course</option>
+                        {sections.map((section) => (
+                          <option key={section.id} value={section.id}>{section.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <PublishScheduleFields
+                    publishAt={formData.publishAt}
+                    unpublishAt={formData.unpublishAt}
+                    onChange={(field, value) => setFormData({ ...formData, [field]: value })}
+                    requiresPublished={false}
+                  />
                   <div className="flex space-x-2">
                     <button
                       type="submit"
@@ -358,6 +426,29 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
                             rows={4}
                           />
                         </div>
+                        {sections.length > 0 && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Audience
+                            </label>
+                            <select
+                              value={formData.sectionId}
+                              onChange={(e) => setFormData({ ...formData, sectionId: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">Whole course</option>
+                              {sections.map((section) => (
+                                <option key={section.id} value={section.id}>{section.name}</option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                        <PublishScheduleFields
+                          publishAt={formData.publishAt}
+                          unpublishAt={formData.unpublishAt}
+                          onChange={(field, value) => setFormData({ ...formData, [field]: value })}
+                          requiresPublished={false}
+                        />
                         <div className="flex space-x-2">
                           <button
                             onClick={() => handleEditAnnouncement(announcement.id)}
@@ -405,8 +496,17 @@ export default function InstructorAnnouncementsPage({ params }: { params: Promis
                           </div>
                           <div className="flex items-center">
                             <Calendar className="h-4 w-4 mr-1" />
-                            <span>{formatDate(announcement.createdAt)}</span>
+                            <span>{formatDate(announcement.publishAt ?? announcement.createdAt)}</span>
                           </div>
+                          {announcement.course_sections && (
+                            <div className="flex items-center">
+                              <Users className="h-4 w-4 mr-1" />
+                              <span>{announcement.course_sections.name}</span>
+                            </div>
+                          )}
+                          {getPublishStatus({ ...announcement, isPublished: true }) !== 'published' && (
+                            <PublishStatusBadge record={{ ...announcement, isPublished: true }} />
+                          )}
                         </div>
                       </>
                     )}
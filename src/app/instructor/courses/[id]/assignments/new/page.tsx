@@ -1,10 +1,27 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
 import Navbar from '@/components/Navbar'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import RichTextEditor from '@/components/RichTextEditor'
+import LatePolicyFields, { defaultLatePolicyValues, toLatePolicyPayload } from '@/components/instructor/LatePolicyFields'
+import AttemptSettingsFields, { defaultAttemptSettingsValues } from '@/components/instructor/AttemptSettingsFields'
+import PublishScheduleFields from '@/components/PublishScheduleFields'
+import { fromDateTimeLocalValue } from '@/lib/publishing'
+
+interface GradeCategory {
+  id: string
+  name: string
+  weight: number
+}
+
+interface RubricOption {
+  id: string
+  name: string
+  maxPoints: number
+}
 
 export default function NewAssignmentPage() {
   const params = useParams()
@@ -14,13 +31,57 @@ export default function NewAssignmentPage() {
     description: '',
     dueDate: '',
     maxPoints: 100,
-    isPublished: false
+    isPublished: false,
+    isRequired: true,
+    isGroupAssignment: false,
+    publishAt: '',
+    unpublishAt: '',
+    categoryId: '',
+    rubricId: ''
   })
 
+  const [latePolicy, setLatePolicy] = useState(defaultLatePolicyValues)
+  const [attemptSettings, setAttemptSettings] = useState(defaultAttemptSettingsValues)
+  const [categories, setCategories] = useState<GradeCategory[]>([])
+  const [rubrics, setRubrics] = useState<RubricOption[]>([])
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch(`/api/instructor/courses/${params.id}/grade-categories`)
+        if (response.ok) {
+          const data = await response.json()
+          setCategories(data.categories)
+        }
+      } catch (error) {
+        console.error('Error fetching grade categories:', error)
+      }
+    }
+
+    if (params.id) {
+      fetchCategories()
+    }
+  }, [params.id])
+
+  useEffect(() => {
+    const fetchRubrics = async () => {
+      try {
+        const response = await fetch('/api/instructor/rubrics')
+        if (response.ok) {
+          const data = await response.json()
+          setRubrics(data.rubrics)
+        }
+      } catch (error) {
+        console.error('Error fetching rubrics:', error)
+      }
+    }
+
+    fetchRubrics()
+  }, [])
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target
     setFormData({
       ...formData,
@@ -45,6 +106,12 @@ export default function NewAssignmentPage() {
         body: JSON.stringify({
           ...formData,
           dueDate: formData.dueDate ? new Date(formData.dueDate).toISOString() : null,
+          publishAt: fromDateTimeLocalValue(formData.publishAt),
+          unpublishAt: fromDateTimeLocalValue(formData.unpublishAt),
+          categoryId: formData.categoryId || null,
+          rubricId: formData.rubricId || null,
+          ...toLatePolicyPayload(latePolicy),
+          ...attemptSettings,
           description: formData.description // This now contains HTML content
         }),
       })
@@ -134,6 +201,55 @@ export default function NewAssignmentPage() {
                   </div>
                 </div>
 
+                <LatePolicyFields value={latePolicy} onChange={setLatePolicy} />
+
+                <AttemptSettingsFields value={attemptSettings} onChange={setAttemptSettings} />
+
+                {categories.length > 0 && (
+                  <div>
+                    <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700">
+                      Grade Category
+                    </label>
+                    <select
+                      name="categoryId"
+                      id="categoryId"
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      value={formData.categoryId}
+                      onChange={handleChange}
+                    >
+                      <option value="">Uncategorized</option>
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.name} ({category.weight}%)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="rubricId" className="block text-sm font-medium text-gray-700">
+                    Grading Rubric
+                  </label>
+                  <select
+                    name="rubricId"
+                    id="rubricId"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    value={formData.rubricId}
+                    onChange={handleChange}
+                  >
+                    <option value="">No rubric</option>
+                    {rubrics.map((rubric) => (
+                      <option key={rubric.id} value={rubric.id}>
+                        {rubric.name} ({rubric.maxPoints} pts)
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Manage rubrics on the <Link href="/instructor/rubrics" className="text-blue-600 hover:text-blue-500">Rubrics</Link> page.
+                  </p>
+                </div>
+
                 <div className="flex items-center">
                   <input
                     id="isPublished"
@@ -148,6 +264,40 @@ export default function NewAssignmentPage() {
                   </label>
                 </div>
 
+                <div className="flex items-center">
+                  <input
+                    id="isRequired"
+                    name="isRequired"
+                    type="checkbox"
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    checked={formData.isRequired}
+                    onChange={handleChange}
+                  />
+                  <label htmlFor="isRequired" className="ml-2 block text-sm text-gray-900">
+                    Required for module completion
+                  </label>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    id="isGroupAssignment"
+                    name="isGroupAssignment"
+                    type="checkbox"
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    checked={formData.isGroupAssignment}
+                    onChange={handleChange}
+                  />
+                  <label htmlFor="isGroupAssignment" className="ml-2 block text-sm text-gray-900">
+                    Group assignment (one member submits for their group)
+                  </label>
+                </div>
+
+                <PublishScheduleFields
+                  publishAt={formData.publishAt}
+                  unpublishAt={formData.unpublishAt}
+                  onChange={(field, value) => setFormData({ ...formData, [field]: value })}
+                />
+
                 {error && (
                   <div className="text-red-600 text-sm">{error}</div>
                 )}
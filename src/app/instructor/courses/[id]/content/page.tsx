@@ -38,20 +38,52 @@ import {
   Upload,
   X,
   Save,
-  Cloud
+  Cloud,
+  ListChecks
 } from 'lucide-react'
 import { uploadToS3 } from '@/hooks/useS3Upload'
+import QuizSettingsFields, {
+  defaultQuizSettingsValues,
+  toQuizSettingsPayload,
+  type QuizSettingsFormValues
+} from '@/components/instructor/QuizSettingsFields'
+import type { GradedAttemptPolicy } from '@prisma/client'
+import PublishScheduleFields from '@/components/PublishScheduleFields'
+import PublishStatusBadge from '@/components/PublishStatusBadge'
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '@/lib/publishing'
 
 interface CourseContent {
   id: string
   title: string
-  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
   content: string | null
   fileUrl: string | null
   thumbnailUrl: string | null
   orderIndex: number
   isPublished: boolean
+  isRequired: boolean
+  publishAt: string | null
+  unpublishAt: string | null
   createdAt: string
+  quiz?: {
+    bankId: string
+    questionCount: number | null
+    timeLimitMinutes: number | null
+    shuffleQuestions: boolean
+    shuffleOptions: boolean
+    maxPoints: number
+    dueDate: string | null
+    maxAttempts: number
+    gradedAttemptPolicy: GradedAttemptPolicy
+  } | null
+  scorm?: {
+    id: string
+    version: 'SCORM_12' | 'SCORM_2004'
+    title: string | null
+    launchPath: string
+    packageKey: string
+    maxPoints: number | null
+  } | null
 }
 
 interface Course {
@@ -130,9 +162,10 @@ function SortableItem({
             <span className="text-sm text-gray-500 capitalize">
               {item.type.toLowerCase()}
             </span>
-            <span className={`text-sm ${item.isPublished ? 'text-green-600' : 'text-yellow-600'}`}>
-              {item.isPublished ? 'Published' : 'Draft'}
-            </span>
+            <PublishStatusBadge
+              record={item}
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium"
+            />
             {item.fileUrl && item.fileUrl.startsWith('/uploads/') && (
               <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
                 <Upload className="h-3 w-3 mr-1" />
@@ -231,8 +264,15 @@ export default function CourseContentPage() {
     content: '',
     fileUrl: '',
     thumbnailUrl: '',
-    isPublished: false
+    isPublished: false,
+    isRequired: true,
+    publishAt: '',
+    unpublishAt: ''
   })
+  const [quizSettings, setQuizSettings] = useState<QuizSettingsFormValues>(defaultQuizSettingsValues)
+  // Key of a newly uploaded SCORM zip, unpacked by the server when the content is saved
+  const [scormPackageKey, setScormPackageKey] = useState('')
+  const [scormMaxPoints, setScormMaxPoints] = useState('')
 
   // Auto-open form if navigating from module with ?new=true
   useEffect(() => {
@@ -301,6 +341,7 @@ export default function CourseContentPage() {
         fileUrl: result.cdnUrl,
         title: prev.title || result.filename.replace(/\.[^/.]+$/, "")
       }))
+      setScormPackageKey(formData.type === 'SCORM' ? result.s3Key : '')
     } catch (error) {
       console.error('Upload error:', error)
       alert(error instanceof Error ? error.message : 'Upload failed')
@@ -340,6 +381,7 @@ export default function CourseContentPage() {
 
   const clearUploadedFile = () => {
     setUploadedFile(null)
+    setScormPackageKey('')
     setFormData(prev => ({
       ...prev,
       fileUrl: ''
@@ -413,6 +455,16 @@ export default function CourseContentPage() {
       alert('Please upload a file or provide an external URL.')
       return
     }
+
+    if (formData.type === 'SCORM' && scormMaxPoints && !scormPackageKey && !editingContent?.scorm) {
+      alert('Upload the SCORM package to grade it.')
+      return
+    }
+
+    if (formData.type === 'QUIZ' && !quizSettings.bankId) {
+      alert('Please select a question bank.')
+      return
+    }
     
     setSubmitting(true)
     
@@ -430,6 +482,15 @@ export default function CourseContentPage() {
         },
         body: JSON.stringify({
           ...formData,
+          publishAt: fromDateTimeLocalValue(formData.publishAt),
+          unpublishAt: fromDateTimeLocalValue(formData.unpublishAt),
+          ...(formData.type === 'QUIZ' && { quiz: toQuizSettingsPayload(quizSettings) }),
+          ...(formData.type === 'SCORM' && (scormPackageKey || editingContent?.scorm) && {
+            scorm: {
+              ...(scormPackageKey && { packageKey: scormPackageKey }),
+              maxPoints: scormMaxPoints ? parseInt(scormMaxPoints, 10) : null
+            }
+          }),
           moduleId: selectedModuleId // Include module context when creating content
         })
       })
@@ -456,8 +517,14 @@ export default function CourseContentPage() {
           content: '',
           fileUrl: '',
           thumbnailUrl: '',
-          isPublished: false
+          isPublished: false,
+          isRequired: true,
+          publishAt: '',
+          unpublishAt: ''
         })
+        setQuizSettings(defaultQuizSettingsValues)
+        setScormPackageKey('')
+        setScormMaxPoints('')
         // Don't clear URL params - keep module context for adding more content
       } else {
         const errorData = await response.json()
@@ -480,8 +547,24 @@ export default function CourseContentPage() {
       content: item.content || '',
       fileUrl: item.fileUrl || '',
       thumbnailUrl: item.thumbnailUrl || '',
-      isPublished: item.isPublished
+      isPublished: item.isPublished,
+      isRequired: item.isRequired,
+      publishAt: toDateTimeLocalValue(item.publishAt),
+      unpublishAt: toDateTimeLocalValue(item.unpublishAt)
     })
+    setQuizSettings(item.quiz ? {
+      bankId: item.quiz.bankId,
+      questionCount: item.quiz.questionCount?.toString() ?? '',
+      timeLimitMinutes: item.quiz.timeLimitMinutes?.toString() ?? '',
+      shuffleQuestions: item.quiz.shuffleQuestions,
+      shuffleOptions: item.quiz.shuffleOptions,
+      maxPoints: item.quiz.maxPoints,
+      dueDate: item.quiz.dueDate ? new Date(item.quiz.dueDate).toISOString().slice(0, 16) : '',
+      maxAttempts: item.quiz.maxAttempts,
+      gradedAttemptPolicy: item.quiz.gradedAttemptPolicy
+    } : defaultQuizSettingsValues)
+    setScormPackageKey('')
+    setScormMaxPoints(item.scorm?.maxPoints?.toString() ?? '')
     
     // If there's a file URL that looks like an uploaded file, show it as uploaded
     if (item.fileUrl && item.fileUrl.startsWith('/uploads/')) {
@@ -561,6 +644,7 @@ export default function CourseContentPage() {
       case 'DOCUMENT': return File
       case 'LINK': return LinkIcon
       case 'SCORM': return BookOpen
+      case 'QUIZ': return ListChecks
       default: return FileText
     }
   }
@@ -573,6 +657,7 @@ export default function CourseContentPage() {
       case 'DOCUMENT': return 'text-white bg-green-500'
       case 'LINK': return 'text-white bg-purple-500'
       case 'SCORM': return 'text-white bg-blue-500'
+      case 'QUIZ': return 'text-white bg-indigo-500'
       default: return 'text-white bg-gray-500'
     }
   }
@@ -622,8 +707,14 @@ export default function CourseContentPage() {
                     content: '',
                     fileUrl: '',
                     thumbnailUrl: '',
-                    isPublished: false
+                    isPublished: false,
+                    isRequired: true,
+                    publishAt: '',
+                    unpublishAt: ''
                   })
+                  setQuizSettings(defaultQuizSettingsValues)
+                  setScormPackageKey('')
+                  setScormMaxPoints('')
                   setShowForm(true)
                 }}
                 className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
@@ -664,6 +755,7 @@ export default function CourseContentPage() {
                     <select
                       value={formData.type}
                       onChange={(e) => setFormData({...formData, type: e.target.value as CourseContent['type']})}
+                      disabled={editingContent?.type === 'QUIZ' || Boolean(editingContent?.scorm)}
                       className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
                     >
                       <option value="TEXT">Text Content</option>
@@ -672,9 +764,17 @@ export default function CourseContentPage() {
                       <option value="DOCUMENT">Document</option>
                       <option value="LINK">External Link</option>
                       <option value="SCORM">SCORM Package</option>
+                      {/* Existing content cannot be turned into a quiz */}
+                      {(!editingContent || editingContent.type === 'QUIZ') && (
+                        <option value="QUIZ">Quiz</option>
+                      )}
                     </select>
                   </div>
 
+                  {formData.type === 'QUIZ' && (
+                    <QuizSettingsFields value={quizSettings} onChange={setQuizSettings} />
+                  )}
+
                   {(formData.type === 'TEXT') && (
                     <div>
                       <label className="block text-sm font-medium text-gray-700">Content</label>
@@ -842,6 +942,33 @@ export default function CourseContentPage() {
                           </div>
                         </div>
                       )}
+
+                      {formData.type === 'SCORM' && (
+                        <div className="mt-4 space-y-3">
+                          <p className="text-sm text-gray-600">
+                            {scormPackageKey
+                              ? 'The uploaded package will be unpacked and played in the course with progress tracking.'
+                              : editingContent?.scorm
+                              ? `${editingContent.scorm.version === 'SCORM_2004' ? 'SCORM 2004' : 'SCORM 1.2'} package, launching ${editingContent.scorm.launchPath}. Upload a new zip to replace it.`
+                              : 'Upload a SCORM 1.2 or 2004 zip to play it in the course and track progress. External URLs are only linked.'}
+                          </p>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700">Points (Optional)</label>
+                            <input
+                              type="number"
+                              min={1}
+                              max={10000}
+                              value={scormMaxPoints}
+                              onChange={(e) => setScormMaxPoints(e.target.value)}
+                              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                              placeholder="Leave blank for an ungraded package"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                              The score reported by the package is recorded in the gradebook.
+                            </p>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -924,6 +1051,25 @@ export default function CourseContentPage() {
                     </label>
                   </div>
 
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="isRequired"
+                      checked={formData.isRequired}
+                      onChange={(e) => setFormData({...formData, isRequired: e.target.checked})}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <label htmlFor="isRequired" className="ml-2 block text-sm text-gray-700">
+                      Required for module completion
+                    </label>
+                  </div>
+
+                  <PublishScheduleFields
+                    publishAt={formData.publishAt}
+                    unpublishAt={formData.unpublishAt}
+                    onChange={(field, value) => setFormData({...formData, [field]: value})}
+                  />
+
                   <div className="flex justify-end space-x-3">
                     <button
                       type="button"
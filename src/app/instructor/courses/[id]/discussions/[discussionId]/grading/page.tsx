@@ -0,0 +1,298 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
+import type { DiscussionGrading } from '@/components/discussions/DiscussionGradingFields'
+import MentionText from '@/components/discussions/MentionText'
+import { ArrowLeft, CheckCircle, AlertCircle } from 'lucide-react'
+
+interface StudentPost {
+  id: string
+  content: string
+  parentId: string | null
+  createdAt: string
+}
+
+interface StudentParticipation {
+  id: string
+  name: string
+  surname: string
+  email: string
+  posts: StudentPost[]
+  participation: {
+    posts: number
+    replies: number
+    latePosts: number
+    met: boolean
+  }
+  grade: {
+    points: number
+    feedback: string | null
+  } | null
+}
+
+interface GradingData {
+  discussion: {
+    id: string
+    title: string
+  }
+  grading: DiscussionGrading
+  students: StudentParticipation[]
+}
+
+export default function DiscussionGradingPage({
+  params
+}: {
+  params: Promise<{ id: string; discussionId: string }>
+}) {
+  const [courseId, setCourseId] = useState<string>('')
+  const [discussionId, setDiscussionId] = useState<string>('')
+  const [data, setData] = useState<GradingData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [drafts, setDrafts] = useState<Record<string, { points: string; feedback: string }>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchParams = async () => {
+      const resolvedParams = await params
+      setCourseId(resolvedParams.id)
+      setDiscussionId(resolvedParams.discussionId)
+    }
+    fetchParams()
+  }, [params])
+
+  useEffect(() => {
+    if (courseId && discussionId) {
+      fetchGrading()
+    }
+  }, [courseId, discussionId])
+
+  const fetchGrading = async () => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}/grading`)
+      if (response.ok) {
+        const gradingData: GradingData = await response.json()
+        setData(gradingData)
+        setDrafts(
+          Object.fromEntries(
+            gradingData.students.map((student) => [
+              student.id,
+              {
+                points: student.grade ? String(student.grade.points) : '',
+                feedback: student.grade?.feedback ?? ''
+              }
+            ])
+          )
+        )
+      } else {
+        console.error('Failed to fetch discussion grading')
+      }
+    } catch (error) {
+      console.error('Error fetching discussion grading:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateDraft = (studentId: string, field: 'points' | 'feedback', value: string) => {
+    setDrafts({ ...drafts, [studentId]: { ...drafts[studentId], [field]: value } })
+  }
+
+  const handleSaveGrade = async (studentId: string) => {
+    if (!data) return
+
+    const draft = drafts[studentId]
+    if (draft.points === '') {
+      alert('Please enter points.')
+      return
+    }
+
+    setSavingId(studentId)
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}/grading`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          studentId,
+          points: Number(draft.points),
+          feedback: draft.feedback || null
+        }),
+      })
+
+      if (response.ok) {
+        const { grade } = await response.json()
+        setData({
+          ...data,
+          students: data.students.map((student) => (student.id === studentId ? { ...student, grade } : student))
+        })
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to save grade')
+      }
+    } catch (error) {
+      console.error('Error saving grade:', error)
+      alert('An error occurred while saving the grade')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  if (!courseId || !discussionId) {
+    return <div>Loading...</div>
+  }
+
+  return (
+    <ProtectedRoute allowedRoles={['INSTRUCTOR']}>
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4">
+          <Breadcrumb
+            items={generateBreadcrumbs.instructorDiscussion(
+              courseId,
+              'Course',
+              discussionId,
+              data?.discussion.title
+            )}
+          />
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="mb-6">
+              <Link
+                href={`/instructor/courses/${courseId}/discussions/${discussionId}`}
+                className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Back to Discussion
+              </Link>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Loading participation...</p>
+              </div>
+            ) : !data ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">This discussion is not graded.</p>
+              </div>
+            ) : (
+              <>
+                <div className="mb-6">
+                  <h1 className="text-2xl font-bold text-gray-900">Grade: {data.discussion.title}</h1>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {data.grading.maxPoints} points · {data.grading.requiredPosts} original post
+                    {data.grading.requiredPosts === 1 ? '' : 's'} and {data.grading.requiredReplies} repl
+                    {data.grading.requiredReplies === 1 ? 'y' : 'ies'} required
+                    {data.grading.dueDate && ` · Due ${formatDate(data.grading.dueDate)}`}
+                  </p>
+                </div>
+
+                {data.students.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">No students are enrolled in this course.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {data.students.map((student) => (
+                      <div key={student.id} className="border border-gray-200 rounded-lg p-4">
+                        <div className="flex justify-between items-start mb-3">
+                          <div>
+                            <h3 className="font-medium text-gray-900">
+                              {student.name} {student.surname}
+                            </h3>
+                            <p className="text-sm text-gray-500">{student.email}</p>
+                          </div>
+                          <div className="text-right">
+                            {student.participation.met ? (
+                              <span className="inline-flex items-center bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
+                                <CheckCircle className="h-3 w-3 mr-1" />
+                                Requirements met
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded-full">
+                                <AlertCircle className="h-3 w-3 mr-1" />
+                                Requirements not met
+                              </span>
+                            )}
+                            <p className="text-xs text-gray-500 mt-1">
+                              {student.participation.posts}/{data.grading.requiredPosts} posts ·{' '}
+                              {student.participation.replies}/{data.grading.requiredReplies} replies
+                              {student.participation.latePosts > 0 && ` · ${student.participation.latePosts} late`}
+                            </p>
+                          </div>
+                        </div>
+
+                        {student.posts.length === 0 ? (
+                          <p className="text-sm text-gray-500 mb-3">No posts.</p>
+                        ) : (
+                          <div className="space-y-2 mb-3">
+                            {student.posts.map((post) => (
+                              <div key={post.id} className="bg-gray-50 rounded-md p-3">
+                                <div className="flex items-center space-x-2 text-xs text-gray-500 mb-1">
+                                  <span>{post.parentId ? 'Reply' : 'Original post'}</span>
+                                  <span>{formatDate(post.createdAt)}</span>
+                                  {data.grading.dueDate && new Date(post.createdAt) > new Date(data.grading.dueDate) && (
+                                    <span className="text-red-600">Late</span>
+                                  )}
+                                </div>
+                                <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                                  <MentionText content={post.content} />
+                                </p>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <div className="flex items-center space-x-1">
+                            <input
+                              type="number"
+                              min={0}
+                              max={data.grading.maxPoints}
+                              step="0.5"
+                              value={drafts[student.id]?.points ?? ''}
+                              onChange={(e) => updateDraft(student.id, 'points', e.target.value)}
+                              aria-label={`Points for ${student.name} ${student.surname}`}
+                              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <span className="text-sm text-gray-500">/ {data.grading.maxPoints}</span>
+                          </div>
+                          <input
+                            type="text"
+                            value={drafts[student.id]?.feedback ?? ''}
+                            onChange={(e) => updateDraft(student.id, 'feedback', e.target.value)}
+                            placeholder="Feedback (optional)"
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <button
+                            onClick={() => handleSaveGrade(student.id)}
+                            disabled={savingId === student.id}
+                            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            {savingId === student.id ? 'Saving...' : student.grade ? 'Update' : 'Save'}
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -6,11 +6,22 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
-import { ArrowLeft } from 'lucide-react'
+import PostReactions from '@/components/discussions/PostReactions'
+import ThreadSortSelect from '@/components/discussions/ThreadSortSelect'
+import MentionText from '@/components/discussions/MentionText'
+import SubscribeButton from '@/components/discussions/SubscribeButton'
+import DiscussionGradingFields, {
+  toDiscussionGradingPayload,
+  toDiscussionGradingValues,
+  type DiscussionGrading
+} from '@/components/discussions/DiscussionGradingFields'
+import { isThreadAnswered, sortThreads, type ReactionSummary, type ThreadSort } from '@/lib/discussions'
+import { ArrowLeft, CheckCircle, Award, Flag, EyeOff } from 'lucide-react'
 
 interface DiscussionPost {
   id: string
   content: string
+  parentId: string | null
   createdAt: string
   updatedAt: string
   author: {
@@ -18,21 +29,45 @@ interface DiscussionPost {
     name: string | null
     email: string
   }
+  isEndorsed: boolean
+  isAcceptedAnswer: boolean
+  isHidden: boolean
+  isFlagged: boolean
+  isRemoved: boolean
+  removalReason: string | null
+  editCount: number
+  reactions: ReactionSummary
   replies: DiscussionPost[]
 }
 
+interface PostEdit {
+  id: string
+  content: string
+  editedAt: string
+  editor: {
+    id: string
+    name: string | null
+    email: string
+  }
+}
+
 interface Discussion {
   id: string
   title: string
   description: string | null
   isPinned: boolean
   isLocked: boolean
+  isQuestionAnswer: boolean
+  isAnonymous: boolean
+  isPostFirst: boolean
+  isSubscribed: boolean
   createdAt: string
   author: {
     id: string
     name: string | null
     email: string
   }
+  grading: DiscussionGrading | null
   posts: DiscussionPost[]
 }
 
@@ -45,6 +80,12 @@ export default function InstructorDiscussionDetailPage({
   const [discussionId, setDiscussionId] = useState<string>('')
   const [discussion, setDiscussion] = useState<Discussion | null>(null)
   const [loading, setLoading] = useState(true)
+  const [sort, setSort] = useState<ThreadSort>('newest')
+  const [editingGrading, setEditingGrading] = useState(false)
+  const [gradingValues, setGradingValues] = useState(toDiscussionGradingValues(null))
+  const [savingGrading, setSavingGrading] = useState(false)
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null)
+  const [history, setHistory] = useState<PostEdit[]>([])
   const { data: session } = useSession()
   const router = useRouter()
 
@@ -139,6 +180,167 @@ export default function InstructorDiscussionDetailPage({
     }
   }
 
+  const handleToggleQuestionAnswer = async () => {
+    if (!discussion) return
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isQuestionAnswer: !discussion.isQuestionAnswer }),
+      })
+
+      if (response.ok) {
+        const updatedDiscussion = await response.json()
+        setDiscussion({ ...discussion, isQuestionAnswer: updatedDiscussion.isQuestionAnswer })
+      } else {
+        alert('Failed to update discussion')
+      }
+    } catch (error) {
+      console.error('Error updating discussion:', error)
+      alert('An error occurred while updating the discussion')
+    }
+  }
+
+  // Anonymity and post-first only change what students see
+  const handleTogglePeerVisibility = async (setting: 'isAnonymous' | 'isPostFirst') => {
+    if (!discussion) return
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ [setting]: !discussion[setting] }),
+      })
+
+      if (response.ok) {
+        const updatedDiscussion = await response.json()
+        setDiscussion({ ...discussion, [setting]: updatedDiscussion[setting] })
+      } else {
+        alert('Failed to update discussion')
+      }
+    } catch (error) {
+      console.error('Error updating discussion:', error)
+      alert('An error occurred while updating the discussion')
+    }
+  }
+
+  const handleEditGrading = () => {
+    if (!discussion) return
+    setGradingValues(toDiscussionGradingValues(discussion.grading))
+    setEditingGrading(true)
+  }
+
+  const handleSaveGrading = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!discussion) return
+
+    if (discussion.grading && !gradingValues.graded &&
+        !confirm('Stop grading this discussion? Its gradebook column and any grades in it will be removed.')) {
+      return
+    }
+
+    setSavingGrading(true)
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ grading: toDiscussionGradingPayload(gradingValues) }),
+      })
+
+      if (response.ok) {
+        const updatedDiscussion = await response.json()
+        setDiscussion({ ...discussion, grading: updatedDiscussion.grading })
+        setEditingGrading(false)
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to update grading')
+      }
+    } catch (error) {
+      console.error('Error updating grading:', error)
+      alert('An error occurred while updating grading')
+    } finally {
+      setSavingGrading(false)
+    }
+  }
+
+  const handleUpdatePost = async (
+    postId: string,
+    update: { isEndorsed?: boolean; isAcceptedAnswer?: boolean; isHidden?: boolean; isFlagged?: boolean }
+  ) => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}/posts/${postId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      })
+
+      if (response.ok) {
+        await fetchDiscussion() // Refresh the discussion
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to update post')
+      }
+    } catch (error) {
+      console.error('Error updating post:', error)
+      alert('An error occurred while updating the post')
+    }
+  }
+
+  const handleRemovePost = async (postId: string) => {
+    const reason = prompt('Why are you removing this post? The author will see this reason.')
+    if (!reason || !reason.trim()) return
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}/posts/${postId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: reason.trim() }),
+      })
+
+      if (response.ok) {
+        await fetchDiscussion() // Refresh the discussion
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to remove post')
+      }
+    } catch (error) {
+      console.error('Error removing post:', error)
+      alert('An error occurred while removing the post')
+    }
+  }
+
+  const handleToggleHistory = async (postId: string) => {
+    if (historyPostId === postId) {
+      setHistoryPostId(null)
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/${discussionId}/posts/${postId}/history`)
+      if (response.ok) {
+        const data = await response.json()
+        setHistory(data.edits)
+        setHistoryPostId(postId)
+      } else {
+        alert('Failed to load edit history')
+      }
+    } catch (error) {
+      console.error('Error fetching edit history:', error)
+      alert('An error occurred while loading the edit history')
+    }
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -149,8 +351,9 @@ export default function InstructorDiscussionDetailPage({
     })
   }
 
+  // Replies render inside their parent, so each level indents once more (up to a limit)
   const renderPost = (post: DiscussionPost, level: number = 0) => {
-    const marginLeft = level * 40
+    const marginLeft = level > 0 && level <= 5 ? 24 : 0
 
     return (
       <div key={post.id} style={{ marginLeft: `${marginLeft}px` }} className="border-l-2 border-gray-200 pl-4 py-4">
@@ -163,14 +366,108 @@ export default function InstructorDiscussionDetailPage({
               <span className="text-sm text-gray-500">
                 {formatDate(post.createdAt)}
               </span>
-              {post.createdAt !== post.updatedAt && (
+              {post.editCount > 0 ? (
+                <button
+                  onClick={() => handleToggleHistory(post.id)}
+                  className="text-xs text-gray-400 hover:text-gray-600 underline"
+                >
+                  (edited {post.editCount} time{post.editCount === 1 ? '' : 's'})
+                </button>
+              ) : post.createdAt !== post.updatedAt && (
                 <span className="text-xs text-gray-400">(edited)</span>
               )}
+              {post.isRemoved && (
+                <span className="bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded-full">Removed</span>
+              )}
+              {post.isHidden && !post.isRemoved && (
+                <span className="inline-flex items-center bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">
+                  <EyeOff className="h-3 w-3 mr-1" />
+                  Hidden
+                </span>
+              )}
+              {post.isFlagged && (
+                <span className="inline-flex items-center bg-orange-100 text-orange-800 text-xs px-2 py-0.5 rounded-full">
+                  <Flag className="h-3 w-3 mr-1" />
+                  Flagged
+                </span>
+              )}
+              {post.isEndorsed && (
+                <span className="inline-flex items-center bg-purple-100 text-purple-800 text-xs px-2 py-0.5 rounded-full">
+                  <Award className="h-3 w-3 mr-1" />
+                  Endorsed
+                </span>
+              )}
+              {post.isAcceptedAnswer && (
+                <span className="inline-flex items-center bg-green-100 text-green-800 text-xs px-2 py-0.5 rounded-full">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Accepted answer
+                </span>
+              )}
+              {level === 0 && discussion?.isQuestionAnswer && !isThreadAnswered(post, true) && (
+                <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-0.5 rounded-full">Unanswered</span>
+              )}
             </div>
+            {!post.isRemoved && (
+              <div className="flex flex-wrap justify-end gap-x-3">
+                <button
+                  onClick={() => handleUpdatePost(post.id, { isEndorsed: !post.isEndorsed })}
+                  className="text-purple-600 hover:text-purple-800 text-sm"
+                >
+                  {post.isEndorsed ? 'Remove endorsement' : 'Endorse'}
+                </button>
+                {discussion?.isQuestionAnswer && level > 0 && (
+                  <button
+                    onClick={() => handleUpdatePost(post.id, { isAcceptedAnswer: !post.isAcceptedAnswer })}
+                    className="text-green-600 hover:text-green-800 text-sm"
+                  >
+                    {post.isAcceptedAnswer ? 'Unaccept answer' : 'Accept answer'}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleUpdatePost(post.id, { isHidden: !post.isHidden })}
+                  className="text-gray-600 hover:text-gray-800 text-sm"
+                >
+                  {post.isHidden ? 'Unhide' : 'Hide'}
+                </button>
+                <button
+                  onClick={() => handleUpdatePost(post.id, { isFlagged: !post.isFlagged })}
+                  className="text-orange-600 hover:text-orange-800 text-sm"
+                >
+                  {post.isFlagged ? 'Dismiss flag' : 'Flag for review'}
+                </button>
+                <button
+                  onClick={() => handleRemovePost(post.id)}
+                  className="text-red-600 hover:text-red-800 text-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            )}
           </div>
-          <div className="text-gray-700 whitespace-pre-wrap">
-            {post.content}
+          <div className={`whitespace-pre-wrap mb-3 ${post.isRemoved || post.isHidden ? 'text-gray-400' : 'text-gray-700'}`}>
+            <MentionText content={post.content} viewerId={session?.user?.id} />
           </div>
+          {post.isRemoved && post.removalReason && (
+            <p className="text-sm text-red-700 mb-3">Removal reason: {post.removalReason}</p>
+          )}
+          {historyPostId === post.id && (
+            <div className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-md">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Earlier versions</h4>
+              <div className="space-y-2">
+                {history.map((edit) => (
+                  <div key={edit.id} className="text-sm">
+                    <p className="text-xs text-gray-500">
+                      Replaced {formatDate(edit.editedAt)} by {edit.editor.name || edit.editor.email}
+                    </p>
+                    <p className="text-gray-600 whitespace-pre-wrap">
+                      <MentionText content={edit.content} />
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <PostReactions reactions={post.reactions} />
         </div>
         
         {post.replies && post.replies.length > 0 && (
@@ -256,6 +553,15 @@ export default function InstructorDiscussionDetailPage({
                   {discussion.isLocked && (
                     <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">Locked</span>
                   )}
+                  {discussion.isQuestionAnswer && (
+                    <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">Q&amp;A</span>
+                  )}
+                  {discussion.isAnonymous && (
+                    <span className="bg-purple-100 text-purple-800 text-xs px-2 py-1 rounded-full">Anonymous to peers</span>
+                  )}
+                  {discussion.isPostFirst && (
+                    <span className="bg-gray-100 text-gray-800 text-xs px-2 py-1 rounded-full">Post first</span>
+                  )}
                 </div>
                 {discussion.description && (
                   <p className="text-gray-600 mb-4">{discussion.description}</p>
@@ -287,18 +593,113 @@ export default function InstructorDiscussionDetailPage({
                 >
                   {discussion.isLocked ? 'Unlock' : 'Lock'}
                 </button>
+                <button
+                  onClick={handleToggleQuestionAnswer}
+                  className={`px-3 py-1 text-sm rounded ${
+                    discussion.isQuestionAnswer
+                      ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {discussion.isQuestionAnswer ? 'Turn off Q&A' : 'Make Q&A'}
+                </button>
+                <button
+                  onClick={() => handleTogglePeerVisibility('isAnonymous')}
+                  title="Students don't see who wrote each post; you always do"
+                  className={`px-3 py-1 text-sm rounded ${
+                    discussion.isAnonymous
+                      ? 'bg-purple-100 text-purple-800 hover:bg-purple-200'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {discussion.isAnonymous ? 'Show names' : 'Make anonymous'}
+                </button>
+                <button
+                  onClick={() => handleTogglePeerVisibility('isPostFirst')}
+                  title="Students must start a thread before they see classmates' posts"
+                  className={`px-3 py-1 text-sm rounded ${
+                    discussion.isPostFirst
+                      ? 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {discussion.isPostFirst ? 'Turn off post first' : 'Require post first'}
+                </button>
+                <SubscribeButton
+                  url={`/api/instructor/courses/${courseId}/discussions/${discussionId}/subscription`}
+                  subscribed={discussion.isSubscribed}
+                  onChange={(isSubscribed) => setDiscussion({ ...discussion, isSubscribed })}
+                />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 py-6">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-medium text-gray-900">Grading</h2>
+                <div className="flex space-x-2">
+                  {discussion.grading && !editingGrading && (
+                    <Link
+                      href={`/instructor/courses/${courseId}/discussions/${discussionId}/grading`}
+                      className="bg-green-100 text-green-700 hover:bg-green-200 px-3 py-1 text-sm rounded"
+                    >
+                      Grade participation
+                    </Link>
+                  )}
+                  {!editingGrading && (
+                    <button
+                      onClick={handleEditGrading}
+                      className="bg-gray-100 text-gray-600 hover:bg-gray-200 px-3 py-1 text-sm rounded"
+                    >
+                      {discussion.grading ? 'Edit grading' : 'Make graded'}
+                    </button>
+                  )}
+                </div>
               </div>
+              {editingGrading ? (
+                <form onSubmit={handleSaveGrading} className="space-y-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+                  <DiscussionGradingFields values={gradingValues} onChange={setGradingValues} disabled={savingGrading} />
+                  <div className="flex space-x-2">
+                    <button
+                      type="submit"
+                      disabled={savingGrading}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {savingGrading ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingGrading(false)}
+                      className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : discussion.grading ? (
+                <p className="text-sm text-gray-600">
+                  {discussion.grading.maxPoints} points
+                  {' · '}
+                  {discussion.grading.requiredPosts} original post{discussion.grading.requiredPosts === 1 ? '' : 's'} and{' '}
+                  {discussion.grading.requiredReplies} repl{discussion.grading.requiredReplies === 1 ? 'y' : 'ies'} required
+                  {discussion.grading.dueDate && ` · Due ${formatDate(discussion.grading.dueDate)}`}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">This discussion is not graded.</p>
+              )}
             </div>
 
             <div className="border-t border-gray-200 pt-6">
-              <h2 className="text-lg font-medium text-gray-900 mb-4">Posts</h2>
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-medium text-gray-900">Posts</h2>
+                {discussion.posts.length > 1 && <ThreadSortSelect value={sort} onChange={setSort} />}
+              </div>
               {discussion.posts.length === 0 ? (
                 <div className="text-center py-8">
                   <p className="text-gray-500">No posts yet. Students can start the conversation.</p>
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {discussion.posts.map(post => renderPost(post))}
+                  {sortThreads(discussion.posts, sort, discussion.isQuestionAnswer).map(post => renderPost(post))}
                 </div>
               )}
             </div>
@@ -0,0 +1,283 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
+import MentionText from '@/components/discussions/MentionText'
+import { ArrowLeft, Flag } from 'lucide-react'
+
+interface FlaggedPost {
+  id: string
+  content: string
+  parentId: string | null
+  createdAt: string
+  isHidden: boolean
+  author: {
+    id: string
+    name: string | null
+    email: string
+  }
+  discussion: {
+    id: string
+    title: string
+  }
+  reports: {
+    id: string
+    reason: string
+    createdAt: string
+    reporter: {
+      id: string
+      name: string | null
+      email: string
+    }
+  }[]
+}
+
+interface Course {
+  id: string
+  title: string
+  code: string
+}
+
+export default function DiscussionModerationPage({ params }: { params: Promise<{ id: string }> }) {
+  const [courseId, setCourseId] = useState<string>('')
+  const [course, setCourse] = useState<Course | null>(null)
+  const [posts, setPosts] = useState<FlaggedPost[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchParams = async () => {
+      const resolvedParams = await params
+      setCourseId(resolvedParams.id)
+    }
+    fetchParams()
+  }, [params])
+
+  useEffect(() => {
+    if (courseId) {
+      fetchCourse()
+      fetchQueue()
+    }
+  }, [courseId])
+
+  const fetchCourse = async () => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}`)
+      if (response.ok) {
+        const courseData = await response.json()
+        setCourse(courseData)
+      }
+    } catch (error) {
+      console.error('Error fetching course:', error)
+    }
+  }
+
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/discussions/moderation`)
+      if (response.ok) {
+        const data = await response.json()
+        setPosts(data)
+      } else {
+        console.error('Failed to fetch moderation queue')
+      }
+    } catch (error) {
+      console.error('Error fetching moderation queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const postUrl = (post: FlaggedPost) =>
+    `/api/instructor/courses/${courseId}/discussions/${post.discussion.id}/posts/${post.id}`
+
+  const handleDismiss = async (post: FlaggedPost) => {
+    try {
+      const response = await fetch(postUrl(post), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isFlagged: false }),
+      })
+
+      if (response.ok) {
+        setPosts(posts.filter((p) => p.id !== post.id))
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to dismiss flag')
+      }
+    } catch (error) {
+      console.error('Error dismissing flag:', error)
+      alert('An error occurred while dismissing the flag')
+    }
+  }
+
+  // Hiding keeps the post in the queue until its flag is dismissed
+  const handleToggleHidden = async (post: FlaggedPost) => {
+    try {
+      const response = await fetch(postUrl(post), {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isHidden: !post.isHidden }),
+      })
+
+      if (response.ok) {
+        setPosts(posts.map((p) => (p.id === post.id ? { ...p, isHidden: !post.isHidden } : p)))
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to update post')
+      }
+    } catch (error) {
+      console.error('Error updating post:', error)
+      alert('An error occurred while updating the post')
+    }
+  }
+
+  const handleRemove = async (post: FlaggedPost) => {
+    const reason = prompt('Why are you removing this post? The author will see this reason.')
+    if (!reason || !reason.trim()) return
+
+    try {
+      const response = await fetch(postUrl(post), {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: reason.trim() }),
+      })
+
+      if (response.ok) {
+        setPosts(posts.filter((p) => p.id !== post.id))
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to remove post')
+      }
+    } catch (error) {
+      console.error('Error removing post:', error)
+      alert('An error occurred while removing the post')
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  if (!courseId) {
+    return <div>Loading...</div>
+  }
+
+  return (
+    <ProtectedRoute allowedRoles={['INSTRUCTOR']}>
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-4xl mx-auto px-4">
+          <Breadcrumb
+            items={generateBreadcrumbs.custom([
+              { label: 'Dashboard', href: '/dashboard' },
+              { label: course?.title || 'Course', href: `/instructor/courses/${courseId}`, isLoading: !course },
+              { label: 'Discussions', href: `/instructor/courses/${courseId}/discussions` },
+              { label: 'Moderation' }
+            ])}
+          />
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-center space-x-4 mb-6">
+              <Link
+                href={`/instructor/courses/${courseId}/discussions`}
+                className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Back to Discussions
+              </Link>
+              <div className="border-l border-gray-300 pl-4">
+                <h1 className="text-2xl font-bold text-gray-900">Moderation Queue</h1>
+                <p className="text-gray-600 mt-1">Posts flagged for review, oldest first</p>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Loading flagged posts...</p>
+              </div>
+            ) : posts.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Nothing to review. Flagged and reported posts will appear here.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {posts.map((post) => (
+                  <div key={post.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium text-gray-900">{post.author.name || post.author.email}</span>
+                          <span className="text-sm text-gray-500">{formatDate(post.createdAt)}</span>
+                          {post.isHidden && (
+                            <span className="bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">Hidden</span>
+                          )}
+                        </div>
+                        <Link
+                          href={`/instructor/courses/${courseId}/discussions/${post.discussion.id}`}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          {post.parentId ? 'Reply' : 'Post'} in {post.discussion.title}
+                        </Link>
+                      </div>
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleDismiss(post)}
+                          className="bg-gray-100 text-gray-600 hover:bg-gray-200 px-3 py-1 text-sm rounded"
+                        >
+                          Dismiss
+                        </button>
+                        <button
+                          onClick={() => handleToggleHidden(post)}
+                          className="bg-gray-100 text-gray-600 hover:bg-gray-200 px-3 py-1 text-sm rounded"
+                        >
+                          {post.isHidden ? 'Unhide' : 'Hide'}
+                        </button>
+                        <button
+                          onClick={() => handleRemove(post)}
+                          className="bg-red-100 text-red-600 hover:bg-red-200 px-3 py-1 text-sm rounded"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                    <div className="text-gray-700 whitespace-pre-wrap mb-3">
+                      <MentionText content={post.content} />
+                    </div>
+                    {post.reports.length > 0 ? (
+                      <div className="bg-orange-50 border border-orange-200 rounded-md p-3 space-y-2">
+                        {post.reports.map((report) => (
+                          <div key={report.id} className="text-sm">
+                            <p className="flex items-center text-orange-800">
+                              <Flag className="h-3 w-3 mr-1" />
+                              Reported by {report.reporter.name || report.reporter.email} on {formatDate(report.createdAt)}
+                            </p>
+                            <p className="text-gray-700">{report.reason}</p>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">Flagged by an instructor</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
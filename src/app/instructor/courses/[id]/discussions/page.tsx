@@ -6,7 +6,12 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import Breadcrumb, { generateBreadcrumbs } from '@/components/Breadcrumb'
-import { ArrowLeft } from 'lucide-react'
+import DiscussionGradingFields, {
+  toDiscussionGradingPayload,
+  toDiscussionGradingValues,
+  type DiscussionGrading
+} from '@/components/discussions/DiscussionGradingFields'
+import { ArrowLeft, Flag } from 'lucide-react'
 
 interface Discussion {
   id: string
@@ -14,7 +19,11 @@ interface Discussion {
   description: string | null
   isPinned: boolean
   isLocked: boolean
+  isQuestionAnswer: boolean
+  isAnonymous: boolean
+  isPostFirst: boolean
   createdAt: string
+  grading: DiscussionGrading | null
   author: {
     id: string
     name: string | null
@@ -41,8 +50,12 @@ export default function InstructorDiscussionsPage({ params }: { params: Promise<
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    isPinned: false
+    isPinned: false,
+    isQuestionAnswer: false,
+    isAnonymous: false,
+    isPostFirst: false
   })
+  const [gradingValues, setGradingValues] = useState(toDiscussionGradingValues(null))
   const { data: session } = useSession()
   const router = useRouter()
 
@@ -104,13 +117,21 @@ export default function InstructorDiscussionsPage({ params }: { params: Promise<
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, grading: toDiscussionGradingPayload(gradingValues) }),
       })
 
       if (response.ok) {
         const newDiscussion = await response.json()
         setDiscussions([newDiscussion, ...discussions])
-        setFormData({ title: '', description: '', isPinned: false })
+        setFormData({
+          title: '',
+          description: '',
+          isPinned: false,
+          isQuestionAnswer: false,
+          isAnonymous: false,
+          isPostFirst: false
+        })
+        setGradingValues(toDiscussionGradingValues(null))
         setShowCreateForm(false)
       } else {
         const error = await response.json()
@@ -236,12 +257,21 @@ export default function InstructorDiscussionsPage({ params }: { params: Promise<
                   )}
                 </div>
               </div>
-              <button
-                onClick={() => setShowCreateForm(!showCreateForm)}
-                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Create Discussion
-              </button>
+              <div className="flex space-x-2">
+                <Link
+                  href={`/instructor/courses/${courseId}/discussions/moderation`}
+                  className="flex items-center bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  Moderation Queue
+                </Link>
+                <button
+                  onClick={() => setShowCreateForm(!showCreateForm)}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Create Discussion
+                </button>
+              </div>
             </div>
 
             {showCreateForm && (
@@ -284,6 +314,43 @@ export default function InstructorDiscussionsPage({ params }: { params: Promise<
                       Pin this discussion to the top
                     </label>
                   </div>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="isQuestionAnswer"
+                      checked={formData.isQuestionAnswer}
+                      onChange={(e) => setFormData({ ...formData, isQuestionAnswer: e.target.checked })}
+                      className="mr-2"
+                    />
+                    <label htmlFor="isQuestionAnswer" className="text-sm text-gray-700">
+                      Q&amp;A: each thread is a question with one accepted answer
+                    </label>
+                  </div>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="isAnonymous"
+                      checked={formData.isAnonymous}
+                      onChange={(e) => setFormData({ ...formData, isAnonymous: e.target.checked })}
+                      className="mr-2"
+                    />
+                    <label htmlFor="isAnonymous" className="text-sm text-gray-700">
+                      Anonymous to peers: students don&apos;t see who wrote each post (you always do)
+                    </label>
+                  </div>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="isPostFirst"
+                      checked={formData.isPostFirst}
+                      onChange={(e) => setFormData({ ...formData, isPostFirst: e.target.checked })}
+                      className="mr-2"
+                    />
+                    <label htmlFor="isPostFirst" className="text-sm text-gray-700">
+                      Post first: students must start a thread before they see classmates&apos; posts
+                    </label>
+                  </div>
+                  <DiscussionGradingFields values={gradingValues} onChange={setGradingValues} disabled={creating} />
                   <div className="flex space-x-2">
                     <button
                       type="submit"
@@ -326,6 +393,20 @@ export default function InstructorDiscussionsPage({ params }: { params: Promise<
                           {discussion.isLocked && (
                             <span className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">Locked</span>
                           )}
+                          {discussion.isQuestionAnswer && (
+                            <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">Q&amp;A</span>
+                          )}
+                          {discussion.isAnonymous && (
+                            <span className="bg-purple-100 text-purple-800 text-xs px-2 py-1 rounded-full">Anonymous</span>
+                          )}
+                          {discussion.isPostFirst && (
+                            <span className="bg-gray-100 text-gray-800 text-xs px-2 py-1 rounded-full">Post first</span>
+                          )}
+                          {discussion.grading && (
+                            <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
+                              Graded · {discussion.grading.maxPoints} pts
+                            </span>
+                          )}
                         </div>
                         {discussion.description && (
                           <p className="text-gray-600 mb-2">{discussion.description}</p>
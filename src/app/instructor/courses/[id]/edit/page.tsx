@@ -16,6 +16,8 @@ interface CourseForm {
   isActive: boolean
   prerequisites: string
   targetAudience: string
+  certificatesEnabled: boolean
+  certificateMinScore: string
 }
 
 export default function EditCoursePage() {
@@ -42,6 +44,8 @@ export default function EditCoursePage() {
             isActive: data.isActive,
             prerequisites: data.prerequisites || '',
             targetAudience: data.targetAudience || '',
+            certificatesEnabled: data.certificatesEnabled,
+            certificateMinScore: data.certificateMinScore?.toString() ?? '',
           })
           // Set learning objectives, ensuring at least one empty field
           const objectives = data.learningObjectives || []
@@ -101,7 +105,8 @@ export default function EditCoursePage() {
           year: parseInt(course.year),
           learningObjectives: filteredObjectives,
           prerequisites: course.prerequisites || null,
-          targetAudience: course.targetAudience || null
+          targetAudience: course.targetAudience || null,
+          certificateMinScore: course.certificateMinScore === '' ? null : Number(course.certificateMinScore)
         }),
       })
 
@@ -368,6 +373,45 @@ export default function EditCoursePage() {
                 </p>
               </div>
 
+              {/* Certificate Section */}
+              <div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    name="certificatesEnabled"
+                    id="certificatesEnabled"
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    checked={course.certificatesEnabled}
+                    onChange={handleInputChange}
+                  />
+                  <label htmlFor="certificatesEnabled" className="ml-2 block text-sm font-medium text-gray-700">
+                    Award a completion certificate
+                  </label>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  Students receive a verifiable certificate once they complete every module.
+                </p>
+                {course.certificatesEnabled && (
+                  <div className="mt-3 max-w-xs">
+                    <label htmlFor="certificateMinScore" className="block text-sm font-medium text-gray-700">
+                      Minimum overall score % (Optional)
+                    </label>
+                    <input
+                      type="number"
+                      name="certificateMinScore"
+                      id="certificateMinScore"
+                      min={0}
+                      max={100}
+                      step="any"
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      placeholder="No minimum"
+                      value={course.certificateMinScore}
+                      onChange={handleInputChange}
+                    />
+                  </div>
+                )}
+              </div>
+
               <div className="flex justify-end space-x-4">
                 <button
                   type="button"
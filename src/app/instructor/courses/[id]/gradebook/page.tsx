@@ -1,25 +1,29 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useSearchParams, useRouter } from 'next/navigation';
 import { Toaster } from 'react-hot-toast';
 import toast from 'react-hot-toast';
 import Navbar from '@/components/Navbar';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { BookOpen, Download, RefreshCw, AlertCircle, Grid, List } from 'lucide-react';
+import { BookOpen, Download, Upload, RefreshCw, AlertCircle, Grid, List, Scale } from 'lucide-react';
 import {
   GradebookGrid,
   GradebookList,
   EditableGradebookGrid,
   GradeUpdateConfirmDialog,
+  GradeImportDialog,
+  GradeCategoryManager,
   GradebookMatrix,
   GradebookStudent,
+  GradeHistoryEntry,
   GradebookFilters,
   GradebookFilterState,
   defaultFilters,
 } from '@/components/gradebook';
 import { useIsMobile } from '@/hooks/useMediaQuery';
-import { calculateGPA, GradeInput } from '@/lib/gpa';
+import { calculateCourseGrade } from '@/lib/grade-categories';
+import type { GradebookImportPlan } from '@/lib/csv-import';
 
 /**
  * Pending grade change state for confirmation dialog
@@ -31,6 +35,17 @@ interface PendingGradeChange {
   oldGrade: number | null;
   newGrade: number;
   maxPoints: number;
+  /** Group the attempt was submitted for, on group assignments */
+  groupName: string | null;
+}
+
+/**
+ * Gradebook CSV being imported, with its dry-run result
+ */
+interface PendingImport {
+  filename: string;
+  csv: string;
+  plan: GradebookImportPlan;
 }
 
 /**
@@ -45,6 +60,9 @@ function buildFilterQueryString(filters: GradebookFilterState): string {
   if (filters.assignmentId) {
     params.set('assignmentId', filters.assignmentId);
   }
+  if (filters.sectionId) {
+    params.set('sectionId', filters.sectionId);
+  }
   if (filters.dateFrom) {
     params.set('dateFrom', filters.dateFrom);
   }
@@ -67,6 +85,7 @@ function parseFiltersFromSearchParams(
   return {
     studentFilter: searchParams.get('studentFilter') || '',
     assignmentId: searchParams.get('assignmentId') || null,
+    sectionId: searchParams.get('sectionId') || null,
     dateFrom: searchParams.get('dateFrom') || null,
     dateTo: searchParams.get('dateTo') || null,
     status: (searchParams.get('status') as GradebookFilterState['status']) || 'all',
@@ -83,6 +102,7 @@ function parseFiltersFromSearchParams(
  * - GPA calculation for each student
  * - Filtering by student, assignment, date, status (Story 2.3)
  * - CSV export functionality (Story 2.3)
+ * - CSV import with a preview of the changed grades
  * - Inline grade editing with confirmation (Story 2.2)
  * - URL-based filter persistence (Story 2.3)
  *
@@ -101,6 +121,12 @@ export default function GradebookPage() {
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'auto' | 'grid' | 'list'>('auto');
   const [exporting, setExporting] = useState(false);
+  const [showCategories, setShowCategories] = useState(false);
+
+  // CSV import state
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Filter state - initialized from URL
   const [filters, setFilters] = useState<GradebookFilterState>(() =>
@@ -123,6 +149,7 @@ export default function GradebookPage() {
     return (
       filters.studentFilter !== '' ||
       filters.assignmentId !== null ||
+      filters.sectionId !== null ||
       filters.dateFrom !== null ||
       filters.dateTo !== null ||
       filters.status !== 'all'
@@ -203,44 +230,23 @@ export default function GradebookPage() {
             };
           });
 
-          // Recalculate totals
-          const totalPossiblePoints = prev.assignments.reduce(
-            (sum, a) => sum + a.maxPoints,
-            0
+          // Recalculate category-weighted totals (same rules as the API)
+          const courseGrade = calculateCourseGrade(
+            prev.assignments.map((a) => ({
+              categoryId: a.categoryId ?? null,
+              maxPoints: a.maxPoints,
+              points:
+                updatedGrades.find((g) => g.assignmentId === a.id)?.score ?? null,
+            })),
+            prev.categories ?? []
           );
 
-          let totalPoints = 0;
-          const gradedAssignments: GradeInput[] = [];
-
-          updatedGrades.forEach((g) => {
-            if (g.score !== null) {
-              const maxPts =
-                prev.assignments.find((a) => a.id === g.assignmentId)
-                  ?.maxPoints || 100;
-              totalPoints += g.score;
-              gradedAssignments.push({
-                points: g.score,
-                maxPoints: maxPts,
-                weight: 1,
-                isGraded: true,
-              });
-            }
-          });
-
-          const percentage =
-            totalPossiblePoints > 0
-              ? Math.round((totalPoints / totalPossiblePoints) * 10000) / 100
-              : 0;
-
-          const gpaResult = calculateGPA(gradedAssignments);
-          const gpa = gpaResult?.gpa ?? null;
-
           return {
             ...student,
             grades: updatedGrades,
-            totalPoints,
-            percentage,
-            gpa,
+            totalPoints: courseGrade.totalPoints,
+            percentage: courseGrade.percentage,
+            gpa: courseGrade.gpa?.gpa ?? null,
           };
         });
 
@@ -270,6 +276,10 @@ export default function GradebookPage() {
         return;
       }
 
+      const groupId = gradebook?.students
+        .find((student) => student.id === studentId)
+        ?.grades.find((cell) => cell.assignmentId === assignmentId)?.groupId;
+
       setPendingChange({
         studentId,
         assignmentId,
@@ -277,15 +287,16 @@ export default function GradebookPage() {
         oldGrade,
         newGrade,
         maxPoints,
+        groupName: gradebook?.groups.find((group) => group.id === groupId)?.name ?? null,
       });
     },
-    []
+    [gradebook]
   );
 
   /**
    * Handle confirmation dialog confirm
    */
-  const handleConfirmGradeChange = useCallback(async () => {
+  const handleConfirmGradeChange = useCallback(async (_feedback?: string, reason?: string, applyToGroup?: boolean) => {
     if (!pendingChange) return;
 
     const { studentId, assignmentId, submissionId, oldGrade, newGrade } =
@@ -307,7 +318,7 @@ export default function GradebookPage() {
         {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ submissionId, grade: newGrade }),
+          body: JSON.stringify({ submissionId, grade: newGrade, reason, applyToGroup }),
         }
       );
 
@@ -324,7 +335,21 @@ export default function GradebookPage() {
         throw new Error(errorData.error?.message || 'Failed to update grade');
       }
 
-      toast.success('Grade updated successfully');
+      const data = await response.json();
+
+      // A group grade changed the other members' cells too
+      if (data.studentIds?.length > 1) {
+        await fetchGradebook();
+        toast.success(`Grade applied to all ${data.studentIds.length} group members`);
+      } else if (data.grade?.latePenaltyPercent) {
+        // Late policy deductions change the stored score
+        updateLocalGrade(studentId, assignmentId, data.grade.points);
+        toast.success(
+          `Grade updated with a ${data.grade.latePenaltyPercent}% late penalty (${data.grade.points} points)`
+        );
+      } else {
+        toast.success('Grade updated successfully');
+      }
     } catch (err) {
       console.error('Failed to update grade:', err);
       toast.error(err instanceof Error ? err.message : 'Failed to update grade');
@@ -333,6 +358,24 @@ export default function GradebookPage() {
     }
   }, [pendingChange, courseId, updateLocalGrade, fetchGradebook]);
 
+  /**
+   * Load the change history of a gradebook cell
+   */
+  const handleFetchHistory = useCallback(
+    async (studentId: string, assignmentId: string): Promise<GradeHistoryEntry[]> => {
+      const params = new URLSearchParams({ studentId, assignmentId });
+      const response = await fetch(`/api/instructor/gradebook/${courseId}/history?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to load grade history');
+      }
+
+      return data.data.entries;
+    },
+    [courseId]
+  );
+
   /**
    * Handle confirmation dialog cancel
    */
@@ -384,6 +427,77 @@ export default function GradebookPage() {
     }
   }, [gradebook, exporting, filters, courseId]);
 
+  /**
+   * Preview a gradebook CSV import (dry run) and open the confirmation dialog
+   */
+  const handleImportFile = useCallback(
+    async (file: File) => {
+      setImporting(true);
+
+      try {
+        const csv = await file.text();
+        const response = await fetch(`/api/instructor/gradebook/${courseId}/import`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ csv, dryRun: true }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error?.message || 'Failed to read the CSV file');
+        }
+
+        setPendingImport({ filename: file.name, csv, plan: data.data });
+      } catch (err) {
+        console.error('Import preview failed:', err);
+        toast.error(err instanceof Error ? err.message : 'Failed to read the CSV file');
+      } finally {
+        setImporting(false);
+        if (importInputRef.current) importInputRef.current.value = '';
+      }
+    },
+    [courseId]
+  );
+
+  /**
+   * Apply the previewed import
+   */
+  const handleConfirmImport = useCallback(async () => {
+    if (!pendingImport) return;
+
+    setImporting(true);
+
+    try {
+      const response = await fetch(`/api/instructor/gradebook/${courseId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: pendingImport.csv, dryRun: false }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        // Grades changed since the preview: show the current errors
+        if (Array.isArray(data.error?.details)) {
+          setPendingImport((prev) =>
+            prev && { ...prev, plan: { ...prev.plan, errors: data.error.details } }
+          );
+        }
+        throw new Error(data.error?.message || 'Failed to import grades');
+      }
+
+      setPendingImport(null);
+      toast.success(
+        `Updated ${data.data.updatedCount} grade${data.data.updatedCount !== 1 ? 's' : ''}`
+      );
+      await fetchGradebook();
+    } catch (err) {
+      console.error('Import failed:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to import grades');
+    } finally {
+      setImporting(false);
+    }
+  }, [pendingImport, courseId, fetchGradebook]);
+
   /**
    * Keyboard shortcut handler (Ctrl+E / Cmd+E for export)
    */
@@ -414,9 +528,28 @@ export default function GradebookPage() {
           oldGrade={pendingChange?.oldGrade ?? null}
           newGrade={pendingChange?.newGrade ?? 0}
           maxPoints={pendingChange?.maxPoints}
+          groupName={pendingChange?.groupName}
           onConfirm={handleConfirmGradeChange}
           onCancel={handleCancelGradeChange}
         />
+
+        {/* Grade Import Confirmation Dialog */}
+        <GradeImportDialog
+          isOpen={pendingImport !== null}
+          filename={pendingImport?.filename}
+          plan={pendingImport?.plan ?? null}
+          isApplying={importing}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+
+        {/* Grade Category Manager Dialog */}
+        <GradeCategoryManager
+          isOpen={showCategories}
+          courseId={courseId}
+          onChange={fetchGradebook}
+          onClose={() => setShowCategories(false)}
+        />
         <main className="max-w-full mx-auto py-6 px-4 sm:px-6 lg:px-8">
           {/* Page Header */}
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
@@ -478,6 +611,37 @@ export default function GradebookPage() {
                 />
               </button>
 
+              {/* Grade Categories */}
+              <button
+                onClick={() => setShowCategories(true)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
+                title="Manage grade categories"
+              >
+                <Scale className="h-4 w-4 mr-2" />
+                Categories
+              </button>
+
+              {/* Import CSV */}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportFile(file);
+                }}
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={!gradebook || loading || importing}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50"
+                title="Import grades from a CSV in the export layout"
+              >
+                <Upload className={`h-4 w-4 mr-2 ${importing ? 'animate-pulse' : ''}`} />
+                {importing && !pendingImport ? 'Reading...' : 'Import CSV'}
+              </button>
+
               {/* Export CSV */}
               <button
                 onClick={handleExportCSV}
@@ -497,6 +661,7 @@ export default function GradebookPage() {
               filters={filters}
               onFilterChange={handleFilterChange}
               assignments={gradebook.assignments}
+              sections={gradebook.sections}
               isLoading={loading}
             />
           )}
@@ -591,6 +756,7 @@ export default function GradebookPage() {
                     savingCellId={savingCellId}
                     onGradeChangeRequest={handleGradeChangeRequest}
                     onCancel={handleEditCancel}
+                    onFetchHistory={handleFetchHistory}
                     isLoading={loading}
                   />
                 </div>
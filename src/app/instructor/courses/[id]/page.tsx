@@ -6,7 +6,11 @@ import Link from 'next/link'
 import Navbar from '@/components/Navbar'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import ModuleList from '@/components/modules/ModuleList'
-import { Users, ClipboardList, MessageSquare, Settings, Plus, FileText, Calendar, X, Layers, BookOpen } from 'lucide-react'
+import AccommodationsPanel from '@/components/instructor/AccommodationsPanel'
+import SectionsPanel from '@/components/instructor/SectionsPanel'
+import GroupsPanel from '@/components/instructor/GroupsPanel'
+import CopyCourseModal from '@/components/instructor/CopyCourseModal'
+import { Users, ClipboardList, MessageSquare, Settings, Plus, FileText, Calendar, X, Layers, BookOpen, Copy, Download } from 'lucide-react'
 
 interface Course {
   id: string
@@ -30,6 +34,7 @@ interface Course {
 
 interface Enrollment {
   id: string
+  sectionId: string | null
   user: {
     id: string
     name: string
@@ -51,6 +56,7 @@ export default function CourseDetailPage() {
   const [enrollmentError, setEnrollmentError] = useState<string | null>(null)
   const [selectedStudentId, setSelectedStudentId] = useState<string>('')
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false)
+  const [showCopyModal, setShowCopyModal] = useState(false)
 
   useEffect(() => {
     const fetchCourseData = async () => {
@@ -222,6 +228,22 @@ export default function CourseDetailPage() {
                   )}
                 </div>
                 <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowCopyModal(true)}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy course
+                  </button>
+                  <a
+                    href={`/api/instructor/courses/${course.id}/export`}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    title="Download as an IMS Common Cartridge package"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Export
+                  </a>
                   <Link
                     href={`/instructor/courses/${course.id}/edit`}
                     className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
@@ -430,6 +452,35 @@ export default function CourseDetailPage() {
                       ))}
                     </div>
                   )}
+
+                  <div className="mt-8 pt-6 border-t border-gray-200">
+                    <SectionsPanel
+                      courseId={course.id}
+                      enrollments={enrollments}
+                      onSectionChange={(studentId, sectionId) =>
+                        setEnrollments((prev) =>
+                          prev.map((enrollment) =>
+                            enrollment.user.id === studentId ? { ...enrollment, sectionId } : enrollment
+                          )
+                        )
+                      }
+                    />
+                  </div>
+
+                  {enrollments.length > 0 && (
+                    <div className="mt-8 pt-6 border-t border-gray-200">
+                      <GroupsPanel courseId={course.id} />
+                    </div>
+                  )}
+
+                  {enrollments.length > 0 && (
+                    <div className="mt-8 pt-6 border-t border-gray-200">
+                      <AccommodationsPanel
+                        courseId={course.id}
+                        students={enrollments.map((enrollment) => enrollment.user)}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -530,6 +581,16 @@ export default function CourseDetailPage() {
             </div>
           </div>
         )}
+
+        <CopyCourseModal
+          isOpen={showCopyModal}
+          course={course}
+          onClose={() => setShowCopyModal(false)}
+          onCopied={(courseId) => {
+            setShowCopyModal(false)
+            router.push(`/instructor/courses/${courseId}`)
+          }}
+        />
       </div>
     </ProtectedRoute>
   )
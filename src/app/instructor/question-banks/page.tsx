@@ -0,0 +1,54 @@
+'use client'
+
+/**
+ * Question Banks Management Page
+ *
+ * Instructor page for managing question banks that quizzes draw their
+ * questions from.
+ */
+
+import Navbar from '@/components/Navbar'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import { QuestionBankManager } from '@/components/instructor/QuestionBankManager'
+import Link from 'next/link'
+import { ArrowLeft, ListChecks } from 'lucide-react'
+
+export default function QuestionBanksPage() {
+  return (
+    <ProtectedRoute allowedRoles={['INSTRUCTOR', 'ADMIN']}>
+      <div className="min-h-screen bg-bg-primary">
+        <Navbar />
+        <main className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          {/* Breadcrumb */}
+          <div className="mb-4">
+            <Link
+              href="/dashboard"
+              className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to Dashboard
+            </Link>
+          </div>
+
+          {/* Page Header */}
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-indigo-100 rounded-lg">
+              <ListChecks className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-text-primary">
+                Question Banks
+              </h1>
+              <p className="text-sm text-text-secondary">
+                Write questions once, then build auto-graded quizzes from them
+              </p>
+            </div>
+          </div>
+
+          {/* Question Bank Manager Component */}
+          <QuestionBankManager />
+        </main>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+/**
+ * Rubrics Management Page
+ *
+ * Instructor page for managing reusable grading rubrics that can be
+ * attached to assignments.
+ */
+
+import Navbar from '@/components/Navbar'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import { RubricManager } from '@/components/instructor/RubricManager'
+import Link from 'next/link'
+import { ArrowLeft, ClipboardList } from 'lucide-react'
+
+export default function RubricsPage() {
+  return (
+    <ProtectedRoute allowedRoles={['INSTRUCTOR', 'ADMIN']}>
+      <div className="min-h-screen bg-bg-primary">
+        <Navbar />
+        <main className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          {/* Breadcrumb */}
+          <div className="mb-4">
+            <Link
+              href="/dashboard"
+              className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to Dashboard
+            </Link>
+          </div>
+
+          {/* Page Header */}
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-pink-100 rounded-lg">
+              <ClipboardList className="h-6 w-6 text-pink-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-text-primary">
+                Rubrics
+              </h1>
+              <p className="text-sm text-text-secondary">
+                Define criteria and performance levels once, then grade any assignment with them
+              </p>
+            </div>
+          </div>
+
+          {/* Rubric Manager Component */}
+          <RubricManager />
+        </main>
+      </div>
+    </ProtectedRoute>
+  )
+}
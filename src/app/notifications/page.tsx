@@ -0,0 +1,330 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import Navbar from '@/components/Navbar'
+import { Bell, CheckCheck, ChevronLeft, ChevronRight, Save } from 'lucide-react'
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPES_BY_ROLE,
+  NOTIFICATION_TYPE_DESCRIPTIONS,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationChannels,
+  NotificationTypeName,
+} from '@/lib/notification-types'
+
+interface NotificationItem {
+  id: string
+  type: NotificationTypeName
+  title: string
+  body: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+type Preferences = Record<NotificationTypeName, NotificationChannels>
+
+const PAGE_SIZE = 20
+
+export default function NotificationsPage() {
+  const { data: session } = useSession()
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [preferences, setPreferences] = useState<Preferences | null>(null)
+  const [savingPreferences, setSavingPreferences] = useState(false)
+  const [preferencesMessage, setPreferencesMessage] = useState<string | null>(null)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+        unreadOnly: String(unreadOnly),
+      })
+      const response = await fetch(`/api/notifications?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error?.message || 'Failed to fetch notifications')
+      }
+      const data = await response.json()
+      setNotifications(data.data)
+      setUnreadCount(data.unreadCount)
+      setTotalPages(Math.max(1, data.meta.totalPages))
+      setError(null)
+    } catch (err: unknown) {
+      console.error('Error fetching notifications:', err)
+      setError(err instanceof Error ? err.message : 'An unknown error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [page, unreadOnly])
+
+  useEffect(() => {
+    if (session) fetchNotifications()
+  }, [session, fetchNotifications])
+
+  useEffect(() => {
+    if (!session) return
+    fetch('/api/notifications/preferences')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setPreferences(data.preferences))
+      .catch((err) => console.error('Error fetching notification preferences:', err))
+  }, [session])
+
+  const markAsRead = async (notification: NotificationItem) => {
+    if (notification.readAt) return
+    const response = await fetch(`/api/notifications/${notification.id}`, { method: 'PATCH' })
+    if (response.ok) {
+      const data = await response.json()
+      setNotifications((items) =>
+        items.map((item) => (item.id === notification.id ? data.notification : item))
+      )
+      setUnreadCount((count) => Math.max(0, count - 1))
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    const response = await fetch('/api/notifications/read-all', { method: 'POST' })
+    if (response.ok) fetchNotifications()
+  }
+
+  const handleToggleUnreadOnly = () => {
+    setUnreadOnly(!unreadOnly)
+    setPage(1)
+  }
+
+  const handlePreferenceChange = (
+    type: NotificationTypeName,
+    channel: keyof NotificationChannels,
+    value: boolean
+  ) => {
+    if (!preferences) return
+    setPreferences({ ...preferences, [type]: { ...preferences[type], [channel]: value } })
+    setPreferencesMessage(null)
+  }
+
+  const handleSavePreferences = async () => {
+    if (!preferences) return
+    try {
+      setSavingPreferences(true)
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          preferences: NOTIFICATION_TYPES.map((type) => ({ type, ...preferences[type] })),
+        }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error?.message || 'Failed to save preferences')
+      }
+      const data = await response.json()
+      setPreferences(data.preferences)
+      setPreferencesMessage('Preferences saved')
+    } catch (err: unknown) {
+      setPreferencesMessage(err instanceof Error ? err.message : 'Failed to save preferences')
+    } finally {
+      setSavingPreferences(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const visibleTypes = session
+    ? NOTIFICATION_TYPES_BY_ROLE[session.user.role] ?? NOTIFICATION_TYPES
+    : NOTIFICATION_TYPES
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-100">
+        <Navbar />
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+                <Bell className="text-gray-600" />
+                Notifications
+              </h1>
+              <p className="text-gray-600 mt-1">{unreadCount} unread</p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleToggleUnreadOnly}
+                className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 font-semibold py-2 px-4 rounded-lg shadow-md transition duration-150"
+              >
+                {unreadOnly ? 'Show all' : 'Show unread only'}
+              </button>
+              <button
+                onClick={handleMarkAllRead}
+                disabled={unreadCount === 0}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold py-2 px-4 rounded-lg shadow-md flex items-center transition duration-150"
+              >
+                <CheckCheck size={20} className="mr-2" />
+                Mark all as read
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+              {error}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-t-4 border-blue-500"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">
+                {unreadOnly ? 'No unread notifications.' : 'You have no notifications yet.'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {notifications.map((notification) => (
+                  <li
+                    key={notification.id}
+                    className={`px-6 py-4 flex justify-between gap-4 ${notification.readAt ? '' : 'bg-blue-50'}`}
+                  >
+                    <div>
+                      <span className="text-xs font-medium text-gray-500 uppercase">
+                        {NOTIFICATION_TYPE_LABELS[notification.type]}
+                      </span>
+                      <p className={`text-gray-800 ${notification.readAt ? '' : 'font-semibold'}`}>
+                        {notification.link ? (
+                          <Link
+                            href={notification.link}
+                            onClick={() => markAsRead(notification)}
+                            className="hover:text-blue-600"
+                          >
+                            {notification.title}
+                          </Link>
+                        ) : (
+                          notification.title
+                        )}
+                      </p>
+                      {notification.body && (
+                        <p className="text-sm text-gray-600 mt-1">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">{formatDate(notification.createdAt)}</p>
+                    </div>
+                    {!notification.readAt && (
+                      <button
+                        onClick={() => markAsRead(notification)}
+                        className="text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap self-start"
+                      >
+                        Mark as read
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex justify-between items-center px-6 py-3 border-t border-gray-200">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="flex items-center text-gray-700 disabled:text-gray-300"
+                >
+                  <ChevronLeft size={18} /> Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                  className="flex items-center text-gray-700 disabled:text-gray-300"
+                >
+                  Next <ChevronRight size={18} />
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold text-gray-800 mb-1">Preferences</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Choose how you hear about each kind of activity.
+            </p>
+
+            {!preferences ? (
+              <p className="text-gray-500">Loading preferences...</p>
+            ) : (
+              <>
+                <table className="w-full mb-4">
+                  <thead>
+                    <tr className="text-left text-sm text-gray-500 border-b border-gray-200">
+                      <th className="py-2 font-medium">Activity</th>
+                      <th className="py-2 font-medium text-center w-24">In app</th>
+                      <th className="py-2 font-medium text-center w-24">Email</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleTypes.map((type) => (
+                      <tr key={type} className="border-b border-gray-100">
+                        <td className="py-3">
+                          <p className="text-gray-800 font-medium">{NOTIFICATION_TYPE_LABELS[type]}</p>
+                          <p className="text-sm text-gray-500">{NOTIFICATION_TYPE_DESCRIPTIONS[type]}</p>
+                        </td>
+                        <td className="py-3 text-center">
+                          <input
+                            type="checkbox"
+                            aria-label={`${NOTIFICATION_TYPE_LABELS[type]} in app`}
+                            checked={preferences[type].inApp}
+                            onChange={(e) => handlePreferenceChange(type, 'inApp', e.target.checked)}
+                            className="h-4 w-4"
+                          />
+                        </td>
+                        <td className="py-3 text-center">
+                          <input
+                            type="checkbox"
+                            aria-label={`${NOTIFICATION_TYPE_LABELS[type]} by email`}
+                            checked={preferences[type].email}
+                            onChange={(e) => handlePreferenceChange(type, 'email', e.target.checked)}
+                            className="h-4 w-4"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={handleSavePreferences}
+                    disabled={savingPreferences}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold py-2 px-4 rounded-lg shadow-md flex items-center transition duration-150"
+                  >
+                    <Save size={18} className="mr-2" />
+                    {savingPreferences ? 'Saving...' : 'Save preferences'}
+                  </button>
+                  {preferencesMessage && <span className="text-sm text-gray-600">{preferencesMessage}</span>}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
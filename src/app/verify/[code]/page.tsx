@@ -0,0 +1,125 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Award, CheckCircle, XCircle } from 'lucide-react'
+
+interface VerifiedCertificate {
+  code: string
+  recipientName: string
+  courseTitle: string
+  courseCode: string
+  instructorName: string
+  finalPercentage: number | null
+  letterGrade: string | null
+  issuedAt: string
+}
+
+export default function VerifyCertificatePage() {
+  const params = useParams()
+  const code = params.code as string
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const res = await fetch(`/api/verify/${encodeURIComponent(code)}`)
+        if (res.ok) {
+          setCertificate(await res.json())
+        }
+      } catch (error) {
+        console.error('Error verifying certificate:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (code) {
+      verify()
+    }
+  }, [code])
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4 py-12">
+      <div className="max-w-lg w-full bg-white shadow rounded-lg p-8">
+        <div className="flex items-center justify-center mb-6">
+          <Award className="h-10 w-10 text-blue-600" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 text-center mb-6">
+          Certificate Verification
+        </h1>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : certificate ? (
+          <div>
+            <div className="flex items-center gap-2 p-3 mb-6 bg-green-50 border border-green-200 rounded-md text-green-800">
+              <CheckCircle className="h-5 w-5 flex-shrink-0" />
+              <span className="text-sm font-medium">
+                This is an authentic certificate issued by this learning platform.
+              </span>
+            </div>
+            <dl className="space-y-4">
+              <div>
+                <dt className="text-sm text-gray-500">Awarded to</dt>
+                <dd className="text-lg font-semibold text-gray-900">{certificate.recipientName}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Course</dt>
+                <dd className="text-gray-900">
+                  {certificate.courseTitle}{' '}
+                  <span className="text-gray-500">({certificate.courseCode})</span>
+                </dd>
+              </div>
+              {certificate.finalPercentage !== null && (
+                <div>
+                  <dt className="text-sm text-gray-500">Final score</dt>
+                  <dd className="text-gray-900">
+                    {certificate.finalPercentage}%
+                    {certificate.letterGrade && ` (${certificate.letterGrade})`}
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-sm text-gray-500">Instructor</dt>
+                <dd className="text-gray-900">{certificate.instructorName}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Issued</dt>
+                <dd className="text-gray-900">
+                  {new Date(certificate.issuedAt).toLocaleDateString(undefined, {
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric'
+                  })}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">Certificate code</dt>
+                <dd className="font-mono text-gray-900">{certificate.code}</dd>
+              </div>
+            </dl>
+          </div>
+        ) : (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700">
+            <XCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+            <span className="text-sm">
+              No certificate matches the code <span className="font-mono">{code}</span>. Check the
+              code printed at the bottom of the certificate and try again.
+            </span>
+          </div>
+        )}
+
+        <div className="mt-8 text-center">
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-500">
+            Go to homepage
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
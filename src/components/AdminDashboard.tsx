@@ -32,6 +32,8 @@ import {
   Settings,
   Shield,
   Trash2,
+  History,
+  ScrollText,
   RefreshCw,
   Clock,
 } from 'lucide-react'
@@ -340,6 +342,20 @@ export default function AdminDashboard() {
               <Trash2 className="h-5 w-5 mr-2 text-gray-500" />
               Deleted Records
             </Link>
+            <Link
+              href="/admin/grade-history"
+              className="flex items-center justify-center px-4 py-3 border border-gray-200 rounded-md shadow-sm bg-card-bg text-sm font-medium text-text-primary hover:bg-bg-content transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500"
+            >
+              <History className="h-5 w-5 mr-2 text-amber-500" />
+              Grade History
+            </Link>
+            <Link
+              href="/admin/audit-log"
+              className="flex items-center justify-center px-4 py-3 border border-gray-200 rounded-md shadow-sm bg-card-bg text-sm font-medium text-text-primary hover:bg-bg-content transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <ScrollText className="h-5 w-5 mr-2 text-indigo-500" />
+              Audit Log
+            </Link>
             <Link
               href="/admin/reports"
               className="flex items-center justify-center px-4 py-3 border border-gray-200 rounded-md shadow-sm bg-card-bg text-sm font-medium text-text-primary hover:bg-bg-content transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
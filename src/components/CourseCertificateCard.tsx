@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Award, Download, ExternalLink } from 'lucide-react'
+
+interface CertificateStatus {
+  certificatesEnabled: boolean
+  certificateMinScore: number | null
+  completedModules: number
+  totalModules: number
+  percentage: number | null
+  isComplete: boolean
+  remaining: string[]
+}
+
+interface IssuedCertificate {
+  code: string
+  issuedAt: string
+  finalPercentage: number | null
+  letterGrade: string | null
+}
+
+interface CourseCertificateCardProps {
+  courseId: string
+}
+
+/**
+ * Course completion progress and certificate download for students
+ *
+ * Renders nothing for courses that do not offer a certificate.
+ */
+export default function CourseCertificateCard({ courseId }: CourseCertificateCardProps) {
+  const [status, setStatus] = useState<CertificateStatus | null>(null)
+  const [certificate, setCertificate] = useState<IssuedCertificate | null>(null)
+
+  useEffect(() => {
+    const fetchCertificate = async () => {
+      try {
+        const res = await fetch(`/api/student/courses/${courseId}/certificate`)
+        if (res.ok) {
+          const data = await res.json()
+          setStatus(data.status)
+          setCertificate(data.certificate)
+        }
+      } catch (error) {
+        console.error('Error fetching certificate:', error)
+      }
+    }
+
+    fetchCertificate()
+  }, [courseId])
+
+  if (!status?.certificatesEnabled && !certificate) return null
+
+  if (certificate) {
+    return (
+      <div className="p-4 border border-green-200 bg-green-50 rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center">
+          <Award className="h-8 w-8 text-green-600 mr-3 flex-shrink-0" />
+          <div>
+            <h3 className="font-medium text-gray-900">Course completed</h3>
+            <p className="text-sm text-gray-600">
+              Certificate issued {new Date(certificate.issuedAt).toLocaleDateString()} &middot;{' '}
+              <Link
+                href={`/verify/${certificate.code}`}
+                className="font-mono text-blue-600 hover:text-blue-500 inline-flex items-center gap-1"
+              >
+                {certificate.code}
+                <ExternalLink className="h-3 w-3" />
+              </Link>
+            </p>
+          </div>
+        </div>
+        <a
+          href={`/api/student/courses/${courseId}/certificate/pdf`}
+          className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download certificate
+        </a>
+      </div>
+    )
+  }
+
+  if (!status) return null
+
+  const moduleProgress =
+    status.totalModules > 0 ? Math.round((status.completedModules / status.totalModules) * 100) : 0
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center mb-3">
+        <Award className="h-6 w-6 text-gray-400 mr-3" />
+        <div>
+          <h3 className="font-medium text-gray-900">Course certificate</h3>
+          <p className="text-sm text-gray-500">
+            {status.completedModules} of {status.totalModules} modules completed
+            {status.certificateMinScore !== null &&
+              ` · minimum score ${status.certificateMinScore}%`}
+          </p>
+        </div>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
+        <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${moduleProgress}%` }} />
+      </div>
+      <ul className="text-sm text-gray-600 list-disc list-inside space-y-1">
+        {status.remaining.map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { signOut, useSession } from 'next-auth/react'
 import Link from 'next/link'
+import NotificationBell from '@/components/NotificationBell'
 
 export default function Navbar() {
   const { data: session } = useSession()
@@ -49,6 +50,7 @@ export default function Navbar() {
                   </div>
                 </Link>
               )}
+              <NotificationBell />
               
               <div className="flex items-center space-x-2">
                 <span style={{color: '#FFFFFF', fontWeight: 600, backgroundColor: '#2563eb', padding: '0.25rem 0.75rem', borderRadius: '0.375rem', boxShadow: '0 1px 3px rgba(0,0,0,0.3)', fontSize: '0.875rem'}}>
@@ -0,0 +1,169 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Bell } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+
+interface NotificationItem {
+  id: string
+  type: string
+  title: string
+  body: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+// Unread count refresh interval while the page is open
+const POLL_INTERVAL_MS = 60000
+const DROPDOWN_SIZE = 8
+
+export default function NotificationBell() {
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const router = useRouter()
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/notifications?limit=${DROPDOWN_SIZE}`)
+      if (!response.ok) return
+      const result = await response.json()
+      setNotifications(result.data)
+      setUnreadCount(result.unreadCount)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  // Close the dropdown on outside click or Escape
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false)
+    }
+
+    document.addEventListener('mousedown', handleClick)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClick)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  const handleToggle = () => {
+    if (!open) fetchNotifications()
+    setOpen(!open)
+  }
+
+  const handleSelect = async (notification: NotificationItem) => {
+    setOpen(false)
+    if (!notification.readAt) {
+      setUnreadCount((count) => Math.max(0, count - 1))
+      setNotifications((items) =>
+        items.map((item) =>
+          item.id === notification.id ? { ...item, readAt: new Date().toISOString() } : item
+        )
+      )
+      fetch(`/api/notifications/${notification.id}`, { method: 'PATCH' }).catch((error) =>
+        console.error('Error marking notification as read:', error)
+      )
+    }
+    if (notification.link) router.push(notification.link)
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications/read-all', { method: 'POST' })
+      if (response.ok) {
+        setUnreadCount(0)
+        setNotifications((items) =>
+          items.map((item) => ({ ...item, readAt: item.readAt ?? new Date().toISOString() }))
+        )
+      }
+    } catch (error) {
+      console.error('Error marking notifications as read:', error)
+    }
+  }
+
+  return (
+    <div ref={containerRef} style={{position: 'relative', margin: '0 0.25rem'}}>
+      <button
+        onClick={handleToggle}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={open}
+        style={{color: '#FFFFFF', backgroundColor: '#333333', padding: '0.5rem', borderRadius: '0.375rem', position: 'relative', display: 'flex'}}
+        onMouseOver={(e) => e.currentTarget.style.backgroundColor = '#555555'}
+        onMouseOut={(e) => e.currentTarget.style.backgroundColor = '#333333'}
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span style={{position: 'absolute', top: '-0.25rem', right: '-0.25rem', backgroundColor: '#dc2626', color: '#FFFFFF', fontSize: '0.7rem', fontWeight: 700, borderRadius: '9999px', minWidth: '1.1rem', height: '1.1rem', padding: '0 0.25rem', display: 'flex', alignItems: 'center', justifyContent: 'center'}}>
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <span className="font-semibold text-gray-800">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-sm text-blue-600 hover:text-blue-800">
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">You have no notifications.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-blue-50'}`}
+                  >
+                    <p className={`text-sm text-gray-800 ${notification.readAt ? '' : 'font-semibold'}`}>
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-xs text-gray-600 mt-1 line-clamp-2">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Link
+            href="/notifications"
+            onClick={() => setOpen(false)}
+            className="block px-4 py-2 text-sm text-center text-blue-600 hover:bg-gray-50 border-t border-gray-200"
+          >
+            View all and manage preferences
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { CalendarClock } from 'lucide-react'
+
+interface PublishScheduleFieldsProps {
+  /** datetime-local values; empty means no date */
+  publishAt: string
+  unpublishAt: string
+  onChange: (field: 'publishAt' | 'unpublishAt', value: string) => void
+  disabled?: boolean
+  /** Announcements have no publish toggle, so the hint differs */
+  requiresPublished?: boolean
+}
+
+/**
+ * "Publish at" / "Unpublish at" inputs shared by the module, content,
+ * assignment and announcement forms
+ */
+export default function PublishScheduleFields({
+  publishAt,
+  unpublishAt,
+  onChange,
+  disabled = false,
+  requiresPublished = true,
+}: PublishScheduleFieldsProps) {
+  const invalidWindow = publishAt && unpublishAt && unpublishAt <= publishAt
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1.5">
+        <CalendarClock className="h-4 w-4" />
+        Schedule
+      </h4>
+      <p className="text-xs text-gray-500 mb-3">
+        {requiresPublished
+          ? 'Once published, students only see this between these dates. Leave blank for no limit.'
+          : 'Students only see this between these dates. Leave blank to post now and keep it visible.'}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="publishAt" className="block text-sm text-gray-700 mb-1">
+            Publish at
+          </label>
+          <input
+            id="publishAt"
+            type="datetime-local"
+            value={publishAt}
+            onChange={(e) => onChange('publishAt', e.target.value)}
+            disabled={disabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="unpublishAt" className="block text-sm text-gray-700 mb-1">
+            Unpublish at
+          </label>
+          <input
+            id="unpublishAt"
+            type="datetime-local"
+            value={unpublishAt}
+            min={publishAt || undefined}
+            onChange={(e) => onChange('unpublishAt', e.target.value)}
+            disabled={disabled}
+            className={`w-full px-3 py-2 border rounded-md text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+              invalidWindow ? 'border-red-300' : 'border-gray-300'
+            }`}
+          />
+        </div>
+      </div>
+      {invalidWindow && (
+        <p className="text-sm text-red-600 mt-1">Unpublish date must be after the publish date</p>
+      )}
+    </div>
+  )
+}
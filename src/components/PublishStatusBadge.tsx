@@ -0,0 +1,47 @@
+'use client'
+
+import {
+  getPublishStatus,
+  PUBLISH_STATUS_LABELS,
+  type PublishStatus,
+  type PublishWindow,
+} from '@/lib/publishing'
+
+const STATUS_STYLES: Record<PublishStatus, string> = {
+  draft: 'bg-gray-600 text-white',
+  scheduled: 'bg-blue-600 text-white',
+  published: 'bg-green-600 text-white',
+  expired: 'bg-amber-600 text-white',
+}
+
+interface PublishStatusBadgeProps {
+  record: PublishWindow & { isPublished: boolean }
+  /** Size and shape classes */
+  className?: string
+}
+
+function formatDate(value: Date | string | null | undefined): string | null {
+  return value ? new Date(value).toLocaleString() : null
+}
+
+/**
+ * Draft / Scheduled / Published / Expired badge for instructor views
+ */
+export default function PublishStatusBadge({
+  record,
+  className = 'inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium',
+}: PublishStatusBadgeProps) {
+  const status = getPublishStatus(record)
+  const publishAt = formatDate(record.publishAt)
+  const unpublishAt = formatDate(record.unpublishAt)
+
+  const title = [publishAt && `Publishes ${publishAt}`, unpublishAt && `Unpublishes ${unpublishAt}`]
+    .filter(Boolean)
+    .join(' · ')
+
+  return (
+    <span className={`${className} ${STATUS_STYLES[status]}`} title={title || undefined}>
+      {PUBLISH_STATUS_LABELS[status]}
+    </span>
+  )
+}
@@ -21,6 +21,7 @@ interface Assignment {
   title: string
   dueDate: string | null
   course: { title: string; code: string }
+  href: string
 }
 
 interface Announcement {
@@ -32,6 +33,16 @@ interface Announcement {
   author: { name: string }
 }
 
+interface Mention {
+  id: string
+  createdAt: string
+  postId: string
+  content: string
+  author: { name: string }
+  discussion: { id: string; title: string }
+  course: { id: string; title: string; code: string }
+}
+
 /**
  * Get GPA color class for display
  */
@@ -56,6 +67,7 @@ export default function StudentDashboard() {
   const [courses, setCourses] = useState<Course[]>([])
   const [upcomingAssignments, setUpcomingAssignments] = useState<Assignment[]>([])
   const [recentAnnouncements, setRecentAnnouncements] = useState<Announcement[]>([])
+  const [recentMentions, setRecentMentions] = useState<Mention[]>([])
   const [loading, setLoading] = useState(true)
   const [unenrolling, setUnenrolling] = useState<string | null>(null)
   const [unenrollConfirmOpen, setUnenrollConfirmOpen] = useState(false)
@@ -67,10 +79,11 @@ export default function StudentDashboard() {
   useEffect(() => {
     const fetchDashboardData = async () => {
       try {
-        const [coursesRes, assignmentsRes, announcementsRes] = await Promise.all([
+        const [coursesRes, assignmentsRes, announcementsRes, mentionsRes] = await Promise.all([
           fetch('/api/student/courses'),
           fetch('/api/student/assignments/upcoming'),
-          fetch('/api/student/announcements/recent')
+          fetch('/api/student/announcements/recent'),
+          fetch('/api/student/mentions')
         ])
 
         if (coursesRes.ok) {
@@ -87,6 +100,11 @@ export default function StudentDashboard() {
           const announcementsData = await announcementsRes.json()
           setRecentAnnouncements(announcementsData)
         }
+
+        if (mentionsRes.ok) {
+          const mentionsData = await mentionsRes.json()
+          setRecentMentions(mentionsData)
+        }
       } catch (error) {
         console.error('Error fetching dashboard data:', error)
       } finally {
@@ -325,9 +343,10 @@ export default function StudentDashboard() {
             ) : (
               <div className="space-y-3">
                 {upcomingAssignments.map((assignment) => (
-                  <div
+                  <Link
                     key={assignment.id}
-                    className="p-3 border border-pink-100 dark:border-purple-800/30 rounded-lg"
+                    href={assignment.href}
+                    className="block p-3 border border-pink-100 dark:border-purple-800/30 rounded-lg hover:bg-bg-content hover:shadow-md transition-all"
                   >
                     <div className="flex justify-between items-start">
                       <div>
@@ -340,7 +359,7 @@ export default function StudentDashboard() {
                         )}
                       </div>
                     </div>
-                  </div>
+                  </Link>
                 ))}
               </div>
             )}
@@ -391,6 +410,40 @@ export default function StudentDashboard() {
         </div>
       </div>
 
+      <div className="bg-card-bg shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-white mb-4">Recent Mentions</h3>
+          {recentMentions.length === 0 ? (
+            <p className="text-white">Nobody has mentioned you in a discussion yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {recentMentions.map((mention) => (
+                <Link
+                  key={mention.id}
+                  href={`/courses/${mention.course.id}/discussions/${mention.discussion.id}`}
+                  className="block p-4 border border-pink-100 dark:border-purple-800/30 rounded-lg hover:bg-bg-content hover:shadow-md transition-all"
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <h4 className="font-medium text-text-primary">
+                      {mention.author.name} mentioned you in {mention.discussion.title}
+                    </h4>
+                    <span className="text-sm text-text-secondary">
+                      {new Date(mention.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {mention.content && (
+                    <p className="text-sm text-text-secondary mb-2 line-clamp-2">{mention.content}</p>
+                  )}
+                  <p className="text-xs text-text-secondary/70">
+                    {mention.course.code} - {mention.course.title}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Unenroll Confirmation Modal */}
       <AlertDialog.Root open={unenrollConfirmOpen} onOpenChange={setUnenrollConfirmOpen}>
         <AlertDialog.Portal>
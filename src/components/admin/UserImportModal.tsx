@@ -0,0 +1,389 @@
+/**
+ * UserImportModal Component
+ *
+ * Modal dialog for creating users in bulk from a CSV:
+ * - File picker, with a template to fill in
+ * - Optional course codes to enroll every imported student in
+ * - Preview of the users to create and any errors, per row
+ * - Download of the temporary passwords once the users are created
+ */
+
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { X, Loader2, AlertCircle, Download, Upload } from 'lucide-react'
+import { escapeCSV } from '@/lib/csv-export'
+import type { UserImportPlan, UserImportCredential } from '@/lib/user-import'
+
+/**
+ * Columns of the template file
+ */
+const TEMPLATE_HEADER =
+  'Email,Name,Surname,Cell Number,Company,Position,Work Address,Role,Courses'
+
+/**
+ * Props for UserImportModal component
+ */
+export interface UserImportModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean
+  /** Callback when modal closes */
+  onClose: () => void
+  /** Callback when users are created, with the number created */
+  onSuccess: (createdCount: number) => void
+}
+
+/**
+ * Start a download of text content
+ */
+function downloadText(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * CSV of the imported users' sign-in details
+ */
+function buildCredentialsCSV(users: UserImportCredential[]): string {
+  const rows = users.map((user) =>
+    [
+      user.email,
+      user.name,
+      user.surname,
+      user.role,
+      user.temporaryPassword,
+      user.courseCodes.join('; '),
+    ]
+      .map((value) => escapeCSV(value))
+      .join(',')
+  )
+
+  return ['Email,Name,Surname,Role,Temporary Password,Courses', ...rows].join('\n')
+}
+
+/**
+ * UserImportModal component
+ */
+export function UserImportModal({
+  isOpen,
+  onClose,
+  onSuccess,
+}: UserImportModalProps) {
+  const [filename, setFilename] = useState<string | null>(null)
+  const [csv, setCsv] = useState('')
+  const [courseCodes, setCourseCodes] = useState('')
+  const [plan, setPlan] = useState<UserImportPlan | null>(null)
+  const [created, setCreated] = useState<UserImportCredential[] | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [apiError, setApiError] = useState<string | null>(null)
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setFilename(null)
+      setCsv('')
+      setCourseCodes('')
+      setPlan(null)
+      setCreated(null)
+      setApiError(null)
+    }
+  }, [isOpen])
+
+  /**
+   * Send the CSV for a dry run or to create the users
+   */
+  const submit = useCallback(
+    async (dryRun: boolean) => {
+      setApiError(null)
+      setIsSubmitting(true)
+
+      try {
+        const response = await fetch('/api/admin/users/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            csv,
+            dryRun,
+            courseCodes: courseCodes
+              .split(/[,;\s]+/)
+              .map((code) => code.trim())
+              .filter(Boolean),
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          if (data.error?.details) {
+            setPlan((prev) => prev && { ...prev, errors: data.error.details })
+          }
+          throw new Error(data.error?.message || 'Failed to import users')
+        }
+
+        if (dryRun) {
+          setPlan(data.data)
+        } else {
+          setCreated(data.data.users)
+          onSuccess(data.data.createdCount)
+        }
+      } catch (error) {
+        setApiError(error instanceof Error ? error.message : 'An error occurred')
+      } finally {
+        setIsSubmitting(false)
+      }
+    },
+    [csv, courseCodes, onSuccess]
+  )
+
+  /**
+   * Read the chosen file
+   */
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0]
+      if (!file) return
+
+      setFilename(file.name)
+      setCsv(await file.text())
+      setPlan(null)
+      setApiError(null)
+    },
+    []
+  )
+
+  const hasErrors = (plan?.errors.length ?? 0) > 0
+  const userCount = plan?.users.length ?? 0
+
+  return (
+    <Dialog.Root
+      open={isOpen}
+      onOpenChange={(open) => !open && !isSubmitting && onClose()}
+    >
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+
+        <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-3xl translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg max-h-[90vh] overflow-y-auto data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95">
+          <Dialog.Title className="text-lg font-semibold text-gray-900 mb-1">
+            Import Users
+          </Dialog.Title>
+          <Dialog.Description className="text-sm text-gray-600 mb-4">
+            Create users from a CSV with one user per row. Each user gets a
+            temporary password, shown once after the import.
+          </Dialog.Description>
+
+          {apiError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-600">
+              {apiError}
+            </div>
+          )}
+
+          {created ? (
+            // Success view with temporary passwords
+            <div className="space-y-4">
+              <p className="text-sm text-gray-700">
+                Created {created.length} user{created.length !== 1 ? 's' : ''}.
+                Download their temporary passwords now; they are not shown
+                again. Users should change their password after first login.
+              </p>
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadText(buildCredentialsCSV(created), 'imported-users.csv')
+                  }
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-pink-600 border border-transparent rounded-md hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500"
+                >
+                  <Download className="h-4 w-4" />
+                  Download passwords
+                </button>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {/* File */}
+              <div>
+                <label
+                  htmlFor="importFile"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  CSV file <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="importFile"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileChange}
+                  className="block w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:bg-pink-50 file:text-pink-700 hover:file:bg-pink-100"
+                  disabled={isSubmitting}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Columns: {TEMPLATE_HEADER.split(',').join(', ')}. Role
+                  defaults to Student; separate several course codes with
+                  semicolons.{' '}
+                  <button
+                    type="button"
+                    onClick={() => downloadText(`${TEMPLATE_HEADER}\n`, 'users-template.csv')}
+                    className="text-pink-600 hover:text-pink-700 underline"
+                  >
+                    Download template
+                  </button>
+                </p>
+              </div>
+
+              {/* Course codes */}
+              <div>
+                <label
+                  htmlFor="courseCodes"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Enroll every student in
+                </label>
+                <input
+                  id="courseCodes"
+                  type="text"
+                  value={courseCodes}
+                  onChange={(e) => {
+                    setCourseCodes(e.target.value)
+                    setPlan(null)
+                  }}
+                  placeholder="Course codes, e.g. CS101, CS102"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {/* Preview summary */}
+              {plan && (
+                <p className="text-sm text-gray-600">
+                  {filename && <span className="font-medium text-gray-800">{filename}: </span>}
+                  {plan.rowCount} row{plan.rowCount !== 1 ? 's' : ''},{' '}
+                  <strong className="text-blue-600">
+                    {userCount} user{userCount !== 1 ? 's' : ''} to create
+                  </strong>
+                  .
+                </p>
+              )}
+
+              {/* Errors */}
+              {plan && hasErrors && (
+                <div className="rounded-md bg-red-50 p-4">
+                  <div className="flex">
+                    <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+                    <div>
+                      <h3 className="text-sm font-medium text-red-800">
+                        Fix these errors in the file and import it again
+                      </h3>
+                      <ul className="mt-2 text-sm text-red-700 list-disc pl-5 space-y-1 max-h-40 overflow-y-auto">
+                        {plan.errors.map((error, index) => (
+                          <li key={index}>
+                            Row {error.row}
+                            {error.column && <> ({error.column})</>}: {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Users to create */}
+              {plan && userCount > 0 && (
+                <div className="border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">Row</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">User</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">Role</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-700">Courses</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {plan.users.map((user) => (
+                        <tr key={user.row}>
+                          <td className="px-3 py-2 text-gray-500">{user.row}</td>
+                          <td className="px-3 py-2 text-gray-900">
+                            {user.name} {user.surname}
+                            <div className="text-xs text-gray-500">{user.email}</div>
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">{user.role}</td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {user.courses.map((course) => course.code).join(', ') || '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex justify-end gap-3 mt-6">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                {plan && !hasErrors && userCount > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => submit(false)}
+                    className="px-4 py-2 text-sm font-medium text-white bg-pink-600 border border-transparent rounded-md hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Create {userCount} user{userCount !== 1 ? 's' : ''}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => submit(true)}
+                    className="px-4 py-2 text-sm font-medium text-white bg-pink-600 border border-transparent rounded-md hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    disabled={isSubmitting || !csv}
+                  >
+                    {isSubmitting ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Upload className="h-4 w-4" />
+                    )}
+                    Check file
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <Dialog.Close asChild>
+            <button
+              type="button"
+              onClick={onClose}
+              className="absolute right-4 top-4 rounded-sm opacity-70 ring-offset-white transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:pointer-events-none"
+              aria-label="Close"
+              disabled={isSubmitting}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
+
+export default UserImportModal
@@ -15,6 +15,9 @@ export type { User, SortConfig, UserTableProps } from './UserTable'
 export { UserCreateModal } from './UserCreateModal'
 export type { UserCreateModalProps } from './UserCreateModal'
 
+export { UserImportModal } from './UserImportModal'
+export type { UserImportModalProps } from './UserImportModal'
+
 export { UserEditModal } from './UserEditModal'
 export type { UserEditModalProps } from './UserEditModal'
 
@@ -0,0 +1,164 @@
+'use client'
+
+import { Award } from 'lucide-react'
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from '@/lib/publishing'
+
+/**
+ * Grading settings of a discussion as returned by the discussion routes
+ */
+export interface DiscussionGrading {
+  assignmentId: string
+  maxPoints: number
+  dueDate: string | null
+  requiredPosts: number
+  requiredReplies: number
+}
+
+/**
+ * Form values; numbers are kept as strings while typing
+ */
+export interface DiscussionGradingValues {
+  graded: boolean
+  maxPoints: string
+  dueDate: string
+  requiredPosts: string
+  requiredReplies: string
+}
+
+/**
+ * Form values for a discussion's current grading settings
+ */
+export function toDiscussionGradingValues(grading: DiscussionGrading | null): DiscussionGradingValues {
+  return {
+    graded: grading !== null,
+    maxPoints: String(grading?.maxPoints ?? 10),
+    dueDate: toDateTimeLocalValue(grading?.dueDate),
+    requiredPosts: String(grading?.requiredPosts ?? 1),
+    requiredReplies: String(grading?.requiredReplies ?? 2),
+  }
+}
+
+/**
+ * The `grading` field of a discussion create or update request
+ *
+ * @returns null for an ungraded discussion
+ */
+export function toDiscussionGradingPayload(values: DiscussionGradingValues) {
+  if (!values.graded) return null
+
+  return {
+    maxPoints: Number(values.maxPoints),
+    dueDate: fromDateTimeLocalValue(values.dueDate),
+    requiredPosts: Number(values.requiredPosts),
+    requiredReplies: Number(values.requiredReplies),
+  }
+}
+
+interface DiscussionGradingFieldsProps {
+  values: DiscussionGradingValues
+  onChange: (values: DiscussionGradingValues) => void
+  disabled?: boolean
+}
+
+/**
+ * "Graded" toggle with points, due date and participation requirements,
+ * shared by the discussion create and edit forms
+ */
+export default function DiscussionGradingFields({
+  values,
+  onChange,
+  disabled = false,
+}: DiscussionGradingFieldsProps) {
+  const set = (field: keyof DiscussionGradingValues, value: string | boolean) =>
+    onChange({ ...values, [field]: value })
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div>
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="graded"
+          checked={values.graded}
+          onChange={(e) => set('graded', e.target.checked)}
+          disabled={disabled}
+          className="mr-2"
+        />
+        <label htmlFor="graded" className="text-sm text-gray-700 flex items-center gap-1.5">
+          <Award className="h-4 w-4" />
+          Graded discussion
+        </label>
+      </div>
+
+      {values.graded && (
+        <div className="mt-3 pl-6">
+          <p className="text-xs text-gray-500 mb-3">
+            Students are graded on their posts. The grade appears as a column in the gradebook.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="gradingMaxPoints" className="block text-sm text-gray-700 mb-1">
+                Points
+              </label>
+              <input
+                id="gradingMaxPoints"
+                type="number"
+                min={1}
+                max={10000}
+                value={values.maxPoints}
+                onChange={(e) => set('maxPoints', e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="gradingDueDate" className="block text-sm text-gray-700 mb-1">
+                Due date (optional)
+              </label>
+              <input
+                id="gradingDueDate"
+                type="datetime-local"
+                value={values.dueDate}
+                onChange={(e) => set('dueDate', e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="gradingRequiredPosts" className="block text-sm text-gray-700 mb-1">
+                Required original posts
+              </label>
+              <input
+                id="gradingRequiredPosts"
+                type="number"
+                min={0}
+                max={20}
+                value={values.requiredPosts}
+                onChange={(e) => set('requiredPosts', e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="gradingRequiredReplies" className="block text-sm text-gray-700 mb-1">
+                Required replies
+              </label>
+              <input
+                id="gradingRequiredReplies"
+                type="number"
+                min={0}
+                max={50}
+                value={values.requiredReplies}
+                onChange={(e) => set('requiredReplies', e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
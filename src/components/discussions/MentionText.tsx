@@ -0,0 +1,33 @@
+'use client'
+
+import { splitMentions } from '@/lib/mentions'
+
+interface MentionTextProps {
+  content: string
+  /** Highlights mentions of this user */
+  viewerId?: string
+}
+
+/**
+ * Post content with @mentions shown as names
+ */
+export default function MentionText({ content, viewerId }: MentionTextProps) {
+  return (
+    <>
+      {splitMentions(content).map((segment, index) =>
+        segment.type === 'text' ? (
+          segment.text
+        ) : (
+          <span
+            key={index}
+            className={`font-medium rounded px-0.5 ${
+              segment.userId === viewerId ? 'bg-yellow-100 text-yellow-900' : 'text-blue-700'
+            }`}
+          >
+            @{segment.name}
+          </span>
+        )
+      )}
+    </>
+  )
+}
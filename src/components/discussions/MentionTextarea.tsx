@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { findMentionQuery, formatMention, type MentionableUser } from '@/lib/mentions'
+
+interface Suggestion extends MentionableUser {
+  role: string
+}
+
+interface MentionTextareaProps {
+  value: string
+  onChange: (value: string) => void
+  /** Course whose members can be mentioned */
+  courseId: string
+  rows?: number
+  placeholder?: string
+}
+
+/**
+ * Post textarea that suggests course members after an `@`
+ *
+ * Picking a suggestion inserts a mention token (see `@/lib/mentions`).
+ */
+export default function MentionTextarea({ value, onChange, courseId, rows = 3, placeholder }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null)
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [highlighted, setHighlighted] = useState(0)
+
+  const query = mention?.query ?? null
+
+  // Look up members while a mention is being typed
+  useEffect(() => {
+    if (query === null) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/student/courses/${courseId}/mentions?q=${encodeURIComponent(query)}`
+        )
+        if (response.ok && !cancelled) {
+          setSuggestions(await response.json())
+          setHighlighted(0)
+        }
+      } catch (error) {
+        console.error('Error fetching mention suggestions:', error)
+      }
+    }, 150)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [courseId, query])
+
+  const updateMention = (text: string, cursor: number) => {
+    setMention(findMentionQuery(text, cursor))
+  }
+
+  const insertMention = (user: Suggestion) => {
+    if (!mention) return
+
+    const cursor = mention.start + 1 + mention.query.length
+    const token = `${formatMention(user)} `
+    onChange(value.slice(0, mention.start) + token + value.slice(cursor))
+    setMention(null)
+
+    const caret = mention.start + token.length
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(caret, caret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!mention || suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      insertMention(suggestions[highlighted])
+    } else if (e.key === 'Escape') {
+      // Keep the Escape from leaving the page
+      e.stopPropagation()
+      setMention(null)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateMention(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setMention(null), 150)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        rows={rows}
+        placeholder={placeholder}
+        aria-autocomplete="list"
+      />
+      {mention && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 left-0 mt-1 w-64 max-h-60 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault()
+                insertMention(user)
+              }}
+              className={`px-3 py-2 text-sm cursor-pointer flex justify-between ${
+                index === highlighted ? 'bg-blue-50 text-blue-800' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span>
+                {user.name} {user.surname}
+              </span>
+              {user.role !== 'STUDENT' && <span className="text-xs text-gray-500">Instructor</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
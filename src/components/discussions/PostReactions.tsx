@@ -0,0 +1,48 @@
+'use client'
+
+import { reactionLabels, reactionTypes, type ReactionSummary, type ReactionTypeValue } from '@/lib/discussions'
+
+interface PostReactionsProps {
+  reactions: ReactionSummary
+  /** Toggle the viewer's reaction; without it the counts are read-only */
+  onToggle?: (type: ReactionTypeValue) => void
+  disabled?: boolean
+}
+
+/**
+ * Upvote and reaction counts of a discussion post
+ */
+export default function PostReactions({ reactions, onToggle, disabled = false }: PostReactionsProps) {
+  const visibleTypes = onToggle
+    ? reactionTypes
+    : reactionTypes.filter((type) => reactions.counts[type])
+
+  if (visibleTypes.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {visibleTypes.map((type) => {
+        const count = reactions.counts[type] ?? 0
+        const isMine = reactions.mine.includes(type)
+
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onToggle?.(type)}
+            disabled={disabled || !onToggle}
+            aria-pressed={isMine}
+            className={`px-2 py-0.5 rounded-full border text-xs transition-colors disabled:cursor-default ${
+              isMine
+                ? 'bg-blue-50 border-blue-300 text-blue-700'
+                : 'bg-white border-gray-200 text-gray-600 enabled:hover:bg-gray-50'
+            }`}
+          >
+            {reactionLabels[type]}
+            {count > 0 && <span className="ml-1 font-medium">{count}</span>}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useState } from 'react'
+import { Bell, BellOff } from 'lucide-react'
+
+interface SubscribeButtonProps {
+  /** The discussion's subscription endpoint */
+  url: string
+  subscribed: boolean
+  onChange: (subscribed: boolean) => void
+}
+
+/**
+ * Follow / unfollow toggle for a discussion
+ */
+export default function SubscribeButton({ url, subscribed, onChange }: SubscribeButtonProps) {
+  const [saving, setSaving] = useState(false)
+
+  const handleClick = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, { method: subscribed ? 'DELETE' : 'POST' })
+
+      if (response.ok) {
+        const data = await response.json()
+        onChange(data.isSubscribed)
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to update subscription')
+      }
+    } catch (error) {
+      console.error('Error updating subscription:', error)
+      alert('An error occurred while updating the subscription')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={saving}
+      title={subscribed ? 'Stop getting notified of new posts' : 'Get notified of every new post'}
+      className={`flex items-center px-3 py-1 text-sm rounded disabled:opacity-50 ${
+        subscribed
+          ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+      }`}
+    >
+      {subscribed ? <BellOff className="h-4 w-4 mr-1" /> : <Bell className="h-4 w-4 mr-1" />}
+      {subscribed ? 'Unfollow' : 'Follow'}
+    </button>
+  )
+}
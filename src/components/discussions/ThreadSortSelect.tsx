@@ -0,0 +1,36 @@
+'use client'
+
+import type { ThreadSort } from '@/lib/discussions'
+
+const SORT_LABELS: Record<ThreadSort, string> = {
+  newest: 'Newest',
+  top: 'Most upvoted',
+  unanswered: 'Unanswered first',
+}
+
+interface ThreadSortSelectProps {
+  value: ThreadSort
+  onChange: (sort: ThreadSort) => void
+}
+
+/**
+ * Order picker for the threads of a discussion
+ */
+export default function ThreadSortSelect({ value, onChange }: ThreadSortSelectProps) {
+  return (
+    <label className="flex items-center text-sm text-gray-600">
+      <span className="mr-2">Sort by</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as ThreadSort)}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {(Object.keys(SORT_LABELS) as ThreadSort[]).map((sort) => (
+          <option key={sort} value={sort}>
+            {SORT_LABELS[sort]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
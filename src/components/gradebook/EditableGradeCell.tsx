@@ -2,7 +2,8 @@
 
 import React, { useState, useRef, useEffect, useCallback, memo } from 'react';
 import { AlertCircle, Loader2 } from 'lucide-react';
-import { getStatusColorClasses, getStatusIcon, getStatusLabel, CellStatus } from './types';
+import { GradeHistoryPopover } from './GradeHistoryPopover';
+import { getStatusColorClasses, getStatusIcon, getStatusLabel, CellStatus, GradeHistoryEntry } from './types';
 
 /**
  * Props for EditableGradeCell component
@@ -28,6 +29,8 @@ export interface EditableGradeCellProps {
   onTabPrevious?: () => void;
   /** Callback to open confirmation dialog */
   onRequestConfirmation?: (oldValue: number | null, newValue: number) => void;
+  /** Loads the grade's change history (shows a history button on graded cells) */
+  onFetchHistory?: () => Promise<GradeHistoryEntry[]>;
 }
 
 /**
@@ -99,6 +102,7 @@ function EditableGradeCellComponent({
   onTabNext,
   onTabPrevious,
   onRequestConfirmation,
+  onFetchHistory,
 }: EditableGradeCellProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [inputValue, setInputValue] = useState(
@@ -400,7 +404,7 @@ function EditableGradeCellComponent({
   return (
     <td
       ref={cellRef}
-      className={`px-3 py-2 text-center whitespace-nowrap border ${colorClasses} transition-colors ${
+      className={`relative px-3 py-2 text-center whitespace-nowrap border ${colorClasses} transition-colors ${
         disabled
           ? 'cursor-not-allowed opacity-60'
           : 'cursor-pointer hover:opacity-80'
@@ -416,6 +420,9 @@ function EditableGradeCellComponent({
       data-max-points={maxPoints}
     >
       {displayContent()}
+      {onFetchHistory && initialValue !== null && (
+        <GradeHistoryPopover maxPoints={maxPoints} onFetchHistory={onFetchHistory} />
+      )}
     </td>
   );
 }
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { GradebookStudent, GradebookAssignment } from './types';
+import { GradebookStudent, GradebookAssignment, GradeHistoryEntry } from './types';
 import { EditableGradebookRow } from './EditableGradebookRow';
 
 /**
@@ -23,6 +23,8 @@ export interface EditableGradebookGridProps {
   ) => void;
   /** Callback when edit is cancelled */
   onCancel: () => void;
+  /** Loads a cell's grade history */
+  onFetchHistory?: (studentId: string, assignmentId: string) => Promise<GradeHistoryEntry[]>;
   isLoading?: boolean;
 }
 
@@ -41,6 +43,7 @@ export function EditableGradebookGrid({
   savingCellId,
   onGradeChangeRequest,
   onCancel,
+  onFetchHistory,
   isLoading = false,
 }: EditableGradebookGridProps) {
   // Calculate total possible points for header
@@ -210,6 +213,7 @@ export function EditableGradebookGrid({
               onCancel={onCancel}
               onTabNext={handleTabNext}
               onTabPrevious={handleTabPrevious}
+              onFetchHistory={onFetchHistory}
             />
           ))}
         </tbody>
@@ -1,7 +1,12 @@
 'use client';
 
 import React, { memo } from 'react';
-import { GradebookStudent, GradebookAssignment, GradebookCell as GradebookCellType } from './types';
+import {
+  GradebookStudent,
+  GradebookAssignment,
+  GradebookCell as GradebookCellType,
+  GradeHistoryEntry,
+} from './types';
 import { EditableGradeCell } from './EditableGradeCell';
 
 /**
@@ -27,6 +32,8 @@ export interface EditableGradebookRowProps {
   onTabNext?: (studentId: string, currentAssignmentId: string) => void;
   /** Callback for tab navigation to previous cell */
   onTabPrevious?: (studentId: string, currentAssignmentId: string) => void;
+  /** Loads a cell's grade history */
+  onFetchHistory?: (studentId: string, assignmentId: string) => Promise<GradeHistoryEntry[]>;
 }
 
 /**
@@ -46,6 +53,7 @@ function EditableGradebookRowComponent({
   onCancel,
   onTabNext,
   onTabPrevious,
+  onFetchHistory,
 }: EditableGradebookRowProps) {
   const { id, name, email, grades, totalPoints, percentage, gpa } = student;
 
@@ -111,6 +119,7 @@ function EditableGradebookRowComponent({
             }}
             onTabNext={() => onTabNext?.(id, assignment.id)}
             onTabPrevious={() => onTabPrevious?.(id, assignment.id)}
+            onFetchHistory={onFetchHistory && (() => onFetchHistory(id, assignment.id))}
           />
         );
       })}
@@ -0,0 +1,309 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X, Plus, Trash2, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { MAX_TOTAL_CATEGORY_WEIGHT } from '@/lib/grade-categories';
+
+/**
+ * Grade category as returned by the grade categories API
+ */
+interface GradeCategory {
+  id: string;
+  name: string;
+  weight: number;
+  orderIndex: number;
+  assignmentCount: number;
+}
+
+/**
+ * Props for GradeCategoryManager component
+ */
+export interface GradeCategoryManagerProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Course whose categories are managed */
+  courseId: string;
+  /** Callback after categories were created, updated or deleted */
+  onChange: () => void;
+  /** Callback when the dialog is closed */
+  onClose: () => void;
+}
+
+/**
+ * GradeCategoryManager Component
+ *
+ * Dialog for defining a course's weighted grade categories
+ * (e.g. Homework 30%, Projects 50%, Final 20%).
+ *
+ * Features:
+ * - Inline editing of category name and weight
+ * - Running total of allocated weight (max 100%)
+ * - Deleting a category leaves its assignments uncategorized
+ */
+export function GradeCategoryManager({
+  isOpen,
+  courseId,
+  onChange,
+  onClose,
+}: GradeCategoryManagerProps) {
+  const [categories, setCategories] = useState<GradeCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newWeight, setNewWeight] = useState('');
+
+  /**
+   * Fetch categories from API
+   */
+  const fetchCategories = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/grade-categories`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch grade categories');
+      }
+
+      setCategories(data.categories);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to fetch grade categories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchCategories();
+    }
+  }, [isOpen, fetchCategories]);
+
+  const allocatedWeight = categories.reduce((sum, c) => sum + c.weight, 0);
+  const remainingWeight = Math.max(0, MAX_TOTAL_CATEGORY_WEIGHT - allocatedWeight);
+
+  /**
+   * Create a new category
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const weight = parseFloat(newWeight);
+    if (!newName.trim() || isNaN(weight)) return;
+
+    setSavingId('new');
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/grade-categories`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim(), weight }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to create category');
+      }
+
+      setNewName('');
+      setNewWeight('');
+      await fetchCategories();
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create category');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  /**
+   * Save edits to an existing category
+   */
+  const handleUpdate = async (category: GradeCategory, changes: Partial<Pick<GradeCategory, 'name' | 'weight'>>) => {
+    if (
+      (changes.name === undefined || changes.name === category.name) &&
+      (changes.weight === undefined || changes.weight === category.weight)
+    ) {
+      return;
+    }
+
+    setSavingId(category.id);
+    try {
+      const response = await fetch(
+        `/api/instructor/courses/${courseId}/grade-categories/${category.id}`,
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(changes),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to update category');
+      }
+
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update category');
+    } finally {
+      await fetchCategories();
+      setSavingId(null);
+    }
+  };
+
+  /**
+   * Delete a category
+   */
+  const handleDelete = async (category: GradeCategory) => {
+    const message =
+      category.assignmentCount > 0
+        ? `Delete "${category.name}"? Its ${category.assignmentCount} assignment(s) will become uncategorized.`
+        : `Delete "${category.name}"?`;
+    if (!confirm(message)) return;
+
+    setSavingId(category.id);
+    try {
+      const response = await fetch(
+        `/api/instructor/courses/${courseId}/grade-categories/${category.id}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to delete category');
+      }
+
+      await fetchCategories();
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete category');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+
+        <Dialog.Content className="fixed left-[50%] top-[50%] z-50 grid w-full max-w-lg translate-x-[-50%] translate-y-[-50%] gap-4 border bg-white p-6 shadow-lg rounded-lg max-h-[90vh] overflow-y-auto">
+          <Dialog.Title className="text-lg font-semibold text-gray-900">
+            Grade Categories
+          </Dialog.Title>
+
+          <Dialog.Description className="text-sm text-gray-600">
+            Weight assignment groups in the course total. Uncategorized assignments share
+            the weight that is not allocated to a category.
+          </Dialog.Description>
+
+          {isLoading && categories.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-pink-500" />
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {categories.length === 0 && (
+                <li className="px-3 py-4 text-sm text-gray-500 text-center">
+                  No categories yet. All assignments count by points.
+                </li>
+              )}
+              {categories.map((category) => (
+                <li key={category.id} className="flex items-center gap-2 px-3 py-2">
+                  <input
+                    type="text"
+                    defaultValue={category.name}
+                    aria-label="Category name"
+                    disabled={savingId === category.id}
+                    onBlur={(e) => handleUpdate(category, { name: e.target.value.trim() })}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                  />
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_TOTAL_CATEGORY_WEIGHT}
+                      step="0.5"
+                      defaultValue={category.weight}
+                      aria-label="Category weight"
+                      disabled={savingId === category.id}
+                      onBlur={(e) => {
+                        const weight = parseFloat(e.target.value);
+                        if (!isNaN(weight)) handleUpdate(category, { weight });
+                      }}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-right focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                  </div>
+                  <span className="w-20 text-xs text-gray-500 text-right">
+                    {category.assignmentCount} assignment{category.assignmentCount !== 1 ? 's' : ''}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(category)}
+                    disabled={savingId === category.id}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Allocated</span>
+            <span className={allocatedWeight === MAX_TOTAL_CATEGORY_WEIGHT ? 'text-green-700 font-medium' : 'text-gray-900 font-medium'}>
+              {allocatedWeight}% of {MAX_TOTAL_CATEGORY_WEIGHT}%
+            </span>
+          </div>
+
+          {/* New category form */}
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g., Homework"
+              aria-label="New category name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+            />
+            <input
+              type="number"
+              min={0}
+              max={remainingWeight}
+              step="0.5"
+              value={newWeight}
+              onChange={(e) => setNewWeight(e.target.value)}
+              placeholder={`${remainingWeight}`}
+              aria-label="New category weight"
+              className="w-20 px-2 py-2 border border-gray-300 rounded-md text-sm text-right focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+            />
+            <span className="text-sm text-gray-500">%</span>
+            <button
+              type="submit"
+              disabled={savingId === 'new' || !newName.trim() || newWeight === ''}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-pink-600 rounded-md hover:bg-pink-700 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </button>
+          </form>
+
+          <Dialog.Close asChild>
+            <button
+              type="button"
+              onClick={onClose}
+              className="absolute right-4 top-4 rounded-sm opacity-70 transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+              aria-label="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
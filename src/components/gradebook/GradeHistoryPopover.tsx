@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { History, Loader2, X } from 'lucide-react';
+import type { GradeHistoryEntry } from './types';
+
+/**
+ * Props for GradeHistoryPopover component
+ */
+export interface GradeHistoryPopoverProps {
+  /** Maximum points for the assignment */
+  maxPoints: number;
+  /** Loads the cell's history, newest first */
+  onFetchHistory: () => Promise<GradeHistoryEntry[]>;
+}
+
+/**
+ * Format a history timestamp for display
+ */
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * GradeHistoryPopover Component
+ *
+ * Small button in a gradebook cell that opens a popover listing every change
+ * to the grade (old and new points, who made it, how and why). The history is
+ * loaded each time the popover opens so it includes the latest changes.
+ */
+export function GradeHistoryPopover({ maxPoints, onFetchHistory }: GradeHistoryPopoverProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<GradeHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadHistory = useCallback(async () => {
+    setEntries(null);
+    setError(null);
+    try {
+      setEntries(await onFetchHistory());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    }
+  }, [onFetchHistory]);
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleToggle = (e: React.MouseEvent) => {
+    // Keep the click from reaching the cell
+    e.stopPropagation();
+    if (!isOpen) loadHistory();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute top-0.5 right-0.5"
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="p-0.5 rounded text-gray-400 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Show grade history"
+        aria-expanded={isOpen}
+      >
+        <History className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute z-20 right-0 top-full mt-1 w-72 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg text-left whitespace-normal text-gray-900"
+          role="dialog"
+          aria-label="Grade history"
+        >
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+            <span className="text-sm font-semibold">Grade history</span>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="text-gray-400 hover:text-gray-700"
+              aria-label="Close grade history"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {error ? (
+            <p className="px-3 py-3 text-sm text-red-600">{error}</p>
+          ) : entries === null ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="px-3 py-3 text-sm text-gray-500">No changes recorded.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {entries.map((entry) => (
+                <li key={entry.id} className="px-3 py-2 text-xs space-y-0.5">
+                  <div className="text-sm">
+                    {entry.oldPoints ?? '—'} → <strong>{entry.newPoints}</strong>
+                    <span className="text-gray-500">/{maxPoints}</span>
+                    {entry.oldFeedback !== entry.newFeedback && (
+                      <span className="ml-1 text-gray-500">(feedback changed)</span>
+                    )}
+                  </div>
+                  <div className="text-gray-600">
+                    {entry.changedBy.name} · {entry.sourceLabel}
+                  </div>
+                  {entry.reason && <div className="text-gray-700 italic">&ldquo;{entry.reason}&rdquo;</div>}
+                  <div className="text-gray-400">{formatDate(entry.createdAt)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
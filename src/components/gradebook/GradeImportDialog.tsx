@@ -0,0 +1,189 @@
+'use client';
+
+import React from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { AlertCircle, X } from 'lucide-react';
+import type { GradebookImportPlan } from '@/lib/csv-import';
+
+/**
+ * Props for GradeImportDialog component
+ */
+export interface GradeImportDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Name of the imported file */
+  filename?: string;
+  /** Dry-run result for the imported CSV */
+  plan: GradebookImportPlan | null;
+  /** Whether the import is being applied */
+  isApplying?: boolean;
+  /** Callback when user confirms the import */
+  onConfirm: () => void;
+  /** Callback when user cancels (clicks Cancel or closes dialog) */
+  onCancel: () => void;
+}
+
+/**
+ * GradeImportDialog Component
+ *
+ * Confirmation dialog for gradebook CSV imports using Radix UI.
+ * Shows every grade the import changes (old and new values) and any errors
+ * in the file. The import can only be applied when the file has no errors.
+ */
+export function GradeImportDialog({
+  isOpen,
+  filename,
+  plan,
+  isApplying = false,
+  onConfirm,
+  onCancel,
+}: GradeImportDialogProps) {
+  const hasErrors = (plan?.errors.length ?? 0) > 0;
+  const changeCount = plan?.changes.length ?? 0;
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && !isApplying && onCancel()}>
+      <Dialog.Portal>
+        {/* Backdrop overlay */}
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+
+        {/* Dialog content */}
+        <Dialog.Content className="fixed left-[50%] top-[50%] z-50 grid w-full max-w-3xl translate-x-[-50%] translate-y-[-50%] gap-4 border bg-white p-6 shadow-lg duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95 rounded-lg max-h-[90vh] overflow-y-auto">
+          {/* Title */}
+          <Dialog.Title className="text-lg font-semibold text-gray-900">
+            Import Grades
+          </Dialog.Title>
+
+          {/* Summary */}
+          <Dialog.Description className="text-sm text-gray-600">
+            {filename && <span className="font-medium text-gray-800">{filename}: </span>}
+            {plan && (
+              <>
+                {plan.rowCount} student row{plan.rowCount !== 1 ? 's' : ''},{' '}
+                <strong className="text-blue-600">
+                  {changeCount} grade{changeCount !== 1 ? 's' : ''} to update
+                </strong>
+                , {plan.unchangedCount} unchanged.
+              </>
+            )}
+          </Dialog.Description>
+
+          {/* Errors */}
+          {plan && hasErrors && (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+                <div>
+                  <h3 className="text-sm font-medium text-red-800">
+                    Fix these errors in the file and import it again
+                  </h3>
+                  <ul className="mt-2 text-sm text-red-700 list-disc pl-5 space-y-1 max-h-40 overflow-y-auto">
+                    {plan.errors.map((error, index) => (
+                      <li key={index}>
+                        Row {error.row}
+                        {error.column && <> ({error.column})</>}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Ignored columns */}
+          {plan && plan.unmatchedColumns.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              Ignored columns that match no assignment: {plan.unmatchedColumns.join(', ')}
+            </p>
+          )}
+
+          {/* Changes */}
+          {plan && changeCount > 0 && (
+            <div className="border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Student</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-700">Assignment</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-700">Current</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-700">New</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {plan.changes.map((change) => (
+                    <tr key={`${change.studentId}-${change.assignmentId}`}>
+                      <td className="px-3 py-2 text-gray-900">
+                        {change.studentName}
+                        <div className="text-xs text-gray-500">{change.email}</div>
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">{change.assignmentTitle}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">
+                        {change.oldPoints ?? '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <strong className="text-blue-600">{change.newPoints}</strong>
+                        <span className="text-gray-500">/{change.maxPoints}</span>
+                        {change.latePenaltyPercent > 0 && (
+                          <div className="text-xs text-orange-600">
+                            {change.newGradePoints} after {change.latePenaltyPercent}% late penalty
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {plan && !hasErrors && changeCount === 0 && (
+            <p className="text-sm text-gray-600">The file does not change any grades.</p>
+          )}
+
+          {!hasErrors && changeCount > 0 && (
+            <p className="text-xs text-gray-500">
+              Imported grades score each student&apos;s submission before any late penalty, as when
+              editing a grade in the gradebook.
+            </p>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3 mt-4">
+            <Dialog.Close asChild>
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={isApplying}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </Dialog.Close>
+
+            <button
+              type="button"
+              onClick={onConfirm}
+              disabled={!plan || hasErrors || changeCount === 0 || isApplying}
+              className="px-4 py-2 text-sm font-medium text-white bg-pink-600 border border-transparent rounded-md hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 transition-colors disabled:opacity-50"
+            >
+              {isApplying ? 'Importing...' : `Update ${changeCount} grade${changeCount !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+
+          {/* Close button (X) */}
+          <Dialog.Close asChild>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isApplying}
+              className="absolute right-4 top-4 rounded-sm opacity-70 ring-offset-white transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 disabled:pointer-events-none"
+              aria-label="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
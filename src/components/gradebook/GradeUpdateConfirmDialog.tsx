@@ -23,8 +23,10 @@ export interface GradeUpdateConfirmDialogProps {
   assignmentTitle?: string;
   /** Existing feedback (if editing) */
   existingFeedback?: string | null;
+  /** Group the graded attempt was submitted for, on group assignments */
+  groupName?: string | null;
   /** Callback when user confirms (clicks Yes) */
-  onConfirm: (feedback?: string) => void;
+  onConfirm: (feedback?: string, reason?: string, applyToGroup?: boolean) => void;
   /** Callback when user cancels (clicks Cancel or closes dialog) */
   onCancel: () => void;
 }
@@ -34,7 +36,9 @@ export interface GradeUpdateConfirmDialogProps {
  *
  * Confirmation dialog for grade updates using Radix UI.
  * Shows old and new values and requires explicit confirmation.
- * Includes feedback input field with template selector.
+ * Includes feedback input field with template selector, and a reason field
+ * (recorded in the grade history) when an existing grade is changed.
+ * For a group submission, the grade can be applied to every group member.
  *
  * Features:
  * - Accessible with proper ARIA labels
@@ -55,16 +59,21 @@ export function GradeUpdateConfirmDialog({
   studentName,
   assignmentTitle,
   existingFeedback,
+  groupName,
   onConfirm,
   onCancel,
 }: GradeUpdateConfirmDialogProps) {
   const confirmButtonRef = useRef<HTMLButtonElement>(null);
   const [feedback, setFeedback] = useState<string>(existingFeedback || '');
+  const [reason, setReason] = useState('');
+  const [applyToGroup, setApplyToGroup] = useState(true);
 
   // Reset feedback when dialog opens/closes or when existingFeedback changes
   useEffect(() => {
     if (isOpen) {
       setFeedback(existingFeedback || '');
+      setReason('');
+      setApplyToGroup(true);
     }
   }, [isOpen, existingFeedback]);
 
@@ -83,8 +92,8 @@ export function GradeUpdateConfirmDialog({
    * Handle confirm action
    */
   const handleConfirm = useCallback(() => {
-    onConfirm(feedback || undefined);
-  }, [onConfirm, feedback]);
+    onConfirm(feedback || undefined, reason.trim() || undefined, Boolean(groupName) && applyToGroup);
+  }, [onConfirm, feedback, reason, groupName, applyToGroup]);
 
   /**
    * Handle cancel action
@@ -192,6 +201,44 @@ export function GradeUpdateConfirmDialog({
             </p>
           </div>
 
+          {/* Group grade or per-member override */}
+          {groupName && (
+            <div className="flex items-start gap-2">
+              <input
+                id="apply-to-group"
+                type="checkbox"
+                checked={applyToGroup}
+                onChange={(e) => setApplyToGroup(e.target.checked)}
+                className="mt-0.5 h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+              />
+              <label htmlFor="apply-to-group" className="text-sm text-gray-700">
+                Apply to every member of <strong>{groupName}</strong>
+                <span className="block text-xs text-gray-500">
+                  Uncheck to override this student&apos;s grade only
+                </span>
+              </label>
+            </div>
+          )}
+
+          {/* Reason for changing an existing grade */}
+          {oldGrade !== null && (
+            <div className="space-y-1">
+              <label htmlFor="grade-change-reason" className="block text-sm font-medium text-gray-700">
+                Reason for change (optional)
+              </label>
+              <input
+                id="grade-change-reason"
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500 text-sm"
+                placeholder="e.g. Regrade request accepted"
+              />
+              <p className="text-xs text-gray-500">Recorded in the grade history</p>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end gap-3 mt-4">
             <Dialog.Close asChild>
@@ -4,6 +4,7 @@
  * Provides filtering controls for the gradebook:
  * - Student name search with real-time debounced filtering
  * - Assignment dropdown filter
+ * - Section dropdown filter (when the course has sections)
  * - Date range picker for assignment due dates
  * - Grade status filter
  * - Clear all filters button
@@ -16,7 +17,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Search, X, Calendar, Filter } from 'lucide-react';
 import { useDebouncedValue } from '@/hooks/useDebouncedValue';
-import { GradebookAssignment, CellStatus } from './types';
+import { GradebookAssignment, GradebookSection, CellStatus } from './types';
 import toast from 'react-hot-toast';
 
 /**
@@ -25,6 +26,7 @@ import toast from 'react-hot-toast';
 export interface GradebookFilterState {
   studentFilter: string;
   assignmentId: string | null;
+  sectionId: string | null;
   dateFrom: string | null;
   dateTo: string | null;
   status: 'all' | CellStatus;
@@ -36,6 +38,7 @@ export interface GradebookFilterState {
 export const defaultFilters: GradebookFilterState = {
   studentFilter: '',
   assignmentId: null,
+  sectionId: null,
   dateFrom: null,
   dateTo: null,
   status: 'all',
@@ -62,6 +65,8 @@ export interface GradebookFiltersProps {
   onFilterChange: (filters: GradebookFilterState) => void;
   /** Available assignments for dropdown */
   assignments: GradebookAssignment[];
+  /** Course sections for dropdown; hidden when empty */
+  sections?: GradebookSection[];
   /** Whether filters are currently being applied (loading state) */
   isLoading?: boolean;
 }
@@ -72,6 +77,7 @@ export interface GradebookFiltersProps {
  * Renders filter controls for the gradebook grid with:
  * - Debounced student name search (300ms)
  * - Assignment dropdown
+ * - Section dropdown
  * - Date range picker with validation
  * - Status dropdown
  * - Clear all button
@@ -80,6 +86,7 @@ export function GradebookFilters({
   filters,
   onFilterChange,
   assignments,
+  sections = [],
   isLoading = false,
 }: GradebookFiltersProps) {
   // Local state for student input (immediate update for UI responsiveness)
@@ -134,6 +141,20 @@ export function GradebookFilters({
     [filters, onFilterChange]
   );
 
+  /**
+   * Handle section filter change
+   */
+  const handleSectionChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const value = e.target.value;
+      onFilterChange({
+        ...filters,
+        sectionId: value === 'all' ? null : value,
+      });
+    },
+    [filters, onFilterChange]
+  );
+
   /**
    * Handle date range change with validation
    */
@@ -185,6 +206,7 @@ export function GradebookFilters({
   const hasActiveFilters =
     filters.studentFilter !== '' ||
     filters.assignmentId !== null ||
+    filters.sectionId !== null ||
     filters.dateFrom !== null ||
     filters.dateTo !== null ||
     filters.status !== 'all';
@@ -201,7 +223,11 @@ export function GradebookFilters({
         )}
       </div>
 
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+      <div
+        className={`grid grid-cols-1 sm:grid-cols-2 gap-4 ${
+          sections.length > 0 ? 'lg:grid-cols-6' : 'lg:grid-cols-5'
+        }`}
+      >
         {/* Student Name Search */}
         <div className="relative">
           <label htmlFor="studentFilter" className="sr-only">
@@ -252,6 +278,29 @@ export function GradebookFilters({
           </select>
         </div>
 
+        {/* Section Filter */}
+        {sections.length > 0 && (
+          <div>
+            <label htmlFor="sectionFilter" className="sr-only">
+              Filter by section
+            </label>
+            <select
+              id="sectionFilter"
+              value={filters.sectionId || 'all'}
+              onChange={handleSectionChange}
+              className="w-full py-2 px-3 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+              disabled={isLoading}
+            >
+              <option value="all">All Sections</option>
+              {sections.map((section) => (
+                <option key={section.id} value={section.id}>
+                  {section.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Date Range - From */}
         <div>
           <label htmlFor="dateFrom" className="sr-only">
@@ -18,8 +18,14 @@ export { EditableGradebookGrid } from './EditableGradebookGrid';
 export type { EditableGradebookGridProps } from './EditableGradebookGrid';
 export { GradeUpdateConfirmDialog } from './GradeUpdateConfirmDialog';
 export type { GradeUpdateConfirmDialogProps } from './GradeUpdateConfirmDialog';
+export { GradeImportDialog } from './GradeImportDialog';
+export type { GradeImportDialogProps } from './GradeImportDialog';
+export { GradeHistoryPopover } from './GradeHistoryPopover';
+export type { GradeHistoryPopoverProps } from './GradeHistoryPopover';
 export { GradebookFilters, defaultFilters } from './GradebookFilters';
 export type { GradebookFiltersProps, GradebookFilterState } from './GradebookFilters';
 export { FeedbackTemplateSelector } from './FeedbackTemplateSelector';
 export type { FeedbackTemplateSelectorProps } from './FeedbackTemplateSelector';
+export { GradeCategoryManager } from './GradeCategoryManager';
+export type { GradeCategoryManagerProps } from './GradeCategoryManager';
 export * from './types';
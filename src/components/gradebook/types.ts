@@ -20,6 +20,8 @@ export interface GradebookCell {
   score: number | null;
   status: CellStatus;
   submissionId: string | null;
+  /** Group the displayed attempt was submitted for, on group assignments */
+  groupId?: string | null;
 }
 
 /**
@@ -43,6 +45,33 @@ export interface GradebookAssignment {
   title: string;
   maxPoints: number;
   dueDate: Date | string | null;
+  categoryId?: string | null;
+  isGroupAssignment?: boolean;
+}
+
+/**
+ * Grade category used to weight assignment columns
+ */
+export interface GradebookCategory {
+  id: string;
+  name: string;
+  weight: number;
+}
+
+/**
+ * Course section the gradebook can be filtered by
+ */
+export interface GradebookSection {
+  id: string;
+  name: string;
+}
+
+/**
+ * Student group whose members can be graded together
+ */
+export interface GradebookGroup {
+  id: string;
+  name: string;
 }
 
 /**
@@ -51,11 +80,33 @@ export interface GradebookAssignment {
 export interface GradebookMatrix {
   students: GradebookStudent[];
   assignments: GradebookAssignment[];
+  categories: GradebookCategory[];
+  sections: GradebookSection[];
+  groups: GradebookGroup[];
   courseId: string;
   courseTitle: string;
   courseCode: string;
 }
 
+/**
+ * A recorded change to a student's grade
+ */
+export interface GradeHistoryEntry {
+  id: string;
+  oldPoints: number | null;
+  newPoints: number;
+  oldFeedback: string | null;
+  newFeedback: string | null;
+  sourceLabel: string;
+  reason: string | null;
+  createdAt: string;
+  changedBy: {
+    id: string;
+    name: string;
+    role: string;
+  };
+}
+
 /**
  * Props for GradebookGrid component
  */
@@ -0,0 +1,231 @@
+/**
+ * AccommodationsPanel Component
+ *
+ * Lists and grants course-wide time accommodations (e.g. "+50% time on
+ * everything"). Shown on the Students tab of the instructor course page.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Trash2, Clock } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface Accommodation {
+  id: string
+  extraTimePercent: number
+  extraHours: number
+  reason: string | null
+  student: {
+    id: string
+    name: string
+    surname: string
+    email: string
+  }
+}
+
+interface AccommodationsPanelProps {
+  courseId: string
+  students: Array<{ id: string; name: string; email: string }>
+}
+
+function describeAccommodation(accommodation: Accommodation): string {
+  const parts: string[] = []
+  if (accommodation.extraTimePercent > 0) parts.push(`+${accommodation.extraTimePercent}% time`)
+  if (accommodation.extraHours > 0) parts.push(`+${accommodation.extraHours}h`)
+  return parts.join(', ')
+}
+
+export default function AccommodationsPanel({ courseId, students }: AccommodationsPanelProps) {
+  const [accommodations, setAccommodations] = useState<Accommodation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [studentId, setStudentId] = useState('')
+  const [extraTimePercent, setExtraTimePercent] = useState(50)
+  const [extraHours, setExtraHours] = useState(0)
+  const [reason, setReason] = useState('')
+
+  const fetchAccommodations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/accommodations`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch accommodations')
+      }
+
+      setAccommodations(data.accommodations)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch accommodations')
+    } finally {
+      setLoading(false)
+    }
+  }, [courseId])
+
+  useEffect(() => {
+    fetchAccommodations()
+  }, [fetchAccommodations])
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!studentId) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/accommodations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ studentId, extraTimePercent, extraHours, reason: reason || null }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to save accommodation')
+      }
+
+      toast.success('Accommodation saved')
+      setStudentId('')
+      setReason('')
+      await fetchAccommodations()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save accommodation')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (accommodation: Accommodation) => {
+    if (!confirm(`Remove the accommodation for ${accommodation.student.name} ${accommodation.student.surname}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/instructor/courses/${courseId}/accommodations/${accommodation.id}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error?.message || 'Failed to remove accommodation')
+      }
+
+      toast.success('Accommodation removed')
+      setAccommodations((prev) => prev.filter((a) => a.id !== accommodation.id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove accommodation')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Accommodations</h3>
+        <p className="text-sm text-gray-500">
+          Extra time applied to every assignment in this course. Per-assignment extensions take precedence.
+        </p>
+      </div>
+
+      <form onSubmit={handleGrant} className="grid grid-cols-1 gap-4 sm:grid-cols-5 items-end">
+        <div className="sm:col-span-2">
+          <label htmlFor="accommodationStudent" className="block text-sm font-medium text-gray-700">
+            Student
+          </label>
+          <select
+            id="accommodationStudent"
+            value={studentId}
+            onChange={(e) => setStudentId(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">Select a student</option>
+            {students.map((student) => (
+              <option key={student.id} value={student.id}>
+                {student.name} ({student.email})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="extraTimePercent" className="block text-sm font-medium text-gray-700">
+            Extra Time (%)
+          </label>
+          <input
+            type="number"
+            id="extraTimePercent"
+            min="0"
+            max="300"
+            value={extraTimePercent}
+            onChange={(e) => setExtraTimePercent(parseFloat(e.target.value) || 0)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="extraHours" className="block text-sm font-medium text-gray-700">
+            Extra Hours
+          </label>
+          <input
+            type="number"
+            id="extraHours"
+            min="0"
+            max="720"
+            value={extraHours}
+            onChange={(e) => setExtraHours(parseInt(e.target.value) || 0)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !studentId}
+          className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Clock className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <div className="sm:col-span-5">
+          <label htmlFor="accommodationReason" className="block text-sm font-medium text-gray-700">
+            Reason (Optional)
+          </label>
+          <input
+            type="text"
+            id="accommodationReason"
+            value={reason}
+            maxLength={500}
+            onChange={(e) => setReason(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : accommodations.length === 0 ? (
+        <p className="text-gray-500">No accommodations granted.</p>
+      ) : (
+        <div className="space-y-3">
+          {accommodations.map((accommodation) => (
+            <div key={accommodation.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div>
+                <h4 className="font-medium text-gray-900">
+                  {accommodation.student.name} {accommodation.student.surname}
+                </h4>
+                <p className="text-sm text-gray-500">
+                  {describeAccommodation(accommodation)}
+                  {accommodation.reason && ` · ${accommodation.reason}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(accommodation)}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label={`Remove accommodation for ${accommodation.student.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
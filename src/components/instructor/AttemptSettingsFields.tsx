@@ -0,0 +1,85 @@
+/**
+ * AttemptSettingsFields Component
+ *
+ * Form fields for how many attempts an assignment accepts and which attempt
+ * is graded, shared by the create and edit assignment pages.
+ */
+
+'use client'
+
+import type { GradedAttemptPolicy } from '@prisma/client'
+
+/**
+ * Attempt settings form values (0 attempts = unlimited)
+ */
+export interface AttemptSettingsFormValues {
+  maxAttempts: number
+  gradedAttemptPolicy: GradedAttemptPolicy
+}
+
+export const defaultAttemptSettingsValues: AttemptSettingsFormValues = {
+  maxAttempts: 1,
+  gradedAttemptPolicy: 'LATEST',
+}
+
+interface AttemptSettingsFieldsProps {
+  value: AttemptSettingsFormValues
+  onChange: (value: AttemptSettingsFormValues) => void
+}
+
+const POLICY_OPTIONS: { value: GradedAttemptPolicy; label: string }[] = [
+  { value: 'LATEST', label: 'Latest graded attempt' },
+  { value: 'HIGHEST', label: 'Highest-scoring attempt' },
+  { value: 'MANUAL', label: 'Chosen by the instructor' },
+]
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm'
+
+export default function AttemptSettingsFields({ value, onChange }: AttemptSettingsFieldsProps) {
+  const update = (changes: Partial<AttemptSettingsFormValues>) => onChange({ ...value, ...changes })
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Attempts</legend>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="maxAttempts" className="block text-sm font-medium text-gray-700">
+            Allowed Attempts
+          </label>
+          <input
+            type="number"
+            id="maxAttempts"
+            min="0"
+            max="100"
+            value={value.maxAttempts}
+            onChange={(e) => update({ maxAttempts: parseInt(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500">Use 0 for unlimited attempts.</p>
+        </div>
+
+        {value.maxAttempts !== 1 && (
+          <div>
+            <label htmlFor="gradedAttemptPolicy" className="block text-sm font-medium text-gray-700">
+              Attempt That Counts
+            </label>
+            <select
+              id="gradedAttemptPolicy"
+              value={value.gradedAttemptPolicy}
+              onChange={(e) => update({ gradedAttemptPolicy: e.target.value as GradedAttemptPolicy })}
+              className={inputClassName}
+            >
+              {POLICY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </fieldset>
+  )
+}
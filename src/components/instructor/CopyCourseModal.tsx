@@ -0,0 +1,268 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { X, Loader2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+const SEMESTERS = ['Spring', 'Summer', 'Fall', 'Winter']
+
+interface CopyCourseModalProps {
+  isOpen: boolean
+  course: {
+    id: string
+    title: string
+    code: string
+    semester: string
+    year: number
+  }
+  onClose: () => void
+  /** Called with the id of the new course */
+  onCopied: (courseId: string) => void
+}
+
+interface CopyFormData {
+  title: string
+  code: string
+  semester: string
+  year: string
+  dateOffsetDays: string
+}
+
+/** The term after the given one, in Spring → Summer → Fall → Winter order */
+function nextTerm(semester: string, year: number): { semester: string; year: number } {
+  const index = SEMESTERS.indexOf(semester)
+  if (index === -1) return { semester, year: year + 1 }
+  if (index === SEMESTERS.length - 1) return { semester: SEMESTERS[0], year: year + 1 }
+  return { semester: SEMESTERS[index + 1], year }
+}
+
+/**
+ * Copy a course into a new term
+ *
+ * Modules, content, assignments, discussions and feedback templates are
+ * copied; enrollments, submissions and grades are not.
+ */
+export default function CopyCourseModal({ isOpen, course, onClose, onCopied }: CopyCourseModalProps) {
+  const [formData, setFormData] = useState<CopyFormData>({
+    title: '',
+    code: '',
+    semester: '',
+    year: '',
+    dateOffsetDays: '0',
+  })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [apiError, setApiError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      const term = nextTerm(course.semester, course.year)
+      setFormData({
+        title: course.title,
+        code: '',
+        semester: term.semester,
+        year: term.year.toString(),
+        dateOffsetDays: '0',
+      })
+      setApiError(null)
+    }
+  }, [isOpen, course])
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFormData((prev) => ({ ...prev, [name]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setApiError(null)
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${course.id}/copy`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: formData.title.trim(),
+          code: formData.code.trim(),
+          semester: formData.semester,
+          year: Number(formData.year),
+          dateOffsetDays: Number(formData.dateOffsetDays || 0),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to copy course')
+      }
+
+      toast.success(
+        `Course copied: ${data.summary.modules} modules, ${data.summary.assignments} assignments, ${data.summary.discussions} discussions`
+      )
+      onCopied(data.id)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'An error occurred'
+      setApiError(message)
+      toast.error(message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
+
+        <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-md max-h-[90vh] overflow-y-auto translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95">
+          <Dialog.Title className="text-lg font-semibold text-gray-900 mb-1">
+            Copy Course
+          </Dialog.Title>
+          <Dialog.Description className="text-sm text-gray-500 mb-4">
+            Modules, content, assignments, discussions and feedback templates are copied into a
+            new course. Enrollments, submissions and grades are not.
+          </Dialog.Description>
+
+          {apiError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-600">
+              {apiError}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="copy-title" className="block text-sm font-medium text-gray-700 mb-1">
+                Title <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="copy-title"
+                name="title"
+                type="text"
+                required
+                maxLength={200}
+                value={formData.title}
+                onChange={handleChange}
+                className={inputClassName}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="copy-code" className="block text-sm font-medium text-gray-700 mb-1">
+                New course code <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="copy-code"
+                name="code"
+                type="text"
+                required
+                placeholder={`e.g., ${course.code}`}
+                value={formData.code}
+                onChange={handleChange}
+                className={inputClassName}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="copy-semester" className="block text-sm font-medium text-gray-700 mb-1">
+                  Semester <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="copy-semester"
+                  name="semester"
+                  required
+                  value={formData.semester}
+                  onChange={handleChange}
+                  className={inputClassName}
+                  disabled={isSubmitting}
+                >
+                  {SEMESTERS.map((semester) => (
+                    <option key={semester} value={semester}>
+                      {semester}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="copy-year" className="block text-sm font-medium text-gray-700 mb-1">
+                  Year <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="copy-year"
+                  name="year"
+                  type="number"
+                  required
+                  min="2020"
+                  max="2100"
+                  value={formData.year}
+                  onChange={handleChange}
+                  className={inputClassName}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="copy-offset" className="block text-sm font-medium text-gray-700 mb-1">
+                Shift dates by (days)
+              </label>
+              <input
+                id="copy-offset"
+                name="dateOffsetDays"
+                type="number"
+                step="1"
+                min="-3650"
+                max="3650"
+                value={formData.dateOffsetDays}
+                onChange={handleChange}
+                className={inputClassName}
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Due dates, publish schedules and unlock dates move by this many days, e.g. 112 for
+                sixteen weeks later.
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                disabled={isSubmitting}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                disabled={isSubmitting}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Copy Course
+              </button>
+            </div>
+          </form>
+
+          <Dialog.Close asChild>
+            <button
+              type="button"
+              onClick={onClose}
+              className="absolute right-4 top-4 rounded-sm opacity-70 ring-offset-white transition-opacity hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2"
+              aria-label="Close"
+              disabled={isSubmitting}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </Dialog.Close>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,233 @@
+/**
+ * ExtensionsPanel Component
+ *
+ * Lists and grants per-student due date extensions for one assignment.
+ * Shown as a tab on the instructor assignment page.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Trash2, CalendarPlus } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface Extension {
+  id: string
+  dueDate: string
+  reason: string | null
+  student: {
+    id: string
+    name: string
+    surname: string
+    email: string
+  }
+}
+
+interface EnrolledStudent {
+  id: string
+  name: string
+  email: string
+}
+
+interface ExtensionsPanelProps {
+  assignmentId: string
+  courseId: string
+  /** The assignment's regular due date */
+  dueDate: string | null
+}
+
+export default function ExtensionsPanel({ assignmentId, courseId, dueDate }: ExtensionsPanelProps) {
+  const [extensions, setExtensions] = useState<Extension[]>([])
+  const [students, setStudents] = useState<EnrolledStudent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [studentId, setStudentId] = useState('')
+  const [newDueDate, setNewDueDate] = useState('')
+  const [reason, setReason] = useState('')
+
+  const fetchExtensions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/instructor/assignments/${assignmentId}/extensions`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch extensions')
+      }
+
+      setExtensions(data.extensions)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch extensions')
+    } finally {
+      setLoading(false)
+    }
+  }, [assignmentId])
+
+  useEffect(() => {
+    fetchExtensions()
+  }, [fetchExtensions])
+
+  useEffect(() => {
+    const fetchStudents = async () => {
+      const response = await fetch(`/api/instructor/courses/${courseId}/enrollments`)
+      if (response.ok) {
+        const enrollments: Array<{ user: EnrolledStudent }> = await response.json()
+        setStudents(enrollments.map((enrollment) => enrollment.user))
+      }
+    }
+
+    fetchStudents().catch((error) => console.error('Error fetching students:', error))
+  }, [courseId])
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!studentId || !newDueDate) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/instructor/assignments/${assignmentId}/extensions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          studentId,
+          dueDate: new Date(newDueDate).toISOString(),
+          reason: reason || null,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to grant extension')
+      }
+
+      toast.success('Extension granted')
+      setStudentId('')
+      setNewDueDate('')
+      setReason('')
+      await fetchExtensions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to grant extension')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (extension: Extension) => {
+    if (!confirm(`Revoke the extension for ${extension.student.name} ${extension.student.surname}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/instructor/assignments/${assignmentId}/extensions/${extension.id}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error?.message || 'Failed to revoke extension')
+      }
+
+      toast.success('Extension revoked')
+      setExtensions((prev) => prev.filter((e) => e.id !== extension.id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke extension')
+    }
+  }
+
+  if (!dueDate) {
+    return (
+      <p className="text-gray-500">
+        This assignment has no due date, so there is nothing to extend.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleGrant} className="grid grid-cols-1 gap-4 sm:grid-cols-4 items-end">
+        <div className="sm:col-span-1">
+          <label htmlFor="extensionStudent" className="block text-sm font-medium text-gray-700">
+            Student
+          </label>
+          <select
+            id="extensionStudent"
+            value={studentId}
+            onChange={(e) => setStudentId(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">Select a student</option>
+            {students.map((student) => (
+              <option key={student.id} value={student.id}>
+                {student.name} ({student.email})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="extensionDueDate" className="block text-sm font-medium text-gray-700">
+            New Due Date
+          </label>
+          <input
+            type="datetime-local"
+            id="extensionDueDate"
+            value={newDueDate}
+            onChange={(e) => setNewDueDate(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="extensionReason" className="block text-sm font-medium text-gray-700">
+            Reason (Optional)
+          </label>
+          <input
+            type="text"
+            id="extensionReason"
+            value={reason}
+            maxLength={500}
+            onChange={(e) => setReason(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !studentId || !newDueDate}
+          className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          {saving ? 'Granting...' : 'Grant Extension'}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : extensions.length === 0 ? (
+        <p className="text-gray-500">No extensions granted.</p>
+      ) : (
+        <div className="space-y-3">
+          {extensions.map((extension) => (
+            <div key={extension.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div>
+                <h4 className="font-medium text-gray-900">
+                  {extension.student.name} {extension.student.surname}
+                </h4>
+                <p className="text-sm text-gray-500">
+                  Due {new Date(extension.dueDate).toLocaleString()}
+                  {extension.reason && ` · ${extension.reason}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(extension)}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label={`Revoke extension for ${extension.student.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+/**
+ * GroupsPanel Component
+ *
+ * Creates student groups by hand or automatically and edits their members.
+ * Groups are used by group assignments. Shown on the Students tab of the
+ * instructor course page.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Trash2, Pencil, Plus, Shuffle, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface GroupMember {
+  id: string
+  name: string
+  surname: string
+  email: string
+}
+
+interface Group {
+  id: string
+  name: string
+  members: GroupMember[]
+}
+
+interface GroupsPanelProps {
+  courseId: string
+}
+
+export default function GroupsPanel({ courseId }: GroupsPanelProps) {
+  const [groups, setGroups] = useState<Group[]>([])
+  const [ungrouped, setUngrouped] = useState<GroupMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [groupSize, setGroupSize] = useState(4)
+  const [replaceExisting, setReplaceExisting] = useState(false)
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/groups`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch groups')
+      }
+
+      setGroups(data.groups)
+      setUngrouped(data.ungroupedStudents)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch groups')
+    } finally {
+      setLoading(false)
+    }
+  }, [courseId])
+
+  useEffect(() => {
+    fetchGroups()
+  }, [fetchGroups])
+
+  const updateGroup = async (group: Group, body: { name?: string; studentIds?: string[] }) => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/groups/${group.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to update group')
+      }
+
+      await fetchGroups()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update group')
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/groups`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to create group')
+      }
+
+      toast.success('Group created')
+      setName('')
+      await fetchGroups()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create group')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAutoGroup = async () => {
+    if (replaceExisting && groups.length > 0 && !confirm('Delete the existing groups and regroup every student?')) {
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/groups/auto`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ groupSize, replaceExisting }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to create groups')
+      }
+
+      toast.success(`Placed ${data.studentCount} students in ${data.groupCount} groups`)
+      setReplaceExisting(false)
+      await fetchGroups()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create groups')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRename = async (group: Group) => {
+    const newName = prompt('Group name', group.name)?.trim()
+    if (!newName || newName === group.name) return
+
+    await updateGroup(group, { name: newName })
+  }
+
+  const handleDelete = async (group: Group) => {
+    if (!confirm(`Delete ${group.name}? Submissions already made for it are kept.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/groups/${group.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error?.message || 'Failed to delete group')
+      }
+
+      toast.success('Group deleted')
+      await fetchGroups()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete group')
+    }
+  }
+
+  const memberIds = (group: Group) => group.members.map((member) => member.id)
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Groups</h3>
+        <p className="text-sm text-gray-500">
+          On group assignments one member submits for the group, and grades can be applied to every member.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <form onSubmit={handleCreate} className="flex gap-3 items-end">
+          <div className="flex-1">
+            <label htmlFor="groupName" className="block text-sm font-medium text-gray-700">
+              New Group
+            </label>
+            <input
+              type="text"
+              id="groupName"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Group
+          </button>
+        </form>
+
+        <div className="flex gap-3 items-end">
+          <div>
+            <label htmlFor="groupSize" className="block text-sm font-medium text-gray-700">
+              Group Size
+            </label>
+            <input
+              type="number"
+              id="groupSize"
+              min="2"
+              max="100"
+              value={groupSize}
+              onChange={(e) => setGroupSize(parseInt(e.target.value) || 2)}
+              className="mt-1 block w-20 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <label className="flex items-center text-sm text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={replaceExisting}
+              onChange={(e) => setReplaceExisting(e.target.checked)}
+              className="h-4 w-4 mr-2 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            Regroup everyone
+          </label>
+          <button
+            type="button"
+            onClick={handleAutoGroup}
+            disabled={saving || groupSize < 2}
+            className="inline-flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Shuffle className="h-4 w-4 mr-2" />
+            Auto-Group
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-gray-500">No groups yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          {groups.map((group) => (
+            <div key={group.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-gray-900">
+                  {group.name} <span className="text-sm font-normal text-gray-500">({group.members.length})</span>
+                </h4>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => handleRename(group)}
+                    className="p-2 text-gray-400 hover:text-blue-600"
+                    aria-label={`Rename ${group.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(group)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${group.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              <ul className="mt-2 space-y-1">
+                {group.members.map((member) => (
+                  <li key={member.id} className="flex items-center justify-between text-sm text-gray-700">
+                    {member.name} {member.surname}
+                    <button
+                      onClick={() =>
+                        updateGroup(group, { studentIds: memberIds(group).filter((id) => id !== member.id) })
+                      }
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label={`Remove ${member.name} from ${group.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {ungrouped.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) =>
+                    e.target.value && updateGroup(group, { studentIds: [...memberIds(group), e.target.value] })
+                  }
+                  aria-label={`Add a student to ${group.name}`}
+                  className="mt-2 w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Add a student...</option>
+                  {ungrouped.map((student) => (
+                    <option key={student.id} value={student.id}>
+                      {student.name} {student.surname}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!loading && groups.length > 0 && ungrouped.length > 0 && (
+        <p className="text-sm text-gray-500">
+          Not in a group: {ungrouped.map((student) => `${student.name} ${student.surname}`).join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
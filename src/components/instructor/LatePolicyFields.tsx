@@ -0,0 +1,137 @@
+/**
+ * LatePolicyFields Component
+ *
+ * Form fields for an assignment's late submission policy, shared by the
+ * create and edit assignment pages.
+ */
+
+'use client'
+
+import type { LatePolicyType } from '@prisma/client'
+
+/**
+ * Late policy form values (cutoff in datetime-local format)
+ */
+export interface LatePolicyFormValues {
+  latePolicy: LatePolicyType
+  lateGraceMinutes: number
+  latePenaltyPerDay: number
+  lateCutoffAt: string
+}
+
+export const defaultLatePolicyValues: LatePolicyFormValues = {
+  latePolicy: 'REJECT',
+  lateGraceMinutes: 0,
+  latePenaltyPerDay: 0,
+  lateCutoffAt: '',
+}
+
+interface LatePolicyFieldsProps {
+  value: LatePolicyFormValues
+  onChange: (value: LatePolicyFormValues) => void
+}
+
+const POLICY_OPTIONS: { value: LatePolicyType; label: string }[] = [
+  { value: 'REJECT', label: 'Do not accept late submissions' },
+  { value: 'ACCEPT_FLAGGED', label: 'Accept and mark as late' },
+  { value: 'DEDUCT', label: 'Accept with a penalty per day late' },
+]
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm'
+
+export default function LatePolicyFields({ value, onChange }: LatePolicyFieldsProps) {
+  const update = (changes: Partial<LatePolicyFormValues>) => onChange({ ...value, ...changes })
+
+  return (
+    <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+      <legend className="px-1 text-sm font-medium text-gray-700">Late Submissions</legend>
+
+      <div>
+        <label htmlFor="latePolicy" className="block text-sm font-medium text-gray-700">
+          Policy
+        </label>
+        <select
+          id="latePolicy"
+          value={value.latePolicy}
+          onChange={(e) => update({ latePolicy: e.target.value as LatePolicyType })}
+          className={inputClassName}
+        >
+          {POLICY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="lateGraceMinutes" className="block text-sm font-medium text-gray-700">
+            Grace Period (minutes)
+          </label>
+          <input
+            type="number"
+            id="lateGraceMinutes"
+            min="0"
+            max="10080"
+            value={value.lateGraceMinutes}
+            onChange={(e) => update({ lateGraceMinutes: parseInt(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </div>
+
+        {value.latePolicy === 'DEDUCT' && (
+          <div>
+            <label htmlFor="latePenaltyPerDay" className="block text-sm font-medium text-gray-700">
+              Penalty per Day (%)
+            </label>
+            <input
+              type="number"
+              id="latePenaltyPerDay"
+              min="0"
+              max="100"
+              step="0.5"
+              value={value.latePenaltyPerDay}
+              onChange={(e) => update({ latePenaltyPerDay: parseFloat(e.target.value) || 0 })}
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {value.latePolicy !== 'REJECT' && (
+        <div>
+          <label htmlFor="lateCutoffAt" className="block text-sm font-medium text-gray-700">
+            Hard Cutoff (Optional)
+          </label>
+          <input
+            type="datetime-local"
+            id="lateCutoffAt"
+            value={value.lateCutoffAt}
+            onChange={(e) => update({ lateCutoffAt: e.target.value })}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            No submissions are accepted after this date.
+          </p>
+        </div>
+      )}
+    </fieldset>
+  )
+}
+
+/**
+ * Convert form values into the late policy fields of an assignment request body
+ */
+export function toLatePolicyPayload(value: LatePolicyFormValues) {
+  return {
+    latePolicy: value.latePolicy,
+    lateGraceMinutes: value.lateGraceMinutes,
+    latePenaltyPerDay: value.latePolicy === 'DEDUCT' ? value.latePenaltyPerDay : 0,
+    lateCutoffAt:
+      value.latePolicy !== 'REJECT' && value.lateCutoffAt
+        ? new Date(value.lateCutoffAt).toISOString()
+        : null,
+  }
+}
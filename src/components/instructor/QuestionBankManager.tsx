@@ -0,0 +1,688 @@
+/**
+ * QuestionBankManager Component
+ *
+ * Interface for managing an instructor's quiz question banks:
+ * - List banks with their questions and the quizzes that use them
+ * - Create and edit banks (multiple choice, multi-select, true/false,
+ *   numeric and short answer questions)
+ * - Delete banks that no quiz uses
+ *
+ * Saving a bank's questions replaces them; attempts already submitted keep
+ * the questions they were graded against.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { X, Plus, Pencil, Trash2, Loader2, ListChecks } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+type QuestionType = 'MULTIPLE_CHOICE' | 'MULTI_SELECT' | 'TRUE_FALSE' | 'NUMERIC' | 'SHORT_ANSWER'
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  MULTIPLE_CHOICE: 'Multiple choice',
+  MULTI_SELECT: 'Multi-select',
+  TRUE_FALSE: 'True / false',
+  NUMERIC: 'Numeric',
+  SHORT_ANSWER: 'Short answer',
+}
+
+interface QuizQuestion {
+  id: string
+  type: QuestionType
+  prompt: string
+  points: number
+  options: Array<{ id: string; text: string; isCorrect: boolean }>
+  numericAnswer: number | null
+  numericTolerance: number | null
+  acceptedAnswers: string[]
+  caseSensitive: boolean
+}
+
+interface QuestionBank {
+  id: string
+  name: string
+  description: string | null
+  questions: QuizQuestion[]
+  quizCount: number
+}
+
+interface QuestionFormData {
+  type: QuestionType
+  prompt: string
+  points: string
+  options: Array<{ text: string; isCorrect: boolean }>
+  trueFalseAnswer: boolean
+  numericAnswer: string
+  numericTolerance: string
+  acceptedAnswers: string
+  caseSensitive: boolean
+}
+
+interface BankFormData {
+  name: string
+  description: string
+  questions: QuestionFormData[]
+}
+
+const newQuestion = (): QuestionFormData => ({
+  type: 'MULTIPLE_CHOICE',
+  prompt: '',
+  points: '1',
+  options: [
+    { text: '', isCorrect: true },
+    { text: '', isCorrect: false },
+  ],
+  trueFalseAnswer: true,
+  numericAnswer: '',
+  numericTolerance: '0',
+  acceptedAnswers: '',
+  caseSensitive: false,
+})
+
+const initialFormData = (): BankFormData => ({
+  name: '',
+  description: '',
+  questions: [newQuestion()],
+})
+
+const toQuestionFormData = (question: QuizQuestion): QuestionFormData => ({
+  ...newQuestion(),
+  type: question.type,
+  prompt: question.prompt,
+  points: question.points.toString(),
+  ...((question.type === 'MULTIPLE_CHOICE' || question.type === 'MULTI_SELECT') && {
+    options: question.options.map((o) => ({ text: o.text, isCorrect: o.isCorrect })),
+  }),
+  trueFalseAnswer: question.type === 'TRUE_FALSE' ? !!question.options.find((o) => o.text === 'True')?.isCorrect : true,
+  numericAnswer: question.numericAnswer?.toString() ?? '',
+  numericTolerance: question.numericTolerance?.toString() ?? '0',
+  acceptedAnswers: question.acceptedAnswers.join('\n'),
+  caseSensitive: question.caseSensitive,
+})
+
+const toQuestionPayload = (question: QuestionFormData) => ({
+  type: question.type,
+  prompt: question.prompt,
+  points: parseFloat(question.points) || 0,
+  ...((question.type === 'MULTIPLE_CHOICE' || question.type === 'MULTI_SELECT') && {
+    options: question.options,
+  }),
+  ...(question.type === 'TRUE_FALSE' && { trueFalseAnswer: question.trueFalseAnswer }),
+  ...(question.type === 'NUMERIC' && {
+    numericAnswer: question.numericAnswer === '' ? null : parseFloat(question.numericAnswer),
+    numericTolerance: parseFloat(question.numericTolerance) || 0,
+  }),
+  ...(question.type === 'SHORT_ANSWER' && {
+    acceptedAnswers: question.acceptedAnswers
+      .split('\n')
+      .map((a) => a.trim())
+      .filter(Boolean),
+    caseSensitive: question.caseSensitive,
+  }),
+})
+
+/**
+ * QuestionBankManager component
+ */
+export function QuestionBankManager() {
+  const [banks, setBanks] = useState<QuestionBank[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Modal state
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingBank, setEditingBank] = useState<QuestionBank | null>(null)
+  const [deleteConfirmBank, setDeleteConfirmBank] = useState<QuestionBank | null>(null)
+
+  // Form state
+  const [formData, setFormData] = useState<BankFormData>(initialFormData)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  /**
+   * Fetch question banks from API
+   */
+  const fetchBanks = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/instructor/question-banks')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch question banks')
+      }
+
+      setBanks(data.banks)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBanks()
+  }, [fetchBanks])
+
+  const updateQuestion = (index: number, changes: Partial<QuestionFormData>) => {
+    setFormData((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q, i) => (i === index ? { ...q, ...changes } : q)),
+    }))
+  }
+
+  const updateOption = (questionIndex: number, optionIndex: number, changes: { text?: string; isCorrect?: boolean }) => {
+    const question = formData.questions[questionIndex]
+    updateQuestion(questionIndex, {
+      options: question.options.map((o, i) => {
+        if (i === optionIndex) return { ...o, ...changes }
+        // Multiple choice has a single correct option
+        if (changes.isCorrect && question.type === 'MULTIPLE_CHOICE') return { ...o, isCorrect: false }
+        return o
+      }),
+    })
+  }
+
+  const formTotalPoints = formData.questions.reduce((sum, q) => sum + (parseFloat(q.points) || 0), 0)
+
+  /**
+   * Open the form for a new bank
+   */
+  const openCreateModal = () => {
+    setEditingBank(null)
+    setFormData(initialFormData())
+    setIsFormOpen(true)
+  }
+
+  /**
+   * Open the form for an existing bank
+   */
+  const openEditModal = (bank: QuestionBank) => {
+    setEditingBank(bank)
+    setFormData({
+      name: bank.name,
+      description: bank.description || '',
+      questions: bank.questions.map(toQuestionFormData),
+    })
+    setIsFormOpen(true)
+  }
+
+  /**
+   * Handle create or update
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+      name: formData.name,
+      description: formData.description || null,
+      questions: formData.questions.map(toQuestionPayload),
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(
+        editingBank ? `/api/instructor/question-banks/${editingBank.id}` : '/api/instructor/question-banks',
+        {
+          method: editingBank ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      )
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to save question bank')
+      }
+
+      toast.success(editingBank ? 'Question bank updated successfully' : 'Question bank created successfully')
+      setIsFormOpen(false)
+      setEditingBank(null)
+      fetchBanks()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save question bank')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Handle delete bank
+   */
+  const handleDelete = async () => {
+    if (!deleteConfirmBank) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/instructor/question-banks/${deleteConfirmBank.id}`, {
+        method: 'DELETE',
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to delete question bank')
+      }
+
+      toast.success('Question bank deleted successfully')
+      setDeleteConfirmBank(null)
+      fetchBanks()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete question bank')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header */}
+      <div className="p-6 border-b">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Question Banks</h2>
+          <button
+            onClick={openCreateModal}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            <Plus className="h-4 w-4" />
+            Create Question Bank
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">{error}</p>
+            <button onClick={fetchBanks} className="mt-4 text-indigo-600 hover:text-indigo-700">
+              Try again
+            </button>
+          </div>
+        ) : banks.length === 0 ? (
+          <div className="text-center py-12">
+            <ListChecks className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No question banks yet. Create your first question bank!</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {banks.map((bank) => (
+              <div key={bank.id} className="border rounded-lg p-4 hover:border-indigo-200 transition-colors">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-1">
+                      <h3 className="font-medium text-gray-900">{bank.name}</h3>
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800">
+                        {bank.questions.length} question{bank.questions.length === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    {bank.description && <p className="text-sm text-gray-600">{bank.description}</p>}
+                    <ul className="mt-2 text-sm text-gray-600 list-disc list-inside">
+                      {bank.questions.slice(0, 5).map((question) => (
+                        <li key={question.id} className="truncate">
+                          {question.prompt}{' '}
+                          <span className="text-gray-400">
+                            ({QUESTION_TYPE_LABELS[question.type]}, {question.points} pt{question.points === 1 ? '' : 's'})
+                          </span>
+                        </li>
+                      ))}
+                      {bank.questions.length > 5 && (
+                        <li className="text-gray-400">and {bank.questions.length - 5} more</li>
+                      )}
+                    </ul>
+                    <p className="mt-2 text-xs text-gray-500">
+                      Used by {bank.quizCount} quiz{bank.quizCount === 1 ? '' : 'zes'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 ml-4">
+                    <button
+                      onClick={() => openEditModal(bank)}
+                      className="p-2 text-gray-400 hover:text-blue-600 rounded-md hover:bg-blue-50"
+                      title="Edit"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteConfirmBank(bank)}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-md hover:bg-red-50"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Modal */}
+      <Dialog.Root open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+          <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-2xl translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg max-h-[90vh] overflow-y-auto">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 mb-4">
+              {editingBank ? 'Edit Question Bank' : 'Create Question Bank'}
+            </Dialog.Title>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="bankName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Bank Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="bankName"
+                  type="text"
+                  required
+                  maxLength={100}
+                  value={formData.name}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Chapter 1 Review"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="bankDescription" className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  id="bankDescription"
+                  rows={2}
+                  maxLength={1000}
+                  value={formData.description}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {editingBank && editingBank.quizCount > 0 && (
+                <div className="p-3 bg-yellow-50 text-sm text-yellow-800 rounded-md">
+                  This bank is used by a quiz. Attempts already submitted keep their questions; new attempts use
+                  the questions saved here.
+                </div>
+              )}
+
+              <fieldset disabled={isSubmitting} className="space-y-4">
+                {formData.questions.map((question, questionIndex) => (
+                  <div key={questionIndex} className="border rounded-md p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <select
+                        aria-label={`Question ${questionIndex + 1} type`}
+                        value={question.type}
+                        onChange={(e) => {
+                          const type = e.target.value as QuestionType
+                          updateQuestion(questionIndex, {
+                            type,
+                            // A single correct option is kept when switching to multiple choice
+                            ...(type === 'MULTIPLE_CHOICE' && {
+                              options: question.options.map((o, i) => ({
+                                ...o,
+                                isCorrect: i === Math.max(0, question.options.findIndex((x) => x.isCorrect)),
+                              })),
+                            }),
+                          })
+                        }}
+                        className="px-2 py-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        required
+                        min="0.5"
+                        step="0.5"
+                        aria-label={`Question ${questionIndex + 1} points`}
+                        value={question.points}
+                        onChange={(e) => updateQuestion(questionIndex, { points: e.target.value })}
+                        className="w-20 px-2 py-2 border border-gray-300 rounded-md text-sm text-right"
+                      />
+                      <span className="text-xs text-gray-500">pts</span>
+                      <div className="flex-1" />
+                      {formData.questions.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              questions: prev.questions.filter((_, i) => i !== questionIndex),
+                            }))
+                          }
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          aria-label="Remove question"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                    <textarea
+                      required
+                      rows={2}
+                      maxLength={5000}
+                      aria-label={`Question ${questionIndex + 1} prompt`}
+                      value={question.prompt}
+                      onChange={(e) => updateQuestion(questionIndex, { prompt: e.target.value })}
+                      placeholder="Question"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+
+                    {(question.type === 'MULTIPLE_CHOICE' || question.type === 'MULTI_SELECT') && (
+                      <div className="space-y-2 pl-4">
+                        {question.options.map((option, optionIndex) => (
+                          <div key={optionIndex} className="flex items-center gap-2">
+                            <input
+                              type={question.type === 'MULTIPLE_CHOICE' ? 'radio' : 'checkbox'}
+                              name={`question-${questionIndex}-correct`}
+                              aria-label="Correct answer"
+                              checked={option.isCorrect}
+                              onChange={(e) => updateOption(questionIndex, optionIndex, { isCorrect: e.target.checked })}
+                              className="h-4 w-4 text-indigo-600"
+                            />
+                            <input
+                              type="text"
+                              required
+                              maxLength={500}
+                              aria-label="Option text"
+                              value={option.text}
+                              onChange={(e) => updateOption(questionIndex, optionIndex, { text: e.target.value })}
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            />
+                            {question.options.length > 2 && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  updateQuestion(questionIndex, {
+                                    options: question.options.filter((_, i) => i !== optionIndex),
+                                  })
+                                }
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                aria-label="Remove option"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                        {question.options.length < 10 && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateQuestion(questionIndex, {
+                                options: [...question.options, { text: '', isCorrect: false }],
+                              })
+                            }
+                            className="text-xs text-indigo-600 hover:text-indigo-700"
+                          >
+                            + Add option
+                          </button>
+                        )}
+                      </div>
+                    )}
+
+                    {question.type === 'TRUE_FALSE' && (
+                      <div className="flex items-center gap-4 pl-4 text-sm">
+                        {[true, false].map((value) => (
+                          <label key={String(value)} className="flex items-center gap-2">
+                            <input
+                              type="radio"
+                              name={`question-${questionIndex}-truefalse`}
+                              checked={question.trueFalseAnswer === value}
+                              onChange={() => updateQuestion(questionIndex, { trueFalseAnswer: value })}
+                              className="h-4 w-4 text-indigo-600"
+                            />
+                            {value ? 'True' : 'False'}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+
+                    {question.type === 'NUMERIC' && (
+                      <div className="flex items-center gap-2 pl-4 text-sm">
+                        <input
+                          type="number"
+                          required
+                          step="any"
+                          aria-label="Correct answer"
+                          value={question.numericAnswer}
+                          onChange={(e) => updateQuestion(questionIndex, { numericAnswer: e.target.value })}
+                          placeholder="Answer"
+                          className="w-32 px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                        <span className="text-gray-500">±</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          aria-label="Tolerance"
+                          value={question.numericTolerance}
+                          onChange={(e) => updateQuestion(questionIndex, { numericTolerance: e.target.value })}
+                          className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                      </div>
+                    )}
+
+                    {question.type === 'SHORT_ANSWER' && (
+                      <div className="space-y-2 pl-4 text-sm">
+                        <textarea
+                          required
+                          rows={2}
+                          aria-label="Accepted answers"
+                          value={question.acceptedAnswers}
+                          onChange={(e) => updateQuestion(questionIndex, { acceptedAnswers: e.target.value })}
+                          placeholder="Accepted answers, one per line"
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                        <label className="flex items-center gap-2 text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={question.caseSensitive}
+                            onChange={(e) => updateQuestion(questionIndex, { caseSensitive: e.target.checked })}
+                            className="h-4 w-4 text-indigo-600"
+                          />
+                          Case sensitive
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {formData.questions.length < 200 && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData((prev) => ({ ...prev, questions: [...prev.questions, newQuestion()] }))
+                    }
+                    className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add question
+                  </button>
+                )}
+              </fieldset>
+
+              <p className="text-sm text-gray-600">
+                {formData.questions.length} question{formData.questions.length === 1 ? '' : 's'}, {formTotalPoints}{' '}
+                points
+              </p>
+
+              <div className="flex justify-end gap-3 mt-6 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => setIsFormOpen(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-2"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {editingBank ? 'Save Changes' : 'Create Question Bank'}
+                </button>
+              </div>
+            </form>
+
+            <Dialog.Close asChild>
+              <button className="absolute right-4 top-4 text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-4 w-4" />
+              </button>
+            </Dialog.Close>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+
+      {/* Delete Confirmation */}
+      <Dialog.Root open={!!deleteConfirmBank} onOpenChange={(open) => !open && setDeleteConfirmBank(null)}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+          <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-sm translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 mb-2">
+              Delete Question Bank
+            </Dialog.Title>
+            <p className="text-sm text-gray-600 mb-6">
+              Are you sure you want to delete &quot;{deleteConfirmBank?.name}&quot;? Banks used by a quiz cannot be
+              deleted.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setDeleteConfirmBank(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                disabled={isSubmitting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 flex items-center gap-2"
+                disabled={isSubmitting}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Delete
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  )
+}
+
+export default QuestionBankManager
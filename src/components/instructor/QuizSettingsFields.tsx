@@ -0,0 +1,211 @@
+/**
+ * QuizSettingsFields Component
+ *
+ * Form fields for a quiz content item: the question bank it draws from,
+ * how many questions each attempt gets, the time limit, shuffling, points,
+ * due date and attempts.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import AttemptSettingsFields, {
+  defaultAttemptSettingsValues,
+  type AttemptSettingsFormValues,
+} from '@/components/instructor/AttemptSettingsFields'
+
+/**
+ * Quiz settings form values (empty strings for "not set"; due date in
+ * datetime-local format)
+ */
+export interface QuizSettingsFormValues extends AttemptSettingsFormValues {
+  bankId: string
+  questionCount: string
+  timeLimitMinutes: string
+  shuffleQuestions: boolean
+  shuffleOptions: boolean
+  maxPoints: number
+  dueDate: string
+}
+
+export const defaultQuizSettingsValues: QuizSettingsFormValues = {
+  ...defaultAttemptSettingsValues,
+  bankId: '',
+  questionCount: '',
+  timeLimitMinutes: '',
+  shuffleQuestions: false,
+  shuffleOptions: false,
+  maxPoints: 100,
+  dueDate: '',
+}
+
+/**
+ * Convert form values into the `quiz` payload of the content API
+ */
+export function toQuizSettingsPayload(value: QuizSettingsFormValues) {
+  return {
+    bankId: value.bankId,
+    questionCount: value.questionCount ? parseInt(value.questionCount) : null,
+    timeLimitMinutes: value.timeLimitMinutes ? parseInt(value.timeLimitMinutes) : null,
+    shuffleQuestions: value.shuffleQuestions,
+    shuffleOptions: value.shuffleOptions,
+    maxPoints: value.maxPoints,
+    dueDate: value.dueDate ? new Date(value.dueDate).toISOString() : null,
+    maxAttempts: value.maxAttempts,
+    gradedAttemptPolicy: value.gradedAttemptPolicy,
+  }
+}
+
+interface QuestionBankOption {
+  id: string
+  name: string
+  questions: unknown[]
+}
+
+interface QuizSettingsFieldsProps {
+  value: QuizSettingsFormValues
+  onChange: (value: QuizSettingsFormValues) => void
+}
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm'
+
+export default function QuizSettingsFields({ value, onChange }: QuizSettingsFieldsProps) {
+  const [banks, setBanks] = useState<QuestionBankOption[]>([])
+  const [loadingBanks, setLoadingBanks] = useState(true)
+
+  useEffect(() => {
+    fetch('/api/instructor/question-banks')
+      .then((res) => (res.ok ? res.json() : { banks: [] }))
+      .then((data) => setBanks(data.banks))
+      .catch(() => setBanks([]))
+      .finally(() => setLoadingBanks(false))
+  }, [])
+
+  const update = (changes: Partial<QuizSettingsFormValues>) => onChange({ ...value, ...changes })
+  const selectedBank = banks.find((bank) => bank.id === value.bankId)
+
+  return (
+    <div className="space-y-4">
+      <fieldset className="space-y-4 border border-gray-200 rounded-md p-4">
+        <legend className="px-1 text-sm font-medium text-gray-700">Quiz</legend>
+
+        <div>
+          <label htmlFor="quizBankId" className="block text-sm font-medium text-gray-700">
+            Question Bank
+          </label>
+          <select
+            id="quizBankId"
+            required
+            value={value.bankId}
+            onChange={(e) => update({ bankId: e.target.value })}
+            className={inputClassName}
+            disabled={loadingBanks}
+          >
+            <option value="">{loadingBanks ? 'Loading...' : 'Select a question bank'}</option>
+            {banks.map((bank) => (
+              <option key={bank.id} value={bank.id}>
+                {bank.name} ({bank.questions.length} question{bank.questions.length === 1 ? '' : 's'})
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Manage questions on the{' '}
+            <Link href="/instructor/question-banks" className="text-blue-600 hover:text-blue-500">
+              Question Banks
+            </Link>{' '}
+            page.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div>
+            <label htmlFor="quizQuestionCount" className="block text-sm font-medium text-gray-700">
+              Questions per Attempt
+            </label>
+            <input
+              type="number"
+              id="quizQuestionCount"
+              min="1"
+              max={selectedBank?.questions.length}
+              value={value.questionCount}
+              onChange={(e) => update({ questionCount: e.target.value })}
+              placeholder="All"
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500">Fewer than the bank holds draws a random set.</p>
+          </div>
+
+          <div>
+            <label htmlFor="quizTimeLimit" className="block text-sm font-medium text-gray-700">
+              Time Limit (minutes)
+            </label>
+            <input
+              type="number"
+              id="quizTimeLimit"
+              min="1"
+              max="600"
+              value={value.timeLimitMinutes}
+              onChange={(e) => update({ timeLimitMinutes: e.target.value })}
+              placeholder="None"
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="quizMaxPoints" className="block text-sm font-medium text-gray-700">
+              Points
+            </label>
+            <input
+              type="number"
+              id="quizMaxPoints"
+              min="1"
+              max="10000"
+              value={value.maxPoints}
+              onChange={(e) => update({ maxPoints: parseInt(e.target.value) || 0 })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="quizDueDate" className="block text-sm font-medium text-gray-700">
+            Due Date
+          </label>
+          <input
+            type="datetime-local"
+            id="quizDueDate"
+            value={value.dueDate}
+            onChange={(e) => update({ dueDate: e.target.value })}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500">Attempts cannot be started after the due date.</p>
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.shuffleQuestions}
+              onChange={(e) => update({ shuffleQuestions: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            Shuffle questions
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.shuffleOptions}
+              onChange={(e) => update({ shuffleOptions: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            Shuffle answer options
+          </label>
+        </div>
+      </fieldset>
+
+      <AttemptSettingsFields value={value} onChange={(attempts) => onChange({ ...value, ...attempts })} />
+    </div>
+  )
+}
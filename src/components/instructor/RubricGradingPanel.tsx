@@ -0,0 +1,169 @@
+/**
+ * RubricGradingPanel Component
+ *
+ * Scores a submission against the assignment's rubric: one performance level
+ * (optionally with adjusted points and a comment) per criterion. The page
+ * owns the score state; the criterion scores add up to the grade's points.
+ */
+
+'use client'
+
+import { MessageSquare } from 'lucide-react'
+
+export interface RubricLevel {
+  id: string
+  label: string
+  description: string | null
+  points: number
+}
+
+export interface RubricCriterion {
+  id: string
+  title: string
+  description: string | null
+  levels: RubricLevel[]
+}
+
+export interface Rubric {
+  id: string
+  name: string
+  description: string | null
+  criteria: RubricCriterion[]
+  maxPoints: number
+}
+
+export interface CriterionScore {
+  levelId: string | null
+  points: number | null
+  comment: string
+}
+
+export type RubricScores = Record<string, CriterionScore>
+
+interface RubricGradingPanelProps {
+  rubric: Rubric
+  scores: RubricScores
+  onChange: (scores: RubricScores) => void
+}
+
+/**
+ * Sum of the points given so far (unscored criteria count as zero)
+ */
+export function getRubricScoreTotal(scores: RubricScores): number {
+  const total = Object.values(scores).reduce((sum, score) => sum + (score.points ?? 0), 0)
+  return Math.round(total * 100) / 100
+}
+
+/**
+ * Convert panel state into the `rubricScores` payload for the grade API
+ */
+export function toRubricScoresPayload(scores: RubricScores) {
+  return Object.entries(scores).map(([criterionId, score]) => ({
+    criterionId,
+    levelId: score.levelId,
+    points: score.points,
+    comment: score.comment || null,
+  }))
+}
+
+function criterionMax(criterion: RubricCriterion): number {
+  return criterion.levels.reduce((max, level) => Math.max(max, level.points), 0)
+}
+
+export default function RubricGradingPanel({ rubric, scores, onChange }: RubricGradingPanelProps) {
+  const updateScore = (criterionId: string, changes: Partial<CriterionScore>) => {
+    const current = scores[criterionId] ?? { levelId: null, points: null, comment: '' }
+    onChange({ ...scores, [criterionId]: { ...current, ...changes } })
+  }
+
+  const scoredCount = rubric.criteria.filter((c) => scores[c.id]?.points != null).length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">{rubric.name}</h4>
+          {rubric.description && <p className="text-xs text-gray-500">{rubric.description}</p>}
+        </div>
+        <span className="text-sm text-gray-500">
+          {scoredCount}/{rubric.criteria.length} scored
+        </span>
+      </div>
+
+      {rubric.criteria.map((criterion) => {
+        const score = scores[criterion.id]
+        const max = criterionMax(criterion)
+
+        return (
+          <div key={criterion.id} className="border border-gray-200 rounded-md p-3">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{criterion.title}</p>
+                {criterion.description && (
+                  <p className="text-xs text-gray-500">{criterion.description}</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-1">
+                <input
+                  type="number"
+                  min="0"
+                  max={max}
+                  step="0.1"
+                  aria-label={`Points for ${criterion.title}`}
+                  value={score?.points ?? ''}
+                  onChange={(e) =>
+                    updateScore(criterion.id, {
+                      points: e.target.value === '' ? null : parseFloat(e.target.value),
+                    })
+                  }
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-right focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-sm text-gray-500">/ {max}</span>
+              </div>
+            </div>
+
+            <div className="mt-2 flex flex-wrap gap-2">
+              {criterion.levels.map((level) => {
+                const selected = score?.levelId === level.id
+                return (
+                  <button
+                    key={level.id}
+                    type="button"
+                    title={level.description ?? undefined}
+                    onClick={() => updateScore(criterion.id, { levelId: level.id, points: level.points })}
+                    className={`px-3 py-1 rounded-md border text-xs font-medium ${
+                      selected
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {level.label} ({level.points})
+                  </button>
+                )
+              })}
+            </div>
+
+            <div className="mt-2 flex items-start">
+              <MessageSquare className="h-4 w-4 text-gray-400 mr-2 mt-2" />
+              <textarea
+                rows={1}
+                placeholder="Comment (optional)"
+                aria-label={`Comment for ${criterion.title}`}
+                value={score?.comment ?? ''}
+                onChange={(e) => updateScore(criterion.id, { comment: e.target.value })}
+                className="block w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="flex justify-between items-center bg-blue-50 p-3 rounded-md">
+        <span className="text-sm text-blue-700">Rubric total</span>
+        <span className="text-sm font-medium text-blue-900">
+          {getRubricScoreTotal(scores)}/{rubric.maxPoints}
+        </span>
+      </div>
+    </div>
+  )
+}
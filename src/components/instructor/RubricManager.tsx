@@ -0,0 +1,557 @@
+/**
+ * RubricManager Component
+ *
+ * Interface for managing an instructor's reusable grading rubrics:
+ * - List rubrics with their criteria, point totals and usage
+ * - Create and edit rubrics (criteria × performance levels)
+ * - Delete rubrics
+ *
+ * Criteria of a rubric that has already been used for grading are locked;
+ * only its name and description can still be edited.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { X, Plus, Pencil, Trash2, Loader2, ClipboardList, Lock } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface RubricLevel {
+  id: string
+  label: string
+  description: string | null
+  points: number
+}
+
+interface RubricCriterion {
+  id: string
+  title: string
+  description: string | null
+  levels: RubricLevel[]
+}
+
+interface Rubric {
+  id: string
+  name: string
+  description: string | null
+  criteria: RubricCriterion[]
+  maxPoints: number
+  assignmentCount: number
+  inUse: boolean
+}
+
+interface LevelFormData {
+  label: string
+  points: string
+}
+
+interface CriterionFormData {
+  title: string
+  description: string
+  levels: LevelFormData[]
+}
+
+interface RubricFormData {
+  name: string
+  description: string
+  criteria: CriterionFormData[]
+}
+
+const newCriterion = (): CriterionFormData => ({
+  title: '',
+  description: '',
+  levels: [
+    { label: 'Excellent', points: '10' },
+    { label: 'Satisfactory', points: '6' },
+    { label: 'Needs Improvement', points: '2' },
+  ],
+})
+
+const initialFormData = (): RubricFormData => ({
+  name: '',
+  description: '',
+  criteria: [newCriterion()],
+})
+
+/**
+ * RubricManager component
+ */
+export function RubricManager() {
+  const [rubrics, setRubrics] = useState<Rubric[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Modal state
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingRubric, setEditingRubric] = useState<Rubric | null>(null)
+  const [deleteConfirmRubric, setDeleteConfirmRubric] = useState<Rubric | null>(null)
+
+  // Form state
+  const [formData, setFormData] = useState<RubricFormData>(initialFormData)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  /**
+   * Fetch rubrics from API
+   */
+  const fetchRubrics = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/instructor/rubrics')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch rubrics')
+      }
+
+      setRubrics(data.rubrics)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRubrics()
+  }, [fetchRubrics])
+
+  const criteriaLocked = !!editingRubric?.inUse
+
+  const updateCriterion = (index: number, changes: Partial<CriterionFormData>) => {
+    setFormData((prev) => ({
+      ...prev,
+      criteria: prev.criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }))
+  }
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<LevelFormData>) => {
+    const criterion = formData.criteria[criterionIndex]
+    updateCriterion(criterionIndex, {
+      levels: criterion.levels.map((l, i) => (i === levelIndex ? { ...l, ...changes } : l)),
+    })
+  }
+
+  const formMaxPoints = formData.criteria.reduce(
+    (sum, c) => sum + Math.max(0, ...c.levels.map((l) => parseFloat(l.points) || 0)),
+    0
+  )
+
+  /**
+   * Open the form for a new rubric
+   */
+  const openCreateModal = () => {
+    setEditingRubric(null)
+    setFormData(initialFormData())
+    setIsFormOpen(true)
+  }
+
+  /**
+   * Open the form for an existing rubric
+   */
+  const openEditModal = (rubric: Rubric) => {
+    setEditingRubric(rubric)
+    setFormData({
+      name: rubric.name,
+      description: rubric.description || '',
+      criteria: rubric.criteria.map((c) => ({
+        title: c.title,
+        description: c.description || '',
+        levels: c.levels.map((l) => ({ label: l.label, points: l.points.toString() })),
+      })),
+    })
+    setIsFormOpen(true)
+  }
+
+  /**
+   * Handle create or update
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const payload = {
+      name: formData.name,
+      description: formData.description || null,
+      ...(!criteriaLocked && {
+        criteria: formData.criteria.map((c) => ({
+          title: c.title,
+          description: c.description || null,
+          levels: c.levels.map((l) => ({ label: l.label, points: parseFloat(l.points) || 0 })),
+        })),
+      }),
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(
+        editingRubric ? `/api/instructor/rubrics/${editingRubric.id}` : '/api/instructor/rubrics',
+        {
+          method: editingRubric ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      )
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to save rubric')
+      }
+
+      toast.success(editingRubric ? 'Rubric updated successfully' : 'Rubric created successfully')
+      setIsFormOpen(false)
+      setEditingRubric(null)
+      fetchRubrics()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rubric')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * Handle delete rubric
+   */
+  const handleDelete = async () => {
+    if (!deleteConfirmRubric) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/instructor/rubrics/${deleteConfirmRubric.id}`, {
+        method: 'DELETE',
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to delete rubric')
+      }
+
+      toast.success('Rubric deleted successfully')
+      setDeleteConfirmRubric(null)
+      fetchRubrics()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete rubric')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      {/* Header */}
+      <div className="p-6 border-b">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Rubrics</h2>
+          <button
+            onClick={openCreateModal}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-pink-600 rounded-md hover:bg-pink-700"
+          >
+            <Plus className="h-4 w-4" />
+            Create Rubric
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-pink-600" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">{error}</p>
+            <button onClick={fetchRubrics} className="mt-4 text-pink-600 hover:text-pink-700">
+              Try again
+            </button>
+          </div>
+        ) : rubrics.length === 0 ? (
+          <div className="text-center py-12">
+            <ClipboardList className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No rubrics yet. Create your first rubric!</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {rubrics.map((rubric) => (
+              <div key={rubric.id} className="border rounded-lg p-4 hover:border-pink-200 transition-colors">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-1">
+                      <h3 className="font-medium text-gray-900">{rubric.name}</h3>
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-pink-100 text-pink-800">
+                        {rubric.maxPoints} pts
+                      </span>
+                      {rubric.inUse && (
+                        <span className="flex items-center gap-1 text-xs text-gray-500">
+                          <Lock className="h-3 w-3" />
+                          Used for grading
+                        </span>
+                      )}
+                    </div>
+                    {rubric.description && <p className="text-sm text-gray-600">{rubric.description}</p>}
+                    <ul className="mt-2 text-sm text-gray-600 list-disc list-inside">
+                      {rubric.criteria.map((criterion) => (
+                        <li key={criterion.id}>
+                          {criterion.title}{' '}
+                          <span className="text-gray-400">
+                            ({criterion.levels.map((l) => `${l.label} ${l.points}`).join(' / ')})
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="mt-2 text-xs text-gray-500">
+                      Attached to {rubric.assignmentCount} assignment{rubric.assignmentCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 ml-4">
+                    <button
+                      onClick={() => openEditModal(rubric)}
+                      className="p-2 text-gray-400 hover:text-blue-600 rounded-md hover:bg-blue-50"
+                      title="Edit"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDeleteConfirmRubric(rubric)}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-md hover:bg-red-50"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Modal */}
+      <Dialog.Root open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+          <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-2xl translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg max-h-[90vh] overflow-y-auto">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 mb-4">
+              {editingRubric ? 'Edit Rubric' : 'Create Rubric'}
+            </Dialog.Title>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="rubricName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Rubric Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="rubricName"
+                  type="text"
+                  required
+                  maxLength={100}
+                  value={formData.name}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Essay Rubric"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="rubricDescription" className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  id="rubricDescription"
+                  rows={2}
+                  maxLength={1000}
+                  value={formData.description}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {criteriaLocked && (
+                <div className="flex items-center gap-2 p-3 bg-yellow-50 text-sm text-yellow-800 rounded-md">
+                  <Lock className="h-4 w-4" />
+                  This rubric has been used for grading, so its criteria can no longer be changed.
+                </div>
+              )}
+
+              <fieldset disabled={criteriaLocked || isSubmitting} className="space-y-4">
+                {formData.criteria.map((criterion, criterionIndex) => (
+                  <div key={criterionIndex} className="border rounded-md p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        required
+                        maxLength={200}
+                        aria-label={`Criterion ${criterionIndex + 1} title`}
+                        value={criterion.title}
+                        onChange={(e) => updateCriterion(criterionIndex, { title: e.target.value })}
+                        placeholder="Criterion (e.g., Thesis)"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                      />
+                      {formData.criteria.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              criteria: prev.criteria.filter((_, i) => i !== criterionIndex),
+                            }))
+                          }
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          aria-label="Remove criterion"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      type="text"
+                      maxLength={1000}
+                      aria-label={`Criterion ${criterionIndex + 1} description`}
+                      value={criterion.description}
+                      onChange={(e) => updateCriterion(criterionIndex, { description: e.target.value })}
+                      placeholder="Description (optional)"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-pink-500 focus:border-pink-500"
+                    />
+                    <div className="space-y-2 pl-4">
+                      {criterion.levels.map((level, levelIndex) => (
+                        <div key={levelIndex} className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            required
+                            maxLength={100}
+                            aria-label="Level label"
+                            value={level.label}
+                            onChange={(e) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })}
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                          <input
+                            type="number"
+                            required
+                            min="0"
+                            step="0.5"
+                            aria-label="Level points"
+                            value={level.points}
+                            onChange={(e) => updateLevel(criterionIndex, levelIndex, { points: e.target.value })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-right"
+                          />
+                          <span className="text-xs text-gray-500">pts</span>
+                          {criterion.levels.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                updateCriterion(criterionIndex, {
+                                  levels: criterion.levels.filter((_, i) => i !== levelIndex),
+                                })
+                              }
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              aria-label="Remove level"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      {criterion.levels.length < 10 && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateCriterion(criterionIndex, {
+                              levels: [...criterion.levels, { label: '', points: '0' }],
+                            })
+                          }
+                          className="text-xs text-pink-600 hover:text-pink-700"
+                        >
+                          + Add level
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+
+                {formData.criteria.length < 30 && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setFormData((prev) => ({ ...prev, criteria: [...prev.criteria, newCriterion()] }))
+                    }
+                    className="flex items-center gap-1 text-sm text-pink-600 hover:text-pink-700"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add criterion
+                  </button>
+                )}
+              </fieldset>
+
+              <p className="text-sm text-gray-600">Total: {formMaxPoints} points</p>
+
+              <div className="flex justify-end gap-3 mt-6 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => setIsFormOpen(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 text-sm font-medium text-white bg-pink-600 rounded-md hover:bg-pink-700 disabled:opacity-50 flex items-center gap-2"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {editingRubric ? 'Save Changes' : 'Create Rubric'}
+                </button>
+              </div>
+            </form>
+
+            <Dialog.Close asChild>
+              <button className="absolute right-4 top-4 text-gray-400 hover:text-gray-600" aria-label="Close">
+                <X className="h-4 w-4" />
+              </button>
+            </Dialog.Close>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+
+      {/* Delete Confirmation */}
+      <Dialog.Root open={!!deleteConfirmRubric} onOpenChange={(open) => !open && setDeleteConfirmRubric(null)}>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50" />
+          <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-sm translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 mb-2">
+              Delete Rubric
+            </Dialog.Title>
+            <p className="text-sm text-gray-600 mb-6">
+              Are you sure you want to delete &quot;{deleteConfirmRubric?.name}&quot;? Existing rubric scores
+              are kept, but it can no longer be attached to assignments.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setDeleteConfirmRubric(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                disabled={isSubmitting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 flex items-center gap-2"
+                disabled={isSubmitting}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Delete
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  )
+}
+
+export default RubricManager
@@ -0,0 +1,218 @@
+/**
+ * SectionDueDatesPanel Component
+ *
+ * Lists and sets per-section due dates for one assignment.
+ * Shown on the extensions tab of the instructor assignment page.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Trash2, CalendarPlus } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface SectionDate {
+  id: string
+  dueDate: string
+  section: {
+    id: string
+    name: string
+  }
+}
+
+interface Section {
+  id: string
+  name: string
+}
+
+interface SectionDueDatesPanelProps {
+  assignmentId: string
+  courseId: string
+  /** The assignment's regular due date */
+  dueDate: string | null
+}
+
+export default function SectionDueDatesPanel({ assignmentId, courseId, dueDate }: SectionDueDatesPanelProps) {
+  const [sectionDates, setSectionDates] = useState<SectionDate[]>([])
+  const [sections, setSections] = useState<Section[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [sectionId, setSectionId] = useState('')
+  const [newDueDate, setNewDueDate] = useState('')
+
+  const fetchSectionDates = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/instructor/assignments/${assignmentId}/section-dates`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch section due dates')
+      }
+
+      setSectionDates(data.sectionDates)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch section due dates')
+    } finally {
+      setLoading(false)
+    }
+  }, [assignmentId])
+
+  useEffect(() => {
+    fetchSectionDates()
+  }, [fetchSectionDates])
+
+  useEffect(() => {
+    const fetchSections = async () => {
+      const response = await fetch(`/api/instructor/courses/${courseId}/sections`)
+      if (response.ok) {
+        const data = await response.json()
+        setSections(data.sections)
+      }
+    }
+
+    fetchSections().catch((error) => console.error('Error fetching sections:', error))
+  }, [courseId])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!sectionId || !newDueDate) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/instructor/assignments/${assignmentId}/section-dates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sectionId,
+          dueDate: new Date(newDueDate).toISOString(),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to set section due date')
+      }
+
+      toast.success('Section due date set')
+      setSectionId('')
+      setNewDueDate('')
+      await fetchSectionDates()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to set section due date')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (sectionDate: SectionDate) => {
+    if (!confirm(`Remove the due date for ${sectionDate.section.name}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(
+        `/api/instructor/assignments/${assignmentId}/section-dates/${sectionDate.id}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error?.message || 'Failed to remove section due date')
+      }
+
+      toast.success('Section due date removed')
+      setSectionDates((prev) => prev.filter((d) => d.id !== sectionDate.id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove section due date')
+    }
+  }
+
+  if (!dueDate) {
+    return (
+      <p className="text-gray-500">
+        This assignment has no due date, so there is nothing to move per section.
+      </p>
+    )
+  }
+
+  if (!loading && sections.length === 0) {
+    return (
+      <p className="text-gray-500">
+        This course has no sections. Add sections on the course&apos;s Students tab.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSave} className="grid grid-cols-1 gap-4 sm:grid-cols-3 items-end">
+        <div>
+          <label htmlFor="sectionDueDateSection" className="block text-sm font-medium text-gray-700">
+            Section
+          </label>
+          <select
+            id="sectionDueDateSection"
+            value={sectionId}
+            onChange={(e) => setSectionId(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">Select a section</option>
+            {sections.map((section) => (
+              <option key={section.id} value={section.id}>
+                {section.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="sectionDueDate" className="block text-sm font-medium text-gray-700">
+            Due Date
+          </label>
+          <input
+            type="datetime-local"
+            id="sectionDueDate"
+            value={newDueDate}
+            onChange={(e) => setNewDueDate(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !sectionId || !newDueDate}
+          className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Set Section Due Date'}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : sectionDates.length === 0 ? (
+        <p className="text-gray-500">All sections use the regular due date.</p>
+      ) : (
+        <div className="space-y-3">
+          {sectionDates.map((sectionDate) => (
+            <div key={sectionDate.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div>
+                <h4 className="font-medium text-gray-900">{sectionDate.section.name}</h4>
+                <p className="text-sm text-gray-500">
+                  Due {new Date(sectionDate.dueDate).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRemove(sectionDate)}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label={`Remove due date for ${sectionDate.section.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
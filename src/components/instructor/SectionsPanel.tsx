@@ -0,0 +1,251 @@
+/**
+ * SectionsPanel Component
+ *
+ * Creates, renames and deletes a course's sections and moves students
+ * between them. Shown on the Students tab of the instructor course page.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Trash2, Pencil, Plus } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface Section {
+  id: string
+  name: string
+}
+
+interface SectionsPanelProps {
+  courseId: string
+  enrollments: Array<{
+    id: string
+    sectionId: string | null
+    user: { id: string; name: string; email: string }
+  }>
+  /** Called after a student has been moved so the parent can update its enrollments */
+  onSectionChange: (studentId: string, sectionId: string | null) => void
+}
+
+export default function SectionsPanel({ courseId, enrollments, onSectionChange }: SectionsPanelProps) {
+  const [sections, setSections] = useState<Section[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState('')
+
+  const fetchSections = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/sections`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch sections')
+      }
+
+      setSections(data.sections)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fetch sections')
+    } finally {
+      setLoading(false)
+    }
+  }, [courseId])
+
+  useEffect(() => {
+    fetchSections()
+  }, [fetchSections])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/sections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to create section')
+      }
+
+      toast.success('Section created')
+      setName('')
+      await fetchSections()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create section')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRename = async (section: Section) => {
+    const newName = prompt('Section name', section.name)?.trim()
+    if (!newName || newName === section.name) return
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/sections/${section.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to rename section')
+      }
+
+      toast.success('Section renamed')
+      await fetchSections()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rename section')
+    }
+  }
+
+  const handleDelete = async (section: Section) => {
+    if (!confirm(`Delete ${section.name}? Its students stay enrolled without a section.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/sections/${section.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error?.message || 'Failed to delete section')
+      }
+
+      toast.success('Section deleted')
+      setSections((prev) => prev.filter((s) => s.id !== section.id))
+      enrollments
+        .filter((enrollment) => enrollment.sectionId === section.id)
+        .forEach((enrollment) => onSectionChange(enrollment.user.id, null))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete section')
+    }
+  }
+
+  const handleMove = async (studentId: string, sectionId: string | null) => {
+    try {
+      const response = await fetch(`/api/instructor/courses/${courseId}/sections/members`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sectionId, studentIds: [studentId] }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.details?.[0]?.message || data.error?.message || 'Failed to move student')
+      }
+
+      onSectionChange(studentId, sectionId)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to move student')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">Sections</h3>
+        <p className="text-sm text-gray-500">
+          Group students into cohorts that can get their own announcements and due dates.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex gap-3 items-end">
+        <div className="flex-1">
+          <label htmlFor="sectionName" className="block text-sm font-medium text-gray-700">
+            New Section
+          </label>
+          <input
+            type="text"
+            id="sectionName"
+            value={name}
+            maxLength={100}
+            placeholder="e.g. Acme Corp cohort"
+            onChange={(e) => setName(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {saving ? 'Adding...' : 'Add Section'}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : sections.length === 0 ? (
+        <p className="text-gray-500">No sections yet.</p>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {sections.map((section) => (
+              <div key={section.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div>
+                  <h4 className="font-medium text-gray-900">{section.name}</h4>
+                  <p className="text-sm text-gray-500">
+                    {enrollments.filter((enrollment) => enrollment.sectionId === section.id).length} students
+                  </p>
+                </div>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => handleRename(section)}
+                    className="p-2 text-gray-400 hover:text-blue-600"
+                    aria-label={`Rename ${section.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(section)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${section.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {enrollments.length > 0 && (
+            <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {enrollments.map((enrollment) => (
+                <div key={enrollment.id} className="flex items-center justify-between px-3 py-2">
+                  <span className="text-sm text-gray-900">
+                    {enrollment.user.name}{' '}
+                    <span className="text-gray-500">({enrollment.user.email})</span>
+                  </span>
+                  <select
+                    value={enrollment.sectionId ?? ''}
+                    onChange={(e) => handleMove(enrollment.user.id, e.target.value || null)}
+                    aria-label={`Section for ${enrollment.user.name}`}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">No section</option>
+                    {sections.map((section) => (
+                      <option key={section.id} value={section.id}>
+                        {section.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
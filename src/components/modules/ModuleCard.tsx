@@ -2,6 +2,7 @@
 
 import { FileText, ClipboardList, MessageSquare } from 'lucide-react'
 import type { Module } from './hooks/useModules'
+import PublishStatusBadge from '@/components/PublishStatusBadge'
 
 interface ModuleCardProps {
   module: Module
@@ -31,15 +32,7 @@ export default function ModuleCard({ module }: ModuleCardProps) {
           {/* Status Badge and Counts Row */}
           <div className="mt-3 flex items-center flex-wrap gap-3">
             {/* Status Badge */}
-            <span
-              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                module.isPublished
-                  ? 'bg-green-600 text-white'
-                  : 'bg-gray-600 text-white'
-              }`}
-            >
-              {module.isPublished ? 'Published' : 'Draft'}
-            </span>
+            <PublishStatusBadge record={module} />
 
             {/* Counts */}
             <div className="flex items-center gap-3 text-sm text-white">
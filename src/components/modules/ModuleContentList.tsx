@@ -31,8 +31,10 @@ import {
   Loader2,
   MoreHorizontal,
   FolderInput,
+  ListChecks,
 } from 'lucide-react'
 import toast from 'react-hot-toast'
+import PublishStatusBadge from '@/components/PublishStatusBadge'
 import { useModuleContent, type ModuleContent } from './hooks/useModuleContent'
 
 interface ModuleContentListProps {
@@ -55,6 +57,8 @@ function getContentIcon(type: ModuleContent['type']) {
       return LinkIcon
     case 'SCORM':
       return BookOpen
+    case 'QUIZ':
+      return ListChecks
     default:
       return FileText
   }
@@ -73,6 +77,8 @@ function getContentIconColor(type: ModuleContent['type']) {
       return 'text-white bg-purple-500'
     case 'SCORM':
       return 'text-white bg-blue-500'
+    case 'QUIZ':
+      return 'text-white bg-indigo-500'
     default:
       return 'text-white bg-gray-500'
   }
@@ -159,15 +165,7 @@ function SortableContentItem({ item, courseId, onMoveContent }: SortableContentI
           {item.title}
         </span>
 
-        <span
-          className={`text-xs px-1.5 py-0.5 rounded ${
-            item.isPublished
-              ? 'bg-green-600 text-white'
-              : 'bg-gray-600 text-white'
-          }`}
-        >
-          {item.isPublished ? 'Published' : 'Draft'}
-        </span>
+        <PublishStatusBadge record={item} className="text-xs px-1.5 py-0.5 rounded" />
       </div>
 
       {/* Action Menu */}
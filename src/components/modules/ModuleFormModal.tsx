@@ -5,11 +5,47 @@ import * as Dialog from '@radix-ui/react-dialog'
 import { X, Loader2, Lock, Globe } from 'lucide-react'
 import toast from 'react-hot-toast'
 import type { Module } from './hooks/useModules'
+import PublishScheduleFields from '@/components/PublishScheduleFields'
+import {
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+  validatePublishWindow,
+} from '@/lib/publishing'
 
 interface ModuleFormData {
   title: string
   description: string
   requiresPrevious: boolean
+  publishAt: string
+  unpublishAt: string
+  unlockAt: string
+  prerequisiteModuleId: string
+  prerequisiteAssignmentId: string
+  prerequisiteMinScore: string
+  passingScore: string
+  requireDiscussionPost: boolean
+  contentWeight: string
+  assignmentWeight: string
+  discussionWeight: string
+}
+
+type WeightField = 'contentWeight' | 'assignmentWeight' | 'discussionWeight'
+
+const WEIGHT_FIELDS: { name: WeightField; label: string }[] = [
+  { name: 'contentWeight', label: 'Content' },
+  { name: 'assignmentWeight', label: 'Assignments' },
+  { name: 'discussionWeight', label: 'Discussions' },
+]
+
+/** Blank number inputs mean "not set" */
+function toOptionalNumber(value: string): number | null {
+  return value === '' ? null : Number(value)
+}
+
+interface AssignmentOption {
+  id: string
+  title: string
+  moduleId: string | null
 }
 
 interface FormErrors {
@@ -22,6 +58,8 @@ export interface ModuleFormModalProps {
   mode: 'create' | 'edit'
   courseId: string
   module?: Module | null
+  /** Modules in the course, for choosing a prerequisite module */
+  modules?: Module[]
   onClose: () => void
   onSuccess: () => void
 }
@@ -30,6 +68,17 @@ const initialFormData: ModuleFormData = {
   title: '',
   description: '',
   requiresPrevious: false,
+  publishAt: '',
+  unpublishAt: '',
+  unlockAt: '',
+  prerequisiteModuleId: '',
+  prerequisiteAssignmentId: '',
+  prerequisiteMinScore: '',
+  passingScore: '',
+  requireDiscussionPost: false,
+  contentWeight: '',
+  assignmentWeight: '',
+  discussionWeight: '',
 }
 
 export function ModuleFormModal({
@@ -37,6 +86,7 @@ export function ModuleFormModal({
   mode,
   courseId,
   module,
+  modules = [],
   onClose,
   onSuccess,
 }: ModuleFormModalProps) {
@@ -44,6 +94,7 @@ export function ModuleFormModal({
   const [errors, setErrors] = useState<FormErrors>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [apiError, setApiError] = useState<string | null>(null)
+  const [assignments, setAssignments] = useState<AssignmentOption[]>([])
   const titleInputRef = useRef<HTMLInputElement>(null)
 
   // Reset/initialize form when modal opens
@@ -54,6 +105,17 @@ export function ModuleFormModal({
           title: module.title,
           description: module.description || '',
           requiresPrevious: module.requiresPrevious,
+          publishAt: toDateTimeLocalValue(module.publishAt),
+          unpublishAt: toDateTimeLocalValue(module.unpublishAt),
+          unlockAt: toDateTimeLocalValue(module.unlockAt),
+          prerequisiteModuleId: module.prerequisiteModuleId || '',
+          prerequisiteAssignmentId: module.prerequisiteAssignmentId || '',
+          prerequisiteMinScore: module.prerequisiteMinScore?.toString() ?? '',
+          passingScore: module.passingScore?.toString() ?? '',
+          requireDiscussionPost: module.requireDiscussionPost,
+          contentWeight: module.contentWeight?.toString() ?? '',
+          assignmentWeight: module.assignmentWeight?.toString() ?? '',
+          discussionWeight: module.discussionWeight?.toString() ?? '',
         })
       } else {
         setFormData(initialFormData)
@@ -65,6 +127,24 @@ export function ModuleFormModal({
     }
   }, [isOpen, mode, module])
 
+  // Load course assignments for the gating assignment picker
+  useEffect(() => {
+    if (!isOpen || !courseId) return
+
+    fetch(`/api/instructor/courses/${courseId}/assignments`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: AssignmentOption[]) => setAssignments(data))
+      .catch(() => setAssignments([]))
+  }, [isOpen, courseId])
+
+  // Only earlier modules can be prerequisites, and never the module itself
+  const prerequisiteModuleOptions = modules.filter((m) =>
+    mode === 'edit' && module ? m.orderIndex < module.orderIndex : true
+  )
+  const prerequisiteAssignmentOptions = assignments.filter(
+    (a) => !(mode === 'edit' && module && a.moduleId === module.id)
+  )
+
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
       const { name, value } = e.target
@@ -122,6 +202,29 @@ export function ModuleFormModal({
         return
       }
 
+      const publishAt = fromDateTimeLocalValue(formData.publishAt)
+      const unpublishAt = fromDateTimeLocalValue(formData.unpublishAt)
+      const windowError = validatePublishWindow({ publishAt, unpublishAt })
+      if (windowError) {
+        setApiError(windowError)
+        return
+      }
+
+      const unlockAt = fromDateTimeLocalValue(formData.unlockAt)
+      const prerequisiteModuleId = formData.prerequisiteModuleId || null
+      const prerequisiteAssignmentId = formData.prerequisiteAssignmentId || null
+      const prerequisiteMinScore =
+        prerequisiteAssignmentId && formData.prerequisiteMinScore !== ''
+          ? Number(formData.prerequisiteMinScore)
+          : null
+
+      const passingScore = toOptionalNumber(formData.passingScore)
+      const weights = {
+        contentWeight: toOptionalNumber(formData.contentWeight),
+        assignmentWeight: toOptionalNumber(formData.assignmentWeight),
+        discussionWeight: toOptionalNumber(formData.discussionWeight),
+      }
+
       setIsSubmitting(true)
 
       try {
@@ -145,6 +248,35 @@ export function ModuleFormModal({
           if (formData.requiresPrevious !== module.requiresPrevious) {
             body.requiresPrevious = formData.requiresPrevious
           }
+          if (formData.publishAt !== toDateTimeLocalValue(module.publishAt)) {
+            body.publishAt = publishAt
+          }
+          if (formData.unpublishAt !== toDateTimeLocalValue(module.unpublishAt)) {
+            body.unpublishAt = unpublishAt
+          }
+          if (formData.unlockAt !== toDateTimeLocalValue(module.unlockAt)) {
+            body.unlockAt = unlockAt
+          }
+          if (prerequisiteModuleId !== module.prerequisiteModuleId) {
+            body.prerequisiteModuleId = prerequisiteModuleId
+          }
+          if (prerequisiteAssignmentId !== module.prerequisiteAssignmentId) {
+            body.prerequisiteAssignmentId = prerequisiteAssignmentId
+          }
+          if (prerequisiteMinScore !== module.prerequisiteMinScore) {
+            body.prerequisiteMinScore = prerequisiteMinScore
+          }
+          if (passingScore !== module.passingScore) {
+            body.passingScore = passingScore
+          }
+          if (formData.requireDiscussionPost !== module.requireDiscussionPost) {
+            body.requireDiscussionPost = formData.requireDiscussionPost
+          }
+          for (const { name } of WEIGHT_FIELDS) {
+            if (weights[name] !== module[name]) {
+              body[name] = weights[name]
+            }
+          }
 
           // Don't make request if nothing changed
           if (Object.keys(body).length === 0) {
@@ -157,6 +289,15 @@ export function ModuleFormModal({
             title: formData.title.trim(),
             description: formData.description.trim() || undefined,
             requiresPrevious: formData.requiresPrevious,
+            publishAt,
+            unpublishAt,
+            unlockAt,
+            prerequisiteModuleId,
+            prerequisiteAssignmentId,
+            prerequisiteMinScore,
+            passingScore,
+            requireDiscussionPost: formData.requireDiscussionPost,
+            ...weights,
           }
         }
 
@@ -202,7 +343,7 @@ export function ModuleFormModal({
       <Dialog.Portal>
         <Dialog.Overlay className="fixed inset-0 bg-black/50 z-50 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0" />
 
-        <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-md translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95">
+        <Dialog.Content className="fixed left-[50%] top-[50%] z-50 w-full max-w-md max-h-[90vh] overflow-y-auto translate-x-[-50%] translate-y-[-50%] bg-white p-6 shadow-lg rounded-lg data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0 data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95">
           <Dialog.Title className="text-lg font-semibold text-gray-900 mb-4">
             {isEdit ? 'Edit Module' : 'Create Module'}
           </Dialog.Title>
@@ -291,7 +432,7 @@ export function ModuleFormModal({
                 <div className="flex items-center gap-2 p-3 bg-gray-50 rounded-md">
                   <Globe className="h-4 w-4 text-green-600" />
                   <span className="text-sm text-gray-600">
-                    The first module is always accessible to all students.
+                    The first module never waits for a previous module.
                   </span>
                 </div>
               ) : (
@@ -323,6 +464,207 @@ export function ModuleFormModal({
               )}
             </div>
 
+            {/* Unlock Rules */}
+            <div className="pt-4 border-t border-gray-200 space-y-3">
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Unlock rules</h4>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Optional. Students must meet every rule you set before this module opens.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="unlockAt" className="block text-sm text-gray-700 mb-1">
+                  Unlock on
+                </label>
+                <input
+                  id="unlockAt"
+                  type="datetime-local"
+                  value={formData.unlockAt}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, unlockAt: e.target.value }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="prerequisiteModuleId" className="block text-sm text-gray-700 mb-1">
+                  Complete module first
+                </label>
+                <select
+                  id="prerequisiteModuleId"
+                  value={formData.prerequisiteModuleId}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, prerequisiteModuleId: e.target.value }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  disabled={isSubmitting}
+                >
+                  <option value="">None</option>
+                  {prerequisiteModuleOptions.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label htmlFor="prerequisiteAssignmentId" className="block text-sm text-gray-700 mb-1">
+                    Gating assignment
+                  </label>
+                  <select
+                    id="prerequisiteAssignmentId"
+                    value={formData.prerequisiteAssignmentId}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        prerequisiteAssignmentId: e.target.value,
+                        prerequisiteMinScore: e.target.value ? prev.prerequisiteMinScore : '',
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    disabled={isSubmitting}
+                  >
+                    <option value="">None</option>
+                    {prerequisiteAssignmentOptions.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="prerequisiteMinScore" className="block text-sm text-gray-700 mb-1">
+                    Min. score %
+                  </label>
+                  <input
+                    id="prerequisiteMinScore"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="any"
+                    value={formData.prerequisiteMinScore}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, prerequisiteMinScore: e.target.value }))
+                    }
+                    placeholder="Any"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                    disabled={isSubmitting || !formData.prerequisiteAssignmentId}
+                  />
+                </div>
+              </div>
+              {formData.prerequisiteAssignmentId && (
+                <p className="text-xs text-gray-500">
+                  {formData.prerequisiteMinScore
+                    ? 'Students need a graded score at or above the minimum.'
+                    : 'Students only need to submit the assignment.'}
+                </p>
+              )}
+            </div>
+
+            {/* Completion Rules */}
+            <div className="pt-4 border-t border-gray-200 space-y-3">
+              <div>
+                <h4 className="text-sm font-medium text-gray-700">Completion</h4>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Students complete this module by viewing its required content and
+                  submitting its required assignments.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="passingScore" className="block text-sm text-gray-700 mb-1">
+                  Passing score %
+                </label>
+                <input
+                  id="passingScore"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={formData.passingScore}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, passingScore: e.target.value }))
+                  }
+                  placeholder="Submission is enough"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  disabled={isSubmitting}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  When set, required assignments only count once graded at or above this score.
+                </p>
+              </div>
+
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.requireDiscussionPost}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      requireDiscussionPost: e.target.checked,
+                    }))
+                  }
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  disabled={isSubmitting}
+                />
+                <div>
+                  <span className="text-sm font-medium text-gray-900">
+                    Require discussion participation
+                  </span>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Students must post in each of this module&apos;s discussions.
+                  </p>
+                </div>
+              </label>
+
+              <div>
+                <span className="block text-sm text-gray-700 mb-1">Progress weights</span>
+                <div className="grid grid-cols-3 gap-3">
+                  {WEIGHT_FIELDS.map(({ name, label }) => (
+                    <div key={name}>
+                      <label htmlFor={name} className="block text-xs text-gray-500 mb-1">
+                        {label}
+                      </label>
+                      <input
+                        id={name}
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        value={formData[name]}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, [name]: e.target.value }))
+                        }
+                        placeholder="Equal"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        disabled={isSubmitting}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave blank to weigh each part equally. Parts without required items are skipped.
+                </p>
+              </div>
+            </div>
+
+            {/* Schedule */}
+            <div className="pt-4 border-t border-gray-200">
+              <PublishScheduleFields
+                publishAt={formData.publishAt}
+                unpublishAt={formData.unpublishAt}
+                onChange={(field, value) =>
+                  setFormData((prev) => ({ ...prev, [field]: value }))
+                }
+                disabled={isSubmitting}
+              />
+            </div>
+
             {/* Actions */}
             <div className="flex justify-end gap-3 mt-6">
               <button
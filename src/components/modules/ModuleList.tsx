@@ -24,6 +24,7 @@ import toast from 'react-hot-toast'
 import { useModules, Module } from './hooks/useModules'
 import SortableModuleCard from './SortableModuleCard'
 import ModuleFormModal from './ModuleFormModal'
+import PublishStatusBadge from '@/components/PublishStatusBadge'
 
 interface ModuleListProps {
   courseId: string
@@ -258,6 +259,7 @@ export default function ModuleList({ courseId }: ModuleListProps) {
           mode={modalMode}
           courseId={courseId}
           module={selectedModule}
+          modules={modules}
           onClose={handleCloseModal}
           onSuccess={handleSuccess}
         />
@@ -345,15 +347,7 @@ export default function ModuleList({ courseId }: ModuleListProps) {
                     {/* Status Badge and Counts Row */}
                     <div className="mt-3 flex items-center flex-wrap gap-3">
                       {/* Status Badge */}
-                      <span
-                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          activeModule.isPublished
-                            ? 'bg-green-600 text-white'
-                            : 'bg-gray-600 text-white'
-                        }`}
-                      >
-                        {activeModule.isPublished ? 'Published' : 'Draft'}
-                      </span>
+                      <PublishStatusBadge record={activeModule} />
 
                       {/* Counts */}
                       <div className="flex items-center gap-3 text-sm text-white">
@@ -385,6 +379,7 @@ export default function ModuleList({ courseId }: ModuleListProps) {
         mode={modalMode}
         courseId={courseId}
         module={selectedModule}
+        modules={modules}
         onClose={handleCloseModal}
         onSuccess={handleSuccess}
       />
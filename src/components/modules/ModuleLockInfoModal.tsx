@@ -11,6 +11,8 @@ interface ModuleLockInfoModalProps {
   unlockMessage: string
   prerequisiteModuleId?: string
   prerequisiteModuleTitle?: string
+  prerequisiteAssignmentId?: string
+  prerequisiteAssignmentTitle?: string
   courseId: string
 }
 
@@ -21,6 +23,8 @@ export default function ModuleLockInfoModal({
   unlockMessage,
   prerequisiteModuleId,
   prerequisiteModuleTitle,
+  prerequisiteAssignmentId,
+  prerequisiteAssignmentTitle,
   courseId,
 }: ModuleLockInfoModalProps) {
   return (
@@ -49,7 +53,7 @@ export default function ModuleLockInfoModal({
           </div>
 
           <Dialog.Description className="text-sm text-gray-500 mb-4">
-            This module has prerequisites that need to be completed first.
+            This module has unlock requirements that need to be met first.
           </Dialog.Description>
 
           <div className="bg-gray-50 rounded-lg p-4 mb-6">
@@ -70,6 +74,16 @@ export default function ModuleLockInfoModal({
                 <ArrowRight className="h-4 w-4" />
               </Link>
             )}
+            {prerequisiteAssignmentId && prerequisiteAssignmentTitle && (
+              <Link
+                href={`/courses/${courseId}/assignments/${prerequisiteAssignmentId}`}
+                className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                onClick={onClose}
+              >
+                Go to {prerequisiteAssignmentTitle}
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            )}
             <button
               onClick={onClose}
               className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
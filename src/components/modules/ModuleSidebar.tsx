@@ -15,12 +15,13 @@ import {
   CheckCircle,
   Circle,
   Lock,
+  ListChecks,
 } from 'lucide-react'
 
 interface ContentItem {
   id: string
   title: string
-  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
   isViewed?: boolean
 }
 
@@ -64,6 +65,7 @@ const contentTypeIcons: Record<string, React.ComponentType<{ className?: string
   LINK: LinkIcon,
   SCORM: BookOpen,
   YOUTUBE: Video,
+  QUIZ: ListChecks,
 }
 
 export default function ModuleSidebar({
@@ -0,0 +1,485 @@
+'use client'
+
+/**
+ * QuizPlayer Component
+ *
+ * Lets a student take a quiz content item: shows the quiz settings and past
+ * attempts, starts or resumes an attempt, counts down timed attempts
+ * (submitting automatically when time runs out) and shows the auto-graded
+ * result. Answers are kept in localStorage so a reload does not lose them.
+ *
+ * The countdown runs from the time left by the server's clock, so a student
+ * whose clock is off still submits inside the server's grace period. An
+ * automatic submit is tried once; if it fails the student retries by hand.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { CheckCircle, Clock, ListChecks, Loader2, XCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+type QuestionType = 'MULTIPLE_CHOICE' | 'MULTI_SELECT' | 'TRUE_FALSE' | 'NUMERIC' | 'SHORT_ANSWER'
+
+interface QuizInfo {
+  title: string
+  questionCount: number
+  timeLimitMinutes: number | null
+  maxPoints: number
+  dueDate: string | null
+  maxAttempts: number
+  attemptsUsed: number
+  remainingAttempts: number | null
+  canStart: boolean
+  closedReason: string | null
+}
+
+interface PastAttempt {
+  id: string
+  attemptNumber: number | null
+  submittedAt: string
+  earnedPoints: number | null
+  possiblePoints: number | null
+  points: number | null
+  isCounted: boolean
+}
+
+interface QuizOverview {
+  quiz: QuizInfo
+  attempts: PastAttempt[]
+  activeAttempt: { id: string; expiresAt: string | null } | null
+  grade: { points: number; latePenaltyPercent: number | null } | null
+}
+
+interface AttemptQuestion {
+  id: string
+  type: QuestionType
+  prompt: string
+  points: number
+  options: Array<{ id: string; text: string }>
+}
+
+interface ActiveAttempt {
+  id: string
+  expiresAt: string | null
+  remainingSeconds: number | null
+  questions: AttemptQuestion[]
+}
+
+interface Answer {
+  selectedOptionIds?: string[]
+  numericAnswer?: string
+  textAnswer?: string
+}
+
+export interface QuizSubmitResult {
+  attempt: { earnedPoints: number; possiblePoints: number; points: number; expired: boolean }
+  results: Array<{ questionId: string; isCorrect: boolean; points: number }>
+  grade: { points: number; latePenaltyPercent: number | null } | null
+  unlockedModule: { id: string; title: string } | null
+}
+
+interface QuizPlayerProps {
+  courseId: string
+  moduleId: string
+  contentId: string
+  onSubmitted?: (result: QuizSubmitResult) => void
+}
+
+const answersStorageKey = (attemptId: string) => `quiz-attempt:${attemptId}`
+
+function formatRemaining(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${minutes}:${secs.toString().padStart(2, '0')}`
+}
+
+export default function QuizPlayer({ courseId, moduleId, contentId, onSubmitted }: QuizPlayerProps) {
+  const baseUrl = `/api/student/courses/${courseId}/modules/${moduleId}/content/${contentId}/quiz`
+
+  const [overview, setOverview] = useState<QuizOverview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [attempt, setAttempt] = useState<ActiveAttempt | null>(null)
+  const [answers, setAnswers] = useState<Record<string, Answer>>({})
+  const [result, setResult] = useState<QuizSubmitResult | null>(null)
+  const [starting, setStarting] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null)
+  // Local time at which a timed attempt runs out
+  const [deadline, setDeadline] = useState<number | null>(null)
+  const [autoSubmitFailed, setAutoSubmitFailed] = useState(false)
+  const submittedRef = useRef(false)
+  const autoSubmittedRef = useRef(false)
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(baseUrl)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load quiz')
+      }
+
+      setOverview(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load quiz')
+    } finally {
+      setLoading(false)
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    fetchOverview()
+  }, [fetchOverview])
+
+  // Keep answers across reloads of the same attempt
+  useEffect(() => {
+    if (attempt) {
+      localStorage.setItem(answersStorageKey(attempt.id), JSON.stringify(answers))
+    }
+  }, [attempt, answers])
+
+  const startAttempt = async () => {
+    setStarting(true)
+    try {
+      const response = await fetch(baseUrl, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to start quiz')
+      }
+
+      const saved = localStorage.getItem(answersStorageKey(data.attempt.id))
+      setAnswers(saved ? JSON.parse(saved) : {})
+      setResult(null)
+      submittedRef.current = false
+      autoSubmittedRef.current = false
+      setAutoSubmitFailed(false)
+      setDeadline(data.attempt.remainingSeconds !== null ? Date.now() + data.attempt.remainingSeconds * 1000 : null)
+      setAttempt(data.attempt)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start quiz')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const submitAttempt = useCallback(async () => {
+    if (!attempt || submittedRef.current) return
+    submittedRef.current = true
+    setSubmitting(true)
+    setAutoSubmitFailed(false)
+
+    try {
+      const payload = {
+        answers: attempt.questions.map((question) => {
+          const answer = answers[question.id] ?? {}
+          return {
+            questionId: question.id,
+            selectedOptionIds: answer.selectedOptionIds ?? [],
+            numericAnswer:
+              answer.numericAnswer !== undefined && answer.numericAnswer !== '' ? parseFloat(answer.numericAnswer) : null,
+            textAnswer: answer.textAnswer ?? null,
+          }
+        }),
+      }
+
+      const response = await fetch(`${baseUrl}/attempts/${attempt.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to submit quiz')
+      }
+
+      localStorage.removeItem(answersStorageKey(attempt.id))
+      setResult(data)
+      setAttempt(null)
+      setRemainingSeconds(null)
+      setDeadline(null)
+      onSubmitted?.(data)
+      fetchOverview()
+    } catch (err) {
+      submittedRef.current = false
+      if (autoSubmittedRef.current) setAutoSubmitFailed(true)
+      toast.error(err instanceof Error ? err.message : 'Failed to submit quiz')
+    } finally {
+      setSubmitting(false)
+    }
+  }, [attempt, answers, baseUrl, fetchOverview, onSubmitted])
+
+  // Countdown for timed attempts; submits once when time runs out
+  useEffect(() => {
+    if (!attempt || deadline === null) return
+
+    const tick = () => {
+      const seconds = Math.max(0, Math.round((deadline - Date.now()) / 1000))
+      setRemainingSeconds(seconds)
+      if (seconds === 0 && !autoSubmittedRef.current) {
+        autoSubmittedRef.current = true
+        submitAttempt()
+      }
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [attempt, deadline, submitAttempt])
+
+  const updateAnswer = (questionId: string, changes: Answer) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: { ...prev[questionId], ...changes } }))
+  }
+
+  const toggleOption = (question: AttemptQuestion, optionId: string) => {
+    const selected = answers[question.id]?.selectedOptionIds ?? []
+    if (question.type === 'MULTI_SELECT') {
+      updateAnswer(question.id, {
+        selectedOptionIds: selected.includes(optionId)
+          ? selected.filter((id) => id !== optionId)
+          : [...selected, optionId],
+      })
+    } else {
+      updateAnswer(question.id, { selectedOptionIds: [optionId] })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+      </div>
+    )
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">{error || 'Failed to load quiz'}</p>
+        <button onClick={fetchOverview} className="mt-4 text-indigo-600 hover:text-indigo-700">
+          Try again
+        </button>
+      </div>
+    )
+  }
+
+  // Taking an attempt
+  if (attempt) {
+    const answeredCount = attempt.questions.filter((q) => {
+      const answer = answers[q.id]
+      return answer && (answer.selectedOptionIds?.length || answer.numericAnswer || answer.textAnswer?.trim())
+    }).length
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between sticky top-0 bg-white py-2 border-b">
+          <p className="text-sm text-gray-600">
+            {answeredCount} of {attempt.questions.length} answered
+          </p>
+          {remainingSeconds !== null && (
+            <span
+              className={`inline-flex items-center gap-1 text-sm font-medium ${
+                remainingSeconds < 60 ? 'text-red-600' : 'text-gray-700'
+              }`}
+            >
+              <Clock className="h-4 w-4" />
+              {formatRemaining(remainingSeconds)}
+            </span>
+          )}
+        </div>
+
+        {autoSubmitFailed && (
+          <div className="flex items-center justify-between gap-4 border border-red-200 bg-red-50 rounded-lg p-3 text-sm text-red-700">
+            <span>Time is up, but your answers could not be submitted.</span>
+            <button
+              onClick={submitAttempt}
+              disabled={submitting}
+              className="font-medium text-red-700 hover:text-red-800 disabled:opacity-50"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {attempt.questions.map((question, index) => (
+          <div key={question.id} className="border rounded-lg p-4">
+            <div className="flex items-start justify-between gap-4 mb-3">
+              <p className="font-medium text-gray-900 whitespace-pre-wrap">
+                {index + 1}. {question.prompt}
+              </p>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {question.points} pt{question.points === 1 ? '' : 's'}
+              </span>
+            </div>
+
+            {(question.type === 'MULTIPLE_CHOICE' ||
+              question.type === 'TRUE_FALSE' ||
+              question.type === 'MULTI_SELECT') && (
+              <div className="space-y-2">
+                {question.type === 'MULTI_SELECT' && (
+                  <p className="text-xs text-gray-500">Select all that apply.</p>
+                )}
+                {question.options.map((option) => (
+                  <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type={question.type === 'MULTI_SELECT' ? 'checkbox' : 'radio'}
+                      name={`question-${question.id}`}
+                      checked={answers[question.id]?.selectedOptionIds?.includes(option.id) ?? false}
+                      onChange={() => toggleOption(question, option.id)}
+                      className="h-4 w-4 text-indigo-600"
+                    />
+                    {option.text}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {question.type === 'NUMERIC' && (
+              <input
+                type="number"
+                step="any"
+                aria-label={`Answer to question ${index + 1}`}
+                value={answers[question.id]?.numericAnswer ?? ''}
+                onChange={(e) => updateAnswer(question.id, { numericAnswer: e.target.value })}
+                className="w-48 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            )}
+
+            {question.type === 'SHORT_ANSWER' && (
+              <input
+                type="text"
+                maxLength={1000}
+                aria-label={`Answer to question ${index + 1}`}
+                value={answers[question.id]?.textAnswer ?? ''}
+                onChange={(e) => updateAnswer(question.id, { textAnswer: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            )}
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <button
+            onClick={submitAttempt}
+            disabled={submitting}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Submit Quiz
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const { quiz, attempts, activeAttempt, grade } = overview
+
+  return (
+    <div className="space-y-6">
+      {result && (
+        <div className="border border-indigo-200 bg-indigo-50 rounded-lg p-4">
+          <p className="font-medium text-indigo-900">
+            You scored {result.attempt.earnedPoints} / {result.attempt.possiblePoints} ({result.attempt.points} /{' '}
+            {quiz.maxPoints} points)
+          </p>
+          {result.attempt.expired && (
+            <p className="text-sm text-indigo-800 mt-1">Time ran out before the quiz was submitted.</p>
+          )}
+          <ul className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            {result.results.map((r, index) => (
+              <li key={r.questionId} className="flex items-center gap-1">
+                {r.isCorrect ? (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-red-500" />
+                )}
+                Question {index + 1}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-start gap-4">
+        <ListChecks className="h-10 w-10 text-indigo-500" />
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm flex-1">
+          <div>
+            <dt className="text-gray-500">Questions</dt>
+            <dd className="font-medium text-gray-900">{quiz.questionCount}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Time limit</dt>
+            <dd className="font-medium text-gray-900">
+              {quiz.timeLimitMinutes ? `${quiz.timeLimitMinutes} min` : 'None'}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Attempts</dt>
+            <dd className="font-medium text-gray-900">
+              {quiz.attemptsUsed} / {quiz.maxAttempts === 0 ? 'Unlimited' : quiz.maxAttempts}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Due</dt>
+            <dd className="font-medium text-gray-900">
+              {quiz.dueDate ? new Date(quiz.dueDate).toLocaleString() : 'No due date'}
+            </dd>
+          </div>
+        </dl>
+      </div>
+
+      {grade && (
+        <p className="text-sm text-gray-700">
+          Current grade: <strong>{grade.points}</strong> / {quiz.maxPoints}
+          {grade.latePenaltyPercent ? ` (${grade.latePenaltyPercent}% late penalty)` : ''}
+        </p>
+      )}
+
+      {quiz.closedReason && !activeAttempt && <p className="text-sm text-red-600">{quiz.closedReason}</p>}
+
+      {quiz.canStart && (
+        <button
+          onClick={startAttempt}
+          disabled={starting}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {starting && <Loader2 className="h-4 w-4 animate-spin" />}
+          {activeAttempt ? 'Resume Attempt' : attempts.length > 0 ? 'Start New Attempt' : 'Start Quiz'}
+        </button>
+      )}
+
+      {attempts.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Your attempts</h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-4 font-normal">Attempt</th>
+                <th className="py-1 pr-4 font-normal">Submitted</th>
+                <th className="py-1 pr-4 font-normal">Correct</th>
+                <th className="py-1 font-normal">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {attempts.map((a, index) => (
+                <tr key={a.id} className="border-t">
+                  <td className="py-1 pr-4">
+                    {a.attemptNumber ?? index + 1}
+                    {a.isCounted && <span className="ml-2 text-xs text-indigo-600">Counted</span>}
+                  </td>
+                  <td className="py-1 pr-4">{new Date(a.submittedAt).toLocaleString()}</td>
+                  <td className="py-1 pr-4">
+                    {a.earnedPoints} / {a.possiblePoints}
+                  </td>
+                  <td className="py-1">{a.points ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+'use client'
+
+/**
+ * ScormPlayer Component
+ *
+ * Plays an unpacked SCORM package: loads the package's launch file in a
+ * sandboxed iframe and saves the `cmi` data the SCO commits. The SCO talks
+ * to a bridge runtime inside the sandbox, which starts from the session
+ * passed in the frame's name and reports each call that changes the session
+ * over `postMessage`; the player replays those calls on its own runtime,
+ * which saves the data. The session is ended (and its data saved) when the
+ * student leaves the page, if the SCO has not ended it already.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { CheckCircle, Loader2 } from 'lucide-react'
+import {
+  createScormRuntime,
+  SCORM_SYNCED_CALLS,
+  type ScormBridgeMessage,
+  type ScormBridgeSession,
+} from '@/lib/scorm-runtime'
+
+type ScormVersion = 'SCORM_12' | 'SCORM_2004'
+
+interface ScormTracking {
+  completionStatus: 'NOT_ATTEMPTED' | 'INCOMPLETE' | 'COMPLETED' | 'UNKNOWN'
+  successStatus: 'PASSED' | 'FAILED' | 'UNKNOWN'
+  scoreScaled: number | null
+  completedAt: string | null
+}
+
+interface ScormLaunch {
+  scorm: {
+    id: string
+    title: string
+    version: ScormVersion
+    launchUrl: string
+    maxPoints: number | null
+  }
+  cmi: Record<string, string>
+  tracking: ScormTracking | null
+  grade: { points: number } | null
+}
+
+export interface ScormCommitResult {
+  tracking: ScormTracking
+  isComplete: boolean
+  grade: { points: number } | null
+  unlockedModule: { id: string; title: string } | null
+}
+
+interface ScormPlayerProps {
+  courseId: string
+  moduleId: string
+  contentId: string
+  onCompleted?: (result: ScormCommitResult) => void
+}
+
+const statusLabels: Record<ScormTracking['completionStatus'], string> = {
+  NOT_ATTEMPTED: 'Not started',
+  INCOMPLETE: 'In progress',
+  COMPLETED: 'Completed',
+  UNKNOWN: 'In progress',
+}
+
+export default function ScormPlayer({ courseId, moduleId, contentId, onCompleted }: ScormPlayerProps) {
+  const baseUrl = `/api/student/courses/${courseId}/modules/${moduleId}/content/${contentId}/scorm`
+
+  const [launch, setLaunch] = useState<ScormLaunch | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [tracking, setTracking] = useState<ScormTracking | null>(null)
+  const [grade, setGrade] = useState<{ points: number } | null>(null)
+  const [saveError, setSaveError] = useState(false)
+  const completedRef = useRef(false)
+  const frameRef = useRef<HTMLIFrameElement>(null)
+  const onCompletedRef = useRef(onCompleted)
+  onCompletedRef.current = onCompleted
+
+  const fetchLaunch = useCallback(async () => {
+    try {
+      setError(null)
+      setLoading(true)
+      const response = await fetch(baseUrl)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to load content')
+      }
+
+      setLaunch(data)
+      setTracking(data.tracking)
+      setGrade(data.grade)
+      completedRef.current = Boolean(data.tracking?.completedAt)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load content')
+    } finally {
+      setLoading(false)
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    fetchLaunch()
+  }, [fetchLaunch])
+
+  // Handed to the bridge in the sandbox through the frame's name
+  const frameName = useMemo(() => {
+    if (!launch) return undefined
+
+    const session: ScormBridgeSession = {
+      type: 'scorm-session',
+      version: launch.scorm.version,
+      data: launch.cmi,
+      origin: window.location.origin,
+    }
+    return JSON.stringify(session)
+  }, [launch])
+
+  // Listen for the bridge before the package is loaded
+  useEffect(() => {
+    if (!launch) return
+
+    // Commits are sent in order so a later commit never lands before an earlier one
+    let queue = Promise.resolve()
+
+    const runtime = createScormRuntime({
+      version: launch.scorm.version,
+      initialData: launch.cmi,
+      onCommit: (values, finished) => {
+        queue = queue.then(async () => {
+          try {
+            const response = await fetch(baseUrl, {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ values, finished }),
+              keepalive: finished,
+            })
+
+            if (!response.ok) {
+              setSaveError(true)
+              return
+            }
+
+            const result: ScormCommitResult = await response.json()
+            setSaveError(false)
+            setTracking(result.tracking)
+            if (result.grade) setGrade(result.grade)
+
+            if (result.isComplete && !completedRef.current) {
+              completedRef.current = true
+              onCompletedRef.current?.(result)
+            }
+          } catch (err) {
+            console.error('Error saving SCORM data:', err)
+            setSaveError(true)
+          }
+        })
+      },
+    })
+
+    const api = runtime.api as unknown as Record<string, (...args: (string | undefined)[]) => string>
+
+    const handleMessage = (event: MessageEvent<ScormBridgeMessage>) => {
+      // The sandboxed frame has an opaque origin, so it is recognised by its window
+      if (!frameRef.current || event.source !== frameRef.current.contentWindow) return
+
+      const { type, method, args } = event.data ?? {}
+      if (type !== 'scorm-call' || !SCORM_SYNCED_CALLS.includes(method) || !Array.isArray(args)) return
+
+      api[method](...args.map((arg) => (typeof arg === 'string' ? arg : undefined)))
+    }
+
+    const handleUnload = () => runtime.terminate()
+    window.addEventListener('message', handleMessage)
+    window.addEventListener('beforeunload', handleUnload)
+
+    return () => {
+      window.removeEventListener('message', handleMessage)
+      window.removeEventListener('beforeunload', handleUnload)
+      runtime.terminate()
+    }
+  }, [launch, baseUrl])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  if (error || !launch) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">{error || 'Failed to load content'}</p>
+        <button onClick={fetchLaunch} className="mt-4 text-blue-600 hover:text-blue-700">
+          Try again
+        </button>
+      </div>
+    )
+  }
+
+  const completionStatus = tracking?.completionStatus ?? 'NOT_ATTEMPTED'
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="inline-flex items-center gap-1 text-gray-700">
+          {tracking?.completedAt && <CheckCircle className="h-4 w-4 text-green-600" />}
+          {tracking?.completedAt ? 'Completed' : statusLabels[completionStatus]}
+          {tracking && tracking.successStatus !== 'UNKNOWN' && (
+            <span className={tracking.successStatus === 'PASSED' ? 'text-green-600' : 'text-red-600'}>
+              ({tracking.successStatus === 'PASSED' ? 'Passed' : 'Failed'})
+            </span>
+          )}
+        </span>
+        {launch.scorm.maxPoints !== null && (
+          <span className="text-gray-600">
+            {grade ? `Score: ${grade.points} / ${launch.scorm.maxPoints}` : `${launch.scorm.maxPoints} points`}
+          </span>
+        )}
+      </div>
+
+      {saveError && (
+        <p className="text-sm text-red-600">Your progress could not be saved. Check your connection.</p>
+      )}
+
+      <iframe
+        ref={frameRef}
+        src={launch.scorm.launchUrl}
+        name={frameName}
+        sandbox="allow-scripts allow-forms"
+        title={launch.scorm.title}
+        className="w-full h-[75vh] border rounded-lg"
+        allowFullScreen
+      />
+    </div>
+  )
+}
@@ -19,6 +19,7 @@ import {
   Globe,
   Trash2,
   Plus,
+  KeyRound,
 } from 'lucide-react'
 import * as Dialog from '@radix-ui/react-dialog'
 import toast from 'react-hot-toast'
@@ -27,6 +28,7 @@ import type { ModuleContent } from './hooks/useModuleContent'
 import ModuleContentList from './ModuleContentList'
 import MoveToModuleModal from './MoveToModuleModal'
 import DeleteModuleModal from './DeleteModuleModal'
+import PublishStatusBadge from '@/components/PublishStatusBadge'
 
 interface SortableModuleCardProps {
   module: Module
@@ -38,6 +40,24 @@ interface SortableModuleCardProps {
   onMoveSuccess?: () => void
 }
 
+function describeUnlockRules(module: Module): string[] {
+  const rules: string[] = []
+  if (module.unlockAt) {
+    rules.push(`Unlocks ${new Date(module.unlockAt).toLocaleString()}`)
+  }
+  if (module.prerequisiteModuleId) {
+    rules.push('Requires completing a specific module')
+  }
+  if (module.prerequisiteAssignmentId) {
+    rules.push(
+      module.prerequisiteMinScore !== null
+        ? `Requires ${module.prerequisiteMinScore}% on a gating assignment`
+        : 'Requires submitting a gating assignment'
+    )
+  }
+  return rules
+}
+
 function truncateText(text: string | null, maxLength: number = 100): string {
   if (!text) return ''
   if (text.length <= maxLength) return text
@@ -78,6 +98,8 @@ export default function SortableModuleCard({
     zIndex: isDragging ? 100 : 1,
   }
 
+  const unlockRules = describeUnlockRules(module)
+
   // Close menu when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -222,15 +244,7 @@ export default function SortableModuleCard({
             {/* Status Badge and Counts Row */}
             <div className="mt-3 flex items-center flex-wrap gap-3">
               {/* Status Badge */}
-              <span
-                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                  module.isPublished
-                    ? 'bg-green-600 text-white'
-                    : 'bg-gray-600 text-white'
-                }`}
-              >
-                {module.isPublished ? 'Published' : 'Draft'}
-              </span>
+              <PublishStatusBadge record={module} />
 
               {/* Prerequisite indicator */}
               {module.orderIndex === 0 ? (
@@ -259,6 +273,17 @@ export default function SortableModuleCard({
                 </span>
               )}
 
+              {/* Unlock rules indicator */}
+              {unlockRules.length > 0 && (
+                <span
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-600 text-white"
+                  title={unlockRules.join('\n')}
+                >
+                  <KeyRound className="h-3 w-3" />
+                  Unlock rules
+                </span>
+              )}
+
               {/* Counts */}
               <div className="flex items-center gap-3 text-sm text-white">
                 <span className="flex items-center gap-1 bg-gray-600 px-2 py-0.5 rounded">
@@ -2,9 +2,9 @@
 
 import Link from 'next/link'
 import Image from 'next/image'
-import { FileText, Video, File, Link as LinkIcon, BookOpen, Check } from 'lucide-react'
+import { FileText, Video, File, Link as LinkIcon, BookOpen, Check, ListChecks } from 'lucide-react'
 
-type ContentType = 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+type ContentType = 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
 
 interface ContentItem {
   id: string
@@ -13,6 +13,7 @@ interface ContentItem {
   fileUrl?: string | null
   thumbnailUrl?: string | null
   isViewed: boolean
+  isRequired?: boolean
 }
 
 /**
@@ -72,6 +73,8 @@ function getContentIcon(type: ContentType) {
       return LinkIcon
     case 'SCORM':
       return BookOpen
+    case 'QUIZ':
+      return ListChecks
     default:
       return FileText
   }
@@ -91,6 +94,8 @@ function getContentIconColor(type: ContentType) {
       return 'text-white bg-purple-500'
     case 'SCORM':
       return 'text-white bg-blue-500'
+    case 'QUIZ':
+      return 'text-white bg-indigo-500'
     default:
       return 'text-white bg-gray-500'
   }
@@ -139,6 +144,11 @@ export default function StudentContentItem({
               Viewed
             </span>
           )}
+          {item.isRequired === false && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+              Optional
+            </span>
+          )}
         </div>
       </div>
 
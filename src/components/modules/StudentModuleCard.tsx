@@ -158,6 +158,8 @@ export default function StudentModuleCard({
         unlockMessage={module.unlockMessage || 'Complete the previous module to unlock'}
         prerequisiteModuleId={module.prerequisiteModuleId}
         prerequisiteModuleTitle={module.prerequisiteModuleTitle}
+        prerequisiteAssignmentId={module.prerequisiteAssignmentId}
+        prerequisiteAssignmentTitle={module.prerequisiteAssignmentTitle}
         courseId={courseId}
       />
     </div>
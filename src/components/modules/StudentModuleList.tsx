@@ -20,6 +20,9 @@ export interface StudentModule {
   unlockMessage?: string
   prerequisiteModuleId?: string
   prerequisiteModuleTitle?: string
+  prerequisiteAssignmentId?: string
+  prerequisiteAssignmentTitle?: string
+  unlockAt?: string
 }
 
 interface StudentModuleListProps {
@@ -5,12 +5,14 @@ import { useState, useCallback } from 'react'
 export interface ModuleContent {
   id: string
   title: string
-  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE'
+  type: 'TEXT' | 'VIDEO' | 'DOCUMENT' | 'LINK' | 'SCORM' | 'YOUTUBE' | 'QUIZ'
   content: string | null
   fileUrl: string | null
   thumbnailUrl: string | null
   orderIndex: number
   isPublished: boolean
+  publishAt: string | null
+  unpublishAt: string | null
   createdAt: string
   moduleId: string | null
 }
@@ -9,6 +9,17 @@ export interface Module {
   orderIndex: number
   isPublished: boolean
   requiresPrevious: boolean
+  unlockAt: string | null
+  prerequisiteModuleId: string | null
+  prerequisiteAssignmentId: string | null
+  prerequisiteMinScore: number | null
+  passingScore: number | null
+  requireDiscussionPost: boolean
+  contentWeight: number | null
+  assignmentWeight: number | null
+  discussionWeight: number | null
+  publishAt: string | null
+  unpublishAt: string | null
   createdAt: string
   updatedAt: string
   contentCount: number
@@ -0,0 +1,114 @@
+/**
+ * Announcement Notifications
+ *
+ * Students who can see an announcement (everyone enrolled in the course, or
+ * in its section when it targets one) are told about it once, when it first
+ * becomes visible. An announcement posted live is announced right away. A
+ * scheduled one is left pending (`notifiedAt` is null) until its window
+ * opens; `notifyDueAnnouncements` announces it on the first read of
+ * notifications or announcements after that, since there is no background
+ * job (see `@/lib/publishing`).
+ *
+ * @module lib/announcement-notifications
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { notifyUsers, summarizeForNotification, type AfterCommitTasks } from '@/lib/notifications';
+import { withinPublishWindow } from '@/lib/publishing';
+import { notDeleted } from '@/lib/soft-delete';
+
+/**
+ * Prisma select for what an announcement notification needs
+ */
+export const notifiedAnnouncementSelect = {
+  id: true,
+  title: true,
+  content: true,
+  courseId: true,
+  sectionId: true,
+  authorId: true,
+  courses: { select: { code: true } },
+} satisfies Prisma.announcementsSelect;
+
+export type NotifiedAnnouncement = Prisma.announcementsGetPayload<{
+  select: typeof notifiedAnnouncementSelect;
+}>;
+
+/**
+ * Tell students about an announcement, unless they were already told
+ *
+ * The announcement is claimed before anyone is notified, so concurrent
+ * requests announce it once. Only call this for an announcement inside its
+ * publish window.
+ *
+ * @param afterCommit - Where to queue emails when `db` is a transaction client
+ * @returns Whether this call announced it
+ */
+export async function notifyAnnouncement(
+  announcement: NotifiedAnnouncement,
+  db: Prisma.TransactionClient = prisma,
+  now: Date = new Date(),
+  afterCommit?: AfterCommitTasks
+): Promise<boolean> {
+  const { count } = await db.announcements.updateMany({
+    where: { id: announcement.id, notifiedAt: null },
+    data: { notifiedAt: now },
+  });
+  if (count === 0) return false;
+
+  const enrollments = await db.enrollments.findMany({
+    where: {
+      courseId: announcement.courseId,
+      ...(announcement.sectionId && { sectionId: announcement.sectionId }),
+    },
+    select: { userId: true },
+  });
+
+  await notifyUsers(
+    {
+      userIds: enrollments.map((enrollment) => enrollment.userId),
+      type: 'ANNOUNCEMENT',
+      title: `${announcement.courses.code}: ${announcement.title}`,
+      body: summarizeForNotification(announcement.content),
+      link: `/courses/${announcement.courseId}/announcements`,
+      courseId: announcement.courseId,
+      actorId: announcement.authorId,
+    },
+    db,
+    afterCommit
+  );
+  return true;
+}
+
+/**
+ * Announce scheduled announcements whose publish window has opened
+ *
+ * Fail-open like other notifications: a failure is logged and never fails
+ * the read that triggered it.
+ *
+ * @returns How many announcements were announced
+ */
+export async function notifyDueAnnouncements(now: Date = new Date()): Promise<number> {
+  try {
+    const due = await prisma.announcements.findMany({
+      where: {
+        notifiedAt: null,
+        deletedAt: null,
+        courses: { isActive: true, ...notDeleted },
+        ...withinPublishWindow(now),
+      },
+      select: notifiedAnnouncementSelect,
+      orderBy: { publishAt: 'asc' },
+    });
+
+    let announced = 0;
+    for (const announcement of due) {
+      if (await notifyAnnouncement(announcement, prisma, now)) announced++;
+    }
+    return announced;
+  } catch (error) {
+    console.error('[Notifications] Failed to announce scheduled announcements:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Submission Attempts
+ *
+ * Assignments may accept several attempts per student (`maxAttempts`, with 0
+ * meaning unlimited). Every attempt is kept as its own `submissions` row with
+ * an increasing `attemptNumber`, its own file and timestamp, and its own score.
+ *
+ * The student's grade for the assignment (`grades`) is derived from the graded
+ * attempts according to the assignment's `gradedAttemptPolicy`:
+ * - LATEST: the most recent graded attempt counts
+ * - HIGHEST: the attempt with the highest score (after late penalties) counts
+ * - MANUAL: the instructor picks the counted attempt; grading a newer attempt
+ *   does not replace it (the latest graded attempt counts until one is picked)
+ *
+ * Late penalties are evaluated per attempt against that attempt's submission
+ * time, so `grades.rawPoints` / `latePenaltyPercent` describe the counted attempt.
+ *
+ * Each change to the grade's points or feedback is recorded in the grade history.
+ *
+ * @module lib/attempts
+ */
+
+import { randomUUID } from 'crypto';
+import type { GradeChangeSource, GradedAttemptPolicy, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { evaluateLateSubmission, applyLatePenalty } from '@/lib/late-policy';
+import { loadDueDateAdjustments, resolveStudentDeadline } from '@/lib/extensions';
+import { recordGradeChange } from '@/lib/grade-history';
+
+/**
+ * `maxAttempts` value that allows any number of attempts
+ */
+export const UNLIMITED_ATTEMPTS = 0;
+
+/**
+ * Attempt with the score that would count towards the grade
+ */
+export interface ScoredAttempt {
+  id: string;
+  attemptNumber: number;
+  /** Score after late penalty, or null when the attempt is not graded */
+  score: number | null;
+}
+
+/**
+ * Number of attempts a student has left
+ *
+ * @param maxAttempts - The assignment's attempt limit (0 = unlimited)
+ * @param attemptsUsed - Attempts already submitted
+ * @returns Remaining attempts, or null when attempts are unlimited
+ */
+export function getRemainingAttempts(maxAttempts: number, attemptsUsed: number): number | null {
+  if (maxAttempts === UNLIMITED_ATTEMPTS) return null;
+  return Math.max(0, maxAttempts - attemptsUsed);
+}
+
+/**
+ * Whether a student may submit another attempt
+ */
+export function canSubmitAttempt(maxAttempts: number, attemptsUsed: number): boolean {
+  const remaining = getRemainingAttempts(maxAttempts, attemptsUsed);
+  return remaining === null || remaining > 0;
+}
+
+/**
+ * Pick the attempt whose score counts as the grade
+ *
+ * Only graded attempts are considered. Ties under HIGHEST go to the later
+ * attempt. Under MANUAL the chosen attempt counts if it is graded; otherwise
+ * the latest graded attempt is used.
+ *
+ * @param policy - The assignment's graded attempt policy
+ * @param attempts - The student's attempts for the assignment
+ * @param manualSubmissionId - Attempt chosen by the instructor (MANUAL only)
+ * @returns The counted attempt, or null when no attempt is graded
+ */
+export function selectGradedAttempt<T extends ScoredAttempt>(
+  policy: GradedAttemptPolicy,
+  attempts: T[],
+  manualSubmissionId?: string | null
+): T | null {
+  const graded = attempts
+    .filter((a) => a.score !== null)
+    .sort((a, b) => a.attemptNumber - b.attemptNumber);
+
+  if (graded.length === 0) return null;
+
+  const latest = graded[graded.length - 1];
+
+  switch (policy) {
+    case 'HIGHEST':
+      return graded.reduce((best, a) => ((a.score as number) >= (best.score as number) ? a : best));
+    case 'MANUAL':
+      return graded.find((a) => a.id === manualSubmissionId) ?? latest;
+    case 'LATEST':
+    default:
+      return latest;
+  }
+}
+
+/**
+ * Pick the attempt to show for a student (e.g. in a gradebook cell)
+ *
+ * @param attempts - The student's attempts
+ * @param countedSubmissionId - The attempt the grade is based on, if any
+ * @returns The counted attempt, else the latest attempt, else null
+ */
+export function pickDisplayedAttempt<T extends { id: string; attemptNumber: number }>(
+  attempts: T[],
+  countedSubmissionId?: string | null
+): T | null {
+  if (attempts.length === 0) return null;
+
+  const counted = countedSubmissionId ? attempts.find((a) => a.id === countedSubmissionId) : undefined;
+  return counted ?? attempts.reduce((latest, a) => (a.attemptNumber > latest.attemptNumber ? a : latest));
+}
+
+/**
+ * Recalculate a student's grade from their graded attempts
+ *
+ * Upserts the `grades` row with the counted attempt's score (late penalty
+ * applied) and feedback, and records the change in the grade history. Does
+ * nothing when no attempt has been graded.
+ *
+ * @param params.assignmentId - The assignment
+ * @param params.studentId - The student
+ * @param params.gradedById - The instructor recorded as grader
+ * @param params.source - What caused the recalculation, for the grade history
+ * @param params.reason - Why the grade was changed, if given
+ * @param params.manualSubmissionId - Attempt to count under the MANUAL policy
+ *   (defaults to the attempt currently counted)
+ * @param db - Prisma client or transaction client
+ * @returns The grade and the attempt it was based on before and after the update
+ */
+export async function syncGradeFromAttempts(
+  params: {
+    assignmentId: string;
+    studentId: string;
+    gradedById: string;
+    source: GradeChangeSource;
+    reason?: string | null;
+    manualSubmissionId?: string;
+  },
+  db: Prisma.TransactionClient = prisma
+) {
+  const { assignmentId, studentId, gradedById } = params;
+
+  const [assignment, attempts, existingGrade] = await Promise.all([
+    db.assignments.findUniqueOrThrow({
+      where: { id: assignmentId },
+      select: {
+        id: true,
+        courseId: true,
+        createdAt: true,
+        dueDate: true,
+        latePolicy: true,
+        lateGraceMinutes: true,
+        latePenaltyPerDay: true,
+        lateCutoffAt: true,
+        gradedAttemptPolicy: true,
+      },
+    }),
+    db.submissions.findMany({
+      where: { assignmentId, studentId },
+      select: { id: true, attemptNumber: true, submittedAt: true, points: true, feedback: true },
+    }),
+    db.grades.findUnique({
+      where: { assignmentId_studentId: { assignmentId, studentId } },
+      select: { id: true, submissionId: true, points: true, feedback: true, deletedAt: true },
+    }),
+  ]);
+
+  const adjustments = await loadDueDateAdjustments(
+    {
+      assignmentIds: [assignmentId],
+      courseIds: [assignment.courseId],
+      studentIds: [studentId],
+    },
+    db
+  );
+  const deadline = resolveStudentDeadline(assignment, studentId, adjustments);
+
+  const scored = attempts.map((attempt) => {
+    const penaltyPercent =
+      attempt.points !== null ? evaluateLateSubmission(deadline, attempt.submittedAt).penaltyPercent : 0;
+    return {
+      ...attempt,
+      penaltyPercent,
+      score:
+        attempt.points !== null && penaltyPercent > 0
+          ? applyLatePenalty(attempt.points, penaltyPercent)
+          : attempt.points,
+    };
+  });
+
+  const previousSubmissionId = existingGrade?.submissionId ?? null;
+  const counted = selectGradedAttempt(
+    assignment.gradedAttemptPolicy,
+    scored,
+    params.manualSubmissionId ?? previousSubmissionId
+  );
+
+  if (!counted || counted.score === null) {
+    return { grade: null, submissionId: null, previousSubmissionId };
+  }
+
+  const gradeData = {
+    points: counted.score,
+    rawPoints: counted.points,
+    latePenaltyPercent: counted.penaltyPercent > 0 ? counted.penaltyPercent : null,
+    feedback: counted.feedback,
+    submissionId: counted.id,
+    gradedById,
+    gradedAt: new Date(),
+  };
+
+  const grade = await db.grades.upsert({
+    where: { assignmentId_studentId: { assignmentId, studentId } },
+    create: { id: randomUUID(), assignmentId, studentId, ...gradeData },
+    update: { ...gradeData, deletedAt: null },
+  });
+
+  await recordGradeChange(db, {
+    assignmentId,
+    studentId,
+    submissionId: counted.id,
+    changedById: gradedById,
+    source: params.source,
+    reason: params.reason,
+    previous: existingGrade && !existingGrade.deletedAt ? existingGrade : null,
+    next: grade,
+  });
+
+  return { grade, submissionId: counted.id, previousSubmissionId };
+}
@@ -0,0 +1,65 @@
+/**
+ * Audit Log Actions
+ *
+ * Actions and target types recorded in the audit log, with display labels.
+ * Kept free of server imports so client components can use them.
+ */
+
+/**
+ * Display labels for audited actions
+ */
+export const AUDIT_ACTION_LABELS = {
+  user_created: 'User created',
+  user_updated: 'User updated',
+  user_role_changed: 'Role changed',
+  user_deactivated: 'User deactivated',
+  users_imported: 'Users imported',
+  password_reset: 'Password reset',
+  course_created: 'Course created',
+  course_updated: 'Course updated',
+  course_deleted: 'Course deleted',
+  course_copied: 'Course copied',
+  course_exported: 'Course exported',
+  course_imported: 'Course imported',
+  module_created: 'Module created',
+  module_updated: 'Module updated',
+  module_deleted: 'Module deleted',
+  content_created: 'Content created',
+  content_updated: 'Content updated',
+  content_deleted: 'Content deleted',
+  assignment_created: 'Assignment created',
+  assignment_updated: 'Assignment updated',
+  assignment_deleted: 'Assignment deleted',
+  discussion_deleted: 'Discussion deleted',
+  announcement_deleted: 'Announcement deleted',
+  rubric_deleted: 'Rubric deleted',
+  question_bank_deleted: 'Question bank deleted',
+  record_restored: 'Record restored',
+  gradebook_exported: 'Gradebook exported',
+  gradebook_imported: 'Gradebook imported',
+} as const
+
+export type AuditAction = keyof typeof AUDIT_ACTION_LABELS
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]
+
+/**
+ * Display labels for the kinds of records an action can target
+ */
+export const AUDIT_TARGET_TYPE_LABELS = {
+  user: 'User',
+  course: 'Course',
+  module: 'Module',
+  courseContent: 'Content',
+  assignment: 'Assignment',
+  grade: 'Grade',
+  discussion: 'Discussion',
+  announcement: 'Announcement',
+  rubric: 'Rubric',
+  questionBank: 'Question bank',
+  gradebook: 'Gradebook',
+} as const
+
+export type AuditTargetType = keyof typeof AUDIT_TARGET_TYPE_LABELS
+
+export const AUDIT_TARGET_TYPES = Object.keys(AUDIT_TARGET_TYPE_LABELS) as AuditTargetType[]
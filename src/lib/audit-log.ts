@@ -0,0 +1,229 @@
+/**
+ * Audit Log
+ *
+ * Persistent, queryable record of administrative and instructor actions
+ * (user management, deletes and restores, gradebook imports and exports).
+ * Each entry stores who acted (and their role at the time), what they did
+ * and to which record, with action-specific details.
+ *
+ * Entries are also written to the server log as structured JSON. Recording is
+ * fail-open: an audit failure is logged but never fails the action, which has
+ * already happened by the time it is recorded.
+ */
+
+import { randomUUID } from 'crypto'
+import { Prisma, UserRole } from '@prisma/client'
+import { format } from 'date-fns'
+import { prisma } from './prisma'
+import { escapeCSV } from './csv-export'
+import { AUDIT_ACTION_LABELS, AuditAction, AuditTargetType } from './audit-actions'
+
+export * from './audit-actions'
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * The user performing an action (`session.user`)
+ */
+export interface AuditActor {
+  id: string
+  role: string
+}
+
+/**
+ * An action to record
+ */
+export interface AuditEntry {
+  actor: AuditActor
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId?: string | null
+  details?: Record<string, unknown>
+}
+
+/**
+ * Record an action in the audit log
+ *
+ * @param entry - The action, who performed it and its target
+ * @param db - Prisma client or transaction client (default: prisma)
+ *
+ * @example
+ * await recordAuditLog({
+ *   actor: session.user,
+ *   action: 'password_reset',
+ *   targetType: 'user',
+ *   targetId: id,
+ * })
+ */
+export async function recordAuditLog(
+  entry: AuditEntry,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const { actor, action, targetType, targetId = null, details } = entry
+
+  console.log(
+    JSON.stringify({
+      level: 'info',
+      action,
+      actorId: actor.id,
+      targetType,
+      targetId,
+      ...details,
+      timestamp: new Date().toISOString(),
+    })
+  )
+
+  try {
+    await db.audit_logs.create({
+      data: {
+        id: randomUUID(),
+        action,
+        actorId: actor.id,
+        actorRole: actor.role as UserRole,
+        targetType,
+        targetId,
+        details: details ? (details as Prisma.InputJsonObject) : Prisma.JsonNull,
+      },
+    })
+  } catch (error) {
+    console.error('[Audit Log] Failed to record action:', action, error)
+  }
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+/**
+ * Prisma select for audit log entries with the acting user
+ */
+export const auditLogEntrySelect = {
+  id: true,
+  action: true,
+  actorRole: true,
+  targetType: true,
+  targetId: true,
+  details: true,
+  createdAt: true,
+  users: {
+    select: { id: true, name: true, surname: true, email: true },
+  },
+} satisfies Prisma.audit_logsSelect
+
+type AuditLogEntryRecord = Prisma.audit_logsGetPayload<{
+  select: typeof auditLogEntrySelect
+}>
+
+/**
+ * Filters for the audit log report
+ */
+export interface AuditLogFilters {
+  actorId?: string
+  /** Matches the acting user's name or email */
+  search?: string
+  action?: string
+  targetType?: string
+  targetId?: string
+  from?: Date
+  to?: Date
+}
+
+/**
+ * Build the Prisma where clause for audit log filters
+ */
+export function buildAuditLogWhere(filters: AuditLogFilters): Prisma.audit_logsWhereInput {
+  const { actorId, search, action, targetType, targetId, from, to } = filters
+
+  return {
+    ...(actorId && { actorId }),
+    ...(action && { action }),
+    ...(targetType && { targetType }),
+    ...(targetId && { targetId }),
+    ...((from || to) && {
+      createdAt: {
+        ...(from && { gte: from }),
+        ...(to && { lte: to }),
+      },
+    }),
+    ...(search && {
+      users: {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { surname: { contains: search, mode: 'insensitive' } },
+          { email: { contains: search, mode: 'insensitive' } },
+        ],
+      },
+    }),
+  }
+}
+
+/**
+ * Label for an action, falling back to the stored action name
+ */
+export function getAuditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action
+}
+
+/**
+ * Shape an audit log entry for API responses
+ */
+export function formatAuditLogEntry(entry: AuditLogEntryRecord) {
+  return {
+    id: entry.id,
+    action: entry.action,
+    actionLabel: getAuditActionLabel(entry.action),
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    details: entry.details as Record<string, unknown> | null,
+    createdAt: entry.createdAt,
+    actor: {
+      id: entry.users.id,
+      name: `${entry.users.name} ${entry.users.surname}`,
+      email: entry.users.email,
+      role: entry.actorRole,
+    },
+  }
+}
+
+export type AuditLogEntry = ReturnType<typeof formatAuditLogEntry>
+
+/**
+ * Generate a CSV of audit log entries
+ *
+ * Columns: Date, Actor, Actor Email, Actor Role, Action, Target Type,
+ * Target ID, Details (JSON)
+ */
+export function generateAuditLogCSV(entries: AuditLogEntry[]): string {
+  const header = [
+    'Date',
+    'Actor',
+    'Actor Email',
+    'Actor Role',
+    'Action',
+    'Target Type',
+    'Target ID',
+    'Details',
+  ]
+
+  const rows = entries.map((entry) => [
+    new Date(entry.createdAt).toISOString(),
+    entry.actor.name,
+    entry.actor.email,
+    entry.actor.role,
+    entry.actionLabel,
+    entry.targetType,
+    entry.targetId ?? '',
+    entry.details ? JSON.stringify(entry.details) : '',
+  ])
+
+  return [header, ...rows].map((row) => row.map((value) => escapeCSV(value)).join(',')).join('\n')
+}
+
+/**
+ * Filename for an audit log export
+ */
+export function generateAuditLogFilename(): string {
+  return `audit_log_${format(new Date(), 'yyyy-MM-dd')}.csv`
+}
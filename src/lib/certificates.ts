@@ -0,0 +1,362 @@
+/**
+ * Course Completion Certificates
+ *
+ * A student completes a course when the course offers certificates, every
+ * published module is completed (`module_progress.completedAt`) and, when the
+ * instructor sets a minimum, the student's graded course percentage
+ * (`calculateGPA`, category-weighted) reaches it.
+ *
+ * Completing the course issues one certificate per student with a unique
+ * verification code. Names and titles are copied onto the certificate so it
+ * keeps verifying what was issued after the course or profile changes.
+ *
+ * @module lib/certificates
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { Prisma, type certificates } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { notDeleted } from '@/lib/soft-delete';
+import { publishedNow } from '@/lib/publishing';
+import { calculateCourseGrade } from '@/lib/grade-categories';
+import { createPdf, wrapText, type PdfColor, type PdfElement } from '@/lib/pdf';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Certificate settings stored on a course
+ */
+export interface CourseCertificateRules {
+  certificatesEnabled: boolean;
+  /** Minimum graded course percentage; null means no minimum */
+  certificateMinScore: number | null;
+}
+
+/**
+ * A student's standing against the completion rules
+ */
+export interface CourseCompletionState {
+  completedModules: number;
+  totalModules: number;
+  /** Graded course percentage, or null before anything is graded */
+  percentage: number | null;
+}
+
+export interface CourseCompletionStatus extends CourseCertificateRules, CourseCompletionState {
+  letterGrade: string | null;
+  isComplete: boolean;
+  /** What is still missing, for display to the student */
+  remaining: string[];
+}
+
+// ============================================
+// Completion Rules
+// ============================================
+
+/**
+ * Evaluate the course completion rule
+ */
+export function evaluateCourseCompletion(
+  rules: CourseCertificateRules,
+  state: CourseCompletionState
+): { isComplete: boolean; remaining: string[] } {
+  if (!rules.certificatesEnabled) {
+    return { isComplete: false, remaining: ['This course does not offer a certificate'] };
+  }
+
+  const remaining: string[] = [];
+
+  if (state.totalModules === 0) {
+    remaining.push('This course has no modules yet');
+  } else if (state.completedModules < state.totalModules) {
+    const left = state.totalModules - state.completedModules;
+    remaining.push(`Complete ${left} more module${left === 1 ? '' : 's'}`);
+  }
+
+  if (rules.certificateMinScore !== null) {
+    if (state.percentage === null) {
+      remaining.push(`Reach an overall score of ${rules.certificateMinScore}% (no grades yet)`);
+    } else if (state.percentage < rules.certificateMinScore) {
+      remaining.push(
+        `Reach an overall score of ${rules.certificateMinScore}% (current score: ${state.percentage}%)`
+      );
+    }
+  }
+
+  return { isComplete: remaining.length === 0, remaining };
+}
+
+/**
+ * Load a student's completion status for a course
+ *
+ * @returns null when the course does not exist
+ */
+export async function getCourseCompletionStatus(
+  courseId: string,
+  userId: string
+): Promise<CourseCompletionStatus | null> {
+  const course = await prisma.courses.findFirst({
+    where: { id: courseId, ...notDeleted },
+    select: { certificatesEnabled: true, certificateMinScore: true },
+  });
+
+  if (!course) return null;
+
+  const [modules, grades, categories] = await Promise.all([
+    prisma.modules.findMany({
+      where: { courseId, ...notDeleted, ...publishedNow() },
+      select: {
+        id: true,
+        module_progress: {
+          where: { userId, completedAt: { not: null }, ...notDeleted },
+          select: { id: true },
+        },
+      },
+    }),
+    prisma.grades.findMany({
+      where: {
+        studentId: userId,
+        ...notDeleted,
+        assignments: { courseId, ...notDeleted },
+      },
+      select: {
+        points: true,
+        assignments: { select: { maxPoints: true, categoryId: true } },
+      },
+    }),
+    prisma.grade_categories.findMany({
+      where: { courseId },
+      select: { id: true, weight: true },
+    }),
+  ]);
+
+  const gpa = calculateCourseGrade(
+    grades.map((grade) => ({
+      categoryId: grade.assignments.categoryId,
+      maxPoints: grade.assignments.maxPoints,
+      points: grade.points,
+    })),
+    categories
+  ).gpa;
+
+  const state: CourseCompletionState = {
+    completedModules: modules.filter((module) => module.module_progress.length > 0).length,
+    totalModules: modules.length,
+    percentage: gpa?.percentage ?? null,
+  };
+
+  return {
+    ...course,
+    ...state,
+    letterGrade: gpa?.letterGrade ?? null,
+    ...evaluateCourseCompletion(course, state),
+  };
+}
+
+// ============================================
+// Verification Codes
+// ============================================
+
+// Crockford base32: no I, L, O or U, so codes are easy to read aloud
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 12;
+
+/**
+ * Generate a verification code such as "7K3M-Q9TX-2HBD"
+ */
+export function generateCertificateCode(): string {
+  const characters = Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % 32]);
+  return characters.join('').match(/.{4}/g)!.join('-');
+}
+
+/**
+ * Normalize a code typed or pasted by a visitor
+ *
+ * Case, spaces and dashes are ignored, and letters that are easily confused
+ * with digits are read as those digits.
+ *
+ * @returns The canonical code, or null when it cannot be a certificate code
+ */
+export function normalizeCertificateCode(input: string): string | null {
+  const characters = input
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+  if (characters.length !== CODE_LENGTH) return null;
+  if (![...characters].every((character) => CODE_ALPHABET.includes(character))) return null;
+
+  return characters.match(/.{4}/g)!.join('-');
+}
+
+// ============================================
+// Issuing
+// ============================================
+
+/**
+ * Issue the student's certificate once the course is complete
+ *
+ * Idempotent: an existing certificate is returned as is.
+ */
+export async function issueCertificateIfEligible(
+  courseId: string,
+  userId: string
+): Promise<{ certificate: certificates | null; status: CourseCompletionStatus | null }> {
+  const [existing, status] = await Promise.all([
+    prisma.certificates.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+    }),
+    getCourseCompletionStatus(courseId, userId),
+  ]);
+
+  if (existing || !status?.isComplete) {
+    return { certificate: existing, status };
+  }
+
+  const [course, user] = await Promise.all([
+    prisma.courses.findUniqueOrThrow({
+      where: { id: courseId },
+      select: { title: true, code: true, users: { select: { name: true, surname: true } } },
+    }),
+    prisma.users.findUniqueOrThrow({
+      where: { id: userId },
+      select: { name: true, surname: true },
+    }),
+  ]);
+
+  try {
+    const certificate = await prisma.certificates.create({
+      data: {
+        id: randomUUID(),
+        code: generateCertificateCode(),
+        recipientName: `${user.name} ${user.surname}`.trim(),
+        courseTitle: course.title,
+        courseCode: course.code,
+        instructorName: `${course.users.name} ${course.users.surname}`.trim(),
+        finalPercentage: status.percentage,
+        letterGrade: status.letterGrade,
+        userId,
+        courseId,
+      },
+    });
+    return { certificate, status };
+  } catch (error) {
+    // Issued concurrently by another request
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const certificate = await prisma.certificates.findUnique({
+        where: { userId_courseId: { userId, courseId } },
+      });
+      return { certificate, status };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Look up a certificate by its verification code
+ */
+export async function findCertificateByCode(code: string): Promise<certificates | null> {
+  const normalized = normalizeCertificateCode(code);
+  if (!normalized) return null;
+
+  return prisma.certificates.findUnique({ where: { code: normalized } });
+}
+
+/**
+ * Public verification link for a certificate
+ */
+export function getCertificateVerifyUrl(
+  code: string,
+  baseUrl: string = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+): string {
+  return `${baseUrl.replace(/\/$/, '')}/verify/${code}`;
+}
+
+// ============================================
+// PDF Rendering
+// ============================================
+
+const PAGE_WIDTH = 792; // US Letter, landscape
+const PAGE_HEIGHT = 612;
+const ACCENT: PdfColor = [0.15, 0.25, 0.55];
+const MUTED: PdfColor = [0.35, 0.35, 0.4];
+
+/**
+ * Render a certificate as a one-page landscape PDF
+ */
+export function renderCertificatePdf(
+  certificate: Pick<
+    certificates,
+    | 'code'
+    | 'recipientName'
+    | 'courseTitle'
+    | 'courseCode'
+    | 'instructorName'
+    | 'finalPercentage'
+    | 'letterGrade'
+    | 'issuedAt'
+  >,
+  verifyUrl: string
+): Buffer {
+  const center = PAGE_WIDTH / 2;
+  const issued = certificate.issuedAt.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  const titleLines = wrapText(certificate.courseTitle, 'Helvetica-Bold', 22, 600).slice(0, 2);
+  let y = 300;
+  const titleElements: PdfElement[] = titleLines.map((line) => {
+    const element: PdfElement = {
+      type: 'text',
+      x: center,
+      y,
+      text: line,
+      font: 'Helvetica-Bold',
+      size: 22,
+      color: ACCENT,
+      align: 'center',
+    };
+    y -= 28;
+    return element;
+  });
+
+  const score =
+    certificate.finalPercentage !== null
+      ? `with a final score of ${certificate.finalPercentage}%${certificate.letterGrade ? ` (${certificate.letterGrade})` : ''}`
+      : null;
+
+  const elements: PdfElement[] = [
+    { type: 'rect', x: 24, y: 24, width: PAGE_WIDTH - 48, height: PAGE_HEIGHT - 48, strokeColor: ACCENT, lineWidth: 4 },
+    { type: 'rect', x: 34, y: 34, width: PAGE_WIDTH - 68, height: PAGE_HEIGHT - 68, strokeColor: ACCENT, lineWidth: 1 },
+    { type: 'text', x: center, y: 500, text: 'CERTIFICATE OF COMPLETION', font: 'Helvetica-Bold', size: 30, color: ACCENT, align: 'center' },
+    { type: 'text', x: center, y: 440, text: 'This certifies that', font: 'Helvetica-Oblique', size: 14, color: MUTED, align: 'center' },
+    { type: 'text', x: center, y: 395, text: certificate.recipientName, font: 'Helvetica-Bold', size: 32, align: 'center' },
+    { type: 'line', x1: center - 200, y1: 382, x2: center + 200, y2: 382, color: MUTED, lineWidth: 0.75 },
+    { type: 'text', x: center, y: 345, text: 'has successfully completed', font: 'Helvetica-Oblique', size: 14, color: MUTED, align: 'center' },
+    ...titleElements,
+    { type: 'text', x: center, y, text: certificate.courseCode, size: 12, color: MUTED, align: 'center' },
+    ...(score
+      ? [{ type: 'text', x: center, y: y - 24, text: score, size: 12, color: MUTED, align: 'center' } as PdfElement]
+      : []),
+    { type: 'line', x1: 110, y1: 130, x2: 330, y2: 130, color: MUTED, lineWidth: 0.75 },
+    { type: 'text', x: 220, y: 136, text: certificate.instructorName, size: 12, align: 'center' },
+    { type: 'text', x: 220, y: 114, text: 'Instructor', size: 10, color: MUTED, align: 'center' },
+    { type: 'line', x1: 462, y1: 130, x2: 682, y2: 130, color: MUTED, lineWidth: 0.75 },
+    { type: 'text', x: 572, y: 136, text: issued, size: 12, align: 'center' },
+    { type: 'text', x: 572, y: 114, text: 'Date issued', size: 10, color: MUTED, align: 'center' },
+    { type: 'text', x: center, y: 62, text: `Certificate ${certificate.code} - verify at ${verifyUrl}`, size: 9, color: MUTED, align: 'center' },
+  ];
+
+  return createPdf({
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    title: `Certificate of Completion - ${certificate.courseTitle}`,
+    elements,
+  });
+}
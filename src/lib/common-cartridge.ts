@@ -0,0 +1,1182 @@
+/**
+ * IMS Common Cartridge Export and Import
+ *
+ * Packages a course as an IMS Common Cartridge 1.3 zip so it can be moved
+ * between deployments or kept as a backup:
+ *
+ * - Modules become folders in the cartridge organization, in order
+ * - Text content becomes HTML pages; uploaded files (including SCORM
+ *   packages) are copied out of R2 into the cartridge; external URLs become
+ *   web links
+ * - Assignments use the CC assignment extension; discussions become
+ *   discussion topics
+ *
+ * Settings that Common Cartridge has no place for (due dates, late policies,
+ * grade categories, module rules) are written to `course_settings/lms_settings.json`
+ * so a cartridge exported here imports without losing them. Cartridges from
+ * other systems import with defaults instead. Quizzes, enrollments,
+ * submissions and grades are not exported.
+ *
+ * @module lib/common-cartridge
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ContentType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { notDeleted } from '@/lib/soft-delete';
+import { sanitizeHtml } from '@/lib/sanitize';
+import {
+  downloadFile,
+  generateFileKey,
+  getKeyFromPublicUrl,
+  getPublicUrl,
+  uploadFile,
+} from '@/lib/r2';
+import { createZip, readZipEntries, ZipError, type ZipEntry } from '@/lib/zip';
+import { getScormMimeType, createScormForContent, ScormPackageError } from '@/lib/scorm';
+import { unpackScormPackage } from '@/lib/scorm-packages';
+import {
+  childElement,
+  childElements,
+  childText,
+  escapeXml,
+  parseXml,
+  XmlError,
+  type XmlElement,
+} from '@/lib/xml';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Error raised for cartridges that cannot be imported
+ */
+export class CartridgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CartridgeError';
+  }
+}
+
+const contentSettingsSchema = z.object({
+  contentType: z.enum(['TEXT', 'VIDEO', 'DOCUMENT', 'LINK', 'SCORM', 'YOUTUBE']).optional(),
+  /** Notes stored with non-text content */
+  content: z.string().nullable().optional(),
+  isPublished: z.boolean().optional(),
+  isRequired: z.boolean().optional(),
+  /** Points for a graded SCORM package */
+  maxPoints: z.number().int().positive().nullable().optional(),
+});
+
+const assignmentSettingsSchema = z.object({
+  dueDate: z.coerce.date().nullable().optional(),
+  isPublished: z.boolean().optional(),
+  isRequired: z.boolean().optional(),
+  isGroupAssignment: z.boolean().optional(),
+  latePolicy: z.enum(['REJECT', 'ACCEPT_FLAGGED', 'DEDUCT']).optional(),
+  lateGraceMinutes: z.number().int().min(0).optional(),
+  latePenaltyPerDay: z.number().min(0).max(100).optional(),
+  lateCutoffAt: z.coerce.date().nullable().optional(),
+  maxAttempts: z.number().int().min(1).optional(),
+  gradedAttemptPolicy: z.enum(['LATEST', 'HIGHEST', 'MANUAL']).optional(),
+  /** Grade category name */
+  category: z.string().nullable().optional(),
+});
+
+const discussionSettingsSchema = z.object({
+  isPinned: z.boolean().optional(),
+  isLocked: z.boolean().optional(),
+  isQuestionAnswer: z.boolean().optional(),
+  isAnonymous: z.boolean().optional(),
+  isPostFirst: z.boolean().optional(),
+  /** Points of a graded discussion; absent when it is not graded */
+  maxPoints: z.number().int().min(1).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  requiredPosts: z.number().int().min(0).optional(),
+  requiredReplies: z.number().int().min(0).optional(),
+});
+
+const moduleSettingsSchema = z.object({
+  description: z.string().nullable().optional(),
+  isPublished: z.boolean().optional(),
+  requiresPrevious: z.boolean().optional(),
+  /** Identifier of the prerequisite module's folder */
+  prerequisiteModule: z.string().nullable().optional(),
+  /** Identifier of the gating assignment's resource */
+  prerequisiteAssignment: z.string().nullable().optional(),
+  prerequisiteMinScore: z.number().min(0).max(100).nullable().optional(),
+  passingScore: z.number().min(0).max(100).nullable().optional(),
+  requireDiscussionPost: z.boolean().optional(),
+  contentWeight: z.number().int().min(0).nullable().optional(),
+  assignmentWeight: z.number().int().min(0).nullable().optional(),
+  discussionWeight: z.number().int().min(0).nullable().optional(),
+});
+
+const courseSettingsSchema = z.object({
+  semester: z.string().optional(),
+  year: z.number().int().optional(),
+  learningObjectives: z.array(z.string()).optional(),
+  prerequisites: z.string().nullable().optional(),
+  targetAudience: z.string().nullable().optional(),
+  gradeCategories: z
+    .array(z.object({ name: z.string().min(1), weight: z.number().min(0).max(100) }))
+    .optional(),
+});
+
+/**
+ * Settings file written next to the standard cartridge resources
+ */
+const lmsSettingsSchema = z.object({
+  course: courseSettingsSchema.default({}),
+  modules: z.record(z.string(), z.unknown()).default({}),
+  resources: z.record(z.string(), z.unknown()).default({}),
+});
+
+export type CartridgeContentSettings = z.infer<typeof contentSettingsSchema>;
+export type CartridgeAssignmentSettings = z.infer<typeof assignmentSettingsSchema>;
+export type CartridgeDiscussionSettings = z.infer<typeof discussionSettingsSchema>;
+export type CartridgeModuleSettings = z.infer<typeof moduleSettingsSchema>;
+export type CartridgeCourseSettings = z.infer<typeof courseSettingsSchema>;
+
+interface CartridgeItemBase {
+  /** Resource identifier, unique within the cartridge */
+  identifier: string;
+  title: string;
+}
+
+export type CartridgeItem =
+  | (CartridgeItemBase & { kind: 'page'; html: string; settings: CartridgeContentSettings })
+  | (CartridgeItemBase & {
+      kind: 'file';
+      fileName: string;
+      data: Buffer;
+      settings: CartridgeContentSettings;
+    })
+  | (CartridgeItemBase & { kind: 'link'; url: string; settings: CartridgeContentSettings })
+  | (CartridgeItemBase & {
+      kind: 'assignment';
+      html: string;
+      maxPoints: number;
+      settings: CartridgeAssignmentSettings;
+    })
+  | (CartridgeItemBase & {
+      kind: 'discussion';
+      html: string;
+      settings: CartridgeDiscussionSettings;
+    });
+
+export interface CartridgeModule {
+  /** Folder identifier, unique within the cartridge */
+  identifier: string;
+  title: string;
+  settings: CartridgeModuleSettings;
+  items: CartridgeItem[];
+}
+
+/**
+ * A course as it is stored in a cartridge
+ */
+export interface CartridgeCourse {
+  title: string;
+  description: string | null;
+  settings: CartridgeCourseSettings;
+  modules: CartridgeModule[];
+  /** Items outside any module */
+  items: CartridgeItem[];
+}
+
+/**
+ * A parsed cartridge, with anything that could not be read
+ */
+export interface ParsedCartridge extends CartridgeCourse {
+  warnings: string[];
+}
+
+export interface CartridgeImportOptions {
+  code: string;
+  semester: string;
+  year: number;
+  /** Defaults to the cartridge's title */
+  title?: string;
+  instructorId: string;
+}
+
+/**
+ * Number of records imported, by kind
+ */
+export interface CartridgeImportSummary {
+  modules: number;
+  content: number;
+  files: number;
+  assignments: number;
+  discussions: number;
+  warnings: string[];
+}
+
+const MANIFEST_PATH = 'imsmanifest.xml';
+const SETTINGS_PATH = 'course_settings/lms_settings.json';
+const TITLE_MAX_LENGTH = 200;
+const DEFAULT_MAX_POINTS = 100;
+
+// Cartridges are read fully into memory; keep them to a size the server can hold
+const MAX_CARTRIDGE_ENTRIES = 5000;
+const MAX_CARTRIDGE_SIZE = 500 * 1024 * 1024; // 500MB
+
+// ============================================
+// Writing
+// ============================================
+
+const NAMESPACES = {
+  manifest: 'http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1',
+  lom: 'http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest',
+  discussion: 'http://www.imsglobal.org/xsd/imsccv1p3/imsdt_v1p3',
+  weblink: 'http://www.imsglobal.org/xsd/imsccv1p3/imswl_v1p3',
+  assignment: 'http://www.imsglobal.org/xsd/imscc_extensions/assignment',
+};
+
+/**
+ * Turn a title into a safe file name
+ */
+function toFileName(title: string, extension: string): string {
+  const base = title
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase()
+    .slice(0, 60);
+  return `${base || 'page'}.${extension}`;
+}
+
+function textElement(name: string, html: string): string {
+  return `<${name} texttype="text/html">${escapeXml(html)}</${name}>`;
+}
+
+/**
+ * Resource entry and files for one item
+ */
+function writeItem(item: CartridgeItem): { resource: string; files: ZipEntry[] } {
+  const id = item.identifier;
+  const xml = (body: string) => Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>\n${body}\n`, 'utf8');
+
+  switch (item.kind) {
+    case 'page': {
+      const path = `web_resources/${id}/${toFileName(item.title, 'html')}`;
+      const html = `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapeXml(item.title)}</title>\n</head>\n<body>\n${item.html}\n</body>\n</html>\n`;
+      return {
+        resource: `<resource identifier="${id}" type="webcontent" href="${escapeXml(path)}"><file href="${escapeXml(path)}"/></resource>`,
+        files: [{ path, data: Buffer.from(html, 'utf8') }],
+      };
+    }
+    case 'file': {
+      const path = `web_resources/${id}/${item.fileName}`;
+      return {
+        resource: `<resource identifier="${id}" type="webcontent" href="${escapeXml(path)}"><file href="${escapeXml(path)}"/></resource>`,
+        files: [{ path, data: item.data }],
+      };
+    }
+    case 'link': {
+      const path = `${id}/weblink.xml`;
+      return {
+        resource: `<resource identifier="${id}" type="imswl_xmlv1p3"><file href="${path}"/></resource>`,
+        files: [
+          {
+            path,
+            data: xml(
+              `<webLink xmlns="${NAMESPACES.weblink}"><title>${escapeXml(item.title)}</title><url href="${escapeXml(item.url)}" target="_blank"/></webLink>`
+            ),
+          },
+        ],
+      };
+    }
+    case 'assignment': {
+      const path = `${id}/assignment.xml`;
+      return {
+        resource: `<resource identifier="${id}" type="assignment_xmlv1p0"><file href="${path}"/></resource>`,
+        files: [
+          {
+            path,
+            data: xml(
+              `<assignment xmlns="${NAMESPACES.assignment}" identifier="${id}"><title>${escapeXml(item.title)}</title>${textElement('text', item.html)}<gradable points_possible="${item.maxPoints}">true</gradable><submission_formats><format type="file"/><format type="text"/></submission_formats></assignment>`
+            ),
+          },
+        ],
+      };
+    }
+    case 'discussion': {
+      const path = `${id}/discussion.xml`;
+      return {
+        resource: `<resource identifier="${id}" type="imsdt_xmlv1p3"><file href="${path}"/></resource>`,
+        files: [
+          {
+            path,
+            data: xml(
+              `<topic xmlns="${NAMESPACES.discussion}"><title>${escapeXml(item.title)}</title>${textElement('text', item.html)}</topic>`
+            ),
+          },
+        ],
+      };
+    }
+  }
+}
+
+function organizationItem(item: CartridgeItem): string {
+  return `<item identifier="item_${item.identifier}" identifierref="${item.identifier}"><title>${escapeXml(item.title)}</title></item>`;
+}
+
+/**
+ * Build a Common Cartridge zip for a course
+ */
+export function buildCommonCartridge(course: CartridgeCourse): Buffer {
+  const allItems = [...course.modules.flatMap((module) => module.items), ...course.items];
+  const written = allItems.map(writeItem);
+
+  const organization = [
+    ...course.modules.map(
+      (module) =>
+        `<item identifier="${module.identifier}"><title>${escapeXml(module.title)}</title>${module.items.map(organizationItem).join('')}</item>`
+    ),
+    ...course.items.map(organizationItem),
+  ].join('\n');
+
+  const settings = {
+    course: course.settings,
+    modules: Object.fromEntries(course.modules.map((module) => [module.identifier, module.settings])),
+    resources: Object.fromEntries(allItems.map((item) => [item.identifier, item.settings])),
+  };
+
+  const description = course.description
+    ? `<lomimscc:description><lomimscc:string>${escapeXml(course.description)}</lomimscc:string></lomimscc:description>`
+    : '';
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="cartridge_${randomUUID()}" xmlns="${NAMESPACES.manifest}" xmlns:lomimscc="${NAMESPACES.lom}">
+<metadata>
+<schema>IMS Common Cartridge</schema>
+<schemaversion>1.3.0</schemaversion>
+<lomimscc:lom><lomimscc:general><lomimscc:title><lomimscc:string>${escapeXml(course.title)}</lomimscc:string></lomimscc:title>${description}</lomimscc:general></lomimscc:lom>
+</metadata>
+<organizations>
+<organization identifier="organization" structure="rooted-hierarchy">
+<item identifier="root">
+${organization}
+</item>
+</organization>
+</organizations>
+<resources>
+${written.map((entry) => entry.resource).join('\n')}
+<resource identifier="lms_settings" type="associatedcontent/imscc_xmlv1p3/learning-application-resource" href="${SETTINGS_PATH}"><file href="${SETTINGS_PATH}"/></resource>
+</resources>
+</manifest>
+`;
+
+  return createZip([
+    { path: MANIFEST_PATH, data: Buffer.from(manifest, 'utf8') },
+    { path: SETTINGS_PATH, data: Buffer.from(JSON.stringify(settings, null, 2), 'utf8') },
+    ...written.flatMap((entry) => entry.files),
+  ]);
+}
+
+// ============================================
+// Reading
+// ============================================
+
+interface ManifestResource {
+  type: string;
+  href: string | null;
+  files: string[];
+}
+
+function resolvePath(base: string, href: string): string {
+  return decodeURIComponent(`${base}${href}`.replace(/^\.?\//, ''));
+}
+
+function readResources(manifest: XmlElement): Map<string, ManifestResource> {
+  const resources = new Map<string, ManifestResource>();
+  const container = childElement(manifest, 'resources');
+  if (!container) return resources;
+
+  const containerBase = container.attributes['xml:base'] ?? '';
+
+  for (const resource of childElements(container, 'resource')) {
+    const base = containerBase + (resource.attributes['xml:base'] ?? '');
+    const identifier = resource.attributes.identifier;
+    if (!identifier) continue;
+
+    resources.set(identifier, {
+      type: resource.attributes.type ?? '',
+      href: resource.attributes.href ? resolvePath(base, resource.attributes.href) : null,
+      files: childElements(resource, 'file')
+        .map((file) => file.attributes.href)
+        .filter((href): href is string => !!href)
+        .map((href) => resolvePath(base, href)),
+    });
+  }
+
+  return resources;
+}
+
+function readManifestTitle(manifest: XmlElement): { title: string; description: string | null } {
+  const general = childElement(
+    childElement(childElement(manifest, 'metadata') ?? manifest, 'lom') ?? manifest,
+    'general'
+  );
+  const readString = (name: string) => {
+    const element = general && childElement(general, name);
+    return element ? childText(element, 'string') || element.text.trim() : '';
+  };
+
+  return { title: readString('title'), description: readString('description') || null };
+}
+
+function htmlBody(html: string): string {
+  const match = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  return (match ? match[1] : html).trim();
+}
+
+function clampTitle(title: string, fallback: string): string {
+  return (title.trim() || fallback).slice(0, TITLE_MAX_LENGTH);
+}
+
+/**
+ * Parse settings for one record, ignoring settings that do not validate
+ */
+function readSettings<T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> {
+  const parsed = schema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : schema.parse({});
+}
+
+/**
+ * Read a Common Cartridge zip
+ *
+ * Supports Common Cartridge 1.1 to 1.3: web content, web links, discussion
+ * topics and assignments (the CC assignment extension and Canvas's
+ * assignment resources). Other resource types, such as QTI assessments and
+ * LTI links, are skipped and reported in `warnings`.
+ *
+ * @throws CartridgeError when the file is not a readable cartridge
+ */
+export function parseCommonCartridge(archive: Buffer): ParsedCartridge {
+  let entries: ZipEntry[];
+  try {
+    entries = readZipEntries(archive, {
+      maxEntries: MAX_CARTRIDGE_ENTRIES,
+      maxTotalSize: MAX_CARTRIDGE_SIZE,
+    });
+  } catch (error) {
+    if (error instanceof ZipError) throw new CartridgeError(error.message);
+    throw error;
+  }
+
+  const files = new Map(entries.map((entry) => [entry.path, entry.data]));
+  const readXml = (path: string): XmlElement | null => {
+    const data = files.get(path);
+    if (!data) return null;
+    try {
+      return parseXml(data.toString('utf8'));
+    } catch (error) {
+      if (error instanceof XmlError) return null;
+      throw error;
+    }
+  };
+
+  const manifestData = files.get(MANIFEST_PATH);
+  if (!manifestData) {
+    throw new CartridgeError('The file has no imsmanifest.xml at its root');
+  }
+
+  let manifest: XmlElement;
+  try {
+    manifest = parseXml(manifestData.toString('utf8'));
+  } catch (error) {
+    if (error instanceof XmlError) {
+      throw new CartridgeError(`The cartridge manifest could not be read: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const resources = readResources(manifest);
+  const warnings: string[] = [];
+
+  let settings: z.infer<typeof lmsSettingsSchema> = { course: {}, modules: {}, resources: {} };
+  const settingsData = files.get(SETTINGS_PATH);
+  if (settingsData) {
+    try {
+      const parsed = lmsSettingsSchema.safeParse(JSON.parse(settingsData.toString('utf8')));
+      if (parsed.success) settings = parsed.data;
+    } catch {
+      warnings.push('The course settings file could not be read; defaults were used');
+    }
+  }
+
+  const readItem = (identifier: string, itemTitle: string): CartridgeItem | null => {
+    const resource = resources.get(identifier);
+    const title = clampTitle(itemTitle, 'Untitled');
+    const itemSettings = settings.resources[identifier];
+
+    if (!resource) {
+      warnings.push(`Skipped "${title}": its resource is missing`);
+      return null;
+    }
+
+    const mainFile = resource.href ?? resource.files[0] ?? null;
+
+    if (resource.type.startsWith('imsdt_xmlv1p')) {
+      const topic = mainFile && readXml(mainFile);
+      if (!topic) {
+        warnings.push(`Skipped "${title}": the discussion topic could not be read`);
+        return null;
+      }
+      return {
+        kind: 'discussion',
+        identifier,
+        title: clampTitle(childText(topic, 'title'), title),
+        html: sanitizeHtml(childText(topic, 'text')),
+        settings: readSettings(discussionSettingsSchema, itemSettings),
+      };
+    }
+
+    if (resource.type.startsWith('imswl_xmlv1p')) {
+      const link = mainFile && readXml(mainFile);
+      const url = link && childElement(link, 'url')?.attributes.href;
+      if (!link || !url || !/^https?:\/\//i.test(url)) {
+        warnings.push(`Skipped "${title}": the web link could not be read`);
+        return null;
+      }
+      return {
+        kind: 'link',
+        identifier,
+        title: clampTitle(childText(link, 'title'), title),
+        url,
+        settings: readSettings(contentSettingsSchema, itemSettings),
+      };
+    }
+
+    if (resource.type === 'assignment_xmlv1p0') {
+      const assignment = mainFile && readXml(mainFile);
+      if (!assignment) {
+        warnings.push(`Skipped "${title}": the assignment could not be read`);
+        return null;
+      }
+      const points = Number(childElement(assignment, 'gradable')?.attributes.points_possible);
+      return {
+        kind: 'assignment',
+        identifier,
+        title: clampTitle(childText(assignment, 'title'), title),
+        html: sanitizeHtml(childText(assignment, 'text')),
+        maxPoints: points > 0 ? Math.round(points) : DEFAULT_MAX_POINTS,
+        settings: readSettings(assignmentSettingsSchema, itemSettings),
+      };
+    }
+
+    // Canvas stores assignments as an HTML page with an assignment_settings.xml
+    const canvasSettingsPath = resource.files.find((path) => path.endsWith('assignment_settings.xml'));
+    if (resource.type.includes('learning-application-resource') && canvasSettingsPath) {
+      const canvasSettings = readXml(canvasSettingsPath);
+      const htmlPath = resource.files.find((path) => /\.html?$/i.test(path));
+      const html = htmlPath ? htmlBody(files.get(htmlPath)?.toString('utf8') ?? '') : '';
+      const points = Number(canvasSettings && childText(canvasSettings, 'points_possible'));
+      return {
+        kind: 'assignment',
+        identifier,
+        title: clampTitle((canvasSettings && childText(canvasSettings, 'title')) || '', title),
+        html: sanitizeHtml(html),
+        maxPoints: points > 0 ? Math.round(points) : DEFAULT_MAX_POINTS,
+        settings: readSettings(assignmentSettingsSchema, itemSettings),
+      };
+    }
+
+    if (resource.type === 'webcontent' && mainFile) {
+      const data = files.get(mainFile);
+      if (!data) {
+        warnings.push(`Skipped "${title}": ${mainFile} is missing from the cartridge`);
+        return null;
+      }
+      const contentSettings = readSettings(contentSettingsSchema, itemSettings);
+
+      // HTML files are pages unless they were exported as uploaded documents
+      const contentType = contentSettings.contentType ?? 'TEXT';
+      if (/\.html?$/i.test(mainFile) && contentType === 'TEXT') {
+        return {
+          kind: 'page',
+          identifier,
+          title,
+          html: sanitizeHtml(htmlBody(data.toString('utf8'))),
+          settings: contentSettings,
+        };
+      }
+
+      return {
+        kind: 'file',
+        identifier,
+        title,
+        fileName: mainFile.split('/').pop()!,
+        data,
+        settings: contentSettings,
+      };
+    }
+
+    warnings.push(`Skipped "${title}": ${resource.type || 'unknown'} resources are not supported`);
+    return null;
+  };
+
+  // Items that reference a resource are content; items without one are folders
+  const readItems = (element: XmlElement): CartridgeItem[] =>
+    childElements(element, 'item').flatMap((item) => {
+      const ref = item.attributes.identifierref;
+      if (ref) {
+        const read = readItem(ref, childText(item, 'title'));
+        return read ? [read] : [];
+      }
+      return readItems(item);
+    });
+
+  const organization = childElements(childElement(manifest, 'organizations') ?? manifest, 'organization')[0];
+  const rootItems = organization ? childElements(organization, 'item') : [];
+  // CC organizations have a single root item holding the top-level folders
+  const topLevel =
+    rootItems.length === 1 && !rootItems[0].attributes.identifierref
+      ? childElements(rootItems[0], 'item')
+      : rootItems;
+
+  const modules: CartridgeModule[] = [];
+  const items: CartridgeItem[] = [];
+
+  for (const element of topLevel) {
+    const ref = element.attributes.identifierref;
+    if (ref) {
+      const read = readItem(ref, childText(element, 'title'));
+      if (read) items.push(read);
+      continue;
+    }
+
+    const identifier = element.attributes.identifier ?? `module_${modules.length + 1}`;
+    modules.push({
+      identifier,
+      title: clampTitle(childText(element, 'title'), `Module ${modules.length + 1}`),
+      settings: readSettings(moduleSettingsSchema, settings.modules[identifier]),
+      items: readItems(element),
+    });
+  }
+
+  const metadata = readManifestTitle(manifest);
+
+  return {
+    title: clampTitle(metadata.title || (organization ? childText(organization, 'title') : ''), 'Imported course'),
+    description: metadata.description ? sanitizeHtml(metadata.description) : null,
+    settings: settings.course,
+    modules,
+    items,
+    warnings,
+  };
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Prisma include that loads everything exported with a course
+ */
+const courseExportInclude = {
+  grade_categories: { orderBy: { orderIndex: 'asc' } },
+  modules: { where: notDeleted, orderBy: { orderIndex: 'asc' } },
+  course_content: {
+    where: notDeleted,
+    orderBy: { orderIndex: 'asc' },
+    include: {
+      quizzes: { select: { assignmentId: true } },
+      scorm_packages: {
+        select: { packageKey: true, assignmentId: true, assignments: { select: { maxPoints: true } } },
+      },
+    },
+  },
+  assignments: { where: notDeleted, orderBy: { createdAt: 'asc' } },
+  discussions: {
+    where: notDeleted,
+    orderBy: { createdAt: 'asc' },
+    include: { assignments: { select: { maxPoints: true, dueDate: true, deletedAt: true } } },
+  },
+} satisfies Prisma.coursesInclude;
+
+type CourseForExport = Prisma.coursesGetPayload<{ include: typeof courseExportInclude }>;
+
+/**
+ * Convert a content item, downloading its file from R2 when it has one
+ */
+async function exportContent(
+  item: CourseForExport['course_content'][number],
+  warnings: string[]
+): Promise<CartridgeItem | null> {
+  const identifier = `resource_${item.id}`;
+  const settings: CartridgeContentSettings = {
+    contentType: item.type === 'QUIZ' ? undefined : item.type,
+    content: item.type === 'TEXT' ? null : item.content,
+    isPublished: item.isPublished,
+    isRequired: item.isRequired,
+  };
+
+  if (item.type === 'QUIZ') {
+    warnings.push(`Skipped quiz "${item.title}": quizzes are not exported`);
+    return null;
+  }
+
+  if (item.type === 'TEXT') {
+    return { kind: 'page', identifier, title: item.title, html: item.content ?? '', settings };
+  }
+
+  if (item.type === 'SCORM') {
+    settings.maxPoints = item.scorm_packages?.assignments?.maxPoints ?? null;
+  }
+
+  const key =
+    (item.type === 'SCORM' ? item.scorm_packages?.packageKey : null) ??
+    item.s3Key ??
+    getKeyFromPublicUrl(item.fileUrl);
+  const data = key ? await downloadFile(key) : null;
+
+  if (data) {
+    const fileName = key!.split('/').pop()!.replace(/^\d+-/, '') || toFileName(item.title, 'bin');
+    return { kind: 'file', identifier, title: item.title, fileName, data, settings };
+  }
+
+  if (item.fileUrl && /^https?:\/\//i.test(item.fileUrl) && item.type !== 'SCORM') {
+    return { kind: 'link', identifier, title: item.title, url: item.fileUrl, settings };
+  }
+
+  warnings.push(`Skipped "${item.title}": its file could not be found`);
+  return null;
+}
+
+/**
+ * Build a Common Cartridge for a course
+ *
+ * @returns The cartridge with a file name for download and anything left
+ * out, or null when the course does not exist
+ */
+export async function exportCourseCartridge(
+  courseId: string
+): Promise<{ archive: Buffer; fileName: string; warnings: string[] } | null> {
+  const course = await prisma.courses.findFirst({
+    where: { id: courseId, ...notDeleted },
+    include: courseExportInclude,
+  });
+
+  if (!course) return null;
+
+  const warnings: string[] = [];
+  const categoryNames = new Map(course.grade_categories.map((c) => [c.id, c.name]));
+
+  // Assignments created for quizzes, SCORM packages and graded discussions travel with them
+  const contentAssignmentIds = new Set([
+    ...course.course_content.flatMap((item) => [
+      ...(item.quizzes ? [item.quizzes.assignmentId] : []),
+      ...(item.scorm_packages?.assignmentId ? [item.scorm_packages.assignmentId] : []),
+    ]),
+    ...course.discussions.flatMap((discussion) => (discussion.assignmentId ? [discussion.assignmentId] : [])),
+  ]);
+
+  const contentItems = new Map<string, CartridgeItem>();
+  for (const item of course.course_content) {
+    const exported = await exportContent(item, warnings);
+    if (exported) contentItems.set(item.id, exported);
+  }
+
+  const assignmentItems = course.assignments
+    .filter((assignment) => !contentAssignmentIds.has(assignment.id))
+    .map((assignment): CartridgeItem & { moduleId: string | null } => ({
+      kind: 'assignment',
+      identifier: `resource_${assignment.id}`,
+      title: assignment.title,
+      html: assignment.description ?? '',
+      maxPoints: assignment.maxPoints,
+      settings: {
+        dueDate: assignment.dueDate,
+        isPublished: assignment.isPublished,
+        isRequired: assignment.isRequired,
+        isGroupAssignment: assignment.isGroupAssignment,
+        latePolicy: assignment.latePolicy,
+        lateGraceMinutes: assignment.lateGraceMinutes,
+        latePenaltyPerDay: assignment.latePenaltyPerDay,
+        lateCutoffAt: assignment.lateCutoffAt,
+        maxAttempts: assignment.maxAttempts,
+        gradedAttemptPolicy: assignment.gradedAttemptPolicy,
+        category: assignment.categoryId ? categoryNames.get(assignment.categoryId) ?? null : null,
+      },
+      moduleId: assignment.moduleId,
+    }));
+
+  const discussionItems = course.discussions.map(
+    (discussion): CartridgeItem & { moduleId: string | null } => ({
+      kind: 'discussion',
+      identifier: `resource_${discussion.id}`,
+      title: discussion.title,
+      html: discussion.description ?? '',
+      settings: {
+        isPinned: discussion.isPinned,
+        isLocked: discussion.isLocked,
+        isQuestionAnswer: discussion.isQuestionAnswer,
+        isAnonymous: discussion.isAnonymous,
+        isPostFirst: discussion.isPostFirst,
+        ...(discussion.assignments &&
+          !discussion.assignments.deletedAt && {
+            maxPoints: discussion.assignments.maxPoints,
+            dueDate: discussion.assignments.dueDate,
+            requiredPosts: discussion.requiredPosts,
+            requiredReplies: discussion.requiredReplies,
+          }),
+      },
+      moduleId: discussion.moduleId,
+    })
+  );
+
+  const moduleIds = new Set(course.modules.map((m) => m.id));
+  const inModule = (moduleId: string | null) => (moduleId && moduleIds.has(moduleId) ? moduleId : null);
+  const itemsFor = (moduleId: string | null): CartridgeItem[] => [
+    ...course.course_content
+      .filter((item) => inModule(item.moduleId) === moduleId && contentItems.has(item.id))
+      .map((item) => contentItems.get(item.id)!),
+    ...assignmentItems
+      .filter((item) => inModule(item.moduleId) === moduleId)
+      .map(({ moduleId: _, ...item }) => item as CartridgeItem),
+    ...discussionItems
+      .filter((item) => inModule(item.moduleId) === moduleId)
+      .map(({ moduleId: _, ...item }) => item as CartridgeItem),
+  ];
+
+  const cartridge: CartridgeCourse = {
+    title: course.title,
+    description: course.description,
+    settings: {
+      semester: course.semester,
+      year: course.year,
+      learningObjectives: course.learningObjectives,
+      prerequisites: course.prerequisites,
+      targetAudience: course.targetAudience,
+      gradeCategories: course.grade_categories.map(({ name, weight }) => ({ name, weight })),
+    },
+    modules: course.modules.map((module) => ({
+      identifier: `module_${module.id}`,
+      title: module.title,
+      settings: {
+        description: module.description,
+        isPublished: module.isPublished,
+        requiresPrevious: module.requiresPrevious,
+        prerequisiteModule: module.prerequisiteModuleId ? `module_${module.prerequisiteModuleId}` : null,
+        prerequisiteAssignment: module.prerequisiteAssignmentId
+          ? `resource_${module.prerequisiteAssignmentId}`
+          : null,
+        prerequisiteMinScore: module.prerequisiteMinScore,
+        passingScore: module.passingScore,
+        requireDiscussionPost: module.requireDiscussionPost,
+        contentWeight: module.contentWeight,
+        assignmentWeight: module.assignmentWeight,
+        discussionWeight: module.discussionWeight,
+      },
+      items: itemsFor(module.id),
+    })),
+    items: itemsFor(null),
+  };
+
+  return {
+    archive: buildCommonCartridge(cartridge),
+    fileName: `${course.code}-cartridge.imscc`,
+    warnings,
+  };
+}
+
+// ============================================
+// Import
+// ============================================
+
+const VIDEO_EXTENSIONS = new Set(['mp4', 'webm', 'mov', 'm4v', 'ogv']);
+
+/**
+ * Content type for an imported file without exported settings
+ */
+function guessFileContentType(fileName: string): ContentType {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return VIDEO_EXTENSIONS.has(extension) ? 'VIDEO' : 'DOCUMENT';
+}
+
+/**
+ * Content type for an imported web link without exported settings
+ */
+function guessLinkContentType(url: string): ContentType {
+  return /^https?:\/\/(www\.)?(youtube\.com|youtu\.be)\//i.test(url) ? 'YOUTUBE' : 'LINK';
+}
+
+type UnpackedScorm = Awaited<ReturnType<typeof unpackScormPackage>>;
+
+/**
+ * Upload a cartridge's files to R2
+ *
+ * SCORM packages are unpacked; a package that cannot be unpacked is imported
+ * as a plain file.
+ */
+async function uploadCartridgeFiles(
+  items: CartridgeItem[],
+  instructorId: string,
+  warnings: string[]
+): Promise<Map<string, { key: string; scorm: UnpackedScorm | null }>> {
+  const uploads = new Map<string, { key: string; scorm: UnpackedScorm | null }>();
+
+  for (const item of items) {
+    if (item.kind !== 'file') continue;
+
+    const key = generateFileKey('courses', item.fileName, instructorId);
+    await uploadFile(key, item.data, getScormMimeType(item.fileName));
+
+    let scorm: UnpackedScorm | null = null;
+    if (item.settings.contentType === 'SCORM') {
+      try {
+        scorm = await unpackScormPackage(key);
+      } catch (error) {
+        if (!(error instanceof ScormPackageError)) throw error;
+        warnings.push(`"${item.title}" was imported as a file: ${error.message}`);
+      }
+    }
+
+    uploads.set(item.identifier, { key, scorm });
+  }
+
+  return uploads;
+}
+
+/**
+ * Create a course from a parsed cartridge
+ *
+ * Files are uploaded to R2 first; the course and its records are then
+ * created in one transaction. The caller checks that the code is free.
+ */
+export async function importCourseCartridge(
+  cartridge: ParsedCartridge,
+  options: CartridgeImportOptions
+): Promise<{ courseId: string; summary: CartridgeImportSummary }> {
+  const warnings = [...cartridge.warnings];
+  const allItems = [...cartridge.modules.flatMap((module) => module.items), ...cartridge.items];
+  const uploads = await uploadCartridgeFiles(allItems, options.instructorId, warnings);
+
+  const now = new Date();
+  const courseId = randomUUID();
+  const categories = (cartridge.settings.gradeCategories ?? []).map((category, index) => ({
+    id: randomUUID(),
+    name: category.name.slice(0, 100),
+    weight: category.weight,
+    orderIndex: index,
+    courseId,
+    updatedAt: now,
+  }));
+  const categoryIds = new Map(categories.map((category) => [category.name, category.id]));
+
+  const moduleIds = new Map(cartridge.modules.map((module) => [module.identifier, randomUUID()]));
+  const assignmentIds = new Map(
+    allItems.filter((item) => item.kind === 'assignment').map((item) => [item.identifier, randomUUID()])
+  );
+
+  const content: Prisma.course_contentCreateManyInput[] = [];
+  const assignments: Prisma.assignmentsCreateManyInput[] = [];
+  const discussions: Prisma.discussionsCreateManyInput[] = [];
+  const scormContent: { content: Prisma.course_contentCreateManyInput; scorm: UnpackedScorm; maxPoints: number | null }[] = [];
+
+  const addItem = (item: CartridgeItem, moduleId: string | null) => {
+    if (item.kind === 'assignment') {
+      assignments.push({
+        id: assignmentIds.get(item.identifier)!,
+        title: item.title,
+        description: item.html || null,
+        dueDate: item.settings.dueDate ?? null,
+        maxPoints: item.maxPoints,
+        isPublished: item.settings.isPublished ?? false,
+        isRequired: item.settings.isRequired ?? true,
+        isGroupAssignment: item.settings.isGroupAssignment ?? false,
+        latePolicy: item.settings.latePolicy,
+        lateGraceMinutes: item.settings.lateGraceMinutes,
+        latePenaltyPerDay: item.settings.latePenaltyPerDay,
+        lateCutoffAt: item.settings.lateCutoffAt ?? null,
+        maxAttempts: item.settings.maxAttempts,
+        gradedAttemptPolicy: item.settings.gradedAttemptPolicy,
+        categoryId: item.settings.category ? categoryIds.get(item.settings.category) ?? null : null,
+        moduleId,
+        courseId,
+        createdById: options.instructorId,
+        updatedAt: now,
+      });
+      return;
+    }
+
+    if (item.kind === 'discussion') {
+      // A graded discussion gets a backing assignment for its gradebook column
+      const gradedAssignmentId = item.settings.maxPoints ? randomUUID() : null;
+      if (gradedAssignmentId) {
+        assignments.push({
+          id: gradedAssignmentId,
+          title: item.title,
+          dueDate: item.settings.dueDate ?? null,
+          maxPoints: item.settings.maxPoints!,
+          isPublished: true,
+          courseId,
+          createdById: options.instructorId,
+          updatedAt: now,
+        });
+      }
+
+      discussions.push({
+        id: randomUUID(),
+        title: item.title,
+        description: item.html || null,
+        isPinned: item.settings.isPinned ?? false,
+        isLocked: item.settings.isLocked ?? false,
+        isQuestionAnswer: item.settings.isQuestionAnswer ?? false,
+        isAnonymous: item.settings.isAnonymous ?? false,
+        isPostFirst: item.settings.isPostFirst ?? false,
+        requiredPosts: gradedAssignmentId ? item.settings.requiredPosts ?? 0 : 0,
+        requiredReplies: gradedAssignmentId ? item.settings.requiredReplies ?? 0 : 0,
+        assignmentId: gradedAssignmentId,
+        moduleId,
+        courseId,
+        createdBy: options.instructorId,
+      });
+      return;
+    }
+
+    const base = {
+      id: randomUUID(),
+      title: item.title,
+      orderIndex: content.length + 1,
+      isPublished: item.settings.isPublished ?? false,
+      isRequired: item.settings.isRequired ?? true,
+      moduleId,
+      courseId,
+    };
+
+    if (item.kind === 'page') {
+      content.push({ ...base, type: 'TEXT', content: item.html });
+    } else if (item.kind === 'link') {
+      content.push({
+        ...base,
+        type: item.settings.contentType ?? guessLinkContentType(item.url),
+        content: item.settings.content ?? null,
+        fileUrl: item.url,
+      });
+    } else {
+      const upload = uploads.get(item.identifier)!;
+      const row: Prisma.course_contentCreateManyInput = {
+        ...base,
+        type: upload.scorm
+          ? 'SCORM'
+          : item.settings.contentType && item.settings.contentType !== 'SCORM'
+            ? item.settings.contentType
+            : guessFileContentType(item.fileName),
+        content: item.settings.content ?? null,
+        fileUrl: getPublicUrl(upload.key),
+        s3Key: upload.key,
+      };
+      content.push(row);
+      if (upload.scorm) {
+        scormContent.push({ content: row, scorm: upload.scorm, maxPoints: item.settings.maxPoints ?? null });
+      }
+    }
+  };
+
+  for (const cartridgeModule of cartridge.modules) {
+    const moduleId = moduleIds.get(cartridgeModule.identifier)!;
+    for (const item of cartridgeModule.items) addItem(item, moduleId);
+  }
+  for (const item of cartridge.items) addItem(item, null);
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.courses.create({
+        data: {
+          id: courseId,
+          title: options.title ?? cartridge.title,
+          description: cartridge.description,
+          code: options.code,
+          semester: options.semester,
+          year: options.year,
+          isActive: true,
+          learningObjectives: (cartridge.settings.learningObjectives ?? []).slice(0, 20),
+          prerequisites: cartridge.settings.prerequisites
+            ? sanitizeHtml(cartridge.settings.prerequisites)
+            : null,
+          targetAudience: cartridge.settings.targetAudience
+            ? sanitizeHtml(cartridge.settings.targetAudience)
+            : null,
+          instructorId: options.instructorId,
+          updatedAt: now,
+        },
+      });
+
+      await tx.grade_categories.createMany({ data: categories });
+      await tx.modules.createMany({
+        data: cartridge.modules.map((module, index) => ({
+          id: moduleIds.get(module.identifier)!,
+          title: module.title,
+          description: module.settings.description ? sanitizeHtml(module.settings.description) : null,
+          orderIndex: index,
+          isPublished: module.settings.isPublished ?? false,
+          requiresPrevious: module.settings.requiresPrevious ?? false,
+          passingScore: module.settings.passingScore ?? null,
+          requireDiscussionPost: module.settings.requireDiscussionPost ?? false,
+          contentWeight: module.settings.contentWeight ?? null,
+          assignmentWeight: module.settings.assignmentWeight ?? null,
+          discussionWeight: module.settings.discussionWeight ?? null,
+          courseId,
+          updatedAt: now,
+        })),
+      });
+      await tx.assignments.createMany({ data: assignments });
+      await tx.course_content.createMany({ data: content });
+      await tx.discussions.createMany({ data: discussions });
+
+      for (const { content: row, scorm, maxPoints } of scormContent) {
+        await createScormForContent(
+          tx,
+          { id: row.id!, title: row.title, isPublished: row.isPublished ?? false, courseId },
+          options.instructorId,
+          scorm,
+          maxPoints
+        );
+      }
+
+      // Prerequisites refer to other modules and assignments, so they are set last
+      for (const { identifier, settings } of cartridge.modules) {
+        const prerequisiteModuleId = settings.prerequisiteModule
+          ? moduleIds.get(settings.prerequisiteModule) ?? null
+          : null;
+        const prerequisiteAssignmentId = settings.prerequisiteAssignment
+          ? assignmentIds.get(settings.prerequisiteAssignment) ?? null
+          : null;
+
+        if (prerequisiteModuleId || prerequisiteAssignmentId) {
+          await tx.modules.update({
+            where: { id: moduleIds.get(identifier)! },
+            data: {
+              prerequisiteModuleId,
+              prerequisiteAssignmentId,
+              prerequisiteMinScore: prerequisiteAssignmentId
+                ? settings.prerequisiteMinScore ?? null
+                : null,
+            },
+          });
+        }
+      }
+    },
+    { timeout: 60000 }
+  );
+
+  return {
+    courseId,
+    summary: {
+      modules: cartridge.modules.length,
+      content: content.length,
+      files: uploads.size,
+      assignments: assignments.length,
+      discussions: discussions.length,
+      warnings,
+    },
+  };
+}
@@ -0,0 +1,537 @@
+/**
+ * Course Copy
+ *
+ * Deep-copies a course into a new one for the next term: grade categories,
+ * modules (with their order and unlock and completion rules), content,
+ * quizzes, SCORM packages, assignments and discussions. Enrollments,
+ * submissions, grades, progress, posts and announcements stay behind.
+ *
+ * Scheduled dates (due dates, late cutoffs, publish windows and module unlock
+ * dates) are shifted by a whole number of days. Uploaded files and unpacked
+ * SCORM packages are re-used rather than duplicated: storage objects are
+ * never deleted when records are, so both courses can point at them.
+ *
+ * Rubrics, question banks and feedback templates belong to the instructor.
+ * A copy for the same instructor keeps using them; a copy for another
+ * instructor gets copies of the rubrics and question banks it uses and of the
+ * source instructor's own (unshared) feedback templates.
+ *
+ * @module lib/course-copy
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { notDeleted } from '@/lib/soft-delete';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Prisma include that loads everything copied with a course
+ */
+export const courseCopySourceInclude = {
+  grade_categories: true,
+  modules: { where: notDeleted },
+  assignments: { where: notDeleted },
+  course_content: {
+    where: notDeleted,
+    include: { quizzes: true, scorm_packages: true },
+  },
+  discussions: { where: notDeleted },
+} satisfies Prisma.coursesInclude;
+
+export type CourseCopySource = Prisma.coursesGetPayload<{
+  include: typeof courseCopySourceInclude;
+}>;
+
+/**
+ * Prisma include for rubrics copied to another instructor
+ */
+const rubricCopyInclude = {
+  rubric_criteria: { include: { rubric_levels: true } },
+} satisfies Prisma.rubricsInclude;
+
+/**
+ * Prisma include for question banks copied to another instructor
+ */
+const questionBankCopyInclude = {
+  quiz_questions: {
+    where: notDeleted,
+    include: { quiz_question_options: true },
+  },
+} satisfies Prisma.question_banksInclude;
+
+/**
+ * Instructor-owned records a copy for another instructor depends on
+ */
+export interface InstructorResources {
+  rubrics: Prisma.rubricsGetPayload<{ include: typeof rubricCopyInclude }>[];
+  questionBanks: Prisma.question_banksGetPayload<{ include: typeof questionBankCopyInclude }>[];
+  feedbackTemplates: Prisma.feedback_templatesGetPayload<true>[];
+}
+
+export interface CourseCopyOptions {
+  title: string;
+  code: string;
+  semester: string;
+  year: number;
+  /** Days to move scheduled dates by (negative moves them earlier) */
+  dateOffsetDays: number;
+  /** Owner of the new course */
+  instructorId: string;
+}
+
+/**
+ * Rows to create for a copy, in dependency order
+ *
+ * Module prerequisites are set after assignments exist, since modules and
+ * assignments reference each other.
+ */
+export interface CourseCopyPlan {
+  course: Prisma.coursesUncheckedCreateInput;
+  rubrics: Prisma.rubricsCreateManyInput[];
+  rubricCriteria: Prisma.rubric_criteriaCreateManyInput[];
+  rubricLevels: Prisma.rubric_levelsCreateManyInput[];
+  questionBanks: Prisma.question_banksCreateManyInput[];
+  quizQuestions: Prisma.quiz_questionsCreateManyInput[];
+  quizQuestionOptions: Prisma.quiz_question_optionsCreateManyInput[];
+  feedbackTemplates: Prisma.feedback_templatesCreateManyInput[];
+  gradeCategories: Prisma.grade_categoriesCreateManyInput[];
+  modules: Prisma.modulesCreateManyInput[];
+  assignments: Prisma.assignmentsCreateManyInput[];
+  content: Prisma.course_contentCreateManyInput[];
+  quizzes: Prisma.quizzesCreateManyInput[];
+  scormPackages: Prisma.scorm_packagesCreateManyInput[];
+  discussions: Prisma.discussionsCreateManyInput[];
+  modulePrerequisites: {
+    id: string;
+    prerequisiteModuleId: string | null;
+    prerequisiteAssignmentId: string | null;
+  }[];
+}
+
+/**
+ * Number of records copied, by kind
+ */
+export interface CourseCopySummary {
+  modules: number;
+  content: number;
+  assignments: number;
+  discussions: number;
+  rubrics: number;
+  questionBanks: number;
+  feedbackTemplates: number;
+}
+
+const EMPTY_RESOURCES: InstructorResources = {
+  rubrics: [],
+  questionBanks: [],
+  feedbackTemplates: [],
+};
+
+// ============================================
+// Planning
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Move a scheduled date by a number of days
+ */
+export function shiftDate(date: Date | null, offsetDays: number): Date | null {
+  return date ? new Date(date.getTime() + offsetDays * DAY_MS) : null;
+}
+
+/**
+ * Map ids of copied records to the ids of their copies
+ */
+function createIdMap(ids: string[], generateId: () => string): Map<string, string> {
+  return new Map(ids.map((id) => [id, generateId()]));
+}
+
+function mapId(map: Map<string, string>, id: string | null): string | null {
+  return id ? map.get(id) ?? null : null;
+}
+
+/**
+ * Build the rows for a course copy
+ *
+ * @param source - The course with everything it contains
+ * @param options - The new course's details and owner
+ * @param resources - Records to copy to a new owner (empty for the same owner)
+ */
+export function planCourseCopy(
+  source: CourseCopySource,
+  options: CourseCopyOptions,
+  resources: InstructorResources = EMPTY_RESOURCES,
+  now: Date = new Date(),
+  generateId: () => string = randomUUID
+): CourseCopyPlan {
+  const courseId = generateId();
+  const shift = (date: Date | null) => shiftDate(date, options.dateOffsetDays);
+  const sameOwner = options.instructorId === source.instructorId;
+
+  // Instructor resources: re-used for the same owner, copied for another
+  const rubricIds = createIdMap(resources.rubrics.map((r) => r.id), generateId);
+  const bankIds = createIdMap(resources.questionBanks.map((b) => b.id), generateId);
+  const mapRubric = (id: string | null) => (sameOwner ? id : mapId(rubricIds, id));
+  const mapBank = (id: string) => (sameOwner ? id : bankIds.get(id) ?? null);
+
+  const categoryIds = createIdMap(source.grade_categories.map((c) => c.id), generateId);
+  const moduleIds = createIdMap(source.modules.map((m) => m.id), generateId);
+  const assignmentIds = createIdMap(source.assignments.map((a) => a.id), generateId);
+
+  // Quizzes need their backing assignment and (for another owner) their bank
+  const copiedContent = source.course_content.filter(
+    (item) =>
+      !item.quizzes ||
+      (assignmentIds.has(item.quizzes.assignmentId) && mapBank(item.quizzes.bankId) !== null)
+  );
+  const contentIds = createIdMap(copiedContent.map((c) => c.id), generateId);
+
+  const rubricCriteria: Prisma.rubric_criteriaCreateManyInput[] = [];
+  const rubricLevels: Prisma.rubric_levelsCreateManyInput[] = [];
+  for (const rubric of resources.rubrics) {
+    for (const criterion of rubric.rubric_criteria) {
+      const criterionId = generateId();
+      rubricCriteria.push({
+        id: criterionId,
+        title: criterion.title,
+        description: criterion.description,
+        orderIndex: criterion.orderIndex,
+        rubricId: rubricIds.get(rubric.id)!,
+      });
+      for (const level of criterion.rubric_levels) {
+        rubricLevels.push({
+          id: generateId(),
+          label: level.label,
+          description: level.description,
+          points: level.points,
+          orderIndex: level.orderIndex,
+          criterionId,
+        });
+      }
+    }
+  }
+
+  const quizQuestions: Prisma.quiz_questionsCreateManyInput[] = [];
+  const quizQuestionOptions: Prisma.quiz_question_optionsCreateManyInput[] = [];
+  for (const bank of resources.questionBanks) {
+    for (const question of bank.quiz_questions) {
+      const questionId = generateId();
+      quizQuestions.push({
+        id: questionId,
+        type: question.type,
+        prompt: question.prompt,
+        points: question.points,
+        numericAnswer: question.numericAnswer,
+        numericTolerance: question.numericTolerance,
+        acceptedAnswers: question.acceptedAnswers,
+        caseSensitive: question.caseSensitive,
+        orderIndex: question.orderIndex,
+        bankId: bankIds.get(bank.id)!,
+      });
+      for (const option of question.quiz_question_options) {
+        quizQuestionOptions.push({
+          id: generateId(),
+          text: option.text,
+          isCorrect: option.isCorrect,
+          orderIndex: option.orderIndex,
+          questionId,
+        });
+      }
+    }
+  }
+
+  return {
+    course: {
+      id: courseId,
+      title: options.title,
+      description: source.description,
+      code: options.code,
+      semester: options.semester,
+      year: options.year,
+      isActive: true,
+      learningObjectives: source.learningObjectives,
+      prerequisites: source.prerequisites,
+      targetAudience: source.targetAudience,
+      certificatesEnabled: source.certificatesEnabled,
+      certificateMinScore: source.certificateMinScore,
+      instructorId: options.instructorId,
+      updatedAt: now,
+    },
+    rubrics: resources.rubrics.map((rubric) => ({
+      id: rubricIds.get(rubric.id)!,
+      name: rubric.name,
+      description: rubric.description,
+      instructorId: options.instructorId,
+      updatedAt: now,
+    })),
+    rubricCriteria,
+    rubricLevels,
+    questionBanks: resources.questionBanks.map((bank) => ({
+      id: bankIds.get(bank.id)!,
+      name: bank.name,
+      description: bank.description,
+      instructorId: options.instructorId,
+      updatedAt: now,
+    })),
+    quizQuestions,
+    quizQuestionOptions,
+    feedbackTemplates: resources.feedbackTemplates.map((template) => ({
+      id: generateId(),
+      name: template.name,
+      category: template.category,
+      template: template.template,
+      isShared: false,
+      instructorId: options.instructorId,
+      updatedAt: now,
+    })),
+    gradeCategories: source.grade_categories.map((category) => ({
+      id: categoryIds.get(category.id)!,
+      name: category.name,
+      weight: category.weight,
+      orderIndex: category.orderIndex,
+      courseId,
+      updatedAt: now,
+    })),
+    modules: source.modules.map((module) => ({
+      id: moduleIds.get(module.id)!,
+      title: module.title,
+      description: module.description,
+      orderIndex: module.orderIndex,
+      isPublished: module.isPublished,
+      publishAt: shift(module.publishAt),
+      unpublishAt: shift(module.unpublishAt),
+      requiresPrevious: module.requiresPrevious,
+      unlockAt: shift(module.unlockAt),
+      prerequisiteMinScore: mapId(assignmentIds, module.prerequisiteAssignmentId)
+        ? module.prerequisiteMinScore
+        : null,
+      passingScore: module.passingScore,
+      requireDiscussionPost: module.requireDiscussionPost,
+      contentWeight: module.contentWeight,
+      assignmentWeight: module.assignmentWeight,
+      discussionWeight: module.discussionWeight,
+      courseId,
+      updatedAt: now,
+    })),
+    assignments: source.assignments.map((assignment) => ({
+      id: assignmentIds.get(assignment.id)!,
+      title: assignment.title,
+      description: assignment.description,
+      dueDate: shift(assignment.dueDate),
+      maxPoints: assignment.maxPoints,
+      isPublished: assignment.isPublished,
+      publishAt: shift(assignment.publishAt),
+      unpublishAt: shift(assignment.unpublishAt),
+      isRequired: assignment.isRequired,
+      isGroupAssignment: assignment.isGroupAssignment,
+      latePolicy: assignment.latePolicy,
+      lateGraceMinutes: assignment.lateGraceMinutes,
+      latePenaltyPerDay: assignment.latePenaltyPerDay,
+      lateCutoffAt: shift(assignment.lateCutoffAt),
+      maxAttempts: assignment.maxAttempts,
+      gradedAttemptPolicy: assignment.gradedAttemptPolicy,
+      moduleId: mapId(moduleIds, assignment.moduleId),
+      categoryId: mapId(categoryIds, assignment.categoryId),
+      rubricId: mapRubric(assignment.rubricId),
+      courseId,
+      createdById: options.instructorId,
+      updatedAt: now,
+    })),
+    content: copiedContent.map((item) => ({
+      id: contentIds.get(item.id)!,
+      title: item.title,
+      type: item.type,
+      content: item.content,
+      fileUrl: item.fileUrl,
+      thumbnailUrl: item.thumbnailUrl,
+      s3Key: item.s3Key,
+      thumbnailS3Key: item.thumbnailS3Key,
+      orderIndex: item.orderIndex,
+      isPublished: item.isPublished,
+      publishAt: shift(item.publishAt),
+      unpublishAt: shift(item.unpublishAt),
+      isRequired: item.isRequired,
+      moduleId: mapId(moduleIds, item.moduleId),
+      courseId,
+    })),
+    quizzes: copiedContent.flatMap((item) =>
+      item.quizzes
+        ? [
+            {
+              id: generateId(),
+              timeLimitMinutes: item.quizzes.timeLimitMinutes,
+              questionCount: item.quizzes.questionCount,
+              shuffleQuestions: item.quizzes.shuffleQuestions,
+              shuffleOptions: item.quizzes.shuffleOptions,
+              contentId: contentIds.get(item.id)!,
+              assignmentId: assignmentIds.get(item.quizzes.assignmentId)!,
+              bankId: mapBank(item.quizzes.bankId)!,
+              updatedAt: now,
+            },
+          ]
+        : []
+    ),
+    scormPackages: copiedContent.flatMap((item) =>
+      item.scorm_packages
+        ? [
+            {
+              id: generateId(),
+              version: item.scorm_packages.version,
+              title: item.scorm_packages.title,
+              launchPath: item.scorm_packages.launchPath,
+              storagePrefix: item.scorm_packages.storagePrefix,
+              packageKey: item.scorm_packages.packageKey,
+              contentId: contentIds.get(item.id)!,
+              assignmentId: mapId(assignmentIds, item.scorm_packages.assignmentId),
+              updatedAt: now,
+            },
+          ]
+        : []
+    ),
+    discussions: source.discussions.map((discussion) => ({
+      id: generateId(),
+      title: discussion.title,
+      description: discussion.description,
+      isPinned: discussion.isPinned,
+      isLocked: discussion.isLocked,
+      isQuestionAnswer: discussion.isQuestionAnswer,
+      isAnonymous: discussion.isAnonymous,
+      isPostFirst: discussion.isPostFirst,
+      requiredPosts: discussion.requiredPosts,
+      requiredReplies: discussion.requiredReplies,
+      assignmentId: mapId(assignmentIds, discussion.assignmentId),
+      moduleId: mapId(moduleIds, discussion.moduleId),
+      courseId,
+      createdBy: options.instructorId,
+    })),
+    modulePrerequisites: source.modules
+      .filter((module) => module.prerequisiteModuleId || module.prerequisiteAssignmentId)
+      .map((module) => ({
+        id: moduleIds.get(module.id)!,
+        prerequisiteModuleId: mapId(moduleIds, module.prerequisiteModuleId),
+        prerequisiteAssignmentId: mapId(assignmentIds, module.prerequisiteAssignmentId),
+      })),
+  };
+}
+
+// ============================================
+// Copying
+// ============================================
+
+/**
+ * Load the instructor-owned records a copy for another instructor needs
+ */
+async function loadInstructorResources(
+  source: CourseCopySource,
+  instructorId: string
+): Promise<InstructorResources> {
+  const rubricIds = [
+    ...new Set(source.assignments.map((a) => a.rubricId).filter((id): id is string => !!id)),
+  ];
+  const bankIds = [
+    ...new Set(
+      source.course_content.flatMap((item) => (item.quizzes ? [item.quizzes.bankId] : []))
+    ),
+  ];
+
+  const [rubrics, questionBanks, sourceTemplates, ownTemplates] = await Promise.all([
+    prisma.rubrics.findMany({
+      where: { id: { in: rubricIds }, ...notDeleted },
+      include: rubricCopyInclude,
+    }),
+    prisma.question_banks.findMany({
+      where: { id: { in: bankIds }, ...notDeleted },
+      include: questionBankCopyInclude,
+    }),
+    // Shared templates are already available to every instructor
+    prisma.feedback_templates.findMany({
+      where: { instructorId: source.instructorId, isShared: false },
+    }),
+    prisma.feedback_templates.findMany({
+      where: { instructorId },
+      select: { name: true, category: true },
+    }),
+  ]);
+
+  const existing = new Set(ownTemplates.map((t) => `${t.category}\u0000${t.name}`));
+
+  return {
+    rubrics,
+    questionBanks,
+    feedbackTemplates: sourceTemplates.filter(
+      (t) => !existing.has(`${t.category}\u0000${t.name}`)
+    ),
+  };
+}
+
+/**
+ * Copy a course into a new course
+ *
+ * The caller checks access to the source course and that the new code is
+ * free; a code taken concurrently fails with Prisma's unique constraint error.
+ *
+ * @returns The new course's id and what was copied, or null when the source
+ * course does not exist
+ */
+export async function copyCourse(
+  sourceCourseId: string,
+  options: CourseCopyOptions
+): Promise<{ courseId: string; summary: CourseCopySummary } | null> {
+  const source = await prisma.courses.findFirst({
+    where: { id: sourceCourseId, ...notDeleted },
+    include: courseCopySourceInclude,
+  });
+
+  if (!source) return null;
+
+  const resources =
+    options.instructorId === source.instructorId
+      ? EMPTY_RESOURCES
+      : await loadInstructorResources(source, options.instructorId);
+
+  const plan = planCourseCopy(source, options, resources);
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.courses.create({ data: plan.course });
+      await tx.rubrics.createMany({ data: plan.rubrics });
+      await tx.rubric_criteria.createMany({ data: plan.rubricCriteria });
+      await tx.rubric_levels.createMany({ data: plan.rubricLevels });
+      await tx.question_banks.createMany({ data: plan.questionBanks });
+      await tx.quiz_questions.createMany({ data: plan.quizQuestions });
+      await tx.quiz_question_options.createMany({ data: plan.quizQuestionOptions });
+      await tx.feedback_templates.createMany({ data: plan.feedbackTemplates });
+      await tx.grade_categories.createMany({ data: plan.gradeCategories });
+      await tx.modules.createMany({ data: plan.modules });
+      await tx.assignments.createMany({ data: plan.assignments });
+      await tx.course_content.createMany({ data: plan.content });
+      await tx.quizzes.createMany({ data: plan.quizzes });
+      await tx.scorm_packages.createMany({ data: plan.scormPackages });
+      await tx.discussions.createMany({ data: plan.discussions });
+
+      for (const { id, ...prerequisites } of plan.modulePrerequisites) {
+        await tx.modules.update({ where: { id }, data: prerequisites });
+      }
+    },
+    // Large courses take more than the default 5 seconds
+    { timeout: 60000 }
+  );
+
+  return {
+    courseId: plan.course.id,
+    summary: {
+      modules: plan.modules.length,
+      content: plan.content.length,
+      assignments: plan.assignments.length,
+      discussions: plan.discussions.length,
+      rubrics: plan.rubrics.length,
+      questionBanks: plan.questionBanks.length,
+      feedbackTemplates: plan.feedbackTemplates.length,
+    },
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * CSV Import Utilities
+ *
+ * Parses gradebook CSVs in the layout produced by `generateGradebookCSV` and
+ * works out which grades they change. Rows are matched to enrolled students
+ * by email and columns to assignments by their "Title (maxPoints)" header.
+ *
+ * Only numeric cells are imported: blank cells, "N/A" and the status values
+ * written by the export (graded, pending, late, missing) leave the grade as
+ * it is, so an import never clears grades.
+ *
+ * An imported number scores the student's attempt before any late penalty,
+ * like a grade entered in the gradebook, so the grade it results in can be
+ * lower. A number that matches the attempt's score, or the current grade as
+ * the export writes it, leaves the grade as it is.
+ */
+
+import { applyLatePenalty } from '@/lib/late-policy';
+
+/**
+ * Columns written by the export that are not assignments
+ */
+const STUDENT_NAME_HEADER = 'Student Name';
+const EMAIL_HEADER = 'Email';
+const SUMMARY_HEADERS = ['Total Points', 'Percentage', 'GPA'];
+
+/**
+ * Cell values that mean "no grade entered"
+ */
+const EMPTY_CELL_VALUES = ['', 'n/a', 'graded', 'pending', 'late', 'missing'];
+
+/**
+ * UTF-8 BOM the export prepends for Excel
+ */
+const UTF8_BOM = '\uFEFF';
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+export interface GradebookImportAssignment {
+  id: string;
+  title: string;
+  maxPoints: number;
+}
+
+export interface GradebookImportStudent {
+  id: string;
+  name: string;
+  email: string;
+  grades: Array<{
+    assignmentId: string;
+    /** Current grade (after any late penalty), or null when not graded */
+    points: number | null;
+    /** Attempt an imported grade scores, or null without a submission */
+    submissionId: string | null;
+    /** That attempt's score before any late penalty, or null when not graded */
+    attemptPoints: number | null;
+    /** Late penalty on that attempt, in percent (0 when on time) */
+    latePenaltyPercent: number;
+  }>;
+}
+
+/**
+ * A grade the import will change
+ */
+export interface GradebookImportChange {
+  row: number;
+  studentId: string;
+  studentName: string;
+  email: string;
+  assignmentId: string;
+  assignmentTitle: string;
+  maxPoints: number;
+  submissionId: string;
+  /** Current grade */
+  oldPoints: number | null;
+  /** Score given to the attempt */
+  newPoints: number;
+  /** Late penalty on the attempt, in percent (0 when on time) */
+  latePenaltyPercent: number;
+  /** Grade the new score results in once the late penalty is applied */
+  newGradePoints: number;
+}
+
+/**
+ * A problem found in the CSV (rows are numbered from 1, the header row)
+ */
+export interface GradebookImportError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface GradebookImportPlan {
+  changes: GradebookImportChange[];
+  errors: GradebookImportError[];
+  /** Headers that match no assignment and were ignored */
+  unmatchedColumns: string[];
+  /** Number of student rows read */
+  rowCount: number;
+  /** Numeric cells that match the attempt's score or the current grade */
+  unchangedCount: number;
+}
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Handles quoted fields with embedded commas, quotes ("") and newlines, CRLF
+ * line endings and a leading UTF-8 BOM. Blank lines are skipped.
+ *
+ * @param text - The CSV content
+ * @returns The rows, each an array of field values
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Header the export writes for an assignment column
+ */
+export function getAssignmentHeader(assignment: GradebookImportAssignment): string {
+  return `${assignment.title} (${assignment.maxPoints})`;
+}
+
+/**
+ * Work out the grade changes in a gradebook CSV
+ *
+ * Each numeric cell is validated against the assignment's `maxPoints` and
+ * compared with the student's current grade. A grade can only be entered for
+ * a student who has a submission, as in inline editing.
+ *
+ * @param text - The CSV content
+ * @param gradebook - The course's assignments and enrolled students with
+ *   their current grades
+ * @returns The changes, errors and ignored columns
+ */
+export function parseGradebookCSV(
+  text: string,
+  gradebook: { assignments: GradebookImportAssignment[]; students: GradebookImportStudent[] }
+): GradebookImportPlan {
+  const plan: GradebookImportPlan = {
+    changes: [],
+    errors: [],
+    unmatchedColumns: [],
+    rowCount: 0,
+    unchangedCount: 0,
+  };
+
+  const [header, ...rows] = parseCSV(text);
+  if (!header) {
+    plan.errors.push({ row: 1, message: 'The CSV is empty' });
+    return plan;
+  }
+
+  const headers = header.map((h) => h.trim());
+  const emailIndex = headers.indexOf(EMAIL_HEADER);
+  if (emailIndex === -1) {
+    plan.errors.push({ row: 1, message: `The CSV has no ${EMAIL_HEADER} column` });
+    return plan;
+  }
+
+  // Match assignment columns by header; duplicate headers cannot be told apart
+  const assignmentsByHeader = new Map<string, GradebookImportAssignment[]>();
+  for (const assignment of gradebook.assignments) {
+    const key = getAssignmentHeader(assignment);
+    assignmentsByHeader.set(key, [...(assignmentsByHeader.get(key) ?? []), assignment]);
+  }
+
+  const columns: Array<{ index: number; header: string; assignment: GradebookImportAssignment }> = [];
+  const seenAssignments = new Set<string>();
+
+  headers.forEach((h, index) => {
+    if (index === emailIndex || h === STUDENT_NAME_HEADER || SUMMARY_HEADERS.includes(h)) return;
+
+    const matches = assignmentsByHeader.get(h) ?? [];
+    if (matches.length === 0) {
+      plan.unmatchedColumns.push(h);
+    } else if (matches.length > 1) {
+      plan.errors.push({ row: 1, column: h, message: 'Several assignments have this title and points' });
+    } else if (seenAssignments.has(matches[0].id)) {
+      plan.errors.push({ row: 1, column: h, message: 'The column appears more than once' });
+    } else {
+      seenAssignments.add(matches[0].id);
+      columns.push({ index, header: h, assignment: matches[0] });
+    }
+  });
+
+  const studentsByEmail = new Map(gradebook.students.map((s) => [s.email.toLowerCase(), s]));
+  const seenStudents = new Set<string>();
+
+  rows.forEach((fields, i) => {
+    const row = i + 2;
+    const email = (fields[emailIndex] ?? '').trim();
+    plan.rowCount++;
+
+    if (!email) {
+      plan.errors.push({ row, column: EMAIL_HEADER, message: 'Email is missing' });
+      return;
+    }
+
+    const student = studentsByEmail.get(email.toLowerCase());
+    if (!student) {
+      plan.errors.push({ row, column: EMAIL_HEADER, message: `No enrolled student has the email ${email}` });
+      return;
+    }
+    if (seenStudents.has(student.id)) {
+      plan.errors.push({ row, column: EMAIL_HEADER, message: `${email} appears in more than one row` });
+      return;
+    }
+    seenStudents.add(student.id);
+
+    for (const { index, header: column, assignment } of columns) {
+      const value = (fields[index] ?? '').trim();
+      if (EMPTY_CELL_VALUES.includes(value.toLowerCase())) continue;
+
+      if (!NUMBER_PATTERN.test(value)) {
+        plan.errors.push({ row, column, message: `"${value}" is not a valid grade` });
+        continue;
+      }
+
+      const points = Number(value);
+      if (points < 0) {
+        plan.errors.push({ row, column, message: 'Grade cannot be negative' });
+        continue;
+      }
+      if (points > assignment.maxPoints) {
+        plan.errors.push({
+          row,
+          column,
+          message: `Grade cannot exceed maximum points (${assignment.maxPoints})`,
+        });
+        continue;
+      }
+
+      const current = student.grades.find((g) => g.assignmentId === assignment.id);
+      if (current && (current.attemptPoints === points || current.points === points)) {
+        plan.unchangedCount++;
+        continue;
+      }
+
+      if (!current?.submissionId) {
+        plan.errors.push({ row, column, message: 'The student has no submission to grade' });
+        continue;
+      }
+
+      plan.changes.push({
+        row,
+        studentId: student.id,
+        studentName: student.name,
+        email: student.email,
+        assignmentId: assignment.id,
+        assignmentTitle: assignment.title,
+        maxPoints: assignment.maxPoints,
+        submissionId: current.submissionId,
+        oldPoints: current.points,
+        newPoints: points,
+        latePenaltyPercent: current.latePenaltyPercent,
+        newGradePoints: applyLatePenalty(points, current.latePenaltyPercent),
+      });
+    }
+  });
+
+  return plan;
+}
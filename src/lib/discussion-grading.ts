@@ -0,0 +1,215 @@
+/**
+ * Discussion Grading
+ *
+ * A discussion can be graded on participation. Like quizzes and SCORM
+ * packages, a graded discussion is backed by an assignment
+ * (`discussions.assignmentId`) that holds its points and due date, so its
+ * grades appear as a gradebook column. The discussion holds the participation
+ * requirements: a number of original (top-level) posts and replies, written
+ * by the due date.
+ *
+ * Instructors grade each student from their posts. The grade is stored as a
+ * graded `submissions` attempt and the grade is derived with
+ * `syncGradeFromAttempts`.
+ *
+ * @module lib/discussion-grading
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { syncGradeFromAttempts } from '@/lib/attempts';
+
+/**
+ * Grading settings, stored on the discussion and its backing assignment
+ */
+export interface DiscussionGradingSettings {
+  maxPoints: number;
+  dueDate?: string | null;
+  requiredPosts: number;
+  requiredReplies: number;
+}
+
+/**
+ * A student's participation in a discussion
+ */
+export interface DiscussionParticipation {
+  /** Original posts written by the due date */
+  posts: number;
+  /** Replies written by the due date */
+  replies: number;
+  /** Posts and replies written after the due date */
+  latePosts: number;
+  /** Whether the on-time posts and replies meet the requirements */
+  met: boolean;
+}
+
+/**
+ * Count a student's posts against the participation requirements
+ *
+ * @param posts - The student's posts in the discussion, without removed posts
+ * @param requirements - Required original posts and replies
+ * @param dueDate - Posts after this date do not count (no limit when null)
+ */
+export function evaluateParticipation(
+  posts: { parentId: string | null; createdAt: Date | string }[],
+  requirements: { requiredPosts: number; requiredReplies: number },
+  dueDate: Date | string | null
+): DiscussionParticipation {
+  const due = dueDate ? new Date(dueDate).getTime() : null;
+  const onTime = posts.filter((post) => due === null || new Date(post.createdAt).getTime() <= due);
+
+  const originalPosts = onTime.filter((post) => post.parentId === null).length;
+  const replies = onTime.length - originalPosts;
+
+  return {
+    posts: originalPosts,
+    replies,
+    latePosts: posts.length - onTime.length,
+    met: originalPosts >= requirements.requiredPosts && replies >= requirements.requiredReplies,
+  };
+}
+
+/**
+ * Prisma include that loads a discussion's backing assignment
+ */
+export const discussionGradingInclude = {
+  assignments: {
+    select: { id: true, maxPoints: true, dueDate: true, deletedAt: true },
+  },
+} satisfies Prisma.discussionsInclude;
+
+type DiscussionWithAssignment = Prisma.discussionsGetPayload<{ include: typeof discussionGradingInclude }>;
+
+/**
+ * Shape a discussion's grading settings
+ *
+ * @returns The settings, or null when the discussion is not graded
+ */
+export function formatDiscussionGrading(discussion: DiscussionWithAssignment) {
+  const assignment = discussion.assignments;
+  if (!assignment || assignment.deletedAt) return null;
+
+  return {
+    assignmentId: assignment.id,
+    maxPoints: assignment.maxPoints,
+    dueDate: assignment.dueDate,
+    requiredPosts: discussion.requiredPosts,
+    requiredReplies: discussion.requiredReplies,
+  };
+}
+
+/**
+ * Turn grading on, update it, or turn it off for a discussion
+ *
+ * Turning grading on creates the backing assignment; turning it off
+ * archives the assignment, keeping its grades.
+ *
+ * @param discussion - The discussion, with its current backing assignment
+ * @param settings - New grading settings, or null to stop grading
+ * @param createdById - The instructor making the change
+ */
+export async function applyDiscussionGrading(
+  discussion: { id: string; title: string; courseId: string; assignmentId: string | null },
+  settings: DiscussionGradingSettings | null,
+  createdById: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const now = new Date();
+
+  if (!settings) {
+    if (discussion.assignmentId) {
+      await db.assignments.update({
+        where: { id: discussion.assignmentId },
+        data: { deletedAt: now },
+      });
+      await db.discussions.update({
+        where: { id: discussion.id },
+        data: { assignmentId: null, requiredPosts: 0, requiredReplies: 0 },
+      });
+    }
+    return;
+  }
+
+  const assignmentData = {
+    title: discussion.title,
+    dueDate: settings.dueDate ? new Date(settings.dueDate) : null,
+    maxPoints: settings.maxPoints,
+    updatedAt: now,
+  };
+
+  let assignmentId = discussion.assignmentId;
+  if (assignmentId) {
+    await db.assignments.update({ where: { id: assignmentId }, data: assignmentData });
+  } else {
+    // Published so the column shows in the gradebook; the discussion is what students see
+    const assignment = await db.assignments.create({
+      data: {
+        id: randomUUID(),
+        ...assignmentData,
+        isPublished: true,
+        courseId: discussion.courseId,
+        createdById,
+      },
+    });
+    assignmentId = assignment.id;
+  }
+
+  await db.discussions.update({
+    where: { id: discussion.id },
+    data: {
+      assignmentId,
+      requiredPosts: settings.requiredPosts,
+      requiredReplies: settings.requiredReplies,
+    },
+  });
+}
+
+/**
+ * Record a student's participation grade for a discussion
+ *
+ * @param params.assignmentId - The discussion's backing assignment
+ * @param params.studentId - The student
+ * @param params.points - Points awarded
+ * @param params.feedback - Feedback for the student, if given
+ * @param params.gradedById - The grading instructor
+ * @returns The student's grade
+ */
+export async function gradeDiscussionParticipation(
+  params: {
+    assignmentId: string;
+    studentId: string;
+    points: number;
+    feedback?: string | null;
+    gradedById: string;
+  },
+  db: Prisma.TransactionClient = prisma
+) {
+  const { assignmentId, studentId, points, gradedById } = params;
+  const now = new Date();
+  const feedback = params.feedback ?? null;
+
+  await db.submissions.upsert({
+    where: {
+      assignmentId_studentId_attemptNumber: { assignmentId, studentId, attemptNumber: 1 },
+    },
+    create: {
+      id: randomUUID(),
+      assignmentId,
+      studentId,
+      attemptNumber: 1,
+      submittedAt: now,
+      points,
+      feedback,
+      gradedAt: now,
+    },
+    update: { points, feedback, gradedAt: now },
+  });
+
+  const sync = await syncGradeFromAttempts(
+    { assignmentId, studentId, gradedById, source: 'DISCUSSION' },
+    db
+  );
+
+  return sync.grade;
+}
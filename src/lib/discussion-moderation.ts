@@ -0,0 +1,220 @@
+/**
+ * Discussion Moderation
+ *
+ * Instructors moderate single posts rather than whole discussions:
+ *
+ * - Hidden posts stay in their thread, but only the author and instructors
+ *   can read them.
+ * - Flagged posts wait in the course's moderation queue. Students flag a post
+ *   by reporting it; instructors can flag one directly.
+ * - Removed posts are soft-deleted with a reason. They keep their place so
+ *   replies still make sense, but nobody can read them any more except
+ *   instructors.
+ *
+ * Editing a post keeps the previous content as an edit, so instructors can
+ * see what was changed.
+ *
+ * @module lib/discussion-moderation
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+// ============================================
+// Post Visibility
+// ============================================
+
+/**
+ * Who is viewing a discussion
+ */
+export interface DiscussionViewer {
+  id: string;
+  /** Instructors of the course see hidden and removed posts in full */
+  isModerator: boolean;
+}
+
+/**
+ * Moderation state of a post as returned by the discussion routes
+ */
+export interface PostModerationView {
+  content: string;
+  author: { id: string };
+  isHidden: boolean;
+  isFlagged: boolean;
+  isRemoved: boolean;
+  removalReason: string | null;
+  editCount: number;
+}
+
+/**
+ * Blank out what a viewer may not read of a hidden or removed post
+ *
+ * Students never see whether a post is flagged. The author of a removed post
+ * is told why it was removed.
+ *
+ * @param post - Post as loaded for a moderator
+ * @param viewer - User viewing the post
+ */
+export function redactPostForViewer<T extends PostModerationView>(post: T, viewer: DiscussionViewer): T {
+  if (viewer.isModerator) return post;
+
+  const isAuthor = post.author.id === viewer.id;
+  const unreadable = post.isRemoved || (post.isHidden && !isAuthor);
+
+  return {
+    ...post,
+    content: unreadable ? '' : post.content,
+    isFlagged: false,
+    removalReason: isAuthor ? post.removalReason : null,
+    editCount: 0,
+  };
+}
+
+/**
+ * Whether students can still reply to, react to or accept a post
+ */
+export function isPostOpen(post: { isHidden: boolean; deletedAt: Date | null }): boolean {
+  return !post.isHidden && !post.deletedAt;
+}
+
+// ============================================
+// Edits and Reports
+// ============================================
+
+/**
+ * Keep a post's content before an edit
+ *
+ * @param params.postId - Edited post
+ * @param params.previousContent - Content before the edit
+ * @param params.editedById - User who made the edit
+ */
+export async function recordPostEdit(
+  params: { postId: string; previousContent: string; editedById: string },
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.discussion_post_edits.create({
+    data: {
+      id: randomUUID(),
+      postId: params.postId,
+      content: params.previousContent,
+      editedById: params.editedById,
+    },
+  });
+}
+
+/**
+ * Report a post and flag it for review
+ *
+ * A student has at most one report per post; reporting again replaces the
+ * reason and reopens a dismissed report.
+ *
+ * @param params.postId - Reported post
+ * @param params.reporterId - Student reporting the post
+ * @param params.reason - Why the post is reported
+ */
+export async function reportPost(
+  params: { postId: string; reporterId: string; reason: string },
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const { postId, reporterId, reason } = params;
+
+  await db.discussion_post_reports.upsert({
+    where: { postId_reporterId: { postId, reporterId } },
+    create: { id: randomUUID(), postId, reporterId, reason },
+    update: { reason, resolvedAt: null, createdAt: new Date() },
+  });
+
+  await db.discussion_posts.update({
+    where: { id: postId },
+    data: { isFlagged: true },
+  });
+}
+
+/**
+ * Take a post out of the moderation queue, resolving its open reports
+ *
+ * @param postId - Reviewed post
+ */
+export async function resolvePostReports(
+  postId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.discussion_post_reports.updateMany({
+    where: { postId, resolvedAt: null },
+    data: { resolvedAt: new Date() },
+  });
+
+  await db.discussion_posts.update({
+    where: { id: postId },
+    data: { isFlagged: false },
+  });
+}
+
+/**
+ * Remove a post on behalf of an instructor
+ *
+ * @param params.postId - Post to remove
+ * @param params.removedById - Instructor removing the post
+ * @param params.reason - Why the post was removed
+ */
+export async function removePost(
+  params: { postId: string; removedById: string; reason: string },
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await resolvePostReports(params.postId, db);
+
+  await db.discussion_posts.update({
+    where: { id: params.postId },
+    data: {
+      deletedAt: new Date(),
+      deletedById: params.removedById,
+      deletionReason: params.reason,
+    },
+  });
+}
+
+// ============================================
+// Moderation Queue
+// ============================================
+
+/**
+ * Flagged posts across a course's discussions, oldest first
+ *
+ * @param courseId - Course to moderate
+ */
+export async function loadModerationQueue(courseId: string, db: Prisma.TransactionClient = prisma) {
+  const posts = await db.discussion_posts.findMany({
+    where: {
+      isFlagged: true,
+      deletedAt: null,
+      discussions: { courseId, deletedAt: null },
+    },
+    include: {
+      users: { select: { id: true, name: true, email: true } },
+      discussions: { select: { id: true, title: true } },
+      discussion_post_reports: {
+        where: { resolvedAt: null },
+        include: { users: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return posts.map((post) => ({
+    id: post.id,
+    content: post.content,
+    parentId: post.parentId,
+    createdAt: post.createdAt,
+    isHidden: post.isHidden,
+    author: post.users,
+    discussion: post.discussions,
+    reports: post.discussion_post_reports.map((report) => ({
+      id: report.id,
+      reason: report.reason,
+      createdAt: report.createdAt,
+      reporter: report.users,
+    })),
+  }));
+}
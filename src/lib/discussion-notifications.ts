@@ -0,0 +1,333 @@
+/**
+ * Discussion Notifications
+ *
+ * Who hears about a new discussion post:
+ *
+ * - users it mentions, if they are in the course (DISCUSSION_MENTION)
+ * - the author of the post it replies to (DISCUSSION_REPLY)
+ * - the discussion's subscribers (DISCUSSION_REPLY)
+ * - for a new thread, the instructor who opened the discussion
+ *
+ * Any course member can subscribe to (follow) a discussion.
+ *
+ * Each user is notified once per post; a mention wins over a reply. Students
+ * and instructors open discussions at different paths, so each notification
+ * links to the recipient's own view. Students are not told who wrote a post
+ * in an anonymous discussion, nor what it says in a post-first one (see
+ * `@/lib/discussion-visibility`).
+ *
+ * @module lib/discussion-notifications
+ */
+
+import { randomUUID } from 'crypto';
+import type { NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { notifyUsers, summarizeForNotification, type AfterCommitTasks } from '@/lib/notifications';
+import { ANONYMOUS_CLASSMATE } from '@/lib/discussion-visibility';
+import { extractMentionIds, mentionsToPlainText, type MentionableUser } from '@/lib/mentions';
+
+// ============================================
+// Mentions
+// ============================================
+
+/**
+ * A course member who can be mentioned
+ */
+export interface CourseMember extends MentionableUser {
+  role: string;
+}
+
+/**
+ * The instructor and enrolled students of a course, by surname
+ *
+ * @param courseId - Course whose members to list
+ * @param query - Only members whose name or email contains this text
+ * @param limit - Most members to return
+ */
+export async function loadMentionableUsers(
+  courseId: string,
+  query = '',
+  limit = 8,
+  db: Prisma.TransactionClient = prisma
+): Promise<CourseMember[]> {
+  const search = query.trim();
+
+  return db.users.findMany({
+    where: {
+      deletedAt: null,
+      OR: [
+        { courses: { some: { id: courseId } } },
+        { enrollments: { some: { courseId } } },
+      ],
+      ...(search
+        ? {
+            AND: {
+              OR: [
+                { name: { contains: search, mode: 'insensitive' } },
+                { surname: { contains: search, mode: 'insensitive' } },
+                { email: { contains: search, mode: 'insensitive' } },
+              ],
+            },
+          }
+        : {}),
+    },
+    select: { id: true, name: true, surname: true, role: true },
+    orderBy: [{ surname: 'asc' }, { name: 'asc' }],
+    take: limit,
+  });
+}
+
+/**
+ * Bring a post's stored mentions in line with its content
+ *
+ * Only course members are recorded; other mention tokens stay plain text.
+ *
+ * @param params.postId - Created or edited post
+ * @param params.content - The post's current content
+ * @param params.courseId - Course of the post's discussion
+ * @returns IDs of the users mentioned for the first time in this post
+ */
+export async function syncPostMentions(
+  params: { postId: string; content: string; courseId: string },
+  db: Prisma.TransactionClient = prisma
+): Promise<string[]> {
+  const { postId, content, courseId } = params;
+  const ids = extractMentionIds(content);
+
+  const members = ids.length
+    ? await db.users.findMany({
+        where: {
+          id: { in: ids },
+          deletedAt: null,
+          OR: [
+            { courses: { some: { id: courseId } } },
+            { enrollments: { some: { courseId } } },
+          ],
+        },
+        select: { id: true },
+      })
+    : [];
+  const memberIds = new Set(members.map((member) => member.id));
+  const mentionedIds = ids.filter((id) => memberIds.has(id));
+
+  const existing = await db.discussion_post_mentions.findMany({
+    where: { postId },
+    select: { userId: true },
+  });
+  const existingIds = existing.map((mention) => mention.userId);
+
+  await db.discussion_post_mentions.deleteMany({
+    where: { postId, userId: { notIn: mentionedIds } },
+  });
+
+  const newIds = mentionedIds.filter((id) => !existingIds.includes(id));
+  if (newIds.length > 0) {
+    await db.discussion_post_mentions.createMany({
+      data: newIds.map((userId) => ({ id: randomUUID(), postId, userId })),
+      skipDuplicates: true,
+    });
+  }
+
+  return newIds;
+}
+
+// ============================================
+// Subscriptions
+// ============================================
+
+/**
+ * Follow or stop following a discussion
+ *
+ * @param params.discussionId - Discussion to follow
+ * @param params.userId - Follower
+ * @param params.subscribed - Whether the user follows the discussion afterwards
+ */
+export async function setDiscussionSubscription(
+  params: { discussionId: string; userId: string; subscribed: boolean },
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const { discussionId, userId, subscribed } = params;
+
+  if (subscribed) {
+    await db.discussion_subscriptions.upsert({
+      where: { discussionId_userId: { discussionId, userId } },
+      create: { id: randomUUID(), discussionId, userId },
+      update: {},
+    });
+  } else {
+    await db.discussion_subscriptions.deleteMany({ where: { discussionId, userId } });
+  }
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * A discussion as needed for its notifications
+ */
+export interface NotifiedDiscussion {
+  id: string;
+  title: string;
+  courseId: string;
+  createdBy: string;
+  isAnonymous: boolean;
+  isPostFirst: boolean;
+}
+
+/**
+ * The user who wrote the post
+ */
+export interface DiscussionActor {
+  id: string;
+  /** Shown in notification titles; "Someone" when unknown */
+  name?: string | null;
+}
+
+/**
+ * Path of a discussion for a user with the given role
+ */
+export function discussionPath(role: string, courseId: string, discussionId: string): string {
+  return role === 'STUDENT'
+    ? `/courses/${courseId}/discussions/${discussionId}`
+    : `/instructor/courses/${courseId}/discussions/${discussionId}`;
+}
+
+/**
+ * Send one notification, linking each recipient to their own view of the discussion
+ *
+ * @param params.title - Builds the title from the name shown for the actor
+ * @param params.content - The post's content, for the notification body
+ */
+async function notifyByRole(
+  params: {
+    userIds: string[];
+    type: NotificationType;
+    title: (actorName: string) => string;
+    content: string;
+    discussion: NotifiedDiscussion;
+    actor: DiscussionActor;
+  },
+  db: Prisma.TransactionClient,
+  afterCommit?: AfterCommitTasks
+): Promise<void> {
+  const { userIds, type, title, content, discussion, actor } = params;
+  if (userIds.length === 0) return;
+
+  const users = await db.users.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, role: true },
+  });
+
+  const roles = [...new Set(users.map((user) => user.role))];
+  for (const role of roles) {
+    const isPeer = role === 'STUDENT';
+    const actorName = isPeer && discussion.isAnonymous ? ANONYMOUS_CLASSMATE : actor.name || 'Someone';
+
+    await notifyUsers(
+      {
+        userIds: users.filter((user) => user.role === role).map((user) => user.id),
+        type,
+        title: title(actorName),
+        body: isPeer && discussion.isPostFirst ? null : summarizeForNotification(mentionsToPlainText(content)),
+        link: discussionPath(role, discussion.courseId, discussion.id),
+        courseId: discussion.courseId,
+        actorId: actor.id,
+      },
+      db,
+      afterCommit
+    );
+  }
+}
+
+/**
+ * Tell users they were mentioned in a post
+ *
+ * @param params.mentionedIds - Users to notify, from `syncPostMentions`
+ * @param afterCommit - Where to queue emails when `db` is a transaction client
+ */
+export async function notifyMentions(
+  params: {
+    discussion: NotifiedDiscussion;
+    content: string;
+    mentionedIds: string[];
+    actor: DiscussionActor;
+  },
+  db: Prisma.TransactionClient = prisma,
+  afterCommit?: AfterCommitTasks
+): Promise<void> {
+  const { discussion, content, mentionedIds, actor } = params;
+
+  await notifyByRole(
+    {
+      userIds: mentionedIds,
+      type: 'DISCUSSION_MENTION',
+      title: (actorName) => `${actorName} mentioned you in ${discussion.title}`,
+      content,
+      discussion,
+      actor,
+    },
+    db,
+    afterCommit
+  );
+}
+
+/**
+ * Tell mentioned users, the replied-to author and subscribers about a new post
+ *
+ * @param params.parentAuthorId - Author of the post replied to; null for a new thread
+ * @param params.mentionedIds - Users the post mentions, from `syncPostMentions`
+ * @param afterCommit - Where to queue emails when `db` is a transaction client
+ */
+export async function notifyDiscussionPost(
+  params: {
+    discussion: NotifiedDiscussion;
+    content: string;
+    parentAuthorId: string | null;
+    mentionedIds: string[];
+    actor: DiscussionActor;
+  },
+  db: Prisma.TransactionClient = prisma,
+  afterCommit?: AfterCommitTasks
+): Promise<void> {
+  const { discussion, content, parentAuthorId, mentionedIds, actor } = params;
+
+  await notifyMentions({ discussion, content, mentionedIds, actor }, db, afterCommit);
+
+  if (parentAuthorId && !mentionedIds.includes(parentAuthorId)) {
+    await notifyByRole(
+      {
+        userIds: [parentAuthorId],
+        type: 'DISCUSSION_REPLY',
+        title: (actorName) => `${actorName} replied to your post in ${discussion.title}`,
+        content,
+        discussion,
+        actor,
+      },
+      db,
+      afterCommit
+    );
+  }
+
+  const subscriptions = await db.discussion_subscriptions.findMany({
+    where: { discussionId: discussion.id },
+    select: { userId: true },
+  });
+  const followerIds = subscriptions.map((subscription) => subscription.userId);
+  if (!parentAuthorId) followerIds.push(discussion.createdBy);
+
+  await notifyByRole(
+    {
+      userIds: [...new Set(followerIds)].filter(
+        (id) => id !== parentAuthorId && !mentionedIds.includes(id)
+      ),
+      type: 'DISCUSSION_REPLY',
+      title: (actorName) => `${actorName} posted in ${discussion.title}`,
+      content,
+      discussion,
+      actor,
+    },
+    db,
+    afterCommit
+  );
+}
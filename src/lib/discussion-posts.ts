@@ -0,0 +1,148 @@
+/**
+ * Discussion Post Queries
+ *
+ * Server-side loading and answer marking for discussion threads. The thread
+ * logic itself lives in `@/lib/discussions`.
+ *
+ * @module lib/discussion-posts
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  redactPostForViewer,
+  type DiscussionViewer,
+  type PostModerationView,
+} from '@/lib/discussion-moderation';
+import { anonymizeAuthors } from '@/lib/discussion-visibility';
+import {
+  buildPostTree,
+  collectThreadPostIds,
+  findThreadRootId,
+  summarizeReactions,
+  type ReactionSummary,
+  type ThreadedPost,
+} from '@/lib/discussions';
+
+/**
+ * A post as returned by the discussion routes
+ */
+export interface DiscussionPostView extends PostModerationView {
+  id: string;
+  content: string;
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  author: { id: string; name: string; email: string };
+  isEndorsed: boolean;
+  isAcceptedAnswer: boolean;
+  reactions: ReactionSummary;
+}
+
+/**
+ * Load every post of a discussion as nested threads
+ *
+ * Hidden and removed posts keep their place in the thread, blanked out for
+ * viewers who may not read them. In an anonymous discussion students see
+ * their classmates under pseudonyms.
+ *
+ * @param discussion - Discussion to load
+ * @param viewer - User viewing the discussion, for their own reactions
+ * @returns Top-level posts, oldest first, with replies nested oldest first
+ */
+export async function loadDiscussionThreads(
+  discussion: { id: string; isAnonymous: boolean },
+  viewer: DiscussionViewer,
+  db: Prisma.TransactionClient = prisma
+): Promise<ThreadedPost<DiscussionPostView>[]> {
+  const posts = await db.discussion_posts.findMany({
+    where: { discussionId: discussion.id },
+    include: {
+      users: { select: { id: true, name: true, email: true } },
+      discussion_post_reactions: { select: { type: true, userId: true } },
+      _count: { select: { discussion_post_edits: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const views = posts.map((post) =>
+    redactPostForViewer<DiscussionPostView>(
+      {
+        id: post.id,
+        content: post.content,
+        parentId: post.parentId,
+        createdAt: post.createdAt,
+        updatedAt: post.updatedAt,
+        author: post.users,
+        isEndorsed: post.isEndorsed,
+        isAcceptedAnswer: post.isAcceptedAnswer,
+        reactions: summarizeReactions(post.discussion_post_reactions, viewer.id),
+        isHidden: post.isHidden,
+        isFlagged: post.isFlagged,
+        isRemoved: post.deletedAt !== null,
+        removalReason: post.deletionReason,
+        editCount: post._count.discussion_post_edits,
+      },
+      viewer
+    )
+  );
+
+  return buildPostTree(
+    discussion.isAnonymous && !viewer.isModerator ? anonymizeAuthors(views, viewer.id) : views
+  );
+}
+
+/**
+ * Mark or unmark a reply as the accepted answer of its thread
+ *
+ * A thread has at most one accepted answer, so accepting a reply clears any
+ * other accepted reply in the same thread.
+ *
+ * @param params.discussionId - Discussion of the reply
+ * @param params.postId - Reply to mark
+ * @param params.accepted - Whether the reply is the accepted answer
+ */
+export async function setAcceptedAnswer(
+  params: { discussionId: string; postId: string; accepted: boolean },
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const { discussionId, postId, accepted } = params;
+
+  const posts = await db.discussion_posts.findMany({
+    where: { discussionId },
+    select: { id: true, parentId: true },
+  });
+  const threadIds = collectThreadPostIds(posts, findThreadRootId(posts, postId));
+
+  await db.discussion_posts.updateMany({
+    where: { id: { in: threadIds }, isAcceptedAnswer: true },
+    data: { isAcceptedAnswer: false },
+  });
+
+  if (accepted) {
+    await db.discussion_posts.update({
+      where: { id: postId },
+      data: { isAcceptedAnswer: true },
+    });
+  }
+}
+
+/**
+ * Find the author of the thread a post belongs to
+ *
+ * @param discussionId - Discussion of the post
+ * @param postId - Any post in the thread
+ */
+export async function findThreadAuthorId(
+  discussionId: string,
+  postId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  const posts = await db.discussion_posts.findMany({
+    where: { discussionId },
+    select: { id: true, parentId: true, authorId: true },
+  });
+  const rootId = findThreadRootId(posts, postId);
+
+  return posts.find((post) => post.id === rootId)?.authorId ?? null;
+}
@@ -0,0 +1,95 @@
+/**
+ * Discussion Peer Visibility
+ *
+ * Two discussion settings limit what students see of each other's posts:
+ *
+ * - In an anonymous discussion (`discussions.isAnonymous`) classmates do not
+ *   see who wrote a post. A student sees their own posts under their name
+ *   and everyone else's as "Anonymous 1", "Anonymous 2" and so on, numbered
+ *   in order of first post so a conversation can still be followed.
+ *   Instructors always see the author.
+ * - In a post-first discussion (`discussions.isPostFirst`) a student sees
+ *   only their own posts until they start a thread. Until then they cannot
+ *   reply to, react to or report classmates' posts either.
+ *
+ * The student discussion routes enforce both settings; the pages only
+ * reflect them.
+ *
+ * @module lib/discussion-visibility
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * How classmates are named in notifications about an anonymous discussion
+ */
+export const ANONYMOUS_CLASSMATE = 'A classmate';
+
+/**
+ * Replace the authors of other students' posts with numbered pseudonyms
+ *
+ * @param posts - Posts in the order they were written
+ * @param viewerId - Student viewing the posts; their own posts keep their name
+ */
+export function anonymizeAuthors<T extends { author: { id: string; name: string; email: string } }>(
+  posts: T[],
+  viewerId: string
+): T[] {
+  const numbers = new Map<string, number>();
+
+  return posts.map((post) => {
+    if (post.author.id === viewerId) return post;
+
+    if (!numbers.has(post.author.id)) numbers.set(post.author.id, numbers.size + 1);
+    return {
+      ...post,
+      author: { id: '', name: `Anonymous ${numbers.get(post.author.id)}`, email: '' },
+    };
+  });
+}
+
+/**
+ * Whether a student has started a thread that is still in a discussion
+ *
+ * Hidden threads count; removed ones do not.
+ */
+export async function hasStartedThread(
+  discussionId: string,
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  const count = await db.discussion_posts.count({
+    where: { discussionId, authorId: userId, parentId: null, deletedAt: null },
+  });
+  return count > 0;
+}
+
+/**
+ * Whether a student may read and respond to classmates' posts
+ *
+ * @param discussion - Discussion being viewed
+ * @param userId - Student viewing it
+ */
+export async function canSeePeerPosts(
+  discussion: { id: string; isPostFirst: boolean },
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  return !discussion.isPostFirst || hasStartedThread(discussion.id, userId, db);
+}
+
+/**
+ * The threads a student started, without any replies
+ *
+ * What a student sees of a post-first discussion before they can see their
+ * classmates' posts.
+ */
+export function ownThreadsOnly<T extends { author: { id: string }; replies: unknown[] }>(
+  threads: T[],
+  viewerId: string
+): T[] {
+  return threads
+    .filter((thread) => thread.author.id === viewerId)
+    .map((thread) => ({ ...thread, replies: [] }));
+}
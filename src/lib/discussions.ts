@@ -0,0 +1,209 @@
+/**
+ * Discussion Threads
+ *
+ * Posts are stored flat with a `parentId`, so replies can nest to any depth.
+ * The discussion routes load every post of a discussion at once and build the
+ * thread tree here. A top-level post starts a thread.
+ *
+ * In a Q&A discussion (`discussions.isQuestionAnswer`) each thread is a
+ * question and one reply in it can be the accepted answer. Elsewhere a thread
+ * counts as answered once it has a reply.
+ *
+ * Kept free of server imports so the discussion pages can sort threads too.
+ */
+
+// ============================================
+// Reactions
+// ============================================
+
+/**
+ * Reaction values (mirrors the ReactionType enum)
+ */
+export const reactionTypes = ['UPVOTE', 'THANKS', 'HELPFUL', 'CONFUSED'] as const
+
+export type ReactionTypeValue = (typeof reactionTypes)[number]
+
+/**
+ * Button labels for each reaction
+ */
+export const reactionLabels: Record<ReactionTypeValue, string> = {
+  UPVOTE: 'Upvote',
+  THANKS: 'Thanks',
+  HELPFUL: 'Helpful',
+  CONFUSED: 'Confused',
+}
+
+/**
+ * Reaction counts of a post, and which reactions the viewer gave
+ */
+export interface ReactionSummary {
+  counts: Partial<Record<ReactionTypeValue, number>>
+  mine: ReactionTypeValue[]
+}
+
+/**
+ * Count a post's reactions for the viewer
+ *
+ * @param reactions - Every reaction on the post
+ * @param viewerId - User viewing the post
+ */
+export function summarizeReactions(
+  reactions: { type: ReactionTypeValue; userId: string }[],
+  viewerId: string
+): ReactionSummary {
+  const counts: ReactionSummary['counts'] = {}
+  const mine: ReactionTypeValue[] = []
+
+  reactions.forEach((reaction) => {
+    counts[reaction.type] = (counts[reaction.type] ?? 0) + 1
+    if (reaction.userId === viewerId) mine.push(reaction.type)
+  })
+
+  return { counts, mine }
+}
+
+// ============================================
+// Thread Trees
+// ============================================
+
+/**
+ * A post as loaded from the database, before nesting
+ */
+export interface FlatPost {
+  id: string
+  parentId: string | null
+}
+
+/**
+ * A post with its nested replies
+ */
+export type ThreadedPost<T extends FlatPost> = T & { replies: ThreadedPost<T>[] }
+
+/**
+ * Nest posts under their parents
+ *
+ * Replies keep the order of `posts`. A reply whose parent is missing is shown
+ * as a thread of its own.
+ *
+ * @param posts - Every post of a discussion, oldest first
+ * @returns The threads, each with its replies nested
+ */
+export function buildPostTree<T extends FlatPost>(posts: T[]): ThreadedPost<T>[] {
+  const nodes = new Map<string, ThreadedPost<T>>()
+  posts.forEach((post) => nodes.set(post.id, { ...post, replies: [] }))
+
+  const threads: ThreadedPost<T>[] = []
+  posts.forEach((post) => {
+    const node = nodes.get(post.id)!
+    const parent = post.parentId ? nodes.get(post.parentId) : undefined
+
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      threads.push(node)
+    }
+  })
+
+  return threads
+}
+
+/**
+ * Find the top-level post of the thread a post belongs to
+ *
+ * @param posts - Every post of the discussion
+ * @param postId - Post to start from
+ */
+export function findThreadRootId(posts: FlatPost[], postId: string): string {
+  const parents = new Map(posts.map((post) => [post.id, post.parentId]))
+  const seen = new Set<string>()
+
+  let current = postId
+  while (parents.get(current) && !seen.has(current)) {
+    seen.add(current)
+    current = parents.get(current)!
+  }
+
+  return current
+}
+
+/**
+ * IDs of a post and all of its replies, at any depth
+ *
+ * @param posts - Every post of the discussion
+ * @param rootId - Post whose thread to collect
+ */
+export function collectThreadPostIds(posts: FlatPost[], rootId: string): string[] {
+  const ids = [rootId]
+
+  for (let i = 0; i < ids.length; i++) {
+    posts.forEach((post) => {
+      if (post.parentId === ids[i] && !ids.includes(post.id)) ids.push(post.id)
+    })
+  }
+
+  return ids
+}
+
+// ============================================
+// Sorting
+// ============================================
+
+/**
+ * Thread orders offered on the discussion pages
+ */
+export type ThreadSort = 'newest' | 'top' | 'unanswered'
+
+/**
+ * Fields of a post that sorting needs
+ */
+export interface SortablePost {
+  createdAt: Date | string
+  isAcceptedAnswer: boolean
+  reactions: ReactionSummary
+  replies: SortablePost[]
+}
+
+/**
+ * Whether a thread has been answered
+ *
+ * @param thread - Top-level post with its replies
+ * @param isQuestionAnswer - Whether the discussion is a Q&A discussion
+ */
+export function isThreadAnswered(thread: SortablePost, isQuestionAnswer: boolean): boolean {
+  if (!isQuestionAnswer) return thread.replies.length > 0
+
+  const hasAcceptedAnswer = (post: SortablePost): boolean =>
+    post.replies.some((reply) => reply.isAcceptedAnswer || hasAcceptedAnswer(reply))
+
+  return hasAcceptedAnswer(thread)
+}
+
+/**
+ * Order threads for display
+ *
+ * - newest: most recent thread first
+ * - top: most upvoted thread first, newest first on ties
+ * - unanswered: unanswered threads first, newest first within each group
+ *
+ * Replies inside a thread are not reordered.
+ *
+ * @param threads - Top-level posts
+ * @param sort - Order to apply
+ * @param isQuestionAnswer - Whether the discussion is a Q&A discussion
+ * @returns A sorted copy of `threads`
+ */
+export function sortThreads<T extends SortablePost>(
+  threads: T[],
+  sort: ThreadSort,
+  isQuestionAnswer: boolean
+): T[] {
+  const newest = (a: T, b: T) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  const upvotes = (post: T) => post.reactions.counts.UPVOTE ?? 0
+  const answered = (post: T) => (isThreadAnswered(post, isQuestionAnswer) ? 1 : 0)
+
+  return [...threads].sort((a, b) => {
+    if (sort === 'top') return upvotes(b) - upvotes(a) || newest(a, b)
+    if (sort === 'unanswered') return answered(a) - answered(b) || newest(a, b)
+    return newest(a, b)
+  })
+}
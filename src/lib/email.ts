@@ -0,0 +1,360 @@
+/**
+ * Email Delivery
+ *
+ * Pluggable transport for outgoing email. The transport is selected with
+ * EMAIL_TRANSPORT:
+ * - smtp: deliver through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER,
+ *   SMTP_PASSWORD, SMTP_SECURE)
+ * - file: write each message as an .eml file to EMAIL_FILE_DIR
+ *   (default: .emails) for local development
+ * - console: print each message to the server log (default)
+ *
+ * EMAIL_FROM sets the sender address for every transport.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import { randomUUID } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * An outgoing plain-text email
+ */
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Delivers email messages
+ */
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = 'AI Gurus LMS <no-reply@localhost>'
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM
+}
+
+// ============================================
+// Message Formatting
+// ============================================
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7E]*$/.test(value)) return value
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+/**
+ * Extract the bare address from "Name <address>" or "address"
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim()
+}
+
+/**
+ * Build an RFC 5322 message with CRLF line endings
+ *
+ * Header values are stripped of line breaks so that user-supplied subjects
+ * cannot inject additional headers.
+ */
+export function formatEmailMessage(
+  message: EmailMessage,
+  from: string,
+  date: Date = new Date()
+): string {
+  const singleLine = (value: string) => value.replace(/[\r\n]+/g, ' ')
+  const domain = extractAddress(from).split('@')[1] || 'localhost'
+
+  const headers = [
+    `From: ${singleLine(from)}`,
+    `To: ${singleLine(message.to)}`,
+    `Subject: ${encodeHeader(singleLine(message.subject))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ]
+
+  const body = message.text.replace(/\r?\n/g, '\r\n')
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`
+}
+
+/**
+ * Escape lines starting with "." for the SMTP DATA command (RFC 5321 4.5.2)
+ */
+export function dotStuff(data: string): string {
+  return data.replace(/(^|\r\n)\./g, '$1..')
+}
+
+// ============================================
+// Console and File Transports
+// ============================================
+
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      JSON.stringify({
+        level: 'info',
+        action: 'email_sent',
+        transport: 'console',
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        timestamp: new Date().toISOString(),
+      })
+    )
+  },
+}
+
+/**
+ * Write each message as an .eml file (openable in any mail client)
+ */
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const filename = `${Date.now()}-${randomUUID()}.eml`
+      await writeFile(
+        path.join(directory, filename),
+        formatEmailMessage(message, getFromAddress()),
+        'utf8'
+      )
+    },
+  }
+}
+
+// ============================================
+// SMTP Transport
+// ============================================
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /**
+   * Connect over TLS (port 465); otherwise STARTTLS is used when offered.
+   * Credentials are only ever sent over TLS.
+   */
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+const SMTP_TIMEOUT_MS = 15000
+
+/**
+ * Minimal line-based SMTP session over a socket
+ */
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private waiting: ((line: string) => void) | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8')
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => {
+      this.fail(new Error('SMTP connection timed out'))
+    })
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk
+      let index: number
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        const line = this.buffer.slice(0, index)
+        this.buffer = this.buffer.slice(index + 2)
+        if (this.waiting) {
+          const resolve = this.waiting
+          this.waiting = null
+          resolve(line)
+        } else {
+          this.lines.push(line)
+        }
+      }
+    })
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return
+    this.failure = error
+    this.socket.destroy()
+    if (this.waiting) {
+      const resolve = this.waiting
+      this.waiting = null
+      resolve('')
+    }
+  }
+
+  private readLine(): Promise<string> {
+    const line = this.lines.shift()
+    if (line !== undefined) return Promise.resolve(line)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = (value) => (this.failure ? reject(this.failure) : resolve(value))
+    })
+  }
+
+  /**
+   * Read a (possibly multi-line) reply and check its status code is one of
+   * those expected
+   */
+  async readReply(expected: number | number[]): Promise<string[]> {
+    const accepted = Array.isArray(expected) ? expected : [expected]
+    const lines: string[] = []
+    for (;;) {
+      const line = await this.readLine()
+      lines.push(line.slice(4))
+      if (line.charAt(3) !== '-') {
+        const code = parseInt(line.slice(0, 3), 10)
+        if (!accepted.includes(code)) {
+          throw new Error(`SMTP error: expected ${accepted.join(' or ')}, got "${line}"`)
+        }
+        return lines
+      }
+    }
+  }
+
+  async command(line: string, expected: number | number[]): Promise<string[]> {
+    this.socket.write(`${line}\r\n`)
+    return this.readReply(expected)
+  }
+
+  /**
+   * Upgrade the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners()
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername: host }, () => resolve(upgraded))
+      upgraded.once('error', reject)
+    })
+    this.socket = secureSocket
+    this.buffer = ''
+    this.lines = []
+    this.attach(secureSocket)
+  }
+
+  close() {
+    this.failure = this.failure ?? new Error('SMTP connection closed')
+    this.socket.end()
+  }
+}
+
+function connectSocket(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () =>
+          resolve(socket)
+        )
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.once('error', reject)
+  })
+}
+
+/**
+ * Deliver through an SMTP server, one connection per message
+ */
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const from = getFromAddress()
+      const connection = new SmtpConnection(await connectSocket(config))
+
+      try {
+        await connection.readReply(220)
+        const capabilities = await connection.command('EHLO localhost', 250)
+        let encrypted = config.secure
+
+        if (!config.secure && capabilities.some((line) => /^STARTTLS/i.test(line))) {
+          await connection.command('STARTTLS', 220)
+          await connection.upgrade(config.host)
+          await connection.command('EHLO localhost', 250)
+          encrypted = true
+        }
+
+        if (config.user && config.password) {
+          // A server without STARTTLS (or a network that strips it) must not get the password
+          if (!encrypted) {
+            throw new Error('SMTP server did not offer STARTTLS; refusing to send credentials unencrypted')
+          }
+
+          const credentials = Buffer.from(`\0${config.user}\0${config.password}`).toString('base64')
+          await connection.command(`AUTH PLAIN ${credentials}`, 235)
+        }
+
+        await connection.command(`MAIL FROM:<${extractAddress(from)}>`, 250)
+        // 251: the server accepts the recipient and forwards the message
+        await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251])
+        await connection.command('DATA', 354)
+        await connection.command(`${dotStuff(formatEmailMessage(message, from))}\r\n.`, 250)
+        await connection.command('QUIT', 221).catch(() => undefined)
+      } finally {
+        connection.close()
+      }
+    },
+  }
+}
+
+// ============================================
+// Transport Selection
+// ============================================
+
+let transport: EmailTransport | null = null
+
+/**
+ * Get the configured email transport (lazy initialization)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport
+
+  const kind = process.env.EMAIL_TRANSPORT || 'console'
+
+  if (kind === 'smtp' && process.env.SMTP_HOST) {
+    transport = createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    })
+  } else if (kind === 'file') {
+    transport = createFileTransport(process.env.EMAIL_FILE_DIR || '.emails')
+  } else {
+    if (kind === 'smtp') {
+      console.warn('SMTP_HOST not configured - emails will be logged to the console')
+    }
+    transport = consoleTransport
+  }
+
+  return transport
+}
+
+/**
+ * Send an email with the configured transport
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await getEmailTransport().send(message)
+}
@@ -0,0 +1,214 @@
+/**
+ * Due Date Extensions & Accommodations
+ *
+ * Resolves the due date that applies to a specific student:
+ * - A per-assignment extension replaces the due date outright
+ * - Otherwise the due date set for the student's section, if any, replaces
+ *   the assignment's due date
+ * - A course-wide accommodation then lengthens the assignment window
+ *   (creation → due date) by `extraTimePercent` and adds `extraHours`
+ *
+ * The resolved due date (and a late cutoff moved by the same amount) is fed
+ * into the late policy engine, so the submission route, the gradebook status
+ * and the upcoming assignments list all see the same personal deadline.
+ *
+ * @module lib/extensions
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { LatePolicySettings } from '@/lib/late-policy';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Per-assignment extension for one student
+ */
+export interface DueDateExtension {
+  dueDate: Date;
+}
+
+/**
+ * Course-wide accommodation for one student
+ */
+export interface CourseAccommodation {
+  /** Extra time as a percentage of the assignment window (e.g. 50 for +50%) */
+  extraTimePercent: number;
+  /** Fixed extra hours added after the percentage */
+  extraHours: number;
+}
+
+/**
+ * Extensions and accommodations keyed for fast lookup
+ */
+export interface DueDateAdjustments {
+  /** Keyed by `${assignmentId}:${studentId}` */
+  extensions: Map<string, DueDateExtension>;
+  /** Keyed by `${courseId}:${studentId}` */
+  accommodations: Map<string, CourseAccommodation>;
+  /** Due dates of the student's section, keyed by `${assignmentId}:${studentId}` */
+  sectionDueDates: Map<string, Date>;
+}
+
+/**
+ * Assignment fields needed to personalise a due date
+ */
+export interface AdjustableAssignment extends LatePolicySettings {
+  id: string;
+  courseId: string;
+  createdAt: Date;
+}
+
+/**
+ * Calculate the due date that applies to a student
+ *
+ * @param assignment - The assignment's original due date and creation time
+ * @param extension - The student's extension for this assignment, if any
+ * @param accommodation - The student's course accommodation, if any
+ * @param sectionDueDate - The due date set for the student's section, if any
+ * @returns The personal due date, or null when the assignment has no due date
+ */
+export function getStudentDueDate(
+  assignment: { dueDate: Date | null; createdAt: Date },
+  extension?: DueDateExtension | null,
+  accommodation?: CourseAccommodation | null,
+  sectionDueDate?: Date | null
+): Date | null {
+  if (!assignment.dueDate) return null;
+
+  if (extension) {
+    return new Date(extension.dueDate);
+  }
+
+  const dueTime = new Date(sectionDueDate ?? assignment.dueDate).getTime();
+
+  if (accommodation) {
+    const windowMs = Math.max(0, dueTime - new Date(assignment.createdAt).getTime());
+    const extraMs =
+      (windowMs * Math.max(0, accommodation.extraTimePercent)) / 100 +
+      Math.max(0, accommodation.extraHours) * MS_PER_HOUR;
+    return new Date(dueTime + extraMs);
+  }
+
+  return new Date(dueTime);
+}
+
+/**
+ * Replace an assignment's due date with a student's personal due date
+ *
+ * A late cutoff is moved by the same amount so the extension does not
+ * shorten (or eliminate) the late window.
+ */
+export function withStudentDueDate<T extends LatePolicySettings>(
+  settings: T,
+  studentDueDate: Date | null
+): T {
+  if (!settings.dueDate || !studentDueDate) return settings;
+
+  const shiftMs = studentDueDate.getTime() - new Date(settings.dueDate).getTime();
+  if (shiftMs <= 0) {
+    return { ...settings, dueDate: studentDueDate };
+  }
+
+  return {
+    ...settings,
+    dueDate: studentDueDate,
+    lateCutoffAt: settings.lateCutoffAt
+      ? new Date(new Date(settings.lateCutoffAt).getTime() + shiftMs)
+      : null,
+  };
+}
+
+/**
+ * Resolve an assignment's late policy settings for a specific student
+ *
+ * @param assignment - Assignment with due date and late policy fields
+ * @param studentId - The student whose deadline applies
+ * @param adjustments - Adjustments loaded via loadDueDateAdjustments
+ * @returns The assignment settings with the student's personal due date
+ */
+export function resolveStudentDeadline<T extends AdjustableAssignment>(
+  assignment: T,
+  studentId: string,
+  adjustments: DueDateAdjustments
+): T {
+  const studentDueDate = getStudentDueDate(
+    assignment,
+    adjustments.extensions.get(`${assignment.id}:${studentId}`),
+    adjustments.accommodations.get(`${assignment.courseId}:${studentId}`),
+    adjustments.sectionDueDates.get(`${assignment.id}:${studentId}`)
+  );
+  return withStudentDueDate(assignment, studentDueDate);
+}
+
+/**
+ * Load extensions, accommodations and section due dates for a set of
+ * assignments and courses
+ *
+ * @param filters.assignmentIds - Assignments to load extensions and section due dates for
+ * @param filters.courseIds - Courses to load accommodations for
+ * @param filters.studentIds - Optionally restrict to these students
+ * @param db - Prisma client or transaction client
+ */
+export async function loadDueDateAdjustments(
+  filters: {
+    assignmentIds: string[];
+    courseIds: string[];
+    studentIds?: string[];
+  },
+  db: Prisma.TransactionClient = prisma
+): Promise<DueDateAdjustments> {
+  const studentFilter = filters.studentIds ? { studentId: { in: filters.studentIds } } : {};
+
+  const [extensions, accommodations, sectionDueDates] = await Promise.all([
+    filters.assignmentIds.length > 0
+      ? db.assignment_extensions.findMany({
+          where: { assignmentId: { in: filters.assignmentIds }, ...studentFilter },
+          select: { assignmentId: true, studentId: true, dueDate: true },
+        })
+      : [],
+    filters.courseIds.length > 0
+      ? db.course_accommodations.findMany({
+          where: { courseId: { in: filters.courseIds }, ...studentFilter },
+          select: { courseId: true, studentId: true, extraTimePercent: true, extraHours: true },
+        })
+      : [],
+    filters.assignmentIds.length > 0
+      ? db.assignment_section_due_dates.findMany({
+          where: { assignmentId: { in: filters.assignmentIds } },
+          select: { assignmentId: true, sectionId: true, dueDate: true },
+        })
+      : [],
+  ]);
+
+  // Section due dates apply to the students enrolled in the section
+  const sectionMembers =
+    sectionDueDates.length > 0
+      ? await db.enrollments.findMany({
+          where: {
+            sectionId: { in: [...new Set(sectionDueDates.map((d) => d.sectionId))] },
+            ...(filters.studentIds ? { userId: { in: filters.studentIds } } : {}),
+          },
+          select: { userId: true, sectionId: true },
+        })
+      : [];
+
+  return {
+    extensions: new Map(
+      extensions.map((e) => [`${e.assignmentId}:${e.studentId}`, { dueDate: e.dueDate }])
+    ),
+    accommodations: new Map(
+      accommodations.map((a) => [
+        `${a.courseId}:${a.studentId}`,
+        { extraTimePercent: a.extraTimePercent, extraHours: a.extraHours },
+      ])
+    ),
+    sectionDueDates: new Map(
+      sectionDueDates.flatMap((d) =>
+        sectionMembers
+          .filter((member) => member.sectionId === d.sectionId)
+          .map((member) => [`${d.assignmentId}:${member.userId}`, d.dueDate] as const)
+      )
+    ),
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Grade Category Weighting Utilities
+ *
+ * Turns per-course grade categories (e.g. Homework 30%, Projects 50%,
+ * Final 20%) into the per-assignment `weight` values understood by
+ * `calculateGPA`, so the gradebook, the CSV export and the student GPA
+ * endpoints all compute the same category-weighted totals.
+ *
+ * Weighting rules:
+ * - A course without categories is graded on raw points (every assignment weight 1)
+ * - Inside a category, assignments are pooled by points (Σ earned / Σ possible)
+ * - Category percentages are combined by category weight; categories with no
+ *   countable assignments are left out and the remaining weights renormalised
+ * - Uncategorized assignments share whatever weight the categories leave
+ *   unallocated (100 - Σ category weights); with nothing left they do not count
+ *
+ * @module lib/grade-categories
+ */
+
+import { calculateGPA, GPAResult, GradeInput } from '@/lib/gpa';
+
+/**
+ * Total weight (in percent) that a course's categories may allocate
+ */
+export const MAX_TOTAL_CATEGORY_WEIGHT = 100;
+
+/**
+ * Bucket key used for assignments without a (known) category
+ */
+const UNCATEGORIZED = '__uncategorized__';
+
+/**
+ * Minimal category shape needed for weighting
+ */
+export interface GradeCategoryWeight {
+  id: string;
+  /** Category weight in percent (0-100) */
+  weight: number;
+}
+
+/**
+ * One assignment for one student, graded or not
+ */
+export interface CategorizedGradeItem {
+  categoryId: string | null;
+  maxPoints: number;
+  /** Points earned, or null when the assignment is not graded yet */
+  points: number | null;
+}
+
+/**
+ * Category-weighted course grade
+ */
+export interface CourseGradeResult {
+  /** Raw sum of earned points across graded assignments */
+  totalPoints: number;
+  /** Raw sum of maxPoints across all assignments */
+  totalPossiblePoints: number;
+  /** Weighted percentage with ungraded assignments counted as zero */
+  percentage: number;
+  /** Weighted GPA over graded assignments only (null when nothing is graded) */
+  gpa: GPAResult | null;
+}
+
+/**
+ * Weight left over for uncategorized assignments
+ *
+ * @param categories - The course's grade categories
+ * @returns Unallocated weight in percent (never negative)
+ */
+export function getUncategorizedWeight(categories: GradeCategoryWeight[]): number {
+  const allocated = categories.reduce((sum, c) => sum + c.weight, 0);
+  return Math.max(0, MAX_TOTAL_CATEGORY_WEIGHT - allocated);
+}
+
+/**
+ * Convert categorized grade items into weighted GradeInputs for calculateGPA
+ *
+ * Each assignment in a category receives `categoryWeight / Σ maxPoints` of the
+ * counted assignments in that category, which makes calculateGPA's
+ * Σ(points × w) / Σ(maxPoints × w) equal the category-weighted average.
+ *
+ * @param items - Assignment grade items for a single student
+ * @param categories - The course's grade categories
+ * @param options.includeUngraded - Count ungraded assignments as zero points
+ * @returns GradeInputs ready for calculateGPA
+ */
+export function toWeightedGradeInputs(
+  items: CategorizedGradeItem[],
+  categories: GradeCategoryWeight[],
+  options: { includeUngraded: boolean }
+): GradeInput[] {
+  const counted = items.filter(
+    (item) => item.maxPoints > 0 && (options.includeUngraded || item.points !== null)
+  );
+
+  // No categories: plain points-based grading
+  if (categories.length === 0) {
+    return counted.map((item) => ({
+      points: item.points ?? 0,
+      maxPoints: item.maxPoints,
+      weight: 1,
+      isGraded: true,
+    }));
+  }
+
+  const categoryWeights = new Map(categories.map((c) => [c.id, c.weight]));
+  const bucketOf = (item: CategorizedGradeItem) =>
+    item.categoryId && categoryWeights.has(item.categoryId) ? item.categoryId : UNCATEGORIZED;
+
+  // Total possible points per bucket
+  const bucketMaxPoints = new Map<string, number>();
+  for (const item of counted) {
+    const bucket = bucketOf(item);
+    bucketMaxPoints.set(bucket, (bucketMaxPoints.get(bucket) ?? 0) + item.maxPoints);
+  }
+
+  const uncategorizedWeight = getUncategorizedWeight(categories);
+  const inputs: GradeInput[] = [];
+
+  for (const item of counted) {
+    const bucket = bucketOf(item);
+    const bucketWeight =
+      bucket === UNCATEGORIZED ? uncategorizedWeight : categoryWeights.get(bucket) ?? 0;
+
+    // Zero-weight buckets do not contribute
+    if (bucketWeight <= 0) continue;
+
+    inputs.push({
+      points: item.points ?? 0,
+      maxPoints: item.maxPoints,
+      weight: bucketWeight / (bucketMaxPoints.get(bucket) ?? item.maxPoints),
+      isGraded: true,
+    });
+  }
+
+  return inputs;
+}
+
+/**
+ * Calculate a student's category-weighted course grade
+ *
+ * @param items - One entry per assignment in the course for the student
+ * @param categories - The course's grade categories (empty for points-based grading)
+ * @returns Raw point totals, weighted percentage and weighted GPA
+ *
+ * @example
+ * ```typescript
+ * const result = calculateCourseGrade(
+ *   [
+ *     { categoryId: 'hw', maxPoints: 10, points: 10 },
+ *     { categoryId: 'exam', maxPoints: 100, points: 50 },
+ *   ],
+ *   [{ id: 'hw', weight: 50 }, { id: 'exam', weight: 50 }]
+ * );
+ * // result.percentage = 75 (not 54.55 as raw points would give)
+ * ```
+ */
+export function calculateCourseGrade(
+  items: CategorizedGradeItem[],
+  categories: GradeCategoryWeight[]
+): CourseGradeResult {
+  const totalPoints = items.reduce((sum, item) => sum + (item.points ?? 0), 0);
+  const totalPossiblePoints = items.reduce((sum, item) => sum + item.maxPoints, 0);
+
+  const overall = calculateGPA(
+    toWeightedGradeInputs(items, categories, { includeUngraded: true })
+  );
+  const gpa = calculateGPA(
+    toWeightedGradeInputs(items, categories, { includeUngraded: false })
+  );
+
+  return {
+    totalPoints,
+    totalPossiblePoints,
+    percentage: overall?.percentage ?? 0,
+    gpa,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Grade History
+ *
+ * Append-only record of changes to students' grades. Every time a grade's
+ * points or feedback change, the old and new values are stored with who made
+ * the change, how (`source`) and an optional reason, so grade disputes can be
+ * traced. Entries are never updated or deleted.
+ *
+ * @module lib/grade-history
+ */
+
+import { randomUUID } from 'crypto';
+import type { GradeChangeSource, Prisma } from '@prisma/client';
+
+/**
+ * Display labels for how a grade was changed
+ */
+export const GRADE_CHANGE_SOURCE_LABELS: Record<GradeChangeSource, string> = {
+  GRADEBOOK: 'Gradebook edit',
+  SUBMISSION_GRADING: 'Submission grading',
+  CSV_IMPORT: 'CSV import',
+  COUNTED_ATTEMPT: 'Counted attempt changed',
+  ATTEMPT_POLICY: 'Attempt policy changed',
+  QUIZ: 'Quiz auto-grading',
+  SCORM: 'SCORM package score',
+  DISCUSSION: 'Discussion grading',
+};
+
+/**
+ * Grade values tracked by the history
+ */
+export interface GradeValues {
+  points: number;
+  feedback: string | null;
+}
+
+/**
+ * Whether a grade update changes the tracked values
+ *
+ * @param previous - The grade before the update, or null when it is new
+ * @param next - The grade after the update
+ */
+export function hasGradeChanged(previous: GradeValues | null, next: GradeValues): boolean {
+  if (!previous) return true;
+  return previous.points !== next.points || (previous.feedback ?? null) !== (next.feedback ?? null);
+}
+
+/**
+ * Record a grade change if the tracked values changed
+ *
+ * @param db - Transaction client, so the entry is written with the grade
+ * @param change.previous - The grade before the update (null when new or deleted)
+ * @param change.next - The grade after the update
+ * @returns The history entry, or null when nothing changed
+ */
+export async function recordGradeChange(
+  db: Prisma.TransactionClient,
+  change: {
+    assignmentId: string;
+    studentId: string;
+    submissionId: string | null;
+    changedById: string;
+    source: GradeChangeSource;
+    reason?: string | null;
+    previous: GradeValues | null;
+    next: GradeValues;
+  }
+) {
+  if (!hasGradeChanged(change.previous, change.next)) {
+    return null;
+  }
+
+  return db.grade_history.create({
+    data: {
+      id: randomUUID(),
+      assignmentId: change.assignmentId,
+      studentId: change.studentId,
+      submissionId: change.submissionId,
+      changedById: change.changedById,
+      source: change.source,
+      reason: change.reason || null,
+      oldPoints: change.previous?.points ?? null,
+      newPoints: change.next.points,
+      oldFeedback: change.previous?.feedback ?? null,
+      newFeedback: change.next.feedback ?? null,
+    },
+  });
+}
+
+/**
+ * Prisma select for history entries with the user who made the change
+ */
+export const gradeHistoryEntrySelect = {
+  id: true,
+  oldPoints: true,
+  newPoints: true,
+  oldFeedback: true,
+  newFeedback: true,
+  source: true,
+  reason: true,
+  createdAt: true,
+  submissionId: true,
+  users_grade_history_changedByIdTousers: {
+    select: { id: true, name: true, surname: true, role: true },
+  },
+} satisfies Prisma.grade_historySelect;
+
+type GradeHistoryEntryRecord = Prisma.grade_historyGetPayload<{
+  select: typeof gradeHistoryEntrySelect;
+}>;
+
+/**
+ * Shape a history entry for API responses
+ */
+export function formatGradeHistoryEntry(entry: GradeHistoryEntryRecord) {
+  const changedBy = entry.users_grade_history_changedByIdTousers;
+
+  return {
+    id: entry.id,
+    oldPoints: entry.oldPoints,
+    newPoints: entry.newPoints,
+    oldFeedback: entry.oldFeedback,
+    newFeedback: entry.newFeedback,
+    source: entry.source,
+    sourceLabel: GRADE_CHANGE_SOURCE_LABELS[entry.source],
+    reason: entry.reason,
+    submissionId: entry.submissionId,
+    createdAt: entry.createdAt,
+    changedBy: {
+      id: changedBy.id,
+      name: `${changedBy.name} ${changedBy.surname}`,
+      role: changedBy.role,
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Student Groups
+ *
+ * Instructors split a course's students into groups, by hand or
+ * automatically. A student is in at most one group per course.
+ *
+ * On a group assignment (`assignments.isGroupAssignment`) one member submits
+ * for the whole group: every member gets a copy of the attempt, linked by
+ * `submissions.groupId`, so attempts, deadlines and grades stay per student.
+ * Grading one copy in the gradebook can apply the grade to every member's
+ * copy; grading a single member afterwards overrides their grade only.
+ *
+ * @module lib/groups
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Split students into balanced groups of at most `groupSize` members
+ *
+ * Students are shuffled first; group sizes differ by at most one.
+ *
+ * @param studentIds - Students to place in groups
+ * @param groupSize - Largest allowed group
+ * @param random - Random number source, replaceable in tests
+ * @returns One array of student IDs per group
+ */
+export function buildAutoGroups(
+  studentIds: string[],
+  groupSize: number,
+  random: () => number = Math.random
+): string[][] {
+  if (studentIds.length === 0) return [];
+
+  const shuffled = [...studentIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const groupCount = Math.ceil(shuffled.length / groupSize);
+  const groups: string[][] = Array.from({ length: groupCount }, () => []);
+  shuffled.forEach((studentId, index) => {
+    groups[index % groupCount].push(studentId);
+  });
+
+  return groups;
+}
+
+/**
+ * Pick names "Group 1", "Group 2", ... that are not already taken
+ *
+ * @param existingNames - Names of the course's current groups
+ * @param count - Number of names needed
+ */
+export function nextGroupNames(existingNames: string[], count: number): string[] {
+  const taken = new Set(existingNames.map((name) => name.toLowerCase()));
+  const names: string[] = [];
+
+  for (let number = 1; names.length < count; number++) {
+    const name = `Group ${number}`;
+    if (!taken.has(name.toLowerCase())) names.push(name);
+  }
+
+  return names;
+}
+
+/**
+ * Find the group a student belongs to in a course
+ *
+ * @returns The group with its members, or null when the student has no group
+ */
+export async function findStudentGroup(courseId: string, studentId: string) {
+  const membership = await prisma.student_group_members.findUnique({
+    where: { courseId_userId: { courseId, userId: studentId } },
+    select: {
+      student_groups: {
+        select: {
+          id: true,
+          name: true,
+          student_group_members: {
+            select: { users: { select: { id: true, name: true, surname: true } } },
+            orderBy: { users: { name: 'asc' } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!membership) return null;
+
+  const { student_group_members, ...group } = membership.student_groups;
+  const members = student_group_members.map((member) => member.users);
+  return { ...group, members, memberIds: members.map((member) => member.id) };
+}
+
+/**
+ * Replace a group's members
+ *
+ * Students who are in another group of the course are moved to this one.
+ *
+ * @param db - Prisma client or transaction client
+ */
+export async function setGroupMembers(
+  { groupId, courseId, studentIds }: { groupId: string; courseId: string; studentIds: string[] },
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await db.student_group_members.deleteMany({
+    where: { OR: [{ groupId }, { courseId, userId: { in: studentIds } }] },
+  });
+
+  await db.student_group_members.createMany({
+    data: [...new Set(studentIds)].map((userId) => ({
+      id: randomUUID(),
+      groupId,
+      userId,
+      courseId,
+    })),
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Late Submission Policy Engine
+ *
+ * Evaluates an assignment's late policy against a submission time. Used by the
+ * student submission route (accept / reject), the gradebook grade route
+ * (automatic deductions), the gradebook cell status and the student
+ * assignment page (policy summary shown before submitting).
+ *
+ * Policies:
+ * - REJECT: submissions after the due date (plus grace period) are refused
+ * - ACCEPT_FLAGGED: late submissions are accepted and flagged as late
+ * - DEDUCT: late submissions are accepted and lose `latePenaltyPerDay` percent
+ *   of the earned points per started day late (capped at 100%)
+ *
+ * ACCEPT_FLAGGED and DEDUCT may set a hard cutoff (`lateCutoffAt`) after which
+ * no further submissions are accepted. Submissions inside the grace period
+ * count as on time.
+ *
+ * @module lib/late-policy
+ */
+
+import type { LatePolicyType } from '@prisma/client';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/**
+ * Late policy fields stored on an assignment
+ */
+export interface LatePolicySettings {
+  dueDate: Date | null;
+  latePolicy: LatePolicyType;
+  lateGraceMinutes: number;
+  latePenaltyPerDay: number;
+  lateCutoffAt: Date | null;
+}
+
+/**
+ * Result of evaluating a submission time against a late policy
+ */
+export interface LateSubmissionResult {
+  /** Whether a submission at this time is accepted */
+  accepted: boolean;
+  /** Whether the submission is past the due date and grace period */
+  isLate: boolean;
+  /** Started days past the deadline (0 when on time) */
+  daysLate: number;
+  /** Percentage of earned points deducted (0-100) */
+  penaltyPercent: number;
+  /** Why the submission is refused, when not accepted */
+  reason?: string;
+}
+
+/**
+ * Deadline after which a submission counts as late (due date + grace period)
+ *
+ * @returns The effective deadline, or null when the assignment has no due date
+ */
+export function getEffectiveDeadline(settings: LatePolicySettings): Date | null {
+  if (!settings.dueDate) return null;
+  return new Date(
+    new Date(settings.dueDate).getTime() + Math.max(0, settings.lateGraceMinutes) * MS_PER_MINUTE
+  );
+}
+
+/**
+ * Evaluate a submission time against an assignment's late policy
+ *
+ * @param settings - The assignment's due date and late policy
+ * @param submittedAt - When the work was (or would be) submitted
+ * @returns Acceptance, lateness and the penalty to apply when grading
+ *
+ * @example
+ * ```typescript
+ * evaluateLateSubmission(
+ *   { dueDate, latePolicy: 'DEDUCT', lateGraceMinutes: 0, latePenaltyPerDay: 10, lateCutoffAt: null },
+ *   twoAndAHalfDaysAfterDue
+ * );
+ * // { accepted: true, isLate: true, daysLate: 3, penaltyPercent: 30 }
+ * ```
+ */
+export function evaluateLateSubmission(
+  settings: LatePolicySettings,
+  submittedAt: Date = new Date()
+): LateSubmissionResult {
+  const deadline = getEffectiveDeadline(settings);
+  const submittedTime = new Date(submittedAt).getTime();
+
+  if (!deadline || submittedTime <= deadline.getTime()) {
+    return { accepted: true, isLate: false, daysLate: 0, penaltyPercent: 0 };
+  }
+
+  const daysLate = Math.ceil((submittedTime - deadline.getTime()) / MS_PER_DAY);
+
+  if (settings.latePolicy === 'REJECT') {
+    return {
+      accepted: false,
+      isLate: true,
+      daysLate,
+      penaltyPercent: 0,
+      reason: 'Assignment is overdue',
+    };
+  }
+
+  if (settings.lateCutoffAt && submittedTime > new Date(settings.lateCutoffAt).getTime()) {
+    return {
+      accepted: false,
+      isLate: true,
+      daysLate,
+      penaltyPercent: 0,
+      reason: 'The late submission cutoff has passed',
+    };
+  }
+
+  const penaltyPercent =
+    settings.latePolicy === 'DEDUCT'
+      ? Math.min(100, daysLate * Math.max(0, settings.latePenaltyPerDay))
+      : 0;
+
+  return { accepted: true, isLate: true, daysLate, penaltyPercent };
+}
+
+/**
+ * Apply a late penalty percentage to earned points
+ *
+ * @param points - Points awarded before the penalty
+ * @param penaltyPercent - Percentage to deduct (0-100)
+ * @returns Points after deduction, rounded to 2 decimal places
+ */
+export function applyLatePenalty(points: number, penaltyPercent: number): number {
+  const factor = 1 - Math.min(100, Math.max(0, penaltyPercent)) / 100;
+  return Math.round(points * factor * 100) / 100;
+}
+
+/**
+ * Human-readable summary of a late policy for students
+ *
+ * @returns A one-sentence description, or null when there is no due date
+ */
+export function describeLatePolicy(settings: LatePolicySettings): string | null {
+  if (!settings.dueDate) return null;
+
+  const grace =
+    settings.lateGraceMinutes > 0
+      ? ` A grace period of ${formatGracePeriod(settings.lateGraceMinutes)} applies.`
+      : '';
+  const cutoff = settings.lateCutoffAt
+    ? ` No submissions are accepted after ${new Date(settings.lateCutoffAt).toLocaleString()}.`
+    : '';
+
+  switch (settings.latePolicy) {
+    case 'REJECT':
+      return `Late submissions are not accepted.${grace}`;
+    case 'ACCEPT_FLAGGED':
+      return `Late submissions are accepted but marked as late.${grace}${cutoff}`;
+    case 'DEDUCT':
+      return `Late submissions lose ${settings.latePenaltyPerDay}% per day late.${grace}${cutoff}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format a grace period in minutes as "N minutes", "N hours" or "N days"
+ */
+function formatGracePeriod(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} day${days !== 1 ? 's' : ''}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours !== 1 ? 's' : ''}`;
+  }
+  return `${minutes} minute${minutes !== 1 ? 's' : ''}`;
+}
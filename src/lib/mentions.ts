@@ -0,0 +1,87 @@
+/**
+ * Mentions
+ *
+ * A post mentions someone with a token like `@[Ada Lovelace](user-id)`, which
+ * the post editor inserts when a name is picked from the autocomplete. The
+ * token keeps the user's ID, so mentions survive name changes and two people
+ * with the same name are told apart. Posts show the token as `@Ada Lovelace`.
+ *
+ * Kept free of server imports so the post editor can use it too.
+ */
+
+/**
+ * Matches one mention token; group 1 is the display name, group 2 the user ID
+ */
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([^)\s]+)\)/g
+
+/**
+ * A user who can be mentioned
+ */
+export interface MentionableUser {
+  id: string
+  name: string
+  surname: string
+}
+
+/**
+ * The token for mentioning a user
+ */
+export function formatMention(user: MentionableUser): string {
+  const name = `${user.name} ${user.surname}`.trim().replace(/[[\]\n]/g, '')
+  return `@[${name}](${user.id})`
+}
+
+/**
+ * IDs of the users a post mentions, each once, in order of first mention
+ */
+export function extractMentionIds(content: string): string[] {
+  const ids = Array.from(content.matchAll(MENTION_PATTERN), (match) => match[2])
+  return [...new Set(ids)]
+}
+
+/**
+ * A run of post content: plain text or a mention
+ */
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; userId: string; name: string }
+
+/**
+ * Split post content into text and mentions for display
+ */
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = []
+  let last = 0
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index > last) segments.push({ type: 'text', text: content.slice(last, match.index) })
+    segments.push({ type: 'mention', userId: match[2], name: match[1] })
+    last = match.index + match[0].length
+  }
+
+  if (last < content.length) segments.push({ type: 'text', text: content.slice(last) })
+  return segments
+}
+
+/**
+ * Post content with mention tokens shown as `@Name`, e.g. for notifications
+ */
+export function mentionsToPlainText(content: string): string {
+  return content.replace(MENTION_PATTERN, '@$1')
+}
+
+/**
+ * The mention being typed at the cursor, for the autocomplete
+ *
+ * @param text - Editor content
+ * @param cursor - Cursor position in `text`
+ * @returns Where the `@` is and what was typed after it, or null when the
+ *   cursor is not in a mention
+ */
+export function findMentionQuery(text: string, cursor: number): { start: number; query: string } | null {
+  const before = text.slice(0, cursor)
+  const match = /(^|\s)@([^\s@[\]()]{0,30})$/.exec(before)
+  if (!match) return null
+
+  return { start: cursor - match[2].length - 1, query: match[2] }
+}
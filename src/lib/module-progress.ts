@@ -7,6 +7,8 @@
 
 import { prisma } from '@/lib/prisma';
 import { notDeleted } from '@/lib/soft-delete';
+import { publishedNow } from '@/lib/publishing';
+import { issueCertificateIfEligible } from '@/lib/certificates';
 import { randomUUID } from 'crypto';
 
 export interface UnlockedModuleInfo {
@@ -20,98 +22,296 @@ export interface ModuleProgressResult {
   isModuleComplete: boolean;
   contentViewedCount: number;
   totalContentCount: number;
+  /** Required assignments meeting the module's rule (submitted, or graded at the passing score) */
   assignmentSubmittedCount: number;
   totalAssignmentCount: number;
+  /** Module discussions the student has posted in, when participation is required */
+  discussionPostedCount: number;
+  totalDiscussionCount: number;
   unlockedModule?: UnlockedModuleInfo;
 }
 
 /**
- * Calculate module progress using adaptive weighted formula
+ * Completion settings stored on a module
  *
- * If both content and assignments exist: 50/50 split
- * If only content: 100% based on content viewed
- * If only assignments: 100% based on assignments submitted
- * If neither: 0% (empty module)
+ * Weights are relative; when none is set, each part of the module that has
+ * required items counts equally (the original 50/50 split).
  */
-export async function calculateModuleProgress(
-  moduleId: string,
-  userId: string
-): Promise<ModuleProgressResult> {
-  // Get module progress record
-  const progress = await prisma.module_progress.findFirst({
-    where: {
-      moduleId,
-      userId,
-      ...notDeleted,
-    },
-  });
+export interface ModuleCompletionRules {
+  /** Percentage an assignment must be graded at; null means a submission is enough */
+  passingScore: number | null;
+  /** Students must post in each of the module's discussions */
+  requireDiscussionPost: boolean;
+  contentWeight: number | null;
+  assignmentWeight: number | null;
+  discussionWeight: number | null;
+}
 
-  const contentViewed = progress?.contentViewed || [];
+export const DEFAULT_COMPLETION_RULES: ModuleCompletionRules = {
+  passingScore: null,
+  requireDiscussionPost: false,
+  contentWeight: null,
+  assignmentWeight: null,
+  discussionWeight: null,
+};
 
-  // Get total content count for module
-  const totalContentCount = await prisma.course_content.count({
-    where: {
-      moduleId,
-      isPublished: true,
-      ...notDeleted,
-    },
-  });
+/**
+ * Prisma select for the completion rule columns
+ */
+export const completionRulesSelect = {
+  passingScore: true,
+  requireDiscussionPost: true,
+  contentWeight: true,
+  assignmentWeight: true,
+  discussionWeight: true,
+} as const;
+
+interface ItemCounts {
+  done: number;
+  total: number;
+}
 
-  // Get total assignment count for module
-  const totalAssignmentCount = await prisma.assignments.count({
-    where: {
-      moduleId,
-      isPublished: true,
-      ...notDeleted,
-    },
-  });
+/**
+ * Required items a student has finished in each part of a module
+ */
+export interface ModuleItemCounts {
+  content: ItemCounts;
+  assignments: ItemCounts;
+  discussions: ItemCounts;
+}
 
-  // Get submitted assignment count for user in this module
-  const assignmentSubmittedCount = await prisma.submissions.count({
-    where: {
-      assignments: {
-        moduleId,
-        isPublished: true,
-        ...notDeleted,
-      },
-      studentId: userId,
-    },
-  });
+/**
+ * Whether an assignment counts as done under the module's passing score
+ */
+export function isAssignmentSatisfied(
+  assignment: { maxPoints: number; submitted: boolean; points: number | null },
+  passingScore: number | null
+): boolean {
+  if (passingScore === null) {
+    return assignment.submitted;
+  }
+  if (assignment.points === null || assignment.maxPoints <= 0) {
+    return false;
+  }
+  return (assignment.points / assignment.maxPoints) * 100 >= passingScore;
+}
+
+/**
+ * Check that custom completion weights can produce progress
+ *
+ * @returns An error message, or null when the weights are valid
+ */
+export function validateCompletionWeights(rules: ModuleCompletionRules): string | null {
+  const weights = [rules.contentWeight, rules.assignmentWeight, rules.discussionWeight];
+  if (weights.some((weight) => weight !== null) && weights.every((weight) => !weight)) {
+    return 'At least one completion weight must be greater than 0';
+  }
+  return null;
+}
+
+/**
+ * Calculate module progress from the completion rules
+ *
+ * Only parts with required items count, and their weights are rescaled to
+ * add up to 100%. A module is complete when every required item is done,
+ * so a part weighted 0 still has to be finished but does not move the
+ * progress bar. An empty module is 0% and never complete.
+ */
+export function computeModuleProgress(
+  rules: ModuleCompletionRules,
+  counts: ModuleItemCounts
+): { moduleProgress: number; isModuleComplete: boolean } {
+  const parts = [
+    { counts: counts.content, weight: rules.contentWeight },
+    { counts: counts.assignments, weight: rules.assignmentWeight },
+    ...(rules.requireDiscussionPost
+      ? [{ counts: counts.discussions, weight: rules.discussionWeight }]
+      : []),
+  ].filter((part) => part.counts.total > 0);
+
+  if (parts.length === 0) {
+    return { moduleProgress: 0, isModuleComplete: false };
+  }
 
-  // Calculate progress using adaptive weighting
-  // If both exist: 50/50 split. If only one: 100% weight to that type.
-  let moduleProgress = 0;
-
-  const hasContent = totalContentCount > 0;
-  const hasAssignments = totalAssignmentCount > 0;
-
-  if (hasContent && hasAssignments) {
-    // Both exist: 50/50 split
-    const contentProgress = (contentViewed.length / totalContentCount) * 50;
-    const assignmentProgress = (assignmentSubmittedCount / totalAssignmentCount) * 50;
-    moduleProgress = Math.round(contentProgress + assignmentProgress);
-  } else if (hasContent) {
-    // Only content: 100% weight to content
-    moduleProgress = Math.round((contentViewed.length / totalContentCount) * 100);
-  } else if (hasAssignments) {
-    // Only assignments: 100% weight to assignments
-    moduleProgress = Math.round((assignmentSubmittedCount / totalAssignmentCount) * 100);
+  const customWeights = [rules.contentWeight, rules.assignmentWeight, rules.discussionWeight].some(
+    (weight) => weight !== null
+  );
+  let weights = parts.map((part) => (customWeights ? part.weight ?? 0 : 1));
+  let totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Custom weights only on parts without items: fall back to an equal split
+  if (totalWeight === 0) {
+    weights = parts.map(() => 1);
+    totalWeight = parts.length;
   }
-  // else: no content or assignments = 0% (empty module)
 
-  const isModuleComplete = moduleProgress >= 100;
+  const isModuleComplete = parts.every((part) => part.counts.done >= part.counts.total);
+  const weighted = parts.reduce(
+    (sum, part, index) =>
+      sum + weights[index] * Math.min(part.counts.done / part.counts.total, 1),
+    0
+  );
+  const moduleProgress = Math.round((weighted / totalWeight) * 100);
 
   return {
-    success: true,
-    moduleProgress,
+    // Never show 100% for an unfinished module (e.g. a part weighted 0 is left)
+    moduleProgress: isModuleComplete ? 100 : Math.min(moduleProgress, 99),
     isModuleComplete,
-    contentViewedCount: contentViewed.length,
-    totalContentCount,
-    assignmentSubmittedCount,
-    totalAssignmentCount,
   };
 }
 
+/**
+ * Calculate progress for several modules with batched queries
+ *
+ * Optional content and assignments (`isRequired: false`) do not count.
+ * Quizzes count as content: a quiz is marked viewed when an attempt is
+ * submitted, and its backing assignment has no module.
+ */
+export async function calculateModulesProgress(
+  moduleIds: string[],
+  userId: string
+): Promise<Map<string, ModuleProgressResult>> {
+  const results = new Map<string, ModuleProgressResult>();
+  if (moduleIds.length === 0) return results;
+
+  const modules = await prisma.modules.findMany({
+    where: { id: { in: moduleIds } },
+    select: { id: true, ...completionRulesSelect },
+  });
+
+  const discussionModuleIds = modules.filter((m) => m.requireDiscussionPost).map((m) => m.id);
+
+  const [progressRecords, content, assignments, discussions] = await Promise.all([
+    prisma.module_progress.findMany({
+      where: {
+        moduleId: { in: moduleIds },
+        userId,
+        ...notDeleted,
+      },
+      select: { moduleId: true, contentViewed: true },
+    }),
+    prisma.course_content.findMany({
+      where: {
+        moduleId: { in: moduleIds },
+        isRequired: true,
+        ...publishedNow(),
+        ...notDeleted,
+      },
+      select: { id: true, moduleId: true },
+    }),
+    prisma.assignments.findMany({
+      where: {
+        moduleId: { in: moduleIds },
+        isRequired: true,
+        ...publishedNow(),
+        ...notDeleted,
+      },
+      select: {
+        moduleId: true,
+        maxPoints: true,
+        submissions: {
+          where: { studentId: userId },
+          select: { id: true },
+          take: 1,
+        },
+        grades: {
+          where: { studentId: userId, ...notDeleted },
+          select: { points: true },
+        },
+      },
+    }),
+    discussionModuleIds.length > 0
+      ? prisma.discussions.findMany({
+          where: {
+            moduleId: { in: discussionModuleIds },
+            ...notDeleted,
+          },
+          select: {
+            moduleId: true,
+            discussion_posts: {
+              where: { authorId: userId },
+              select: { id: true },
+              take: 1,
+            },
+          },
+        })
+      : [],
+  ]);
+
+  const viewedMap = new Map(progressRecords.map((p) => [p.moduleId, new Set(p.contentViewed)]));
+
+  for (const courseModule of modules) {
+    const viewed = viewedMap.get(courseModule.id) ?? new Set<string>();
+    const moduleContent = content.filter((item) => item.moduleId === courseModule.id);
+    const moduleAssignments = assignments.filter((a) => a.moduleId === courseModule.id);
+    const moduleDiscussions = discussions.filter((d) => d.moduleId === courseModule.id);
+
+    const counts: ModuleItemCounts = {
+      content: {
+        done: moduleContent.filter((item) => viewed.has(item.id)).length,
+        total: moduleContent.length,
+      },
+      assignments: {
+        done: moduleAssignments.filter((a) =>
+          isAssignmentSatisfied(
+            {
+              maxPoints: a.maxPoints,
+              submitted: a.submissions.length > 0,
+              points: a.grades[0]?.points ?? null,
+            },
+            courseModule.passingScore
+          )
+        ).length,
+        total: moduleAssignments.length,
+      },
+      discussions: {
+        done: moduleDiscussions.filter((d) => d.discussion_posts.length > 0).length,
+        total: moduleDiscussions.length,
+      },
+    };
+
+    const { moduleProgress, isModuleComplete } = computeModuleProgress(courseModule, counts);
+
+    results.set(courseModule.id, {
+      success: true,
+      moduleProgress,
+      isModuleComplete,
+      contentViewedCount: counts.content.done,
+      totalContentCount: counts.content.total,
+      assignmentSubmittedCount: counts.assignments.done,
+      totalAssignmentCount: counts.assignments.total,
+      discussionPostedCount: counts.discussions.done,
+      totalDiscussionCount: counts.discussions.total,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Calculate module progress using the module's completion rules
+ */
+export async function calculateModuleProgress(
+  moduleId: string,
+  userId: string
+): Promise<ModuleProgressResult> {
+  const results = await calculateModulesProgress([moduleId], userId);
+
+  return (
+    results.get(moduleId) ?? {
+      success: true,
+      moduleProgress: 0,
+      isModuleComplete: false,
+      contentViewedCount: 0,
+      totalContentCount: 0,
+      assignmentSubmittedCount: 0,
+      totalAssignmentCount: 0,
+      discussionPostedCount: 0,
+      totalDiscussionCount: 0,
+    }
+  );
+}
+
 /**
  * Mark content as viewed for a user
  * Idempotent - safe to call multiple times, only adds if not already present
@@ -197,6 +397,8 @@ export async function markContentViewed(
         // Log error but don't fail the main operation
         console.error('Error checking module unlock:', unlockError);
       }
+
+      await issueCertificateForModule(moduleId, userId);
     }
   }
 
@@ -251,7 +453,7 @@ export async function getNextModuleToUnlock(
     where: {
       courseId: currentModule.courseId,
       orderIndex: currentModule.orderIndex + 1,
-      isPublished: true,
+      ...publishedNow(),
       requiresPrevious: true, // Only if it requires previous module
       ...notDeleted,
     },
@@ -264,6 +466,24 @@ export async function getNextModuleToUnlock(
   return nextModule;
 }
 
+/**
+ * Issue the course certificate when completing this module finishes the course
+ */
+async function issueCertificateForModule(moduleId: string, userId: string): Promise<void> {
+  try {
+    const completedModule = await prisma.modules.findUnique({
+      where: { id: moduleId },
+      select: { courseId: true },
+    });
+    if (completedModule) {
+      await issueCertificateIfEligible(completedModule.courseId, userId);
+    }
+  } catch (certificateError) {
+    // Log error but don't fail the main operation
+    console.error('Error issuing course certificate:', certificateError);
+  }
+}
+
 /**
  * Check and update module completion status
  * Story 3.5: Ensures completedAt is set when progress reaches 100%
@@ -317,6 +537,8 @@ export async function checkAndUpdateModuleCompletion(
         // Log error but don't fail the main operation
         console.error('Error checking module unlock:', unlockError);
       }
+
+      await issueCertificateForModule(moduleId, userId);
     }
   }
 
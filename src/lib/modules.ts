@@ -3,11 +3,19 @@
  * Story 3.2: Module Lock/Unlock States
  *
  * Server-side unlock calculation per ADR-001 to prevent client-side bypass.
+ *
+ * Besides `requiresPrevious`, a module can be gated by unlock rules:
+ * - `unlockAt`: opens on a date
+ * - `prerequisiteModuleId`: a specific earlier module must be completed
+ * - `prerequisiteAssignmentId`: a specific assignment must be submitted, or
+ *   graded at `prerequisiteMinScore` percent or higher when a minimum is set
+ * Every configured rule must be met. Completed modules stay unlocked.
  */
 
 import { prisma } from '@/lib/prisma';
 import { notDeleted } from '@/lib/soft-delete';
-import { calculateModuleProgress } from '@/lib/module-progress';
+import { calculateModuleProgress, calculateModulesProgress } from '@/lib/module-progress';
+import { publishedNow } from '@/lib/publishing';
 
 export type ModuleStatus = 'locked' | 'available' | 'in_progress' | 'completed';
 
@@ -18,6 +26,335 @@ export interface ModuleUnlockInfo {
   unlockMessage?: string;
   prerequisiteModuleId?: string;
   prerequisiteModuleTitle?: string;
+  prerequisiteAssignmentId?: string;
+  prerequisiteAssignmentTitle?: string;
+  unlockAt?: string;
+}
+
+/**
+ * Lock details for the first unmet unlock rule
+ */
+export type ModuleLockReason = Omit<ModuleUnlockInfo, 'isUnlocked' | 'status' | 'progress'>;
+
+/**
+ * Unlock settings stored on a module
+ */
+export interface ModuleUnlockRules {
+  orderIndex: number;
+  requiresPrevious: boolean;
+  unlockAt: Date | null;
+  prerequisiteModuleId: string | null;
+  prerequisiteAssignmentId: string | null;
+  prerequisiteMinScore: number | null;
+}
+
+interface PrerequisiteModuleState {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+interface PrerequisiteAssignmentState {
+  id: string;
+  title: string;
+  submitted: boolean;
+  /** Graded score as a percentage of max points, null when ungraded */
+  scorePercent: number | null;
+}
+
+/**
+ * A student's standing on the modules and assignments a module depends on
+ *
+ * A prerequisite that no longer exists is null and does not lock the module.
+ */
+export interface ModuleUnlockState {
+  previousModule: PrerequisiteModuleState | null;
+  prerequisiteModule: PrerequisiteModuleState | null;
+  prerequisiteAssignment: PrerequisiteAssignmentState | null;
+}
+
+/**
+ * Prisma select for the unlock rule columns
+ */
+export const unlockRulesSelect = {
+  orderIndex: true,
+  requiresPrevious: true,
+  unlockAt: true,
+  prerequisiteModuleId: true,
+  prerequisiteAssignmentId: true,
+  prerequisiteMinScore: true,
+} as const;
+
+/**
+ * Format an unlock date for student-facing messages
+ */
+export function formatUnlockDate(date: Date): string {
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  });
+}
+
+/**
+ * Check a module's unlock rules against the student's state
+ *
+ * @returns Lock details for the first unmet rule, or null when unlocked
+ */
+export function evaluateUnlockRules(
+  rules: ModuleUnlockRules,
+  state: ModuleUnlockState,
+  now: Date = new Date()
+): ModuleLockReason | null {
+  if (rules.unlockAt && rules.unlockAt > now) {
+    return {
+      unlockMessage: `Available on ${formatUnlockDate(rules.unlockAt)}`,
+      unlockAt: rules.unlockAt.toISOString(),
+    };
+  }
+
+  // The first module has no previous module to wait for
+  const { previousModule } = state;
+  if (rules.requiresPrevious && rules.orderIndex > 0 && previousModule && !previousModule.completed) {
+    return {
+      unlockMessage: `Complete "${previousModule.title}" to unlock`,
+      prerequisiteModuleId: previousModule.id,
+      prerequisiteModuleTitle: previousModule.title,
+    };
+  }
+
+  const { prerequisiteModule } = state;
+  if (rules.prerequisiteModuleId && prerequisiteModule && !prerequisiteModule.completed) {
+    return {
+      unlockMessage: `Complete "${prerequisiteModule.title}" to unlock`,
+      prerequisiteModuleId: prerequisiteModule.id,
+      prerequisiteModuleTitle: prerequisiteModule.title,
+    };
+  }
+
+  const { prerequisiteAssignment } = state;
+  if (rules.prerequisiteAssignmentId && prerequisiteAssignment) {
+    const assignmentLock = {
+      prerequisiteAssignmentId: prerequisiteAssignment.id,
+      prerequisiteAssignmentTitle: prerequisiteAssignment.title,
+    };
+    const minScore = rules.prerequisiteMinScore;
+
+    if (minScore === null) {
+      if (!prerequisiteAssignment.submitted) {
+        return {
+          ...assignmentLock,
+          unlockMessage: `Submit "${prerequisiteAssignment.title}" to unlock`,
+        };
+      }
+    } else if (prerequisiteAssignment.scorePercent === null) {
+      return {
+        ...assignmentLock,
+        unlockMessage: prerequisiteAssignment.submitted
+          ? `Score at least ${minScore}% on "${prerequisiteAssignment.title}" to unlock (awaiting grade)`
+          : `Score at least ${minScore}% on "${prerequisiteAssignment.title}" to unlock`,
+      };
+    } else if (prerequisiteAssignment.scorePercent < minScore) {
+      return {
+        ...assignmentLock,
+        unlockMessage: `Score at least ${minScore}% on "${prerequisiteAssignment.title}" to unlock (current score: ${Math.round(prerequisiteAssignment.scorePercent)}%)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Unlock rule columns as stored on a module
+ */
+export interface StoredUnlockRules {
+  unlockAt: Date | null;
+  prerequisiteModuleId: string | null;
+  prerequisiteAssignmentId: string | null;
+  prerequisiteMinScore: number | null;
+}
+
+/**
+ * Apply requested unlock rule changes to the stored rules
+ *
+ * Omitted (undefined) fields keep their stored value; null clears them.
+ * Clearing the prerequisite assignment also clears its minimum score.
+ */
+export function applyUnlockRulesUpdate(
+  update: Partial<StoredUnlockRules>,
+  current: StoredUnlockRules = {
+    unlockAt: null,
+    prerequisiteModuleId: null,
+    prerequisiteAssignmentId: null,
+    prerequisiteMinScore: null,
+  }
+): StoredUnlockRules {
+  const pick = <K extends keyof StoredUnlockRules>(key: K): StoredUnlockRules[K] =>
+    update[key] !== undefined ? (update[key] as StoredUnlockRules[K]) : current[key];
+
+  const prerequisiteAssignmentId = pick('prerequisiteAssignmentId');
+
+  return {
+    unlockAt: pick('unlockAt'),
+    prerequisiteModuleId: pick('prerequisiteModuleId'),
+    prerequisiteAssignmentId,
+    prerequisiteMinScore: prerequisiteAssignmentId ? pick('prerequisiteMinScore') : null,
+  };
+}
+
+/**
+ * Check unlock rules an instructor is saving for a module
+ *
+ * The prerequisite module must come earlier in the course and must not lead
+ * back to this module, so students can never be locked out by a cycle.
+ *
+ * @param moduleId - The module being updated, or null when creating one
+ * @param orderIndex - The module's position in the course
+ * @returns An error message, or null when the rules are valid
+ */
+export async function validateUnlockRules(
+  courseId: string,
+  moduleId: string | null,
+  orderIndex: number,
+  rules: StoredUnlockRules
+): Promise<string | null> {
+  if (rules.prerequisiteMinScore !== null && !rules.prerequisiteAssignmentId) {
+    return 'A minimum score requires a prerequisite assignment';
+  }
+
+  if (rules.prerequisiteModuleId) {
+    if (rules.prerequisiteModuleId === moduleId) {
+      return 'A module cannot be its own prerequisite';
+    }
+
+    const courseModules = await prisma.modules.findMany({
+      where: { courseId, ...notDeleted },
+      select: { id: true, orderIndex: true, prerequisiteModuleId: true },
+    });
+    const moduleMap = new Map(courseModules.map((m) => [m.id, m]));
+    const prerequisite = moduleMap.get(rules.prerequisiteModuleId);
+
+    if (!prerequisite) {
+      return 'Prerequisite module not found in this course';
+    }
+    if (prerequisite.orderIndex >= orderIndex) {
+      return 'Prerequisite module must come before this module';
+    }
+
+    // Walk the prerequisite chain; it must not lead back to this module
+    const visited = new Set<string>();
+    let current: typeof prerequisite | undefined = prerequisite;
+    while (current?.prerequisiteModuleId && !visited.has(current.id)) {
+      if (current.prerequisiteModuleId === moduleId) {
+        return 'Prerequisite modules cannot form a cycle';
+      }
+      visited.add(current.id);
+      current = moduleMap.get(current.prerequisiteModuleId);
+    }
+  }
+
+  if (rules.prerequisiteAssignmentId) {
+    const assignment = await prisma.assignments.findFirst({
+      where: { id: rules.prerequisiteAssignmentId, courseId, ...notDeleted },
+      select: { moduleId: true },
+    });
+
+    if (!assignment) {
+      return 'Prerequisite assignment not found in this course';
+    }
+    if (moduleId && assignment.moduleId === moduleId) {
+      return 'Prerequisite assignment cannot be in this module';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load the student's standing on the prerequisite modules and assignments
+ * referenced by a set of modules
+ */
+async function loadPrerequisites(
+  courseId: string,
+  userId: string,
+  rulesList: ModuleUnlockRules[]
+): Promise<{
+  modules: Map<string, PrerequisiteModuleState>;
+  assignments: Map<string, PrerequisiteAssignmentState>;
+}> {
+  const moduleIds = [
+    ...new Set(rulesList.map((rules) => rules.prerequisiteModuleId).filter((id): id is string => !!id)),
+  ];
+  const assignmentIds = [
+    ...new Set(rulesList.map((rules) => rules.prerequisiteAssignmentId).filter((id): id is string => !!id)),
+  ];
+
+  const [prerequisiteModules, prerequisiteAssignments] = await Promise.all([
+    moduleIds.length > 0
+      ? prisma.modules.findMany({
+          where: { id: { in: moduleIds }, courseId, ...notDeleted },
+          select: {
+            id: true,
+            title: true,
+            module_progress: {
+              where: { userId, ...notDeleted },
+              select: { completedAt: true },
+            },
+          },
+        })
+      : [],
+    assignmentIds.length > 0
+      ? prisma.assignments.findMany({
+          where: { id: { in: assignmentIds }, courseId, ...notDeleted },
+          select: {
+            id: true,
+            title: true,
+            maxPoints: true,
+            submissions: {
+              where: { studentId: userId },
+              select: { id: true },
+              take: 1,
+            },
+            grades: {
+              where: { studentId: userId, ...notDeleted },
+              select: { points: true },
+            },
+          },
+        })
+      : [],
+  ]);
+
+  return {
+    modules: new Map(
+      prerequisiteModules.map((m) => [
+        m.id,
+        {
+          id: m.id,
+          title: m.title,
+          completed: m.module_progress.some((p) => p.completedAt !== null),
+        },
+      ])
+    ),
+    assignments: new Map(
+      prerequisiteAssignments.map((a) => {
+        const grade = a.grades[0];
+        return [
+          a.id,
+          {
+            id: a.id,
+            title: a.title,
+            submitted: a.submissions.length > 0,
+            scorePercent: grade && a.maxPoints > 0 ? (grade.points / a.maxPoints) * 100 : null,
+          },
+        ];
+      })
+    ),
+  };
 }
 
 /**
@@ -60,8 +397,7 @@ export async function isModuleUnlocked(
     select: {
       id: true,
       title: true,
-      orderIndex: true,
-      requiresPrevious: true,
+      ...unlockRulesSelect,
     },
   });
 
@@ -74,7 +410,7 @@ export async function isModuleUnlocked(
     };
   }
 
-  // Get user progress for this module using the correct 50/50 formula (ADR-002)
+  // Get user progress for this module under its completion rules
   const progressResult = await calculateModuleProgress(moduleId, userId);
   const progress = progressResult.moduleProgress;
 
@@ -99,65 +435,55 @@ export async function isModuleUnlocked(
     };
   }
 
-  // First module (orderIndex === 0) is always unlocked
-  if (currentModule.orderIndex === 0) {
-    return {
-      isUnlocked: true,
-      status: progress > 0 ? 'in_progress' : 'available',
-      progress,
-    };
-  }
-
-  // If sequential unlock is disabled for this module
-  if (!currentModule.requiresPrevious) {
-    return {
-      isUnlocked: true,
-      status: progress > 0 ? 'in_progress' : 'available',
-      progress,
-    };
-  }
+  // Check previous module completion when sequential unlock is enabled
+  let previousModule: PrerequisiteModuleState | null = null;
 
-  // Check previous module completion
-  const previousModule = await prisma.modules.findFirst({
-    where: {
-      courseId,
-      orderIndex: currentModule.orderIndex - 1,
-      ...notDeleted,
-    },
-    select: {
-      id: true,
-      title: true,
-    },
-  });
+  if (currentModule.requiresPrevious && currentModule.orderIndex > 0) {
+    const previous = await prisma.modules.findFirst({
+      where: {
+        courseId,
+        orderIndex: currentModule.orderIndex - 1,
+        ...notDeleted,
+      },
+      select: {
+        id: true,
+        title: true,
+      },
+    });
 
-  if (!previousModule) {
-    // No previous module found - unlock this one
-    return {
-      isUnlocked: true,
-      status: progress > 0 ? 'in_progress' : 'available',
-      progress,
-    };
+    if (previous) {
+      previousModule = {
+        ...previous,
+        completed: await isModuleCompleted(previous.id, userId),
+      };
+    }
   }
 
-  // Check if previous module is completed
-  const previousCompleted = await isModuleCompleted(previousModule.id, userId);
+  const prerequisites = await loadPrerequisites(courseId, userId, [currentModule]);
 
-  if (previousCompleted) {
+  const lockReason = evaluateUnlockRules(currentModule, {
+    previousModule,
+    prerequisiteModule: currentModule.prerequisiteModuleId
+      ? prerequisites.modules.get(currentModule.prerequisiteModuleId) ?? null
+      : null,
+    prerequisiteAssignment: currentModule.prerequisiteAssignmentId
+      ? prerequisites.assignments.get(currentModule.prerequisiteAssignmentId) ?? null
+      : null,
+  });
+
+  if (lockReason) {
     return {
-      isUnlocked: true,
-      status: progress > 0 ? 'in_progress' : 'available',
-      progress,
+      isUnlocked: false,
+      status: 'locked',
+      progress: 0,
+      ...lockReason,
     };
   }
 
-  // Module is locked
   return {
-    isUnlocked: false,
-    status: 'locked',
-    progress: 0,
-    unlockMessage: `Complete "${previousModule.title}" to unlock`,
-    prerequisiteModuleId: previousModule.id,
-    prerequisiteModuleTitle: previousModule.title,
+    isUnlocked: true,
+    status: progress > 0 ? 'in_progress' : 'available',
+    progress,
   };
 }
 
@@ -171,7 +497,7 @@ export async function getModulesUnlockInfo(
   const modules = await prisma.modules.findMany({
     where: {
       courseId,
-      isPublished: true,
+      ...publishedNow(),
       ...notDeleted,
     },
     orderBy: {
@@ -180,8 +506,7 @@ export async function getModulesUnlockInfo(
     select: {
       id: true,
       title: true,
-      orderIndex: true,
-      requiresPrevious: true,
+      ...unlockRulesSelect,
     },
   });
 
@@ -196,68 +521,19 @@ export async function getModulesUnlockInfo(
 
   const progressMap = new Map(allProgress.map((p) => [p.moduleId, p]));
 
-  // Get content counts for all modules
-  const contentCounts = await prisma.course_content.groupBy({
-    by: ['moduleId'],
-    where: {
-      moduleId: { in: modules.map((m) => m.id) },
-      ...notDeleted,
-    },
-    _count: true,
-  });
-
-  const assignmentCounts = await prisma.assignments.groupBy({
-    by: ['moduleId'],
-    where: {
-      moduleId: { in: modules.map((m) => m.id) },
-      isPublished: true,
-      ...notDeleted,
-    },
-    _count: true,
-  });
-
-  // Get submissions with assignment info for 50/50 formula (ADR-002)
-  const allSubmissions = await prisma.submissions.findMany({
-    where: {
-      studentId: userId,
-      assignments: {
-        moduleId: { in: modules.map((m) => m.id) },
-        isPublished: true,
-        ...notDeleted,
-      },
-    },
-    select: {
-      assignments: {
-        select: { moduleId: true },
-      },
-    },
-  });
-
-  // Count submissions per module
-  const submissionCountMap = new Map<string, number>();
-  for (const sub of allSubmissions) {
-    if (sub.assignments.moduleId) {
-      const current = submissionCountMap.get(sub.assignments.moduleId) || 0;
-      submissionCountMap.set(sub.assignments.moduleId, current + 1);
-    }
-  }
+  // Progress for every module using its completion rules
+  const moduleProgressMap = await calculateModulesProgress(
+    modules.map((m) => m.id),
+    userId
+  );
 
-  const contentCountMap = new Map(contentCounts.map((c) => [c.moduleId, c._count]));
-  const assignmentCountMap = new Map(assignmentCounts.map((a) => [a.moduleId, a._count]));
+  const prerequisites = await loadPrerequisites(courseId, userId, modules);
 
   const unlockInfoMap = new Map<string, ModuleUnlockInfo>();
 
   for (const courseModule of modules) {
     const progress = progressMap.get(courseModule.id);
-    const contentCount = contentCountMap.get(courseModule.id) || 0;
-    const assignmentCount = assignmentCountMap.get(courseModule.id) || 0;
-    const viewedCount = progress?.contentViewed?.length || 0;
-    const submittedCount = submissionCountMap.get(courseModule.id) || 0;
-
-    // Calculate 50/50 progress (ADR-002)
-    const contentPortion = contentCount > 0 ? (viewedCount / contentCount) * 50 : 50;
-    const assignmentPortion = assignmentCount > 0 ? (submittedCount / assignmentCount) * 50 : 50;
-    const progressPercent = Math.round(contentPortion + assignmentPortion);
+    const progressPercent = moduleProgressMap.get(courseModule.id)?.moduleProgress ?? 0;
 
     // Check if completed
     if (progress?.completedAt) {
@@ -269,59 +545,38 @@ export async function getModulesUnlockInfo(
       continue;
     }
 
-    // First module is always unlocked
-    if (courseModule.orderIndex === 0) {
-      unlockInfoMap.set(courseModule.id, {
-        isUnlocked: true,
-        status: progressPercent > 0 ? 'in_progress' : 'available',
-        progress: progressPercent,
-      });
-      continue;
-    }
-
-    // Check if requires previous
-    if (!courseModule.requiresPrevious) {
-      unlockInfoMap.set(courseModule.id, {
-        isUnlocked: true,
-        status: progressPercent > 0 ? 'in_progress' : 'available',
-        progress: progressPercent,
-      });
-      continue;
-    }
-
     // Find previous module
-    const prevModuleIndex = modules.findIndex((m) => m.orderIndex === courseModule.orderIndex - 1);
-    const prevModule = prevModuleIndex >= 0 ? modules[prevModuleIndex] : null;
-
-    if (!prevModule) {
-      // No previous module - unlock
+    const prevModule = modules.find((m) => m.orderIndex === courseModule.orderIndex - 1);
+
+    const lockReason = evaluateUnlockRules(courseModule, {
+      previousModule: prevModule
+        ? {
+            id: prevModule.id,
+            title: prevModule.title,
+            completed: !!progressMap.get(prevModule.id)?.completedAt,
+          }
+        : null,
+      prerequisiteModule: courseModule.prerequisiteModuleId
+        ? prerequisites.modules.get(courseModule.prerequisiteModuleId) ?? null
+        : null,
+      prerequisiteAssignment: courseModule.prerequisiteAssignmentId
+        ? prerequisites.assignments.get(courseModule.prerequisiteAssignmentId) ?? null
+        : null,
+    });
+
+    if (lockReason) {
       unlockInfoMap.set(courseModule.id, {
-        isUnlocked: true,
-        status: progressPercent > 0 ? 'in_progress' : 'available',
-        progress: progressPercent,
+        isUnlocked: false,
+        status: 'locked',
+        progress: 0,
+        ...lockReason,
       });
-      continue;
-    }
-
-    // Check if previous is completed
-    const prevUnlockInfo = unlockInfoMap.get(prevModule.id);
-    const isPrevCompleted = prevUnlockInfo?.status === 'completed';
-
-    if (isPrevCompleted) {
+    } else {
       unlockInfoMap.set(courseModule.id, {
         isUnlocked: true,
         status: progressPercent > 0 ? 'in_progress' : 'available',
         progress: progressPercent,
       });
-    } else {
-      unlockInfoMap.set(courseModule.id, {
-        isUnlocked: false,
-        status: 'locked',
-        progress: 0,
-        unlockMessage: `Complete "${prevModule.title}" to unlock`,
-        prerequisiteModuleId: prevModule.id,
-        prerequisiteModuleTitle: prevModule.title,
-      });
     }
   }
 
@@ -0,0 +1,58 @@
+/**
+ * Notification Types
+ *
+ * Notification types with display labels and preference descriptions.
+ * Kept free of server imports so client components can use them.
+ */
+
+/**
+ * Notification types, in the order they are listed on the preferences page
+ */
+export const NOTIFICATION_TYPES = [
+  'ANNOUNCEMENT',
+  'GRADE_POSTED',
+  'SUBMISSION_RECEIVED',
+  'DISCUSSION_REPLY',
+  'DISCUSSION_MENTION',
+] as const
+
+export type NotificationTypeName = (typeof NOTIFICATION_TYPES)[number]
+
+/**
+ * Display labels for notification types
+ */
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationTypeName, string> = {
+  ANNOUNCEMENT: 'Announcements',
+  GRADE_POSTED: 'Grades',
+  SUBMISSION_RECEIVED: 'Submissions',
+  DISCUSSION_REPLY: 'Discussion replies',
+  DISCUSSION_MENTION: 'Mentions',
+}
+
+/**
+ * Descriptions shown next to each preference
+ */
+export const NOTIFICATION_TYPE_DESCRIPTIONS: Record<NotificationTypeName, string> = {
+  ANNOUNCEMENT: 'An instructor posts an announcement in one of your courses',
+  GRADE_POSTED: 'A grade is entered or changed for one of your assignments',
+  SUBMISSION_RECEIVED: 'A student submits work to one of your courses',
+  DISCUSSION_REPLY: 'Someone posts in a discussion you follow or replies to your post',
+  DISCUSSION_MENTION: 'Someone mentions you in a discussion post',
+}
+
+/**
+ * Delivery channels for one notification type
+ */
+export interface NotificationChannels {
+  inApp: boolean
+  email: boolean
+}
+
+/**
+ * Notification types each role can receive, for the preferences page
+ */
+export const NOTIFICATION_TYPES_BY_ROLE: Record<string, readonly NotificationTypeName[]> = {
+  STUDENT: ['ANNOUNCEMENT', 'GRADE_POSTED', 'DISCUSSION_REPLY', 'DISCUSSION_MENTION'],
+  INSTRUCTOR: ['SUBMISSION_RECEIVED', 'DISCUSSION_REPLY', 'DISCUSSION_MENTION'],
+  ADMIN: NOTIFICATION_TYPES,
+}
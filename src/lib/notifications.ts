@@ -0,0 +1,246 @@
+/**
+ * Notifications
+ *
+ * Tells users about course activity: announcements, grades, new submissions,
+ * discussion replies and mentions. Each recipient gets an in-app notification
+ * (shown by the bell in the navbar) and/or an email, according to their
+ * per-type preferences. Both channels are on until a user turns them off.
+ *
+ * Delivery is fail-open: a notification failure is logged but never fails
+ * the action that triggered it, unless the notification was stored in the
+ * caller's transaction, which a failed query has already aborted. Emails are
+ * sent once the response has been sent (see `after`), so they neither hold
+ * it up nor get cut off when the request ends. Inside a transaction they are
+ * queued on an `AfterCommitTasks` list instead, which the caller schedules
+ * with `runAfterCommit` once the transaction has committed, so a rolled-back
+ * action sends no email.
+ */
+
+import { randomUUID } from 'crypto'
+import { NotificationType, Prisma } from '@prisma/client'
+import { after } from 'next/server'
+import { prisma } from './prisma'
+import { sendEmail } from './email'
+import { NOTIFICATION_TYPES, NotificationChannels, NotificationTypeName } from './notification-types'
+
+export * from './notification-types'
+
+// ============================================
+// Preferences
+// ============================================
+
+/**
+ * Channels used when a user has not saved a preference for a type
+ */
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannels = {
+  inApp: true,
+  email: true,
+}
+
+/**
+ * Merge a user's saved preferences over the defaults for every type
+ */
+export function resolveNotificationPreferences(
+  stored: Array<{ type: NotificationTypeName } & NotificationChannels>
+): Record<NotificationTypeName, NotificationChannels> {
+  const preferences = Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, { ...DEFAULT_NOTIFICATION_CHANNELS }])
+  ) as Record<NotificationTypeName, NotificationChannels>
+
+  for (const { type, inApp, email } of stored) {
+    preferences[type] = { inApp, email }
+  }
+
+  return preferences
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * A notification to deliver to one or more users
+ */
+export interface NotificationInput {
+  userIds: string[]
+  type: NotificationType
+  title: string
+  body?: string | null
+  /** App path the notification opens, e.g. /courses/{id}/announcements */
+  link?: string | null
+  courseId?: string | null
+  /** The user who caused the notification; never notified about their own action */
+  actorId?: string
+}
+
+/**
+ * Plain-text excerpt of user content (which may be HTML) for a notification body
+ */
+export function summarizeForNotification(content: string, maxLength = 200): string {
+  const text = content
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text
+}
+
+/**
+ * Build the plain-text email for a notification
+ */
+export function buildNotificationEmailText(
+  notification: Pick<NotificationInput, 'title' | 'body' | 'link'>,
+  baseUrl: string = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+): string {
+  const lines = [notification.title]
+  if (notification.body) lines.push('', notification.body)
+  if (notification.link) lines.push('', `View it at ${baseUrl.replace(/\/$/, '')}${notification.link}`)
+  lines.push('', 'You can change which notifications you receive on your notifications page.')
+  return lines.join('\n')
+}
+
+/**
+ * Work queued inside a transaction to run only once it has committed
+ */
+export type AfterCommitTasks = Array<() => Promise<void>>
+
+/**
+ * Schedule the work queued by a committed transaction to run after the response
+ *
+ * @example
+ * const afterCommit: AfterCommitTasks = []
+ * await prisma.$transaction((tx) => gradeAndNotify(tx, afterCommit))
+ * runAfterCommit(afterCommit)
+ */
+export function runAfterCommit(tasks: AfterCommitTasks): void {
+  for (const task of tasks) after(task)
+}
+
+async function deliverEmails(recipients: string[], notification: NotificationInput) {
+  const text = buildNotificationEmailText(notification)
+
+  // Sequential delivery keeps a large course from opening one connection per student
+  for (const to of recipients) {
+    try {
+      await sendEmail({ to, subject: notification.title, text })
+    } catch (error) {
+      console.error('[Notifications] Failed to send email:', notification.type, error)
+    }
+  }
+}
+
+/**
+ * Notify users of an event
+ *
+ * @param notification - Recipients and content
+ * @param db - Prisma client or transaction client (default: prisma). Errors
+ *   are rethrown when it is a transaction client, so the caller's transaction
+ *   is rolled back rather than used after it was aborted.
+ * @param afterCommit - Where to queue the emails; required with a transaction
+ *   client, whose caller runs the list with `runAfterCommit` after commit
+ *
+ * @example
+ * await notifyUsers({
+ *   userIds: [submission.studentId],
+ *   type: 'GRADE_POSTED',
+ *   title: `Your grade for ${assignment.title} is available`,
+ *   link: `/courses/${courseId}/assignments/${assignment.id}`,
+ *   courseId,
+ *   actorId: session.user.id,
+ * })
+ */
+export async function notifyUsers(
+  notification: NotificationInput,
+  db: Prisma.TransactionClient = prisma,
+  afterCommit?: AfterCommitTasks
+): Promise<void> {
+  if (db !== prisma && !afterCommit) {
+    throw new Error('notifyUsers needs an afterCommit list when called in a transaction')
+  }
+
+  const { type, title, body = null, link = null, courseId = null, actorId } = notification
+  const userIds = [...new Set(notification.userIds)].filter((id) => id !== actorId)
+  if (userIds.length === 0) return
+
+  try {
+    const users = await db.users.findMany({
+      where: { id: { in: userIds }, deletedAt: null },
+      select: {
+        id: true,
+        email: true,
+        notification_preferences: {
+          where: { type },
+          select: { inApp: true, email: true },
+        },
+      },
+    })
+
+    const channels = users.map((user) => ({
+      user,
+      ...(user.notification_preferences[0] ?? DEFAULT_NOTIFICATION_CHANNELS),
+    }))
+
+    const inAppRecipients = channels.filter((c) => c.inApp).map((c) => c.user.id)
+    if (inAppRecipients.length > 0) {
+      await db.notifications.createMany({
+        data: inAppRecipients.map((userId) => ({
+          id: randomUUID(),
+          type,
+          title,
+          body,
+          link,
+          userId,
+          courseId,
+        })),
+      })
+    }
+
+    const emailRecipients = channels.filter((c) => c.email).map((c) => c.user.email)
+    if (emailRecipients.length > 0) {
+      const delivery = () => deliverEmails(emailRecipients, notification)
+      if (afterCommit) afterCommit.push(delivery)
+      else after(delivery)
+    }
+  } catch (error) {
+    console.error('[Notifications] Failed to notify users:', type, error)
+    if (db !== prisma) throw error
+  }
+}
+
+/**
+ * Tell students that a grade for an assignment was entered or changed
+ */
+export async function notifyGradePosted(params: {
+  studentIds: string[]
+  assignment: { id: string; title: string; courseId: string }
+  actorId: string
+}): Promise<void> {
+  const { studentIds, assignment, actorId } = params
+
+  await notifyUsers({
+    userIds: studentIds,
+    type: 'GRADE_POSTED',
+    title: `Your grade for ${assignment.title} has been posted`,
+    link: `/courses/${assignment.courseId}/assignments/${assignment.id}`,
+    courseId: assignment.courseId,
+    actorId,
+  })
+}
+
+// ============================================
+// Inbox
+// ============================================
+
+/**
+ * Prisma select for notifications shown to their recipient
+ */
+export const notificationSelect = {
+  id: true,
+  type: true,
+  title: true,
+  body: true,
+  link: true,
+  readAt: true,
+  createdAt: true,
+  courseId: true,
+} satisfies Prisma.notificationsSelect
@@ -0,0 +1,267 @@
+/**
+ * PDF Document Utilities
+ *
+ * Minimal writer for single-page PDF documents with text, lines and
+ * rectangles. Text uses the standard Helvetica fonts (no embedding needed)
+ * with WinAnsi encoding, so Latin-1 characters render and anything else is
+ * replaced with "?".
+ *
+ * @module lib/pdf
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type PdfFont = 'Helvetica' | 'Helvetica-Bold' | 'Helvetica-Oblique';
+
+/** RGB color with components from 0 to 1 */
+export type PdfColor = [number, number, number];
+
+export interface PdfText {
+  type: 'text';
+  x: number;
+  y: number;
+  text: string;
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  /** Horizontal alignment relative to x (default: left) */
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfLine {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfRect {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  strokeColor?: PdfColor;
+  fillColor?: PdfColor;
+  lineWidth?: number;
+}
+
+export type PdfElement = PdfText | PdfLine | PdfRect;
+
+/**
+ * A single-page document; coordinates are points from the bottom-left corner
+ */
+export interface PdfDocument {
+  width: number;
+  height: number;
+  title?: string;
+  elements: PdfElement[];
+}
+
+// ============================================
+// Font Metrics
+// ============================================
+
+// Advance widths (1/1000 em) for characters 32-126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Width used for Latin-1 characters outside the ASCII table
+const DEFAULT_WIDTH = 556;
+
+const FONT_WIDTHS: Record<PdfFont, number[]> = {
+  Helvetica: HELVETICA_WIDTHS,
+  'Helvetica-Bold': HELVETICA_BOLD_WIDTHS,
+  'Helvetica-Oblique': HELVETICA_WIDTHS,
+};
+
+/**
+ * Map text to WinAnsi character codes, replacing unsupported characters
+ */
+function toCharCodes(text: string): number[] {
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0) ?? 63;
+    if (code >= 32 && code <= 126) return code;
+    if (code >= 160 && code <= 255) return code;
+    return 63; // "?"
+  });
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measureText(text: string, font: PdfFont, size: number): number {
+  const widths = FONT_WIDTHS[font];
+  const units = toCharCodes(text).reduce(
+    (sum, code) => sum + (code <= 126 ? widths[code - 32] : DEFAULT_WIDTH),
+    0
+  );
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, splitting on spaces
+ *
+ * A single word wider than maxWidth is kept on its own line.
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measureText(candidate, font, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+// ============================================
+// Document Writer
+// ============================================
+
+/**
+ * Encode text as a PDF literal string
+ */
+function toPdfString(text: string): string {
+  const body = toCharCodes(text)
+    .map((code) => {
+      if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+      if (code > 126) return `\\${code.toString(8)}`;
+      return String.fromCharCode(code);
+    })
+    .join('');
+  return `(${body})`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+function renderElement(element: PdfElement, fontNames: Map<PdfFont, string>): string {
+  switch (element.type) {
+    case 'text': {
+      const font = element.font ?? 'Helvetica';
+      const size = element.size ?? 12;
+      const width = measureText(element.text, font, size);
+      const x =
+        element.align === 'center'
+          ? element.x - width / 2
+          : element.align === 'right'
+            ? element.x - width
+            : element.x;
+      return [
+        'BT',
+        `${formatColor(element.color ?? [0, 0, 0])} rg`,
+        `/${fontNames.get(font)} ${formatNumber(size)} Tf`,
+        `${formatNumber(x)} ${formatNumber(element.y)} Td`,
+        `${toPdfString(element.text)} Tj`,
+        'ET',
+      ].join('\n');
+    }
+    case 'line':
+      return [
+        `${formatNumber(element.lineWidth ?? 1)} w`,
+        `${formatColor(element.color ?? [0, 0, 0])} RG`,
+        `${formatNumber(element.x1)} ${formatNumber(element.y1)} m`,
+        `${formatNumber(element.x2)} ${formatNumber(element.y2)} l`,
+        'S',
+      ].join('\n');
+    case 'rect': {
+      const operator = element.fillColor ? (element.strokeColor ? 'B' : 'f') : 'S';
+      return [
+        `${formatNumber(element.lineWidth ?? 1)} w`,
+        ...(element.strokeColor ? [`${formatColor(element.strokeColor)} RG`] : []),
+        ...(element.fillColor ? [`${formatColor(element.fillColor)} rg`] : []),
+        `${formatNumber(element.x)} ${formatNumber(element.y)} ${formatNumber(element.width)} ${formatNumber(element.height)} re`,
+        operator,
+      ].join('\n');
+    }
+  }
+}
+
+/**
+ * Build a PDF file for a single-page document
+ *
+ * @example
+ * const pdf = createPdf({
+ *   width: 612,
+ *   height: 792,
+ *   elements: [{ type: 'text', x: 306, y: 700, text: 'Hello', align: 'center' }],
+ * });
+ */
+export function createPdf(document: PdfDocument): Buffer {
+  const fonts = Array.from(
+    new Set(
+      document.elements
+        .filter((element): element is PdfText => element.type === 'text')
+        .map((element) => element.font ?? 'Helvetica')
+    )
+  );
+  const fontNames = new Map(fonts.map((font, index) => [font, `F${index + 1}`]));
+
+  const content = document.elements.map((element) => renderElement(element, fontNames)).join('\n');
+
+  // Objects: 1 catalog, 2 page tree, 3 page, 4 content stream, 5 info, then fonts
+  const fontObjectIds = fonts.map((_, index) => 6 + index);
+  const fontResources = fonts
+    .map((font, index) => `/${fontNames.get(font)} ${fontObjectIds[index]} 0 R`)
+    .join(' ');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(document.width)} ${formatNumber(document.height)}] /Resources << /Font << ${fontResources} >> >> /Contents 4 0 R >>`,
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    `<< /Producer (AI Gurus LMS)${document.title ? ` /Title ${toPdfString(document.title)}` : ''} >>`,
+    ...fonts.map(
+      (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`
+    ),
+  ];
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
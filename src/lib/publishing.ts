@@ -0,0 +1,174 @@
+/**
+ * Scheduled Publishing
+ *
+ * Modules, content and assignments are visible to students while they are
+ * published (`isPublished`) and inside their publish window: on or after
+ * `publishAt` (when set) and before `unpublishAt` (when set). Announcements
+ * have no publish flag and only use the window.
+ *
+ * The window is evaluated whenever a record is read, so scheduled items
+ * appear and disappear on time without a background job. Kept free of server
+ * imports so client components can show the same status.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Publish window of a record; dates may be serialized strings on the client
+ */
+export interface PublishWindow {
+  publishAt?: Date | string | null
+  unpublishAt?: Date | string | null
+}
+
+/**
+ * Where a published record is in its schedule
+ */
+export type PublishStatus = 'draft' | 'scheduled' | 'published' | 'expired'
+
+/**
+ * Display labels for schedule statuses
+ */
+export const PUBLISH_STATUS_LABELS: Record<PublishStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  expired: 'Expired',
+}
+
+// ============================================
+// Query Filters
+// ============================================
+
+/**
+ * Where clause for records inside their publish window
+ *
+ * @example
+ * const announcements = await prisma.announcements.findMany({
+ *   where: { courseId, ...notDeleted, ...withinPublishWindow() }
+ * })
+ */
+export function withinPublishWindow(now: Date = new Date()) {
+  return {
+    AND: [
+      { OR: [{ publishAt: null }, { publishAt: { lte: now } }] },
+      { OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] },
+    ],
+  }
+}
+
+/**
+ * Where clause for records students can currently see
+ *
+ * @example
+ * const modules = await prisma.modules.findMany({
+ *   where: { courseId, ...notDeleted, ...publishedNow() }
+ * })
+ */
+export function publishedNow(now: Date = new Date()) {
+  return { isPublished: true, ...withinPublishWindow(now) }
+}
+
+// ============================================
+// Record Checks
+// ============================================
+
+function toTime(value: Date | string | null | undefined): number | null {
+  return value ? new Date(value).getTime() : null
+}
+
+/**
+ * Whether a record is inside its publish window
+ */
+export function isWithinPublishWindow(record: PublishWindow, now: Date = new Date()): boolean {
+  const publishAt = toTime(record.publishAt)
+  const unpublishAt = toTime(record.unpublishAt)
+  const time = now.getTime()
+
+  return (publishAt === null || publishAt <= time) && (unpublishAt === null || unpublishAt > time)
+}
+
+/**
+ * Whether students can currently see a record
+ */
+export function isPublishedNow(
+  record: PublishWindow & { isPublished: boolean },
+  now: Date = new Date()
+): boolean {
+  return record.isPublished && isWithinPublishWindow(record, now)
+}
+
+/**
+ * Schedule status of a record, for instructor views
+ *
+ * Records without a publish flag (announcements) pass `isPublished: true`.
+ */
+export function getPublishStatus(
+  record: PublishWindow & { isPublished: boolean },
+  now: Date = new Date()
+): PublishStatus {
+  if (!record.isPublished) return 'draft'
+
+  const publishAt = toTime(record.publishAt)
+  const unpublishAt = toTime(record.unpublishAt)
+  const time = now.getTime()
+
+  if (publishAt !== null && publishAt > time) return 'scheduled'
+  if (unpublishAt !== null && unpublishAt <= time) return 'expired'
+  return 'published'
+}
+
+/**
+ * Apply requested publish window changes to the stored window
+ *
+ * Omitted (undefined) dates keep their stored value; null clears them.
+ */
+export function applyPublishWindowUpdate(
+  update: { publishAt?: Date | null; unpublishAt?: Date | null },
+  current: { publishAt: Date | null; unpublishAt: Date | null } = { publishAt: null, unpublishAt: null }
+): { publishAt: Date | null; unpublishAt: Date | null } {
+  return {
+    publishAt: update.publishAt !== undefined ? update.publishAt : current.publishAt,
+    unpublishAt: update.unpublishAt !== undefined ? update.unpublishAt : current.unpublishAt,
+  }
+}
+
+/**
+ * Check that a publish window closes after it opens
+ *
+ * @returns An error message, or null when the window is valid
+ */
+export function validatePublishWindow(window: PublishWindow): string | null {
+  const publishAt = toTime(window.publishAt)
+  const unpublishAt = toTime(window.unpublishAt)
+
+  if (publishAt !== null && unpublishAt !== null && unpublishAt <= publishAt) {
+    return 'Unpublish date must be after the publish date'
+  }
+  return null
+}
+
+// ============================================
+// Form Values
+// ============================================
+
+/**
+ * Format a date for a datetime-local input (local time, minute precision)
+ */
+export function toDateTimeLocalValue(value: Date | string | null | undefined): string {
+  if (!value) return ''
+  const date = new Date(value)
+  const offsetMs = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+/**
+ * Convert a datetime-local input value to an ISO string for the API
+ *
+ * @returns null for an empty input, which clears the date
+ */
+export function fromDateTimeLocalValue(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
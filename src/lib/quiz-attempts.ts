@@ -0,0 +1,282 @@
+/**
+ * Quiz Attempt Persistence
+ *
+ * Starts and submits quiz attempts. A submitted attempt is auto-graded and
+ * recorded as a graded `submissions` attempt of the quiz's backing assignment,
+ * so attempt limits, graded-attempt policies and late penalties work the same
+ * way as for file submissions.
+ *
+ * A student has at most one attempt in progress per quiz (a partial unique
+ * index enforces it), and an attempt is claimed by setting `submittedAt`
+ * before it is graded, so concurrent requests cannot start or grade twice.
+ *
+ * @module lib/quiz-attempts
+ */
+
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { syncGradeFromAttempts } from '@/lib/attempts';
+import { publishedNow } from '@/lib/publishing';
+import {
+  drawQuizQuestions,
+  formatQuestionForAttempt,
+  getAttemptExpiry,
+  isAttemptExpired,
+  quizQuestionInclude,
+  scaleQuizScore,
+  scoreQuiz,
+  toQuestionDefinition,
+  type QuizAnswerInput,
+} from '@/lib/quiz';
+
+/**
+ * Quiz fields needed to start and submit attempts
+ */
+export interface QuizForAttempt {
+  id: string;
+  bankId: string;
+  questionCount: number | null;
+  timeLimitMinutes: number | null;
+  shuffleQuestions: boolean;
+  assignmentId: string;
+  assignments: { maxPoints: number; createdById: string };
+}
+
+/**
+ * Attempt fields needed to submit it
+ */
+export interface AttemptForSubmit {
+  id: string;
+  questionIds: string[];
+  expiresAt: Date | null;
+  submittedAt: Date | null;
+  studentId: string;
+}
+
+/**
+ * Find a published quiz in a module
+ *
+ * @returns The quiz content item with its quiz and backing assignment, or null
+ */
+export async function findModuleQuiz(courseId: string, moduleId: string, contentId: string) {
+  return prisma.course_content.findFirst({
+    where: {
+      id: contentId,
+      moduleId,
+      courseId,
+      type: 'QUIZ',
+      ...publishedNow(),
+      deletedAt: null,
+    },
+    select: {
+      id: true,
+      title: true,
+      quizzes: {
+        include: {
+          assignments: {
+            select: {
+              id: true,
+              courseId: true,
+              createdAt: true,
+              createdById: true,
+              maxPoints: true,
+              dueDate: true,
+              latePolicy: true,
+              lateGraceMinutes: true,
+              latePenaltyPerDay: true,
+              lateCutoffAt: true,
+              maxAttempts: true,
+              gradedAttemptPolicy: true,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Start a new attempt with freshly drawn questions
+ *
+ * @param quiz - The quiz being taken
+ * @param studentId - The student
+ * @returns The new attempt, or the attempt a concurrent request started
+ */
+export async function startQuizAttempt(quiz: QuizForAttempt, studentId: string) {
+  const questions = await prisma.quiz_questions.findMany({
+    where: { bankId: quiz.bankId, deletedAt: null },
+    orderBy: { orderIndex: 'asc' },
+    select: { id: true },
+  });
+
+  const startedAt = new Date();
+
+  try {
+    return await prisma.quiz_attempts.create({
+      data: {
+        id: randomUUID(),
+        quizId: quiz.id,
+        studentId,
+        questionIds: drawQuizQuestions(
+          questions.map((q) => q.id),
+          { questionCount: quiz.questionCount, shuffleQuestions: quiz.shuffleQuestions }
+        ),
+        startedAt,
+        expiresAt: getAttemptExpiry(startedAt, quiz.timeLimitMinutes),
+      },
+    });
+  } catch (error) {
+    // Started concurrently by another request
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const attempt = await prisma.quiz_attempts.findFirst({
+        where: { quizId: quiz.id, studentId, submittedAt: null },
+      });
+      if (attempt) return attempt;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load an attempt's questions for the student taking it (answers hidden)
+ *
+ * @param attempt - The attempt
+ * @param shuffleOptions - Whether the quiz shuffles answer options
+ * @returns The questions in the order drawn for the attempt
+ */
+export async function loadAttemptQuestions(
+  attempt: { id: string; questionIds: string[] },
+  shuffleOptions: boolean
+) {
+  const questions = await prisma.quiz_questions.findMany({
+    where: { id: { in: attempt.questionIds } },
+    include: quizQuestionInclude,
+  });
+  const questionsById = new Map(questions.map((q) => [q.id, q]));
+
+  return attempt.questionIds
+    .map((id) => questionsById.get(id))
+    .filter((q): q is NonNullable<typeof q> => q !== undefined)
+    .map((q) => formatQuestionForAttempt(q, attempt.id, shuffleOptions));
+}
+
+/**
+ * Grade and record an attempt
+ *
+ * Answers sent after a timed attempt expired (plus the grace period) are
+ * discarded, and the attempt is recorded as submitted when it expired.
+ *
+ * @param quiz - The attempt's quiz
+ * @param attempt - The attempt being submitted
+ * @param answers - The student's answers
+ * @returns The graded attempt and the student's updated grade, or null if
+ * the attempt was already submitted
+ */
+export async function submitQuizAttempt(
+  quiz: QuizForAttempt,
+  attempt: AttemptForSubmit,
+  answers: QuizAnswerInput[]
+) {
+  const now = new Date();
+  const expired = isAttemptExpired(attempt.expiresAt, now);
+  const submittedAt = expired && attempt.expiresAt ? attempt.expiresAt : now;
+
+  // Questions are loaded even if since removed from the bank
+  const questions = await prisma.quiz_questions.findMany({
+    where: { id: { in: attempt.questionIds } },
+    include: quizQuestionInclude,
+  });
+  const questionsById = new Map(questions.map((q) => [q.id, q]));
+  const definitions = attempt.questionIds
+    .map((id) => questionsById.get(id))
+    .filter((q): q is NonNullable<typeof q> => q !== undefined)
+    .map(toQuestionDefinition);
+
+  const result = scoreQuiz(definitions, expired ? [] : answers);
+  const points = scaleQuizScore(result.earnedPoints, result.possiblePoints, quiz.assignments.maxPoints);
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the attempt so a concurrent submit cannot grade it again
+    const claimed = await tx.quiz_attempts.updateMany({
+      where: { id: attempt.id, submittedAt: null },
+      data: { submittedAt },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const lastSubmission = await tx.submissions.findFirst({
+      where: { assignmentId: quiz.assignmentId, studentId: attempt.studentId },
+      orderBy: { attemptNumber: 'desc' },
+      select: { attemptNumber: true },
+    });
+
+    const submission = await tx.submissions.create({
+      data: {
+        id: randomUUID(),
+        assignmentId: quiz.assignmentId,
+        studentId: attempt.studentId,
+        attemptNumber: (lastSubmission?.attemptNumber ?? 0) + 1,
+        submittedAt,
+        points,
+        gradedAt: now,
+      },
+    });
+
+    await tx.quiz_answers.createMany({
+      data: result.answers.map((answer) => ({ id: randomUUID(), attemptId: attempt.id, ...answer })),
+    });
+
+    const gradedAttempt = await tx.quiz_attempts.update({
+      where: { id: attempt.id },
+      data: {
+        earnedPoints: result.earnedPoints,
+        possiblePoints: result.possiblePoints,
+        submissionId: submission.id,
+      },
+    });
+
+    // Auto-graded attempts are recorded against the quiz's author
+    const sync = await syncGradeFromAttempts(
+      {
+        assignmentId: quiz.assignmentId,
+        studentId: attempt.studentId,
+        gradedById: quiz.assignments.createdById,
+        source: 'QUIZ',
+      },
+      tx
+    );
+
+    return {
+      attempt: gradedAttempt,
+      answers: result.answers,
+      points,
+      grade: sync.grade,
+      expired,
+    };
+  });
+}
+
+/**
+ * Submit a student's attempts whose time ran out before they were submitted.
+ * Answers are only saved on submit, so these attempts score nothing.
+ *
+ * @returns The number of attempts submitted
+ */
+export async function submitExpiredAttempts(quiz: QuizForAttempt, studentId: string): Promise<number> {
+  const unsubmitted = await prisma.quiz_attempts.findMany({
+    where: { quizId: quiz.id, studentId, submittedAt: null },
+    orderBy: { startedAt: 'asc' },
+  });
+  const expired = unsubmitted.filter((attempt) => isAttemptExpired(attempt.expiresAt));
+
+  let submitted = 0;
+  for (const attempt of expired) {
+    if (await submitQuizAttempt(quiz, attempt, [])) {
+      submitted++;
+    }
+  }
+
+  return submitted;
+}
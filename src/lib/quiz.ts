@@ -0,0 +1,571 @@
+/**
+ * Quiz Utilities
+ *
+ * A quiz is a course content item (type QUIZ) that draws its questions from a
+ * question bank. Each quiz is backed by an assignment so its grades appear in
+ * the gradebook: a submitted quiz attempt is stored as a graded `submissions`
+ * attempt and the grade is derived with `syncGradeFromAttempts`.
+ *
+ * Question types are auto-graded all-or-nothing:
+ * - MULTIPLE_CHOICE / TRUE_FALSE: the single correct option is selected
+ * - MULTI_SELECT: exactly the correct options are selected
+ * - NUMERIC: the answer is within the tolerance of the expected value
+ * - SHORT_ANSWER: the answer matches an accepted answer (whitespace and,
+ *   unless the question is case-sensitive, letter case are ignored)
+ *
+ * @module lib/quiz
+ */
+
+import { randomUUID } from 'crypto';
+import type { GradedAttemptPolicy, Prisma, QuizQuestionType } from '@prisma/client';
+
+/**
+ * Extra time allowed after a timed attempt expires, to absorb network delay
+ */
+export const QUIZ_SUBMIT_GRACE_SECONDS = 30;
+
+/**
+ * Quiz settings, stored on the quiz and its backing assignment
+ */
+export interface QuizSettings {
+  bankId: string;
+  questionCount?: number | null;
+  timeLimitMinutes?: number | null;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  maxPoints?: number;
+  dueDate?: string | null;
+  maxAttempts?: number;
+  gradedAttemptPolicy?: GradedAttemptPolicy;
+}
+
+/**
+ * Question with the data needed to grade it
+ */
+export interface QuizQuestionDefinition {
+  id: string;
+  type: QuizQuestionType;
+  points: number;
+  options: Array<{ id: string; isCorrect: boolean }>;
+  numericAnswer: number | null;
+  numericTolerance: number | null;
+  acceptedAnswers: string[];
+  caseSensitive: boolean;
+}
+
+/**
+ * Answer submitted for one question
+ */
+export interface QuizAnswerInput {
+  questionId: string;
+  selectedOptionIds?: string[] | null;
+  numericAnswer?: number | null;
+  textAnswer?: string | null;
+}
+
+/**
+ * Auto-graded answer
+ */
+export interface GradedQuizAnswer {
+  questionId: string;
+  selectedOptionIds: string[];
+  numericAnswer: number | null;
+  textAnswer: string | null;
+  isCorrect: boolean;
+  points: number;
+}
+
+/**
+ * Result of grading a quiz attempt
+ */
+export interface QuizScoringResult {
+  answers: GradedQuizAnswer[];
+  earnedPoints: number;
+  possiblePoints: number;
+}
+
+/**
+ * Whether an answer is correct for a question
+ */
+export function isAnswerCorrect(question: QuizQuestionDefinition, answer?: QuizAnswerInput): boolean {
+  if (!answer) return false;
+
+  switch (question.type) {
+    case 'MULTIPLE_CHOICE':
+    case 'TRUE_FALSE':
+    case 'MULTI_SELECT': {
+      const selected = new Set(answer.selectedOptionIds ?? []);
+      const correct = question.options.filter((o) => o.isCorrect).map((o) => o.id);
+      if (question.type !== 'MULTI_SELECT' && selected.size !== 1) return false;
+      return selected.size === correct.length && correct.every((id) => selected.has(id));
+    }
+    case 'NUMERIC': {
+      if (answer.numericAnswer == null || question.numericAnswer === null) return false;
+      const tolerance = question.numericTolerance ?? 0;
+      // Small epsilon so e.g. 0.1 + 0.2 still matches 0.3
+      return Math.abs(answer.numericAnswer - question.numericAnswer) <= tolerance + 1e-9;
+    }
+    case 'SHORT_ANSWER': {
+      if (!answer.textAnswer) return false;
+      const normalize = (text: string) => {
+        const collapsed = text.trim().replace(/\s+/g, ' ');
+        return question.caseSensitive ? collapsed : collapsed.toLowerCase();
+      };
+      const given = normalize(answer.textAnswer);
+      return given !== '' && question.acceptedAnswers.some((accepted) => normalize(accepted) === given);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Auto-grade an attempt
+ *
+ * Every question of the attempt is graded; unanswered questions score 0 and
+ * answers to questions outside the attempt are ignored.
+ *
+ * @param questions - The questions of the attempt
+ * @param answers - The submitted answers
+ * @returns Graded answers with earned and possible points
+ */
+export function scoreQuiz(
+  questions: QuizQuestionDefinition[],
+  answers: QuizAnswerInput[]
+): QuizScoringResult {
+  const answersByQuestion = new Map(answers.map((answer) => [answer.questionId, answer]));
+
+  const graded = questions.map((question) => {
+    const answer = answersByQuestion.get(question.id);
+    const isCorrect = isAnswerCorrect(question, answer);
+    return {
+      questionId: question.id,
+      selectedOptionIds: answer?.selectedOptionIds ?? [],
+      numericAnswer: answer?.numericAnswer ?? null,
+      textAnswer: answer?.textAnswer?.trim() || null,
+      isCorrect,
+      points: isCorrect ? question.points : 0,
+    };
+  });
+
+  return {
+    answers: graded,
+    earnedPoints: roundPoints(graded.reduce((sum, answer) => sum + answer.points, 0)),
+    possiblePoints: roundPoints(questions.reduce((sum, question) => sum + question.points, 0)),
+  };
+}
+
+/**
+ * Scale earned quiz points to the backing assignment's maximum points
+ *
+ * Attempts may draw different questions, so scores are recorded as a share
+ * of the assignment's points rather than raw question points.
+ */
+export function scaleQuizScore(earnedPoints: number, possiblePoints: number, maxPoints: number): number {
+  if (possiblePoints <= 0) return 0;
+  return roundPoints((earnedPoints / possiblePoints) * maxPoints);
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) seeded from a string,
+ * so an attempt shows its options in the same order every time it is loaded
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle a copy of an array (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Choose the questions for a new attempt
+ *
+ * When the quiz uses fewer questions than the bank holds, a random subset is
+ * drawn (kept in bank order unless questions are shuffled).
+ *
+ * @param questionIds - The bank's questions in bank order
+ * @param settings - The quiz's question count and shuffle setting
+ * @param random - Random source (injectable for tests)
+ * @returns Question ids in the order they are shown
+ */
+export function drawQuizQuestions(
+  questionIds: string[],
+  settings: { questionCount: number | null; shuffleQuestions: boolean },
+  random: () => number = Math.random
+): string[] {
+  let drawn = questionIds;
+
+  if (settings.questionCount !== null && settings.questionCount < questionIds.length) {
+    const chosen = new Set(shuffle(questionIds, random).slice(0, settings.questionCount));
+    drawn = questionIds.filter((id) => chosen.has(id));
+  }
+
+  return settings.shuffleQuestions ? shuffle(drawn, random) : drawn;
+}
+
+/**
+ * When a timed attempt must be submitted, or null for untimed quizzes
+ */
+export function getAttemptExpiry(startedAt: Date, timeLimitMinutes: number | null): Date | null {
+  if (!timeLimitMinutes) return null;
+  return new Date(startedAt.getTime() + timeLimitMinutes * 60 * 1000);
+}
+
+/**
+ * Seconds left on a timed attempt by the server's clock, or null for untimed
+ * quizzes
+ *
+ * Sent to the player so its countdown does not depend on the student's clock.
+ */
+export function getAttemptRemainingSeconds(expiresAt: Date | null, now: Date = new Date()): number | null {
+  if (!expiresAt) return null;
+  return Math.max(0, Math.floor((expiresAt.getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * Whether a timed attempt can no longer be answered
+ */
+export function isAttemptExpired(
+  expiresAt: Date | null,
+  now: Date = new Date(),
+  graceSeconds: number = QUIZ_SUBMIT_GRACE_SECONDS
+): boolean {
+  return expiresAt !== null && now.getTime() > expiresAt.getTime() + graceSeconds * 1000;
+}
+
+/**
+ * Prisma include that loads a question's options in display order
+ */
+export const quizQuestionInclude = {
+  quiz_question_options: { orderBy: { orderIndex: 'asc' } },
+} satisfies Prisma.quiz_questionsInclude;
+
+type QuizQuestionWithOptions = Prisma.quiz_questionsGetPayload<{ include: typeof quizQuestionInclude }>;
+
+/**
+ * Convert a question record into its grading definition
+ */
+export function toQuestionDefinition(question: QuizQuestionWithOptions): QuizQuestionDefinition {
+  return {
+    id: question.id,
+    type: question.type,
+    points: question.points,
+    options: question.quiz_question_options.map((option) => ({
+      id: option.id,
+      isCorrect: option.isCorrect,
+    })),
+    numericAnswer: question.numericAnswer,
+    numericTolerance: question.numericTolerance,
+    acceptedAnswers: question.acceptedAnswers,
+    caseSensitive: question.caseSensitive,
+  };
+}
+
+/**
+ * Shape a question for instructors (answers included)
+ */
+export function formatQuestion(question: QuizQuestionWithOptions) {
+  return {
+    id: question.id,
+    type: question.type,
+    prompt: question.prompt,
+    points: question.points,
+    options: question.quiz_question_options.map((option) => ({
+      id: option.id,
+      text: option.text,
+      isCorrect: option.isCorrect,
+    })),
+    numericAnswer: question.numericAnswer,
+    numericTolerance: question.numericTolerance,
+    acceptedAnswers: question.acceptedAnswers,
+    caseSensitive: question.caseSensitive,
+  };
+}
+
+/**
+ * Prisma include that loads a bank's current (not deleted) questions in order
+ */
+export const questionBankInclude = {
+  quiz_questions: {
+    where: { deletedAt: null },
+    include: quizQuestionInclude,
+    orderBy: { orderIndex: 'asc' },
+  },
+} satisfies Prisma.question_banksInclude;
+
+type QuestionBankWithQuestions = Prisma.question_banksGetPayload<{ include: typeof questionBankInclude }>;
+
+/**
+ * Shape a question bank for instructors
+ */
+export function formatQuestionBank(bank: QuestionBankWithQuestions) {
+  return {
+    id: bank.id,
+    name: bank.name,
+    description: bank.description,
+    createdAt: bank.createdAt,
+    updatedAt: bank.updatedAt,
+    questions: bank.quiz_questions.map(formatQuestion),
+  };
+}
+
+/**
+ * Shape a question for a student taking an attempt (answers hidden)
+ *
+ * @param question - The question with its options
+ * @param attemptId - Seeds the option order so it is stable for the attempt
+ * @param shuffleOptions - Whether the quiz shuffles answer options
+ */
+export function formatQuestionForAttempt(
+  question: QuizQuestionWithOptions,
+  attemptId: string,
+  shuffleOptions: boolean
+) {
+  const options = question.quiz_question_options.map((option) => ({ id: option.id, text: option.text }));
+
+  return {
+    id: question.id,
+    type: question.type,
+    prompt: question.prompt,
+    points: question.points,
+    // True/false keeps its natural order
+    options:
+      shuffleOptions && question.type !== 'TRUE_FALSE'
+        ? shuffle(options, createSeededRandom(`${attemptId}:${question.id}`))
+        : options,
+  };
+}
+
+/**
+ * Build create data for a bank's questions and their options
+ *
+ * True/false questions get "True" and "False" options; order indexes follow
+ * the order of the input arrays.
+ */
+export function buildQuizQuestionsCreate(
+  questions: Array<{
+    type: QuizQuestionType;
+    prompt: string;
+    points: number;
+    options?: Array<{ text: string; isCorrect: boolean }>;
+    trueFalseAnswer?: boolean | null;
+    numericAnswer?: number | null;
+    numericTolerance?: number | null;
+    acceptedAnswers?: string[];
+    caseSensitive?: boolean;
+  }>
+): Prisma.quiz_questionsCreateWithoutQuestion_banksInput[] {
+  return questions.map((question, questionIndex) => {
+    const options =
+      question.type === 'TRUE_FALSE'
+        ? [
+            { text: 'True', isCorrect: question.trueFalseAnswer === true },
+            { text: 'False', isCorrect: question.trueFalseAnswer === false },
+          ]
+        : question.type === 'MULTIPLE_CHOICE' || question.type === 'MULTI_SELECT'
+          ? (question.options ?? [])
+          : [];
+
+    return {
+      id: randomUUID(),
+      type: question.type,
+      prompt: question.prompt,
+      points: question.points,
+      numericAnswer: question.type === 'NUMERIC' ? (question.numericAnswer ?? null) : null,
+      numericTolerance: question.type === 'NUMERIC' ? (question.numericTolerance ?? 0) : null,
+      acceptedAnswers: question.type === 'SHORT_ANSWER' ? (question.acceptedAnswers ?? []) : [],
+      caseSensitive: question.type === 'SHORT_ANSWER' ? Boolean(question.caseSensitive) : false,
+      orderIndex: questionIndex,
+      quiz_question_options: {
+        create: options.map((option, optionIndex) => ({
+          id: randomUUID(),
+          text: option.text,
+          isCorrect: option.isCorrect,
+          orderIndex: optionIndex,
+        })),
+      },
+    };
+  });
+}
+
+/**
+ * Prisma include that loads a content item's quiz with its backing assignment
+ */
+export const quizSettingsInclude = {
+  quizzes: {
+    include: {
+      assignments: {
+        select: { id: true, maxPoints: true, dueDate: true, maxAttempts: true, gradedAttemptPolicy: true },
+      },
+    },
+  },
+} satisfies Prisma.course_contentInclude;
+
+type QuizWithAssignment = Prisma.course_contentGetPayload<{ include: typeof quizSettingsInclude }>['quizzes'];
+
+/**
+ * Shape a content item's quiz settings for instructors
+ *
+ * @returns The settings, or null when the content is not a quiz
+ */
+export function formatQuizSettings(quiz: QuizWithAssignment) {
+  if (!quiz) return null;
+
+  return {
+    id: quiz.id,
+    assignmentId: quiz.assignmentId,
+    bankId: quiz.bankId,
+    questionCount: quiz.questionCount,
+    timeLimitMinutes: quiz.timeLimitMinutes,
+    shuffleQuestions: quiz.shuffleQuestions,
+    shuffleOptions: quiz.shuffleOptions,
+    maxPoints: quiz.assignments.maxPoints,
+    dueDate: quiz.assignments.dueDate,
+    maxAttempts: quiz.assignments.maxAttempts,
+    gradedAttemptPolicy: quiz.assignments.gradedAttemptPolicy,
+  };
+}
+
+/**
+ * Check that a question bank can be used for a quiz
+ *
+ * @param db - Prisma client or transaction client
+ * @param bankId - The chosen bank
+ * @param instructorId - The instructor creating or editing the quiz
+ * @returns An error message, or null when the bank is usable
+ */
+export async function checkQuizQuestionBank(
+  db: Prisma.TransactionClient,
+  bankId: string,
+  instructorId: string
+): Promise<string | null> {
+  const bank = await db.question_banks.findFirst({
+    where: { id: bankId, instructorId, deletedAt: null },
+    select: { _count: { select: { quiz_questions: { where: { deletedAt: null } } } } },
+  });
+
+  if (!bank) return 'Question bank not found';
+  if (bank._count.quiz_questions === 0) return 'The question bank has no questions';
+  return null;
+}
+
+/**
+ * Create the quiz and backing assignment for a new QUIZ content item
+ *
+ * The assignment is not attached to a module, so the quiz appears in the
+ * module once (as content) while its grades flow into the gradebook.
+ *
+ * @param db - Transaction client
+ * @param content - The newly created content item
+ * @param createdById - The instructor creating the quiz
+ * @param settings - The quiz settings
+ */
+export async function createQuizForContent(
+  db: Prisma.TransactionClient,
+  content: { id: string; title: string; isPublished: boolean; courseId: string },
+  createdById: string,
+  settings: QuizSettings
+) {
+  const now = new Date();
+
+  const assignment = await db.assignments.create({
+    data: {
+      id: randomUUID(),
+      title: content.title,
+      dueDate: settings.dueDate ? new Date(settings.dueDate) : null,
+      maxPoints: settings.maxPoints ?? 100,
+      isPublished: content.isPublished,
+      courseId: content.courseId,
+      createdById,
+      maxAttempts: settings.maxAttempts ?? 1,
+      gradedAttemptPolicy: settings.gradedAttemptPolicy ?? 'LATEST',
+      updatedAt: now,
+    },
+  });
+
+  return db.quizzes.create({
+    data: {
+      id: randomUUID(),
+      contentId: content.id,
+      assignmentId: assignment.id,
+      bankId: settings.bankId,
+      questionCount: settings.questionCount ?? null,
+      timeLimitMinutes: settings.timeLimitMinutes ?? null,
+      shuffleQuestions: settings.shuffleQuestions ?? false,
+      shuffleOptions: settings.shuffleOptions ?? false,
+      updatedAt: now,
+    },
+  });
+}
+
+/**
+ * Keep a quiz's backing assignment in step with its content item, and apply
+ * new settings when given
+ *
+ * @param db - Transaction client
+ * @param quiz - The content item's quiz
+ * @param content - The content item after the update
+ * @param settings - New quiz settings, if they were changed
+ */
+export async function updateQuizForContent(
+  db: Prisma.TransactionClient,
+  quiz: { id: string; assignmentId: string },
+  content: { title: string; isPublished: boolean },
+  settings?: QuizSettings
+) {
+  const now = new Date();
+
+  await db.assignments.update({
+    where: { id: quiz.assignmentId },
+    data: {
+      title: content.title,
+      isPublished: content.isPublished,
+      ...(settings && {
+        dueDate: settings.dueDate ? new Date(settings.dueDate) : null,
+        ...(settings.maxPoints !== undefined && { maxPoints: settings.maxPoints }),
+        ...(settings.maxAttempts !== undefined && { maxAttempts: settings.maxAttempts }),
+        ...(settings.gradedAttemptPolicy !== undefined && {
+          gradedAttemptPolicy: settings.gradedAttemptPolicy,
+        }),
+      }),
+      updatedAt: now,
+    },
+  });
+
+  if (settings) {
+    await db.quizzes.update({
+      where: { id: quiz.id },
+      data: {
+        bankId: settings.bankId,
+        questionCount: settings.questionCount ?? null,
+        timeLimitMinutes: settings.timeLimitMinutes ?? null,
+        shuffleQuestions: settings.shuffleQuestions ?? false,
+        shuffleOptions: settings.shuffleOptions ?? false,
+        updatedAt: now,
+      },
+    });
+  }
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
@@ -135,6 +135,18 @@ export function getPublicUrl(key: string): string {
   return `${baseUrl}/${key}`
 }
 
+/**
+ * Get the object key for a public CDN URL
+ *
+ * @param url - File URL
+ * @returns The object key, or null if the URL is not under the public CDN URL
+ */
+export function getKeyFromPublicUrl(url: string | null | undefined): string | null {
+  const baseUrl = getPublicUrlBase()
+  if (!url || !baseUrl || !url.startsWith(`${baseUrl}/`)) return null
+  return decodeURIComponent(url.slice(baseUrl.length + 1).split(/[?#]/)[0]) || null
+}
+
 /**
  * Upload a file directly to R2
  *
@@ -166,6 +178,64 @@ export async function uploadFile(
   }
 }
 
+/**
+ * Download a file from R2 into memory
+ *
+ * @param key - The object key (file path in bucket)
+ * @returns File content, or null if the file does not exist
+ */
+export async function downloadFile(key: string): Promise<Buffer | null> {
+  try {
+    const command = new GetObjectCommand({
+      Bucket: getBucketName(),
+      Key: key,
+    })
+
+    const response = await getR2Client().send(command)
+    if (!response.Body) return null
+
+    return Buffer.from(await response.Body.transformToByteArray())
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'NoSuchKey') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Open a file in R2 as a stream, for proxying it to the client
+ *
+ * @param key - The object key (file path in bucket)
+ * @returns The file stream with its content type and size, or null if the file does not exist
+ */
+export async function getFileStream(key: string): Promise<{
+  body: ReadableStream
+  contentType?: string
+  size?: number
+} | null> {
+  try {
+    const command = new GetObjectCommand({
+      Bucket: getBucketName(),
+      Key: key,
+    })
+
+    const response = await getR2Client().send(command)
+    if (!response.Body) return null
+
+    return {
+      body: response.Body.transformToWebStream(),
+      contentType: response.ContentType,
+      size: response.ContentLength,
+    }
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'NoSuchKey') {
+      return null
+    }
+    throw error
+  }
+}
+
 /**
  * Delete a file from R2
  *
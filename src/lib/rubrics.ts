@@ -0,0 +1,225 @@
+/**
+ * Rubric Scoring Utilities
+ *
+ * A rubric is a set of criteria, each with performance levels worth a number
+ * of points (e.g. "Thesis: Excellent 10 / Adequate 6 / Missing 0"). Grading a
+ * submission with a rubric picks a level (or enters custom points) for every
+ * criterion; the criterion scores are summed into the grade's `points`.
+ *
+ * These helpers are shared by the grading API (validation and totals), the
+ * grading panel and the student grade view.
+ *
+ * @module lib/rubrics
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Performance level within a criterion
+ */
+export interface RubricLevelDefinition {
+  id: string;
+  label: string;
+  points: number;
+}
+
+/**
+ * Criterion with its performance levels
+ */
+export interface RubricCriterionDefinition {
+  id: string;
+  title: string;
+  levels: RubricLevelDefinition[];
+}
+
+/**
+ * Score submitted for one criterion
+ */
+export interface RubricScoreInput {
+  criterionId: string;
+  /** Selected level; when set and points is omitted, the level's points are used */
+  levelId?: string | null;
+  points?: number | null;
+  comment?: string | null;
+}
+
+/**
+ * Validated score for one criterion
+ */
+export interface ResolvedRubricScore {
+  criterionId: string;
+  levelId: string | null;
+  points: number;
+  comment: string | null;
+}
+
+/**
+ * Result of scoring a rubric
+ */
+export type RubricScoringResult =
+  | { valid: true; scores: ResolvedRubricScore[]; totalPoints: number }
+  | { valid: false; error: string };
+
+/**
+ * Highest points achievable for a criterion
+ */
+export function getCriterionMaxPoints(criterion: { levels: Array<{ points: number }> }): number {
+  return criterion.levels.reduce((max, level) => Math.max(max, level.points), 0);
+}
+
+/**
+ * Highest points achievable for a whole rubric
+ */
+export function getRubricMaxPoints(criteria: Array<{ levels: Array<{ points: number }> }>): number {
+  return roundPoints(criteria.reduce((sum, criterion) => sum + getCriterionMaxPoints(criterion), 0));
+}
+
+/**
+ * Validate per-criterion scores against a rubric and sum them
+ *
+ * Every criterion must be scored exactly once. A score may reference a level
+ * (its points are used unless overridden) or give points directly; points
+ * must lie between 0 and the criterion's maximum.
+ *
+ * @param criteria - The rubric's criteria with levels
+ * @param inputs - Submitted scores
+ * @returns The resolved scores and their total, or the first validation error
+ */
+export function scoreRubric(
+  criteria: RubricCriterionDefinition[],
+  inputs: RubricScoreInput[]
+): RubricScoringResult {
+  const inputsByCriterion = new Map<string, RubricScoreInput>();
+
+  for (const input of inputs) {
+    const criterion = criteria.find((c) => c.id === input.criterionId);
+    if (!criterion) {
+      return { valid: false, error: 'Score references a criterion that is not in this rubric' };
+    }
+    if (inputsByCriterion.has(input.criterionId)) {
+      return { valid: false, error: `"${criterion.title}" is scored more than once` };
+    }
+    inputsByCriterion.set(input.criterionId, input);
+  }
+
+  const scores: ResolvedRubricScore[] = [];
+
+  for (const criterion of criteria) {
+    const input = inputsByCriterion.get(criterion.id);
+    if (!input) {
+      return { valid: false, error: `"${criterion.title}" has not been scored` };
+    }
+
+    let points = input.points ?? null;
+    let levelId: string | null = null;
+
+    if (input.levelId) {
+      const level = criterion.levels.find((l) => l.id === input.levelId);
+      if (!level) {
+        return { valid: false, error: `Invalid level selected for "${criterion.title}"` };
+      }
+      levelId = level.id;
+      points = points ?? level.points;
+    }
+
+    if (points === null) {
+      return { valid: false, error: `"${criterion.title}" has not been scored` };
+    }
+
+    const maxPoints = getCriterionMaxPoints(criterion);
+    if (points < 0 || points > maxPoints) {
+      return {
+        valid: false,
+        error: `Points for "${criterion.title}" must be between 0 and ${maxPoints}`,
+      };
+    }
+
+    scores.push({
+      criterionId: criterion.id,
+      levelId,
+      points,
+      comment: input.comment?.trim() || null,
+    });
+  }
+
+  return {
+    valid: true,
+    scores,
+    totalPoints: roundPoints(scores.reduce((sum, score) => sum + score.points, 0)),
+  };
+}
+
+/**
+ * Prisma include that loads a rubric's criteria and levels in display order
+ */
+export const rubricWithCriteriaInclude = {
+  rubric_criteria: {
+    orderBy: { orderIndex: 'asc' },
+    include: {
+      rubric_levels: { orderBy: { orderIndex: 'asc' } },
+    },
+  },
+} satisfies Prisma.rubricsInclude;
+
+type RubricWithCriteria = Prisma.rubricsGetPayload<{ include: typeof rubricWithCriteriaInclude }>;
+
+/**
+ * Shape a rubric record for API responses
+ */
+export function formatRubric(rubric: RubricWithCriteria) {
+  const criteria = rubric.rubric_criteria.map((criterion) => ({
+    id: criterion.id,
+    title: criterion.title,
+    description: criterion.description,
+    levels: criterion.rubric_levels.map((level) => ({
+      id: level.id,
+      label: level.label,
+      description: level.description,
+      points: level.points,
+    })),
+  }));
+
+  return {
+    id: rubric.id,
+    name: rubric.name,
+    description: rubric.description,
+    createdAt: rubric.createdAt,
+    updatedAt: rubric.updatedAt,
+    criteria,
+    maxPoints: getRubricMaxPoints(criteria),
+  };
+}
+
+/**
+ * Build nested create data for a rubric's criteria and levels
+ *
+ * Order indexes follow the order of the input arrays.
+ */
+export function buildRubricCriteriaCreate(
+  criteria: Array<{
+    title: string;
+    description?: string | null;
+    levels: Array<{ label: string; description?: string | null; points: number }>;
+  }>
+): Prisma.rubric_criteriaCreateWithoutRubricsInput[] {
+  return criteria.map((criterion, criterionIndex) => ({
+    id: randomUUID(),
+    title: criterion.title,
+    description: criterion.description || null,
+    orderIndex: criterionIndex,
+    rubric_levels: {
+      create: criterion.levels.map((level, levelIndex) => ({
+        id: randomUUID(),
+        label: level.label,
+        description: level.description || null,
+        points: level.points,
+        orderIndex: levelIndex,
+      })),
+    },
+  }));
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
@@ -0,0 +1,240 @@
+/**
+ * SCORM Package Storage and Tracking
+ *
+ * Unpacks uploaded SCORM zip packages to R2 and persists the `cmi` data the
+ * runtime commits for each student. Committed data updates module progress
+ * once the package is complete and, for graded packages, records the score
+ * as the single attempt of the backing assignment.
+ *
+ * @module lib/scorm-packages
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma, ScormVersion } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { downloadFile, uploadFile } from '@/lib/r2';
+import { readZipEntries, ZipError } from '@/lib/zip';
+import { syncGradeFromAttempts } from '@/lib/attempts';
+import { publishedNow } from '@/lib/publishing';
+import {
+  SCORM_MANIFEST_PATH,
+  ScormPackageError,
+  buildScormLaunchData,
+  getScormMimeType,
+  getScormPoints,
+  getScormTrackingState,
+  hasScormResult,
+  isScormComplete,
+  mergeCmiData,
+  parseScormManifest,
+  type CmiData,
+} from '@/lib/scorm';
+
+const UPLOAD_CONCURRENCY = 8;
+
+/**
+ * Package fields needed to launch and track it
+ */
+export interface ScormPackageForTracking {
+  id: string;
+  version: ScormVersion;
+  launchPath: string;
+  assignmentId: string | null;
+  assignments: { maxPoints: number; createdById: string; deletedAt: Date | null } | null;
+}
+
+/**
+ * Unpack an uploaded SCORM zip to its own prefix in R2
+ *
+ * @param packageKey - R2 key of the uploaded zip
+ * @returns The manifest details and where the files were stored
+ * @throws ScormPackageError when the zip is missing, invalid or has no manifest
+ */
+export async function unpackScormPackage(packageKey: string) {
+  const archive = await downloadFile(packageKey);
+  if (!archive) {
+    throw new ScormPackageError('The uploaded package was not found');
+  }
+
+  let entries;
+  try {
+    entries = readZipEntries(archive);
+  } catch (error) {
+    if (error instanceof ZipError) {
+      throw new ScormPackageError(error.message);
+    }
+    throw error;
+  }
+
+  const manifestEntry = entries.find((entry) => entry.path.toLowerCase() === SCORM_MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new ScormPackageError('The package has no imsmanifest.xml at its root');
+  }
+
+  const manifest = parseScormManifest(manifestEntry.data.toString('utf8'));
+  const launchFile = manifest.launchPath.split(/[?#]/)[0];
+  if (!entries.some((entry) => entry.path === decodeURIComponent(launchFile))) {
+    throw new ScormPackageError(`The package launch file ${launchFile} is missing`);
+  }
+
+  const id = randomUUID();
+  const storagePrefix = `scorm/${id}`;
+
+  for (let i = 0; i < entries.length; i += UPLOAD_CONCURRENCY) {
+    await Promise.all(
+      entries
+        .slice(i, i + UPLOAD_CONCURRENCY)
+        .map((entry) => uploadFile(`${storagePrefix}/${entry.path}`, entry.data, getScormMimeType(entry.path)))
+    );
+  }
+
+  return { ...manifest, id, storagePrefix, packageKey };
+}
+
+/**
+ * Prisma select for the package fields used by `ScormPackageForTracking`
+ */
+export const scormTrackingSelect = {
+  id: true,
+  version: true,
+  launchPath: true,
+  assignmentId: true,
+  assignments: { select: { maxPoints: true, createdById: true, deletedAt: true } },
+} satisfies Prisma.scorm_packagesSelect;
+
+/**
+ * Find a published SCORM package in a module
+ *
+ * @returns The content item with its package, or null
+ */
+export async function findModuleScorm(courseId: string, moduleId: string, contentId: string) {
+  return prisma.course_content.findFirst({
+    where: {
+      id: contentId,
+      moduleId,
+      courseId,
+      type: 'SCORM',
+      ...publishedNow(),
+      deletedAt: null,
+    },
+    select: {
+      id: true,
+      title: true,
+      scorm_packages: { select: scormTrackingSelect },
+    },
+  });
+}
+
+/**
+ * Load the `cmi` data to start a student's session with
+ */
+export async function getScormLaunchData(
+  scormPackage: ScormPackageForTracking,
+  student: { id: string; name: string }
+) {
+  const tracking = await prisma.scorm_tracking.findUnique({
+    where: { packageId_studentId: { packageId: scormPackage.id, studentId: student.id } },
+  });
+
+  return {
+    tracking,
+    cmi: buildScormLaunchData(
+      scormPackage.version,
+      tracking && {
+        cmiData: tracking.cmiData as CmiData,
+        totalTimeSeconds: tracking.totalTimeSeconds,
+        suspended: tracking.suspended,
+      },
+      student
+    ),
+  };
+}
+
+/**
+ * Store `cmi` data committed by the runtime
+ *
+ * When the session finishes, its time is added to the student's total. A
+ * graded package records its score once the SCO reports a result.
+ *
+ * @param scormPackage - The package
+ * @param studentId - The student
+ * @param values - The committed `cmi` values
+ * @param finished - Whether the SCO ended the session
+ * @returns The updated tracking, whether the package is complete and the
+ *   resulting grade (if any)
+ */
+export async function commitScormTracking(
+  scormPackage: ScormPackageForTracking,
+  studentId: string,
+  values: CmiData,
+  finished: boolean
+) {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.scorm_tracking.findUnique({
+      where: { packageId_studentId: { packageId: scormPackage.id, studentId } },
+    });
+
+    const merged = mergeCmiData(scormPackage.version, (existing?.cmiData as CmiData) ?? {}, values);
+    const state = getScormTrackingState(scormPackage.version, merged.cmiData);
+    const complete = isScormComplete(state);
+
+    const data = {
+      cmiData: merged.cmiData,
+      completionStatus: state.completionStatus,
+      successStatus: state.successStatus,
+      scoreScaled: state.scoreScaled,
+      totalTimeSeconds: (existing?.totalTimeSeconds ?? 0) + (finished ? merged.sessionSeconds : 0),
+      ...(finished && { suspended: merged.suspended }),
+      completedAt: existing?.completedAt ?? (complete ? now : null),
+      updatedAt: now,
+    };
+
+    const tracking = existing
+      ? await tx.scorm_tracking.update({ where: { id: existing.id }, data })
+      : await tx.scorm_tracking.create({
+          data: { id: randomUUID(), packageId: scormPackage.id, studentId, ...data },
+        });
+
+    const assignment = scormPackage.assignments;
+    if (!scormPackage.assignmentId || !assignment || assignment.deletedAt || !hasScormResult(state)) {
+      return { tracking, complete, grade: null };
+    }
+
+    const points = getScormPoints(state.scoreScaled!, assignment.maxPoints);
+
+    await tx.submissions.upsert({
+      where: {
+        assignmentId_studentId_attemptNumber: {
+          assignmentId: scormPackage.assignmentId,
+          studentId,
+          attemptNumber: 1,
+        },
+      },
+      create: {
+        id: randomUUID(),
+        assignmentId: scormPackage.assignmentId,
+        studentId,
+        attemptNumber: 1,
+        submittedAt: now,
+        points,
+        gradedAt: now,
+      },
+      update: { points, gradedAt: now },
+    });
+
+    // Scores reported by the package are recorded against the package's author
+    const sync = await syncGradeFromAttempts(
+      {
+        assignmentId: scormPackage.assignmentId,
+        studentId,
+        gradedById: assignment.createdById,
+        source: 'SCORM',
+      },
+      tx
+    );
+
+    return { tracking, complete, grade: sync.grade };
+  });
+}
@@ -0,0 +1,476 @@
+/**
+ * SCORM Runtime API
+ *
+ * Browser-side implementation of the API object a SCO looks up on its own or
+ * a parent window: `window.API` for SCORM 1.2 and `window.API_1484_11` for
+ * SCORM 2004. The SCO reads and writes `cmi` data model elements
+ * synchronously; committed values are handed to `onCommit`, which persists
+ * them to the server.
+ *
+ * Packages run sandboxed, away from the LMS origin, so the SCO talks to a
+ * copy of the runtime inside the package that reports to the player window
+ * (see `getScormBridgeScript`).
+ *
+ * Data model checks cover what affects tracking (read-only and write-only
+ * elements, status vocabularies, scores, times and collection indexes).
+ * Other `cmi` elements are stored as given.
+ *
+ * @module lib/scorm-runtime
+ */
+
+import type { ScormVersion } from '@prisma/client';
+
+type CmiValues = Record<string, string>;
+
+export interface ScormRuntimeOptions {
+  version: ScormVersion;
+  initialData: CmiValues;
+  /** Called with the writable `cmi` values on commit and when the session ends */
+  onCommit: (values: CmiValues, finished: boolean) => void;
+}
+
+export interface Scorm12Api {
+  LMSInitialize(parameter: string): string;
+  LMSFinish(parameter: string): string;
+  LMSGetValue(element: string): string;
+  LMSSetValue(element: string, value: string): string;
+  LMSCommit(parameter: string): string;
+  LMSGetLastError(): string;
+  LMSGetErrorString(errorCode: string): string;
+  LMSGetDiagnostic(errorCode: string): string;
+}
+
+export interface Scorm2004Api {
+  Initialize(parameter: string): string;
+  Terminate(parameter: string): string;
+  GetValue(element: string): string;
+  SetValue(element: string, value: string): string;
+  Commit(parameter: string): string;
+  GetLastError(): string;
+  GetErrorString(errorCode: string): string;
+  GetDiagnostic(errorCode: string): string;
+}
+
+/**
+ * Define the runtime factory
+ *
+ * Everything the runtime needs is declared inside this function, so its
+ * source can also run on its own inside a sandboxed package (see
+ * `getScormRuntimeSource`). For the same reason it is not instrumented for
+ * test coverage, which would add references to counters outside it.
+ */
+/* istanbul ignore next */
+function defineScormRuntime() {
+  /**
+   * Error codes, named after the SCORM 2004 meanings; SCORM 1.2 codes differ
+   */
+  const ERRORS = {
+    SCORM_12: {
+      none: 0,
+      general: 101,
+      alreadyInitialized: 101,
+      terminated: 101,
+      invalidArgument: 201,
+      getFailure: 201,
+      noChildren: 202,
+      undefinedElement: 401,
+      notInitializedValue: 0,
+      readOnly: 403,
+      writeOnly: 404,
+      typeMismatch: 405,
+      setFailure: 201,
+    },
+    SCORM_2004: {
+      none: 0,
+      general: 101,
+      alreadyInitialized: 103,
+      terminated: 104,
+      invalidArgument: 201,
+      getFailure: 301,
+      noChildren: 301,
+      undefinedElement: 401,
+      notInitializedValue: 403,
+      readOnly: 404,
+      writeOnly: 405,
+      typeMismatch: 406,
+      setFailure: 351,
+    },
+  } as const;
+
+  /**
+   * SCORM 2004 codes for calls made before Initialize / after Terminate
+   * (SCORM 1.2 uses 301 and 101)
+   */
+  const CALL_STATE_ERRORS_2004 = {
+    terminate: { before: 112, after: 113 },
+    get: { before: 122, after: 123 },
+    set: { before: 132, after: 133 },
+    commit: { before: 142, after: 143 },
+  } as const;
+
+  const ERROR_STRINGS: Record<number, string> = {
+    0: 'No error',
+    101: 'General exception',
+    103: 'Already initialized',
+    104: 'Content instance terminated',
+    112: 'Termination before initialization',
+    113: 'Termination after termination',
+    122: 'Retrieve data before initialization',
+    123: 'Retrieve data after termination',
+    132: 'Store data before initialization',
+    133: 'Store data after termination',
+    142: 'Commit before initialization',
+    143: 'Commit after termination',
+    201: 'Invalid argument error',
+    202: 'Element cannot have children',
+    301: 'Not initialized',
+    351: 'General set failure',
+    401: 'Not implemented error',
+    403: 'Element is read only',
+    404: 'Element is write only',
+    405: 'Incorrect data type',
+    406: 'Data model element type mismatch',
+  };
+
+  const ERROR_STRINGS_2004: Record<number, string> = {
+    ...ERROR_STRINGS,
+    301: 'General get failure',
+    401: 'Undefined data model element',
+    403: 'Data model element value not initialized',
+    404: 'Data model element is read only',
+    405: 'Data model element is write only',
+  };
+
+  const CHILDREN: Record<ScormVersion, CmiValues> = {
+    SCORM_12: {
+      'cmi.core._children':
+        'student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time',
+      'cmi.core.score._children': 'raw,min,max',
+      'cmi.objectives._children': 'id,score,status',
+      'cmi.student_data._children': 'mastery_score,max_time_allowed,time_limit_action',
+      'cmi.student_preference._children': 'audio,language,speed,text',
+      'cmi.interactions._children':
+        'id,objectives,time,type,correct_responses,weighting,student_response,result,latency',
+    },
+    SCORM_2004: {
+      'cmi._version': '1.0',
+      'cmi.score._children': 'scaled,raw,min,max',
+      'cmi.objectives._children': 'id,score,success_status,completion_status,progress_measure,description',
+      'cmi.interactions._children':
+        'id,type,objectives,timestamp,correct_responses,weighting,learner_response,result,latency,description',
+      'cmi.learner_preference._children': 'audio_level,language,delivery_speed,audio_captioning',
+      'cmi.comments_from_learner._children': 'comment,location,timestamp',
+      'cmi.comments_from_lms._children': 'comment,location,timestamp',
+    },
+  };
+
+  const READ_ONLY: Record<ScormVersion, RegExp> = {
+    SCORM_12:
+      /^cmi\.(core\.(student_id|student_name|credit|entry|total_time|lesson_mode)|launch_data|comments_from_lms|student_data\..+)$|\._(children|count)$/,
+    SCORM_2004:
+      /^cmi\.(_version|learner_id|learner_name|credit|mode|entry|total_time|launch_data|completion_threshold|scaled_passing_score|max_time_allowed|time_limit_action|comments_from_lms\..+)$|\._(children|count)$/,
+  };
+
+  const WRITE_ONLY: Record<ScormVersion, RegExp> = {
+    SCORM_12: /^cmi\.core\.(exit|session_time)$/,
+    SCORM_2004: /^cmi\.(exit|session_time)$/,
+  };
+
+  const COLLECTIONS: Record<ScormVersion, string[]> = {
+    SCORM_12: ['cmi.objectives', 'cmi.interactions'],
+    SCORM_2004: ['cmi.objectives', 'cmi.interactions', 'cmi.comments_from_learner', 'cmi.comments_from_lms'],
+  };
+
+  const VOCABULARIES: Record<ScormVersion, Record<string, string[]>> = {
+    SCORM_12: {
+      'cmi.core.lesson_status': ['passed', 'completed', 'failed', 'incomplete', 'browsed'],
+      'cmi.core.exit': ['time-out', 'suspend', 'logout', ''],
+    },
+    SCORM_2004: {
+      'cmi.completion_status': ['completed', 'incomplete', 'not attempted', 'unknown'],
+      'cmi.success_status': ['passed', 'failed', 'unknown'],
+      'cmi.exit': ['timeout', 'suspend', 'logout', 'normal', ''],
+    },
+  };
+
+  const SCORE_ELEMENT = /^cmi\.(core\.)?score\.(raw|min|max)$|^cmi\.objectives\.\d+\.score\.(raw|min|max)$/;
+  const SCALED_SCORE_ELEMENT = /^cmi\.(objectives\.\d+\.)?score\.scaled$/;
+  const SCORM_12_TIMESPAN = /^\d{2,4}:\d{2}:\d{2}(\.\d{1,2})?$/;
+  const SCORM_2004_DURATION = /^P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d{1,2})?S)?)?$/;
+
+  /**
+   * Create the runtime API for a SCO session
+   *
+   * @returns The API object to expose to the SCO, and a `terminate` function
+   *   that ends the session (committing its data) if the SCO did not
+   */
+  function createScormRuntime(options: ScormRuntimeOptions) {
+    const { version } = options;
+    const errors = ERRORS[version];
+    const data: CmiValues = { ...options.initialData };
+
+    let state: 'new' | 'running' | 'terminated' = 'new';
+    let lastError: number = errors.none;
+
+    const fail = (code: number, result = 'false') => {
+      lastError = code;
+      return result;
+    };
+
+    const callStateError = (call: keyof typeof CALL_STATE_ERRORS_2004): number | null => {
+      if (state === 'running') return null;
+      if (version === 'SCORM_12') return state === 'new' ? 301 : 101;
+      return CALL_STATE_ERRORS_2004[call][state === 'new' ? 'before' : 'after'];
+    };
+
+    const writableValues = (): CmiValues =>
+      Object.fromEntries(
+        Object.entries(data).filter(([element]) => element.startsWith('cmi.') && !READ_ONLY[version].test(element))
+      );
+
+    const countOf = (collection: string): number => {
+      const pattern = new RegExp(`^${collection.replace(/\./g, '\\.')}\\.(\\d+)\\.`);
+      let count = 0;
+      for (const element of Object.keys(data)) {
+        const match = element.match(pattern);
+        if (match) count = Math.max(count, Number(match[1]) + 1);
+      }
+      return count;
+    };
+
+    const initialize = (parameter: string): string => {
+      if (parameter !== '') return fail(errors.invalidArgument);
+      if (state === 'running') return fail(errors.alreadyInitialized);
+      if (state === 'terminated') return fail(errors.terminated);
+
+      state = 'running';
+      lastError = errors.none;
+      return 'true';
+    };
+
+    const terminate = (parameter: string): string => {
+      if (parameter !== '') return fail(errors.invalidArgument);
+      const stateError = callStateError('terminate');
+      if (stateError !== null) return fail(stateError);
+
+      state = 'terminated';
+      lastError = errors.none;
+      options.onCommit(writableValues(), true);
+      return 'true';
+    };
+
+    const commit = (parameter: string): string => {
+      if (parameter !== '') return fail(errors.invalidArgument);
+      const stateError = callStateError('commit');
+      if (stateError !== null) return fail(stateError);
+
+      lastError = errors.none;
+      options.onCommit(writableValues(), false);
+      return 'true';
+    };
+
+    const getValue = (element: string): string => {
+      const stateError = callStateError('get');
+      if (stateError !== null) return fail(stateError, '');
+      if (!element) return fail(errors.getFailure, '');
+
+      lastError = errors.none;
+
+      if (element in CHILDREN[version]) return CHILDREN[version][element];
+
+      const collection = COLLECTIONS[version].find((name) => element === `${name}._count`);
+      if (collection) return String(countOf(collection));
+
+      if (element.endsWith('._children')) return fail(errors.noChildren, '');
+      if (!element.startsWith('cmi.') && !element.startsWith('adl.nav.')) {
+        return fail(errors.undefinedElement, '');
+      }
+      if (WRITE_ONLY[version].test(element)) return fail(errors.writeOnly, '');
+
+      if (element in data) return data[element];
+      return fail(errors.notInitializedValue, '');
+    };
+
+    const setValue = (element: string, rawValue: string): string => {
+      const stateError = callStateError('set');
+      if (stateError !== null) return fail(stateError);
+      if (!element) return fail(errors.setFailure);
+
+      const value = String(rawValue);
+
+      if (!element.startsWith('cmi.') && !element.startsWith('adl.nav.')) {
+        return fail(errors.undefinedElement);
+      }
+      if (READ_ONLY[version].test(element) || element in CHILDREN[version]) return fail(errors.readOnly);
+
+      const vocabulary = VOCABULARIES[version][element];
+      if (vocabulary && !vocabulary.includes(value)) return fail(errors.typeMismatch);
+
+      if (SCORE_ELEMENT.test(element) && !(version === 'SCORM_12' && value === '') && !isNumber(value)) {
+        return fail(errors.typeMismatch);
+      }
+      if (SCALED_SCORE_ELEMENT.test(element) && (!isNumber(value) || Math.abs(Number(value)) > 1)) {
+        return fail(errors.typeMismatch);
+      }
+      if (element === 'cmi.core.session_time' && !SCORM_12_TIMESPAN.test(value)) {
+        return fail(errors.typeMismatch);
+      }
+      if (element === 'cmi.session_time' && !SCORM_2004_DURATION.test(value)) {
+        return fail(errors.typeMismatch);
+      }
+
+      // Collection entries must be added in order
+      for (const collection of COLLECTIONS[version]) {
+        const match = element.match(new RegExp(`^${collection.replace(/\./g, '\\.')}\\.(\\d+)\\.`));
+        if (match && Number(match[1]) > countOf(collection)) {
+          return fail(errors.setFailure);
+        }
+      }
+
+      data[element] = value;
+      lastError = errors.none;
+      return 'true';
+    };
+
+    const getErrorString = (errorCode: string): string =>
+      (version === 'SCORM_12' ? ERROR_STRINGS : ERROR_STRINGS_2004)[Number(errorCode)] ?? '';
+
+    const api: Scorm12Api | Scorm2004Api =
+      version === 'SCORM_12'
+        ? {
+            LMSInitialize: initialize,
+            LMSFinish: terminate,
+            LMSGetValue: getValue,
+            LMSSetValue: setValue,
+            LMSCommit: commit,
+            LMSGetLastError: () => String(lastError),
+            LMSGetErrorString: getErrorString,
+            LMSGetDiagnostic: (errorCode: string) => getErrorString(errorCode || String(lastError)),
+          }
+        : {
+            Initialize: initialize,
+            Terminate: terminate,
+            GetValue: getValue,
+            SetValue: setValue,
+            Commit: commit,
+            GetLastError: () => String(lastError),
+            GetErrorString: getErrorString,
+            GetDiagnostic: (errorCode: string) => getErrorString(errorCode || String(lastError)),
+          };
+
+    return {
+      api,
+      /** Global the SCO looks for on its parent window */
+      globalName: version === 'SCORM_12' ? 'API' : 'API_1484_11',
+      isRunning: () => state === 'running',
+      terminate: () => {
+        if (state === 'running') terminate('');
+      },
+    };
+  }
+
+  function isNumber(value: string): boolean {
+    return value.trim() !== '' && Number.isFinite(Number(value));
+  }
+
+  return createScormRuntime;
+}
+
+/**
+ * Create the runtime API for a SCO session
+ */
+export const createScormRuntime = defineScormRuntime();
+
+/**
+ * JavaScript source of an expression that evaluates to `createScormRuntime`
+ */
+export function getScormRuntimeSource(): string {
+  return `(${defineScormRuntime.toString()})()`;
+}
+
+// ============================================
+// Sandbox Bridge
+// ============================================
+
+/**
+ * Calls that change the session; the bridge replays them in the player window
+ */
+export const SCORM_SYNCED_CALLS = [
+  'LMSInitialize',
+  'LMSFinish',
+  'LMSSetValue',
+  'LMSCommit',
+  'Initialize',
+  'Terminate',
+  'SetValue',
+  'Commit',
+];
+
+/**
+ * What the player hands the bridge through the frame's `window.name`
+ */
+export interface ScormBridgeSession {
+  type: 'scorm-session';
+  version: ScormVersion;
+  data: CmiValues;
+  /** Origin of the player window, the only target of bridge messages */
+  origin: string;
+}
+
+/**
+ * A runtime call the bridge reports to the player window
+ */
+export interface ScormBridgeMessage {
+  type: 'scorm-call';
+  method: string;
+  args: (string | undefined)[];
+}
+
+/**
+ * Script that exposes the runtime API inside a sandboxed package
+ *
+ * Package files are served in a sandbox with an opaque origin, so a SCO
+ * cannot reach an API object on the player window. Instead this script runs
+ * a runtime in the package's own window, answering the SCO's synchronous
+ * calls, and posts every call that changes the session to the player, which
+ * replays it on its own runtime to save the data. The session starts from
+ * the data in `window.name`, which the bridge keeps up to date so later
+ * pages of a package pick up where the previous page left off.
+ */
+export function getScormBridgeScript(): string {
+  return `(function () {
+  var session;
+  try {
+    session = JSON.parse(window.name);
+  } catch (error) {
+    return;
+  }
+  if (!session || session.type !== 'scorm-session') return;
+
+  var createScormRuntime = ${getScormRuntimeSource()};
+  var synced = ${JSON.stringify(SCORM_SYNCED_CALLS)};
+  var runtime = createScormRuntime({ version: session.version, initialData: session.data, onCommit: function () {} });
+  var api = {};
+
+  Object.keys(runtime.api).forEach(function (method) {
+    api[method] = function () {
+      var args = Array.prototype.slice.call(arguments, 0, 2).map(function (arg) {
+        return arg === undefined || arg === null ? undefined : String(arg);
+      });
+      var result = runtime.api[method].apply(runtime.api, args);
+
+      if (result === 'true' && synced.indexOf(method) !== -1) {
+        if (/SetValue$/.test(method)) {
+          session.data[args[0]] = String(args[1]);
+          window.name = JSON.stringify(session);
+        }
+        window.parent.postMessage({ type: 'scorm-call', method: method, args: args }, session.origin);
+      }
+      return result;
+    };
+  });
+
+  window[runtime.globalName] = api;
+})();
+`;
+}
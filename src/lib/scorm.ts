@@ -0,0 +1,702 @@
+/**
+ * SCORM Utilities
+ *
+ * A SCORM content item is a SCORM 1.2 or 2004 zip package unpacked to R2
+ * (see `lib/scorm-packages`). Package files are instructor-authored HTML and
+ * JavaScript, so they are served sandboxed: the browser gives them an opaque
+ * origin without the viewer's cookies or access to the LMS pages. Requests
+ * for them are authorized by a signed token in the URL instead of the
+ * session, and the SCO reaches the runtime API through a bridge script (see
+ * `lib/scorm-runtime`). The `cmi` data it reports is stored per student in
+ * `scorm_tracking`.
+ *
+ * Only the first launchable item of the default organization is played;
+ * multi-SCO sequencing is not supported.
+ *
+ * A package may be graded, in which case it is backed by an assignment (like
+ * quizzes) and the reported score is recorded as its single attempt.
+ *
+ * @module lib/scorm
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type {
+  Prisma,
+  ScormCompletionStatus,
+  ScormSuccessStatus,
+  ScormVersion,
+} from '@prisma/client';
+import { decodeXml } from '@/lib/xml';
+
+/**
+ * Flat map of `cmi` data model elements to their values
+ */
+export type CmiData = Record<string, string>;
+
+/**
+ * Launch details read from a package's imsmanifest.xml
+ */
+export interface ScormManifest {
+  version: ScormVersion;
+  title: string | null;
+  launchPath: string;
+}
+
+/**
+ * Completion, success and score derived from a package's `cmi` data
+ */
+export interface ScormTrackingState {
+  completionStatus: ScormCompletionStatus;
+  successStatus: ScormSuccessStatus;
+  scoreScaled: number | null;
+}
+
+/**
+ * SCORM settings of a content item
+ */
+export interface ScormSettings {
+  packageKey?: string;
+  maxPoints?: number | null;
+}
+
+/**
+ * Error raised for packages that cannot be used
+ */
+export class ScormPackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScormPackageError';
+  }
+}
+
+export const SCORM_MANIFEST_PATH = 'imsmanifest.xml';
+
+/**
+ * Elements that are recalculated for every session instead of being restored
+ */
+const SESSION_ELEMENTS = new Set([
+  'cmi.core.session_time',
+  'cmi.core.exit',
+  'cmi.core.entry',
+  'cmi.core.total_time',
+  'cmi.session_time',
+  'cmi.exit',
+  'cmi.entry',
+  'cmi.total_time',
+]);
+
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  css: 'text/css',
+  json: 'application/json',
+  xml: 'application/xml',
+  xsd: 'application/xml',
+  txt: 'text/plain',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  vtt: 'text/vtt',
+  pdf: 'application/pdf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  swf: 'application/x-shockwave-flash',
+};
+
+/**
+ * MIME type to serve a package file with, based on its extension
+ */
+export function getScormMimeType(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Read the SCORM version, title and launch file from imsmanifest.xml
+ *
+ * The launch file is the resource of the first item with an `identifierref`
+ * in the default organization, falling back to the first SCO resource.
+ *
+ * @throws ScormPackageError when no launchable resource is found
+ */
+export function parseScormManifest(xml: string): ScormManifest {
+  const manifest = xml.replace(/<!--[\s\S]*?-->/g, '');
+
+  const organizationsTag = findTags(manifest, 'organizations')[0];
+  const defaultOrganization = organizationsTag?.attributes.default;
+  const organizations = findElements(manifest, 'organization');
+  const organization =
+    organizations.find((org) => defaultOrganization && org.attributes.identifier === defaultOrganization) ??
+    organizations[0];
+
+  const resourcesBase = findTags(manifest, 'resources')[0]?.attributes['xml:base'] ?? '';
+  const resources = findTags(manifest, 'resource');
+
+  let launchPath: string | null = null;
+
+  if (organization) {
+    const items = findTags(organization.inner, 'item');
+    for (const item of items) {
+      const resource = resources.find((r) => r.attributes.identifier === item.attributes.identifierref);
+      if (resource?.attributes.href) {
+        launchPath = joinLaunchPath(
+          resourcesBase + (resource.attributes['xml:base'] ?? '') + resource.attributes.href,
+          item.attributes.parameters
+        );
+        break;
+      }
+    }
+  }
+
+  if (!launchPath) {
+    const sco = resources.find(
+      (r) => r.attributes.href && getScormType(r.attributes)?.toLowerCase() === 'sco'
+    );
+    if (sco) {
+      launchPath = resourcesBase + (sco.attributes['xml:base'] ?? '') + sco.attributes.href;
+    }
+  }
+
+  if (!launchPath) {
+    throw new ScormPackageError('The package manifest has no launchable resource');
+  }
+
+  const titleMatch = organization?.inner.match(/<(?:[\w-]+:)?title>([\s\S]*?)<\/(?:[\w-]+:)?title>/);
+
+  return {
+    version: detectScormVersion(manifest),
+    title: titleMatch ? decodeXml(titleMatch[1].trim()) || null : null,
+    launchPath: launchPath.replace(/^\.?\//, ''),
+  };
+}
+
+/**
+ * Derive completion, success and score from a package's `cmi` data
+ *
+ * SCORM 1.2 reports a single `lesson_status`: passed and failed also mean the
+ * lesson was completed. Scores are scaled to 0–1, using `score.scaled` in
+ * SCORM 2004 when present and otherwise `raw` between `min` (default 0) and
+ * `max` (default 100).
+ */
+export function getScormTrackingState(version: ScormVersion, cmi: CmiData): ScormTrackingState {
+  const prefix = version === 'SCORM_12' ? 'cmi.core.score' : 'cmi.score';
+  const scaled = version === 'SCORM_2004' ? parseNumber(cmi['cmi.score.scaled']) : null;
+  const raw = parseNumber(cmi[`${prefix}.raw`]);
+  const min = parseNumber(cmi[`${prefix}.min`]) ?? 0;
+  const max = parseNumber(cmi[`${prefix}.max`]) ?? 100;
+
+  let scoreScaled: number | null = null;
+  if (scaled !== null) {
+    scoreScaled = clamp(scaled);
+  } else if (raw !== null && max > min) {
+    scoreScaled = clamp((raw - min) / (max - min));
+  }
+
+  if (version === 'SCORM_12') {
+    const status = cmi['cmi.core.lesson_status'];
+    switch (status) {
+      case 'passed':
+        return { completionStatus: 'COMPLETED', successStatus: 'PASSED', scoreScaled };
+      case 'failed':
+        return { completionStatus: 'COMPLETED', successStatus: 'FAILED', scoreScaled };
+      case 'completed':
+        return { completionStatus: 'COMPLETED', successStatus: 'UNKNOWN', scoreScaled };
+      case 'incomplete':
+      case 'browsed':
+        return { completionStatus: 'INCOMPLETE', successStatus: 'UNKNOWN', scoreScaled };
+      default:
+        return { completionStatus: 'NOT_ATTEMPTED', successStatus: 'UNKNOWN', scoreScaled };
+    }
+  }
+
+  const completion = cmi['cmi.completion_status'];
+  const success = cmi['cmi.success_status'];
+
+  return {
+    completionStatus:
+      completion === 'completed'
+        ? 'COMPLETED'
+        : completion === 'incomplete'
+          ? 'INCOMPLETE'
+          : completion === 'unknown'
+            ? 'UNKNOWN'
+            : 'NOT_ATTEMPTED',
+    successStatus: success === 'passed' ? 'PASSED' : success === 'failed' ? 'FAILED' : 'UNKNOWN',
+    scoreScaled,
+  };
+}
+
+/**
+ * Whether the package counts as complete for module progress
+ */
+export function isScormComplete(state: ScormTrackingState): boolean {
+  return state.completionStatus === 'COMPLETED' || state.successStatus === 'PASSED';
+}
+
+/**
+ * Whether the package has reported a final score that should be graded
+ */
+export function hasScormResult(state: ScormTrackingState): boolean {
+  return (
+    state.scoreScaled !== null &&
+    (state.completionStatus === 'COMPLETED' || state.successStatus !== 'UNKNOWN')
+  );
+}
+
+/**
+ * Convert a scaled score (0–1) to assignment points
+ */
+export function getScormPoints(scoreScaled: number, maxPoints: number): number {
+  return Math.round(clamp(scoreScaled) * maxPoints * 100) / 100;
+}
+
+/**
+ * Parse a SCORM time value into seconds
+ *
+ * Accepts SCORM 1.2 `HHHH:MM:SS.SS` and SCORM 2004 ISO 8601 durations
+ * (`P[nY][nM][nD][T[nH][nM][nS]]`, years and months as 365 and 30 days).
+ *
+ * @returns The duration in whole seconds, or 0 when the value is invalid
+ */
+export function parseScormDuration(value: string | undefined): number {
+  if (!value) return 0;
+
+  const timespan = value.match(/^(\d{2,4}):(\d{2}):(\d{2})(\.\d{1,2})?$/);
+  if (timespan) {
+    return (
+      parseInt(timespan[1]) * 3600 +
+      parseInt(timespan[2]) * 60 +
+      Math.round(parseFloat(timespan[3] + (timespan[4] ?? '')))
+    );
+  }
+
+  const duration = value.match(
+    /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (duration && value !== 'P' && !value.endsWith('T')) {
+    const [, years, months, days, hours, minutes, seconds] = duration;
+    return Math.round(
+      (Number(years ?? 0) * 365 + Number(months ?? 0) * 30 + Number(days ?? 0)) * 86400 +
+        Number(hours ?? 0) * 3600 +
+        Number(minutes ?? 0) * 60 +
+        Number(seconds ?? 0)
+    );
+  }
+
+  return 0;
+}
+
+/**
+ * Format seconds as a SCORM time value for the given version
+ */
+export function formatScormDuration(version: ScormVersion, totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (version === 'SCORM_12') {
+    return [
+      String(hours).padStart(4, '0'),
+      String(minutes).padStart(2, '0'),
+      String(seconds).padStart(2, '0'),
+    ].join(':');
+  }
+
+  return `PT${hours}H${minutes}M${seconds}S`;
+}
+
+/**
+ * Merge values committed by the runtime into the stored `cmi` data
+ *
+ * Session elements (time, entry and exit) are not stored; the session time is
+ * returned so it can be added to the total when the session ends.
+ *
+ * @returns The data to store, the session time in seconds and whether the
+ *   learner suspended the session
+ */
+export function mergeCmiData(version: ScormVersion, stored: CmiData, committed: CmiData) {
+  const cmiData: CmiData = { ...stored };
+
+  for (const [element, value] of Object.entries(committed)) {
+    if (!SESSION_ELEMENTS.has(element)) {
+      cmiData[element] = value;
+    }
+  }
+
+  const sessionTime = version === 'SCORM_12' ? committed['cmi.core.session_time'] : committed['cmi.session_time'];
+  const exit = version === 'SCORM_12' ? committed['cmi.core.exit'] : committed['cmi.exit'];
+
+  return {
+    cmiData,
+    sessionSeconds: parseScormDuration(sessionTime),
+    suspended: exit === 'suspend',
+  };
+}
+
+/**
+ * Build the `cmi` data handed to the runtime when a session starts: the
+ * stored learner data plus the read-only elements the LMS provides
+ *
+ * @param version - The package's SCORM version
+ * @param tracking - The student's stored tracking, if any
+ * @param learner - The student
+ */
+export function buildScormLaunchData(
+  version: ScormVersion,
+  tracking: { cmiData: CmiData; totalTimeSeconds: number; suspended: boolean } | null,
+  learner: { id: string; name: string }
+): CmiData {
+  const data: CmiData = { ...(tracking?.cmiData ?? {}) };
+  const totalTime = formatScormDuration(version, tracking?.totalTimeSeconds ?? 0);
+
+  if (version === 'SCORM_12') {
+    return {
+      ...data,
+      'cmi.core.student_id': learner.id,
+      'cmi.core.student_name': learner.name,
+      'cmi.core.credit': 'credit',
+      'cmi.core.lesson_mode': 'normal',
+      'cmi.core.entry': tracking?.suspended ? 'resume' : tracking ? '' : 'ab-initio',
+      'cmi.core.total_time': totalTime,
+      'cmi.core.lesson_status': data['cmi.core.lesson_status'] ?? 'not attempted',
+    };
+  }
+
+  return {
+    ...data,
+    'cmi.learner_id': learner.id,
+    'cmi.learner_name': learner.name,
+    'cmi.credit': 'credit',
+    'cmi.mode': 'normal',
+    'cmi.entry': tracking?.suspended ? 'resume' : tracking ? '' : 'ab-initio',
+    'cmi.total_time': totalTime,
+    'cmi.completion_status': data['cmi.completion_status'] ?? 'unknown',
+    'cmi.success_status': data['cmi.success_status'] ?? 'unknown',
+  };
+}
+
+/**
+ * How long a launch URL keeps working
+ */
+export const SCORM_FILE_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+function signScormFileToken(packageId: string, userId: string, expires: string): string {
+  return createHmac('sha256', process.env.NEXTAUTH_SECRET ?? '')
+    .update(`${packageId}.${userId}.${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Token that lets a user load a package's files without a session cookie
+ *
+ * Sandboxed package files are requested from an opaque origin, so the
+ * browser does not send the viewer's cookies with them.
+ */
+export function createScormFileToken(
+  packageId: string,
+  userId: string,
+  now: Date = new Date()
+): string {
+  const expires = (now.getTime() + SCORM_FILE_TOKEN_TTL_MS).toString(36);
+  return `${userId}.${expires}.${signScormFileToken(packageId, userId, expires)}`;
+}
+
+/**
+ * The user a package file token was issued to, or null if it is invalid or
+ * has expired
+ */
+export function verifyScormFileToken(
+  packageId: string,
+  token: string,
+  now: Date = new Date()
+): string | null {
+  const [userId, expires, signature, ...rest] = token.split('.');
+  if (!userId || !expires || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(signScormFileToken(packageId, userId, expires));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  return parseInt(expires, 36) > now.getTime() ? userId : null;
+}
+
+/**
+ * URL that serves a file of an unpacked package
+ *
+ * @param token - Token from `createScormFileToken` for the viewer
+ */
+export function getScormFileUrl(packageId: string, token: string, path: string): string {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  return `/api/scorm/${packageId}/${encodeURIComponent(token)}/${encodedPath}`;
+}
+
+/**
+ * Where the bridge script that provides the runtime API inside a sandboxed
+ * package is served
+ */
+export const SCORM_BRIDGE_PATH = '/api/scorm/bridge';
+
+/**
+ * Load the bridge script first thing in a package HTML page, so the API is
+ * defined before the SCO looks for it
+ */
+export function injectScormBridge(html: string): string {
+  const tag = `<script src="${SCORM_BRIDGE_PATH}"></script>`;
+  const opening = /<head(\s[^>]*)?>/i.exec(html) ?? /<html(\s[^>]*)?>/i.exec(html);
+
+  if (!opening) return tag + html;
+
+  const end = opening.index + opening[0].length;
+  return html.slice(0, end) + tag + html.slice(end);
+}
+
+/**
+ * Prisma include that loads a content item's SCORM package with its backing
+ * assignment
+ */
+export const scormSettingsInclude = {
+  scorm_packages: {
+    include: {
+      assignments: { select: { id: true, maxPoints: true, deletedAt: true } },
+    },
+  },
+} satisfies Prisma.course_contentInclude;
+
+type ScormPackageWithAssignment = Prisma.course_contentGetPayload<{
+  include: typeof scormSettingsInclude;
+}>['scorm_packages'];
+
+/**
+ * Shape a content item's SCORM package for instructors
+ *
+ * @returns The package, or null when the content has no unpacked package
+ */
+export function formatScormSettings(scormPackage: ScormPackageWithAssignment) {
+  if (!scormPackage) return null;
+
+  const assignment = scormPackage.assignments?.deletedAt ? null : scormPackage.assignments;
+
+  return {
+    id: scormPackage.id,
+    version: scormPackage.version,
+    title: scormPackage.title,
+    launchPath: scormPackage.launchPath,
+    packageKey: scormPackage.packageKey,
+    assignmentId: assignment?.id ?? null,
+    maxPoints: assignment?.maxPoints ?? null,
+  };
+}
+
+/**
+ * Create the package record (and, when graded, the backing assignment) for a
+ * new SCORM content item
+ *
+ * @param db - Transaction client
+ * @param content - The newly created content item
+ * @param createdById - The instructor creating the content
+ * @param unpacked - The unpacked package
+ * @param maxPoints - Points for a graded package, or null when ungraded
+ */
+export async function createScormForContent(
+  db: Prisma.TransactionClient,
+  content: { id: string; title: string; isPublished: boolean; courseId: string },
+  createdById: string,
+  unpacked: ScormManifest & { id: string; storagePrefix: string; packageKey: string },
+  maxPoints: number | null
+) {
+  const now = new Date();
+
+  const assignment =
+    maxPoints !== null
+      ? await createScormAssignment(db, content, createdById, maxPoints)
+      : null;
+
+  return db.scorm_packages.create({
+    data: {
+      id: unpacked.id,
+      version: unpacked.version,
+      title: unpacked.title,
+      launchPath: unpacked.launchPath,
+      storagePrefix: unpacked.storagePrefix,
+      packageKey: unpacked.packageKey,
+      contentId: content.id,
+      assignmentId: assignment?.id ?? null,
+      updatedAt: now,
+    },
+  });
+}
+
+/**
+ * Keep a package's backing assignment in step with its content item, and
+ * apply a replacement package or grading change when given
+ *
+ * Turning grading off soft-deletes the backing assignment; turning it back on
+ * creates a new one.
+ *
+ * @param db - Transaction client
+ * @param scormPackage - The content item's package
+ * @param content - The content item after the update
+ * @param createdById - The instructor editing the content
+ * @param changes - A replacement package and/or new points (null for ungraded)
+ */
+export async function updateScormForContent(
+  db: Prisma.TransactionClient,
+  scormPackage: { id: string; assignmentId: string | null },
+  content: { id: string; title: string; isPublished: boolean; courseId: string },
+  createdById: string,
+  changes: {
+    unpacked?: ScormManifest & { storagePrefix: string; packageKey: string };
+    maxPoints?: number | null;
+  } = {}
+) {
+  const now = new Date();
+  let assignmentId = scormPackage.assignmentId;
+
+  if (assignmentId && changes.maxPoints === null) {
+    await db.assignments.update({
+      where: { id: assignmentId },
+      data: { deletedAt: now, updatedAt: now },
+    });
+    assignmentId = null;
+  } else if (assignmentId) {
+    await db.assignments.update({
+      where: { id: assignmentId },
+      data: {
+        title: content.title,
+        isPublished: content.isPublished,
+        ...(changes.maxPoints != null && { maxPoints: changes.maxPoints }),
+        updatedAt: now,
+      },
+    });
+  } else if (changes.maxPoints != null) {
+    assignmentId = (await createScormAssignment(db, content, createdById, changes.maxPoints)).id;
+  }
+
+  await db.scorm_packages.update({
+    where: { id: scormPackage.id },
+    data: {
+      assignmentId,
+      ...(changes.unpacked && {
+        version: changes.unpacked.version,
+        title: changes.unpacked.title,
+        launchPath: changes.unpacked.launchPath,
+        storagePrefix: changes.unpacked.storagePrefix,
+        packageKey: changes.unpacked.packageKey,
+      }),
+      updatedAt: now,
+    },
+  });
+}
+
+async function createScormAssignment(
+  db: Prisma.TransactionClient,
+  content: { title: string; isPublished: boolean; courseId: string },
+  createdById: string,
+  maxPoints: number
+) {
+  return db.assignments.create({
+    data: {
+      id: randomUUID(),
+      title: content.title,
+      maxPoints,
+      isPublished: content.isPublished,
+      courseId: content.courseId,
+      createdById,
+      updatedAt: new Date(),
+    },
+  });
+}
+
+function detectScormVersion(manifest: string): ScormVersion {
+  const schemaVersion = manifest.match(/<(?:[\w-]+:)?schemaversion>\s*([^<]*?)\s*<\//i)?.[1] ?? '';
+
+  if (/2004|CAM\s*1\.3/i.test(schemaVersion)) return 'SCORM_2004';
+  if (schemaVersion === '1.2') return 'SCORM_12';
+  if (/adlcp_v1p3|adlseq_v1p3/.test(manifest)) return 'SCORM_2004';
+  return 'SCORM_12';
+}
+
+function getScormType(attributes: Record<string, string>): string | undefined {
+  const key = Object.keys(attributes).find((name) => name.toLowerCase().endsWith('scormtype'));
+  return key ? attributes[key] : undefined;
+}
+
+function joinLaunchPath(href: string, parameters?: string): string {
+  if (!parameters) return href;
+  if (parameters.startsWith('?') || parameters.startsWith('#')) {
+    return href.includes('?') && parameters.startsWith('?') ? `${href}&${parameters.slice(1)}` : href + parameters;
+  }
+  return `${href}${href.includes('?') ? '&' : '?'}${parameters}`;
+}
+
+/**
+ * Opening tags with the given local name (namespace prefixes ignored), in
+ * document order
+ */
+function findTags(
+  xml: string,
+  name: string
+): Array<{ attributes: Record<string, string>; index: number; selfClosing: boolean }> {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(\\s[^>]*?)?(/?)>`, 'g');
+  const tags = [];
+
+  for (const match of xml.matchAll(pattern)) {
+    tags.push({
+      attributes: parseAttributes(match[1] ?? ''),
+      index: match.index ?? 0,
+      selfClosing: match[2] === '/',
+    });
+  }
+
+  return tags;
+}
+
+/**
+ * Elements with the given local name and their inner XML; assumes the
+ * element does not nest inside itself
+ */
+function findElements(xml: string, name: string) {
+  const closing = new RegExp(`</(?:[\\w-]+:)?${name}\\s*>`, 'g');
+
+  return findTags(xml, name).map((tag) => {
+    if (tag.selfClosing) return { attributes: tag.attributes, inner: '' };
+
+    closing.lastIndex = tag.index;
+    const end = closing.exec(xml);
+    const start = xml.indexOf('>', tag.index) + 1;
+    return { attributes: tag.attributes, inner: xml.slice(start, end ? end.index : xml.length) };
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+
+  return attributes;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
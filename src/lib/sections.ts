@@ -0,0 +1,42 @@
+/**
+ * Course Sections
+ *
+ * Sections split a course's students into cohorts (e.g. one per company)
+ * that run through the same course side by side. A student is in at most one
+ * section of a course. Announcements can target a section and assignments can
+ * have a due date per section; students outside any section see course-wide
+ * announcements and the regular due dates.
+ *
+ * @module lib/sections
+ */
+
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Find a section, checking that it belongs to the course
+ *
+ * @returns The section, or null when the course has no such section
+ */
+export async function findCourseSection(courseId: string, sectionId: string) {
+  return prisma.course_sections.findFirst({
+    where: { id: sectionId, courseId },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Where clause for announcements visible to students in the given sections:
+ * course-wide announcements and those targeting one of the sections
+ *
+ * @example
+ * const announcements = await prisma.announcements.findMany({
+ *   where: { courseId, ...notDeleted, ...visibleToSections([enrollment.sectionId]) }
+ * })
+ */
+export function visibleToSections(sectionIds: Array<string | null>) {
+  const ids = sectionIds.filter((id): id is string => id !== null);
+
+  return {
+    OR: [{ sectionId: null }, ...(ids.length > 0 ? [{ sectionId: { in: ids } }] : [])],
+  };
+}
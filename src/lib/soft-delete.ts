@@ -7,10 +7,14 @@
  *
  * Data Retention Policy: Soft-deleted records retained for 1 year before eligible
  * for permanent deletion (manual admin action only in MVP).
+ *
+ * Deletes and restores are recorded in the audit log when given the audit
+ * details (who is acting and the action).
  */
 
 import { prisma } from './prisma'
 import { Prisma } from '@prisma/client'
+import { recordAuditLog, AuditActor, AuditEntry } from './audit-log'
 
 // Models that support soft delete
 export const SOFT_DELETE_MODELS = [
@@ -25,6 +29,11 @@ export const SOFT_DELETE_MODELS = [
 
 export type SoftDeleteModel = (typeof SOFT_DELETE_MODELS)[number]
 
+/**
+ * Audit details for a delete; the target is the deleted record
+ */
+export type SoftDeleteAudit = Omit<AuditEntry, 'targetId'>
+
 /**
  * Base where clause for filtering out soft-deleted records.
  * Use this in all queries to exclude soft-deleted records by default.
@@ -51,19 +60,31 @@ export const onlyDeleted = { deletedAt: { not: null } } as const
  *
  * @param model - Prisma model delegate (e.g., prisma.user)
  * @param id - Record ID to soft delete
+ * @param audit - Audit log details (optional)
  * @returns Updated record with deletedAt set
  *
  * @example
- * await softDelete(prisma.user, userId)
+ * await softDelete(prisma.user, userId, {
+ *   actor: session.user,
+ *   action: 'user_deactivated',
+ *   targetType: 'user',
+ * })
  */
 export async function softDelete<T>(
   model: { update: (args: { where: { id: string }; data: { deletedAt: Date } }) => Promise<T> },
-  id: string
+  id: string,
+  audit?: SoftDeleteAudit
 ): Promise<T> {
-  return await model.update({
+  const record = await model.update({
     where: { id },
     data: { deletedAt: new Date() },
   })
+
+  if (audit) {
+    await recordAuditLog({ ...audit, targetId: id })
+  }
+
+  return record
 }
 
 /**
@@ -98,11 +119,15 @@ export async function restore<T>(
  * filtered out via course.deletedAt check in queries.
  *
  * @param courseId - Course ID to soft delete with cascade
+ * @param audit - Audit log details (optional)
  *
  * @example
  * await cascadeSoftDeleteCourse(courseId)
  */
-export async function cascadeSoftDeleteCourse(courseId: string): Promise<void> {
+export async function cascadeSoftDeleteCourse(
+  courseId: string,
+  audit?: SoftDeleteAudit
+): Promise<void> {
   const now = new Date()
 
   await prisma.$transaction([
@@ -132,6 +157,10 @@ export async function cascadeSoftDeleteCourse(courseId: string): Promise<void> {
       data: { deletedAt: now },
     }),
   ])
+
+  if (audit) {
+    await recordAuditLog({ ...audit, targetId: courseId })
+  }
 }
 
 /**
@@ -274,11 +303,33 @@ export async function getSoftDeletedRecords(model: SoftDeleteModel) {
  * @param model - Model name ('user', 'course', 'assignment', 'grade', 'discussion')
  * @param id - Record ID to restore
  * @param cascadeRestore - For courses, whether to restore related content (default: true)
+ * @param actor - User restoring the record, recorded in the audit log (optional)
  */
 export async function restoreRecord(
   model: SoftDeleteModel,
   id: string,
-  cascadeRestore: boolean = true
+  cascadeRestore: boolean = true,
+  actor?: AuditActor
+) {
+  const restored = await restoreRecordByModel(model, id, cascadeRestore)
+
+  if (actor) {
+    await recordAuditLog({
+      actor,
+      action: 'record_restored',
+      targetType: model,
+      targetId: id,
+      ...(model === 'course' && { details: { cascadeRestore } }),
+    })
+  }
+
+  return restored
+}
+
+async function restoreRecordByModel(
+  model: SoftDeleteModel,
+  id: string,
+  cascadeRestore: boolean
 ) {
   switch (model) {
     case 'user':
@@ -0,0 +1,425 @@
+/**
+ * Bulk User Import
+ *
+ * Creates user accounts from a CSV with one user per row, as an admin would
+ * one at a time in user management. Every row is validated with the user
+ * schemas; rows may list course codes the new students are enrolled in.
+ *
+ * Imported users get a generated temporary password, returned once so the
+ * admin can pass it on, as with a password reset.
+ */
+
+import { randomInt, randomUUID } from 'crypto';
+import bcrypt from 'bcryptjs';
+import type { UserRole } from '@prisma/client';
+import { prisma } from './prisma';
+import { parseCSV } from './csv-import';
+import { importUserRowSchema } from '@/validators/user';
+
+/**
+ * Most rows a single import may contain. Every row costs a password hash
+ * within the request, so larger imports are split into several files.
+ */
+export const MAX_USER_IMPORT_ROWS = 200;
+
+/**
+ * Passwords hashed at a time; hashing is CPU-bound, so a larger batch only
+ * holds up other requests for longer
+ */
+const PASSWORD_HASH_CONCURRENCY = 4;
+
+/**
+ * Columns of the import file, with the headers each is recognized by.
+ * Headers are matched ignoring case, spaces and punctuation.
+ */
+const COLUMNS = {
+  email: { header: 'Email', aliases: ['email', 'emailaddress'] },
+  name: { header: 'Name', aliases: ['name', 'firstname', 'givenname'] },
+  surname: { header: 'Surname', aliases: ['surname', 'lastname', 'familyname'] },
+  cellNumber: { header: 'Cell Number', aliases: ['cellnumber', 'cell', 'mobile', 'phone'] },
+  company: { header: 'Company', aliases: ['company', 'organization', 'organisation'] },
+  position: { header: 'Position', aliases: ['position', 'jobtitle', 'title'] },
+  workAddress: { header: 'Work Address', aliases: ['workaddress', 'address'] },
+  role: { header: 'Role', aliases: ['role'] },
+  courses: { header: 'Courses', aliases: ['courses', 'coursecodes', 'course'] },
+} as const;
+
+type Column = keyof typeof COLUMNS;
+
+/**
+ * Columns every file must have
+ */
+const REQUIRED_COLUMNS: Column[] = [
+  'email',
+  'name',
+  'surname',
+  'cellNumber',
+  'company',
+  'position',
+  'workAddress',
+];
+
+/**
+ * Separators between course codes in the Courses column
+ */
+const COURSE_CODE_SEPARATOR = /[;|]/;
+
+const TEMPORARY_PASSWORD_LENGTH = 12;
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const LOWERCASE = 'abcdefghijkmnopqrstuvwxyz';
+const DIGITS = '23456789';
+const PASSWORD_ALPHABET = UPPERCASE + LOWERCASE + DIGITS;
+
+/**
+ * A course imported users can be enrolled in
+ */
+export interface UserImportCourse {
+  id: string;
+  code: string;
+}
+
+/**
+ * A user the import will create
+ */
+export interface UserImportRow {
+  row: number;
+  email: string;
+  name: string;
+  surname: string;
+  cellNumber: string;
+  company: string;
+  position: string;
+  workAddress: string;
+  role: UserRole;
+  /** Courses the user will be enrolled in */
+  courses: UserImportCourse[];
+}
+
+/**
+ * A problem found in the CSV (rows are numbered from 1, the header row)
+ */
+export interface UserImportError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface UserImportPlan {
+  users: UserImportRow[];
+  errors: UserImportError[];
+  /** Number of user rows read */
+  rowCount: number;
+}
+
+/**
+ * Sign-in details for an imported user, shown to the admin once
+ */
+export interface UserImportCredential {
+  id: string;
+  email: string;
+  name: string;
+  surname: string;
+  role: UserRole;
+  temporaryPassword: string;
+  courseCodes: string[];
+}
+
+export interface UserImportResult {
+  users: UserImportCredential[];
+  enrolledCount: number;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Work out the users a CSV creates
+ *
+ * Rows are validated with `importUserRowSchema`. A blank Role means STUDENT;
+ * only students can be enrolled in courses. Emails must be unique within the
+ * file and must not belong to an existing user (including deactivated ones).
+ *
+ * @param text - The CSV content
+ * @param context - Emails already in use, the courses that can be enrolled
+ *   in, and the codes of courses every student is enrolled in
+ * @returns The users to create and the errors in the file
+ */
+export function parseUserImportCSV(
+  text: string,
+  context: {
+    existingEmails: string[];
+    courses: UserImportCourse[];
+    courseCodes?: string[];
+  }
+): UserImportPlan {
+  const plan: UserImportPlan = { users: [], errors: [], rowCount: 0 };
+
+  const [header, ...rows] = parseCSV(text);
+  if (!header) {
+    plan.errors.push({ row: 1, message: 'The CSV is empty' });
+    return plan;
+  }
+
+  // Find each column by its header
+  const columnIndexes = new Map<Column, number>();
+  header.forEach((h, index) => {
+    const normalized = normalizeHeader(h);
+    const column = (Object.keys(COLUMNS) as Column[]).find((key) =>
+      (COLUMNS[key].aliases as readonly string[]).includes(normalized)
+    );
+    if (!column) return;
+
+    if (columnIndexes.has(column)) {
+      plan.errors.push({ row: 1, column: h.trim(), message: 'The column appears more than once' });
+    } else {
+      columnIndexes.set(column, index);
+    }
+  });
+
+  for (const column of REQUIRED_COLUMNS) {
+    if (!columnIndexes.has(column)) {
+      plan.errors.push({ row: 1, message: `The CSV has no ${COLUMNS[column].header} column` });
+    }
+  }
+  if (plan.errors.length > 0) return plan;
+
+  if (rows.length > MAX_USER_IMPORT_ROWS) {
+    plan.errors.push({
+      row: 1,
+      message: `The CSV has ${rows.length} rows; at most ${MAX_USER_IMPORT_ROWS} users can be imported at once`,
+    });
+    return plan;
+  }
+
+  const coursesByCode = new Map(context.courses.map((c) => [c.code.toUpperCase(), c]));
+  const existingEmails = new Set(context.existingEmails.map((email) => email.toLowerCase()));
+  const seenEmails = new Map<string, number>();
+
+  // Courses for every student must all exist before any row is checked
+  const sharedCourses: UserImportCourse[] = [];
+  for (const code of context.courseCodes ?? []) {
+    const course = coursesByCode.get(code.trim().toUpperCase());
+    if (!course) {
+      plan.errors.push({ row: 1, message: `No course has the code ${code}` });
+    } else if (!sharedCourses.includes(course)) {
+      sharedCourses.push(course);
+    }
+  }
+  if (plan.errors.length > 0) return plan;
+
+  rows.forEach((fields, i) => {
+    const row = i + 2;
+    const cell = (column: Column) => {
+      const index = columnIndexes.get(column);
+      return index === undefined ? '' : (fields[index] ?? '').trim();
+    };
+    plan.rowCount++;
+
+    const role = cell('role').toUpperCase();
+    const result = importUserRowSchema.safeParse({
+      email: cell('email'),
+      name: cell('name'),
+      surname: cell('surname'),
+      cellNumber: cell('cellNumber'),
+      company: cell('company'),
+      position: cell('position'),
+      workAddress: cell('workAddress'),
+      role: role || undefined,
+    });
+
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const column = issue.path[0] as Column | undefined;
+        plan.errors.push({
+          row,
+          column: column ? COLUMNS[column].header : undefined,
+          message: column === 'role' ? `"${cell('role')}" is not a valid role` : issue.message,
+        });
+      }
+      return;
+    }
+
+    const user = result.data;
+    let hasErrors = false;
+
+    const firstRow = seenEmails.get(user.email);
+    if (firstRow) {
+      plan.errors.push({
+        row,
+        column: COLUMNS.email.header,
+        message: `${user.email} is also in row ${firstRow}`,
+      });
+      hasErrors = true;
+    } else {
+      seenEmails.set(user.email, row);
+      if (existingEmails.has(user.email)) {
+        plan.errors.push({
+          row,
+          column: COLUMNS.email.header,
+          message: `A user with the email ${user.email} already exists`,
+        });
+        hasErrors = true;
+      }
+    }
+
+    const courses = user.role === 'STUDENT' ? [...sharedCourses] : [];
+    const codes = cell('courses')
+      .split(COURSE_CODE_SEPARATOR)
+      .map((code) => code.trim())
+      .filter(Boolean);
+
+    if (codes.length > 0 && user.role !== 'STUDENT') {
+      plan.errors.push({
+        row,
+        column: COLUMNS.courses.header,
+        message: 'Only students can be enrolled in courses',
+      });
+      hasErrors = true;
+    }
+
+    for (const code of user.role === 'STUDENT' ? codes : []) {
+      const course = coursesByCode.get(code.toUpperCase());
+      if (!course) {
+        plan.errors.push({ row, column: COLUMNS.courses.header, message: `No course has the code ${code}` });
+        hasErrors = true;
+      } else if (!courses.includes(course)) {
+        courses.push(course);
+      }
+    }
+
+    if (!hasErrors) {
+      plan.users.push({ row, ...user, courses });
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Generate a temporary password that meets the password rules
+ * (upper and lower case letters and a digit). Look-alike characters
+ * (0/O, 1/l/I) are left out so the password can be read out or retyped.
+ */
+export function generateTemporaryPassword(): string {
+  for (;;) {
+    const password = Array.from(
+      { length: TEMPORARY_PASSWORD_LENGTH },
+      () => PASSWORD_ALPHABET[randomInt(PASSWORD_ALPHABET.length)]
+    ).join('');
+
+    if ([UPPERCASE, LOWERCASE, DIGITS].every((set) => [...password].some((c) => set.includes(c)))) {
+      return password;
+    }
+  }
+}
+
+/**
+ * Build the plan for importing a CSV against the current users and courses
+ *
+ * @param text - The CSV content
+ * @param courseCodes - Codes of courses every imported student is enrolled in
+ */
+export async function planUserImport(
+  text: string,
+  courseCodes: string[] = []
+): Promise<UserImportPlan> {
+  // Look up every field that could be an email rather than finding the column first
+  const emails = [
+    ...new Set(
+      parseCSV(text)
+        .flat()
+        .map((field) => field.trim().toLowerCase())
+        .filter((field) => field.includes('@'))
+    ),
+  ];
+
+  const [existingUsers, courses] = await Promise.all([
+    prisma.users.findMany({
+      where: { email: { in: emails, mode: 'insensitive' } },
+      select: { email: true },
+    }),
+    prisma.courses.findMany({
+      where: { deletedAt: null },
+      select: { id: true, code: true },
+    }),
+  ]);
+
+  return parseUserImportCSV(text, {
+    existingEmails: existingUsers.map((user) => user.email),
+    courses,
+    courseCodes,
+  });
+}
+
+/**
+ * Create the users in an import plan and their enrollments
+ *
+ * Passwords are hashed a few at a time before the transaction so it is not
+ * held open while hashing. Either every user is created or none are.
+ *
+ * @param plan - A plan without errors
+ * @returns The created users with their temporary passwords
+ */
+export async function createImportedUsers(plan: UserImportPlan): Promise<UserImportResult> {
+  const now = new Date();
+  const users = [];
+  for (let i = 0; i < plan.users.length; i += PASSWORD_HASH_CONCURRENCY) {
+    const batch = plan.users.slice(i, i + PASSWORD_HASH_CONCURRENCY);
+    users.push(
+      ...(await Promise.all(
+        batch.map(async (user) => {
+          const temporaryPassword = generateTemporaryPassword();
+          return {
+            ...user,
+            id: randomUUID(),
+            temporaryPassword,
+            password: await bcrypt.hash(temporaryPassword, 10),
+          };
+        })
+      ))
+    );
+  }
+
+  const enrollments = users.flatMap((user) =>
+    user.courses.map((course) => ({
+      id: randomUUID(),
+      userId: user.id,
+      courseId: course.id,
+      enrolledAt: now,
+    }))
+  );
+
+  await prisma.$transaction([
+    prisma.users.createMany({
+      data: users.map((user) => ({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        surname: user.surname,
+        password: user.password,
+        role: user.role,
+        cellNumber: user.cellNumber,
+        company: user.company,
+        position: user.position,
+        workAddress: user.workAddress,
+        updatedAt: now,
+      })),
+    }),
+    prisma.enrollments.createMany({ data: enrollments }),
+  ]);
+
+  return {
+    users: users.map((user) => ({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      surname: user.surname,
+      role: user.role,
+      temporaryPassword: user.temporaryPassword,
+      courseCodes: user.courses.map((course) => course.code),
+    })),
+    enrolledCount: enrollments.length,
+  };
+}
+
@@ -4,16 +4,62 @@
  */
 
 import { z } from 'zod';
+import { publishDateSchema } from '@/validators/publishing';
+
+/**
+ * Unlock rule fields shared by create and update
+ * null clears a rule; an omitted field is left unchanged on update
+ */
+const unlockRuleFields = {
+  unlockAt: publishDateSchema,
+  prerequisiteModuleId: z.string().min(1).nullable().optional(),
+  prerequisiteAssignmentId: z.string().min(1).nullable().optional(),
+  prerequisiteMinScore: z
+    .number()
+    .min(0, 'Minimum score must be between 0 and 100')
+    .max(100, 'Minimum score must be between 0 and 100')
+    .nullable()
+    .optional(),
+};
+
+const completionWeightSchema = z
+  .number()
+  .int('Completion weights must be whole numbers')
+  .min(0, 'Completion weights must be between 0 and 100')
+  .max(100, 'Completion weights must be between 0 and 100')
+  .nullable()
+  .optional();
+
+/**
+ * Completion rule fields shared by create and update
+ * Weights left null split progress equally between the module's parts
+ */
+const completionRuleFields = {
+  passingScore: z
+    .number()
+    .min(0, 'Passing score must be between 0 and 100')
+    .max(100, 'Passing score must be between 0 and 100')
+    .nullable()
+    .optional(),
+  requireDiscussionPost: z.boolean().optional(),
+  contentWeight: completionWeightSchema,
+  assignmentWeight: completionWeightSchema,
+  discussionWeight: completionWeightSchema,
+};
 
 /**
  * Schema for creating a new module
  * Required: title
- * Optional: description, requiresPrevious
+ * Optional: description, requiresPrevious, publishAt, unpublishAt, unlock and completion rules
  */
 export const createModuleSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title must be 200 characters or less'),
   description: z.string().max(2000, 'Description must be 2000 characters or less').optional(),
   requiresPrevious: z.boolean().default(true),
+  publishAt: publishDateSchema,
+  unpublishAt: publishDateSchema,
+  ...unlockRuleFields,
+  ...completionRuleFields,
 });
 
 /**
@@ -26,6 +72,10 @@ export const updateModuleSchema = z.object({
   isPublished: z.boolean().optional(),
   requiresPrevious: z.boolean().optional(),
   orderIndex: z.number().int().min(0).optional(),
+  publishAt: publishDateSchema,
+  unpublishAt: publishDateSchema,
+  ...unlockRuleFields,
+  ...completionRuleFields,
 });
 
 export type CreateModuleInput = z.infer<typeof createModuleSchema>;
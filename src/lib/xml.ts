@@ -0,0 +1,139 @@
+/**
+ * XML Utilities
+ *
+ * Minimal reader and escaping helpers for the XML documents found in content
+ * packages (manifests, cartridge resources). The reader builds an element
+ * tree; it ignores the prolog, comments, processing instructions and DTDs,
+ * and does not validate.
+ *
+ * @module lib/xml
+ */
+
+/**
+ * An element with its namespace prefix removed from the name
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Text directly inside the element, with entities and CDATA decoded */
+  text: string;
+}
+
+/**
+ * Error raised for documents that cannot be read
+ */
+export class XmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlError';
+  }
+}
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+/**
+ * Parse a document into its root element
+ *
+ * @throws XmlError when tags are not balanced
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, cdata, closing, tagName, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeXml(text);
+    } else if (tagName) {
+      const name = localName(tagName);
+      if (closing) {
+        if (stack.length === 1 || current.name !== name) {
+          throw new XmlError(`Unexpected closing tag </${tagName}>`);
+        }
+        stack.pop();
+      } else {
+        const element: XmlElement = {
+          name,
+          attributes: parseAttributes(attributes),
+          children: [],
+          text: '',
+        };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length !== 1 || root.children.length !== 1) {
+    throw new XmlError('The document is not well-formed');
+  }
+
+  return root.children[0];
+}
+
+/**
+ * Child elements with the given local name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * First child element with the given local name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+/**
+ * Trimmed text of a child element, or an empty string when missing
+ */
+export function childText(element: XmlElement, name: string): string {
+  return childElement(element, name)?.text.trim() ?? '';
+}
+
+/**
+ * Escape text for use in element content or attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Decode the predefined entities and numeric character references
+ */
+export function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+
+  return attributes;
+}
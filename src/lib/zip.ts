@@ -0,0 +1,223 @@
+/**
+ * Zip Archive Utilities
+ *
+ * Minimal reader and writer for zip archives, built on Node's zlib. Supports
+ * stored and deflated entries, which covers the archives produced by common
+ * authoring tools. Zip64 and encrypted archives are not supported.
+ *
+ * @module lib/zip
+ */
+
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib';
+
+/**
+ * A file in a zip archive
+ */
+export interface ZipEntry {
+  path: string;
+  data: Buffer;
+}
+
+/**
+ * Limits applied while reading an archive, to reject zip bombs
+ */
+export interface ZipReadLimits {
+  maxEntries?: number;
+  maxTotalSize?: number;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_MAX_TOTAL_SIZE = 500 * 1024 * 1024; // 500MB
+
+/**
+ * Error raised for archives that cannot be read
+ */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+/**
+ * Normalize an entry path and reject paths that would escape the archive root
+ *
+ * @returns The normalized path, or null for unsafe paths
+ */
+export function normalizeZipPath(path: string): string | null {
+  const segments: string[] = [];
+
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') return null;
+    segments.push(segment);
+  }
+
+  return segments.length > 0 ? segments.join('/') : null;
+}
+
+/**
+ * Read the files in a zip archive
+ *
+ * Directory entries are skipped. Entry paths are normalized with
+ * `normalizeZipPath`.
+ *
+ * @param buffer - The archive
+ * @param limits - Maximum entry count and total uncompressed size
+ * @throws ZipError when the archive is invalid, unsupported or too large
+ */
+export function readZipEntries(buffer: Buffer, limits: ZipReadLimits = {}): ZipEntry[] {
+  const maxEntries = limits.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const maxTotalSize = limits.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+
+  const endOffset = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+
+  if (entryCount > maxEntries) {
+    throw new ZipError(`The archive has more than ${maxEntries} files`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipError('The archive is corrupt');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const rawPath = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (rawPath.endsWith('/')) continue;
+
+    if (flags & 0x1) {
+      throw new ZipError('Encrypted archives are not supported');
+    }
+
+    const path = normalizeZipPath(rawPath);
+    if (!path) {
+      throw new ZipError(`The archive contains an unsafe path: ${rawPath}`);
+    }
+
+    totalSize += size;
+    if (totalSize > maxTotalSize) {
+      throw new ZipError('The archive is too large when extracted');
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new ZipError('The archive is corrupt');
+    }
+
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(compressed);
+    } else if (method === METHOD_DEFLATED) {
+      try {
+        data = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new ZipError(`Could not extract ${path}`);
+      }
+    } else {
+      throw new ZipError(`Unsupported compression method for ${path}`);
+    }
+
+    if (data.length !== size) {
+      throw new ZipError(`Could not extract ${path}`);
+    }
+
+    entries.push({ path, data });
+  }
+
+  return entries;
+}
+
+/**
+ * Create a zip archive, deflating each file
+ *
+ * @param entries - The files to add
+ * @returns The archive
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(METHOD_DEFLATED, 8);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(METHOD_DEFLATED, 10);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Locate the end of central directory record, which is followed by an
+ * optional comment of up to 64KB
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new ZipError('The file is not a zip archive');
+}
@@ -6,6 +6,11 @@
  *
  * Rate Limit: 100 requests/minute per IP (configurable via RATE_LIMIT_IP_MAX)
  *
+ * SCORM package files (`/api/scorm/...`) have their own, much higher limit
+ * (RATE_LIMIT_SCORM_MAX, default 3000/minute): launching a package loads
+ * every page, script, stylesheet and media file it contains, and a classroom
+ * behind one NAT shares an IP.
+ *
  * Fail-Open Behavior: If Redis is unavailable, requests are allowed to prevent
  * complete service outage. Rate limit failures are logged for monitoring.
  */
@@ -20,6 +25,9 @@ import { Redis } from '@upstash/redis'
 // ============================================
 
 const RATE_LIMIT_IP_MAX = parseInt(process.env.RATE_LIMIT_IP_MAX || '100', 10)
+const RATE_LIMIT_SCORM_MAX = parseInt(process.env.RATE_LIMIT_SCORM_MAX || '3000', 10)
+
+const SCORM_PATH_PREFIX = '/api/scorm/'
 
 // ============================================
 // Rate Limiter (Edge-compatible initialization)
@@ -29,10 +37,18 @@ const RATE_LIMIT_IP_MAX = parseInt(process.env.RATE_LIMIT_IP_MAX || '100', 10)
 // runs on the Edge runtime which has different module resolution.
 // The @/lib/rate-limit.ts utilities are for use in API routes (Node runtime).
 
-let ratelimit: Ratelimit | null = null
+type LimiterKind = 'ip' | 'scorm'
+
+const LIMITS: Record<LimiterKind, { max: number; prefix: string }> = {
+  ip: { max: RATE_LIMIT_IP_MAX, prefix: 'ratelimit:ip' },
+  scorm: { max: RATE_LIMIT_SCORM_MAX, prefix: 'ratelimit:scorm' },
+}
+
+const ratelimits: Partial<Record<LimiterKind, Ratelimit>> = {}
 
-function getRateLimiter(): Ratelimit | null {
-  if (ratelimit) return ratelimit
+function getRateLimiter(kind: LimiterKind): Ratelimit | null {
+  const existing = ratelimits[kind]
+  if (existing) return existing
 
   const url = process.env.UPSTASH_REDIS_REST_URL
   const token = process.env.UPSTASH_REDIS_REST_TOKEN
@@ -44,12 +60,13 @@ function getRateLimiter(): Ratelimit | null {
 
   try {
     const redis = new Redis({ url, token })
-    ratelimit = new Ratelimit({
+    const ratelimit = new Ratelimit({
       redis,
-      limiter: Ratelimit.slidingWindow(RATE_LIMIT_IP_MAX, '1 m'),
+      limiter: Ratelimit.slidingWindow(LIMITS[kind].max, '1 m'),
       analytics: true,
-      prefix: 'ratelimit:ip',
+      prefix: LIMITS[kind].prefix,
     })
+    ratelimits[kind] = ratelimit
     return ratelimit
   } catch (error) {
     console.error('Failed to initialize rate limiter:', error)
@@ -100,7 +117,8 @@ function getClientIp(request: NextRequest): string {
 // ============================================
 
 export async function middleware(request: NextRequest) {
-  const limiter = getRateLimiter()
+  const kind: LimiterKind = request.nextUrl.pathname.startsWith(SCORM_PATH_PREFIX) ? 'scorm' : 'ip'
+  const limiter = getRateLimiter(kind)
 
   // Rate limiting disabled - allow all requests
   if (!limiter) {
@@ -120,7 +138,7 @@ export async function middleware(request: NextRequest) {
           message: 'Rate limit exceeded',
           timestamp: new Date().toISOString(),
           context: {
-            type: 'ip',
+            type: kind,
             identifier: ip,
             endpoint: request.nextUrl.pathname,
             limit,
@@ -7,6 +7,7 @@
 import { z } from 'zod'
 import { cuidSchema, stringWithLength } from '@/lib/validation'
 import { sanitizeHtml } from '@/lib/sanitize'
+import { publishScheduleSchema } from './publishing'
 
 // ============================================
 // Announcement Schemas
@@ -14,6 +15,9 @@ import { sanitizeHtml } from '@/lib/sanitize'
 
 /**
  * Schema for creating an announcement
+ *
+ * With a future `publishAt`, the announcement stays hidden from students
+ * until then.
  */
 export const createAnnouncementSchema = z.object({
   title: stringWithLength(3, 200, 'Title'),
@@ -23,6 +27,7 @@ export const createAnnouncementSchema = z.object({
     .max(10000, 'Content must be 10000 characters or less')
     .transform(sanitizeHtml),
   courseId: cuidSchema,
+  ...publishScheduleSchema.shape,
 })
 
 /**
@@ -37,10 +42,11 @@ export const updateAnnouncementSchema = z
       .max(10000)
       .transform(sanitizeHtml)
       .optional(),
+    ...publishScheduleSchema.shape,
   })
   .refine(
-    (data) => data.title !== undefined || data.content !== undefined,
-    { message: 'At least title or content must be provided' }
+    (data) => Object.values(data).some((v) => v !== undefined),
+    { message: 'At least one field must be provided for update' }
   )
 
 // ============================================
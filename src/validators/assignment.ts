@@ -7,6 +7,64 @@
 import { z } from 'zod'
 import { cuidSchema, stringWithLength, positiveIntSchema } from '@/lib/validation'
 import { sanitizeHtml } from '@/lib/sanitize'
+import { publishScheduleSchema } from './publishing'
+
+// ============================================
+// Late Policy Schemas
+// ============================================
+
+/**
+ * Late policy values (mirrors the LatePolicyType enum)
+ */
+export const latePolicyValues = ['REJECT', 'ACCEPT_FLAGGED', 'DEDUCT'] as const
+
+/**
+ * Schema for an assignment's late submission policy
+ *
+ * The cutoff must fall after the due date; that check needs the due date
+ * and is performed in the API route.
+ */
+export const latePolicySchema = z.object({
+  latePolicy: z.enum(latePolicyValues).optional(),
+  lateGraceMinutes: z
+    .number()
+    .int('Grace period must be a whole number of minutes')
+    .min(0, 'Grace period cannot be negative')
+    .max(10080, 'Grace period cannot exceed 7 days')
+    .optional(),
+  latePenaltyPerDay: z
+    .number()
+    .min(0, 'Penalty cannot be negative')
+    .max(100, 'Penalty cannot exceed 100% per day')
+    .optional(),
+  lateCutoffAt: z
+    .string()
+    .datetime('Invalid date format (use ISO 8601)')
+    .optional()
+    .nullable(),
+})
+
+// ============================================
+// Attempt Schemas
+// ============================================
+
+/**
+ * Graded attempt policy values (mirrors the GradedAttemptPolicy enum)
+ */
+export const gradedAttemptPolicyValues = ['LATEST', 'HIGHEST', 'MANUAL'] as const
+
+/**
+ * Schema for how many attempts an assignment accepts and which one is graded
+ */
+export const attemptSettingsSchema = z.object({
+  maxAttempts: z
+    .number()
+    .int('Attempts must be a whole number')
+    .min(0, 'Attempts cannot be negative (use 0 for unlimited)')
+    .max(100, 'Attempts cannot exceed 100')
+    .optional(),
+  gradedAttemptPolicy: z.enum(gradedAttemptPolicyValues).optional(),
+})
 
 // ============================================
 // Assignment Schemas
@@ -36,7 +94,12 @@ export const createAssignmentSchema = z.object({
     .optional()
     .default(100),
   isPublished: z.boolean().optional().default(false),
+  isRequired: z.boolean().optional().default(true),
+  isGroupAssignment: z.boolean().optional().default(false),
   courseId: cuidSchema,
+  ...latePolicySchema.shape,
+  ...attemptSettingsSchema.shape,
+  ...publishScheduleSchema.shape,
 })
 
 /**
@@ -63,6 +126,11 @@ export const updateAssignmentSchema = z
       .max(10000)
       .optional(),
     isPublished: z.boolean().optional(),
+    isRequired: z.boolean().optional(),
+    isGroupAssignment: z.boolean().optional(),
+    ...latePolicySchema.shape,
+    ...attemptSettingsSchema.shape,
+    ...publishScheduleSchema.shape,
   })
   .refine(
     (data) => Object.values(data).some((v) => v !== undefined),
@@ -113,6 +181,8 @@ export const updateSubmissionSchema = z
 // Type Exports
 // ============================================
 
+export type LatePolicyInput = z.infer<typeof latePolicySchema>
+export type AttemptSettingsInput = z.infer<typeof attemptSettingsSchema>
 export type CreateAssignmentInput = z.infer<typeof createAssignmentSchema>
 export type UpdateAssignmentInput = z.infer<typeof updateAssignmentSchema>
 export type CreateSubmissionInput = z.infer<typeof createSubmissionSchema>
@@ -0,0 +1,56 @@
+/**
+ * Audit Log Validation Schemas
+ *
+ * Zod schemas for filtering the admin audit log report.
+ */
+
+import { z } from 'zod'
+
+// ============================================
+// Query Schemas
+// ============================================
+
+/**
+ * Filters shared by the audit log list and its export
+ *
+ * `search` matches the acting user's name or email.
+ */
+const auditLogFiltersSchema = z.object({
+  actorId: z.string().max(100).optional(),
+  search: z.string().max(200, 'Search must be 200 characters or less').optional(),
+  action: z.string().max(100).optional(),
+  targetType: z.string().max(50).optional(),
+  targetId: z.string().max(100).optional(),
+  from: z.coerce.date('Invalid date format').optional(),
+  to: z.coerce.date('Invalid date format').optional(),
+})
+
+const validDateRange = {
+  check: (data: { from?: Date; to?: Date }) => !data.from || !data.to || data.from <= data.to,
+  message: 'From date must be before or equal to To date',
+}
+
+/**
+ * Schema for the audit log list query parameters
+ */
+export const auditLogQuerySchema = auditLogFiltersSchema
+  .extend({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+  })
+  .refine(validDateRange.check, { message: validDateRange.message, path: ['from'] })
+
+/**
+ * Schema for the audit log export query parameters
+ */
+export const auditLogExportQuerySchema = auditLogFiltersSchema.refine(validDateRange.check, {
+  message: validDateRange.message,
+  path: ['from'],
+})
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>
+export type AuditLogExportQueryInput = z.infer<typeof auditLogExportQuerySchema>
@@ -7,6 +7,7 @@
 import { z } from 'zod'
 import { cuidSchema, stringWithLength, optionalUrlSchema, positiveIntSchema } from '@/lib/validation'
 import { sanitizeHtml } from '@/lib/sanitize'
+import { publishScheduleSchema } from './publishing'
 
 // ============================================
 // Course Schemas
@@ -72,6 +73,32 @@ export const createCourseSchema = z.object({
   targetAudience: coursePrerequisitesSchema.shape.targetAudience,
 })
 
+/**
+ * Schema for copying a course into a new term
+ * Dates (due dates, publish windows, unlock dates) are shifted by dateOffsetDays
+ */
+export const copyCourseSchema = createCourseSchema
+  .pick({ title: true, code: true, semester: true, year: true })
+  .extend({
+    dateOffsetDays: z
+      .number()
+      .int('Date offset must be a whole number of days')
+      .min(-3650, 'Date offset must be within 10 years')
+      .max(3650, 'Date offset must be within 10 years')
+      .default(0),
+  })
+
+/**
+ * Schema for importing a course from a Common Cartridge package
+ * The title defaults to the package's title
+ */
+export const importCourseSchema = createCourseSchema
+  .pick({ code: true, semester: true, year: true })
+  .extend({
+    title: stringWithLength(3, 200, 'Title').optional(),
+    instructorId: z.string().min(1, 'Instructor ID is required'),
+  })
+
 /**
  * Schema for updating a course
  */
@@ -117,6 +144,14 @@ export const updateCourseSchema = z
       .transform(sanitizeHtml)
       .optional()
       .nullable(),
+    // Course completion certificate settings
+    certificatesEnabled: z.boolean().optional(),
+    certificateMinScore: z
+      .number()
+      .min(0, 'Certificate minimum score must be between 0 and 100')
+      .max(100, 'Certificate minimum score must be between 0 and 100')
+      .optional()
+      .nullable(),
   })
   .refine(
     (data) => Object.values(data).some((v) => v !== undefined),
@@ -172,6 +207,8 @@ export const createContentSchema = z.object({
   thumbnailUrl: optionalUrlSchema,
   orderIndex: z.number().int().min(0).optional(),
   isPublished: z.boolean().optional().default(false),
+  isRequired: z.boolean().optional().default(true),
+  ...publishScheduleSchema.shape,
 })
 
 /**
@@ -191,6 +228,8 @@ export const updateContentSchema = z
     thumbnailUrl: optionalUrlSchema,
     orderIndex: z.number().int().min(0).optional(),
     isPublished: z.boolean().optional(),
+    isRequired: z.boolean().optional(),
+    ...publishScheduleSchema.shape,
   })
   .refine(
     (data) => Object.values(data).some((v) => v !== undefined),
@@ -216,6 +255,8 @@ export const reorderContentSchema = z.object({
 export type CoursePrerequisitesInput = z.infer<typeof coursePrerequisitesSchema>
 export type CreateCourseInput = z.infer<typeof createCourseSchema>
 export type UpdateCourseInput = z.infer<typeof updateCourseSchema>
+export type CopyCourseInput = z.infer<typeof copyCourseSchema>
+export type ImportCourseInput = z.infer<typeof importCourseSchema>
 export type EnrollmentInput = z.infer<typeof enrollmentSchema>
 export type BulkEnrollmentInput = z.infer<typeof bulkEnrollmentSchema>
 export type UnenrollmentInput = z.infer<typeof unenrollmentSchema>
@@ -7,11 +7,38 @@
 import { z } from 'zod'
 import { cuidSchema, stringWithLength } from '@/lib/validation'
 import { sanitizeHtml } from '@/lib/sanitize'
+import { reactionTypes } from '@/lib/discussions'
 
 // ============================================
 // Discussion Schemas
 // ============================================
 
+/**
+ * Schema for grading a discussion on participation
+ */
+export const discussionGradingSchema = z.object({
+  maxPoints: z
+    .number()
+    .int('Points must be a whole number')
+    .min(1, 'Points must be at least 1')
+    .max(10000, 'Points cannot exceed 10000'),
+  dueDate: z
+    .string()
+    .datetime('Invalid date format (use ISO 8601)')
+    .optional()
+    .nullable(),
+  requiredPosts: z
+    .number()
+    .int('Required posts must be a whole number')
+    .min(0, 'Required posts cannot be negative')
+    .max(20, 'Required posts cannot exceed 20'),
+  requiredReplies: z
+    .number()
+    .int('Required replies must be a whole number')
+    .min(0, 'Required replies cannot be negative')
+    .max(50, 'Required replies cannot exceed 50'),
+})
+
 /**
  * Schema for creating a discussion
  */
@@ -26,6 +53,10 @@ export const createDiscussionSchema = z.object({
   courseId: cuidSchema,
   isPinned: z.boolean().optional().default(false),
   isLocked: z.boolean().optional().default(false),
+  isQuestionAnswer: z.boolean().optional().default(false),
+  isAnonymous: z.boolean().optional().default(false),
+  isPostFirst: z.boolean().optional().default(false),
+  grading: discussionGradingSchema.optional().nullable(),
 })
 
 /**
@@ -42,6 +73,10 @@ export const updateDiscussionSchema = z
       .nullable(),
     isPinned: z.boolean().optional(),
     isLocked: z.boolean().optional(),
+    isQuestionAnswer: z.boolean().optional(),
+    isAnonymous: z.boolean().optional(),
+    isPostFirst: z.boolean().optional(),
+    grading: discussionGradingSchema.optional().nullable(),
   })
   .refine(
     (data) => Object.values(data).some((v) => v !== undefined),
@@ -76,11 +111,84 @@ export const updateDiscussionPostSchema = z.object({
     .transform(sanitizeHtml),
 })
 
+/**
+ * Schema for toggling a reaction on a post
+ */
+export const postReactionSchema = z.object({
+  type: z.enum(reactionTypes),
+})
+
+/**
+ * Schema for marking or unmarking a reply as the accepted answer
+ */
+export const acceptAnswerSchema = z.object({
+  accepted: z.boolean(),
+})
+
+/**
+ * Schema for an instructor endorsing, accepting, hiding or flagging a post
+ *
+ * Unflagging a post dismisses its open reports.
+ */
+export const postStatusSchema = z
+  .object({
+    isEndorsed: z.boolean().optional(),
+    isAcceptedAnswer: z.boolean().optional(),
+    isHidden: z.boolean().optional(),
+    isFlagged: z.boolean().optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((value) => value !== undefined),
+    { message: 'At least one field must be provided for update' }
+  )
+
+/**
+ * Schema for a student reporting a post
+ */
+export const postReportSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Please say why you are reporting this post')
+    .max(500, 'Reason must be 500 characters or less'),
+})
+
+/**
+ * Schema for an instructor removing a post
+ */
+export const postRemovalSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'A reason is required')
+    .max(500, 'Reason must be 500 characters or less'),
+})
+
+/**
+ * Schema for grading a student's participation in a discussion
+ */
+export const discussionParticipationGradeSchema = z.object({
+  studentId: z.string().min(1, 'Student ID is required'),
+  points: z.number().min(0, 'Points cannot be negative'),
+  feedback: z
+    .string()
+    .max(5000, 'Feedback must be 5000 characters or less')
+    .optional()
+    .nullable(),
+})
+
 // ============================================
 // Type Exports
 // ============================================
 
+export type DiscussionGradingInput = z.infer<typeof discussionGradingSchema>
+export type DiscussionParticipationGradeInput = z.infer<typeof discussionParticipationGradeSchema>
 export type CreateDiscussionInput = z.infer<typeof createDiscussionSchema>
 export type UpdateDiscussionInput = z.infer<typeof updateDiscussionSchema>
 export type CreateDiscussionPostInput = z.infer<typeof createDiscussionPostSchema>
 export type UpdateDiscussionPostInput = z.infer<typeof updateDiscussionPostSchema>
+export type PostReactionInput = z.infer<typeof postReactionSchema>
+export type AcceptAnswerInput = z.infer<typeof acceptAnswerSchema>
+export type PostStatusInput = z.infer<typeof postStatusSchema>
+export type PostReportInput = z.infer<typeof postReportSchema>
+export type PostRemovalInput = z.infer<typeof postRemovalSchema>
@@ -0,0 +1,73 @@
+/**
+ * Extension & Accommodation Validation Schemas
+ *
+ * Zod schemas for per-student due date extensions and course accommodations.
+ */
+
+import { z } from 'zod'
+
+// ============================================
+// Shared Fields
+// ============================================
+
+const studentIdSchema = z.string().min(1, 'Student is required')
+
+const reasonSchema = z
+  .string()
+  .trim()
+  .max(500, 'Reason must be 500 characters or less')
+  .optional()
+  .nullable()
+
+// ============================================
+// Extension Schemas
+// ============================================
+
+/**
+ * Schema for granting (or replacing) a student's extension on an assignment
+ */
+export const assignmentExtensionSchema = z.object({
+  studentId: studentIdSchema,
+  dueDate: z.string().datetime('Invalid date format (use ISO 8601)'),
+  reason: reasonSchema,
+})
+
+// ============================================
+// Accommodation Schemas
+// ============================================
+
+/**
+ * Schema for granting (or replacing) a student's course-wide accommodation
+ *
+ * extraTimePercent lengthens every assignment window (e.g. 50 = +50% time);
+ * extraHours adds a fixed amount on top.
+ */
+export const courseAccommodationSchema = z
+  .object({
+    studentId: studentIdSchema,
+    extraTimePercent: z
+      .number()
+      .min(0, 'Extra time cannot be negative')
+      .max(300, 'Extra time cannot exceed 300%')
+      .optional()
+      .default(0),
+    extraHours: z
+      .number()
+      .int('Extra hours must be a whole number')
+      .min(0, 'Extra hours cannot be negative')
+      .max(720, 'Extra hours cannot exceed 30 days')
+      .optional()
+      .default(0),
+    reason: reasonSchema,
+  })
+  .refine(
+    (data) => data.extraTimePercent > 0 || data.extraHours > 0,
+    { message: 'Accommodation must add extra time', path: ['extraTimePercent'] }
+  )
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type AssignmentExtensionInput = z.infer<typeof assignmentExtensionSchema>
+export type CourseAccommodationInput = z.infer<typeof courseAccommodationSchema>
@@ -69,6 +69,50 @@ export const bulkGradeSchema = z.object({
   ).min(1, 'At least one grade is required'),
 })
 
+// ============================================
+// Grade History Schemas
+// ============================================
+
+/**
+ * Ways a grade can be changed, as recorded in the grade history
+ */
+export const gradeChangeSourceValues = [
+  'GRADEBOOK',
+  'SUBMISSION_GRADING',
+  'CSV_IMPORT',
+  'COUNTED_ATTEMPT',
+  'ATTEMPT_POLICY',
+  'QUIZ',
+  'SCORM',
+  'DISCUSSION',
+] as const
+
+/**
+ * Schema for the history of one gradebook cell
+ */
+export const gradeHistoryQuerySchema = z.object({
+  assignmentId: z.string().min(1, 'Assignment ID is required'),
+  studentId: z.string().min(1, 'Student ID is required'),
+})
+
+/**
+ * Schema for the admin grade audit report query parameters
+ */
+export const gradeAuditQuerySchema = z
+  .object({
+    courseId: z.string().optional(),
+    search: z.string().max(200, 'Search must be 200 characters or less').optional(),
+    source: z.enum(gradeChangeSourceValues).optional(),
+    from: z.coerce.date('Invalid date format').optional(),
+    to: z.coerce.date('Invalid date format').optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'From date must be before or equal to To date',
+    path: ['from'],
+  })
+
 // ============================================
 // Type Exports
 // ============================================
@@ -76,3 +120,5 @@ export const bulkGradeSchema = z.object({
 export type GradeSubmissionInput = z.infer<typeof gradeSubmissionSchema>
 export type UpdateGradeInput = z.infer<typeof updateGradeSchema>
 export type BulkGradeInput = z.infer<typeof bulkGradeSchema>
+export type GradeHistoryQueryInput = z.infer<typeof gradeHistoryQuerySchema>
+export type GradeAuditQueryInput = z.infer<typeof gradeAuditQuerySchema>
@@ -0,0 +1,51 @@
+/**
+ * Grade Category Validation Schemas
+ *
+ * Zod schemas for validating grade category API requests.
+ */
+
+import { z } from 'zod'
+import { stringWithLength } from '@/lib/validation'
+import { MAX_TOTAL_CATEGORY_WEIGHT } from '@/lib/grade-categories'
+
+// ============================================
+// Grade Category Schemas
+// ============================================
+
+/**
+ * Category weight in percent
+ */
+const categoryWeightSchema = z
+  .number()
+  .min(0, 'Weight cannot be negative')
+  .max(MAX_TOTAL_CATEGORY_WEIGHT, `Weight cannot exceed ${MAX_TOTAL_CATEGORY_WEIGHT}%`)
+
+/**
+ * Schema for creating a grade category
+ */
+export const gradeCategorySchema = z.object({
+  name: stringWithLength(1, 100, 'Category name'),
+  weight: categoryWeightSchema,
+  orderIndex: z.number().int().min(0).optional(),
+})
+
+/**
+ * Schema for updating a grade category (partial updates)
+ */
+export const updateGradeCategorySchema = z
+  .object({
+    name: stringWithLength(1, 100, 'Category name').optional(),
+    weight: categoryWeightSchema.optional(),
+    orderIndex: z.number().int().min(0).optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((v) => v !== undefined),
+    { message: 'At least one field must be provided for update' }
+  )
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type GradeCategoryInput = z.infer<typeof gradeCategorySchema>
+export type UpdateGradeCategoryInput = z.infer<typeof updateGradeCategorySchema>
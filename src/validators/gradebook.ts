@@ -35,6 +35,7 @@ export type GradeStatusFilter = (typeof gradeStatusValues)[number];
  * - submissionId: valid CUID format
  * - grade: numeric value >= 0
  * - feedback: optional string (max 5000 chars), sanitized
+ * - reason: optional reason for the change (max 500 chars), kept in the grade history
  *
  * Note: maxPoints validation is performed in the API route after
  * fetching the assignment to get the actual maxPoints value.
@@ -50,6 +51,15 @@ export const gradeUpdateSchema = z.object({
     .transform(sanitizeHtml)
     .optional()
     .nullable(),
+  reason: z
+    .string()
+    .trim()
+    .max(500, 'Reason must be 500 characters or less')
+    .transform(sanitizeHtml)
+    .optional()
+    .nullable(),
+  /** On a group submission, grade every member's copy of the attempt */
+  applyToGroup: z.boolean().optional(),
 });
 
 /**
@@ -66,6 +76,32 @@ export const bulkGradeUpdateSchema = z.object({
 
 export type BulkGradeUpdateInput = z.infer<typeof bulkGradeUpdateSchema>;
 
+// ============================================
+// Gradebook Import Schemas
+// ============================================
+
+/**
+ * Maximum size of an imported gradebook CSV (characters)
+ */
+export const MAX_GRADEBOOK_IMPORT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Schema for gradebook CSV import requests
+ *
+ * Validates:
+ * - csv: the file content, in the layout produced by the CSV export
+ * - dryRun: when true (the default), only report the changes the import would make
+ */
+export const gradebookImportSchema = z.object({
+  csv: z
+    .string()
+    .min(1, 'The CSV file is empty')
+    .max(MAX_GRADEBOOK_IMPORT_SIZE, 'The CSV file must be 5MB or less'),
+  dryRun: z.boolean().optional().default(true),
+});
+
+export type GradebookImportInput = z.infer<typeof gradebookImportSchema>;
+
 // ============================================
 // Gradebook Filter Schemas (Story 2.3)
 // ============================================
@@ -93,6 +129,7 @@ const dateStringSchema = z
  * - dateFrom: Optional ISO date string for filtering by assignment due date
  * - dateTo: Optional ISO date string for filtering by assignment due date
  * - status: Optional enum for filtering by grade status
+ * - sectionId: Optional section to limit the students to
  *
  * Includes cross-field validation to ensure dateFrom <= dateTo when both provided.
  */
@@ -119,6 +156,11 @@ export const gradebookFiltersSchema = z
       .enum(gradeStatusValues)
       .optional()
       .default('all'),
+    sectionId: z
+      .string()
+      .max(100)
+      .optional()
+      .transform((val) => val || undefined),
   })
   .refine(
     (data) => {
@@ -164,6 +206,7 @@ export function parseGradebookFilters(
     dateFrom: searchParams.get('dateFrom') || undefined,
     dateTo: searchParams.get('dateTo') || undefined,
     status: searchParams.get('status') || undefined,
+    sectionId: searchParams.get('sectionId') || undefined,
   };
 
   const result = gradebookFiltersSchema.safeParse(rawFilters);
@@ -184,6 +227,7 @@ export function hasActiveFilters(filters: Partial<GradebookFilters>): boolean {
     filters.assignmentId !== undefined ||
     filters.dateFrom !== undefined ||
     filters.dateTo !== undefined ||
+    filters.sectionId !== undefined ||
     (filters.status !== undefined && filters.status !== 'all')
   );
 }
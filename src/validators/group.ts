@@ -0,0 +1,61 @@
+/**
+ * Student Group Validation Schemas
+ *
+ * Zod schemas for creating, editing and auto-generating student groups
+ * within a course.
+ */
+
+import { z } from 'zod'
+import { stringWithLength } from '@/lib/validation'
+
+// ============================================
+// Group Schemas
+// ============================================
+
+const groupMembersSchema = z
+  .array(z.string().min(1, 'Student is required'))
+  .max(100, 'A group can have at most 100 members')
+
+/**
+ * Schema for creating a group
+ *
+ * Students already in another group of the course are moved to this one.
+ */
+export const studentGroupSchema = z.object({
+  name: stringWithLength(1, 100, 'Group name'),
+  studentIds: groupMembersSchema.optional().default([]),
+})
+
+/**
+ * Schema for renaming a group and/or replacing its members
+ */
+export const updateStudentGroupSchema = z
+  .object({
+    name: stringWithLength(1, 100, 'Group name').optional(),
+    studentIds: groupMembersSchema.optional(),
+  })
+  .refine(
+    (data) => data.name !== undefined || data.studentIds !== undefined,
+    { message: 'At least one field must be provided for update' }
+  )
+
+/**
+ * Schema for automatically splitting students into groups
+ */
+export const autoGroupSchema = z.object({
+  groupSize: z
+    .number()
+    .int('Group size must be a whole number')
+    .min(2, 'Groups must have at least 2 members')
+    .max(100, 'Groups can have at most 100 members'),
+  /** Delete the existing groups and regroup everyone, instead of grouping only ungrouped students */
+  replaceExisting: z.boolean().optional().default(false),
+})
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type StudentGroupInput = z.infer<typeof studentGroupSchema>
+export type UpdateStudentGroupInput = z.infer<typeof updateStudentGroupSchema>
+export type AutoGroupInput = z.infer<typeof autoGroupSchema>
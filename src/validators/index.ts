@@ -44,6 +44,12 @@ export {
   updateAssignmentSchema,
   createSubmissionSchema,
   updateSubmissionSchema,
+  latePolicySchema,
+  latePolicyValues,
+  attemptSettingsSchema,
+  gradedAttemptPolicyValues,
+  type LatePolicyInput,
+  type AttemptSettingsInput,
   type CreateAssignmentInput,
   type UpdateAssignmentInput,
   type CreateSubmissionInput,
@@ -55,21 +61,40 @@ export {
   gradeSubmissionSchema,
   updateGradeSchema,
   bulkGradeSchema,
+  gradeChangeSourceValues,
+  gradeHistoryQuerySchema,
+  gradeAuditQuerySchema,
   type GradeSubmissionInput,
   type UpdateGradeInput,
   type BulkGradeInput,
+  type GradeHistoryQueryInput,
+  type GradeAuditQueryInput,
 } from './grade'
 
 // Discussion schemas
 export {
+  discussionGradingSchema,
+  discussionParticipationGradeSchema,
   createDiscussionSchema,
   updateDiscussionSchema,
   createDiscussionPostSchema,
   updateDiscussionPostSchema,
+  postReactionSchema,
+  acceptAnswerSchema,
+  postStatusSchema,
+  postReportSchema,
+  postRemovalSchema,
   type CreateDiscussionInput,
   type UpdateDiscussionInput,
   type CreateDiscussionPostInput,
   type UpdateDiscussionPostInput,
+  type PostReactionInput,
+  type AcceptAnswerInput,
+  type PostStatusInput,
+  type PostReportInput,
+  type PostRemovalInput,
+  type DiscussionGradingInput,
+  type DiscussionParticipationGradeInput,
 } from './discussion'
 
 // Announcement schemas
@@ -98,6 +123,8 @@ export {
 export {
   gradeUpdateSchema,
   bulkGradeUpdateSchema,
+  gradebookImportSchema,
+  MAX_GRADEBOOK_IMPORT_SIZE,
   gradebookFiltersSchema,
   courseIdSchema,
   gradeStatusValues,
@@ -105,6 +132,7 @@ export {
   hasActiveFilters,
   type GradeUpdateInput,
   type BulkGradeUpdateInput,
+  type GradebookImportInput,
   type GradebookFilters,
   type GradebookFiltersInput,
   type GradeStatusFilter,
@@ -127,3 +155,101 @@ export {
   type TemplateQueryInput,
   type TemplateCategory,
 } from './feedbackTemplate'
+
+// Grade category schemas
+export {
+  gradeCategorySchema,
+  updateGradeCategorySchema,
+  type GradeCategoryInput,
+  type UpdateGradeCategoryInput,
+} from './gradeCategory'
+
+// Extension & accommodation schemas
+export {
+  assignmentExtensionSchema,
+  courseAccommodationSchema,
+  type AssignmentExtensionInput,
+  type CourseAccommodationInput,
+} from './extension'
+
+// Section schemas
+export {
+  sectionSchema,
+  sectionMembersSchema,
+  sectionDueDateSchema,
+  type SectionInput,
+  type SectionMembersInput,
+  type SectionDueDateInput,
+} from './section'
+
+// Student group schemas
+export {
+  studentGroupSchema,
+  updateStudentGroupSchema,
+  autoGroupSchema,
+  type StudentGroupInput,
+  type UpdateStudentGroupInput,
+  type AutoGroupInput,
+} from './group'
+
+// Rubric schemas
+export {
+  rubricLevelSchema,
+  rubricCriterionSchema,
+  rubricSchema,
+  updateRubricSchema,
+  rubricScoreSchema,
+  rubricScoresSchema,
+  type RubricLevelInput,
+  type RubricCriterionInput,
+  type RubricInput,
+  type UpdateRubricInput,
+  type RubricScoreInput,
+} from './rubric'
+
+// Quiz schemas
+export {
+  quizQuestionTypeValues,
+  quizOptionSchema,
+  quizQuestionSchema,
+  questionBankSchema,
+  updateQuestionBankSchema,
+  quizSettingsSchema,
+  quizAnswerSchema,
+  quizSubmissionSchema,
+  type QuizOptionInput,
+  type QuizQuestionInput,
+  type QuestionBankInput,
+  type UpdateQuestionBankInput,
+  type QuizSettingsInput,
+  type QuizAnswerInput,
+  type QuizSubmissionInput,
+} from './quiz'
+
+// SCORM schemas
+export {
+  scormSettingsSchema,
+  scormCommitSchema,
+  type ScormSettingsInput,
+  type ScormCommitInput,
+} from './scorm'
+
+// Audit log schemas
+export {
+  auditLogQuerySchema,
+  auditLogExportQuerySchema,
+  type AuditLogQueryInput,
+  type AuditLogExportQueryInput,
+} from './auditLog'
+
+// Notification schemas
+export {
+  notificationTypeValues,
+  notificationQuerySchema,
+  notificationPreferencesSchema,
+  type NotificationQueryInput,
+  type NotificationPreferencesInput,
+} from './notification'
+
+// Publish schedule schemas
+export { publishDateSchema, publishScheduleSchema, type PublishScheduleInput } from './publishing'
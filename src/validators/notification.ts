@@ -0,0 +1,67 @@
+/**
+ * Notification Validation Schemas
+ *
+ * Zod schemas for the notification inbox and notification preferences.
+ */
+
+import { z } from 'zod'
+
+// ============================================
+// Notification Types
+// ============================================
+
+/**
+ * Notification types (mirrors the NotificationType enum)
+ */
+export const notificationTypeValues = [
+  'ANNOUNCEMENT',
+  'GRADE_POSTED',
+  'SUBMISSION_RECEIVED',
+  'DISCUSSION_REPLY',
+  'DISCUSSION_MENTION',
+] as const
+
+// ============================================
+// Query Schemas
+// ============================================
+
+/**
+ * Schema for the notification list query parameters
+ */
+export const notificationQuerySchema = z.object({
+  unreadOnly: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+})
+
+// ============================================
+// Preference Schemas
+// ============================================
+
+/**
+ * Schema for updating notification preferences
+ *
+ * Only the listed types are changed; others keep their current setting.
+ */
+export const notificationPreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: z.enum(notificationTypeValues),
+        inApp: z.boolean(),
+        email: z.boolean(),
+      })
+    )
+    .min(1, 'At least one preference is required')
+    .max(notificationTypeValues.length),
+})
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type NotificationQueryInput = z.infer<typeof notificationQuerySchema>
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>
@@ -0,0 +1,40 @@
+/**
+ * Publish Schedule Validation Schemas
+ *
+ * Zod schema for the publish window shared by modules, content, assignments
+ * and announcements.
+ */
+
+import { z } from 'zod'
+
+// ============================================
+// Schedule Schemas
+// ============================================
+
+/**
+ * A publish window date: ISO 8601 string, or null to clear it
+ */
+export const publishDateSchema = z
+  .string()
+  .datetime('Invalid date format (use ISO 8601)')
+  .transform((value) => new Date(value))
+  .nullable()
+  .optional()
+
+/**
+ * Schema for publish window fields in create and update requests
+ *
+ * An omitted field is left unchanged on update. Whether the window closes
+ * after it opens is checked against the stored dates by the route
+ * (`validatePublishWindow`), since an update may change only one of them.
+ */
+export const publishScheduleSchema = z.object({
+  publishAt: publishDateSchema,
+  unpublishAt: publishDateSchema,
+})
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type PublishScheduleInput = z.infer<typeof publishScheduleSchema>
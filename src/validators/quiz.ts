@@ -0,0 +1,197 @@
+/**
+ * Quiz Validation Schemas
+ *
+ * Zod schemas for question banks, quiz settings and quiz attempts.
+ */
+
+import { z } from 'zod'
+import { stringWithLength } from '@/lib/validation'
+import { attemptSettingsSchema } from './assignment'
+
+// ============================================
+// Question Bank Schemas
+// ============================================
+
+/**
+ * Question type values (mirrors the QuizQuestionType enum)
+ */
+export const quizQuestionTypeValues = [
+  'MULTIPLE_CHOICE',
+  'MULTI_SELECT',
+  'TRUE_FALSE',
+  'NUMERIC',
+  'SHORT_ANSWER',
+] as const
+
+/**
+ * Schema for an answer option of a choice question
+ */
+export const quizOptionSchema = z.object({
+  text: stringWithLength(1, 500, 'Option text'),
+  isCorrect: z.boolean(),
+})
+
+/**
+ * Schema for a question
+ *
+ * Which answer fields are required depends on the question type.
+ */
+export const quizQuestionSchema = z
+  .object({
+    type: z.enum(quizQuestionTypeValues),
+    prompt: stringWithLength(1, 5000, 'Question'),
+    points: z
+      .number()
+      .positive('Points must be greater than 0')
+      .max(1000, 'Points cannot exceed 1000')
+      .optional()
+      .default(1),
+    options: z.array(quizOptionSchema).max(10, 'A question can have at most 10 options').optional(),
+    trueFalseAnswer: z.boolean().optional().nullable(),
+    numericAnswer: z.number().optional().nullable(),
+    numericTolerance: z.number().min(0, 'Tolerance cannot be negative').optional().nullable(),
+    acceptedAnswers: z
+      .array(z.string().trim().min(1).max(500))
+      .max(20, 'A question can have at most 20 accepted answers')
+      .optional(),
+    caseSensitive: z.boolean().optional(),
+  })
+  .superRefine((question, ctx) => {
+    const options = question.options ?? []
+    const correctCount = options.filter((option) => option.isCorrect).length
+
+    switch (question.type) {
+      case 'MULTIPLE_CHOICE':
+        if (options.length < 2) {
+          ctx.addIssue({ code: 'custom', path: ['options'], message: 'Add at least two options' })
+        } else if (correctCount !== 1) {
+          ctx.addIssue({ code: 'custom', path: ['options'], message: 'Mark exactly one option as correct' })
+        }
+        break
+      case 'MULTI_SELECT':
+        if (options.length < 2) {
+          ctx.addIssue({ code: 'custom', path: ['options'], message: 'Add at least two options' })
+        } else if (correctCount < 1) {
+          ctx.addIssue({ code: 'custom', path: ['options'], message: 'Mark at least one option as correct' })
+        }
+        break
+      case 'TRUE_FALSE':
+        if (question.trueFalseAnswer == null) {
+          ctx.addIssue({ code: 'custom', path: ['trueFalseAnswer'], message: 'Choose whether the statement is true or false' })
+        }
+        break
+      case 'NUMERIC':
+        if (question.numericAnswer == null) {
+          ctx.addIssue({ code: 'custom', path: ['numericAnswer'], message: 'Enter the expected answer' })
+        }
+        break
+      case 'SHORT_ANSWER':
+        if (!question.acceptedAnswers?.length) {
+          ctx.addIssue({ code: 'custom', path: ['acceptedAnswers'], message: 'Add at least one accepted answer' })
+        }
+        break
+    }
+  })
+
+/**
+ * Schema for creating or replacing a question bank
+ *
+ * Questions are stored in the order given.
+ */
+export const questionBankSchema = z.object({
+  name: stringWithLength(1, 100, 'Bank name'),
+  description: z
+    .string()
+    .trim()
+    .max(1000, 'Description must be 1000 characters or less')
+    .optional()
+    .nullable(),
+  questions: z
+    .array(quizQuestionSchema)
+    .min(1, 'A question bank needs at least one question')
+    .max(200, 'A question bank can have at most 200 questions'),
+})
+
+/**
+ * Schema for updating a question bank (partial updates)
+ *
+ * When questions are given they replace the bank's existing questions.
+ */
+export const updateQuestionBankSchema = z
+  .object({
+    name: questionBankSchema.shape.name.optional(),
+    description: questionBankSchema.shape.description,
+    questions: questionBankSchema.shape.questions.optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((v) => v !== undefined),
+    { message: 'At least one field must be provided for update' }
+  )
+
+// ============================================
+// Quiz Schemas
+// ============================================
+
+/**
+ * Schema for a quiz's settings, sent with QUIZ course content
+ */
+export const quizSettingsSchema = z.object({
+  bankId: z.string().min(1, 'Question bank is required'),
+  questionCount: z
+    .number()
+    .int('Question count must be a whole number')
+    .min(1, 'Draw at least one question')
+    .optional()
+    .nullable(),
+  timeLimitMinutes: z
+    .number()
+    .int('Time limit must be a whole number of minutes')
+    .min(1, 'Time limit must be at least 1 minute')
+    .max(600, 'Time limit cannot exceed 10 hours')
+    .optional()
+    .nullable(),
+  shuffleQuestions: z.boolean().optional().default(false),
+  shuffleOptions: z.boolean().optional().default(false),
+  maxPoints: z
+    .number()
+    .int('Points must be a whole number')
+    .min(1, 'Points must be at least 1')
+    .max(10000, 'Points cannot exceed 10000')
+    .optional()
+    .default(100),
+  dueDate: z
+    .string()
+    .datetime('Invalid date format (use ISO 8601)')
+    .optional()
+    .nullable(),
+  ...attemptSettingsSchema.shape,
+})
+
+/**
+ * Schema for the answer to one question
+ */
+export const quizAnswerSchema = z.object({
+  questionId: z.string().min(1, 'Question is required'),
+  selectedOptionIds: z.array(z.string().min(1)).max(10).optional().nullable(),
+  numericAnswer: z.number().optional().nullable(),
+  textAnswer: z.string().max(1000, 'Answer must be 1000 characters or less').optional().nullable(),
+})
+
+/**
+ * Schema for submitting a quiz attempt
+ */
+export const quizSubmissionSchema = z.object({
+  answers: z.array(quizAnswerSchema).max(200),
+})
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type QuizOptionInput = z.infer<typeof quizOptionSchema>
+export type QuizQuestionInput = z.infer<typeof quizQuestionSchema>
+export type QuestionBankInput = z.infer<typeof questionBankSchema>
+export type UpdateQuestionBankInput = z.infer<typeof updateQuestionBankSchema>
+export type QuizSettingsInput = z.infer<typeof quizSettingsSchema>
+export type QuizAnswerInput = z.infer<typeof quizAnswerSchema>
+export type QuizSubmissionInput = z.infer<typeof quizSubmissionSchema>
@@ -0,0 +1,110 @@
+/**
+ * Rubric Validation Schemas
+ *
+ * Zod schemas for rubric definitions and rubric-based grading.
+ */
+
+import { z } from 'zod'
+import { stringWithLength } from '@/lib/validation'
+
+// ============================================
+// Shared Fields
+// ============================================
+
+const optionalDescriptionSchema = z
+  .string()
+  .trim()
+  .max(1000, 'Description must be 1000 characters or less')
+  .optional()
+  .nullable()
+
+// ============================================
+// Rubric Definition Schemas
+// ============================================
+
+/**
+ * Schema for a performance level within a criterion
+ */
+export const rubricLevelSchema = z.object({
+  label: stringWithLength(1, 100, 'Level label'),
+  description: optionalDescriptionSchema,
+  points: z
+    .number()
+    .min(0, 'Level points cannot be negative')
+    .max(1000, 'Level points cannot exceed 1000'),
+})
+
+/**
+ * Schema for a criterion and its performance levels
+ */
+export const rubricCriterionSchema = z.object({
+  title: stringWithLength(1, 200, 'Criterion title'),
+  description: optionalDescriptionSchema,
+  levels: z
+    .array(rubricLevelSchema)
+    .min(1, 'Each criterion needs at least one level')
+    .max(10, 'A criterion can have at most 10 levels'),
+})
+
+/**
+ * Schema for creating or replacing a rubric
+ *
+ * Criteria and levels are stored in the order given.
+ */
+export const rubricSchema = z.object({
+  name: stringWithLength(1, 100, 'Rubric name'),
+  description: optionalDescriptionSchema,
+  criteria: z
+    .array(rubricCriterionSchema)
+    .min(1, 'A rubric needs at least one criterion')
+    .max(30, 'A rubric can have at most 30 criteria'),
+})
+
+/**
+ * Schema for updating a rubric (partial updates)
+ *
+ * When criteria are given they replace the rubric's existing criteria.
+ */
+export const updateRubricSchema = z
+  .object({
+    name: stringWithLength(1, 100, 'Rubric name').optional(),
+    description: optionalDescriptionSchema,
+    criteria: rubricSchema.shape.criteria.optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((v) => v !== undefined),
+    { message: 'At least one field must be provided for update' }
+  )
+
+// ============================================
+// Rubric Grading Schemas
+// ============================================
+
+/**
+ * Schema for the score given to one criterion
+ */
+export const rubricScoreSchema = z.object({
+  criterionId: z.string().min(1, 'Criterion is required'),
+  levelId: z.string().min(1).optional().nullable(),
+  points: z.number().min(0, 'Points cannot be negative').optional().nullable(),
+  comment: z
+    .string()
+    .max(2000, 'Comment must be 2000 characters or less')
+    .optional()
+    .nullable(),
+})
+
+/**
+ * Schema for the per-criterion scores sent with a grade
+ */
+export const rubricScoresSchema = z.array(rubricScoreSchema).max(30)
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type RubricLevelInput = z.infer<typeof rubricLevelSchema>
+export type RubricCriterionInput = z.infer<typeof rubricCriterionSchema>
+export type RubricInput = z.infer<typeof rubricSchema>
+export type UpdateRubricInput = z.infer<typeof updateRubricSchema>
+export type RubricScoreInput = z.infer<typeof rubricScoreSchema>
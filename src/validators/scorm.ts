@@ -0,0 +1,57 @@
+/**
+ * SCORM Validation Schemas
+ *
+ * Zod schemas for SCORM package settings and runtime commits.
+ */
+
+import { z } from 'zod'
+
+// ============================================
+// Package Schemas
+// ============================================
+
+/**
+ * Schema for the SCORM settings of a content item
+ *
+ * `packageKey` is the R2 key of an uploaded zip (required when the content is
+ * created, and when replacing the package). `maxPoints` grades the package;
+ * null leaves it ungraded.
+ */
+export const scormSettingsSchema = z.object({
+  packageKey: z
+    .string()
+    .min(1, 'SCORM package is required')
+    .regex(/\.zip$/i, 'SCORM packages must be .zip files')
+    .optional(),
+  maxPoints: z
+    .number()
+    .int('Points must be a whole number')
+    .min(1, 'Points must be at least 1')
+    .max(10000, 'Points cannot exceed 10000')
+    .optional()
+    .nullable(),
+})
+
+// ============================================
+// Runtime Schemas
+// ============================================
+
+/**
+ * Schema for `cmi` data committed by the SCORM runtime
+ */
+export const scormCommitSchema = z.object({
+  values: z
+    .record(
+      z.string().regex(/^cmi\.[\w.]+$/, 'Invalid data model element').max(255),
+      z.string().max(65536, 'Data model value is too long')
+    )
+    .refine((values) => Object.keys(values).length <= 5000, 'Too many data model elements'),
+  finished: z.boolean().optional().default(false),
+})
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type ScormSettingsInput = z.infer<typeof scormSettingsSchema>
+export type ScormCommitInput = z.infer<typeof scormCommitSchema>
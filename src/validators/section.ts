@@ -0,0 +1,53 @@
+/**
+ * Course Section Validation Schemas
+ *
+ * Zod schemas for sections (cohorts) within a course, moving students
+ * between them and section due dates.
+ */
+
+import { z } from 'zod'
+import { stringWithLength } from '@/lib/validation'
+
+// ============================================
+// Section Schemas
+// ============================================
+
+/**
+ * Schema for creating or renaming a section
+ */
+export const sectionSchema = z.object({
+  name: stringWithLength(1, 100, 'Section name'),
+})
+
+/**
+ * Schema for moving enrolled students into a section
+ *
+ * A null sectionId removes the students from their section.
+ */
+export const sectionMembersSchema = z.object({
+  sectionId: z.string().min(1, 'Section is required').nullable(),
+  studentIds: z
+    .array(z.string().min(1, 'Student is required'))
+    .min(1, 'Select at least one student')
+    .max(1000, 'At most 1000 students can be moved at once'),
+})
+
+// ============================================
+// Section Due Date Schemas
+// ============================================
+
+/**
+ * Schema for setting (or replacing) an assignment's due date for a section
+ */
+export const sectionDueDateSchema = z.object({
+  sectionId: z.string().min(1, 'Section is required'),
+  dueDate: z.string().datetime('Invalid date format (use ISO 8601)'),
+})
+
+// ============================================
+// Type Exports
+// ============================================
+
+export type SectionInput = z.infer<typeof sectionSchema>
+export type SectionMembersInput = z.infer<typeof sectionMembersSchema>
+export type SectionDueDateInput = z.infer<typeof sectionDueDateSchema>
@@ -57,6 +57,12 @@ export const createUserSchema = registerUserSchema.extend({
   role: z.enum(['STUDENT', 'INSTRUCTOR', 'ADMIN']).optional().default('STUDENT'),
 })
 
+/**
+ * Schema for a row of a bulk user import
+ * Temporary passwords are generated, so rows have none
+ */
+export const importUserRowSchema = createUserSchema.omit({ password: true })
+
 /**
  * Schema for updating a user
  * All fields optional, but at least one must be provided
@@ -142,6 +148,32 @@ export const userSearchSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(50),
 })
 
+/**
+ * Maximum size of a bulk user import CSV (characters)
+ */
+export const MAX_USER_IMPORT_SIZE = 2 * 1024 * 1024
+
+/**
+ * Schema for a bulk user import
+ *
+ * - csv: the file content, one user per row
+ * - courseCodes: courses every imported student is enrolled in, in addition
+ *   to those listed in the file
+ * - dryRun: when true (the default), only report what the import would do
+ */
+export const userImportSchema = z.object({
+  csv: z
+    .string()
+    .min(1, 'The CSV file is empty')
+    .max(MAX_USER_IMPORT_SIZE, 'The CSV file must be 2MB or less'),
+  courseCodes: z
+    .array(z.string().trim().min(1, 'Course code is required'))
+    .max(20, 'At most 20 courses can be given')
+    .optional()
+    .default([]),
+  dryRun: z.boolean().optional().default(true),
+})
+
 // ============================================
 // Type Exports
 // ============================================
@@ -154,3 +186,5 @@ export type LoginInput = z.infer<typeof loginSchema>
 export type AdminCreateUserInput = z.infer<typeof adminCreateUserSchema>
 export type AdminUpdateUserInput = z.infer<typeof adminUpdateUserSchema>
 export type UserSearchInput = z.infer<typeof userSearchSchema>
+export type ImportUserRowInput = z.infer<typeof importUserRowSchema>
+export type UserImportInput = z.infer<typeof userImportSchema>